@@ -37,6 +37,10 @@ import contactRouter from '../backend/src/routes/contact';
 import codeAgentsRouter from '../backend/src/routes/codeAgents';
 import codeExecLogsRouter from '../backend/src/routes/codeExecLogs';
 import policiesRouter from '../backend/src/routes/policies';
+import knowledgeBasesRouter from '../backend/src/routes/knowledgeBases';
+import ragEvalsRouter from '../backend/src/routes/ragEvals';
+import llmProvidersRouter from '../backend/src/routes/llmProviders';
+import promptsRouter from '../backend/src/routes/prompts';
 import { swaggerSpec } from '../backend/src/config/swagger';
 import swaggerUi from 'swagger-ui-express';
 import { errorHandler } from '../backend/src/utils/errorHandler';
@@ -50,8 +54,12 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : '*'),
   credentials: true,
 }));
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// Keep the raw request body for webhook signature verification
+const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+  (req as express.Request & { rawBody?: string }).rawBody = buf.toString('utf8');
+};
+app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+app.use(express.urlencoded({ extended: true, limit: '10mb', verify: keepRawBody }));
 
 // Performance monitoring
 app.use(performanceMiddleware);
@@ -99,6 +107,10 @@ app.use('/api/v1/contact', contactRouter);
 app.use('/api/v1/code-agents', codeAgentsRouter);
 app.use('/api/v1/code-exec-logs', codeExecLogsRouter);
 app.use('/api/v1/policies', policiesRouter);
+app.use('/api/v1/knowledge-bases', knowledgeBasesRouter);
+app.use('/api/v1/rag-evals', ragEvalsRouter);
+app.use('/api/v1/llm-providers', llmProvidersRouter);
+app.use('/api/v1/prompts', promptsRouter);
 app.use('/webhooks', webhooksRouter);
 
 app.get('/api/v1', (req, res) => {
@@ -0,0 +1,6 @@
+-- Add response mode to webhook registry
+-- Controls what the /webhooks/:path endpoint returns to the caller:
+-- 'on_completion' (acknowledge after the run), 'response_node' (use the Respond to Webhook node),
+-- 'last_node' (return the last node's output) or 'async' (202 with the execution ID)
+
+ALTER TABLE "webhook_registry" ADD COLUMN IF NOT EXISTS "response_mode" text DEFAULT 'on_completion' NOT NULL;
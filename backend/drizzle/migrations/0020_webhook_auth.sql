@@ -0,0 +1,4 @@
+-- Add per-webhook auth options to webhook registry
+-- Holds HMAC signature, header token, basic auth, IP allowlist and replay protection settings
+
+ALTER TABLE "webhook_registry" ADD COLUMN IF NOT EXISTS "auth" jsonb;
@@ -0,0 +1,4 @@
+-- Add per-step checkpoints so executions can resume after a worker restart
+-- Stores the edges a completed node fired and the payload they carried
+
+ALTER TABLE "execution_steps" ADD COLUMN IF NOT EXISTS "checkpoint" jsonb;
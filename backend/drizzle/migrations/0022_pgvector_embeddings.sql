@@ -0,0 +1,25 @@
+-- Store vector document embeddings in a pgvector column so similarity search
+-- (distance metric, top-K) runs in SQL and can use HNSW/IVFFlat indexes.
+-- ANN indexes are created per vector index by the application, once the
+-- dimensions of its embeddings are known.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE "vector_indexes" ADD COLUMN IF NOT EXISTS "dimensions" integer;
+ALTER TABLE "vector_indexes" ADD COLUMN IF NOT EXISTS "distance_metric" text DEFAULT 'cosine' NOT NULL;
+ALTER TABLE "vector_indexes" ADD COLUMN IF NOT EXISTS "ann_index_type" text DEFAULT 'hnsw' NOT NULL;
+
+-- JSONB arrays ("[0.1, 0.2, ...]") are valid pgvector text input
+ALTER TABLE "vector_documents" ALTER COLUMN "embedding" TYPE vector USING ("embedding"::text)::vector;
+ALTER TABLE "vector_documents" ADD COLUMN IF NOT EXISTS "dimensions" integer;
+UPDATE "vector_documents" SET "dimensions" = vector_dims("embedding") WHERE "dimensions" IS NULL;
+ALTER TABLE "vector_documents" ALTER COLUMN "dimensions" SET NOT NULL;
+
+-- Existing indexes take the dimensions of their documents
+UPDATE "vector_indexes" SET "dimensions" = "documents"."dimensions"
+FROM (
+  SELECT "index_id", max("dimensions") AS "dimensions"
+  FROM "vector_documents"
+  GROUP BY "index_id"
+) AS "documents"
+WHERE "documents"."index_id" = "vector_indexes"."id" AND "vector_indexes"."dimensions" IS NULL;
@@ -0,0 +1,5 @@
+-- Full-text index for keyword (hybrid) retrieval over vector document texts.
+-- The 'simple' configuration does not stem, so codes and IDs match exactly.
+
+CREATE INDEX IF NOT EXISTS "idx_vector_documents_text_fts"
+ON "vector_documents" USING gin (to_tsvector('simple', "text"));
@@ -0,0 +1,5 @@
+-- GIN index for metadata filters on vector queries (equality and "in"
+-- conditions are translated to jsonb containment, @>)
+
+CREATE INDEX IF NOT EXISTS "idx_vector_documents_metadata"
+ON "vector_documents" USING gin ("metadata" jsonb_path_ops);
@@ -0,0 +1,51 @@
+-- Knowledge base uploads (files and texts) and the chunks they produced
+CREATE TABLE IF NOT EXISTS "knowledge_sources" (
+	"id" text PRIMARY KEY NOT NULL,
+	"index_id" text NOT NULL,
+	"organization_id" text,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"mime_type" text,
+	"size_bytes" integer,
+	"content" text,
+	"chunk_size" integer NOT NULL,
+	"chunk_overlap" integer NOT NULL,
+	"chunk_strategy" text NOT NULL,
+	"chunk_count" integer DEFAULT 0 NOT NULL,
+	"metadata" jsonb,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"error" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "knowledge_sources" ADD CONSTRAINT "knowledge_sources_index_id_vector_indexes_id_fk" FOREIGN KEY ("index_id") REFERENCES "vector_indexes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "knowledge_sources" ADD CONSTRAINT "knowledge_sources_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "knowledge_sources" ADD CONSTRAINT "knowledge_sources_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_knowledge_sources_index" ON "knowledge_sources" ("index_id");
+--> statement-breakpoint
+ALTER TABLE "vector_documents" ADD COLUMN IF NOT EXISTS "source_id" text;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "vector_documents" ADD CONSTRAINT "vector_documents_source_id_knowledge_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "knowledge_sources"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_vector_documents_source" ON "vector_documents" ("source_id");
@@ -0,0 +1,115 @@
+-- RAG evaluation datasets (golden questions) and runs against a RAG node
+CREATE TABLE IF NOT EXISTS "rag_eval_datasets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rag_eval_cases" (
+	"id" text PRIMARY KEY NOT NULL,
+	"dataset_id" text NOT NULL,
+	"question" text NOT NULL,
+	"expected_answer" text,
+	"expected_sources" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rag_eval_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"dataset_id" text NOT NULL,
+	"organization_id" text NOT NULL,
+	"workflow_id" text,
+	"node_id" text NOT NULL,
+	"config" jsonb NOT NULL,
+	"judge" jsonb,
+	"status" text DEFAULT 'running' NOT NULL,
+	"metrics" jsonb,
+	"error" text,
+	"created_by" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rag_eval_results" (
+	"id" text PRIMARY KEY NOT NULL,
+	"run_id" text NOT NULL,
+	"case_id" text,
+	"question" text NOT NULL,
+	"answer" text,
+	"retrieved_sources" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"recall" real,
+	"reciprocal_rank" real,
+	"faithfulness" real,
+	"answer_relevance" real,
+	"judge_reasoning" text,
+	"latency_ms" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_datasets" ADD CONSTRAINT "rag_eval_datasets_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_datasets" ADD CONSTRAINT "rag_eval_datasets_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_cases" ADD CONSTRAINT "rag_eval_cases_dataset_id_rag_eval_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "rag_eval_datasets"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_runs" ADD CONSTRAINT "rag_eval_runs_dataset_id_rag_eval_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "rag_eval_datasets"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_runs" ADD CONSTRAINT "rag_eval_runs_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_runs" ADD CONSTRAINT "rag_eval_runs_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_runs" ADD CONSTRAINT "rag_eval_runs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_results" ADD CONSTRAINT "rag_eval_results_run_id_rag_eval_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "rag_eval_runs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "rag_eval_results" ADD CONSTRAINT "rag_eval_results_case_id_rag_eval_cases_id_fk" FOREIGN KEY ("case_id") REFERENCES "rag_eval_cases"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rag_eval_datasets_org" ON "rag_eval_datasets" ("organization_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rag_eval_cases_dataset" ON "rag_eval_cases" ("dataset_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rag_eval_runs_dataset" ON "rag_eval_runs" ("dataset_id", "started_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rag_eval_results_run" ON "rag_eval_results" ("run_id");
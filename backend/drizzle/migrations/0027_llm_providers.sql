@@ -0,0 +1,30 @@
+-- OpenAI-compatible LLM endpoints (vLLM, Ollama, LM Studio, Azure OpenAI) per organization
+CREATE TABLE IF NOT EXISTS "llm_providers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text DEFAULT 'openai_compatible' NOT NULL,
+	"base_url" text NOT NULL,
+	"api_key" text,
+	"headers" text,
+	"api_version" text,
+	"models" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_private" boolean DEFAULT true NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "llm_providers_organization_id_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_providers" ADD CONSTRAINT "llm_providers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_providers" ADD CONSTRAINT "llm_providers_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
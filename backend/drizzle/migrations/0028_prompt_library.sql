@@ -0,0 +1,69 @@
+-- Prompt library: versioned prompt templates referenced from LLM, RAG and agent nodes
+CREATE TABLE IF NOT EXISTS "prompts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"labels" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "prompts_organization_id_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "prompt_versions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"prompt_id" text NOT NULL,
+	"version" text NOT NULL,
+	"template" text NOT NULL,
+	"system_prompt" text,
+	"variables" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"model_defaults" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"changelog" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "prompt_versions_prompt_id_version_unique" UNIQUE("prompt_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "model_cost_logs" ADD COLUMN IF NOT EXISTS "prompt_id" text;
+--> statement-breakpoint
+ALTER TABLE "model_cost_logs" ADD COLUMN IF NOT EXISTS "prompt_version_id" text;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompts" ADD CONSTRAINT "prompts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompts" ADD CONSTRAINT "prompts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompt_versions" ADD CONSTRAINT "prompt_versions_prompt_id_prompts_id_fk" FOREIGN KEY ("prompt_id") REFERENCES "prompts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompt_versions" ADD CONSTRAINT "prompt_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "model_cost_logs" ADD CONSTRAINT "model_cost_logs_prompt_id_prompts_id_fk" FOREIGN KEY ("prompt_id") REFERENCES "prompts"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "model_cost_logs" ADD CONSTRAINT "model_cost_logs_prompt_version_id_prompt_versions_id_fk" FOREIGN KEY ("prompt_version_id") REFERENCES "prompt_versions"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "model_cost_logs_prompt_version_id_idx" ON "model_cost_logs" ("prompt_version_id");
@@ -0,0 +1,17 @@
+-- Store API keys as SHA-256 hashes with a visible prefix instead of plaintext
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "key_hash" text;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "key_prefix" text;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN IF NOT EXISTS "rate_limit_per_minute" integer;--> statement-breakpoint
+DO $$ BEGIN
+ IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'key') THEN
+  UPDATE "api_keys" SET "key_hash" = encode(sha256(convert_to("key", 'UTF8')), 'hex'), "key_prefix" = left("key", 12) WHERE "key_hash" IS NULL;
+ END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "key_hash" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "key_prefix" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash");
+EXCEPTION
+ WHEN duplicate_object OR duplicate_table THEN null;
+END $$;--> statement-breakpoint
+ALTER TABLE "api_keys" DROP COLUMN IF EXISTS "key";
@@ -0,0 +1,42 @@
+-- Connector triggers: provider webhooks and polling cursors for trigger.<connector>.<event> nodes
+CREATE TABLE IF NOT EXISTS "connector_triggers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"organization_id" text,
+	"workflow_id" text NOT NULL,
+	"node_id" text NOT NULL,
+	"connector_id" text NOT NULL,
+	"trigger_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"poll_interval" integer DEFAULT 300 NOT NULL,
+	"cursor" text,
+	"seen_event_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"webhook_id" text,
+	"webhook_secret" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"last_polled_at" timestamp,
+	"last_event_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "connector_triggers_workflow_id_node_id_unique" UNIQUE("workflow_id","node_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "connector_triggers" ADD CONSTRAINT "connector_triggers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "connector_triggers" ADD CONSTRAINT "connector_triggers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "connector_triggers" ADD CONSTRAINT "connector_triggers_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
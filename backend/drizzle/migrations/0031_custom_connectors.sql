@@ -0,0 +1,26 @@
+-- Custom connectors imported from OpenAPI 3 specs or Postman collections, per organization
+CREATE TABLE IF NOT EXISTS "custom_connectors" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"connector_id" text NOT NULL,
+	"name" text NOT NULL,
+	"version" text DEFAULT '1.0.0' NOT NULL,
+	"source_type" text NOT NULL,
+	"manifest" jsonb NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "custom_connectors_connector_id_unique" UNIQUE("connector_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "custom_connectors" ADD CONSTRAINT "custom_connectors_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "custom_connectors" ADD CONSTRAINT "custom_connectors_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
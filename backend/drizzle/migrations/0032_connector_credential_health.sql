@@ -0,0 +1,10 @@
+-- Credential health: refresh/health-check state of stored connector credentials
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'active' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "failure_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "last_error" text;
+--> statement-breakpoint
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "last_refreshed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "last_checked_at" timestamp;
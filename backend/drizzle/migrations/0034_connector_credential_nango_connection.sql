@@ -0,0 +1,2 @@
+-- Nango connection id of credentials stored by the Nango OAuth callback
+ALTER TABLE "connector_credentials" ADD COLUMN IF NOT EXISTS "nango_connection_id" text;
@@ -0,0 +1,2 @@
+-- Queued executions: runs enqueued for a worker get their record (and can be cancelled) before they start
+ALTER TYPE "execution_status" ADD VALUE IF NOT EXISTS 'queued';
@@ -0,0 +1,10 @@
+-- Step numbers are unique per execution; parallel branches and tool calls could previously share one
+UPDATE "execution_steps" AS "step"
+SET "step_number" = "numbered"."row_number"
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY "execution_id" ORDER BY "step_number", "created_at", "id") AS "row_number"
+	FROM "execution_steps"
+) AS "numbered"
+WHERE "step"."id" = "numbered"."id" AND "step"."step_number" <> "numbered"."row_number";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "execution_steps_execution_id_step_number_idx" ON "execution_steps" ("execution_id","step_number");
@@ -0,0 +1,10 @@
+-- Embedding provider and model of a knowledge base, used for every upload,
+-- chunk edit and re-embed of the knowledge base
+ALTER TABLE "vector_indexes" ADD COLUMN IF NOT EXISTS "embedding_provider_id" text;
+ALTER TABLE "vector_indexes" ADD COLUMN IF NOT EXISTS "embedding_model" text;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "vector_indexes" ADD CONSTRAINT "vector_indexes_embedding_provider_id_llm_providers_id_fk" FOREIGN KEY ("embedding_provider_id") REFERENCES "llm_providers"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
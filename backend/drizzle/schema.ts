@@ -1,11 +1,11 @@
-import { pgTable, text, timestamp, boolean, jsonb, integer, pgEnum, index, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, boolean, jsonb, integer, real, pgEnum, index, uniqueIndex, decimal, customType } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
 
 // Enums
 export const planEnum = pgEnum('plan', ['free', 'pro', 'team', 'enterprise']);
 export const roleEnum = pgEnum('role', ['owner', 'admin', 'developer', 'viewer', 'guest', 'member']);
-export const executionStatusEnum = pgEnum('execution_status', ['pending', 'running', 'paused', 'completed', 'failed', 'cancelled']);
+export const executionStatusEnum = pgEnum('execution_status', ['queued', 'pending', 'running', 'paused', 'completed', 'failed', 'cancelled']);
 export const logLevelEnum = pgEnum('log_level', ['info', 'warn', 'error', 'debug']);
 export const osintSourceEnum = pgEnum('osint_source', ['twitter', 'reddit', 'news', 'forums', 'github', 'linkedin', 'youtube', 'web']);
 export const osintMonitorStatusEnum = pgEnum('osint_monitor_status', ['active', 'paused', 'error', 'disabled']);
@@ -132,6 +132,8 @@ export const webhookRegistry = pgTable('webhook_registry', {
   path: text('path').notNull(),
   method: text('method').default('POST').notNull(),
   nodeId: text('node_id').notNull(), // ID of the webhook trigger node
+  responseMode: text('response_mode').default('on_completion').notNull(), // 'on_completion', 'response_node', 'last_node', 'async'
+  auth: jsonb('auth'), // Signature/token/basic auth, IP allowlist and replay protection options
   active: boolean('active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -198,8 +200,12 @@ export const executionSteps = pgTable('execution_steps', {
   executionTime: integer('execution_time'), // milliseconds
   retryAttempt: integer('retry_attempt').default(0),
   parentStepId: text('parent_step_id').references(() => executionSteps.id, { onDelete: 'set null' }), // For nested executions
+  checkpoint: jsonb('checkpoint'), // Fired edges and payload, used to resume without re-running the node
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  // Step numbers are allocated by concurrent branches and tool calls; see insertExecutionStep
+  stepNumberIdx: uniqueIndex('execution_steps_execution_id_step_number_idx').on(table.executionId, table.stepNumber),
+}));
 
 export const executionStepsRelations = relations(executionSteps, ({ one }) => ({
   execution: one(workflowExecutions, {
@@ -238,6 +244,12 @@ export const connectorCredentials = pgTable('connector_credentials', {
   connectorId: text('connector_id').notNull(), // e.g., 'slack', 'airtable', 'google_sheets'
   credentials: jsonb('credentials').notNull(), // Encrypted credentials
   expiresAt: timestamp('expires_at'), // For OAuth tokens
+  status: text('status').default('active').notNull(), // 'active' | 'broken' (needs reconnect)
+  failureCount: integer('failure_count').default(0).notNull(), // Consecutive failed refreshes / health checks
+  lastError: text('last_error'),
+  lastRefreshedAt: timestamp('last_refreshed_at'),
+  lastCheckedAt: timestamp('last_checked_at'),
+  nangoConnectionId: text('nango_connection_id'), // Nango connection of credentials stored through Nango
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -272,10 +284,12 @@ export const plugins = pgTable('plugins', {
 export const apiKeys = pgTable('api_keys', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
   name: text('name').notNull(),
-  key: text('key').notNull().unique(),
+  keyHash: text('key_hash').notNull().unique(), // SHA-256 of the full key; the key itself is only shown once
+  keyPrefix: text('key_prefix').notNull(), // Visible start of the key (e.g. sos_1a2b3c4d) for identification
   userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
   organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
-  permissions: jsonb('permissions'),
+  permissions: jsonb('permissions').$type<Record<string, string[]>>(), // Scopes: { resourceType: [actions] }, '*' wildcards
+  rateLimitPerMinute: integer('rate_limit_per_minute'), // Null uses the default API-key limit
   lastUsedAt: timestamp('last_used_at'),
   expiresAt: timestamp('expires_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -539,6 +553,72 @@ export const emailTriggersRelations = relations(emailTriggers, ({ one }) => ({
   }),
 }));
 
+// Connector triggers: trigger.<connector>.<event> nodes, with provider webhook or polling state
+export const connectorTriggers = pgTable('connector_triggers', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }), // Whose connection is used
+  organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  workflowId: text('workflow_id').notNull().references(() => workflows.id, { onDelete: 'cascade' }),
+  nodeId: text('node_id').notNull(),
+  connectorId: text('connector_id').notNull(), // e.g. 'github'
+  triggerId: text('trigger_id').notNull(), // e.g. 'push'
+  mode: text('mode').notNull(), // 'webhook' | 'polling'
+  config: jsonb('config').$type<Record<string, unknown>>().default({}).notNull(),
+  pollInterval: integer('poll_interval').default(300).notNull(), // Seconds, polling mode
+  cursor: text('cursor'), // Polling high-water mark (ISO timestamp of the newest event seen)
+  seenEventIds: jsonb('seen_event_ids').$type<string[]>().default([]).notNull(), // Recent event IDs, for dedup
+  webhookId: text('webhook_id'), // Provider-side webhook ID, webhook mode
+  webhookSecret: text('webhook_secret'), // Encrypted signing secret, webhook mode
+  active: boolean('active').default(true).notNull(),
+  lastPolledAt: timestamp('last_polled_at'),
+  lastEventAt: timestamp('last_event_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueWorkflowNode: { unique: { columns: [table.workflowId, table.nodeId] } },
+}));
+
+export const connectorTriggersRelations = relations(connectorTriggers, ({ one }) => ({
+  user: one(users, {
+    fields: [connectorTriggers.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [connectorTriggers.organizationId],
+    references: [organizations.id],
+  }),
+  workflow: one(workflows, {
+    fields: [connectorTriggers.workflowId],
+    references: [workflows.id],
+  }),
+}));
+
+// Custom connectors: organization-defined HTTP APIs imported from OpenAPI or Postman
+export const customConnectors = pgTable('custom_connectors', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  connectorId: text('connector_id').notNull().unique(), // Registry ID, e.g. 'custom_billing_api'
+  name: text('name').notNull(),
+  version: text('version').notNull().default('1.0.0'),
+  sourceType: text('source_type').notNull(), // 'openapi', 'postman', 'manifest'
+  manifest: jsonb('manifest').$type<Record<string, unknown>>().notNull(), // ConnectorManifest with declarative HTTP actions
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const customConnectorsRelations = relations(customConnectors, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [customConnectors.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [customConnectors.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Vector Store Indexes (for RAG)
 export const vectorIndexes = pgTable('vector_indexes', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
@@ -547,6 +627,11 @@ export const vectorIndexes = pgTable('vector_indexes', {
   provider: text('provider').notNull().default('memory'), // 'memory', 'pinecone', 'weaviate', 'chroma'
   providerConfig: jsonb('provider_config'), // Provider-specific configuration (API keys, endpoints, etc.)
   description: text('description'),
+  dimensions: integer('dimensions'), // Embedding dimensions, set by the first upsert (database provider)
+  distanceMetric: text('distance_metric').notNull().default('cosine'), // 'cosine', 'l2', 'inner_product'
+  annIndexType: text('ann_index_type').notNull().default('hnsw'), // 'hnsw', 'ivfflat', 'none'
+  embeddingProviderId: text('embedding_provider_id').references(() => llmProviders.id, { onDelete: 'set null' }), // Knowledge bases: embedding provider, OpenAI when null
+  embeddingModel: text('embedding_model'), // Knowledge bases: embedding model, the provider's default when null
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -560,15 +645,63 @@ export const vectorIndexesRelations = relations(vectorIndexes, ({ one, many }) =
     references: [organizations.id],
   }),
   documents: many(vectorDocuments),
+  sources: many(knowledgeSources),
 }));
 
+// Files and texts uploaded to a knowledge base (vector index); their chunks
+// are the vector documents with this source
+export const knowledgeSources = pgTable('knowledge_sources', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  indexId: text('index_id').notNull().references(() => vectorIndexes.id, { onDelete: 'cascade' }),
+  organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // File name or title
+  type: text('type').notNull(), // 'file', 'text'
+  mimeType: text('mime_type'),
+  sizeBytes: integer('size_bytes'),
+  content: text('content'), // Extracted text
+  chunkSize: integer('chunk_size').notNull(),
+  chunkOverlap: integer('chunk_overlap').notNull(),
+  chunkStrategy: text('chunk_strategy').notNull(), // 'fixed', 'sentence', 'paragraph'
+  chunkCount: integer('chunk_count').notNull().default(0),
+  metadata: jsonb('metadata'), // Added to the metadata of every chunk
+  status: text('status').notNull().default('processing'), // 'processing', 'ready', 'failed'
+  error: text('error'),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const knowledgeSourcesRelations = relations(knowledgeSources, ({ one, many }) => ({
+  index: one(vectorIndexes, {
+    fields: [knowledgeSources.indexId],
+    references: [vectorIndexes.id],
+  }),
+  documents: many(vectorDocuments),
+}));
+
+// pgvector column without fixed dimensions (they differ per vector index;
+// ANN indexes cast to the dimensions of their index)
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return 'vector';
+  },
+  toDriver(value) {
+    return `[${value.join(',')}]`;
+  },
+  fromDriver(value) {
+    return JSON.parse(value);
+  },
+});
+
 // Vector Documents (for RAG)
 export const vectorDocuments = pgTable('vector_documents', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
   indexId: text('index_id').notNull().references(() => vectorIndexes.id, { onDelete: 'cascade' }),
   organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
   text: text('text').notNull(), // Document text content
-  embedding: jsonb('embedding').$type<number[]>().notNull(), // Vector embedding (stored as JSONB array)
+  embedding: vector('embedding').notNull(), // Vector embedding (pgvector)
+  dimensions: integer('dimensions').notNull(),
+  sourceId: text('source_id').references(() => knowledgeSources.id, { onDelete: 'cascade' }), // Knowledge base upload this chunk came from
   metadata: jsonb('metadata'), // Additional metadata (source, title, author, etc.)
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -579,12 +712,214 @@ export const vectorDocumentsRelations = relations(vectorDocuments, ({ one }) =>
     fields: [vectorDocuments.indexId],
     references: [vectorIndexes.id],
   }),
+  source: one(knowledgeSources, {
+    fields: [vectorDocuments.sourceId],
+    references: [knowledgeSources.id],
+  }),
   organization: one(organizations, {
     fields: [vectorDocuments.organizationId],
     references: [organizations.id],
   }),
 }));
 
+// OpenAI-compatible LLM endpoints of an organization (vLLM, Ollama, LM Studio, Azure OpenAI)
+export const llmProviders = pgTable('llm_providers', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  type: text('type').notNull().default('openai_compatible'), // 'openai_compatible', 'azure_openai'
+  baseUrl: text('base_url').notNull(), // e.g. http://vllm.internal:8000/v1, or the Azure resource endpoint
+  apiKey: text('api_key'), // Encrypted
+  headers: text('headers'), // Encrypted JSON object of extra request headers
+  apiVersion: text('api_version'), // Azure OpenAI API version
+  models: jsonb('models').$type<Array<Record<string, unknown>>>().default([]).notNull(), // Model catalogue: id, type, pricing
+  isPrivate: boolean('is_private').default(true).notNull(), // Runs inside the organization's network
+  enabled: boolean('enabled').default(true).notNull(),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueOrgName: { unique: { columns: [table.organizationId, table.name] } },
+}));
+
+// Prompt library: named prompt templates with semantic versions
+export const prompts = pgTable('prompts', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  tags: jsonb('tags').$type<string[]>().default([]).notNull(),
+  labels: jsonb('labels').$type<Record<string, string>>().default({}).notNull(), // Environment label -> version id, e.g. { production, draft }
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  uniqueOrgName: { unique: { columns: [table.organizationId, table.name] } },
+}));
+
+// Immutable prompt versions; nodes pin one by version or by label
+export const promptVersions = pgTable('prompt_versions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  promptId: text('prompt_id').notNull().references(() => prompts.id, { onDelete: 'cascade' }),
+  version: text('version').notNull(), // Semantic version, e.g. 1.2.0
+  template: text('template').notNull(), // Prompt text with {{variable}} placeholders
+  systemPrompt: text('system_prompt'),
+  variables: jsonb('variables').$type<Array<Record<string, unknown>>>().default([]).notNull(), // name, description, required, default
+  modelDefaults: jsonb('model_defaults').$type<Record<string, unknown>>().default({}).notNull(), // provider, model, providerId, temperature, maxTokens
+  changelog: text('changelog'),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniquePromptVersion: { unique: { columns: [table.promptId, table.version] } },
+}));
+
+export const promptsRelations = relations(prompts, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [prompts.organizationId],
+    references: [organizations.id],
+  }),
+  versions: many(promptVersions),
+}));
+
+export const promptVersionsRelations = relations(promptVersions, ({ one }) => ({
+  prompt: one(prompts, {
+    fields: [promptVersions.promptId],
+    references: [prompts.id],
+  }),
+}));
+
+// Policy sets: routing rules and guardrails evaluated by the policy engine
+export const policySets = pgTable('policy_sets', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  workspaceId: text('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }), // Null applies to the whole organization
+  name: text('name').notNull(),
+  description: text('description'),
+  rules: jsonb('rules').$type<Array<Record<string, unknown>>>().default([]).notNull(), // conditions (AND) and actions per rule
+  enabled: boolean('enabled').default(true).notNull(),
+  priority: integer('priority').default(0).notNull(), // Higher priority sets are evaluated first
+  version: integer('version').default(1).notNull(), // Current version, see policy_set_versions
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Immutable snapshot of every policy set version
+export const policySetVersions = pgTable('policy_set_versions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  policySetId: text('policy_set_id').notNull().references(() => policySets.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  name: text('name').notNull(),
+  description: text('description'),
+  rules: jsonb('rules').$type<Array<Record<string, unknown>>>().default([]).notNull(),
+  enabled: boolean('enabled').notNull(),
+  priority: integer('priority').notNull(),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  uniquePolicySetVersion: { unique: { columns: [table.policySetId, table.version] } },
+}));
+
+export const policySetsRelations = relations(policySets, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [policySets.organizationId],
+    references: [organizations.id],
+  }),
+  workspace: one(workspaces, {
+    fields: [policySets.workspaceId],
+    references: [workspaces.id],
+  }),
+  versions: many(policySetVersions),
+}));
+
+export const policySetVersionsRelations = relations(policySetVersions, ({ one }) => ({
+  policySet: one(policySets, {
+    fields: [policySetVersions.policySetId],
+    references: [policySets.id],
+  }),
+}));
+
+// RAG evaluation: golden question sets and their runs against a RAG node
+export const ragEvalDatasets = pgTable('rag_eval_datasets', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const ragEvalCases = pgTable('rag_eval_cases', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  datasetId: text('dataset_id').notNull().references(() => ragEvalDatasets.id, { onDelete: 'cascade' }),
+  question: text('question').notNull(),
+  expectedAnswer: text('expected_answer'),
+  expectedSources: jsonb('expected_sources').$type<string[]>().default([]).notNull(), // Document ids or metadata.source / documentId values
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const ragEvalRuns = pgTable('rag_eval_runs', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  datasetId: text('dataset_id').notNull().references(() => ragEvalDatasets.id, { onDelete: 'cascade' }),
+  organizationId: text('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  workflowId: text('workflow_id').references(() => workflows.id, { onDelete: 'set null' }),
+  nodeId: text('node_id').notNull(),
+  config: jsonb('config').notNull(), // RAG node config the run used (with overrides, without API keys)
+  judge: jsonb('judge'), // { provider, model, providerId? } of the judging LLM
+  status: text('status').notNull().default('running'), // 'running', 'completed', 'failed'
+  metrics: jsonb('metrics'), // Averages: recallAtK, mrr, faithfulness, answerRelevance, ...
+  error: text('error'),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  startedAt: timestamp('started_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+});
+
+export const ragEvalResults = pgTable('rag_eval_results', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  runId: text('run_id').notNull().references(() => ragEvalRuns.id, { onDelete: 'cascade' }),
+  caseId: text('case_id').references(() => ragEvalCases.id, { onDelete: 'set null' }),
+  question: text('question').notNull(),
+  answer: text('answer'),
+  retrievedSources: jsonb('retrieved_sources').$type<string[]>().default([]).notNull(),
+  recall: real('recall'), // Share of expected sources in the top k
+  reciprocalRank: real('reciprocal_rank'),
+  faithfulness: real('faithfulness'), // 0-1, judged: answer supported by the retrieved context
+  answerRelevance: real('answer_relevance'), // 0-1, judged: answer addresses the question
+  judgeReasoning: text('judge_reasoning'),
+  latencyMs: integer('latency_ms'),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const ragEvalDatasetsRelations = relations(ragEvalDatasets, ({ many }) => ({
+  cases: many(ragEvalCases),
+  runs: many(ragEvalRuns),
+}));
+
+export const ragEvalCasesRelations = relations(ragEvalCases, ({ one }) => ({
+  dataset: one(ragEvalDatasets, {
+    fields: [ragEvalCases.datasetId],
+    references: [ragEvalDatasets.id],
+  }),
+}));
+
+export const ragEvalRunsRelations = relations(ragEvalRuns, ({ one, many }) => ({
+  dataset: one(ragEvalDatasets, {
+    fields: [ragEvalRuns.datasetId],
+    references: [ragEvalDatasets.id],
+  }),
+  results: many(ragEvalResults),
+}));
+
+export const ragEvalResultsRelations = relations(ragEvalResults, ({ one }) => ({
+  run: one(ragEvalRuns, {
+    fields: [ragEvalResults.runId],
+    references: [ragEvalRuns.id],
+  }),
+}));
+
 // Workflow Templates
 export const workflowTemplates = pgTable('workflow_templates', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
@@ -783,6 +1118,8 @@ export const modelCostLogs = pgTable('model_cost_logs', {
   prompt: text('prompt'), // Prompt text (optional, can be truncated)
   response: text('response'), // Response text (optional, can be truncated)
   traceId: text('trace_id'), // OpenTelemetry trace ID
+  promptId: text('prompt_id').references(() => prompts.id, { onDelete: 'set null' }), // Prompt library template the call used
+  promptVersionId: text('prompt_version_id').references(() => promptVersions.id, { onDelete: 'set null' }),
   organizationId: text('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
   workspaceId: text('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }),
   timestamp: timestamp('timestamp').defaultNow().notNull(),
@@ -795,6 +1132,7 @@ export const modelCostLogs = pgTable('model_cost_logs', {
   modelNameIdx: index('model_cost_logs_model_name_idx').on(table.modelName),
   providerIdx: index('model_cost_logs_provider_idx').on(table.provider),
   traceIdIdx: index('model_cost_logs_trace_id_idx').on(table.traceId),
+  promptVersionIdIdx: index('model_cost_logs_prompt_version_id_idx').on(table.promptVersionId),
   organizationIdIdx: index('model_cost_logs_organization_id_idx').on(table.organizationId),
   workspaceIdIdx: index('model_cost_logs_workspace_id_idx').on(table.workspaceId),
   timestampIdx: index('model_cost_logs_timestamp_idx').on(table.timestamp),
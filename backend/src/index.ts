@@ -40,12 +40,20 @@ import contactRouter from './routes/contact';
 import codeAgentsRouter from './routes/codeAgents';
 import codeExecLogsRouter from './routes/codeExecLogs';
 import policiesRouter from './routes/policies';
+import knowledgeBasesRouter from './routes/knowledgeBases';
+import ragEvalsRouter from './routes/ragEvals';
+import llmProvidersRouter from './routes/llmProviders';
+import promptsRouter from './routes/prompts';
 // Scheduler removed for serverless compatibility - using Vercel Cron instead
 // import { scheduler } from './services/scheduler';
 import { permissionService } from './services/permissionService';
 // WebSocket service removed for serverless compatibility - using polling instead
 // import { websocketService } from './services/websocketService';
 import { emailTriggerService } from './services/emailTriggerService';
+import { connectorTriggerService } from './services/connectorTriggerService';
+import { credentialManager } from './services/credentialManager';
+import { policyEngineService } from './services/policyEngineService';
+import { connectorRegistry } from './services/connectors/registry';
 import { osintService } from './services/osintService';
 import { auditLogMiddleware } from './middleware/auditLog';
 import { performanceMiddleware } from './services/performanceMonitoring';
@@ -75,8 +83,12 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
 }));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+// Keep the raw request body for webhook signature verification
+const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+  (req as express.Request & { rawBody?: string }).rawBody = buf.toString('utf8');
+};
+app.use(express.json({ limit: '10mb', verify: keepRawBody }));
+app.use(express.urlencoded({ extended: true, verify: keepRawBody }));
 
 // Performance monitoring middleware (track all requests)
 app.use(performanceMiddleware);
@@ -122,6 +134,10 @@ app.use('/api/v1/contact', contactRouter);
 app.use('/api/v1/code-agents', codeAgentsRouter);
 app.use('/api/v1/code-exec-logs', codeExecLogsRouter);
 app.use('/api/v1/policies', policiesRouter);
+app.use('/api/v1/knowledge-bases', knowledgeBasesRouter);
+app.use('/api/v1/rag-evals', ragEvalsRouter);
+app.use('/api/v1/llm-providers', llmProvidersRouter);
+app.use('/api/v1/prompts', promptsRouter);
 app.use('/api/v1/audit-logs', auditLogsRouter);
 app.use('/webhooks', webhooksRouter);
 
@@ -189,6 +205,22 @@ httpServer.listen(PORT, HOST, async () => {
   } catch (error) {
     console.error('⚠️  Error initializing permissions:', error);
   }
+
+  // Load policy sets before executions start or resume
+  try {
+    await policyEngineService.start();
+    console.log('🛡️  Policy sets loaded');
+  } catch (error) {
+    console.error('⚠️  Error loading policy sets:', error);
+  }
+
+  // Load custom connectors before executions start or resume
+  try {
+    await connectorRegistry.start();
+    console.log('🔌 Custom connectors loaded');
+  } catch (error) {
+    console.error('⚠️  Error loading custom connectors:', error);
+  }
   
   // Scheduler removed for serverless compatibility
   // Scheduled workflows are handled by Vercel Cron jobs (see api/cron/scheduled-workflows.ts)
@@ -200,6 +232,22 @@ httpServer.listen(PORT, HOST, async () => {
   } else {
     console.log('⏰ Scheduler skipped (serverless environment - using Vercel Cron)');
   }
+
+  // Resume executions interrupted by a previous shutdown or crash
+  try {
+    const { workflowExecutor } = await import('./services/workflowExecutor');
+    workflowExecutor.startRecovery();
+  } catch (error) {
+    console.error('⚠️  Error starting execution recovery:', error);
+  }
+
+  // Fail RAG evaluation runs interrupted by a previous shutdown or crash
+  try {
+    const { ragEvalService } = await import('./services/ragEvalService');
+    ragEvalService.startRecovery();
+  } catch (error) {
+    console.error('⚠️  Error starting RAG evaluation recovery:', error);
+  }
   
   // Initialize agent frameworks
   initializeAgentFrameworks();
@@ -226,6 +274,22 @@ httpServer.listen(PORT, HOST, async () => {
     console.error('⚠️  Error starting email trigger service:', error);
   }
 
+  // Start connector trigger polling (Jira, HubSpot, Google Drive)
+  try {
+    await connectorTriggerService.startPolling();
+    console.log('🔌 Connector trigger service started');
+  } catch (error) {
+    console.error('⚠️  Error starting connector trigger service:', error);
+  }
+
+  // Refresh expiring OAuth tokens and health check connector credentials
+  try {
+    credentialManager.startHealthChecks();
+    console.log('🔑 Credential health checks started');
+  } catch (error) {
+    console.error('⚠️  Error starting credential health checks:', error);
+  }
+
   // Test Redis connection
   try {
     await redis.ping();
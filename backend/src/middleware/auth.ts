@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { clerkClient } from '../config/clerk';
+import { apiKeyService, isApiKey, getApiKeyEndpointPermission, AuthenticatedApiKey } from '../services/apiKeyService';
+import { permissionService } from '../services/permissionService';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -8,6 +10,7 @@ export interface AuthRequest extends Request {
     [key: string]: unknown;
   };
   organizationId?: string;
+  apiKey?: AuthenticatedApiKey; // Set when the request authenticated with an API key
 }
 
 export const authenticate = async (
@@ -17,6 +20,17 @@ export const authenticate = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+
+    // API keys come as X-API-Key or as a Bearer token with the key prefix
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      await authenticateApiKey(apiKeyHeader, req, res, next);
+      return;
+    }
+    if (authHeader?.startsWith('Bearer ') && isApiKey(authHeader.substring(7))) {
+      await authenticateApiKey(authHeader.substring(7), req, res, next);
+      return;
+    }
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       if (!res.headersSent) {
@@ -63,3 +77,52 @@ export const authenticate = async (
     }
   }
 };
+
+/**
+ * Authenticate with an API key: the endpoint must accept keys, the key must be
+ * valid, unexpired and within its rate limit, and its scopes and owner must
+ * hold the endpoint's permission. The request then acts as the key owner in
+ * the key's organization.
+ */
+async function authenticateApiKey(
+  key: string,
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const permission = getApiKeyEndpointPermission(req.method, req.originalUrl);
+  if (!permission) {
+    res.status(403).json({ error: 'Forbidden', message: 'This endpoint does not accept API keys' });
+    return;
+  }
+
+  const { apiKey, error } = await apiKeyService.verify(key);
+  if (!apiKey) {
+    res.status(401).json({ error });
+    return;
+  }
+
+  const rateLimit = await apiKeyService.checkRateLimit(apiKey);
+  res.setHeader('X-RateLimit-Limit', rateLimit.limit.toString());
+  res.setHeader('X-RateLimit-Remaining', rateLimit.remaining.toString());
+  res.setHeader('X-RateLimit-Reset', rateLimit.resetAt.toISOString());
+  if (!rateLimit.allowed) {
+    res.setHeader('Retry-After', (rateLimit.retryAfter || 60).toString());
+    res.status(429).json({ error: 'Too many requests', message: 'API key rate limit exceeded', retryAfter: rateLimit.retryAfter });
+    return;
+  }
+
+  const allowed = await permissionService.hasApiKeyPermission(apiKey, apiKey.organizationId, permission);
+  if (!allowed) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: `API key is not allowed to ${permission.action} ${permission.resourceType}`,
+    });
+    return;
+  }
+
+  req.user = { id: apiKey.userId, email: '', apiKeyId: apiKey.id };
+  req.organizationId = apiKey.organizationId;
+  req.apiKey = apiKey;
+  next();
+}
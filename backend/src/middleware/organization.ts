@@ -20,6 +20,12 @@ export const setOrganization = async (
       return;
     }
 
+    // API keys are bound to an organization during authentication
+    if (req.apiKey && req.organizationId) {
+      next();
+      return;
+    }
+
     // Get user's organization memberships
     const memberships = await db
       .select({ organizationId: organizationMembers.organizationId })
@@ -12,11 +12,9 @@ export function requirePermission(permission: Permission) {
         return res.status(401).json({ error: 'Unauthorized' });
       }
 
-      const hasPermission = await permissionService.hasPermission(
-        req.user.id,
-        req.organizationId,
-        permission
-      );
+      const hasPermission = req.apiKey
+        ? await permissionService.hasApiKeyPermission(req.apiKey, req.organizationId, permission)
+        : await permissionService.hasPermission(req.user.id, req.organizationId, permission);
 
       if (!hasPermission) {
         return res.status(403).json({
@@ -3,6 +3,7 @@ import { authenticate, AuthRequest } from '../middleware/auth';
 import { setOrganization } from '../middleware/organization';
 import { requirePermission } from '../middleware/permissions';
 import { alertService, AlertConfig } from '../services/alertService';
+import { errorWorkflowService } from '../services/errorWorkflowService';
 import { db } from '../config/database';
 import { alerts, alertHistory, organizations, organizationMembers } from '../../drizzle/schema';
 import { eq, and, inArray } from 'drizzle-orm';
@@ -65,6 +66,51 @@ router.get('/', async (req: AuthRequest, res) => {
   }
 });
 
+const ErrorWorkflowSchema = z.object({
+  workflowId: z.string().min(1).nullable(),
+});
+
+// Get the organization's error workflow
+router.get('/error-workflow', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const workflowId = await errorWorkflowService.getErrorWorkflowId(req.organizationId);
+    res.json({ workflowId });
+  } catch (error) {
+    console.error('Error fetching error workflow:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set or clear the workflow that runs whenever an execution fails
+router.put('/error-workflow', requirePermission({ resourceType: 'alert', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { workflowId } = ErrorWorkflowSchema.parse(req.body);
+    await errorWorkflowService.setErrorWorkflowId(req.organizationId, workflowId);
+    res.json({ workflowId });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    if (error.message === 'Workflow not found') {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    console.error('Error updating error workflow:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get alert by ID
 router.get('/:id', async (req: AuthRequest, res) => {
   try {
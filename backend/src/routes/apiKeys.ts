@@ -7,7 +7,7 @@ import { apiKeys, organizations, organizationMembers, auditLogs } from '../../dr
 import { eq, and, desc, count, gte } from 'drizzle-orm';
 import { z } from 'zod';
 import { createId } from '@paralleldrive/cuid2';
-import crypto from 'crypto';
+import { generateApiKey, hashApiKey, getApiKeyPrefix } from '../services/apiKeyService';
 import { auditLogMiddleware } from '../middleware/auditLog';
 
 const router = Router();
@@ -17,10 +17,14 @@ router.use(authenticate);
 router.use(setOrganization);
 router.use(auditLogMiddleware);
 
+// Scopes: resource type -> actions, '*' for any (e.g. { workflow: ['read', 'execute'] })
+const ScopesSchema = z.record(z.array(z.string().min(1).max(50)).max(20));
+
 // Create API key schema
 const CreateApiKeySchema = z.object({
   name: z.string().min(1).max(255),
-  permissions: z.record(z.unknown()).optional(),
+  permissions: ScopesSchema.optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
   expiresAt: z.string().datetime().optional(),
   organizationId: z.string().optional(),
 });
@@ -28,18 +32,11 @@ const CreateApiKeySchema = z.object({
 // Update API key schema
 const UpdateApiKeySchema = z.object({
   name: z.string().min(1).max(255).optional(),
-  permissions: z.record(z.unknown()).optional(),
+  permissions: ScopesSchema.nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).nullable().optional(),
   expiresAt: z.string().datetime().optional().nullable(),
 });
 
-// Generate API key
-function generateApiKey(): string {
-  // Generate a secure random key
-  const prefix = 'sos_';
-  const randomBytes = crypto.randomBytes(32).toString('hex');
-  return `${prefix}${randomBytes}`;
-}
-
 // Get all API keys for current user
 router.get('/', async (req: AuthRequest, res) => {
   try {
@@ -64,10 +61,11 @@ router.get('/', async (req: AuthRequest, res) => {
       .select({
         id: apiKeys.id,
         name: apiKeys.name,
-        key: apiKeys.key, // Note: In production, you might want to mask this
+        keyPrefix: apiKeys.keyPrefix,
         userId: apiKeys.userId,
         organizationId: apiKeys.organizationId,
         permissions: apiKeys.permissions,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
         lastUsedAt: apiKeys.lastUsedAt,
         expiresAt: apiKeys.expiresAt,
         createdAt: apiKeys.createdAt,
@@ -86,10 +84,11 @@ router.get('/', async (req: AuthRequest, res) => {
           .select({
             id: apiKeys.id,
             name: apiKeys.name,
-            key: apiKeys.key,
+            keyPrefix: apiKeys.keyPrefix,
             userId: apiKeys.userId,
             organizationId: apiKeys.organizationId,
             permissions: apiKeys.permissions,
+            rateLimitPerMinute: apiKeys.rateLimitPerMinute,
             lastUsedAt: apiKeys.lastUsedAt,
             expiresAt: apiKeys.expiresAt,
             createdAt: apiKeys.createdAt,
@@ -154,7 +153,9 @@ router.get('/:id', async (req: AuthRequest, res) => {
       }
     }
 
-    res.json(key);
+    const publicKey: Partial<typeof key> = { ...key };
+    delete publicKey.keyHash;
+    res.json(publicKey);
   } catch (error) {
     console.error('Error fetching API key:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -197,26 +198,30 @@ router.post('/', requirePermission({ resourceType: 'api_key', action: 'create' }
       .insert(apiKeys)
       .values({
         name: validated.name,
-        key: apiKey,
+        keyHash: hashApiKey(apiKey),
+        keyPrefix: getApiKeyPrefix(apiKey),
         userId: req.user.id,
         organizationId: validated.organizationId || null,
         permissions: validated.permissions || null,
+        rateLimitPerMinute: validated.rateLimitPerMinute ?? null,
         expiresAt: expiresAt,
       })
       .returning({
         id: apiKeys.id,
         name: apiKeys.name,
-        key: apiKeys.key, // Return full key only on creation
+        keyPrefix: apiKeys.keyPrefix,
         userId: apiKeys.userId,
         organizationId: apiKeys.organizationId,
         permissions: apiKeys.permissions,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
         lastUsedAt: apiKeys.lastUsedAt,
         expiresAt: apiKeys.expiresAt,
         createdAt: apiKeys.createdAt,
         updatedAt: apiKeys.updatedAt,
       });
 
-    res.status(201).json(newKey);
+    // The full key is only returned here; only its hash is stored
+    res.status(201).json({ ...newKey, key: apiKey });
   } catch (error) {
     console.error('Error creating API key:', error);
     if (error instanceof z.ZodError) {
@@ -266,6 +271,10 @@ router.put('/:id', requirePermission({ resourceType: 'api_key', action: 'update'
       updateData.permissions = validated.permissions;
     }
 
+    if (validated.rateLimitPerMinute !== undefined) {
+      updateData.rateLimitPerMinute = validated.rateLimitPerMinute;
+    }
+
     if (validated.expiresAt !== undefined) {
       updateData.expiresAt = validated.expiresAt ? new Date(validated.expiresAt) : null;
     }
@@ -277,10 +286,11 @@ router.put('/:id', requirePermission({ resourceType: 'api_key', action: 'update'
       .returning({
         id: apiKeys.id,
         name: apiKeys.name,
-        key: apiKeys.key,
+        keyPrefix: apiKeys.keyPrefix,
         userId: apiKeys.userId,
         organizationId: apiKeys.organizationId,
         permissions: apiKeys.permissions,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
         lastUsedAt: apiKeys.lastUsedAt,
         expiresAt: apiKeys.expiresAt,
         createdAt: apiKeys.createdAt,
@@ -362,24 +372,26 @@ router.post('/:id/rotate', requirePermission({ resourceType: 'api_key', action:
     const [rotated] = await db
       .update(apiKeys)
       .set({
-        key: newKey,
+        keyHash: hashApiKey(newKey),
+        keyPrefix: getApiKeyPrefix(newKey),
         updatedAt: new Date(),
       })
       .where(eq(apiKeys.id, req.params.id))
       .returning({
         id: apiKeys.id,
         name: apiKeys.name,
-        key: apiKeys.key, // Return new key
+        keyPrefix: apiKeys.keyPrefix,
         userId: apiKeys.userId,
         organizationId: apiKeys.organizationId,
         permissions: apiKeys.permissions,
+        rateLimitPerMinute: apiKeys.rateLimitPerMinute,
         lastUsedAt: apiKeys.lastUsedAt,
         expiresAt: apiKeys.expiresAt,
         createdAt: apiKeys.createdAt,
         updatedAt: apiKeys.updatedAt,
       });
 
-    res.json(rotated);
+    res.json({ ...rotated, key: newKey });
   } catch (error) {
     console.error('Error rotating API key:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -1,26 +1,63 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
+import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
 import { connectorRegistry } from '../services/connectors/registry';
 import { ConnectorManifest } from '../services/connectors/types';
 import { db } from '../config/database';
 import { connectorCredentials, organizations, organizationMembers } from '../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
-import { encryptObject, decryptObject } from '../utils/encryption';
+import { encryptObject } from '../utils/encryption';
 import { createId } from '@paralleldrive/cuid2';
 import { auditLogMiddleware } from '../middleware/auditLog';
+import { customConnectorService } from '../services/customConnectorService';
+import { credentialManager } from '../services/credentialManager';
+import { ConnectorImportError } from '../services/connectors/specImporter';
 
 const router = Router();
 
 // Apply audit logging to all routes
 router.use(auditLogMiddleware);
 
+const CustomConnectorSchema = z
+  .object({
+    spec: z.record(z.unknown()).optional(), // OpenAPI 3 document or Postman collection (JSON)
+    manifest: z.record(z.unknown()).optional(),
+    connectorId: z.string().regex(/^[a-z0-9_]+$/).max(80).optional(),
+    name: z.string().min(1).max(255).optional(),
+    baseUrl: z.string().url().optional(),
+  })
+  .refine((value) => value.spec || value.manifest, { message: 'Either spec or manifest is required' });
+
+function handleCustomConnectorError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (error instanceof ConnectorImportError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  if (error.message === 'Custom connector not found') {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error.message === 'A connector with this ID already exists') {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
 // List all connectors
-router.get('/', authenticate, async (req: AuthRequest, res) => {
+router.get('/', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
     const { category } = req.query;
     // Ensure database connectors are loaded
     await connectorRegistry.loadFromDatabase();
-    const connectors = connectorRegistry.list(category as string);
+    const connectors = connectorRegistry.list(category as string, req.organizationId);
     res.json(connectors);
   } catch (error: any) {
     console.error('Error listing connectors:', error);
@@ -29,11 +66,11 @@ router.get('/', authenticate, async (req: AuthRequest, res) => {
 });
 
 // Get connector categories
-router.get('/categories', authenticate, async (req: AuthRequest, res) => {
+router.get('/categories', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
     // Ensure database connectors are loaded
     await connectorRegistry.loadFromDatabase();
-    const connectors = connectorRegistry.list();
+    const connectors = connectorRegistry.list(undefined, req.organizationId);
     
     // Extract unique categories from connectors
     const categories = new Set<string>();
@@ -66,11 +103,122 @@ router.get('/categories', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
-// Get connector by ID
-router.get('/:id', authenticate, async (req: AuthRequest, res) => {
+// List the organization's custom connectors
+router.get('/custom', authenticate, setOrganization, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await customConnectorService.list(req.organizationId));
+  } catch (error) {
+    handleCustomConnectorError(res, error, 'listing custom connectors');
+  }
+});
+
+// Import an OpenAPI spec or Postman collection without saving it
+router.post('/custom/preview', authenticate, setOrganization, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = CustomConnectorSchema.parse(req.body);
+    res.json(customConnectorService.preview(validated as any));
+  } catch (error) {
+    handleCustomConnectorError(res, error, 'previewing custom connector');
+  }
+});
+
+// Create a custom connector from an OpenAPI spec or Postman collection
+router.post(
+  '/custom',
+  authenticate,
+  setOrganization,
+  requirePermission({ resourceType: 'connector', action: 'create' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const validated = CustomConnectorSchema.parse(req.body);
+      res.status(201).json(await customConnectorService.create(req.organizationId, req.user.id, validated as any));
+    } catch (error) {
+      handleCustomConnectorError(res, error, 'creating custom connector');
+    }
+  }
+);
+
+// Get a custom connector with its manifest
+router.get('/custom/:id', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
-    const connector = connectorRegistry.get(req.params.id);
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const connector = await customConnectorService.get(req.organizationId, req.params.id);
     if (!connector) {
+      res.status(404).json({ error: 'Custom connector not found' });
+      return;
+    }
+    res.json(connector);
+  } catch (error) {
+    handleCustomConnectorError(res, error, 'fetching custom connector');
+  }
+});
+
+// Re-import a custom connector (its connector ID is kept)
+router.put(
+  '/custom/:id',
+  authenticate,
+  setOrganization,
+  requirePermission({ resourceType: 'connector', action: 'update' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const validated = CustomConnectorSchema.parse(req.body);
+      res.json(await customConnectorService.update(req.organizationId, req.params.id, validated as any));
+    } catch (error) {
+      handleCustomConnectorError(res, error, 'updating custom connector');
+    }
+  }
+);
+
+// Delete a custom connector
+router.delete(
+  '/custom/:id',
+  authenticate,
+  setOrganization,
+  requirePermission({ resourceType: 'connector', action: 'delete' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await customConnectorService.delete(req.organizationId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      handleCustomConnectorError(res, error, 'deleting custom connector');
+    }
+  }
+);
+
+// Get connector by ID
+router.get('/:id', authenticate, setOrganization, async (req: AuthRequest, res) => {
+  try {
+    const connector = await connectorRegistry.resolve(req.params.id);
+    if (!connector || !connectorRegistry.isAvailableTo(req.params.id, req.organizationId)) {
       res.status(404).json({ error: 'Connector not found' });
       return;
     }
@@ -82,7 +230,7 @@ router.get('/:id', authenticate, async (req: AuthRequest, res) => {
 });
 
 // Execute connector action
-router.post('/:id/actions/:actionId/execute', authenticate, async (req: AuthRequest, res) => {
+router.post('/:id/actions/:actionId/execute', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -93,6 +241,11 @@ router.post('/:id/actions/:actionId/execute', authenticate, async (req: AuthRequ
     const connectorId = req.params.id;
     const actionId = req.params.actionId;
 
+    if (!(await connectorRegistry.resolve(connectorId)) || !connectorRegistry.isAvailableTo(connectorId, req.organizationId)) {
+      res.status(404).json({ error: 'Connector not found' });
+      return;
+    }
+
     // Get credentials for this connector
     const [credential] = await db
       .select()
@@ -110,16 +263,12 @@ router.post('/:id/actions/:actionId/execute', authenticate, async (req: AuthRequ
       return;
     }
 
-    // Decrypt credentials
+    // Decrypt credentials, refreshing an OAuth token that is about to expire
     let credentials: Record<string, unknown>;
     try {
-      if (typeof credential.credentials === 'string') {
-        credentials = decryptObject(credential.credentials);
-      } else {
-        credentials = credential.credentials as Record<string, unknown>;
-      }
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to decrypt credentials' });
+      credentials = await credentialManager.getCredentials(credential);
+    } catch (error: any) {
+      res.status(409).json({ error: `Connector credentials are no longer valid: ${error.message}. Please reconnect.` });
       return;
     }
 
@@ -152,6 +301,10 @@ router.get('/credentials', authenticate, async (req: AuthRequest, res) => {
         createdAt: connectorCredentials.createdAt,
         updatedAt: connectorCredentials.updatedAt,
         expiresAt: connectorCredentials.expiresAt,
+        status: connectorCredentials.status,
+        lastError: connectorCredentials.lastError,
+        lastCheckedAt: connectorCredentials.lastCheckedAt,
+        lastRefreshedAt: connectorCredentials.lastRefreshedAt,
       })
       .from(connectorCredentials)
       .where(eq(connectorCredentials.userId, req.user.id));
@@ -195,7 +348,7 @@ router.post('/:id/connect', authenticate, async (req: AuthRequest, res) => {
     }
 
     const connectorId = req.params.id;
-    const connector = connectorRegistry.get(connectorId);
+    const connector = await connectorRegistry.resolve(connectorId);
 
     if (!connector) {
       res.status(404).json({ error: 'Connector not found' });
@@ -300,6 +453,39 @@ router.delete('/credentials/:id', authenticate, async (req: AuthRequest, res) =>
   }
 });
 
+// Test a connection now: refresh the token if needed and run the connector's health check
+router.post('/credentials/:id/test', authenticate, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Verify ownership
+    const [credential] = await db
+      .select({ id: connectorCredentials.id })
+      .from(connectorCredentials)
+      .where(
+        and(
+          eq(connectorCredentials.id, req.params.id),
+          eq(connectorCredentials.userId, req.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!credential) {
+      res.status(404).json({ error: 'Credential not found' });
+      return;
+    }
+
+    const result = await credentialManager.checkCredential(credential.id);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error testing credentials:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
 // Store connector credentials (for OAuth callback or manual setup)
 router.post('/credentials', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -337,6 +523,9 @@ router.post('/credentials', authenticate, async (req: AuthRequest, res) => {
         .set({
           credentials: encryptedCredentials as any,
           expiresAt: expiresAt ? new Date(expiresAt) : null,
+          status: 'active',
+          failureCount: 0,
+          lastError: null,
           updatedAt: new Date(),
         })
         .where(eq(connectorCredentials.id, existing.id));
@@ -363,38 +552,45 @@ router.post('/credentials', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
-// Register a custom connector
-router.post('/register', authenticate, async (req: AuthRequest, res) => {
-  try {
-    if (!req.user) {
-      res.status(401).json({ error: 'Unauthorized' });
-      return;
-    }
+// Register a custom connector from a manifest
+router.post(
+  '/register',
+  authenticate,
+  setOrganization,
+  requirePermission({ resourceType: 'connector', action: 'create' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
 
-    const manifest: ConnectorManifest = req.body.manifest;
-    const version = req.body.version;
+      const manifest: ConnectorManifest = req.body.manifest;
+      const version = req.body.version;
 
-    if (!manifest || !manifest.id) {
-      res.status(400).json({ error: 'Invalid connector manifest' });
-      return;
-    }
+      if (!manifest || !manifest.id) {
+        res.status(400).json({ error: 'Invalid connector manifest' });
+        return;
+      }
 
-    // Validate manifest structure
-    if (!manifest.name || !manifest.category || !manifest.actions) {
-      res.status(400).json({ error: 'Manifest must include name, category, and actions' });
-      return;
-    }
+      // Validate manifest structure
+      if (!manifest.name || !manifest.category || !manifest.actions) {
+        res.status(400).json({ error: 'Manifest must include name, category, and actions' });
+        return;
+      }
 
-    connectorRegistry.registerCustom(manifest, version);
-    res.json({ message: 'Connector registered successfully', connectorId: manifest.id });
-  } catch (error: any) {
-    console.error('Error registering connector:', error);
-    res.status(500).json({ error: error.message || 'Internal server error' });
+      const { connector } = await customConnectorService.create(req.organizationId, req.user.id, {
+        manifest: version ? { ...manifest, version } : manifest,
+      });
+      res.json({ message: 'Connector registered successfully', connectorId: connector.connectorId });
+    } catch (error) {
+      handleCustomConnectorError(res, error, 'registering connector');
+    }
   }
-});
+);
 
 // Update a connector (versioning)
-router.put('/:id', authenticate, async (req: AuthRequest, res) => {
+router.put('/:id', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -409,6 +605,20 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
       return;
     }
 
+    // Custom connectors are stored; only the owning organization may change them
+    if (connectorRegistry.isCustom(connectorId)) {
+      const custom = req.organizationId
+        ? await customConnectorService.findByConnectorId(req.organizationId, connectorId)
+        : null;
+      if (!custom) {
+        res.status(404).json({ error: 'Connector not found or version unchanged' });
+        return;
+      }
+      await customConnectorService.update(req.organizationId!, custom.id, { manifest });
+      res.json({ message: 'Connector updated successfully', connectorId, version: manifest.version });
+      return;
+    }
+
     const updated = connectorRegistry.updateConnector(connectorId, manifest);
     if (!updated) {
       res.status(404).json({ error: 'Connector not found or version unchanged' });
@@ -417,13 +627,17 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
 
     res.json({ message: 'Connector updated successfully', connectorId, version: manifest.version });
   } catch (error: any) {
+    if (error instanceof ConnectorImportError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error updating connector:', error);
     res.status(500).json({ error: error.message || 'Internal server error' });
   }
 });
 
 // Unregister a custom connector
-router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
+router.delete('/:id', authenticate, setOrganization, async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -438,12 +652,15 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
       return;
     }
 
-    const removed = connectorRegistry.unregisterCustom(connectorId);
-    if (!removed) {
+    const custom = req.organizationId
+      ? await customConnectorService.findByConnectorId(req.organizationId, connectorId)
+      : null;
+    if (!custom) {
       res.status(404).json({ error: 'Custom connector not found' });
       return;
     }
 
+    await customConnectorService.delete(req.organizationId!, custom.id);
     res.json({ message: 'Connector unregistered successfully', connectorId });
   } catch (error: any) {
     console.error('Error unregistering connector:', error);
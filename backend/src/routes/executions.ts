@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
 import { requirePermission } from '../middleware/permissions';
 import { workflowExecutor } from '../services/workflowExecutor';
 import { replayService } from '../services/replayService';
@@ -8,9 +9,9 @@ import { workflowExecutions, executionLogs, executionSteps, workflows, workspace
 import { eq, desc, and } from 'drizzle-orm';
 import { CreateWorkflowSchema } from '@sos/shared';
 import { getOrCreateDefaultWorkspace } from '../services/workspaceService';
+import { maskWebhookSecrets } from '../services/webhookRegistry';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import redis from '../config/redis';
 
 import { auditLogMiddleware } from '../middleware/auditLog';
 
@@ -61,31 +62,32 @@ router.get('/workflow/:workflowId', authenticate, async (req: AuthRequest, res)
   }
 });
 
-// Execute workflow
-router.post('/execute', authenticate, requirePermission({ resourceType: 'workflow', action: 'execute' }), async (req: AuthRequest, res) => {
+// Execute workflow (the saved definition is used when only workflowId is given, e.g. from CI with an API key)
+router.post('/execute', authenticate, setOrganization, requirePermission({ resourceType: 'workflow', action: 'execute' }), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const { workflowId, definition, input } = req.body;
+    const { workflowId, input } = req.body;
+    let { definition } = req.body;
 
-    if (!definition) {
+    if (!definition && (!workflowId || workflowId === 'new')) {
       res.status(400).json({ error: 'Workflow definition is required' });
       return;
     }
 
-    // Validate definition
-    const validated = CreateWorkflowSchema.parse({
-      name: 'temp',
-      workspaceId: 'temp',
-      definition,
-    });
-
     // If workflowId is 'new' or doesn't exist, create a temporary workflow first
     let actualWorkflowId = workflowId;
     if (!workflowId || workflowId === 'new') {
+      // Validate definition
+      const validated = CreateWorkflowSchema.parse({
+        name: 'temp',
+        workspaceId: 'temp',
+        definition,
+      });
+
       // Create a temporary workflow for execution tracking
       const workspaceId = await getOrCreateDefaultWorkspace(req.user.id);
       const [tempWorkflow] = await db
@@ -94,13 +96,14 @@ router.post('/execute', authenticate, requirePermission({ resourceType: 'workflo
           name: `Temporary Workflow ${new Date().toISOString()}`,
           description: 'Temporary workflow created for execution',
           workspaceId,
-          definition: validated.definition as any,
+          definition: maskWebhookSecrets(validated.definition) as any,
           active: false, // Temporary workflows are inactive
         })
         .returning();
       actualWorkflowId = tempWorkflow.id;
+      definition = validated.definition;
     } else {
-      // Verify workflow exists and user has access
+      // Verify workflow exists and user has access (API keys only reach their own organization)
       const [workflow] = await db
         .select()
         .from(workflows)
@@ -110,7 +113,8 @@ router.post('/execute', authenticate, requirePermission({ resourceType: 'workflo
         .where(
           and(
             eq(workflows.id, workflowId),
-            eq(organizationMembers.userId, req.user.id)
+            eq(organizationMembers.userId, req.user.id),
+            req.apiKey ? eq(organizations.id, req.apiKey.organizationId) : undefined
           )
         )
         .limit(1);
@@ -119,6 +123,10 @@ router.post('/execute', authenticate, requirePermission({ resourceType: 'workflo
         res.status(404).json({ error: 'Workflow not found' });
         return;
       }
+
+      definition = definition
+        ? CreateWorkflowSchema.parse({ name: 'temp', workspaceId: 'temp', definition }).definition
+        : workflow.workflows.definition;
     }
 
     // Get workspaceId from workflow
@@ -131,13 +139,20 @@ router.post('/execute', authenticate, requirePermission({ resourceType: 'workflo
     // Execute workflow (synchronously for now)
     const result = await workflowExecutor.executeWorkflow({
       workflowId: actualWorkflowId,
-      definition: validated.definition,
+      definition,
       input: input || {},
       userId: req.user.id,
       organizationId: req.organizationId,
       workspaceId: workflowData?.workspaceId,
+      priority: 'manual',
     });
 
+    // Runs that waited too long for a concurrency slot continue in the queue
+    if ((result as { status?: string }).status === 'queued') {
+      res.status(202).json(result);
+      return;
+    }
+
     // Always return executionId, even if execution failed
     res.json(result);
   } catch (error) {
@@ -150,6 +165,32 @@ router.post('/execute', authenticate, requirePermission({ resourceType: 'workflo
   }
 });
 
+// Deliver an external event to executions waiting on its correlation key
+// (resume URL of "wait for event" nodes; no user auth, the wait's secret is
+// required in the X-Wait-Secret header). Declared before the /:id routes so
+// keys like "resume" or "cancel" are not taken for execution actions.
+router.post('/events/:correlationKey', async (req, res) => {
+  try {
+    const secret = req.headers['x-wait-secret'];
+    if (typeof secret !== 'string' || !secret) {
+      res.status(401).json({ error: 'X-Wait-Secret header is required' });
+      return;
+    }
+    const payload = req.body && typeof req.body === 'object' ? req.body : {};
+
+    const executionIds = await workflowExecutor.deliverWaitEvent(req.params.correlationKey, payload, secret);
+    if (executionIds.length === 0) {
+      res.status(404).json({ error: 'No execution is waiting for this event' });
+      return;
+    }
+
+    res.json({ message: 'Event received, execution resumed', executionIds });
+  } catch (error: any) {
+    console.error('Error delivering wait event:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
 // Get execution by ID
 router.get('/:id', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -312,6 +353,49 @@ router.post('/:id/step', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Cancel a pending, running or paused execution
+router.post('/:id/cancel', authenticate, async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Verify user has access to the execution
+    const [executionData] = await db
+      .select()
+      .from(workflowExecutions)
+      .innerJoin(workflows, eq(workflowExecutions.workflowId, workflows.id))
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .innerJoin(organizations, eq(workspaces.organizationId, organizations.id))
+      .innerJoin(organizationMembers, eq(organizations.id, organizationMembers.organizationId))
+      .where(
+        and(
+          eq(workflowExecutions.id, req.params.id),
+          eq(organizationMembers.userId, req.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!executionData) {
+      res.status(404).json({ error: 'Execution not found' });
+      return;
+    }
+
+    const status = executionData.workflow_executions.status;
+    if (!['queued', 'pending', 'running', 'paused'].includes(status)) {
+      res.status(409).json({ error: `Execution is already ${status}` });
+      return;
+    }
+
+    await workflowExecutor.cancelExecution(req.params.id, req.user.id);
+    res.json({ message: 'Execution cancelled' });
+  } catch (error: any) {
+    console.error('Error cancelling execution:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
 // Get variable state for a specific node in an execution
 router.get('/:id/variables/:nodeId', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -729,11 +813,28 @@ router.post('/:id/human-prompt/:nodeId/respond', authenticate, async (req: AuthR
       return;
     }
 
-    // Publish response via Redis
-    await redis.publish(
-      `execution:${req.params.id}:human-prompt:${req.params.nodeId}`,
-      JSON.stringify(response)
-    );
+    const metadata = (executionData.workflow_executions.metadata as any) || {};
+    const humanPrompt = metadata.humanPrompt;
+    if (executionData.workflow_executions.status !== 'paused' || humanPrompt?.nodeId !== req.params.nodeId) {
+      res.status(409).json({ error: 'Execution is not waiting for this prompt' });
+      return;
+    }
+
+    if (humanPrompt.expiresAt && new Date(humanPrompt.expiresAt).getTime() < Date.now()) {
+      res.status(410).json({ error: 'Human prompt has expired' });
+      return;
+    }
+
+    // Stored for the node to pick up when the execution resumes
+    await db.update(workflowExecutions).set({
+      metadata: {
+        ...metadata,
+        humanPromptResponses: {
+          ...(metadata.humanPromptResponses || {}),
+          [req.params.nodeId]: response,
+        },
+      },
+    }).where(eq(workflowExecutions.id, req.params.id));
 
     // Resume execution
     await workflowExecutor.resumeExecution(req.params.id);
@@ -0,0 +1,330 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
+import { knowledgeBaseService, AddSourceInput } from '../services/knowledgeBaseService';
+import { z } from 'zod';
+
+import { auditLogMiddleware } from '../middleware/auditLog';
+
+const router = Router();
+
+// All routes require authentication and organization
+router.use(authenticate);
+router.use(setOrganization);
+router.use(auditLogMiddleware);
+
+const CreateKnowledgeBaseSchema = z.object({
+  // Workflows reference the knowledge base by name (indexName)
+  name: z.string().min(1).max(255).regex(/^[\w.-]+$/, 'Use letters, numbers, dots, dashes and underscores'),
+  description: z.string().max(2000).optional(),
+  distanceMetric: z.enum(['cosine', 'l2', 'inner_product']).optional(),
+  annIndexType: z.enum(['hnsw', 'ivfflat', 'none']).optional(),
+  embeddingProviderId: z.string().min(1).nullable().optional(),
+  embeddingModel: z.string().min(1).max(255).nullable().optional(),
+});
+
+const UpdateKnowledgeBaseSchema = z.object({
+  description: z.string().max(2000).nullable().optional(),
+  embeddingProviderId: z.string().min(1).nullable().optional(),
+  embeddingModel: z.string().min(1).max(255).nullable().optional(),
+});
+
+const ChunkSettingsSchema = z.object({
+  chunkSize: z.number().int().min(100).max(20000).optional(),
+  chunkOverlap: z.number().int().min(0).max(5000).optional(),
+  chunkStrategy: z.enum(['fixed', 'sentence', 'paragraph']).optional(),
+});
+
+const AddSourceSchema = ChunkSettingsSchema.extend({
+  name: z.string().min(1).max(500),
+  file: z.string().startsWith('data:', 'File must be a data URL').optional(),
+  text: z.string().min(1).optional(),
+  fileType: z.enum(['auto', 'pdf', 'docx', 'txt']).optional(),
+  metadata: z.record(z.unknown()).optional(),
+}).refine((data) => !!data.file !== !!data.text, 'Provide either file or text');
+
+const UpdateDocumentSchema = z.object({
+  text: z.string().min(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const ListDocumentsSchema = z.object({
+  sourceId: z.string().optional(),
+  search: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const NOT_FOUND_ERRORS = ['Knowledge base not found', 'Source not found', 'Document not found'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error.message?.startsWith('Invalid embedding provider')) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+// List knowledge bases with document and source counts
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await knowledgeBaseService.list(req.organizationId));
+  } catch (error) {
+    handleError(res, error, 'fetching knowledge bases');
+  }
+});
+
+// Create knowledge base
+router.post('/', requirePermission({ resourceType: 'knowledge_base', action: 'create' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = CreateKnowledgeBaseSchema.parse(req.body);
+    const knowledgeBase = await knowledgeBaseService.create(req.organizationId, validated as { name: string });
+    res.status(201).json(knowledgeBase);
+  } catch (error: any) {
+    if (error.message === 'Knowledge base already exists') {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    handleError(res, error, 'creating knowledge base');
+  }
+});
+
+// Get knowledge base
+router.get('/:id', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const knowledgeBase = await knowledgeBaseService.get(req.organizationId, req.params.id);
+    if (!knowledgeBase) {
+      res.status(404).json({ error: 'Knowledge base not found' });
+      return;
+    }
+
+    res.json(knowledgeBase);
+  } catch (error) {
+    handleError(res, error, 'fetching knowledge base');
+  }
+});
+
+// Update knowledge base
+router.put('/:id', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = UpdateKnowledgeBaseSchema.parse(req.body);
+    res.json(await knowledgeBaseService.update(req.organizationId, req.params.id, validated));
+  } catch (error) {
+    handleError(res, error, 'updating knowledge base');
+  }
+});
+
+// Delete knowledge base with all its sources and documents
+router.delete('/:id', requirePermission({ resourceType: 'knowledge_base', action: 'delete' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await knowledgeBaseService.delete(req.organizationId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting knowledge base');
+  }
+});
+
+// Re-embed all documents with the current embedding model
+router.post('/:id/reembed', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await knowledgeBaseService.reembed(req.organizationId, req.params.id));
+  } catch (error) {
+    handleError(res, error, 're-embedding knowledge base');
+  }
+});
+
+// List uploaded sources
+router.get('/:id/sources', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await knowledgeBaseService.listSources(req.organizationId, req.params.id));
+  } catch (error) {
+    handleError(res, error, 'fetching knowledge sources');
+  }
+});
+
+// Upload a file (data URL) or text; responds 422 when it could not be processed
+router.post('/:id/sources', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = AddSourceSchema.parse(req.body);
+    const source = await knowledgeBaseService.addSource(req.organizationId, req.params.id, req.user.id, validated as AddSourceInput);
+
+    if (source.status === 'failed') {
+      res.status(422).json({ error: source.error, source });
+      return;
+    }
+    res.status(201).json(source);
+  } catch (error) {
+    handleError(res, error, 'adding knowledge source');
+  }
+});
+
+// Re-chunk and re-embed a source, optionally with new chunk settings
+router.post('/:id/sources/:sourceId/reprocess', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = ChunkSettingsSchema.parse(req.body || {});
+    const source = await knowledgeBaseService.reprocessSource(req.organizationId, req.params.id, req.params.sourceId, validated);
+
+    if (source.status === 'failed') {
+      res.status(422).json({ error: source.error, source });
+      return;
+    }
+    res.json(source);
+  } catch (error: any) {
+    if (error.message === 'Source has no extracted text; upload it again') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    handleError(res, error, 'reprocessing knowledge source');
+  }
+});
+
+// Re-embed the documents of a source
+router.post('/:id/sources/:sourceId/reembed', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await knowledgeBaseService.reembed(req.organizationId, req.params.id, req.params.sourceId));
+  } catch (error) {
+    handleError(res, error, 're-embedding knowledge source');
+  }
+});
+
+// Delete a source and its documents
+router.delete('/:id/sources/:sourceId', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await knowledgeBaseService.deleteSource(req.organizationId, req.params.id, req.params.sourceId);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting knowledge source');
+  }
+});
+
+// List documents (chunks), optionally of one source or containing a text
+router.get('/:id/documents', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const options = ListDocumentsSchema.parse(req.query);
+    res.json(await knowledgeBaseService.listDocuments(req.organizationId, req.params.id, options));
+  } catch (error) {
+    handleError(res, error, 'fetching knowledge documents');
+  }
+});
+
+// Get document
+router.get('/:id/documents/:documentId', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const document = await knowledgeBaseService.getDocument(req.organizationId, req.params.id, req.params.documentId);
+    if (!document) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    res.json(document);
+  } catch (error) {
+    handleError(res, error, 'fetching knowledge document');
+  }
+});
+
+// Edit document text (re-embedded) or metadata
+router.put('/:id/documents/:documentId', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = UpdateDocumentSchema.parse(req.body);
+    res.json(await knowledgeBaseService.updateDocument(req.organizationId, req.params.id, req.params.documentId, validated));
+  } catch (error) {
+    handleError(res, error, 'updating knowledge document');
+  }
+});
+
+// Delete document
+router.delete('/:id/documents/:documentId', requirePermission({ resourceType: 'knowledge_base', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await knowledgeBaseService.deleteDocument(req.organizationId, req.params.id, req.params.documentId);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting knowledge document');
+  }
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
+import { llmProviderService, LLMProviderInput } from '../services/llmProviderService';
+import { z } from 'zod';
+
+import { auditLogMiddleware } from '../middleware/auditLog';
+
+const router = Router();
+
+// All routes require authentication and organization
+router.use(authenticate);
+router.use(setOrganization);
+router.use(auditLogMiddleware);
+
+const PricingSchema = z.object({
+  input: z.number().min(0), // USD per 1M tokens
+  output: z.number().min(0),
+});
+
+const ModelSchema = z.object({
+  id: z.string().min(1).max(255),
+  type: z.enum(['chat', 'embedding']).optional(),
+  label: z.string().max(255).optional(),
+  pricing: PricingSchema.optional(),
+});
+
+const ProviderSchema = z.object({
+  name: z.string().min(1).max(255),
+  type: z.enum(['openai_compatible', 'azure_openai']).optional(),
+  // e.g. http://vllm.internal:8000/v1, http://localhost:11434/v1, https://<resource>.openai.azure.com
+  baseUrl: z.string().url(),
+  apiKey: z.string().max(4096).nullable().optional(),
+  headers: z.record(z.string().max(4096)).nullable().optional(),
+  apiVersion: z.string().max(50).nullable().optional(),
+  models: z.array(ModelSchema).max(500).optional(),
+  isPrivate: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+});
+
+const NOT_FOUND_ERRORS = ['LLM provider not found'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error.message === 'An LLM provider with this name already exists') {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+// List the organization's LLM providers (without secrets)
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await llmProviderService.list(req.organizationId));
+  } catch (error) {
+    handleError(res, error, 'fetching LLM providers');
+  }
+});
+
+// Create provider
+router.post('/', requirePermission({ resourceType: 'llm_provider', action: 'create' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = ProviderSchema.parse(req.body);
+    const provider = await llmProviderService.create(req.organizationId, req.user.id, validated as LLMProviderInput);
+    res.status(201).json(provider);
+  } catch (error) {
+    handleError(res, error, 'creating LLM provider');
+  }
+});
+
+// Get provider
+router.get('/:id', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const provider = await llmProviderService.get(req.organizationId, req.params.id);
+    if (!provider) {
+      res.status(404).json({ error: 'LLM provider not found' });
+      return;
+    }
+
+    res.json(provider);
+  } catch (error) {
+    handleError(res, error, 'fetching LLM provider');
+  }
+});
+
+// Update provider; omit apiKey or headers to keep the stored values
+router.put('/:id', requirePermission({ resourceType: 'llm_provider', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = ProviderSchema.partial().parse(req.body);
+    res.json(await llmProviderService.update(req.organizationId, req.params.id, validated as Partial<LLMProviderInput>));
+  } catch (error) {
+    handleError(res, error, 'updating LLM provider');
+  }
+});
+
+// Delete provider
+router.delete('/:id', requirePermission({ resourceType: 'llm_provider', action: 'delete' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await llmProviderService.delete(req.organizationId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting LLM provider');
+  }
+});
+
+// Check the endpoint and list the models it serves
+router.post('/:id/test', requirePermission({ resourceType: 'llm_provider', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await llmProviderService.testConnection(req.organizationId, req.params.id));
+  } catch (error: any) {
+    if (error.message?.endsWith('is disabled')) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    handleError(res, error, 'testing LLM provider');
+  }
+});
+
+export default router;
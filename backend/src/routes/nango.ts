@@ -30,7 +30,7 @@ router.get('/oauth/:provider/authorize', async (req: AuthRequest, res) => {
     const { connectionId } = req.query;
 
     // Verify connector exists
-    const connector = connectorRegistry.get(provider);
+    const connector = await connectorRegistry.resolve(provider);
     if (!connector) {
       return res.status(404).json({ error: `Connector ${provider} not found` });
     }
@@ -2,8 +2,15 @@ import { Router } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { setOrganization } from '../middleware/organization';
 import { auditLogMiddleware } from '../middleware/auditLog';
+import { requirePermission } from '../middleware/permissions';
 import { performanceMonitoring } from '../services/performanceMonitoring';
 import { cacheService } from '../services/cacheService';
+import { workflowExecutor } from '../services/workflowExecutor';
+import { concurrencyService } from '../services/concurrencyService';
+import { db } from '../config/database';
+import { workspaces } from '../../drizzle/schema';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
 
 const router = Router();
 
@@ -149,6 +156,94 @@ router.get('/cache', async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * Get the organization's execution queue metrics: queued runs per priority
+ * class, wait times, and running executions against each workspace's
+ * concurrency limit
+ * GET /api/v1/monitoring/performance/queue
+ */
+router.get('/queue', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const queue = await workflowExecutor.getQueueMetrics(req.organizationId);
+
+    const organizationWorkspaces = await db
+      .select({ id: workspaces.id, name: workspaces.name, settings: workspaces.settings })
+      .from(workspaces)
+      .where(eq(workspaces.organizationId, req.organizationId));
+
+    const workspaceConcurrency = await Promise.all(
+      organizationWorkspaces.map(async (workspace) => {
+        const limit = ((workspace.settings as any)?.maxConcurrentExecutions as number | undefined) || null;
+        const running = limit
+          ? (await concurrencyService.holders(concurrencyService.workspaceScope(workspace.id, limit))).length
+          : null;
+        return { workspaceId: workspace.id, name: workspace.name, limit, running };
+      })
+    );
+
+    res.json({ ...queue, workspaces: workspaceConcurrency });
+  } catch (error) {
+    console.error('Error fetching queue metrics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const WorkspaceLimitSchema = z.object({
+  limit: z.number().int().positive().nullable(),
+});
+
+/**
+ * Set (or clear, with null) the max concurrent executions of a workspace
+ * PUT /api/v1/monitoring/performance/queue/workspaces/:workspaceId
+ */
+router.put('/queue/workspaces/:workspaceId', requirePermission({ resourceType: 'organization', action: 'admin' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { limit } = WorkspaceLimitSchema.parse(req.body);
+
+    const [workspace] = await db
+      .select({ id: workspaces.id, settings: workspaces.settings })
+      .from(workspaces)
+      .where(and(eq(workspaces.id, req.params.workspaceId), eq(workspaces.organizationId, req.organizationId)))
+      .limit(1);
+
+    if (!workspace) {
+      res.status(404).json({ error: 'Workspace not found' });
+      return;
+    }
+
+    const settings = { ...((workspace.settings as Record<string, unknown>) || {}) };
+    if (limit) {
+      settings.maxConcurrentExecutions = limit;
+    } else {
+      delete settings.maxConcurrentExecutions;
+    }
+
+    await db
+      .update(workspaces)
+      .set({ settings, updatedAt: new Date() })
+      .where(eq(workspaces.id, workspace.id));
+
+    res.json({ workspaceId: workspace.id, limit });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+    console.error('Error updating workspace concurrency limit:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * Reset performance metrics
  * POST /api/v1/monitoring/performance/reset
@@ -1,17 +1,19 @@
 /**
  * Policy Management Routes
- * 
- * API endpoints for managing routing policies
+ *
+ * API endpoints for managing routing and node-dispatch policies
  */
 
-import { Router } from 'express';
+import { Router, Response } from 'express';
+import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { policyEngineService } from '../services/policyEngineService';
+import { policyEngineService, PolicySetInput } from '../services/policyEngineService';
 import { db } from '../config/database';
-import { organizations, workspaces } from '../../drizzle/schema';
+import { workflows, workspaces } from '../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import { auditLogMiddleware } from '../middleware/auditLog';
 import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
 
 const router = Router();
 
@@ -20,227 +22,311 @@ router.use(authenticate);
 router.use(auditLogMiddleware);
 router.use(setOrganization);
 
+const ConditionSchema = z.object({
+  field: z.string().min(1).max(255),
+  operator: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'contains', 'regex', 'exists']),
+  value: z.any(),
+});
+
+const ActionSchema = z.object({
+  type: z.enum(['route', 'block', 'warn', 'modify', 'log']),
+  target: z.string().max(255).optional(),
+  value: z.any().optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+const RuleSchema = z.object({
+  id: z.string().max(100).optional(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  conditions: z.array(ConditionSchema).max(50),
+  actions: z.array(ActionSchema).min(1).max(20),
+  metadata: z.record(z.any()).optional(),
+});
+
+const PolicySetSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  workspaceId: z.string().nullable().optional(),
+  rules: z.array(RuleSchema).max(200).default([]),
+  enabled: z.boolean().optional(),
+  priority: z.number().int().optional(),
+});
+
+const SimulateSchema = z
+  .object({
+    workflowId: z.string().optional(),
+    definition: z.object({ nodes: z.array(z.object({ id: z.string() }).passthrough()) }).passthrough().optional(),
+    input: z.record(z.any()).optional(),
+    workspaceId: z.string().optional(),
+  })
+  .refine((body) => body.workflowId || body.definition, { message: 'workflowId or definition is required' });
+
+const NOT_FOUND_ERRORS = ['Policy set not found', 'Policy set version not found', 'Workspace not found', 'Workflow not found'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  console.error(`[Policies] Error ${action}:`, error);
+  res.status(500).json({ error: error.message || `Failed ${action}` });
+}
+
+async function assertWorkspace(organizationId: string, workspaceId: string | null | undefined): Promise<void> {
+  if (!workspaceId) return;
+
+  const [workspace] = await db
+    .select({ id: workspaces.id })
+    .from(workspaces)
+    .where(and(eq(workspaces.id, workspaceId), eq(workspaces.organizationId, organizationId)))
+    .limit(1);
+
+  if (!workspace) {
+    throw new Error('Workspace not found');
+  }
+}
+
 /**
  * GET /api/v1/policies
  * Get all policy sets for the current organization/workspace
  */
 router.get('/', async (req: AuthRequest, res) => {
   try {
-    if (!req.user) {
+    if (!req.user || !req.organizationId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const organizationId = req.organizationId;
     const workspaceId = req.query.workspaceId as string | undefined;
-
-    const policySets = policyEngineService.getPolicySets(organizationId, workspaceId);
+    const policySets = await policyEngineService.listPolicySets(req.organizationId, workspaceId);
 
     res.json({ policySets });
   } catch (error: any) {
-    console.error('[Policies] Error fetching policy sets:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch policy sets' });
+    handleError(res, error, 'fetching policy sets');
   }
 });
 
 /**
- * GET /api/v1/policies/:policySetId
- * Get a specific policy set
+ * POST /api/v1/policies/evaluate
+ * Evaluate policies against a context (for testing)
  */
-router.get('/:policySetId', async (req: AuthRequest, res) => {
+router.post('/evaluate', async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const { policySetId } = req.params;
     const organizationId = req.organizationId;
-    const workspaceId = req.query.workspaceId as string | undefined;
-
-    const policySets = policyEngineService.getPolicySets(organizationId, workspaceId);
-    const policySet = policySets.find((ps) => ps.id === policySetId);
+    const workspaceId = req.body.workspaceId as string | undefined;
+    const context = req.body.context;
 
-    if (!policySet) {
-      res.status(404).json({ error: 'Policy set not found' });
-      return;
-    }
+    const result = await policyEngineService.evaluatePolicies(context, {
+      organizationId,
+      workspaceId,
+      dryRun: true,
+    });
 
-    res.json({ policySet });
+    res.json({ result });
   } catch (error: any) {
-    console.error('[Policies] Error fetching policy set:', error);
-    res.status(500).json({ error: error.message || 'Failed to fetch policy set' });
+    handleError(res, error, 'evaluating policies');
   }
 });
 
 /**
- * POST /api/v1/policies
- * Create a new policy set
+ * POST /api/v1/policies/simulate
+ * Dry run: which rules would fire for each node of a workflow execution
  */
-router.post('/', async (req: AuthRequest, res) => {
+router.post('/simulate', async (req: AuthRequest, res) => {
   try {
-    if (!req.user) {
+    if (!req.user || !req.organizationId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const organizationId = req.organizationId;
-    const workspaceId = req.body.workspaceId as string | undefined;
-
-    // Validate organization/workspace access
-    if (organizationId) {
-      const [org] = await db
-        .select()
-        .from(organizations)
-        .where(eq(organizations.id, organizationId))
+    const body = SimulateSchema.parse(req.body);
+    let workflowId = body.workflowId || 'simulation';
+    let workspaceId = body.workspaceId;
+    let definition = body.definition;
+
+    if (body.workflowId) {
+      const [workflow] = await db
+        .select({ id: workflows.id, workspaceId: workflows.workspaceId, definition: workflows.definition })
+        .from(workflows)
+        .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+        .where(and(eq(workflows.id, body.workflowId), eq(workspaces.organizationId, req.organizationId)))
         .limit(1);
 
-      if (!org) {
-        res.status(404).json({ error: 'Organization not found' });
-        return;
+      if (!workflow) {
+        throw new Error('Workflow not found');
       }
-    }
-
-    if (workspaceId) {
-      const [workspace] = await db
-        .select()
-        .from(workspaces)
-        .where(
-          and(
-            eq(workspaces.id, workspaceId),
-            organizationId ? eq(workspaces.organizationId, organizationId) : undefined
-          )
-        )
-        .limit(1);
 
-      if (!workspace) {
-        res.status(404).json({ error: 'Workspace not found' });
-        return;
-      }
+      workflowId = workflow.id;
+      workspaceId = workflow.workspaceId;
+      definition = definition || (workflow.definition as typeof definition);
+    } else {
+      await assertWorkspace(req.organizationId, workspaceId);
     }
 
-    const policySet = {
-      id: req.body.id || `policy-${Date.now()}`,
-      name: req.body.name,
-      description: req.body.description,
-      organizationId,
+    const nodes = await policyEngineService.simulateExecution({
+      workflowId,
+      nodes: (definition?.nodes || []) as Array<{ id: string; type?: string; data?: Record<string, any> }>,
+      input: body.input,
+      userId: req.user.id,
+      organizationId: req.organizationId,
       workspaceId,
-      rules: req.body.rules || [],
-      enabled: req.body.enabled !== false,
-      priority: req.body.priority || 0,
-    };
-
-    policyEngineService.registerPolicySet(policySet);
+    });
 
-    res.status(201).json({ policySet });
+    res.json({
+      workflowId,
+      blocked: nodes.some((node) => node.blocked),
+      nodes,
+    });
   } catch (error: any) {
-    console.error('[Policies] Error creating policy set:', error);
-    res.status(500).json({ error: error.message || 'Failed to create policy set' });
+    handleError(res, error, 'simulating policies');
   }
 });
 
 /**
- * PUT /api/v1/policies/:policySetId
- * Update a policy set
+ * GET /api/v1/policies/:policySetId
+ * Get a specific policy set
  */
-router.put('/:policySetId', async (req: AuthRequest, res) => {
+router.get('/:policySetId', async (req: AuthRequest, res) => {
   try {
-    if (!req.user) {
+    if (!req.user || !req.organizationId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const { policySetId } = req.params;
-    const organizationId = req.organizationId;
-    const workspaceId = req.body.workspaceId as string | undefined;
+    const policySet = await policyEngineService.getPolicySet(req.organizationId, req.params.policySetId);
 
-    const policySets = policyEngineService.getPolicySets(organizationId, workspaceId);
-    const existingPolicySet = policySets.find((ps) => ps.id === policySetId);
-
-    if (!existingPolicySet) {
+    if (!policySet) {
       res.status(404).json({ error: 'Policy set not found' });
       return;
     }
 
-    // Unregister old policy set
-    policyEngineService.unregisterPolicySet(policySetId);
+    res.json({ policySet });
+  } catch (error: any) {
+    handleError(res, error, 'fetching policy set');
+  }
+});
+
+/**
+ * POST /api/v1/policies
+ * Create a new policy set
+ */
+router.post('/', requirePermission({ resourceType: 'policy', action: 'create' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
 
-    // Register updated policy set
-    const updatedPolicySet = {
-      ...existingPolicySet,
-      ...req.body,
-      id: policySetId, // Ensure ID doesn't change
-      organizationId: existingPolicySet.organizationId || organizationId,
-      workspaceId: existingPolicySet.workspaceId || workspaceId,
-    };
+    const input = PolicySetSchema.parse(req.body);
+    await assertWorkspace(req.organizationId, input.workspaceId);
 
-    policyEngineService.registerPolicySet(updatedPolicySet);
+    const policySet = await policyEngineService.createPolicySet(req.organizationId, req.user.id, input as PolicySetInput);
 
-    res.json({ policySet: updatedPolicySet });
+    res.status(201).json({ policySet });
   } catch (error: any) {
-    console.error('[Policies] Error updating policy set:', error);
-    res.status(500).json({ error: error.message || 'Failed to update policy set' });
+    handleError(res, error, 'creating policy set');
   }
 });
 
 /**
- * DELETE /api/v1/policies/:policySetId
- * Delete a policy set
+ * PUT /api/v1/policies/:policySetId
+ * Update a policy set (saved as a new version)
  */
-router.delete('/:policySetId', async (req: AuthRequest, res) => {
+router.put('/:policySetId', requirePermission({ resourceType: 'policy', action: 'update' }), async (req: AuthRequest, res) => {
   try {
-    if (!req.user) {
+    if (!req.user || !req.organizationId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const { policySetId } = req.params;
-    const organizationId = req.organizationId;
-    const workspaceId = req.query.workspaceId as string | undefined;
+    const input = PolicySetSchema.partial().parse(req.body);
+    await assertWorkspace(req.organizationId, input.workspaceId);
 
-    const policySets = policyEngineService.getPolicySets(organizationId, workspaceId);
-    const existingPolicySet = policySets.find((ps) => ps.id === policySetId);
+    const policySet = await policyEngineService.updatePolicySet(
+      req.organizationId,
+      req.params.policySetId,
+      req.user.id,
+      input as Partial<PolicySetInput>
+    );
 
-    if (!existingPolicySet) {
-      res.status(404).json({ error: 'Policy set not found' });
+    res.json({ policySet });
+  } catch (error: any) {
+    handleError(res, error, 'updating policy set');
+  }
+});
+
+/**
+ * DELETE /api/v1/policies/:policySetId
+ * Delete a policy set
+ */
+router.delete('/:policySetId', requirePermission({ resourceType: 'policy', action: 'delete' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    policyEngineService.unregisterPolicySet(policySetId);
+    await policyEngineService.deletePolicySet(req.organizationId, req.params.policySetId);
 
     res.json({ success: true });
   } catch (error: any) {
-    console.error('[Policies] Error deleting policy set:', error);
-    res.status(500).json({ error: error.message || 'Failed to delete policy set' });
+    handleError(res, error, 'deleting policy set');
   }
 });
 
 /**
- * POST /api/v1/policies/evaluate
- * Evaluate policies against a context (for testing)
+ * GET /api/v1/policies/:policySetId/versions
+ * Version history of a policy set, newest first
  */
-router.post('/evaluate', async (req: AuthRequest, res) => {
+router.get('/:policySetId/versions', async (req: AuthRequest, res) => {
   try {
-    if (!req.user) {
+    if (!req.user || !req.organizationId) {
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
-    const organizationId = req.organizationId;
-    const workspaceId = req.body.workspaceId as string | undefined;
-    const context = req.body.context;
+    const versions = await policyEngineService.listVersions(req.organizationId, req.params.policySetId);
 
-    const result = await policyEngineService.evaluatePolicies(context, {
-      organizationId,
-      workspaceId,
-    });
-
-    res.json({ result });
+    res.json({ versions });
   } catch (error: any) {
-    console.error('[Policies] Error evaluating policies:', error);
-    res.status(500).json({ error: error.message || 'Failed to evaluate policies' });
+    handleError(res, error, 'fetching policy set versions');
   }
 });
 
-export default router;
+/**
+ * POST /api/v1/policies/:policySetId/versions/:version/restore
+ * Restore an earlier version (saved as a new version)
+ */
+router.post(
+  '/:policySetId/versions/:version/restore',
+  requirePermission({ resourceType: 'policy', action: 'update' }),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.user || !req.organizationId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
 
+      const version = z.coerce.number().int().positive().parse(req.params.version);
+      const policySet = await policyEngineService.restoreVersion(req.organizationId, req.params.policySetId, version, req.user.id);
+
+      res.json({ policySet });
+    } catch (error: any) {
+      handleError(res, error, 'restoring policy set version');
+    }
+  }
+);
+
+export default router;
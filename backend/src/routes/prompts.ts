@@ -0,0 +1,216 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
+import { promptService, PromptInput, PromptVersionInput } from '../services/promptService';
+import { z } from 'zod';
+
+import { auditLogMiddleware } from '../middleware/auditLog';
+
+const router = Router();
+
+// All routes require authentication and organization
+router.use(authenticate);
+router.use(setOrganization);
+router.use(auditLogMiddleware);
+
+const VersionString = z.string().regex(/^\d+\.\d+\.\d+$/, 'Expected MAJOR.MINOR.PATCH');
+const LabelString = z.string().min(1).max(50).regex(/^[a-z0-9_-]+$/, 'Lowercase letters, digits, - and _ only');
+
+const VariableSchema = z.object({
+  name: z.string().min(1).max(100).regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/),
+  description: z.string().max(1000).optional(),
+  required: z.boolean().optional(),
+  default: z.string().max(10000).optional(),
+});
+
+const ModelDefaultsSchema = z.object({
+  provider: z.enum(['openai', 'anthropic', 'google', 'openai_compatible']).optional(),
+  model: z.string().max(255).optional(),
+  providerId: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+});
+
+const PromptSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+});
+
+const VersionSchema = z.object({
+  version: VersionString.optional(),
+  bump: z.enum(['major', 'minor', 'patch']).optional(),
+  template: z.string().min(1).max(100000),
+  systemPrompt: z.string().max(100000).nullable().optional(),
+  variables: z.array(VariableSchema).max(100).optional(),
+  modelDefaults: ModelDefaultsSchema.optional(),
+  changelog: z.string().max(5000).nullable().optional(),
+  labels: z.array(LabelString).max(10).optional(),
+});
+
+const LabelSchema = z.object({
+  version: VersionString,
+});
+
+const NOT_FOUND_ERRORS = ['Prompt not found', 'Prompt version not found'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error.message === 'A prompt with this name already exists' || error.message?.startsWith('Version must be higher than')) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+// List the organization's prompts with their latest version and labels
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await promptService.list(req.organizationId));
+  } catch (error) {
+    handleError(res, error, 'fetching prompts');
+  }
+});
+
+// Create prompt with its first version (1.0.0 unless given)
+router.post('/', requirePermission({ resourceType: 'prompt', action: 'create' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = PromptSchema.merge(VersionSchema).parse(req.body);
+    const prompt = await promptService.create(req.organizationId, req.user.id, validated as PromptInput & PromptVersionInput);
+    res.status(201).json(prompt);
+  } catch (error) {
+    handleError(res, error, 'creating prompt');
+  }
+});
+
+// Get prompt with all versions
+router.get('/:id', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const prompt = await promptService.get(req.organizationId, req.params.id);
+    if (!prompt) {
+      res.status(404).json({ error: 'Prompt not found' });
+      return;
+    }
+
+    res.json(prompt);
+  } catch (error) {
+    handleError(res, error, 'fetching prompt');
+  }
+});
+
+// Update name, description or tags; templates change through new versions
+router.put('/:id', requirePermission({ resourceType: 'prompt', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = PromptSchema.partial().parse(req.body);
+    res.json(await promptService.update(req.organizationId, req.params.id, validated as Partial<PromptInput>));
+  } catch (error) {
+    handleError(res, error, 'updating prompt');
+  }
+});
+
+// Delete prompt and its versions
+router.delete('/:id', requirePermission({ resourceType: 'prompt', action: 'delete' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await promptService.delete(req.organizationId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting prompt');
+  }
+});
+
+// Add a version (explicit version, or the latest bumped by `bump`)
+router.post('/:id/versions', requirePermission({ resourceType: 'prompt', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = VersionSchema.parse(req.body);
+    const version = await promptService.createVersion(req.organizationId, req.params.id, req.user.id, validated as PromptVersionInput);
+    res.status(201).json(version);
+  } catch (error) {
+    handleError(res, error, 'creating prompt version');
+  }
+});
+
+// Point an environment label (draft, production, ...) at a version
+router.put('/:id/labels/:label', requirePermission({ resourceType: 'prompt', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const label = LabelString.parse(req.params.label);
+    const { version } = LabelSchema.parse(req.body);
+    res.json(await promptService.setLabel(req.organizationId, req.params.id, label, version));
+  } catch (error) {
+    handleError(res, error, 'setting prompt label');
+  }
+});
+
+// Remove a label; nodes that use it fail until it is set again
+router.delete('/:id/labels/:label', requirePermission({ resourceType: 'prompt', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await promptService.removeLabel(req.organizationId, req.params.id, req.params.label));
+  } catch (error) {
+    handleError(res, error, 'removing prompt label');
+  }
+});
+
+// Cost and token usage per version, optionally since a date
+router.get('/:id/stats', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const since = req.query.since ? z.coerce.date().parse(req.query.since) : undefined;
+    res.json(await promptService.stats(req.organizationId, req.params.id, since));
+  } catch (error) {
+    handleError(res, error, 'fetching prompt stats');
+  }
+});
+
+export default router;
@@ -0,0 +1,266 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { setOrganization } from '../middleware/organization';
+import { requirePermission } from '../middleware/permissions';
+import { ragEvalService, RagEvalCaseInput, StartRunInput } from '../services/ragEvalService';
+import { z } from 'zod';
+
+import { auditLogMiddleware } from '../middleware/auditLog';
+
+const router = Router();
+
+// All routes require authentication and organization
+router.use(authenticate);
+router.use(setOrganization);
+router.use(auditLogMiddleware);
+
+const CaseSchema = z.object({
+  question: z.string().min(1).max(5000),
+  expectedAnswer: z.string().max(20000).nullable().optional(),
+  // Document ids, or metadata.source / metadata.documentId values of the chunks that answer the question
+  expectedSources: z.array(z.string().min(1)).max(100).optional(),
+});
+
+const CreateDatasetSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  cases: z.array(CaseSchema).max(1000).optional(),
+});
+
+const UpdateDatasetSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+const AddCasesSchema = z.object({
+  cases: z.array(CaseSchema).min(1).max(1000),
+});
+
+const StartRunSchema = z.object({
+  workflowId: z.string().min(1),
+  nodeId: z.string().min(1).optional(),
+  overrides: z.record(z.unknown()).optional(),
+  judge: z.object({
+    provider: z.enum(['openai', 'anthropic', 'google', 'openai_compatible']),
+    model: z.string().min(1),
+    providerId: z.string().min(1).optional(),
+  }).refine((judge) => judge.provider !== 'openai_compatible' || !!judge.providerId, {
+    message: 'providerId is required for openai_compatible judges',
+  }).nullable().optional(),
+});
+
+const NOT_FOUND_ERRORS = ['Dataset not found', 'Case not found', 'Run not found', 'Workflow not found', 'RAG node not found'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ error: 'Validation error', details: error.errors });
+    return;
+  }
+  if (NOT_FOUND_ERRORS.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  console.error(`Error ${action}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+// List datasets with their question count and latest run
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await ragEvalService.listDatasets(req.organizationId));
+  } catch (error) {
+    handleError(res, error, 'fetching evaluation datasets');
+  }
+});
+
+// Create dataset, optionally with its questions
+router.post('/', requirePermission({ resourceType: 'rag_evaluation', action: 'create' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = CreateDatasetSchema.parse(req.body);
+    const dataset = await ragEvalService.createDataset(req.organizationId, req.user.id, {
+      ...validated,
+      name: validated.name!,
+      cases: validated.cases as RagEvalCaseInput[] | undefined,
+    });
+    res.status(201).json(dataset);
+  } catch (error) {
+    handleError(res, error, 'creating evaluation dataset');
+  }
+});
+
+// Get dataset with its questions
+router.get('/:id', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const dataset = await ragEvalService.getDataset(req.organizationId, req.params.id);
+    if (!dataset) {
+      res.status(404).json({ error: 'Dataset not found' });
+      return;
+    }
+
+    res.json(dataset);
+  } catch (error) {
+    handleError(res, error, 'fetching evaluation dataset');
+  }
+});
+
+// Update dataset
+router.put('/:id', requirePermission({ resourceType: 'rag_evaluation', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = UpdateDatasetSchema.parse(req.body);
+    res.json(await ragEvalService.updateDataset(req.organizationId, req.params.id, validated));
+  } catch (error) {
+    handleError(res, error, 'updating evaluation dataset');
+  }
+});
+
+// Delete dataset with its questions and runs
+router.delete('/:id', requirePermission({ resourceType: 'rag_evaluation', action: 'delete' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await ragEvalService.deleteDataset(req.organizationId, req.params.id);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting evaluation dataset');
+  }
+});
+
+// Add questions
+router.post('/:id/cases', requirePermission({ resourceType: 'rag_evaluation', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = AddCasesSchema.parse(req.body);
+    const cases = await ragEvalService.addCases(req.organizationId, req.params.id, validated.cases as RagEvalCaseInput[]);
+    res.status(201).json(cases);
+  } catch (error) {
+    handleError(res, error, 'adding evaluation questions');
+  }
+});
+
+// Update question
+router.put('/:id/cases/:caseId', requirePermission({ resourceType: 'rag_evaluation', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = CaseSchema.partial().parse(req.body);
+    res.json(await ragEvalService.updateCase(req.organizationId, req.params.id, req.params.caseId, validated));
+  } catch (error) {
+    handleError(res, error, 'updating evaluation question');
+  }
+});
+
+// Delete question
+router.delete('/:id/cases/:caseId', requirePermission({ resourceType: 'rag_evaluation', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    await ragEvalService.deleteCase(req.organizationId, req.params.id, req.params.caseId);
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting evaluation question');
+  }
+});
+
+// List runs of a dataset with their config and averages
+router.get('/:id/runs', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json(await ragEvalService.listRuns(req.organizationId, req.params.id));
+  } catch (error) {
+    handleError(res, error, 'fetching evaluation runs');
+  }
+});
+
+// Run all questions against the RAG node of a workflow; responds 202 while the run continues
+router.post('/:id/runs', requirePermission({ resourceType: 'rag_evaluation', action: 'execute' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const validated = StartRunSchema.parse(req.body);
+    const run = await ragEvalService.startRun(req.organizationId, req.user.id, req.params.id, validated as StartRunInput);
+    res.status(202).json(run);
+  } catch (error: any) {
+    if (error.message === 'Dataset has no questions' || error.message.startsWith('Workflow is restricted to private LLM providers')) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    handleError(res, error, 'starting evaluation run');
+  }
+});
+
+// Compare runs side by side (?runIds=a,b)
+router.get('/:id/runs/compare', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const runIds = z.string().min(1).parse(req.query.runIds).split(',').filter(Boolean);
+    res.json(await ragEvalService.compareRuns(req.organizationId, req.params.id, [...new Set(runIds)]));
+  } catch (error) {
+    handleError(res, error, 'comparing evaluation runs');
+  }
+});
+
+// Get run with the result of every question
+router.get('/:id/runs/:runId', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const run = await ragEvalService.getRun(req.organizationId, req.params.id, req.params.runId);
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+
+    res.json(run);
+  } catch (error) {
+    handleError(res, error, 'fetching evaluation run');
+  }
+});
+
+export default router;
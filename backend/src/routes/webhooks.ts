@@ -1,12 +1,206 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { db } from '../config/database';
-import { workflows, webhookRegistry } from '../../drizzle/schema';
+import { workflows, webhookRegistry, workspaces } from '../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { WorkflowDefinition } from '@sos/shared';
 import { workflowExecutor } from '../services/workflowExecutor';
+import { webhookAuthService, WebhookAuthConfig } from '../services/webhookAuthService';
+import { auditService } from '../services/auditService';
+import { websocketService } from '../services/websocketService';
+import { connectorTriggerService } from '../services/connectorTriggerService';
+import { decryptWebhookAuth } from '../services/webhookRegistry';
 
 const router = Router();
 
-// Webhook endpoint - no auth required (uses path-based auth)
+interface WebhookResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+function sendWebhookResponse(res: Response, response: WebhookResponse) {
+  res.status(response.statusCode);
+  if (response.headers) {
+    res.set(response.headers);
+  }
+
+  if (response.body === undefined || response.body === null) {
+    res.end();
+  } else if (typeof response.body === 'object') {
+    res.json(response.body);
+  } else {
+    res.send(String(response.body));
+  }
+}
+
+/**
+ * Find the response set by the first Respond to Webhook node that ran
+ */
+function findResponseNodeResult(
+  definition: WorkflowDefinition,
+  results: Record<string, any>
+): WebhookResponse | null {
+  for (const node of definition.nodes) {
+    if ((node.data?.type as string) !== 'action.respond_webhook') continue;
+    const result = results[node.id];
+    if (result?.success && result.output?.webhookResponse) {
+      return result.output.webhookResponse as WebhookResponse;
+    }
+  }
+  return null;
+}
+
+/**
+ * Output of the last node that ran
+ */
+function findLastNodeOutput(results: Record<string, any>): unknown {
+  const nodeResults = Object.values(results).filter((result) => result && typeof result === 'object' && 'output' in result);
+  return nodeResults.length > 0 ? nodeResults[nodeResults.length - 1].output : {};
+}
+
+type SyncResponseMode = 'response_node' | 'last_node';
+
+type SyncExecution = {
+  executionId: string;
+  status: string;
+  results?: Record<string, any>;
+  error?: string;
+  reason?: string;
+  code?: string;
+};
+
+/**
+ * Response for a caller that waited for the run to finish
+ */
+function buildSyncResponse(
+  responseMode: SyncResponseMode,
+  definition: WorkflowDefinition,
+  execution: SyncExecution
+): WebhookResponse {
+  if (execution.status === 'skipped') {
+    return { statusCode: 429, body: { error: execution.reason, executionId: execution.executionId } };
+  }
+
+  // Still running in the background: no concurrency slot freed up in time,
+  // or the run waits (wait node, human prompt, breakpoint)
+  if (execution.status === 'queued' || execution.status === 'paused') {
+    return { statusCode: 202, body: { executionId: execution.executionId, status: execution.status } };
+  }
+
+  if (execution.status === 'cancelled') {
+    return {
+      statusCode: 409,
+      body: {
+        error: 'Workflow execution cancelled',
+        message: execution.error,
+        executionId: execution.executionId,
+      },
+    };
+  }
+
+  if (execution.status === 'failed' && execution.code === 'WORKFLOW_TIMEOUT') {
+    return {
+      statusCode: 504,
+      body: {
+        error: 'Workflow execution timed out',
+        message: execution.error,
+        executionId: execution.executionId,
+      },
+    };
+  }
+
+  if (execution.status === 'failed') {
+    return {
+      statusCode: 500,
+      body: {
+        error: 'Workflow execution failed',
+        message: execution.error,
+        executionId: execution.executionId,
+      },
+    };
+  }
+
+  const results = execution.results || {};
+
+  if (responseMode === 'response_node') {
+    return (
+      findResponseNodeResult(definition, results) || {
+        statusCode: 500,
+        body: {
+          error: 'No Respond to Webhook node was executed',
+          executionId: execution.executionId,
+        },
+      }
+    );
+  }
+
+  return { statusCode: 200, body: findLastNodeOutput(results) };
+}
+
+/**
+ * Run the workflow and send it to the caller as Server-Sent Events:
+ * `execution` with the execution ID, `chunk` for streamed LLM and RAG output
+ * (`reset` discards the node's earlier chunks), then `result` with the
+ * webhook response
+ */
+async function streamSyncExecution(
+  res: Response,
+  responseMode: SyncResponseMode,
+  definition: WorkflowDefinition,
+  run: Omit<Parameters<typeof workflowExecutor.executeWorkflow>[0], 'executionId' | 'definition'>
+) {
+  const executionId = createId();
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  send('execution', { executionId });
+
+  const unsubscribe = websocketService.subscribe(executionId, (event) => {
+    if (event.type === 'node_chunk') {
+      send('chunk', { nodeId: event.nodeId, ...event.data });
+    }
+  });
+
+  try {
+    const execution = (await workflowExecutor.executeWorkflow({ ...run, definition, executionId })) as SyncExecution;
+    send('result', buildSyncResponse(responseMode, definition, execution));
+  } catch (error) {
+    console.error('Webhook stream error:', error);
+    send('result', { statusCode: 500, body: { error: 'Webhook processing failed', executionId } });
+  } finally {
+    unsubscribe();
+    res.end();
+  }
+}
+
+// Connector trigger deliveries (e.g. GitHub repository webhooks); verified with the trigger's secret
+router.post('/connectors/:triggerId', async (req, res) => {
+  try {
+    const response = await connectorTriggerService.handleWebhook(req.params.triggerId, {
+      headers: req.headers,
+      rawBody: (req as typeof req & { rawBody?: string }).rawBody || '',
+      ip: req.ip,
+      body: req.body,
+    });
+    res.status(response.statusCode).json(response.body);
+  } catch (error: any) {
+    console.error('Connector trigger webhook error:', error);
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+});
+
+// Webhook endpoint - no user auth; verified against the webhook's own auth options
 router.all('/:path', async (req, res) => {
   try {
     const { path } = req.params;
@@ -15,11 +209,18 @@ router.all('/:path', async (req, res) => {
     // Find webhook in registry
     const [webhookData] = await db
       .select({
+        id: webhookRegistry.id,
+        nodeId: webhookRegistry.nodeId,
         workflowId: webhookRegistry.workflowId,
+        responseMode: webhookRegistry.responseMode,
+        auth: webhookRegistry.auth,
         workflowDefinition: workflows.definition,
+        workspaceId: workflows.workspaceId,
+        organizationId: workspaces.organizationId,
       })
       .from(webhookRegistry)
       .innerJoin(workflows, eq(webhookRegistry.workflowId, workflows.id))
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
       .where(
         and(
           eq(webhookRegistry.path, `/${path}`),
@@ -35,6 +236,42 @@ router.all('/:path', async (req, res) => {
       return;
     }
 
+    // Verify signature, token, IP allowlist and replay window
+    const verification = await webhookAuthService.verify(
+      webhookData.id,
+      {
+        headers: req.headers,
+        rawBody: (req as typeof req & { rawBody?: string }).rawBody || '',
+        ip: req.ip,
+      },
+      decryptWebhookAuth(webhookData.auth as WebhookAuthConfig | null)
+    );
+
+    if (!verification.valid) {
+      await auditService.log({
+        organizationId: webhookData.organizationId || undefined,
+        action: 'webhook.rejected',
+        resourceType: 'webhook',
+        resourceId: webhookData.workflowId,
+        details: {
+          webhookId: webhookData.id,
+          nodeId: webhookData.nodeId,
+          path: `/${path}`,
+          method,
+          reason: verification.reason,
+          message: verification.message,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.status(verification.reason === 'ip_not_allowed' ? 403 : 401).json({
+        error: 'Webhook request rejected',
+        reason: verification.reason,
+      });
+      return;
+    }
+
     // Execute workflow with webhook data
     const webhookInput = {
       body: req.body,
@@ -43,12 +280,54 @@ router.all('/:path', async (req, res) => {
       method: req.method,
       path: req.path,
     };
+    const definition = webhookData.workflowDefinition as WorkflowDefinition;
+
+    // Async mode: queue the run and return the execution ID immediately
+    if (webhookData.responseMode === 'async') {
+      const executionId = createId();
+      await workflowExecutor.enqueueExecution({
+        workflowId: webhookData.workflowId,
+        definition,
+        input: webhookInput,
+        executionId,
+        workspaceId: webhookData.workspaceId,
+        priority: 'webhook',
+      });
 
-    await workflowExecutor.executeWorkflow({
+      res.status(202).json({ success: true, executionId, status: 'queued' });
+      return;
+    }
+
+    const run = {
       workflowId: webhookData.workflowId,
-      definition: webhookData.workflowDefinition as any,
       input: webhookInput,
-    });
+      workspaceId: webhookData.workspaceId,
+      priority: 'webhook' as const,
+    };
+    const responseMode = webhookData.responseMode;
+
+    if (responseMode === 'response_node' || responseMode === 'last_node') {
+      // Callers asking for an event stream get LLM output while it is generated
+      if (req.get('accept')?.includes('text/event-stream')) {
+        await streamSyncExecution(res, responseMode, definition, run);
+        return;
+      }
+
+      const execution = (await workflowExecutor.executeWorkflow({ ...run, definition })) as SyncExecution;
+      sendWebhookResponse(res, buildSyncResponse(responseMode, definition, execution));
+      return;
+    }
+
+    const execution = (await workflowExecutor.executeWorkflow({ ...run, definition })) as SyncExecution;
+
+    if (execution.status === 'skipped') {
+      res.status(429).json({ error: execution.reason, executionId: execution.executionId });
+      return;
+    }
+    if (execution.status === 'queued') {
+      res.status(202).json({ success: true, executionId: execution.executionId, status: 'queued' });
+      return;
+    }
 
     res.json({ success: true, message: 'Webhook received' });
   } catch (error) {
@@ -58,4 +337,3 @@ router.all('/:path', async (req, res) => {
 });
 
 export default router;
-
@@ -4,17 +4,21 @@ import { db } from '../config/database';
 import {
   workflows,
   workflowVersions,
+  workflowExecutions,
+  executionSteps,
   workspaces,
   organizations,
   organizationMembers,
 } from '../../drizzle/schema';
 import { CreateWorkflowSchema, UpdateWorkflowSchema } from '@sos/shared';
 import { eq, desc, and, sql, or, ilike } from 'drizzle-orm';
-import { updateWebhookRegistry, updateEmailTriggerRegistry } from '../services/webhookRegistry';
+import { updateWebhookRegistry, updateEmailTriggerRegistry, maskWebhookSecrets } from '../services/webhookRegistry';
+import { connectorTriggerService } from '../services/connectorTriggerService';
 import { getOrCreateDefaultWorkspace } from '../services/workspaceService';
 import { auditLogMiddleware } from '../middleware/auditLog';
 import { setOrganization } from '../middleware/organization';
 import { requirePermission } from '../middleware/permissions';
+import { expressionService } from '../services/expressionService';
 
 const router = Router();
 
@@ -82,7 +86,7 @@ router.get('/', authenticate, async (req: AuthRequest, res) => {
       .orderBy(desc(workflows.updatedAt))
       .limit(limit || 1000); // Default limit to prevent excessive data
 
-    res.json(workflowsList);
+    res.json(workflowsList.map((workflow) => ({ ...workflow, definition: maskWebhookSecrets(workflow.definition as any) })));
   } catch (error) {
     console.error('Error fetching workflows:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -148,6 +152,7 @@ router.get('/:id', authenticate, async (req: AuthRequest, res) => {
 
     res.json({
       ...workflow,
+      definition: maskWebhookSecrets(workflow.definition as any),
       versions,
     });
   } catch (error) {
@@ -200,7 +205,8 @@ router.post('/', authenticate, requirePermission({ resourceType: 'workflow', act
         name: validated.name,
         description: validated.description,
         workspaceId: workspaceId,
-        definition: validated.definition as any,
+        // Webhook secrets live encrypted on the webhook registry only
+        definition: maskWebhookSecrets(validated.definition) as any,
         settings: validated.settings as any,
         tags: validated.tags || [],
       })
@@ -224,6 +230,13 @@ router.post('/', authenticate, requirePermission({ resourceType: 'workflow', act
         req.user.id,
         workspaceData?.organizationId
       );
+      // Register connector triggers (provider webhooks or polling)
+      await connectorTriggerService.registerWorkflowTriggers(
+        workflow.id,
+        validated.definition,
+        req.user.id,
+        workspaceData?.organizationId
+      );
     }
 
     res.status(201).json(workflow);
@@ -281,7 +294,7 @@ router.put('/:id', authenticate, requirePermission({ resourceType: 'workflow', a
     await db.insert(workflowVersions).values({
       workflowId: req.params.id,
       version: (latestVersion?.version || 0) + 1,
-      definition: existing.definition as any,
+      definition: maskWebhookSecrets(existing.definition as any) as any,
       createdBy: req.user.id,
     });
 
@@ -289,7 +302,7 @@ router.put('/:id', authenticate, requirePermission({ resourceType: 'workflow', a
     const updateData: any = {};
     if (validated.name) updateData.name = validated.name;
     if (validated.description !== undefined) updateData.description = validated.description;
-    if (validated.definition) updateData.definition = validated.definition as any;
+    if (validated.definition) updateData.definition = maskWebhookSecrets(validated.definition) as any;
     if (validated.active !== undefined) updateData.active = validated.active;
     if (validated.settings) updateData.settings = validated.settings as any;
     if (validated.tags !== undefined) updateData.tags = validated.tags;
@@ -319,6 +332,13 @@ router.put('/:id', authenticate, requirePermission({ resourceType: 'workflow', a
         req.user.id,
         workspaceData?.organizationId
       );
+      // Register connector triggers (provider webhooks or polling)
+      await connectorTriggerService.registerWorkflowTriggers(
+        req.params.id,
+        validated.definition,
+        req.user.id,
+        workspaceData?.organizationId
+      );
     }
 
     res.json(workflow);
@@ -360,6 +380,8 @@ router.delete('/:id', authenticate, requirePermission({ resourceType: 'workflow'
       return;
     }
 
+    // Remove provider webhooks before the trigger rows cascade away
+    await connectorTriggerService.unregisterWorkflowTriggers(req.params.id);
     await db.delete(workflows).where(eq(workflows.id, req.params.id));
 
     res.status(204).send();
@@ -369,6 +391,108 @@ router.delete('/:id', authenticate, requirePermission({ resourceType: 'workflow'
   }
 });
 
+// Largest config value the expression preview evaluates (JSON characters)
+const MAX_PREVIEW_VALUE_LENGTH = 10000;
+
+// Preview {{ $... }} expressions for the node config panel. The data the
+// expressions see ($vars, $node, $input, $execution) comes from a workflow or
+// execution of the caller's organization, never from the request.
+router.post('/expressions/preview', authenticate, setOrganization, requirePermission({ resourceType: 'workflow', action: 'update' }), async (req: AuthRequest, res) => {
+  try {
+    if (!req.user || !req.organizationId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { value, workflowId, executionId } = req.body as { value: unknown; workflowId?: string; executionId?: string };
+    if (value === undefined || (JSON.stringify(value) || '').length > MAX_PREVIEW_VALUE_LENGTH) {
+      res.status(400).json({ error: `value is required and must be at most ${MAX_PREVIEW_VALUE_LENGTH} characters` });
+      return;
+    }
+
+    const nodes: Record<string, unknown> = {};
+    let input: Record<string, unknown> = {};
+    let resolvedWorkflowId = typeof workflowId === 'string' ? workflowId : undefined;
+
+    // Use node outputs and the input of a previous execution
+    if (executionId) {
+      const [execution] = await db
+        .select({ id: workflowExecutions.id, workflowId: workflowExecutions.workflowId, input: workflowExecutions.input })
+        .from(workflowExecutions)
+        .innerJoin(workflows, eq(workflowExecutions.workflowId, workflows.id))
+        .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+        .where(
+          and(
+            eq(workflowExecutions.id, String(executionId)),
+            eq(workspaces.organizationId, req.organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!execution) {
+        res.status(404).json({ error: 'Execution not found' });
+        return;
+      }
+
+      resolvedWorkflowId = execution.workflowId;
+      input = (execution.input as Record<string, unknown>) || {};
+
+      const steps = await db
+        .select()
+        .from(executionSteps)
+        .where(eq(executionSteps.executionId, execution.id))
+        .orderBy(executionSteps.stepNumber);
+
+      for (const step of steps) {
+        nodes[step.nodeId] = {
+          nodeId: step.nodeId,
+          success: step.status === 'completed',
+          output: step.output || {},
+          error: step.error || undefined,
+        };
+      }
+    }
+
+    // Saved workflow variables
+    let variables: Record<string, unknown> = {};
+    if (resolvedWorkflowId) {
+      const [workflow] = await db
+        .select({ settings: workflows.settings })
+        .from(workflows)
+        .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+        .where(
+          and(
+            eq(workflows.id, resolvedWorkflowId),
+            eq(workspaces.organizationId, req.organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!workflow) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+      variables = (workflow.settings as any)?.variables || {};
+    }
+
+    const result = expressionService.resolveConfig(value, {
+      input,
+      nodes,
+      execution: {
+        id: executionId ? String(executionId) : 'preview',
+        workflowId: resolvedWorkflowId || 'preview',
+        mode: 'preview',
+      },
+      variables,
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error previewing expression:', error);
+    res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+});
+
 // Duplicate workflow
 router.post('/:id/duplicate', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -413,7 +537,8 @@ router.post('/:id/duplicate', authenticate, async (req: AuthRequest, res) => {
         name: `${original.name} (Copy)`,
         description: original.description || undefined,
         workspaceId: original.workspaceId,
-        definition: original.definition as any,
+        // Webhook secrets are not copied; they have to be entered again
+        definition: maskWebhookSecrets(original.definition as any) as any,
         active: false, // Duplicates are inactive by default
         settings: original.settings as any,
         tags: original.tags || [],
@@ -505,7 +630,7 @@ router.post('/:id/versions/:versionId/restore', authenticate, async (req: AuthRe
     await db
       .update(workflows)
       .set({
-        definition: version.definition as any,
+        definition: maskWebhookSecrets(version.definition as any) as any,
         updatedAt: new Date(),
       })
       .where(eq(workflows.id, req.params.id));
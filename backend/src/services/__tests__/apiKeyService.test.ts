@@ -0,0 +1,144 @@
+/**
+ * Unit tests for API-key hashing, verification, scopes and endpoint allowlist
+ */
+
+const mockSelectResults: unknown[][] = [];
+const mockUpdates: unknown[] = [];
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({ limit: async () => mockSelectResults.shift() ?? [] }),
+      }),
+    }),
+    update: () => ({ set: (values: unknown) => ({ where: async () => mockUpdates.push(values) }) }),
+  },
+  apiKeys: {},
+  organizationMembers: {},
+  roles: {},
+  permissions: {},
+  rolePermissions: {},
+}));
+
+const mockCheckRateLimit = jest.fn();
+
+jest.mock('../rateLimitService', () => ({
+  rateLimitService: { checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args) },
+}));
+
+import {
+  apiKeyService,
+  generateApiKey,
+  hashApiKey,
+  getApiKeyPrefix,
+  isApiKey,
+  getApiKeyEndpointPermission,
+} from '../apiKeyService';
+import { apiKeyScopeAllows } from '../permissionService';
+
+const keyRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  name: 'CI',
+  keyHash: 'hash',
+  keyPrefix: 'sos_1234abcd',
+  userId: 'user-1',
+  organizationId: 'org-1',
+  permissions: { workflow: ['execute'] },
+  rateLimitPerMinute: null,
+  lastUsedAt: null,
+  expiresAt: null,
+  ...overrides,
+});
+
+describe('apiKeyService', () => {
+  beforeEach(() => {
+    mockSelectResults.length = 0;
+    mockUpdates.length = 0;
+    mockCheckRateLimit.mockReset();
+  });
+
+  it('should generate keys that are stored as a hash and a visible prefix', () => {
+    const key = generateApiKey();
+
+    expect(key).toMatch(/^sos_[0-9a-f]{64}$/);
+    expect(isApiKey(key)).toBe(true);
+    expect(isApiKey('eyJhbGciOiJSUzI1NiJ9.payload.sig')).toBe(false);
+    expect(getApiKeyPrefix(key)).toBe(key.slice(0, 12));
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(key)).not.toBe(hashApiKey(generateApiKey()));
+  });
+
+  it('should only accept API keys on allowlisted endpoints', () => {
+    expect(getApiKeyEndpointPermission('POST', '/api/v1/executions/execute')).toEqual({ resourceType: 'workflow', action: 'execute' });
+    expect(getApiKeyEndpointPermission('get', '/api/v1/executions/exec-1/steps?limit=10')).toEqual({
+      resourceType: 'execution',
+      action: 'read',
+    });
+    expect(getApiKeyEndpointPermission('GET', '/api/v1/workflows/wf-1')).toEqual({ resourceType: 'workflow', action: 'read' });
+    expect(getApiKeyEndpointPermission('DELETE', '/api/v1/workflows/wf-1')).toBeUndefined();
+    expect(getApiKeyEndpointPermission('POST', '/api/v1/api-keys')).toBeUndefined();
+  });
+
+  it('should match scopes by resource type and action with wildcards', () => {
+    const execute = { resourceType: 'workflow', action: 'execute' };
+
+    expect(apiKeyScopeAllows(null, execute)).toBe(true);
+    expect(apiKeyScopeAllows({ workflow: ['read', 'execute'] }, execute)).toBe(true);
+    expect(apiKeyScopeAllows({ workflow: ['*'] }, execute)).toBe(true);
+    expect(apiKeyScopeAllows({ '*': ['read'] }, execute)).toBe(false);
+    expect(apiKeyScopeAllows({ '*': ['read'] }, { resourceType: 'execution', action: 'read' })).toBe(true);
+    expect(apiKeyScopeAllows({ execution: ['read'] }, execute)).toBe(false);
+  });
+
+  it('should verify a key and record its use', async () => {
+    mockSelectResults.push([keyRecord()]);
+
+    const result = await apiKeyService.verify('sos_1234abcd');
+
+    expect(result).toEqual({
+      apiKey: {
+        id: 'key-1',
+        name: 'CI',
+        keyPrefix: 'sos_1234abcd',
+        userId: 'user-1',
+        organizationId: 'org-1',
+        scopes: { workflow: ['execute'] },
+        rateLimitPerMinute: 60,
+      },
+    });
+    expect(mockUpdates).toEqual([{ lastUsedAt: expect.any(Date) }]);
+  });
+
+  it('should reject unknown and expired keys', async () => {
+    mockSelectResults.push([]);
+    await expect(apiKeyService.verify('sos_unknown')).resolves.toEqual({ error: 'Invalid API key' });
+
+    mockSelectResults.push([keyRecord({ expiresAt: new Date(Date.now() - 1000) })]);
+    await expect(apiKeyService.verify('sos_expired')).resolves.toEqual({ error: 'API key expired' });
+    expect(mockUpdates).toHaveLength(0);
+  });
+
+  it("should fall back to the owner's organization and skip recent lastUsedAt writes", async () => {
+    mockSelectResults.push([keyRecord({ organizationId: null, lastUsedAt: new Date(), rateLimitPerMinute: 5 })]);
+    mockSelectResults.push([{ organizationId: 'org-owner' }]);
+
+    const result = await apiKeyService.verify('sos_personal');
+
+    expect(result).toMatchObject({ apiKey: { organizationId: 'org-owner', rateLimitPerMinute: 5 } });
+    expect(mockUpdates).toHaveLength(0);
+  });
+
+  it('should rate limit per key', async () => {
+    mockCheckRateLimit.mockResolvedValue({ allowed: false, remaining: 0, resetAt: new Date(), limit: 5, retryAfter: 30 });
+    mockSelectResults.push([keyRecord({ rateLimitPerMinute: 5 })]);
+    const { apiKey } = await apiKeyService.verify('sos_limited');
+
+    await expect(apiKeyService.checkRateLimit(apiKey!)).resolves.toMatchObject({ allowed: false, retryAfter: 30 });
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(
+      { windowMs: 60000, maxRequests: 5, keyPrefix: 'rl:apikey' },
+      { identifier: 'key-1' }
+    );
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for execution concurrency slots
+ */
+
+const mockRedis = {
+  eval: jest.fn(),
+  zadd: jest.fn(() => Promise.resolve(1)),
+  zrem: jest.fn(() => Promise.resolve(1)),
+  zremrangebyscore: jest.fn(() => Promise.resolve(0)),
+  zrange: jest.fn(() => Promise.resolve(['exec_1'])),
+};
+
+jest.mock('../../config/redis', () => ({
+  __esModule: true,
+  default: mockRedis,
+}));
+
+import { concurrencyService } from '../concurrencyService';
+
+describe('ConcurrencyService', () => {
+  const workflowScope = concurrencyService.workflowScope('wf_1', 1);
+  const workspaceScope = concurrencyService.workspaceScope('ws_1', 10);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should take slots in all scopes at once', async () => {
+    mockRedis.eval.mockResolvedValueOnce(0);
+
+    const fullScope = await concurrencyService.acquire('exec_2', [workflowScope, workspaceScope], 30000);
+
+    expect(fullScope).toBeNull();
+    const [, keyCount, ...args] = mockRedis.eval.mock.calls[0];
+    expect(keyCount).toBe(2);
+    expect(args.slice(0, 2)).toEqual(['concurrency:workflow:wf_1', 'concurrency:workspace:ws_1']);
+    expect(args[4]).toBe('exec_2');
+    expect(args.slice(5)).toEqual([1, 10]);
+  });
+
+  it('should return the scope that is full', async () => {
+    mockRedis.eval.mockResolvedValueOnce(2);
+
+    const fullScope = await concurrencyService.acquire('exec_2', [workflowScope, workspaceScope], 30000);
+
+    expect(fullScope).toEqual(expect.objectContaining({ kind: 'workspace', limit: 10 }));
+  });
+
+  it('should not touch Redis for runs without limits', async () => {
+    expect(await concurrencyService.acquire('exec_2', [], 30000)).toBeNull();
+    expect(mockRedis.eval).not.toHaveBeenCalled();
+  });
+
+  it('should only refresh slots that are still held', async () => {
+    await concurrencyService.refresh('exec_1', [workflowScope], 30000);
+
+    expect(mockRedis.zadd).toHaveBeenCalledWith('concurrency:workflow:wf_1', 'XX', expect.any(Number), 'exec_1');
+  });
+
+  it('should drop expired slots before listing holders', async () => {
+    expect(await concurrencyService.holders(workflowScope)).toEqual(['exec_1']);
+    expect(mockRedis.zremrangebyscore).toHaveBeenCalledWith('concurrency:workflow:wf_1', '-inf', expect.any(Number));
+  });
+});
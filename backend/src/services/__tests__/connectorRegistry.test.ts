@@ -0,0 +1,54 @@
+/**
+ * Unit tests for loading custom connectors into the connector registry
+ */
+
+const mockRows: Record<string, unknown>[] = [];
+
+jest.mock('../../config/database', () => {
+  const query: any = {
+    from: () => query,
+    where: () => query,
+    limit: async () => mockRows.slice(0, 1),
+  };
+  return {
+    db: { select: () => query },
+    customConnectors: { connectorId: { name: 'connector_id' } },
+  };
+});
+
+import { ConnectorRegistry } from '../connectors/registry';
+
+const manifest = {
+  id: 'billing_api',
+  name: 'Billing API',
+  version: '1.0.0',
+  category: 'custom',
+  auth: { type: 'none' },
+  actions: [{ id: 'listInvoices', name: 'List invoices', inputSchema: {}, outputSchema: {} }],
+};
+
+describe('ConnectorRegistry', () => {
+  beforeEach(() => {
+    mockRows.length = 0;
+  });
+
+  it('should look up custom connectors created on another instance', async () => {
+    const registry = new ConnectorRegistry();
+    mockRows.push({ manifest, version: '1.0.0', organizationId: 'org_1' });
+
+    expect(registry.get('billing_api')).toBeUndefined();
+    expect(await registry.resolve('billing_api')).toMatchObject({ id: 'billing_api' });
+    expect(registry.isAvailableTo('billing_api', 'org_1')).toBe(true);
+    expect(registry.isAvailableTo('billing_api', 'org_2')).toBe(false);
+  });
+
+  it('should drop a custom connector deleted on another instance', async () => {
+    const registry = new ConnectorRegistry();
+    registry.registerCustom(manifest as any, '1.0.0', 'org_1');
+
+    await registry.reloadCustom('billing_api');
+
+    expect(registry.get('billing_api')).toBeUndefined();
+    expect(await registry.resolve('slack')).toBeDefined();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for connector trigger parsing, dedup and providers
+ */
+
+import * as crypto from 'crypto';
+
+const mockFound: Record<string, any>[] = [];
+const mockUpdate = jest.fn(() => ({ set: () => ({ where: async () => undefined }) }));
+const mockRedisSet = jest.fn();
+
+jest.mock('../../config/database', () => {
+  const query: any = { from: () => query, innerJoin: () => query, where: () => query, limit: async () => mockFound };
+  return {
+    db: { select: () => query, update: () => mockUpdate() },
+    connectorTriggers: {},
+    workflows: {},
+  };
+});
+
+jest.mock('../../config/redis', () => ({
+  redis: { set: (...args: unknown[]) => mockRedisSet(...args) },
+}));
+
+jest.mock('../connectors/registry', () => ({
+  connectorRegistry: {
+    get: (id: string) =>
+      ({
+        github: { triggers: [{ id: 'push' }, { id: 'pull_request' }] },
+        google_drive: { triggers: [{ id: 'file_created' }] },
+      })[id],
+  },
+}));
+
+const mockResolveCredentials = jest.fn();
+
+jest.mock('../nodeExecutors/connector', () => ({
+  resolveConnectorCredentials: (...args: unknown[]) => mockResolveCredentials(...args),
+}));
+
+jest.mock('../workflowExecutor', () => ({
+  workflowExecutor: { enqueueExecution: jest.fn() },
+}));
+
+const mockGetIssues = jest.fn();
+
+jest.mock('../nodeExecutors/connectors/jira', () => ({
+  executeJiraGetIssues: (...args: unknown[]) => mockGetIssues(...args),
+}));
+
+import { parseConnectorTriggerType, dedupeEvents, advanceCursor, connectorTriggerService } from '../connectorTriggerService';
+import { triggerProviders, PollingTriggerProvider, WebhookTriggerProvider } from '../connectorTriggerProviders';
+
+const event = (id: string, occurredAt: string) => ({ id, occurredAt, data: {} });
+
+describe('connectorTriggerService', () => {
+  beforeEach(() => {
+    mockGetIssues.mockReset();
+    mockFound.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('should parse trigger node types declared by a supported connector', () => {
+    expect(parseConnectorTriggerType('trigger.github.push')).toEqual({ connectorId: 'github', triggerId: 'push' });
+    expect(parseConnectorTriggerType('trigger.google_drive.file_created')).toEqual({
+      connectorId: 'google_drive',
+      triggerId: 'file_created',
+    });
+    expect(parseConnectorTriggerType('trigger.github.unknown_event')).toBeUndefined();
+    expect(parseConnectorTriggerType('trigger.email.gmail')).toBeUndefined();
+    expect(parseConnectorTriggerType('integration.github')).toBeUndefined();
+  });
+
+  it('should drop already delivered events and cap the seen list', () => {
+    const seen = Array.from({ length: 500 }, (_, index) => `old-${index}`);
+    const { fresh, seenEventIds } = dedupeEvents(
+      [event('old-499', '2026-01-01T00:00:00.000Z'), event('new-1', '2026-01-01T00:01:00.000Z'), event('new-1', '2026-01-01T00:01:00.000Z')],
+      seen
+    );
+
+    expect(fresh.map((item) => item.id)).toEqual(['new-1']);
+    expect(seenEventIds).toHaveLength(500);
+    expect(seenEventIds[seenEventIds.length - 1]).toBe('new-1');
+    expect(seenEventIds).not.toContain('old-0');
+  });
+
+  it('should only move the cursor forward', () => {
+    const cursor = '2026-01-01T00:05:00.000Z';
+
+    expect(advanceCursor(cursor, [])).toBe(cursor);
+    expect(advanceCursor(cursor, [event('a', '2026-01-01T00:01:00.000Z')])).toBe(cursor);
+    expect(advanceCursor(cursor, [event('a', '2026-01-01T00:09:00.000Z'), event('b', '2026-01-01T00:07:00.000Z')])).toBe(
+      '2026-01-01T00:09:00.000Z'
+    );
+  });
+
+  it('should verify and filter GitHub deliveries', () => {
+    const github = triggerProviders.github as WebhookTriggerProvider;
+    const rawBody = JSON.stringify({ ref: 'refs/heads/main' });
+    const signature = `sha256=${crypto.createHmac('sha256', 'secret').update(rawBody).digest('hex')}`;
+
+    expect(github.verify({ headers: { 'x-hub-signature-256': signature }, rawBody }, 'secret')).toBe(true);
+    expect(github.verify({ headers: { 'x-hub-signature-256': signature }, rawBody }, 'other')).toBe(false);
+
+    const headers = { 'x-github-event': 'push', 'x-github-delivery': 'delivery-1' };
+    expect(github.parse({ triggerId: 'push', config: { branch: 'main' } }, headers, { ref: 'refs/heads/main' })).toMatchObject({
+      id: 'delivery-1',
+      data: { ref: 'refs/heads/main' },
+    });
+    expect(github.parse({ triggerId: 'push', config: { branch: 'main' } }, headers, { ref: 'refs/heads/dev' })).toBeNull();
+    expect(github.parse({ triggerId: 'push', config: {} }, { 'x-github-event': 'ping' }, {})).toBeNull();
+    expect(
+      github.parse(
+        { triggerId: 'pull_request', config: { actions: ['opened'] } },
+        { 'x-github-event': 'pull_request' },
+        { action: 'closed' }
+      )
+    ).toBeNull();
+  });
+
+  it('should poll Jira for issues since the cursor', async () => {
+    const since = new Date(Date.now() - 5 * 60 * 1000);
+    mockGetIssues.mockResolvedValue({
+      success: true,
+      output: {
+        issues: [
+          { id: '10', fields: { created: new Date(since.getTime() - 60 * 1000).toISOString() } },
+          { id: '11', fields: { created: new Date(since.getTime() + 60 * 1000).toISOString() } },
+        ],
+      },
+    });
+
+    const jira = triggerProviders.jira as PollingTriggerProvider;
+    const events = await jira.poll(
+      { triggerId: 'issue_created', config: { projectKey: 'OPS' }, credentials: { accessToken: 'token' } },
+      since
+    );
+
+    expect(mockGetIssues.mock.calls[0][0]).toMatch(/^created >= -[67]m AND project = "OPS" ORDER BY created ASC$/);
+    expect(events.map((item) => item.id)).toEqual(['11']);
+  });
+
+  it('should surface connector errors from polling', async () => {
+    mockGetIssues.mockResolvedValue({ success: false, error: { message: 'Unauthorized', code: 'JIRA_ERROR' } });
+
+    const jira = triggerProviders.jira as PollingTriggerProvider;
+    await expect(jira.poll({ triggerId: 'issue_updated', config: {}, credentials: {} }, new Date())).rejects.toThrow(
+      'Unauthorized'
+    );
+  });
+
+  it('should not poll a trigger another instance is polling', async () => {
+    mockFound.push({
+      trigger: { id: 'ct_1', connectorId: 'jira', active: true, pollInterval: 300, cursor: new Date().toISOString() },
+      workflow: { id: 'wf_1', active: true },
+    });
+    mockRedisSet.mockResolvedValue(null);
+
+    expect(await connectorTriggerService.pollTrigger('ct_1')).toBe(0);
+    expect(mockRedisSet).toHaveBeenCalledWith('connector-trigger:ct_1:poll', '1', 'EX', 295, 'NX');
+    expect(mockResolveCredentials).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
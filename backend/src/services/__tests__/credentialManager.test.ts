@@ -0,0 +1,218 @@
+/**
+ * Unit tests for OAuth token refresh and credential health checks
+ */
+
+const mockRows: Record<string, any> = {};
+const mockLocks = new Map<string, string>();
+const mockPost = jest.fn();
+const mockNangoRefresh = jest.fn();
+let mockProvider = 'custom_oauth';
+
+jest.mock('../../config/database', () => {
+  const select = () => ({
+    from: () => ({
+      where: () => ({
+        limit: async () => Object.values(mockRows).slice(0, 1).map((row) => ({ ...row })),
+      }),
+    }),
+  });
+  const update = () => ({
+    set: (values: Record<string, unknown>) => ({
+      where: async () => {
+        const [row] = Object.values(mockRows);
+        Object.assign(row, values);
+      },
+    }),
+  });
+  return { db: { select, update }, connectorCredentials: {} };
+});
+
+jest.mock('../../config/redis', () => ({
+  redis: {
+    set: async (key: string, value: string) => {
+      if (mockLocks.has(key)) return null;
+      mockLocks.set(key, value);
+      return 'OK';
+    },
+    eval: async (_script: string, _keys: number, key: string, value: string) => {
+      if (mockLocks.get(key) === value) mockLocks.delete(key);
+      return 1;
+    },
+  },
+}));
+
+jest.mock('axios', () => ({ __esModule: true, default: { post: (...args: unknown[]) => mockPost(...args) } }));
+
+jest.mock('../connectors/registry', () => ({
+  connectorRegistry: {
+    resolve: async () => ({ id: 'acme', auth: { type: 'oauth2', tokenUrl: 'https://auth.acme.test/token', clientId: 'client' } }),
+    isCustom: () => true,
+  },
+}));
+
+jest.mock('../connectorRouter', () => ({
+  ConnectorProvider: { NANGO: 'nango', CUSTOM_OAUTH: 'custom_oauth' },
+  connectorRouter: { routeSimple: async () => ({ provider: mockProvider }) },
+}));
+
+jest.mock('../nangoService', () => ({
+  nangoService: { refreshToken: (...args: unknown[]) => mockNangoRefresh(...args) },
+}));
+
+const mockTriggerCredentialAlerts = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../alertService', () => ({
+  alertService: { triggerCredentialAlerts: (...args: unknown[]) => mockTriggerCredentialAlerts(...args) },
+}));
+
+import {
+  credentialManager,
+  getCredentialExpiry,
+  needsRefresh,
+  pickHealthCheck,
+} from '../credentialManager';
+import { ConnectorManifest } from '../connectors/types';
+
+const action = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  description: id,
+  inputSchema: { type: 'object', properties: {} },
+  outputSchema: {},
+  ...extra,
+});
+
+function storeRow(values: Record<string, unknown>) {
+  for (const key of Object.keys(mockRows)) delete mockRows[key];
+  mockRows.cred_1 = {
+    id: 'cred_1',
+    userId: 'user_1',
+    organizationId: 'org_1',
+    connectorId: 'acme',
+    status: 'active',
+    failureCount: 0,
+    expiresAt: null,
+    ...values,
+  };
+  return mockRows.cred_1;
+}
+
+describe('credentialManager', () => {
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockNangoRefresh.mockReset();
+    mockProvider = 'custom_oauth';
+    mockTriggerCredentialAlerts.mockClear();
+    mockLocks.clear();
+  });
+
+  it('should read expiry from the column or the provider credentials', () => {
+    const column = new Date('2026-01-01T00:00:00Z');
+
+    expect(getCredentialExpiry(column, { expires_at: '2030-01-01T00:00:00Z' })).toEqual(column);
+    expect(getCredentialExpiry(null, { expires_at: '2026-01-01T00:00:00Z' })).toEqual(column);
+    expect(getCredentialExpiry(null, { expires_at: 1767225600 })).toEqual(column);
+    expect(getCredentialExpiry(null, { expiresAt: '1767225600' })).toEqual(column);
+    expect(getCredentialExpiry(null, { access_token: 'x' })).toBeNull();
+
+    expect(needsRefresh(null)).toBe(false);
+    expect(needsRefresh(new Date(Date.now() + 60 * 1000))).toBe(true);
+    expect(needsRefresh(new Date(Date.now() + 60 * 60 * 1000))).toBe(false);
+  });
+
+  it('should pick the declared health check or a read action without required input', () => {
+    const manifest = {
+      id: 'acme',
+      actions: [
+        action('create_item'),
+        action('get_item', { inputSchema: { type: 'object', required: ['id'] } }),
+        action('list_items'),
+      ],
+    } as unknown as ConnectorManifest;
+
+    expect(pickHealthCheck(manifest)).toEqual({ actionId: 'list_items', input: {} });
+    expect(pickHealthCheck({ ...manifest, healthCheck: { actionId: 'get_item', input: { id: 'me' } } })).toEqual({
+      actionId: 'get_item',
+      input: { id: 'me' },
+    });
+    expect(
+      pickHealthCheck({
+        ...manifest,
+        actions: [action('whoami', { http: { method: 'GET', path: '/me' } }), action('list_items', { http: { method: 'POST', path: '/x' } })],
+      } as unknown as ConnectorManifest)
+    ).toEqual({ actionId: 'whoami', input: {} });
+  });
+
+  it('should refresh an expiring token once for concurrent callers', async () => {
+    const row = storeRow({
+      expiresAt: new Date(Date.now() + 30 * 1000),
+      credentials: { access_token: 'old', refresh_token: 'refresh-1' },
+    });
+    mockPost.mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { data: { access_token: 'new', expires_in: 3600 } };
+    });
+
+    const [first, second] = await Promise.all([
+      credentialManager.getCredentials({ ...row }),
+      credentialManager.getCredentials({ ...row }),
+    ]);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    const [url, body] = mockPost.mock.calls[0];
+    expect(url).toBe('https://auth.acme.test/token');
+    expect(body).toContain('grant_type=refresh_token');
+    expect(body).toContain('refresh_token=refresh-1');
+    expect(body).toContain('client_id=client');
+
+    expect(first).toMatchObject({ access_token: 'new', refresh_token: 'refresh-1' });
+    expect(second).toMatchObject({ access_token: 'new' });
+    expect(mockRows.cred_1.expiresAt.getTime()).toBeGreaterThan(Date.now() + 50 * 60 * 1000);
+    expect(mockRows.cred_1.lastRefreshedAt).toBeInstanceOf(Date);
+    expect(mockLocks.size).toBe(0);
+  });
+
+  it('should mark a credential broken and alert when its grant is revoked', async () => {
+    storeRow({
+      expiresAt: new Date(Date.now() - 1000),
+      credentials: { access_token: 'old', refresh_token: 'revoked' },
+    });
+    mockPost.mockRejectedValue({ response: { status: 400, data: { error: 'invalid_grant' } }, message: 'Bad Request' });
+
+    const result = await credentialManager.checkCredential('cred_1');
+
+    expect(result).toMatchObject({ status: 'broken', error: 'Token refresh failed: invalid_grant' });
+    expect(mockRows.cred_1).toMatchObject({ status: 'broken', failureCount: 1, lastError: 'Token refresh failed: invalid_grant' });
+    expect(mockTriggerCredentialAlerts).toHaveBeenCalledWith('org_1', expect.objectContaining({ connectorId: 'acme', credentialId: 'cred_1' }));
+  });
+
+  it('should refresh Nango credentials through their Nango connection ID', async () => {
+    mockProvider = 'nango';
+    storeRow({
+      expiresAt: new Date(Date.now() + 30 * 1000),
+      credentials: { access_token: 'old', refresh_token: 'refresh-1' },
+      nangoConnectionId: 'user_1-acme-1700000000000',
+    });
+    mockNangoRefresh.mockResolvedValue({ access_token: 'new', expires_at: new Date(Date.now() + 3600 * 1000).toISOString() });
+
+    const credentials = await credentialManager.getCredentials({ ...mockRows.cred_1 });
+
+    expect(mockNangoRefresh).toHaveBeenCalledWith('acme', 'user_1-acme-1700000000000');
+    expect(credentials).toMatchObject({ access_token: 'new' });
+    expect(mockRows.cred_1).toMatchObject({ status: 'active', failureCount: 0 });
+  });
+
+  it('should ask for a reconnect when a Nango credential has no connection ID', async () => {
+    mockProvider = 'nango';
+    storeRow({
+      expiresAt: new Date(Date.now() - 1000),
+      credentials: { access_token: 'old', refresh_token: 'refresh-1' },
+      nangoConnectionId: null,
+    });
+
+    const result = await credentialManager.checkCredential('cred_1');
+
+    expect(mockNangoRefresh).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: 'broken', error: expect.stringContaining('reconnect') });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the OpenAPI / Postman importer and the declarative HTTP executor
+ */
+
+import { importConnectorSpec, detectSpecFormat, ConnectorImportError } from '../connectors/specImporter';
+import { buildHttpConnectorRequest } from '../connectors/httpExecutor';
+
+const openApiSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Billing API', version: '2.1.0', description: 'Internal billing service' },
+  servers: [{ url: 'https://{env}.billing.internal/v1', variables: { env: { default: 'prod' } } }],
+  components: {
+    securitySchemes: { apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-Billing-Key' } },
+    parameters: { InvoiceId: { name: 'invoiceId', in: 'path', required: true, schema: { type: 'string' } } },
+    schemas: {
+      Invoice: {
+        type: 'object',
+        properties: { id: { type: 'string' }, amount: { type: 'number' }, lines: { type: 'array', items: { $ref: '#/components/schemas/Line' } } },
+      },
+      Line: { type: 'object', properties: { sku: { type: 'string' } } },
+    },
+  },
+  security: [{ apiKeyAuth: [] }],
+  paths: {
+    '/invoices': {
+      get: {
+        operationId: 'listInvoices',
+        summary: 'List invoices',
+        parameters: [{ name: 'status', in: 'query', schema: { type: 'string', enum: ['open', 'paid'] } }],
+        responses: { '200': { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Invoice' } } } } } },
+      },
+      post: {
+        operationId: 'createInvoice',
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Invoice' } } } },
+        responses: { '201': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Invoice' } } } } },
+      },
+    },
+    '/invoices/{invoiceId}': {
+      parameters: [{ $ref: '#/components/parameters/InvoiceId' }],
+      get: { operationId: 'getInvoice', responses: { '200': { description: 'ok' } } },
+      delete: { operationId: 'oldDelete', deprecated: true, responses: {} },
+    },
+  },
+};
+
+const postmanCollection = {
+  info: {
+    name: 'Warehouse',
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  variable: [{ key: 'baseUrl', value: 'https://warehouse.internal/api' }],
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  item: [
+    {
+      name: 'Stock',
+      item: [
+        {
+          name: 'Get item',
+          request: {
+            method: 'GET',
+            url: {
+              raw: '{{baseUrl}}/items/:sku?expand=true',
+              query: [{ key: 'expand', value: 'true' }],
+            },
+          },
+        },
+        {
+          name: 'Adjust stock',
+          request: {
+            method: 'POST',
+            url: '{{baseUrl}}/items/:sku/adjust',
+            body: { mode: 'raw', raw: '{"delta": 5, "reason": "recount"}' },
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('custom connectors', () => {
+  it('should import OpenAPI operations as actions with schemas and HTTP requests', () => {
+    const { format, manifest } = importConnectorSpec(openApiSpec);
+
+    expect(format).toBe('openapi');
+    expect(manifest).toMatchObject({
+      id: 'custom_billing_api',
+      name: 'Billing API',
+      version: '2.1.0',
+      category: 'custom',
+      baseUrl: 'https://prod.billing.internal/v1',
+      auth: { type: 'api_key', apiKey: { in: 'header', name: 'X-Billing-Key' } },
+    });
+    expect(manifest.actions.map((action) => action.id)).toEqual(['list_invoices', 'create_invoice', 'get_invoice']);
+
+    const [list, create, get] = manifest.actions;
+    expect(list.http).toEqual({ method: 'GET', path: '/invoices', parameters: [{ name: 'status', in: 'query' }] });
+    expect(list.outputSchema).toMatchObject({
+      properties: { data: { type: 'array', items: { properties: { lines: { items: { properties: { sku: { type: 'string' } } } } } } } },
+    });
+    expect(create.http).toMatchObject({ method: 'POST', body: 'json' });
+    expect(create.inputSchema).toMatchObject({ required: ['body'], properties: { body: { type: 'object' } } });
+    expect(get.http?.parameters).toEqual([{ name: 'invoiceId', in: 'path' }]);
+    expect(get.inputSchema).toMatchObject({ required: ['invoiceId'] });
+  });
+
+  it('should import Postman requests with path variables, query parameters and example bodies', () => {
+    const { format, manifest } = importConnectorSpec(postmanCollection, { baseUrl: 'https://staging.warehouse.internal/api' });
+
+    expect(format).toBe('postman');
+    expect(manifest.baseUrl).toBe('https://staging.warehouse.internal/api');
+    expect(manifest.auth).toEqual({ type: 'api_key', apiKey: { in: 'header', name: 'Authorization', prefix: 'Bearer ' } });
+
+    const [getItem, adjust] = manifest.actions;
+    expect(getItem).toMatchObject({
+      id: 'stock_get_item',
+      http: {
+        method: 'GET',
+        path: '/api/items/{sku}',
+        parameters: [
+          { name: 'sku', in: 'path' },
+          { name: 'expand', in: 'query' },
+        ],
+      },
+    });
+    expect(adjust.inputSchema).toMatchObject({
+      properties: { body: { type: 'object', properties: { delta: { type: 'integer' }, reason: { type: 'string' } } } },
+    });
+  });
+
+  it('should reject specs it cannot import', () => {
+    expect(() => detectSpecFormat({ swagger: '2.0' })).toThrow(ConnectorImportError);
+    expect(() => detectSpecFormat({ hello: 'world' })).toThrow('Unrecognized spec');
+    expect(() => importConnectorSpec({ ...openApiSpec, servers: [] })).toThrow('provide baseUrl');
+    expect(() => importConnectorSpec({ ...openApiSpec, paths: {} })).toThrow('does not contain any importable operations');
+  });
+
+  it('should build requests from action input and credentials', () => {
+    const { manifest } = importConnectorSpec(openApiSpec);
+
+    expect(buildHttpConnectorRequest(manifest, 'get_invoice', { invoiceId: 'inv/1' }, { apiKey: 'secret' })).toMatchObject({
+      method: 'GET',
+      url: 'https://prod.billing.internal/v1/invoices/inv%2F1',
+      headers: { 'X-Billing-Key': 'secret' },
+    });
+
+    const create = buildHttpConnectorRequest(manifest, 'create_invoice', { body: { amount: 10 }, ignored: true }, { apiKey: 'secret' });
+    expect(create).toMatchObject({ method: 'POST', data: { amount: 10 }, headers: { 'Content-Type': 'application/json' } });
+
+    expect(() => buildHttpConnectorRequest(manifest, 'get_invoice', {}, { apiKey: 'secret' })).toThrow('Missing path parameter: invoiceId');
+    expect(() => buildHttpConnectorRequest(manifest, 'list_invoices', {}, {})).toThrow('API key not found');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for incremental document sync (in-memory vector store)
+ */
+
+jest.mock('../../config/database', () => ({
+  db: {},
+  vectorIndexes: {},
+  vectorDocuments: {},
+}));
+
+const mockGenerateEmbeddings = jest.fn(async (texts: string[]) => texts.map((text) => [text.length, 1]));
+
+jest.mock('../langchainService', () => ({
+  langchainService: {
+    generateEmbeddings: (texts: string[]) => mockGenerateEmbeddings(texts),
+  },
+}));
+
+import { documentSyncService, syncIdPrefix } from '../documentSyncService';
+import { listVectors } from '../vectorStore';
+
+const options = { provider: 'memory', indexName: 'sync-test', scope: 'drive-folder', removeMissing: true };
+
+describe('documentSyncService', () => {
+  beforeEach(() => {
+    mockGenerateEmbeddings.mockClear();
+  });
+
+  it('should only embed new and changed chunks', async () => {
+    const first = await documentSyncService.sync(
+      [
+        { id: 'handbook.pdf', chunks: ['Vacation policy', 'Expense policy'] },
+        { id: 'faq.md', chunks: ['How do I reset my password?'] },
+      ],
+      options
+    );
+    expect(first).toMatchObject({ added: 3, updated: 0, removed: 0, unchanged: 0 });
+
+    const second = await documentSyncService.sync(
+      [
+        { id: 'handbook.pdf', chunks: ['Vacation policy', 'Expense policy (2024)'] },
+        { id: 'faq.md', chunks: ['How do I reset my password?'] },
+      ],
+      options
+    );
+    expect(second).toMatchObject({ added: 0, updated: 1, removed: 0, unchanged: 2 });
+    expect(second.ids).toEqual(first.ids);
+    expect(mockGenerateEmbeddings).toHaveBeenLastCalledWith(['Expense policy (2024)']);
+  });
+
+  it('should remove chunks of shortened and missing documents', async () => {
+    const result = await documentSyncService.sync([{ id: 'handbook.pdf', chunks: ['Vacation policy'] }], options);
+    expect(result).toMatchObject({ added: 0, updated: 0, removed: 2, unchanged: 1 });
+
+    const remaining = await listVectors('memory', 'sync-test', syncIdPrefix(null, 'sync-test', 'drive-folder'));
+    expect(remaining.map((doc) => doc.metadata?.documentId)).toEqual(['handbook.pdf']);
+    expect(remaining[0].metadata).toMatchObject({ chunkIndex: 0, syncScope: 'drive-folder' });
+    expect(remaining[0].metadata?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should keep other documents when removeMissing is off', async () => {
+    await documentSyncService.sync([{ id: 'other.txt', chunks: ['Other'] }], { ...options, removeMissing: false });
+
+    const remaining = await listVectors('memory', 'sync-test', syncIdPrefix(null, 'sync-test', 'drive-folder'));
+    expect(remaining.map((doc) => doc.metadata?.documentId).sort()).toEqual(['handbook.pdf', 'other.txt']);
+  });
+
+  it('should re-embed chunks whose metadata changed', async () => {
+    const result = await documentSyncService.sync(
+      [{ id: 'other.txt', chunks: ['Other'], metadata: { owner: 'ops' } }],
+      { ...options, removeMissing: false }
+    );
+    expect(result).toMatchObject({ added: 0, updated: 1, unchanged: 0 });
+  });
+
+  it('should reject duplicate document ids', async () => {
+    await expect(
+      documentSyncService.sync([{ id: 'a', chunks: ['x'] }, { id: 'a', chunks: ['y'] }], options)
+    ).rejects.toThrow('Duplicate document id: a');
+  });
+});
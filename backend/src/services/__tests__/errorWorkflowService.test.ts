@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the error workflow service
+ */
+
+const selectResults: unknown[][] = [];
+const mockQuery: any = {};
+['from', 'innerJoin', 'where'].forEach((method) => {
+  mockQuery[method] = jest.fn(() => mockQuery);
+});
+mockQuery.limit = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: jest.fn(() => mockQuery),
+    update: jest.fn(() => ({ set: jest.fn(() => ({ where: jest.fn(() => Promise.resolve()) })) })),
+  },
+}));
+
+const mockEnqueueExecution = jest.fn(() => Promise.resolve('job_1'));
+
+jest.mock('../workflowExecutor', () => ({
+  workflowExecutor: { enqueueExecution: mockEnqueueExecution },
+}));
+
+import { errorWorkflowService } from '../errorWorkflowService';
+
+const failure = {
+  executionId: 'exec_1',
+  workflowId: 'wf_1',
+  error: 'Node http_1 failed: Request failed with status code 500',
+  node: { id: 'http_1', type: 'action.http', error: { message: 'Request failed' }, input: { url: 'https://example.com' } },
+};
+
+describe('ErrorWorkflowService', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('should queue the organization error workflow with the failure as input', async () => {
+    selectResults.push(
+      [{ metadata: {}, startedAt: new Date('2026-01-01'), workflowName: 'Sync', organizationId: 'org_1' }],
+      [{ settings: { errorWorkflowId: 'wf_errors' } }],
+      [{ id: 'wf_errors', definition: { nodes: [], edges: [] }, workspaceId: 'ws_1', organizationId: 'org_1' }]
+    );
+
+    const jobId = await errorWorkflowService.trigger(failure);
+
+    expect(jobId).toBe('job_1');
+    expect(mockEnqueueExecution).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowId: 'wf_errors',
+        organizationId: 'org_1',
+        errorWorkflowFor: 'exec_1',
+        input: expect.objectContaining({
+          execution: expect.objectContaining({ id: 'exec_1', workflowName: 'Sync', error: failure.error }),
+          node: failure.node,
+        }),
+      })
+    );
+  });
+
+  it('should not trigger for failures of error workflow runs', async () => {
+    selectResults.push([
+      { metadata: { errorWorkflowFor: 'exec_0' }, startedAt: new Date(), workflowName: 'Errors', organizationId: 'org_1' },
+    ]);
+
+    expect(await errorWorkflowService.trigger(failure)).toBeNull();
+    expect(mockEnqueueExecution).not.toHaveBeenCalled();
+  });
+
+  it('should not trigger when the failing workflow is the error workflow', async () => {
+    selectResults.push(
+      [{ metadata: {}, startedAt: new Date(), workflowName: 'Errors', organizationId: 'org_1' }],
+      [{ settings: { errorWorkflowId: 'wf_1' } }]
+    );
+
+    expect(await errorWorkflowService.trigger(failure)).toBeNull();
+    expect(mockEnqueueExecution).not.toHaveBeenCalled();
+  });
+
+  it('should reject error workflows from another organization', async () => {
+    selectResults.push([{ organizationId: 'org_2' }]);
+
+    await expect(errorWorkflowService.setErrorWorkflowId('org_1', 'wf_other')).rejects.toThrow('Workflow not found');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Unit tests for allocating execution step numbers
+ */
+
+const mockReturning = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  db: { insert: () => ({ values: () => ({ returning: () => mockReturning() }) }) },
+}));
+
+jest.mock('../../../drizzle/schema', () => ({
+  executionSteps: { stepNumber: { name: 'step_number' }, executionId: { name: 'execution_id' } },
+}));
+
+import { insertExecutionStep } from '../executionStepService';
+
+const step = { id: 'step_1', executionId: 'exec_1', nodeId: 'http_1', status: 'running' };
+
+describe('insertExecutionStep', () => {
+  beforeEach(() => {
+    mockReturning.mockReset();
+  });
+
+  it('should retry when a parallel insert took the same step number', async () => {
+    mockReturning
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }))
+      .mockResolvedValueOnce([{ stepNumber: 4 }]);
+
+    expect(await insertExecutionStep(step)).toBe(4);
+    expect(mockReturning).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other errors', async () => {
+    mockReturning.mockRejectedValue(new Error('connection lost'));
+
+    await expect(insertExecutionStep(step)).rejects.toThrow('connection lost');
+    expect(mockReturning).toHaveBeenCalledTimes(1);
+  });
+});
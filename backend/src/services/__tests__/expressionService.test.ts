@@ -0,0 +1,87 @@
+import { expressionService, ExpressionScope, getByPath } from '../expressionService';
+
+describe('Expression Service', () => {
+  const scope: ExpressionScope = {
+    input: { name: 'Ada', items: [{ id: 1 }, { id: 2 }] },
+    nodes: {
+      http_1: { nodeId: 'http_1', success: true, output: { status: 200, data: { token: 'abc' } } },
+    },
+    execution: { id: 'exec_123', workflowId: 'wf_456' },
+    variables: { baseUrl: 'https://api.example.com' },
+  };
+
+  describe('resolveConfig', () => {
+    it('should keep the type of a field that is a single expression', () => {
+      const result = expressionService.resolveConfig(
+        { count: '{{ $input.items.length }}', status: '{{ $node["http_1"].output.status }}' },
+        scope
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.value).toEqual({ count: 2, status: 200 });
+    });
+
+    it('should interpolate expressions embedded in strings', () => {
+      const result = expressionService.resolveConfig(
+        {
+          url: '{{ $vars.baseUrl }}/users/{{ $lower($input.name) }}',
+          headers: { Authorization: 'Bearer {{ $node["http_1"].output.data.token }}' },
+        },
+        scope
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.value.url).toBe('https://api.example.com/users/ada');
+      expect(result.value.headers.Authorization).toBe('Bearer abc');
+    });
+
+    it('should expose execution metadata and helpers', () => {
+      const result = expressionService.resolveConfig(
+        {
+          id: '{{ $execution.id }}',
+          day: '{{ $date("2024-01-15T10:00:00Z", "yyyy-MM-dd") }}',
+          first: '{{ $jsonPath($input, "items[0].id") }}',
+        },
+        scope
+      );
+
+      expect(result.value).toEqual({ id: 'exec_123', day: '2024-01-15', first: 1 });
+    });
+
+    it('should leave non-$ templates untouched', () => {
+      const template = 'Context:\n{{context}}\n\nQuestion: {{query}}';
+      const result = expressionService.resolveConfig({ promptTemplate: template }, scope);
+
+      expect(result.value.promptTemplate).toBe(template);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should report errors per field and keep the raw value', () => {
+      const result = expressionService.resolveConfig(
+        { body: { nested: ['{{ $input.missing.value }}'] }, ok: '{{ $input.name }}' },
+        scope
+      );
+
+      expect(result.value.ok).toBe('Ada');
+      expect(result.value.body.nested[0]).toBe('{{ $input.missing.value }}');
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].field).toBe('body.nested[0]');
+    });
+
+    it('should not allow expressions to mutate execution results', () => {
+      expressionService.resolveConfig({ value: '{{ $node["http_1"].output.status = 500 }}' }, scope);
+
+      expect((scope.nodes.http_1 as any).output.status).toBe(200);
+    });
+  });
+
+  describe('getByPath', () => {
+    it('should support JSON path and bracket notation', () => {
+      const data = { a: { b: [{ c: 'x' }] } };
+
+      expect(getByPath(data, '$.a.b[0].c')).toBe('x');
+      expect(getByPath(data, 'a.b.0.c')).toBe('x');
+      expect(getByPath(data, 'a.missing.c')).toBeUndefined();
+    });
+  });
+});
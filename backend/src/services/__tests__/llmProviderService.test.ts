@@ -0,0 +1,101 @@
+/**
+ * Unit tests for organization LLM providers: credential resolution,
+ * private-only workflow checks and catalogue pricing
+ */
+
+const mockFindRows = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: () => ({ limit: () => mockFindRows() }) }) }),
+  },
+  llmProviders: {},
+}));
+
+// Reversible stand-in for AES encryption
+jest.mock('../../utils/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => value.replace(/^enc:/, ''),
+  encryptObject: (value: Record<string, unknown>) => `enc:${JSON.stringify(value)}`,
+  decryptObject: (value: string) => JSON.parse(value.replace(/^enc:/, '')),
+}));
+
+import { llmProviderService, getCatalogPricing } from '../llmProviderService';
+import { calculateLLMCost } from '../costCalculationService';
+import { encrypt, encryptObject } from '../../utils/encryption';
+
+function providerRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'vllm',
+    organizationId: 'org-1',
+    name: 'vLLM',
+    type: 'openai_compatible',
+    baseUrl: 'http://vllm.internal:8000/v1',
+    apiKey: encrypt('secret'),
+    headers: encryptObject({ 'X-Tenant': 'acme' }),
+    apiVersion: null,
+    models: [
+      { id: 'llama-3-70b', type: 'chat', pricing: { input: 0.2, output: 0.4 } },
+      { id: 'bge-large', type: 'embedding' },
+    ],
+    isPrivate: true,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('llmProviderService', () => {
+  beforeEach(() => {
+    mockFindRows.mockReset();
+  });
+
+  it('should resolve decrypted credentials and cache them', async () => {
+    mockFindRows.mockResolvedValue([providerRow()]);
+
+    const provider = await llmProviderService.resolve('org-1', 'vllm');
+    expect(provider).toMatchObject({ apiKey: 'secret', headers: { 'X-Tenant': 'acme' }, isPrivate: true });
+
+    await llmProviderService.resolve('org-1', 'vllm');
+    expect(mockFindRows).toHaveBeenCalledTimes(1);
+
+    await expect(llmProviderService.resolve(null, 'vllm')).rejects.toThrow('require an organization context');
+  });
+
+  it('should reject disabled providers', async () => {
+    mockFindRows.mockResolvedValue([providerRow({ id: 'off', enabled: false })]);
+    await expect(llmProviderService.resolve('org-1', 'off')).rejects.toThrow('LLM provider "vLLM" is disabled');
+  });
+
+  it('should only allow private providers in private-only workflows', async () => {
+    mockFindRows.mockImplementation(async () => [providerRow({ id: 'azure', name: 'Azure', isPrivate: false })]);
+
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.llm', { provider: 'openai', model: 'gpt-4o' }))
+      .toBe('The model must use a private organization LLM provider');
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.llm', { provider: 'openai_compatible', providerId: 'vllm' }))
+      .toBeNull();
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.llm', { provider: 'openai_compatible', providerId: 'azure' }))
+      .toBe('The model uses LLM provider "Azure", which is not marked private');
+
+    const rag = { llmProvider: 'openai_compatible', llmProviderId: 'vllm', embeddingProviderId: 'vllm', vectorStoreProvider: 'database' };
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.rag', rag)).toBeNull();
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.rag', { ...rag, vectorStoreProvider: 'pinecone' }))
+      .toBe('Pinecone is an external vector store');
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.rag', { ...rag, rerankProvider: 'cohere' }))
+      .toBe('Cohere reranking is an external service');
+    expect(await llmProviderService.checkPrivateNode('org-1', 'ai.image_generate', {}))
+      .toBe('ai.image_generate nodes only support external model providers');
+    expect(await llmProviderService.checkPrivateNode('org-1', 'action.http', {})).toBeNull();
+  });
+
+  it('should price calls from the provider catalogue', () => {
+    const provider = { ...providerRow(), apiKey: undefined, headers: {}, apiVersion: undefined } as any;
+
+    const pricing = getCatalogPricing(provider, 'llama-3-70b');
+    expect(calculateLLMCost({ provider: 'openai_compatible', model: 'llama-3-70b', inputTokens: 1_000_000, outputTokens: 500_000, pricing }))
+      .toMatchObject({ inputCost: 0.2, outputCost: 0.2, totalCost: 0.4 });
+
+    // Unpriced self-hosted models are free instead of falling back to GPT-3.5 pricing
+    expect(calculateLLMCost({ provider: 'openai_compatible', model: 'bge-large', inputTokens: 1000, outputTokens: 0 }).totalCost).toBe(0);
+    expect(getCatalogPricing(provider, 'unknown')).toEqual({ input: 0, output: 0 });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for LLM node tool calling (stubbed model, connector and steps table)
+ */
+
+const mockInserts: any[] = [];
+const mockUpdates: any[] = [];
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({ orderBy: () => ({ limit: async () => [{ stepNumber: 3 }] }) }),
+      }),
+    }),
+    insert: () => ({ values: async (values: unknown) => mockInserts.push(values) }),
+    update: () => ({ set: (values: unknown) => ({ where: async () => mockUpdates.push(values) }) }),
+  },
+  executionSteps: {},
+  executionLogs: {},
+  workflows: {},
+  workspaces: {},
+}));
+
+jest.mock('../executionStepService', () => ({
+  insertExecutionStep: async (values: unknown) => mockInserts.push(values),
+}));
+
+jest.mock('../connectors/registry', () => ({
+  connectorRegistry: {
+    resolve: async (id: string) =>
+      id === 'weather'
+        ? {
+            id: 'weather',
+            name: 'Weather',
+            actions: [
+              {
+                id: 'get_forecast',
+                name: 'Get forecast',
+                description: 'Forecast for a city',
+                inputSchema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+              },
+            ],
+          }
+        : undefined,
+    isAvailableTo: (id: string, organizationId?: string) => id !== 'weather' || organizationId !== 'org-2',
+  },
+}));
+
+jest.mock('../codeAgentRegistry', () => ({
+  codeAgentRegistry: {
+    exportAsTool: jest.fn(async () => ({ name: 'Get Forecast', description: 'Agent', inputSchema: { city: { type: 'string' } } })),
+    getAgent: jest.fn(async () => ({ id: 'agent-1', code: 'rm -rf /', language: 'bash' })),
+    incrementUsage: jest.fn(),
+  },
+}));
+
+const mockEvaluateNodePolicies = jest.fn();
+
+jest.mock('../policyEngineService', () => ({
+  policyEngineService: { evaluateNodePolicies: (data: unknown) => mockEvaluateNodePolicies(data) },
+}));
+
+const mockExecuteConnector = jest.fn();
+
+jest.mock('../nodeExecutors/connector', () => ({
+  executeConnector: (context: unknown) => mockExecuteConnector(context),
+}));
+jest.mock('../nodeExecutors/code', () => ({ executeCode: jest.fn() }));
+jest.mock('../nodeExecutors/executeWorkflow', () => ({ executeSubWorkflow: jest.fn() }));
+
+const mockInvoke = jest.fn();
+const mockBindTools = jest.fn(() => ({ invoke: mockInvoke }));
+
+jest.mock('../langchainService', () => ({
+  langchainService: {
+    createChatModel: jest.fn(async () => ({ llm: { bindTools: mockBindTools } })),
+  },
+}));
+
+import { llmToolService, toToolName, toGeminiSchema, LLMToolDeclaration } from '../llmToolService';
+import { executeCode } from '../nodeExecutors/code';
+
+const forecastTool: LLMToolDeclaration = { type: 'connector', connectorId: 'weather', actionId: 'get_forecast' };
+const config = { provider: 'openai' as const, model: 'gpt-4o' };
+const context = { nodeId: 'llm-1', executionId: 'exec-1', stepId: 'step-llm', input: {}, config: {} };
+
+const toolCallMessage = (id: string) => ({
+  text: '',
+  tool_calls: [{ id, name: 'weather_get_forecast', args: { city: 'Oslo' } }],
+  usage_metadata: { input_tokens: 10, output_tokens: 5 },
+});
+
+describe('llmToolService', () => {
+  beforeEach(() => {
+    mockInserts.length = 0;
+    mockUpdates.length = 0;
+    mockInvoke.mockReset();
+    mockExecuteConnector.mockReset();
+    mockEvaluateNodePolicies.mockReset();
+    mockEvaluateNodePolicies.mockResolvedValue({ blocked: false, matchedRules: [], warnings: [] });
+  });
+
+  it('should build tool names every provider accepts', () => {
+    expect(toToolName('Send Slack message!')).toBe('Send_Slack_message');
+    expect(toToolName('***')).toBe('tool');
+    expect(toToolName('x'.repeat(80))).toHaveLength(64);
+  });
+
+  it('should reduce JSON Schema to the subset Gemini accepts', () => {
+    expect(
+      toGeminiSchema({
+        type: 'object',
+        additionalProperties: false,
+        properties: { tags: { type: 'array', items: { type: 'string', minLength: 1 } } },
+        required: ['tags'],
+      })
+    ).toEqual({
+      type: 'OBJECT',
+      properties: { tags: { type: 'ARRAY', items: { type: 'STRING' } } },
+      required: ['tags'],
+    });
+  });
+
+  it('should resolve declarations into uniquely named tools', async () => {
+    const tools = await llmToolService.resolveTools([forecastTool, { type: 'code_agent', agentId: 'agent-1', name: 'weather_get_forecast' }]);
+
+    expect(tools.map((tool) => tool.name)).toEqual(['weather_get_forecast', 'weather_get_forecast_2']);
+    expect(tools[0].parameters).toEqual({ type: 'object', properties: { city: { type: 'string' } }, required: ['city'] });
+    expect(tools[1].parameters).toEqual({ type: 'object', properties: { city: { type: 'string' } } });
+    await expect(llmToolService.resolveTools([{ type: 'connector', connectorId: 'missing', actionId: 'x' }])).rejects.toThrow(
+      'Connector action missing.x not found'
+    );
+    await expect(llmToolService.resolveTools([forecastTool], 'org-2')).rejects.toThrow('Connector action weather.get_forecast not found');
+  });
+
+  it('should run tool calls as child steps and return the final answer', async () => {
+    mockExecuteConnector.mockResolvedValue({ success: true, output: { forecast: 'sunny' } });
+    mockInvoke
+      .mockResolvedValueOnce(toolCallMessage('call-1'))
+      .mockResolvedValueOnce({ text: 'It will be sunny in Oslo.', tool_calls: [], usage_metadata: { input_tokens: 20, output_tokens: 8 } });
+
+    const tools = await llmToolService.resolveTools([forecastTool]);
+    const response = await llmToolService.generate({ prompt: 'Weather in Oslo?', config, tools, context });
+
+    expect(response.content).toBe('It will be sunny in Oslo.');
+    expect(response.tokensUsed).toBe(43);
+    expect(response.metadata).toMatchObject({
+      toolRounds: 1,
+      toolCalls: [{ id: 'call-1', name: 'weather_get_forecast', success: true, output: { forecast: 'sunny' } }],
+    });
+    expect(mockExecuteConnector).toHaveBeenCalledWith(
+      expect.objectContaining({ config: { type: 'integration.weather', action: 'get_forecast', city: 'Oslo' } })
+    );
+
+    // The tool result goes back to the model with the matching call ID
+    const toolMessage = mockInvoke.mock.calls[1][0].find((message: any) => message.tool_call_id);
+    expect(toolMessage).toMatchObject({ tool_call_id: 'call-1', content: '{"forecast":"sunny"}' });
+
+    expect(mockInserts).toEqual([
+      expect.objectContaining({
+        executionId: 'exec-1',
+        nodeId: 'llm-1',
+        parentStepId: 'step-llm',
+        input: { tool: 'weather_get_forecast', toolCallId: 'call-1', arguments: { city: 'Oslo' } },
+      }),
+    ]);
+    expect(mockUpdates).toEqual([expect.objectContaining({ status: 'completed', output: { output: { forecast: 'sunny' } } })]);
+  });
+
+  it('should report failed tool calls to the model instead of failing the node', async () => {
+    mockExecuteConnector.mockResolvedValue({ success: false, error: { message: 'City not found' } });
+    mockInvoke
+      .mockResolvedValueOnce(toolCallMessage('call-1'))
+      .mockResolvedValueOnce({ text: 'I could not find that city.', tool_calls: [] });
+
+    const tools = await llmToolService.resolveTools([forecastTool]);
+    const response = await llmToolService.generate({ prompt: 'Weather in Atlantis?', config, tools, context });
+
+    expect(response.content).toBe('I could not find that city.');
+    const toolMessage = mockInvoke.mock.calls[1][0].find((message: any) => message.tool_call_id);
+    expect(toolMessage.content).toBe('{"error":"City not found"}');
+    expect(mockUpdates).toEqual([expect.objectContaining({ status: 'failed', error: { message: 'City not found' } })]);
+  });
+
+  it('should not let tool arguments change the declared connector action', async () => {
+    mockInvoke
+      .mockResolvedValueOnce({
+        text: '',
+        tool_calls: [{ id: 'call-1', name: 'weather_get_forecast', args: { city: 'Oslo', type: 'integration.stripe', action: 'create_refund' } }],
+      })
+      .mockResolvedValueOnce({ text: 'Done.', tool_calls: [] });
+
+    const tools = await llmToolService.resolveTools([forecastTool]);
+    await llmToolService.generate({ prompt: 'Weather in Oslo?', config, tools, context });
+
+    expect(mockExecuteConnector).not.toHaveBeenCalled();
+    const toolMessage = mockInvoke.mock.calls[1][0].find((message: any) => message.tool_call_id);
+    expect(toolMessage.content).toBe('{"error":"Tool arguments cannot set reserved field(s): type, action"}');
+  });
+
+  it('should apply node policies to tool calls as the node they run', async () => {
+    mockEvaluateNodePolicies.mockImplementation(async ({ node }) =>
+      node.type === 'action.code.bash' ? { blocked: true, reason: 'Bash is not allowed', matchedRules: [] } : { blocked: false, matchedRules: [] }
+    );
+    mockInvoke
+      .mockResolvedValueOnce({ text: '', tool_calls: [{ id: 'call-1', name: 'cleanup', args: {} }] })
+      .mockResolvedValueOnce({ text: 'Done.', tool_calls: [] });
+
+    const tools = await llmToolService.resolveTools([{ type: 'code_agent', agentId: 'agent-1', name: 'cleanup' }]);
+    await llmToolService.generate({ prompt: 'Clean up', config, tools, context: { ...context, organizationId: 'org-1' } });
+
+    expect(executeCode).not.toHaveBeenCalled();
+    expect(mockEvaluateNodePolicies).toHaveBeenCalledWith(
+      expect.objectContaining({ node: expect.objectContaining({ id: 'llm-1', type: 'action.code.bash' }), organizationId: 'org-1' })
+    );
+    const toolMessage = mockInvoke.mock.calls[1][0].find((message: any) => message.tool_call_id);
+    expect(toolMessage.content).toBe('{"error":"Tool blocked by policy: Bash is not allowed"}');
+  });
+
+  it('should fail when the model keeps calling tools past the limit', async () => {
+    mockExecuteConnector.mockResolvedValue({ success: true, output: {} });
+    mockInvoke.mockImplementation(async () => toolCallMessage('call-loop'));
+
+    const tools = await llmToolService.resolveTools([forecastTool]);
+    await expect(
+      llmToolService.generate({ prompt: 'Loop', config, tools, context, maxIterations: 2 })
+    ).rejects.toThrow('Model still requested tools after 2 tool call rounds');
+    expect(mockExecuteConnector).toHaveBeenCalledTimes(2);
+  });
+});
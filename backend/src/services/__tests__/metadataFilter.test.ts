@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the metadata filter DSL and its provider translations
+ */
+
+jest.mock('../../config/database', () => ({
+  db: {},
+  vectorIndexes: {},
+  vectorDocuments: {},
+}));
+
+import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  parseMetadataFilter,
+  combineMetadataFilters,
+  matchesMetadataFilter,
+  toSqlMetadataFilter,
+  toPineconeFilter,
+} from '../metadataFilter';
+import { storeVectors, queryVectors } from '../vectorStore';
+
+const filter = parseMetadataFilter({
+  and: [
+    { field: 'customerId', eq: 'acme' },
+    { or: [{ field: 'type', in: ['faq', 'manual'] }, { field: 'source.pinned', exists: true }] },
+    { field: 'publishedAt', range: { gte: '2024-01-01' } },
+  ],
+})!;
+
+describe('metadataFilter', () => {
+  it('should reject conditions without exactly one operator', () => {
+    expect(() => parseMetadataFilter({ field: 'type' })).toThrow('Invalid metadata filter');
+    expect(() => parseMetadataFilter({ field: 'type', eq: 'faq', exists: true })).toThrow('exactly one of');
+    expect(() => parseMetadataFilter({ field: 'n', range: { gte: 1, lt: 'z' } })).toThrow('all be numbers');
+    expect(() => parseMetadataFilter('{not json')).toThrow('not valid JSON');
+  });
+
+  it('should treat empty filters as no filter', () => {
+    expect(parseMetadataFilter(undefined)).toBeUndefined();
+    expect(parseMetadataFilter({})).toBeUndefined();
+    expect(combineMetadataFilters(undefined, filter)).toBe(filter);
+  });
+
+  it('should match metadata in memory', () => {
+    const base = { customerId: 'acme', publishedAt: '2024-03-01' };
+
+    expect(matchesMetadataFilter({ ...base, type: 'faq' }, filter)).toBe(true);
+    expect(matchesMetadataFilter({ ...base, type: 'blog', source: { pinned: false } }, filter)).toBe(true);
+    expect(matchesMetadataFilter({ ...base, type: 'blog' }, filter)).toBe(false);
+    expect(matchesMetadataFilter({ ...base, type: 'faq', publishedAt: '2023-12-31' }, filter)).toBe(false);
+    expect(matchesMetadataFilter({ ...base, type: 'faq', customerId: 'globex' }, filter)).toBe(false);
+  });
+
+  it('should translate to a jsonb condition', () => {
+    const query = new PgDialect().sqlToQuery(toSqlMetadataFilter(filter, sql.raw('"metadata"')));
+
+    expect(query.sql).toContain('"metadata" @> $1::jsonb');
+    expect(query.sql).toContain('jsonb_extract_path("metadata", $4::text, $5::text) IS NOT NULL');
+    expect(query.sql).toContain('jsonb_typeof(jsonb_extract_path("metadata", $6::text)) = $7');
+    expect(query.params).toEqual([
+      '{"customerId":"acme"}',
+      '{"type":"faq"}',
+      '{"type":"manual"}',
+      'source',
+      'pinned',
+      'publishedAt',
+      'string',
+      'publishedAt',
+      '"2024-01-01"',
+    ]);
+  });
+
+  it('should translate to a Pinecone filter', () => {
+    expect(toPineconeFilter({ and: [{ field: 'type', in: ['faq'] }, { field: 'version', range: { gt: 2 } }] })).toEqual({
+      $and: [{ type: { $in: ['faq'] } }, { version: { $gt: 2 } }],
+    });
+    expect(() => toPineconeFilter({ field: 'publishedAt', range: { gte: '2024-01-01' } })).toThrow('numeric ranges');
+  });
+
+  it('should only return matching documents from the in-memory store', async () => {
+    await storeVectors('memory', 'filter-test', [
+      { id: 'a', embedding: [1, 0], text: 'Acme FAQ', metadata: { customerId: 'acme' } },
+      { id: 'b', embedding: [1, 0], text: 'Globex FAQ', metadata: { customerId: 'globex' } },
+    ]);
+
+    const results = await queryVectors('memory', 'filter-test', [1, 0], 5, undefined, null, {
+      field: 'customerId',
+      eq: 'globex',
+    });
+
+    expect(results.map((r) => r.id)).toEqual(['b']);
+  });
+});
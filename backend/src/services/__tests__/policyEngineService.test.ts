@@ -0,0 +1,183 @@
+/**
+ * Unit tests for persisted policy sets and node-dispatch enforcement
+ */
+
+const mockRows: Record<string, any> = {};
+const mockPublish = jest.fn().mockResolvedValue(1);
+let mockMessageHandler: ((channel: string, message: string) => void) | undefined;
+
+jest.mock('../../config/database', () => {
+  const rows = () => Object.values(mockRows).map((row) => ({ ...row }));
+  const select = () => ({
+    from: () => ({
+      where: () => Object.assign(Promise.resolve(rows()), { limit: async () => rows().slice(0, 1) }),
+    }),
+  });
+  return { db: { select }, policySets: {}, policySetVersions: {} };
+});
+
+jest.mock('../../config/redis', () => ({
+  redis: {
+    publish: (...args: unknown[]) => mockPublish(...args),
+    duplicate: () => ({
+      subscribe: async () => 1,
+      on: (_event: string, handler: (channel: string, message: string) => void) => {
+        mockMessageHandler = handler;
+      },
+    }),
+  },
+}));
+
+jest.mock('drizzle-orm', () => ({ eq: jest.fn(), and: jest.fn(), desc: jest.fn(), asc: jest.fn() }));
+
+import { PolicyEngineService, buildNodePolicyContext } from '../policyEngineService';
+
+function storeRow(values: Record<string, unknown>) {
+  for (const key of Object.keys(mockRows)) delete mockRows[key];
+  mockRows.ps_1 = {
+    id: 'ps_1',
+    organizationId: 'org_1',
+    workspaceId: null,
+    name: 'Egress',
+    description: null,
+    enabled: true,
+    priority: 0,
+    version: 1,
+    rules: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...values,
+  };
+}
+
+const httpAllowlistRule = {
+  id: 'http-allowlist',
+  name: 'HTTP allowlist',
+  priority: 10,
+  enabled: true,
+  conditions: [
+    { field: 'node.type', operator: 'eq', value: 'action.http' },
+    { field: 'http.domain', operator: 'not_in', value: ['api.internal.test'] },
+  ],
+  actions: [{ type: 'block', reason: 'Domain not allowlisted' }],
+};
+
+const node = (type: string, config: Record<string, unknown> = {}) => ({ id: `${type}-1`, type, config });
+
+describe('policyEngineService', () => {
+  let service: PolicyEngineService;
+
+  beforeEach(() => {
+    service = new PolicyEngineService();
+    mockMessageHandler = undefined;
+  });
+
+  it('should derive the HTTP domain of a node from its input or config', () => {
+    const context = buildNodePolicyContext({
+      node: node('action.http', { url: 'https://ignored.test/x', method: 'post' }),
+      input: { url: 'https://API.Example.com:8443/v1?q=1' },
+      workflowId: 'wf_1',
+      organizationId: 'org_1',
+    });
+
+    expect(context).toMatchObject({
+      stage: 'node_dispatch',
+      workflowId: 'wf_1',
+      http: { domain: 'api.example.com', method: 'POST' },
+    });
+    expect(buildNodePolicyContext({ node: node('action.http', { url: '{{ $input.url }}' }), workflowId: 'wf_1' }).http).toBeUndefined();
+  });
+
+  it('should block HTTP nodes calling domains outside the allowlist', async () => {
+    storeRow({ rules: [httpAllowlistRule] });
+    await service.loadPolicySets();
+
+    const blocked = await service.evaluateNodePolicies({
+      node: node('action.http', { url: 'https://evil.test/exfil' }),
+      workflowId: 'wf_1',
+      organizationId: 'org_1',
+    });
+    const allowed = await service.evaluateNodePolicies({
+      node: node('action.http', { url: 'https://api.internal.test/users' }),
+      workflowId: 'wf_1',
+      organizationId: 'org_1',
+    });
+    const otherOrg = await service.evaluateNodePolicies({
+      node: node('action.http', { url: 'https://evil.test/exfil' }),
+      workflowId: 'wf_1',
+      organizationId: 'org_2',
+    });
+
+    expect(blocked).toMatchObject({ blocked: true, reason: 'Blocked by policy rule: HTTP allowlist' });
+    expect(blocked.matchedRules[0]).toMatchObject({ id: 'http-allowlist', policySetId: 'ps_1' });
+    expect(allowed.blocked).toBe(false);
+    expect(otherOrg.blocked).toBe(false);
+  });
+
+  it('should forbid bash only in the policy set workspace', async () => {
+    storeRow({
+      workspaceId: 'ws_prod',
+      rules: [
+        {
+          id: 'no-bash',
+          name: 'No bash in production',
+          priority: 0,
+          enabled: true,
+          conditions: [{ field: 'node.type', operator: 'eq', value: 'action.code.bash' }],
+          actions: [{ type: 'block' }],
+        },
+      ],
+    });
+    await service.loadPolicySets();
+
+    const input = { node: node('action.code.bash', { code: 'ls' }), workflowId: 'wf_1', organizationId: 'org_1' };
+
+    expect((await service.evaluateNodePolicies({ ...input, workspaceId: 'ws_prod' })).blocked).toBe(true);
+    expect((await service.evaluateNodePolicies({ ...input, workspaceId: 'ws_dev' })).blocked).toBe(false);
+  });
+
+  it('should reload a policy set when another instance announces a change', async () => {
+    storeRow({ rules: [httpAllowlistRule] });
+    await service.start();
+    expect(service.getPolicySets('org_1')).toHaveLength(1);
+
+    storeRow({ enabled: false, rules: [httpAllowlistRule] });
+    mockMessageHandler?.('policy-sets:changed', 'ps_1');
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(service.getPolicySets('org_1')).toHaveLength(0);
+  });
+
+  it('should simulate which rules fire for each node of a workflow', async () => {
+    storeRow({
+      rules: [
+        httpAllowlistRule,
+        {
+          id: 'warn-llm',
+          name: 'LLM usage',
+          priority: 0,
+          enabled: true,
+          conditions: [{ field: 'node.type', operator: 'eq', value: 'ai.llm' }],
+          actions: [{ type: 'warn', reason: 'LLM calls are audited' }],
+        },
+      ],
+    });
+    await service.loadPolicySets();
+
+    const simulation = await service.simulateExecution({
+      workflowId: 'wf_1',
+      organizationId: 'org_1',
+      nodes: [
+        { id: 'fetch', type: 'custom', data: { type: 'action.http', config: { url: 'https://evil.test' } } },
+        { id: 'summarize', data: { type: 'ai.llm', config: {} } },
+      ],
+    });
+
+    expect(simulation).toEqual([
+      expect.objectContaining({ nodeId: 'fetch', nodeType: 'action.http', blocked: true }),
+      expect.objectContaining({ nodeId: 'summarize', blocked: false, warnings: ['LLM calls are audited'] }),
+    ]);
+    expect(simulation[0].context.http).toMatchObject({ domain: 'evil.test' });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for prompt library versioning and template rendering
+ */
+
+jest.mock('../../config/database', () => ({
+  db: {},
+  prompts: {},
+  promptVersions: {},
+  modelCostLogs: {},
+}));
+
+import {
+  parseVersion,
+  compareVersions,
+  bumpVersion,
+  extractVariables,
+  renderPrompt,
+  getNodePromptReference,
+  getPromptTraceMetadata,
+  ResolvedPrompt,
+} from '../promptService';
+
+const summarize: ResolvedPrompt = {
+  promptId: 'prompt-1',
+  promptVersionId: 'version-3',
+  name: 'summarize',
+  version: '1.2.0',
+  label: 'production',
+  template: 'Summarize for {{audience}}:\n\n{{ text }}',
+  systemPrompt: 'You write in {{tone}} tone.',
+  variables: [
+    { name: 'audience' },
+    { name: 'text' },
+    { name: 'tone', required: false, default: 'a neutral' },
+  ],
+  modelDefaults: { provider: 'openai', model: 'gpt-4o-mini' },
+};
+
+describe('promptService', () => {
+  it('should compare and bump semantic versions', () => {
+    expect(parseVersion('1.10.3')).toEqual([1, 10, 3]);
+    expect(() => parseVersion('1.2')).toThrow('Invalid version "1.2"');
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('2.0.0', '2.0.0')).toBe(0);
+    expect(bumpVersion('1.2.3')).toBe('1.2.4');
+    expect(bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+    expect(bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+  });
+
+  it('should list template variables in order of first use', () => {
+    expect(extractVariables('{{a}} and {{ b }} then {{a}}', 'System {{c}}', null)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should render the template and system prompt with defaults', () => {
+    expect(renderPrompt(summarize, { audience: 'executives', text: { revenue: 10 } })).toEqual({
+      prompt: 'Summarize for executives:\n\n{"revenue":10}',
+      systemPrompt: 'You write in a neutral tone.',
+    });
+  });
+
+  it('should fail when required variables are missing', () => {
+    expect(() => renderPrompt(summarize, { text: 'Q3 report' })).toThrow(
+      'Prompt "summarize" 1.2.0 is missing variables: audience'
+    );
+  });
+
+  it('should read prompt references from node config', () => {
+    expect(getNodePromptReference({ model: 'gpt-4' })).toBeUndefined();
+    expect(getNodePromptReference({ promptId: 'prompt-1', promptLabel: 'draft', promptVersion: '' })).toEqual({
+      promptId: 'prompt-1',
+      version: undefined,
+      label: 'draft',
+    });
+    expect(getPromptTraceMetadata(summarize)).toEqual({
+      promptId: 'prompt-1',
+      promptName: 'summarize',
+      promptVersion: '1.2.0',
+      promptVersionId: 'version-3',
+      promptLabel: 'production',
+    });
+  });
+});
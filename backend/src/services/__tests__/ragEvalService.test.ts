@@ -0,0 +1,213 @@
+/**
+ * Unit tests for RAG evaluation metrics and offline runs
+ * (in-memory vector store, stubbed embeddings and LLM)
+ */
+
+// Each db.select() chain resolves to the next queued row set
+const selectResults: unknown[][] = [];
+const mockQuery: any = {};
+['from', 'innerJoin', 'where'].forEach((method) => {
+  mockQuery[method] = jest.fn(() => mockQuery);
+});
+mockQuery.limit = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+mockQuery.orderBy = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+const mockInsert = jest.fn();
+const mockUpdateSet = jest.fn().mockReturnValue({ where: async () => undefined });
+const mockRedisSet = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: jest.fn(() => mockQuery),
+    insert: (...args: unknown[]) => mockInsert(...args),
+    update: () => ({ set: mockUpdateSet }),
+  },
+  vectorIndexes: {},
+  vectorDocuments: {},
+  workflows: {},
+  workspaces: {},
+}));
+
+jest.mock('../../../drizzle/schema', () => {
+  const table = (columns: string[]) => Object.fromEntries(columns.map((column) => [column, { name: column }]));
+  return {
+    ragEvalDatasets: table(['id', 'organizationId']),
+    ragEvalCases: table(['datasetId', 'createdAt']),
+    ragEvalRuns: table(['id', 'status']),
+    ragEvalResults: table([]),
+    workflows: table(['id', 'workspaceId', 'settings', 'definition']),
+    workspaces: table(['id', 'organizationId']),
+  };
+});
+
+jest.mock('../../config/redis', () => ({
+  redis: { set: (...args: unknown[]) => mockRedisSet(...args), del: jest.fn() },
+}));
+
+jest.mock('../costLoggingService', () => ({
+  costLoggingService: { logFromTokenUsage: jest.fn() },
+}));
+
+// Bag-of-words embeddings over a tiny vocabulary
+const VOCABULARY = ['password', 'reset', 'refund', 'invoice', 'vacation'];
+const embed = (text: string) => VOCABULARY.map((word) => (text.toLowerCase().includes(word) ? 1 : 0.01));
+
+jest.mock('../langchainService', () => ({
+  langchainService: {
+    generateEmbedding: jest.fn(async (text: string) => embed(text)),
+    generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(embed)),
+  },
+}));
+
+const mockGenerateText = jest.fn();
+
+jest.mock('../aiService', () => ({
+  aiService: { generateText: (request: unknown) => mockGenerateText(request) },
+}));
+
+const mockCheckPrivateNode = jest.fn();
+
+jest.mock('../llmProviderService', () => ({
+  llmProviderService: { checkPrivateNode: (...args: unknown[]) => mockCheckPrivateNode(...args) },
+}));
+
+import { scoreRetrieval, summarizeResults, parseJudgeResponse, runEvaluation, ragEvalService } from '../ragEvalService';
+import { storeVectors } from '../vectorStore';
+
+describe('ragEvalService', () => {
+  it('should compute recall@k and reciprocal rank', () => {
+    const retrieved = [
+      { id: 'a', metadata: { documentId: 'billing.md' } },
+      { id: 'b', metadata: { source: 'faq.md' } },
+      { id: 'c' },
+    ];
+
+    expect(scoreRetrieval(retrieved, ['faq.md', 'c'])).toEqual({ recall: 1, reciprocalRank: 0.5 });
+    expect(scoreRetrieval(retrieved, ['faq.md', 'missing.md'])).toEqual({ recall: 0.5, reciprocalRank: 0.5 });
+    expect(scoreRetrieval(retrieved, ['missing.md'])).toEqual({ recall: 0, reciprocalRank: 0 });
+    expect(scoreRetrieval(retrieved, [])).toEqual({ recall: null, reciprocalRank: null });
+  });
+
+  it('should average metrics over the questions that have them', () => {
+    expect(
+      summarizeResults([
+        { question: 'q1', retrievedSources: [], recall: 1, reciprocalRank: 1, faithfulness: 0.8, latencyMs: 100 },
+        { question: 'q2', retrievedSources: [], recall: 0, reciprocalRank: 0, latencyMs: 300, error: 'Judge failed' },
+        { question: 'q3', retrievedSources: [], recall: null, reciprocalRank: null, faithfulness: 0.4, latencyMs: 200 },
+      ])
+    ).toEqual({
+      cases: 3,
+      errors: 1,
+      recallAtK: 0.5,
+      mrr: 0.5,
+      faithfulness: expect.closeTo(0.6, 5),
+      answerRelevance: null,
+      averageLatencyMs: 200,
+    });
+  });
+
+  it('should parse and clamp judge scores', () => {
+    expect(parseJudgeResponse('Sure: {"faithfulness": 1.4, "answerRelevance": "0.5", "reasoning": "ok"}')).toEqual({
+      faithfulness: 1,
+      answerRelevance: 0.5,
+      reasoning: 'ok',
+    });
+    expect(() => parseJudgeResponse('Looks good')).toThrow('Judge did not return JSON');
+  });
+
+  it('should run a dataset offline against the in-memory store', async () => {
+    process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+    await storeVectors('memory', 'eval-test', [
+      { id: 'pw', embedding: embed('password reset'), text: 'Reset your password from the login page.', metadata: { source: 'account.md' } },
+      { id: 'rf', embedding: embed('refund invoice'), text: 'Refunds are issued to the original invoice.', metadata: { source: 'billing.md' } },
+      { id: 'vc', embedding: embed('vacation'), text: 'Employees get 25 vacation days.', metadata: { source: 'handbook.md' } },
+    ]);
+
+    mockGenerateText.mockImplementation(async ({ prompt }: { prompt: string }) =>
+      prompt.startsWith('You grade answers')
+        ? { content: '{"faithfulness": 1, "answerRelevance": 0.5, "reasoning": "Supported"}' }
+        : { content: 'Use the login page.', tokensUsed: 10 }
+    );
+
+    const { results, metrics } = await runEvaluation(
+      [
+        { id: 'case-1', question: 'How do I reset my password?', expectedAnswer: 'From the login page', expectedSources: ['account.md'] },
+        { id: 'case-2', question: 'When is a refund issued?', expectedAnswer: null, expectedSources: ['handbook.md'] },
+      ],
+      {
+        config: { vectorStoreProvider: 'memory', indexName: 'eval-test', topK: 1 },
+        workflowId: 'wf-1',
+        nodeId: 'rag-1',
+        executionId: 'rag-eval-test',
+        judge: { provider: 'openai', model: 'judge-model' },
+        organizationId: 'org-1',
+        workspaceId: 'ws-1',
+      }
+    );
+
+    expect(results.map((result) => result.error)).toEqual([undefined, undefined]);
+    expect(results.map((result) => result.retrievedSources)).toEqual([['account.md'], ['billing.md']]);
+    expect(results[0]).toMatchObject({ caseId: 'case-1', answer: 'Use the login page.', recall: 1, reciprocalRank: 1, faithfulness: 1 });
+    expect(results[1]).toMatchObject({ recall: 0, reciprocalRank: 0 });
+    expect(metrics).toMatchObject({ cases: 2, errors: 0, recallAtK: 0.5, mrr: 0.5, faithfulness: 1, answerRelevance: 0.5 });
+
+    // The judge resolves organization LLM providers of the workflow's organization
+    const judgeCall = mockGenerateText.mock.calls.find(([request]) => request.prompt.startsWith('You grade answers'));
+    expect(judgeCall[0].config).toMatchObject({ model: 'judge-model', organizationId: 'org-1' });
+  });
+
+  describe('startRun on workflows restricted to private models', () => {
+    const queueDatasetAndWorkflow = () => {
+      selectResults.length = 0;
+      selectResults.push(
+        [{ id: 'ds-1', organizationId: 'org-1' }],
+        [{ id: 'case-1', question: 'q' }],
+        [
+          {
+            workspaceId: 'ws-1',
+            settings: { privateLlmOnly: true },
+            definition: { nodes: [{ id: 'rag-1', data: { type: 'ai.rag', config: { llmProvider: 'openai_compatible', llmProviderId: 'p1' } } }] },
+          },
+        ]
+      );
+    };
+
+    beforeEach(() => {
+      mockCheckPrivateNode.mockReset();
+      mockInsert.mockReset();
+    });
+
+    it('should reject an external judge model', async () => {
+      queueDatasetAndWorkflow();
+      mockCheckPrivateNode.mockImplementation(async (_org, nodeType, config) =>
+        nodeType === 'ai.llm' && config.provider !== 'openai_compatible' ? 'The model must use a private organization LLM provider' : null
+      );
+
+      await expect(
+        ragEvalService.startRun('org-1', 'user-1', 'ds-1', { workflowId: 'wf-1', judge: { provider: 'openai', model: 'gpt-4o-mini' } })
+      ).rejects.toThrow('Workflow is restricted to private LLM providers: Judge: The model must use a private organization LLM provider');
+      expect(mockCheckPrivateNode).toHaveBeenCalledWith('org-1', 'ai.rag', expect.objectContaining({ llmProviderId: 'p1' }));
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject overrides that leave the private providers', async () => {
+      queueDatasetAndWorkflow();
+      mockCheckPrivateNode.mockImplementation(async (_org, nodeType, config) =>
+        nodeType === 'ai.rag' && config.vectorStoreProvider === 'pinecone' ? 'Pinecone is an external vector store' : null
+      );
+
+      await expect(
+        ragEvalService.startRun('org-1', 'user-1', 'ds-1', { workflowId: 'wf-1', overrides: { vectorStoreProvider: 'pinecone' }, judge: null })
+      ).rejects.toThrow('Workflow is restricted to private LLM providers: Pinecone is an external vector store');
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should fail runs whose lease expired and leave runs in progress alone', async () => {
+    mockQuery.where.mockReturnValueOnce(Promise.resolve([{ id: 'run-interrupted' }, { id: 'run-in-progress' }]));
+    mockRedisSet.mockImplementation(async (key: string) => (key === 'rag-eval-run:run-interrupted:lease' ? 'OK' : null));
+
+    expect(await ragEvalService.failInterruptedRuns()).toBe(1);
+    expect(mockUpdateSet).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSet.mock.calls[0][0]).toMatchObject({ status: 'failed' });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for hybrid retrieval (in-memory store, no database)
+ */
+
+jest.mock('../../config/database', () => ({
+  db: {},
+  vectorIndexes: {},
+  vectorDocuments: {},
+}));
+
+import { storeVectors, searchKeywords } from '../vectorStore';
+import { retrievalService, reciprocalRankFusion } from '../retrievalService';
+import { rerankService } from '../rerankService';
+
+const INDEX = 'retrieval-test';
+
+describe('RetrievalService', () => {
+  beforeAll(async () => {
+    await storeVectors('memory', INDEX, [
+      { id: 'reset', embedding: [1, 0, 0], text: 'How to reset your password from the login page' },
+      { id: 'billing', embedding: [0.9, 0.1, 0], text: 'Updating billing details and invoices' },
+      { id: 'err', embedding: [0, 0, 1], text: 'Error ERR-4012 means the SKU-77 sync token expired' },
+    ]);
+  });
+
+  it('should fuse ranked lists by reciprocal rank', () => {
+    const fused = reciprocalRankFusion([
+      [{ id: 'a' }, { id: 'b' }],
+      [{ id: 'b' }, { id: 'c' }],
+    ]);
+
+    expect(fused.map(({ document }) => document.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('should match exact codes with keyword search', async () => {
+    const results = await searchKeywords('memory', INDEX, 'what is err-4012?', 5);
+
+    expect(results.map((r) => r.id)).toEqual(['err']);
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+
+  it('should find keyword-only matches in hybrid mode', async () => {
+    // The embedding points at the password document; the text names the error code
+    const results = await retrievalService.retrieve({
+      provider: 'memory',
+      indexName: INDEX,
+      query: 'ERR-4012',
+      queryEmbedding: [1, 0, 0],
+      topK: 2,
+      mode: 'hybrid',
+    });
+
+    expect(results.map((r) => r.id)).toEqual(['err', 'reset']);
+    expect(results[0]).toEqual(expect.objectContaining({ keywordScore: expect.any(Number), vectorScore: expect.any(Number) }));
+  });
+
+  it('should rerank the candidates and keep topK', async () => {
+    const provider = jest.fn(async (_query: string, texts: string[]) => texts.map((text) => (text.includes('SKU-77') ? 1 : 0)));
+    rerankService.registerProvider('test', provider);
+
+    const results = await retrievalService.retrieve({
+      provider: 'memory',
+      indexName: INDEX,
+      query: 'sku 77 sync',
+      queryEmbedding: [1, 0, 0],
+      topK: 1,
+      mode: 'vector',
+      rerank: { provider: 'test' },
+    });
+
+    expect(provider.mock.calls[0][1]).toHaveLength(3);
+    expect(results).toEqual([expect.objectContaining({ id: 'err', score: 1, retrievalScore: expect.any(Number) })]);
+  });
+
+  it('should require an embedding outside keyword mode', async () => {
+    await expect(
+      retrievalService.retrieve({ provider: 'memory', indexName: INDEX, query: 'password', topK: 1, mode: 'hybrid' })
+    ).rejects.toThrow('Query embedding is required');
+  });
+});
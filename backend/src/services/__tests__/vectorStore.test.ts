@@ -4,6 +4,8 @@ const mockDb = {
   insert: jest.fn(),
   update: jest.fn(),
   delete: jest.fn(),
+  execute: jest.fn(),
+  transaction: jest.fn(),
 };
 
 jest.mock('../../config/database', () => ({
@@ -15,6 +17,11 @@ jest.mock('../../config/database', () => ({
 jest.mock('drizzle-orm', () => ({
   eq: jest.fn((column, value) => ({ column, value })),
   and: jest.fn((...conditions) => ({ conditions })),
+  inArray: jest.fn((column, values) => ({ column, values })),
+  sql: Object.assign(
+    jest.fn((strings: TemplateStringsArray, ...values: unknown[]) => ({ strings, values })),
+    { raw: jest.fn((value: string) => ({ raw: value })) }
+  ),
 }));
 
 import { DatabaseVectorStore } from '../../services/vectorStore';
@@ -23,6 +30,14 @@ describe('DatabaseVectorStore', () => {
   let store: DatabaseVectorStore;
   const mockOrganizationId = 'org_123';
   const mockIndexName = 'test-index';
+  const mockIndex = {
+    id: 'index_123',
+    organizationId: 'org_123',
+    name: 'test-index',
+    dimensions: 3,
+    distanceMetric: 'cosine',
+    annIndexType: 'hnsw',
+  } as any;
 
   beforeEach(() => {
     store = new DatabaseVectorStore();
@@ -76,8 +91,8 @@ describe('DatabaseVectorStore', () => {
         { embedding: [0.4, 0.5, 0.6], text: 'Test document 2' },
       ];
 
-      // Mock getOrCreateIndex
-      jest.spyOn(store, 'getOrCreateIndex').mockResolvedValue(mockIndexId);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue({ ...mockIndex, id: mockIndexId });
+      (mockDb.execute as jest.Mock).mockResolvedValue(undefined);
 
       // Mock document existence check
       (mockDb.select as jest.Mock).mockReturnValue({
@@ -97,6 +112,38 @@ describe('DatabaseVectorStore', () => {
 
       expect(result).toHaveLength(2);
       expect(mockDb.insert).toHaveBeenCalled();
+      expect(((mockDb.execute as jest.Mock).mock.calls[0][0] as any).raw).toContain(
+        "CREATE INDEX CONCURRENTLY IF NOT EXISTS \"vector_documents_ann_index_123\" ON vector_documents USING hnsw ((embedding::vector(3)) vector_cosine_ops) WHERE index_id = 'index_123'"
+      );
+    });
+
+    it('should not build ANN indexes for embeddings above 2000 dimensions', async () => {
+      const embedding = Array.from({ length: 3072 }, () => 0.1);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue({ ...mockIndex, dimensions: 3072 });
+      (mockDb.select as jest.Mock).mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([]),
+          }),
+        }),
+      });
+      (mockDb.insert as jest.Mock).mockReturnValue({
+        values: jest.fn().mockResolvedValue(undefined),
+      });
+
+      await store.upsert(mockOrganizationId, mockIndexName, [{ embedding, text: 'Large vector' }]);
+
+      expect(mockDb.insert).toHaveBeenCalled();
+      expect(mockDb.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject embeddings with other dimensions than the index', async () => {
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue(mockIndex);
+
+      await expect(
+        store.upsert(mockOrganizationId, mockIndexName, [{ embedding: [0.1, 0.2], text: 'Short vector' }])
+      ).rejects.toThrow('Embedding has 2 dimensions');
+      expect(mockDb.insert).not.toHaveBeenCalled();
     });
 
     it('should update existing documents', async () => {
@@ -106,7 +153,8 @@ describe('DatabaseVectorStore', () => {
         { id: mockDocId, embedding: [0.1, 0.2, 0.3], text: 'Updated document' },
       ];
 
-      jest.spyOn(store, 'getOrCreateIndex').mockResolvedValue(mockIndexId);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue({ ...mockIndex, id: mockIndexId });
+      (mockDb.execute as jest.Mock).mockResolvedValue(undefined);
 
       // Mock document exists
       (mockDb.select as jest.Mock).mockReturnValue({
@@ -133,43 +181,92 @@ describe('DatabaseVectorStore', () => {
   });
 
   describe('query', () => {
-    it('should return top-K results sorted by similarity', async () => {
-      const mockIndexId = 'index_123';
-      const queryEmbedding = [0.1, 0.2, 0.3];
-      const mockDocuments = [
-        {
-          id: 'doc_1',
-          embedding: [0.1, 0.2, 0.3], // High similarity
-          text: 'Document 1',
-          metadata: null,
-        },
-        {
-          id: 'doc_2',
-          embedding: [0.9, 0.8, 0.7], // Low similarity
-          text: 'Document 2',
-          metadata: null,
-        },
-        {
-          id: 'doc_3',
-          embedding: [0.2, 0.3, 0.4], // Medium similarity
-          text: 'Document 3',
-          metadata: null,
-        },
-      ];
+    const mockQueryBuilder = (rows: unknown[]) => {
+      const builder: any = {};
+      ['from', 'where', 'orderBy'].forEach((method) => {
+        builder[method] = jest.fn(() => builder);
+      });
+      builder.limit = jest.fn().mockResolvedValue(rows);
+      return builder;
+    };
+
+    it('should push the distance ordering and top-K into SQL', async () => {
+      const builder = mockQueryBuilder([
+        { id: 'doc_1', text: 'Document 1', metadata: null, distance: 0 },
+        { id: 'doc_3', text: 'Document 3', metadata: { source: 'test' }, distance: 0.25 },
+      ]);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue(mockIndex);
+      (mockDb.execute as jest.Mock).mockResolvedValue(undefined);
+      (mockDb.select as jest.Mock).mockReturnValue(builder);
+
+      const result = await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 2);
+
+      expect(builder.orderBy).toHaveBeenCalled();
+      expect(builder.limit).toHaveBeenCalledWith(2);
+      expect(result.map((doc) => doc.id)).toEqual(['doc_1', 'doc_3']);
+      expect(result[0].score).toBe(1);
+      expect(result[1].score).toBe(0.75);
+    });
 
-      jest.spyOn(store, 'getOrCreateIndex').mockResolvedValue(mockIndexId);
+    it('should search exactly while the ANN index is still being built', async () => {
+      const builder = mockQueryBuilder([{ id: 'doc_1', text: 'Document 1', metadata: null, distance: 0 }]);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue(mockIndex);
+      // The CREATE INDEX CONCURRENTLY never finishes during this test
+      (mockDb.execute as jest.Mock).mockReturnValue(new Promise(() => undefined));
+      (mockDb.select as jest.Mock).mockReturnValue(builder);
 
-      (mockDb.select as jest.Mock).mockReturnValue({
-        from: jest.fn().mockReturnValue({
-          where: jest.fn().mockResolvedValue(mockDocuments),
-        }),
-      });
+      const result = await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 1);
+      await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 1);
 
-      const result = await store.query(mockOrganizationId, mockIndexName, queryEmbedding, 2);
+      expect(result.map((doc) => doc.id)).toEqual(['doc_1']);
+      // One build per index, not one per request
+      expect(mockDb.execute).toHaveBeenCalledTimes(1);
+    });
 
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('doc_1'); // Highest similarity
-      expect(result[0].score).toBeGreaterThan(result[1].score);
+    it('should build the ANN index again when the last build left it invalid', async () => {
+      const builder = mockQueryBuilder([]);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue(mockIndex);
+      (mockDb.execute as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ valid: false }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ valid: true }]);
+      (mockDb.select as jest.Mock).mockReturnValue(builder);
+
+      for (let i = 0; i < 3; i++) {
+        await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 1);
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      expect(mockDb.execute).toHaveBeenCalledTimes(4);
+    });
+
+    it('should convert inner product distances to scores', async () => {
+      const builder = mockQueryBuilder([{ id: 'doc_1', text: 'Document 1', metadata: null, distance: -0.9 }]);
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue({ ...mockIndex, distanceMetric: 'inner_product' });
+      (mockDb.execute as jest.Mock).mockResolvedValue(undefined);
+      (mockDb.select as jest.Mock).mockReturnValue(builder);
+
+      const result = await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 1);
+
+      expect(result[0].score).toBe(0.9);
+    });
+
+    it('should return nothing for an index without documents', async () => {
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue({ ...mockIndex, dimensions: null });
+
+      const result = await store.query(mockOrganizationId, mockIndexName, [0.1, 0.2, 0.3], 2);
+
+      expect(result).toEqual([]);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should reject query embeddings with other dimensions than the index', async () => {
+      jest.spyOn(store, 'getOrCreateIndexRecord').mockResolvedValue(mockIndex);
+
+      await expect(store.query(mockOrganizationId, mockIndexName, [0.1, 0.2], 2)).rejects.toThrow(
+        'Query embedding has 2 dimensions'
+      );
     });
   });
 
@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+import { webhookAuthService, verifySignature, isIpAllowed, WebhookRequestData } from '../webhookAuthService';
+
+const mockSet = jest.fn();
+
+jest.mock('../../config/redis', () => ({
+  redis: { set: (...args: unknown[]) => mockSet(...args) },
+}));
+
+const secret = 'whsec_test';
+const rawBody = JSON.stringify({ event: 'push' });
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function request(headers: Record<string, string>, ip = '127.0.0.1'): WebhookRequestData {
+  return { headers, rawBody, ip };
+}
+
+describe('Webhook Auth Service', () => {
+  beforeEach(() => {
+    mockSet.mockReset();
+    mockSet.mockResolvedValue('OK');
+  });
+
+  describe('verifySignature', () => {
+    it('should verify GitHub signatures', () => {
+      const valid = verifySignature(request({ 'x-hub-signature-256': `sha256=${sign(rawBody)}` }), { style: 'github', secret });
+      const invalid = verifySignature(request({ 'x-hub-signature-256': 'sha256=deadbeef' }), { style: 'github', secret });
+
+      expect(valid.valid).toBe(true);
+      expect(invalid.reason).toBe('invalid_signature');
+    });
+
+    it('should verify Stripe signatures and return the signed timestamp', () => {
+      const timestamp = '1700000000';
+      const header = `t=${timestamp},v1=${sign(`${timestamp}.${rawBody}`)}`;
+      const result = verifySignature(request({ 'stripe-signature': header }), { style: 'stripe', secret });
+
+      expect(result.valid).toBe(true);
+      expect(result.timestamp).toBe(1700000000);
+    });
+
+    it('should verify Slack signatures', () => {
+      const timestamp = '1700000000';
+      const result = verifySignature(
+        request({
+          'x-slack-signature': `v0=${sign(`v0:${timestamp}:${rawBody}`)}`,
+          'x-slack-request-timestamp': timestamp,
+        }),
+        { style: 'slack', secret }
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should verify generic signatures from a custom header', () => {
+      const result = verifySignature(request({ 'x-custom-sig': sign(rawBody) }), {
+        style: 'generic',
+        secret,
+        header: 'X-Custom-Sig',
+      });
+      const missing = verifySignature(request({}), { style: 'generic', secret });
+
+      expect(result.valid).toBe(true);
+      expect(missing.reason).toBe('missing_signature');
+    });
+  });
+
+  describe('isIpAllowed', () => {
+    it('should match exact IPs and CIDR ranges', () => {
+      expect(isIpAllowed('10.0.0.5', ['10.0.0.5'])).toBe(true);
+      expect(isIpAllowed('::ffff:192.30.253.10', ['192.30.252.0/22'])).toBe(true);
+      expect(isIpAllowed('192.30.256.1', ['192.30.252.0/22'])).toBe(false);
+      expect(isIpAllowed('8.8.8.8', ['192.30.252.0/22'])).toBe(false);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept any request when no auth is configured', async () => {
+      await expect(webhookAuthService.verify('wh_1', request({}), null)).resolves.toEqual({ valid: true });
+    });
+
+    it('should check header tokens and basic auth', async () => {
+      const headerAuth = { type: 'header' as const, header: { name: 'X-Token', value: 'abc' } };
+      const basicAuth = { type: 'basic' as const, basic: { username: 'user', password: 'pass' } };
+      const basicHeader = `Basic ${Buffer.from('user:pass').toString('base64')}`;
+
+      expect((await webhookAuthService.verify('wh_1', request({ 'x-token': 'abc' }), headerAuth)).valid).toBe(true);
+      expect((await webhookAuthService.verify('wh_1', request({ 'x-token': 'nope' }), headerAuth)).reason).toBe('invalid_token');
+      expect((await webhookAuthService.verify('wh_1', request({ authorization: basicHeader }), basicAuth)).valid).toBe(true);
+      expect((await webhookAuthService.verify('wh_1', request({}), basicAuth)).reason).toBe('invalid_credentials');
+    });
+
+    it('should reject IPs outside the allowlist', async () => {
+      const result = await webhookAuthService.verify('wh_1', request({}, '8.8.8.8'), { ipAllowlist: ['10.0.0.0/8'] });
+
+      expect(result.reason).toBe('ip_not_allowed');
+    });
+
+    it('should reject stale timestamps and replayed nonces', async () => {
+      const auth = {
+        type: 'hmac' as const,
+        hmac: { style: 'stripe' as const, secret },
+        replayProtection: { enabled: true, toleranceSeconds: 300 },
+      };
+      const stale = '1000000000';
+      const fresh = String(Math.floor(Date.now() / 1000));
+      const staleHeader = { 'stripe-signature': `t=${stale},v1=${sign(`${stale}.${rawBody}`)}` };
+      const freshHeader = { 'stripe-signature': `t=${fresh},v1=${sign(`${fresh}.${rawBody}`)}` };
+
+      expect((await webhookAuthService.verify('wh_1', request(staleHeader), auth)).reason).toBe('timestamp_out_of_range');
+      expect((await webhookAuthService.verify('wh_1', request(freshHeader), auth)).valid).toBe(true);
+
+      mockSet.mockResolvedValueOnce(null);
+      expect((await webhookAuthService.verify('wh_1', request(freshHeader), auth)).reason).toBe('replayed_request');
+    });
+
+    it('should reject future timestamps and keep nonces until their timestamp expires', async () => {
+      const auth = {
+        type: 'hmac' as const,
+        hmac: { style: 'stripe' as const, secret },
+        replayProtection: { enabled: true, toleranceSeconds: 300 },
+      };
+      const future = String(Math.floor(Date.now() / 1000) + 200);
+      const skewed = String(Math.floor(Date.now() / 1000) + 10);
+      const futureHeader = { 'stripe-signature': `t=${future},v1=${sign(`${future}.${rawBody}`)}` };
+      const skewedHeader = { 'stripe-signature': `t=${skewed},v1=${sign(`${skewed}.${rawBody}`)}` };
+
+      expect((await webhookAuthService.verify('wh_1', request(futureHeader), auth)).reason).toBe('timestamp_out_of_range');
+      expect((await webhookAuthService.verify('wh_1', request(skewedHeader), auth)).valid).toBe(true);
+      const [, , , ttlSeconds] = mockSet.mock.calls[0];
+      expect(ttlSeconds).toBeGreaterThanOrEqual(309);
+      expect(ttlSeconds).toBeLessThanOrEqual(311);
+    });
+
+    it('should reject requests with neither a timestamp nor a nonce', async () => {
+      const auth = {
+        type: 'header' as const,
+        header: { name: 'X-Token', value: 'token-1' },
+        replayProtection: { enabled: true, nonceHeader: 'X-Request-Id' },
+      };
+
+      expect((await webhookAuthService.verify('wh_1', request({ 'x-token': 'token-1' }), auth)).reason).toBe('missing_nonce');
+      expect((await webhookAuthService.verify('wh_1', request({ 'x-token': 'token-1', 'x-request-id': 'r1' }), auth)).valid).toBe(true);
+      expect(mockSet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep nonces of untimed signatures beyond the tolerance window', async () => {
+      const auth = {
+        type: 'hmac' as const,
+        hmac: { style: 'github' as const, secret },
+        replayProtection: { enabled: true, toleranceSeconds: 300 },
+      };
+
+      expect((await webhookAuthService.verify('wh_1', request({ 'x-hub-signature-256': `sha256=${sign(rawBody)}` }), auth)).valid).toBe(true);
+      const [, , , ttlSeconds] = mockSet.mock.calls[0];
+      expect(ttlSeconds).toBeGreaterThan(300);
+    });
+  });
+});
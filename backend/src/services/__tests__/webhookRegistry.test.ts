@@ -0,0 +1,68 @@
+/**
+ * Unit tests for storing webhook secrets encrypted on the webhook registry
+ */
+
+let mockRegistryRows: Record<string, any>[] = [];
+
+jest.mock('../../config/database', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: async () => mockRegistryRows.map(({ nodeId, auth }) => ({ nodeId, auth })) }) }),
+    delete: () => ({ where: async () => (mockRegistryRows = []) }),
+    insert: () => ({ values: async (row: Record<string, any>) => mockRegistryRows.push(row) }),
+  },
+}));
+
+jest.mock('../../../drizzle/schema', () => ({
+  webhookRegistry: { workflowId: {}, nodeId: {}, auth: {} },
+  workflows: {},
+  workspaces: {},
+  organizations: {},
+}));
+
+jest.mock('../emailTriggerService', () => ({ emailTriggerService: {} }));
+
+// Reversible stand-in for AES encryption
+jest.mock('../../utils/encryption', () => ({
+  encrypt: (value: string) => `enc:${value}`,
+  decrypt: (value: string) => value.replace(/^enc:/, ''),
+}));
+
+import { updateWebhookRegistry, maskWebhookSecrets, decryptWebhookAuth, MASKED_WEBHOOK_SECRET } from '../webhookRegistry';
+
+function definitionWithAuth(auth: Record<string, unknown>) {
+  return {
+    nodes: [{ id: 'hook', type: 'custom', position: { x: 0, y: 0 }, data: { type: 'trigger.webhook', config: { path: 'orders', auth } } }],
+    edges: [],
+  } as any;
+}
+
+describe('webhookRegistry', () => {
+  beforeEach(() => {
+    mockRegistryRows = [];
+  });
+
+  it('should store secrets encrypted and mask them in the definition', async () => {
+    const definition = definitionWithAuth({ type: 'hmac', hmac: { style: 'github', secret: 'whsec_1' } });
+
+    await updateWebhookRegistry('wf_1', definition);
+
+    expect(mockRegistryRows[0].auth).toEqual({ type: 'hmac', hmac: { style: 'github', secret: 'enc:whsec_1' }, secretsEncrypted: true });
+    expect(decryptWebhookAuth(mockRegistryRows[0].auth)).toEqual({ type: 'hmac', hmac: { style: 'github', secret: 'whsec_1' } });
+    expect(maskWebhookSecrets(definition).nodes[0].data.config.auth.hmac.secret).toBe(MASKED_WEBHOOK_SECRET);
+    expect(definition.nodes[0].data.config.auth.hmac.secret).toBe('whsec_1');
+  });
+
+  it('should keep the stored secret when the mask is saved back', async () => {
+    await updateWebhookRegistry('wf_1', definitionWithAuth({ type: 'basic', basic: { username: 'ops', password: 'pw-1' } }));
+
+    await updateWebhookRegistry('wf_1', definitionWithAuth({ type: 'basic', basic: { username: 'ops2', password: MASKED_WEBHOOK_SECRET } }));
+
+    expect(decryptWebhookAuth(mockRegistryRows[0].auth)).toEqual({ type: 'basic', basic: { username: 'ops2', password: 'pw-1' } });
+  });
+
+  it('should not carry secrets over to another workflow', async () => {
+    await updateWebhookRegistry('wf_copy', definitionWithAuth({ type: 'header', header: { name: 'X-Token', value: MASKED_WEBHOOK_SECRET } }));
+
+    expect(decryptWebhookAuth(mockRegistryRows[0].auth)?.header?.value).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for streamed node output events
+ */
+
+import { websocketService, ExecutionEvent } from '../websocketService';
+
+describe('websocketService', () => {
+  it('should deliver node chunks to in-process subscribers of the execution', () => {
+    const events: ExecutionEvent[] = [];
+    const unsubscribe = websocketService.subscribe('exec-1', (event) => events.push(event));
+    const otherExecution = jest.fn();
+    websocketService.subscribe('exec-2', otherExecution);
+
+    const stream = websocketService.createNodeChunkStream('exec-1', 'llm-1');
+    stream.write('Hel');
+    stream.write('lo');
+    unsubscribe();
+    stream.write('!');
+
+    expect(events.map((event) => [event.type, event.nodeId, event.data])).toEqual([
+      ['node_chunk', 'llm-1', { chunk: 'Hel' }],
+      ['node_chunk', 'llm-1', { chunk: 'lo' }],
+    ]);
+    expect(otherExecution).not.toHaveBeenCalled();
+  });
+
+  it('should tell clients to discard chunks of a failed attempt when it restarts', () => {
+    const events: ExecutionEvent[] = [];
+    const unsubscribe = websocketService.subscribe('exec-3', (event) => events.push(event));
+
+    const stream = websocketService.createNodeChunkStream('exec-3', 'llm-1');
+    stream.restart(); // Nothing written yet
+    stream.write('partial');
+    stream.restart();
+    stream.write('full answer');
+    unsubscribe();
+
+    expect(events.map((event) => event.data)).toEqual([
+      { chunk: 'partial' },
+      { chunk: '', reset: true },
+      { chunk: 'full answer' },
+    ]);
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Unit tests for the workflow executor (in-memory tables, stubbed queue and node executors)
+ */
+
+type MockRow = Record<string, any>;
+type MockPredicate = ((row: MockRow) => boolean) | undefined;
+
+const mockTables: Record<string, MockRow[]> = {};
+const mockQueueAdd = jest.fn().mockResolvedValue({ id: 'job_1' });
+const mockExecuteNode = jest.fn();
+const mockAcquire = jest.fn();
+const mockRelease = jest.fn().mockResolvedValue(undefined);
+const mockRedisEval = jest.fn();
+let mockBeforeUpdate: ((values: MockRow) => void) | undefined;
+
+jest.mock('drizzle-orm', () => {
+  const column = (col: any) => col.name;
+  return {
+    eq: (col: any, value: unknown) => (row: MockRow) => row[column(col)] === value,
+    ne: (col: any, value: unknown) => (row: MockRow) => row[column(col)] !== value,
+    inArray: (col: any, values: unknown[]) => (row: MockRow) => values.includes(row[column(col)]),
+    isNull: (col: any) => (row: MockRow) => row[column(col)] == null,
+    // SQL fragments are not evaluated
+    and: (...predicates: MockPredicate[]) => (row: MockRow) =>
+      predicates.every((predicate) => typeof predicate !== 'function' || predicate(row)),
+    desc: (col: any) => ({ desc: column(col) }),
+    sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ sql: strings.join('?'), values }),
+  };
+});
+
+jest.mock('../../../drizzle/schema', () => {
+  const table = (name: string, columns: string[]) =>
+    Object.fromEntries([['_name', name], ...columns.map((column) => [column, { table: name, name: column }])]);
+  return {
+    workflowExecutions: table('workflow_executions', ['id', 'workflowId', 'status', 'metadata', 'input', 'startedAt']),
+    executionLogs: table('execution_logs', ['id', 'executionId']),
+    executionSteps: table('execution_steps', ['id', 'executionId', 'nodeId', 'status', 'stepNumber']),
+    workflows: table('workflows', ['id', 'workspaceId', 'settings', 'definition']),
+    workspaces: table('workspaces', ['id', 'settings', 'organizationId']),
+  };
+});
+
+jest.mock('../../config/database', () => {
+  const rowsOf = (table: any) => (mockTables[table._name] = mockTables[table._name] || []);
+  const pick = (rows: MockRow[], fields?: Record<string, any>) =>
+    rows.map((row) =>
+      fields ? Object.fromEntries(Object.entries(fields).map(([key, col]) => [key, row[col.name]])) : { ...row }
+    );
+
+  const select = (fields?: Record<string, any>) => {
+    let table: any;
+    let predicate: MockPredicate;
+    let order: { desc: string } | undefined;
+    const run = () => {
+      const rows = rowsOf(table).filter((row) => !predicate || predicate(row));
+      if (order) rows.sort((a, b) => (b[order!.desc] || 0) - (a[order!.desc] || 0));
+      return pick(rows, fields);
+    };
+    const query: any = {
+      from: (from: any) => ((table = from), query),
+      innerJoin: () => query,
+      where: (where: MockPredicate) => ((predicate = where), query),
+      orderBy: (by: any) => ((order = by), query),
+      limit: async (count: number) => run().slice(0, count),
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return query;
+  };
+
+  const insert = (table: any) => ({
+    values: (values: MockRow) => {
+      const row = { id: `${table._name}_${rowsOf(table).length + 1}`, ...values };
+      rowsOf(table).push(row);
+      const done: any = Promise.resolve();
+      done.returning = async () => [{ ...row }];
+      return done;
+    },
+  });
+
+  const update = (table: any) => ({
+    set: (values: MockRow) => ({
+      where: (predicate: MockPredicate) => {
+        mockBeforeUpdate?.(values);
+        const matched = rowsOf(table).filter((row) => !predicate || predicate(row));
+        matched.forEach((row) => {
+          // Emulates the jsonb_set that stores a node's variable snapshot or a pause state
+          if (values.metadata?.sql?.includes('jsonb_set')) {
+            const metadata = row.metadata || {};
+            if (values.metadata.values.length === 4) {
+              const [, , nodeId, snapshot] = values.metadata.values;
+              const variableSnapshots = { ...metadata.variableSnapshots, [nodeId]: JSON.parse(snapshot) };
+              Object.assign(row, values, { metadata: { ...metadata, variableSnapshots } });
+              return;
+            }
+            const key = values.metadata.sql.match(/'\{(\w+)\}'/)[1];
+            Object.assign(row, values, { metadata: { ...metadata, [key]: JSON.parse(values.metadata.values[1]) } });
+            return;
+          }
+          Object.assign(row, values);
+        });
+        const done: any = Promise.resolve();
+        done.returning = async (fields?: Record<string, any>) => pick(matched, fields);
+        return done;
+      },
+    }),
+  });
+
+  return { db: { select, insert, update } };
+});
+
+jest.mock('../../config/redis', () => {
+  const redis = {
+    duplicate: () => ({ subscribe: async () => 1, on: () => undefined }),
+    publish: async () => 1,
+    set: async () => 'OK',
+    eval: (...args: unknown[]) => mockRedisEval(...args),
+    expire: async () => 1,
+    del: async () => 1,
+  };
+  return { __esModule: true, default: redis, redis };
+});
+
+jest.mock('bullmq', () => ({
+  Queue: jest.fn(() => ({ add: (...args: unknown[]) => mockQueueAdd(...args) })),
+  Worker: jest.fn(() => ({ on: () => undefined })),
+  DelayedError: class DelayedError extends Error {},
+}));
+
+jest.mock('../nodeExecutors', () => ({ executeNode: (context: unknown) => mockExecuteNode(context) }));
+jest.mock('../nodeExecutors/executeWorkflow', () => ({}));
+jest.mock('../nodeExecutors/wait', () => ({}));
+jest.mock('../alertService', () => ({ alertService: { checkAlerts: jest.fn() } }));
+jest.mock('../posthogService', () => ({ posthogService: { trackToolUsed: jest.fn(), trackFlowExecuted: jest.fn() } }));
+jest.mock('../errorWorkflowService', () => ({ errorWorkflowService: { trigger: jest.fn() } }));
+jest.mock('../policyEngineService', () => ({
+  policyEngineService: { evaluateNodePolicies: async () => ({ matched: false, matchedRules: [], actions: [], blocked: false }) },
+}));
+jest.mock('../websocketService', () => ({
+  websocketService: new Proxy({}, { get: () => jest.fn() }),
+}));
+jest.mock('../concurrencyService', () => ({
+  concurrencyService: {
+    acquire: (...args: unknown[]) => mockAcquire(...args),
+    release: (...args: unknown[]) => mockRelease(...args),
+    refresh: jest.fn().mockResolvedValue(undefined),
+    workflowScope: (key: string, limit: number) => ({ kind: 'workflow', key, limit }),
+    workspaceScope: (key: string, limit: number) => ({ kind: 'workspace', key, limit }),
+  },
+}));
+
+import { workflowExecutor } from '../workflowExecutor';
+
+const definition = {
+  nodes: [{ id: 'http_1', type: 'custom', position: { x: 0, y: 0 }, data: { type: 'action.http', config: {} } }],
+  edges: [],
+} as any;
+
+function execution(id: string): MockRow {
+  return mockTables.workflow_executions.find((row) => row.id === id)!;
+}
+
+describe('workflowExecutor', () => {
+  beforeEach(() => {
+    for (const name of Object.keys(mockTables)) delete mockTables[name];
+    mockTables.workflows = [{ id: 'wf_1', workspaceId: 'ws_1', settings: {}, definition }];
+    mockTables.workspaces = [{ id: 'ws_1', settings: {}, organizationId: 'org_1' }];
+    jest.clearAllMocks();
+    mockAcquire.mockResolvedValue(null);
+    mockExecuteNode.mockResolvedValue({ success: true, output: { ok: true } });
+    mockBeforeUpdate = undefined;
+    mockRedisEval.mockResolvedValue(1);
+  });
+
+  it('should record queued runs so they can be cancelled before they start', async () => {
+    const executionId = await workflowExecutor.enqueueExecution({ workflowId: 'wf_1', definition, input: { a: 1 }, userId: 'user_1' });
+
+    expect(execution(executionId)).toMatchObject({ status: 'queued', input: { a: 1 }, metadata: { userId: 'user_1' } });
+    expect(mockQueueAdd).toHaveBeenCalledWith('execute', expect.objectContaining({ executionId }), expect.anything());
+
+    await workflowExecutor.cancelExecution(executionId, 'user_1');
+    const [, job] = mockQueueAdd.mock.calls[0];
+    const result = await workflowExecutor.executeWorkflow(job, { job: { timestamp: Date.now() } as any });
+
+    expect(result).toMatchObject({ executionId, status: 'cancelled' });
+    expect(execution(executionId).status).toBe('cancelled');
+    expect(mockExecuteNode).not.toHaveBeenCalled();
+  });
+
+  it('should resume a parent waiting on a child run that is cancelled', async () => {
+    const subWorkflow = { nodeId: 'call_child', childExecutionId: 'exec_child', workflowId: 'wf_1', version: 'latest' };
+    mockTables.workflow_executions = [
+      { id: 'exec_parent', workflowId: 'wf_1', status: 'paused', metadata: { subWorkflow } },
+      { id: 'exec_child', workflowId: 'wf_1', status: 'paused', metadata: { parentExecution: { executionId: 'exec_parent', depth: 1 } } },
+    ];
+
+    await workflowExecutor.cancelExecution('exec_child', 'user_1');
+
+    expect(execution('exec_parent')).toMatchObject({
+      status: 'queued',
+      metadata: {
+        subWorkflow: { ...subWorkflow, result: { status: 'cancelled', error: 'Execution cancelled' } },
+        debugState: { resumeNodeId: 'call_child' },
+      },
+    });
+    expect(mockQueueAdd).toHaveBeenCalledWith('resume', { executionId: 'exec_parent' }, expect.anything());
+  });
+
+  it('should cancel the child run a cancelled parent waits on', async () => {
+    mockTables.workflow_executions = [
+      {
+        id: 'exec_parent',
+        workflowId: 'wf_1',
+        status: 'paused',
+        metadata: { subWorkflow: { nodeId: 'call_child', childExecutionId: 'exec_child', workflowId: 'wf_1', version: 'latest' } },
+      },
+      { id: 'exec_child', workflowId: 'wf_1', status: 'paused', metadata: { parentExecution: { executionId: 'exec_parent', depth: 1 } } },
+    ];
+
+    await workflowExecutor.cancelExecution('exec_parent', 'user_1');
+
+    expect(execution('exec_child').status).toBe('cancelled');
+    expect(execution('exec_parent').status).toBe('cancelled');
+    expect(mockQueueAdd).not.toHaveBeenCalled();
+  });
+
+  it('should report queue metrics of the caller organization only', async () => {
+    const queuedAt = new Date(Date.now() - 60 * 1000).toISOString();
+    // Joins are not evaluated: the rows carry their workspace's organization
+    mockTables.workflow_executions = [
+      { id: 'exec_1', workflowId: 'wf_1', status: 'queued', organizationId: 'org_1', metadata: { priority: 'manual', queuedAt } },
+      { id: 'exec_2', workflowId: 'wf_1', status: 'running', organizationId: 'org_1', metadata: {} },
+      { id: 'exec_3', workflowId: 'wf_2', status: 'queued', organizationId: 'org_2', metadata: {} },
+    ];
+
+    const metrics = await workflowExecutor.getQueueMetrics('org_1');
+
+    expect(metrics).toMatchObject({ depth: 1, counts: { queued: 1, running: 1 }, byPriority: { manual: 1, normal: 0 } });
+    expect(metrics.oldestWaitingMs).toBeGreaterThanOrEqual(60 * 1000);
+  });
+
+  it('should not start a run cancelled while it waited for a concurrency slot', async () => {
+    mockTables.workflows[0].settings = { concurrency: { limit: 1 } };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'queued', metadata: {} }];
+    // The cancel lands after the start checks, while the slot is taken
+    mockAcquire.mockImplementation(async () => {
+      execution('exec_1').status = 'cancelled';
+      return null;
+    });
+
+    const result = await workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition, executionId: 'exec_1' });
+
+    expect(result).toMatchObject({ executionId: 'exec_1', status: 'cancelled' });
+    expect(execution('exec_1').status).toBe('cancelled');
+    expect(mockRelease).toHaveBeenCalledWith('exec_1', [{ kind: 'workflow', key: 'wf_1', limit: 1 }]);
+    expect(mockExecuteNode).not.toHaveBeenCalled();
+  });
+
+  it('should queue a direct run that waited too long for a concurrency slot', async () => {
+    jest.useFakeTimers();
+    mockTables.workflows[0].settings = { concurrency: { limit: 1 } };
+    mockAcquire.mockResolvedValue({ kind: 'workflow', key: 'wf_1', limit: 1 });
+
+    try {
+      const run = workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition, priority: 'manual' });
+      await jest.advanceTimersByTimeAsync(31000);
+      const result = (await run) as { executionId: string; status: string };
+
+      expect(result.status).toBe('queued');
+      expect(execution(result.executionId).status).toBe('queued');
+      expect(mockQueueAdd).toHaveBeenCalledWith(
+        'execute',
+        expect.objectContaining({ workflowId: 'wf_1', executionId: result.executionId }),
+        { priority: 1 }
+      );
+      expect(mockExecuteNode).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should run a queued run that was not cancelled', async () => {
+    const executionId = await workflowExecutor.enqueueExecution({ workflowId: 'wf_1', definition });
+    const [, job] = mockQueueAdd.mock.calls[0];
+
+    await workflowExecutor.executeWorkflow(job);
+
+    expect(mockExecuteNode).toHaveBeenCalledTimes(1);
+    expect(execution(executionId).status).toBe('completed');
+  });
+
+  it('should not free the lease and slots of an attempt that took over the run', async () => {
+    mockTables.workflows[0].settings = { concurrency: { limit: 1 } };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'queued', metadata: {} }];
+    // A resumed attempt replaced this attempt's lease token
+    mockRedisEval.mockResolvedValue(0);
+
+    await workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition, executionId: 'exec_1' });
+
+    expect(mockRedisEval).toHaveBeenCalledWith(expect.stringContaining("redis.call('del'"), 1, 'execution:exec_1:lease', expect.any(String));
+    expect(mockRelease).not.toHaveBeenCalled();
+  });
+
+  it('should keep the pause state of a parallel branch when storing variable snapshots', async () => {
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'queued', metadata: {} }];
+    // A sibling branch pauses between this node finishing and its snapshot being stored
+    mockBeforeUpdate = (values) => {
+      if (!values.metadata?.sql && !values.metadata?.variableSnapshots) return;
+      const row = execution('exec_1');
+      row.metadata = { ...row.metadata, wait: { id: 'w1', nodeId: 'wait_1', mode: 'event' } };
+      mockBeforeUpdate = undefined;
+    };
+
+    await workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition, executionId: 'exec_1' });
+
+    expect(execution('exec_1').metadata.wait).toEqual({ id: 'w1', nodeId: 'wait_1', mode: 'event' });
+    expect(execution('exec_1').metadata.variableSnapshots.http_1).toMatchObject({ nodeId: 'http_1', output: { ok: true } });
+  });
+
+  it('should keep the pause state of a parallel branch when pausing at a breakpoint', async () => {
+    const breakpointDefinition = {
+      ...definition,
+      nodes: [{ ...definition.nodes[0], data: { ...definition.nodes[0].data, breakpoint: true } }],
+    };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'queued', metadata: {} }];
+    // A sibling branch pauses between the breakpoint check and the pause being stored
+    mockBeforeUpdate = (values) => {
+      if (values.status !== 'paused') return;
+      const row = execution('exec_1');
+      row.metadata = { ...row.metadata, wait: { id: 'w1', nodeId: 'wait_1', mode: 'event' } };
+      mockBeforeUpdate = undefined;
+    };
+
+    const result = await workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition: breakpointDefinition, executionId: 'exec_1' });
+
+    expect(result).toMatchObject({ status: 'paused', reason: 'breakpoint' });
+    expect(execution('exec_1').metadata.wait).toEqual({ id: 'w1', nodeId: 'wait_1', mode: 'event' });
+    expect(execution('exec_1').metadata.debugState).toMatchObject({ currentNodeId: 'http_1' });
+  });
+
+  it('should resume an unanswered human prompt as expired', async () => {
+    const humanPrompt = { id: 'prompt_a', nodeId: 'prompt_1' };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'paused', metadata: { humanPrompt } }];
+
+    expect(await workflowExecutor.expirePrompt('exec_1', 'prompt_a')).toBe(true);
+
+    expect(execution('exec_1').status).toBe('queued');
+    expect(execution('exec_1').metadata).toMatchObject({
+      humanPrompt: { ...humanPrompt, expired: true },
+      debugState: { resumeNodeId: 'prompt_1' },
+    });
+    expect(mockQueueAdd).toHaveBeenCalledWith('resume', { executionId: 'exec_1' }, expect.objectContaining({ jobId: 'resume:exec_1:1' }));
+  });
+
+  it('should not recover resumed runs still waiting in the queue', async () => {
+    mockTables.workflow_executions = [
+      { id: 'exec_1', workflowId: 'wf_1', status: 'paused', metadata: { humanPrompt: { id: 'prompt_a', nodeId: 'prompt_1' }, priority: 'manual' } },
+      { id: 'exec_2', workflowId: 'wf_1', status: 'running', metadata: { resumeCount: 1 } },
+    ];
+    await workflowExecutor.expirePrompt('exec_1', 'prompt_a');
+
+    expect(await workflowExecutor.recoverExecutions()).toBe(1);
+
+    expect(mockQueueAdd).toHaveBeenCalledTimes(2);
+    expect(mockQueueAdd).toHaveBeenCalledWith('resume', { executionId: 'exec_1' }, expect.objectContaining({ priority: 1 }));
+    expect(mockQueueAdd).toHaveBeenCalledWith('resume', { executionId: 'exec_2' }, expect.objectContaining({ jobId: 'resume:exec_2:2' }));
+    expect(execution('exec_2').status).toBe('queued');
+  });
+
+  it('should ignore the expiry of a prompt that was answered or replaced', async () => {
+    mockTables.workflow_executions = [
+      {
+        id: 'exec_1',
+        workflowId: 'wf_1',
+        status: 'paused',
+        metadata: { humanPrompt: { id: 'prompt_a', nodeId: 'prompt_1' }, humanPromptResponses: { prompt_1: { ok: true } } },
+      },
+    ];
+
+    expect(await workflowExecutor.expirePrompt('exec_1', 'prompt_a')).toBe(false);
+    expect(await workflowExecutor.expirePrompt('exec_1', 'prompt_old')).toBe(false);
+    expect(execution('exec_1').status).toBe('paused');
+    expect(mockQueueAdd).not.toHaveBeenCalled();
+  });
+
+  it('should only deliver events that carry the wait secret', async () => {
+    const wait = { id: 'w1', nodeId: 'wait_1', mode: 'event', correlationKey: 'approval-42', secret: 'token-1' };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'paused', metadata: { wait } }];
+
+    expect(await workflowExecutor.deliverWaitEvent('approval-42', { approved: true }, 'token-2')).toEqual([]);
+    expect(await workflowExecutor.deliverWaitEvent('approval-42', { approved: true }, 'token')).toEqual([]);
+    expect(execution('exec_1').status).toBe('paused');
+
+    expect(await workflowExecutor.deliverWaitEvent('approval-42', { approved: true }, 'token-1')).toEqual(['exec_1']);
+    expect(execution('exec_1').status).toBe('queued');
+    expect(execution('exec_1').metadata.wait.event).toEqual({ approved: true });
+  });
+
+  it('should not deliver events to waits without a secret', async () => {
+    const wait = { id: 'w1', nodeId: 'wait_1', mode: 'event', correlationKey: 'approval-42' };
+    mockTables.workflow_executions = [{ id: 'exec_1', workflowId: 'wf_1', status: 'paused', metadata: { wait } }];
+
+    expect(await workflowExecutor.deliverWaitEvent('approval-42', {}, '')).toEqual([]);
+    expect(execution('exec_1').status).toBe('paused');
+  });
+
+  it('should restrict nodes to private models when the parent run is', async () => {
+    mockTables.workflow_executions = [{ id: 'exec_child', workflowId: 'wf_1', status: 'queued', metadata: {} }];
+
+    await workflowExecutor.executeWorkflow({ workflowId: 'wf_1', definition, executionId: 'exec_child', privateLlmOnly: true });
+
+    expect(mockExecuteNode).toHaveBeenCalledWith(expect.objectContaining({ privateLlmOnly: true }));
+    expect(execution('exec_child').metadata.privateLlmOnly).toBe(true);
+  });
+});
@@ -0,0 +1,219 @@
+import { WorkflowDefinition, WorkflowNode } from '@sos/shared';
+import { planWorkflow, runExecutionPlan, NodeCompletion, ExecutionPlan } from '../workflowGraph';
+
+function node(id: string, type = 'action.http'): WorkflowNode {
+  return { id, type: 'custom', position: { x: 0, y: 0 }, data: { type } };
+}
+
+function edge(source: string, target: string, sourceHandle?: string) {
+  return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+function definition(nodes: WorkflowNode[], edges: ReturnType<typeof edge>[]): WorkflowDefinition {
+  return { nodes, edges };
+}
+
+/**
+ * Run a plan where every node fires all of its edges with `{ [nodeId]: true }`
+ */
+async function run(
+  plan: ExecutionPlan,
+  options: { concurrency?: number; complete?: (node: WorkflowNode) => Partial<NodeCompletion> } = {}
+) {
+  const inputs: Record<string, Record<string, unknown>> = {};
+  const started: string[] = [];
+  const ran = await runExecutionPlan(plan, {
+    scope: plan.mainScope,
+    startNodeIds: plan.startNodeIds,
+    input: { start: true },
+    concurrency: options.concurrency ?? 5,
+    runNode: async (n, input) => {
+      started.push(n.id);
+      inputs[n.id] = input;
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return {
+        activeEdges: plan.outgoing.get(n.id) || [],
+        payload: { [n.id]: true },
+        ...options.complete?.(n),
+      };
+    },
+  });
+  return { ran, inputs, started };
+}
+
+describe('Workflow Graph', () => {
+  describe('planWorkflow', () => {
+    it('should order nodes topologically and start from triggers', () => {
+      const plan = planWorkflow(
+        definition(
+          [node('join'), node('b'), node('a'), node('trigger', 'trigger.manual')],
+          [edge('trigger', 'a'), edge('trigger', 'b'), edge('a', 'join'), edge('b', 'join')]
+        )
+      );
+
+      expect(plan.issues).toEqual([]);
+      expect(plan.startNodeIds).toEqual(['trigger']);
+      expect(plan.order).toEqual(['trigger', 'b', 'a', 'join']);
+    });
+
+    it('should report cycles as errors', () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('a'), node('b')], [
+          edge('trigger', 'a'),
+          edge('a', 'b'),
+          edge('b', 'a'),
+        ])
+      );
+
+      expect(plan.issues).toEqual([
+        expect.objectContaining({ code: 'cycle', severity: 'error', nodeIds: ['a', 'b'] }),
+      ]);
+    });
+
+    it('should warn about orphan and unreachable nodes and leave them out of the run', () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('a'), node('orphan'), node('x'), node('y')], [
+          edge('trigger', 'a'),
+          edge('x', 'y'),
+        ])
+      );
+
+      expect(plan.issues.map((issue) => [issue.code, issue.nodeIds])).toEqual([
+        ['orphan_node', ['orphan']],
+        ['unreachable_node', ['x', 'y']],
+      ]);
+      expect(plan.skippedNodeIds).toEqual(['orphan', 'x', 'y']);
+      expect([...plan.mainScope]).toEqual(['trigger', 'a']);
+    });
+
+    it('should separate loop bodies and allow edges back to the loop node', () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('loop', 'logic.loop.foreach'), node('body'), node('after')], [
+          edge('trigger', 'loop'),
+          edge('loop', 'body'),
+          edge('body', 'loop'),
+          edge('loop', 'after'),
+        ])
+      );
+
+      expect(plan.issues).toEqual([]);
+      expect([...plan.loopBodies.get('loop')!.nodeIds]).toEqual(['body']);
+      expect([...plan.mainScope]).toEqual(['trigger', 'loop', 'after']);
+    });
+  });
+
+  describe('runExecutionPlan', () => {
+    it('should run a join once, after all of its inputs, with inputs merged in order', async () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('a'), node('b'), node('join')], [
+          edge('trigger', 'a'),
+          edge('trigger', 'b'),
+          edge('a', 'join'),
+          edge('b', 'join'),
+        ])
+      );
+
+      const { ran, inputs, started } = await run(plan);
+
+      expect(ran).toEqual(['trigger', 'a', 'b', 'join']);
+      expect(started.filter((id) => id === 'join')).toHaveLength(1);
+      expect(started.indexOf('join')).toBe(3);
+      expect(Object.keys(inputs.join)).toEqual(['a', 'b']);
+    });
+
+    it('should skip branches that were not taken and still run joins below them', async () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('if', 'logic.if'), node('yes'), node('no'), node('join')], [
+          edge('trigger', 'if'),
+          edge('if', 'yes', 'true'),
+          edge('if', 'no', 'false'),
+          edge('yes', 'join'),
+          edge('no', 'join'),
+        ])
+      );
+
+      const { ran, inputs } = await run(plan, {
+        complete: (n) =>
+          n.id === 'if' ? { activeEdges: plan.outgoing.get('if')!.filter((e) => e.sourceHandle === 'true') } : {},
+      });
+
+      expect(ran).toEqual(['trigger', 'if', 'yes', 'join']);
+      expect(inputs.join).toEqual({ yes: true });
+    });
+
+    it('should respect the concurrency cap', async () => {
+      const branches = ['a', 'b', 'c', 'd'];
+      const plan = planWorkflow(
+        definition(
+          [node('trigger', 'trigger.manual'), ...branches.map((id) => node(id))],
+          branches.map((id) => edge('trigger', id))
+        )
+      );
+
+      let active = 0;
+      let maxActive = 0;
+      await runExecutionPlan(plan, {
+        scope: plan.mainScope,
+        startNodeIds: plan.startNodeIds,
+        input: {},
+        concurrency: 2,
+        runNode: async (n) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return { activeEdges: plan.outgoing.get(n.id) || [], payload: {} };
+        },
+      });
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should replay checkpointed nodes without running them again', async () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('a'), node('b')], [edge('trigger', 'a'), edge('a', 'b')])
+      );
+      const started: string[] = [];
+      const inputs: Record<string, Record<string, unknown>> = {};
+
+      const ran = await runExecutionPlan(plan, {
+        scope: plan.mainScope,
+        startNodeIds: plan.startNodeIds,
+        input: {},
+        concurrency: 5,
+        checkpoints: new Map([
+          ['trigger', { activeEdges: plan.outgoing.get('trigger')!, payload: { trigger: true } }],
+          ['a', { activeEdges: plan.outgoing.get('a')!, payload: { a: 'saved' } }],
+        ]),
+        runNode: async (n, input) => {
+          started.push(n.id);
+          inputs[n.id] = input;
+          return { activeEdges: plan.outgoing.get(n.id) || [], payload: {} };
+        },
+      });
+
+      expect(ran).toEqual(['trigger', 'a', 'b']);
+      expect(started).toEqual(['b']);
+      expect(inputs.b).toEqual({ a: 'saved' });
+    });
+
+    it('should stop scheduling and rethrow when a node throws', async () => {
+      const plan = planWorkflow(
+        definition([node('trigger', 'trigger.manual'), node('a'), node('b')], [edge('trigger', 'a'), edge('a', 'b')])
+      );
+
+      await expect(
+        runExecutionPlan(plan, {
+          scope: plan.mainScope,
+          startNodeIds: plan.startNodeIds,
+          input: {},
+          concurrency: 1,
+          runNode: async (n) => {
+            if (n.id === 'a') throw new Error('boom');
+            return { activeEdges: plan.outgoing.get(n.id) || [], payload: {} };
+          },
+        })
+      ).rejects.toThrow('boom');
+    });
+  });
+});
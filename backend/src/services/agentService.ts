@@ -3,7 +3,7 @@ import { ChatAnthropic } from "@langchain/anthropic";
 import { StateGraph, END, START, Annotation } from "@langchain/langgraph";
 import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts";
 import { BaseMessage, HumanMessage, AIMessage } from "@langchain/core/messages";
-import { langchainService } from "./langchainService";
+import { langchainService, LLMConfig } from "./langchainService";
 import { langtoolsService } from "./langtoolsService";
 import { Tool } from "@langchain/core/tools";
 
@@ -24,7 +24,9 @@ export type AgentType = 'react' | 'plan-and-execute' | 'zero-shot-react-descript
 
 export interface AgentConfig {
   type?: AgentType;
-  provider?: 'openai' | 'anthropic';
+  provider?: 'openai' | 'anthropic' | 'openai_compatible';
+  providerId?: string; // Organization LLM provider for 'openai_compatible'
+  organizationId?: string | null;
   model?: string;
   temperature?: number;
   maxIterations?: number;
@@ -35,6 +37,8 @@ export interface AgentConfig {
   tools?: string[]; // Tool names to make available to agent
   memoryType?: 'buffer' | 'summary' | 'none';
   memoryMaxTokenLimit?: number;
+  promptId?: string; // Prompt library version the system prompt came from
+  promptVersionId?: string;
 }
 
 export interface AgentResponse {
@@ -218,13 +222,23 @@ export class AgentService {
     } = config;
 
     // Get LLM
-    const llm = await this.getLLM(provider, model, temperature);
+    const llmConfig: LLMConfig = {
+      provider,
+      model,
+      temperature,
+      providerId: config.providerId,
+      organizationId: config.organizationId,
+    };
+    const llm = await this.getLLM(llmConfig);
 
     // Get tools (async now to support connector tools)
     const availableTools = await this.getTools(tools);
 
     // Create ReAct agent graph
-    const graph = this.createReActAgentGraph(llm, availableTools, systemPrompt);
+    const graph = this.createReActAgentGraph(llmConfig, availableTools, systemPrompt, {
+      promptId: config.promptId,
+      promptVersionId: config.promptVersionId,
+    });
 
     // Create executor
     const executor = new AgentExecutor({
@@ -382,30 +396,15 @@ export class AgentService {
 
   // Private helper methods
 
-  private async getLLM(
-    provider: 'openai' | 'anthropic',
-    model: string,
-    temperature: number
-  ): Promise<ChatOpenAI | ChatAnthropic> {
-    if (provider === 'openai') {
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OPENAI_API_KEY is required for OpenAI provider');
-      }
-      return new ChatOpenAI({
-        modelName: model,
-        temperature,
-        openAIApiKey: process.env.OPENAI_API_KEY,
-      });
-    } else {
-      if (!process.env.ANTHROPIC_API_KEY) {
-        throw new Error('ANTHROPIC_API_KEY is required for Anthropic provider');
-      }
-      return new ChatAnthropic({
-        modelName: model,
-        temperature,
-        anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-      });
+  private async getLLM(config: LLMConfig): Promise<ChatOpenAI | ChatAnthropic> {
+    if (config.provider === 'openai' && !process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is required for OpenAI provider');
     }
+    if (config.provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY is required for Anthropic provider');
+    }
+    const { llm } = await langchainService.createChatModel(config);
+    return llm;
   }
 
   private async getTools(toolNames: string[]): Promise<Tool[]> {
@@ -477,9 +476,10 @@ export class AgentService {
    * Create a ReAct agent graph using LangGraph
    */
   private createReActAgentGraph(
-    llm: ChatOpenAI | ChatAnthropic,
+    llmConfig: LLMConfig,
     tools: Tool[],
-    systemPrompt?: string
+    systemPrompt?: string,
+    promptUsage: Pick<AgentConfig, 'promptId' | 'promptVersionId'> = {}
   ): StateGraph<any> {
     // Define state annotation
     const StateAnnotation = Annotation.Root({
@@ -535,12 +535,10 @@ Question: ${query}
 Thought:`;
 
       // Get LLM response
+      // Same provider as the agent's model, so custom endpoints never fall back to OpenAI
       const response = await langchainService.generateText(
         prompt,
-        {
-          provider: llm instanceof ChatOpenAI ? 'openai' : 'anthropic',
-          model: (llm as any).modelName || 'gpt-4',
-        }
+        { provider: llmConfig.provider, model: llmConfig.model, providerId: llmConfig.providerId, organizationId: llmConfig.organizationId }
       );
 
       // Log cost for agent LLM call
@@ -548,8 +546,8 @@ Thought:`;
       const tokenUsage = response.metadata as any;
       if (tokenUsage?.tokenUsage || response.tokensUsed) {
         await costLoggingService.logFromTokenUsage(
-          llm instanceof ChatOpenAI ? 'openai' : 'anthropic',
-          (llm as any).modelName || 'gpt-4',
+          llmConfig.provider,
+          llmConfig.model,
           {
             promptTokens: tokenUsage?.tokenUsage?.promptTokens,
             completionTokens: tokenUsage?.tokenUsage?.completionTokens,
@@ -560,9 +558,13 @@ Thought:`;
           {
             userId: undefined, // Agent calls may not have user context
             agentId: undefined, // Could be enhanced to track agent ID
+            organizationId: llmConfig.organizationId,
+            promptId: promptUsage.promptId,
+            promptVersionId: promptUsage.promptVersionId,
             prompt: prompt.length > 1000 ? prompt.substring(0, 1000) + '...' : prompt,
             response: response.content.length > 1000 ? response.content.substring(0, 1000) + '...' : response.content,
-          }
+          },
+          tokenUsage?.pricing
         );
       }
 
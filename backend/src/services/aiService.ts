@@ -1,14 +1,16 @@
-import { langchainService, LLMConfig, LLMResponse } from './langchainService';
+import { langchainService, LLMConfig, LLMResponse, EmbeddingConfig } from './langchainService';
 
 // Keep existing interfaces for backward compatibility
 export interface LLMRequest {
   prompt: string;
   config: LLMConfig;
   variables?: Record<string, unknown>;
+  signal?: AbortSignal; // Aborts the provider request
+  onToken?: (token: string) => void; // Streams the completion token by token
 }
 
 // Re-export types for backward compatibility
-export type { LLMConfig, LLMResponse };
+export type { LLMConfig, LLMResponse, EmbeddingConfig };
 
 /**
  * AI Service - Now uses LangChain under the hood
@@ -22,15 +24,17 @@ export class AIService {
     return await langchainService.generateText(
       request.prompt,
       request.config,
-      request.variables
+      request.variables,
+      request.signal,
+      request.onToken
     );
   }
 
   /**
    * Generate embedding - Now uses LangChain under the hood
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    return await langchainService.generateEmbedding(text);
+  async generateEmbedding(text: string, config?: EmbeddingConfig): Promise<number[]> {
+    return await langchainService.generateEmbedding(text, config);
   }
 }
 
@@ -13,7 +13,7 @@ import nodemailer from 'nodemailer';
 import axios from 'axios';
 
 export interface AlertCondition {
-  metric: string; // 'failure_rate', 'execution_time', 'error_count', 'usage_count'
+  metric: string; // 'failure_rate', 'execution_time', 'error_count', 'usage_count', 'credential_broken'
   operator: '>' | '<' | '>=' | '<=' | '==';
   threshold: number;
   timeWindow?: number; // minutes
@@ -323,6 +323,139 @@ export class AlertService {
       .returning();
 
     // Send notifications
+    const sentChannels = await this.sendNotifications(alert, {
+      subject: `Alert: ${alert.name}`,
+      html: `
+              <h2>Alert Triggered: ${alert.name}</h2>
+              <p><strong>Message:</strong> ${message}</p>
+              <p><strong>Workflow:</strong> ${execution.workflowId}</p>
+              <p><strong>Execution ID:</strong> ${executionId}</p>
+              <p><strong>Time:</strong> ${new Date().toISOString()}</p>
+            `,
+      slackText: `*Alert Triggered: ${alert.name}*\n${message}\n\n*Workflow:* ${execution.workflowId}\n*Execution ID:* ${executionId}`,
+      webhookPayload: {
+        alert: {
+          id: alert.id,
+          name: alert.name,
+          type: alert.type,
+        },
+        execution: {
+          id: executionId,
+          workflowId: execution.workflowId,
+          status: execution.status,
+        },
+        message,
+        triggeredAt: new Date().toISOString(),
+      },
+    });
+
+    // Update alert history
+    await db
+      .update(alertHistory)
+      .set({
+        notificationSent: true,
+        notificationChannels: sentChannels as any,
+      })
+      .where(eq(alertHistory.id, history.id));
+
+    // Update alert last triggered time
+    await db
+      .update(alerts)
+      .set({
+        lastTriggeredAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(alerts.id, alertId));
+  }
+
+  /**
+   * Fire the organization's credential alerts (conditions with metric
+   * 'credential_broken') when a connector credential needs a reconnect
+   */
+  async triggerCredentialAlerts(
+    organizationId: string,
+    details: { credentialId: string; connectorId: string; userId: string; error: string }
+  ): Promise<void> {
+    const activeAlerts = await db
+      .select()
+      .from(alerts)
+      .where(
+        and(
+          eq(alerts.organizationId, organizationId),
+          eq(alerts.enabled, true),
+          eq(alerts.status, 'active')
+        )
+      );
+
+    const message = `Connector ${details.connectorId} credentials need to be reconnected: ${details.error}`;
+
+    for (const alert of activeAlerts) {
+      const conditions = alert.conditions as AlertCondition[];
+      if (!conditions.some((condition) => condition.metric === 'credential_broken')) {
+        continue;
+      }
+
+      if (alert.lastTriggeredAt) {
+        const cooldownMs = (alert.cooldownMinutes || 60) * 60 * 1000;
+        if (Date.now() - new Date(alert.lastTriggeredAt).getTime() < cooldownMs) {
+          continue;
+        }
+      }
+
+      const [history] = await db
+        .insert(alertHistory)
+        .values({
+          alertId: alert.id,
+          message,
+          details: details as any,
+          notificationSent: false,
+        })
+        .returning();
+
+      const sentChannels = await this.sendNotifications(alert, {
+        subject: `Alert: ${alert.name}`,
+        html: `
+              <h2>Alert Triggered: ${alert.name}</h2>
+              <p><strong>Message:</strong> ${message}</p>
+              <p><strong>Connector:</strong> ${details.connectorId}</p>
+              <p><strong>Credential ID:</strong> ${details.credentialId}</p>
+              <p><strong>Time:</strong> ${new Date().toISOString()}</p>
+            `,
+        slackText: `*Alert Triggered: ${alert.name}*\n${message}\n\n*Connector:* ${details.connectorId}\n*Credential ID:* ${details.credentialId}`,
+        webhookPayload: {
+          alert: {
+            id: alert.id,
+            name: alert.name,
+            type: alert.type,
+          },
+          credential: details,
+          message,
+          triggeredAt: new Date().toISOString(),
+        },
+      });
+
+      await db
+        .update(alertHistory)
+        .set({
+          notificationSent: true,
+          notificationChannels: sentChannels as any,
+        })
+        .where(eq(alertHistory.id, history.id));
+
+      await db
+        .update(alerts)
+        .set({
+          lastTriggeredAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(alerts.id, alert.id));
+    }
+  }
+
+  private async sendNotifications(
+    alert: { name: string; notificationChannels: unknown },
+    content: { subject: string; html: string; slackText: string; webhookPayload: Record<string, unknown> }
+  ): Promise<string[]> {
     const channels = alert.notificationChannels as NotificationChannel[];
     const sentChannels: string[] = [];
 
@@ -332,14 +465,8 @@ export class AlertService {
           await this.emailTransporter.sendMail({
             from: process.env.SMTP_FROM || 'noreply@sos-platform.com',
             to: channel.config.email,
-            subject: `Alert: ${alert.name}`,
-            html: `
-              <h2>Alert Triggered: ${alert.name}</h2>
-              <p><strong>Message:</strong> ${message}</p>
-              <p><strong>Workflow:</strong> ${execution.workflowId}</p>
-              <p><strong>Execution ID:</strong> ${executionId}</p>
-              <p><strong>Time:</strong> ${new Date().toISOString()}</p>
-            `,
+            subject: content.subject,
+            html: content.html,
           });
           sentChannels.push('email');
         } else if (channel.type === 'slack' && channel.config.slackWebhookUrl) {
@@ -350,27 +477,14 @@ export class AlertService {
                 type: 'section',
                 text: {
                   type: 'mrkdwn',
-                  text: `*Alert Triggered: ${alert.name}*\n${message}\n\n*Workflow:* ${execution.workflowId}\n*Execution ID:* ${executionId}`,
+                  text: content.slackText,
                 },
               },
             ],
           });
           sentChannels.push('slack');
         } else if (channel.type === 'webhook' && channel.config.webhookUrl) {
-          await axios.post(channel.config.webhookUrl, {
-            alert: {
-              id: alert.id,
-              name: alert.name,
-              type: alert.type,
-            },
-            execution: {
-              id: executionId,
-              workflowId: execution.workflowId,
-              status: execution.status,
-            },
-            message,
-            triggeredAt: new Date().toISOString(),
-          });
+          await axios.post(channel.config.webhookUrl, content.webhookPayload);
           sentChannels.push('webhook');
         }
       } catch (error) {
@@ -378,23 +492,7 @@ export class AlertService {
       }
     }
 
-    // Update alert history
-    await db
-      .update(alertHistory)
-      .set({
-        notificationSent: true,
-        notificationChannels: sentChannels as any,
-      })
-      .where(eq(alertHistory.id, history.id));
-
-    // Update alert last triggered time
-    await db
-      .update(alerts)
-      .set({
-        lastTriggeredAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(alerts.id, alertId));
+    return sentChannels;
   }
 
   async getAlertHistory(alertId: string, limit = 50) {
@@ -0,0 +1,169 @@
+/**
+ * API Key Service
+ *
+ * Machine authentication for the public REST API (CI pipelines, scripts).
+ * Keys are stored as SHA-256 hashes with a short visible prefix; the full key
+ * is only returned when it is created or rotated.
+ *
+ * Features:
+ * - Key generation, hashing and lookup
+ * - Expiry and last-used tracking
+ * - Scoped permissions (see permissionService.apiKeyScopeAllows)
+ * - Per-key rate limits through rateLimitService
+ * - Allowlist of endpoints reachable with a key
+ */
+
+import * as crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db, apiKeys, organizationMembers } from '../config/database';
+import { rateLimitService, RateLimitResult } from './rateLimitService';
+import { ApiKeyScopes, Permission } from './permissionService';
+
+export const API_KEY_PREFIX = 'sos_';
+export const DEFAULT_API_KEY_RATE_LIMIT = 60; // Requests per minute
+const VISIBLE_PREFIX_LENGTH = 12;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoid a write on every request
+
+/**
+ * A verified key, attached to the request as req.apiKey
+ */
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  userId: string;
+  organizationId: string;
+  scopes: ApiKeyScopes | null;
+  rateLimitPerMinute: number;
+}
+
+export interface ApiKeyVerification {
+  apiKey?: AuthenticatedApiKey;
+  error?: string; // Set when the key is rejected
+}
+
+interface ApiKeyEndpoint {
+  method: string;
+  path: RegExp;
+  permission: Permission;
+}
+
+/**
+ * Endpoints that accept API keys (paths relative to /api/v1). Everything else
+ * still requires a user session.
+ */
+const API_KEY_ENDPOINTS: ApiKeyEndpoint[] = [
+  { method: 'GET', path: /^\/workflows\/?$/, permission: { resourceType: 'workflow', action: 'read' } },
+  { method: 'GET', path: /^\/workflows\/[^/]+\/?$/, permission: { resourceType: 'workflow', action: 'read' } },
+  { method: 'POST', path: /^\/executions\/execute\/?$/, permission: { resourceType: 'workflow', action: 'execute' } },
+  { method: 'GET', path: /^\/executions\/workflow\/[^/]+\/?$/, permission: { resourceType: 'execution', action: 'read' } },
+  { method: 'GET', path: /^\/executions\/[^/]+(\/steps(\/[^/]+)?)?\/?$/, permission: { resourceType: 'execution', action: 'read' } },
+  { method: 'POST', path: /^\/executions\/[^/]+\/cancel\/?$/, permission: { resourceType: 'workflow', action: 'execute' } },
+];
+
+/**
+ * Generate a new plaintext key
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, VISIBLE_PREFIX_LENGTH);
+}
+
+/**
+ * Whether a bearer token looks like an API key rather than a session JWT
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Find the permission an API-key request to this endpoint needs,
+ * or undefined if the endpoint does not accept API keys
+ */
+export function getApiKeyEndpointPermission(method: string, url: string): Permission | undefined {
+  const path = url.split('?')[0].replace(/^\/api\/v1/, '');
+  return API_KEY_ENDPOINTS.find((endpoint) => endpoint.method === method.toUpperCase() && endpoint.path.test(path))?.permission;
+}
+
+export class ApiKeyService {
+  /**
+   * Look up a key by hash, reject unknown and expired keys, and resolve the
+   * organization it acts in (its own, or the owner's first organization)
+   */
+  async verify(key: string): Promise<ApiKeyVerification> {
+    const [record] = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyHash, hashApiKey(key)))
+      .limit(1);
+
+    if (!record || !record.userId) {
+      return { error: 'Invalid API key' };
+    }
+
+    if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      return { error: 'API key expired' };
+    }
+
+    let organizationId = record.organizationId;
+    if (!organizationId) {
+      const [membership] = await db
+        .select({ organizationId: organizationMembers.organizationId })
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, record.userId))
+        .limit(1);
+      organizationId = membership?.organizationId ?? null;
+    }
+
+    if (!organizationId) {
+      return { error: 'API key owner has no organization' };
+    }
+
+    this.touch(record.id, record.lastUsedAt);
+
+    return {
+      apiKey: {
+        id: record.id,
+        name: record.name,
+        keyPrefix: record.keyPrefix,
+        userId: record.userId,
+        organizationId,
+        scopes: record.permissions ?? null,
+        rateLimitPerMinute: record.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+      },
+    };
+  }
+
+  /**
+   * Count a request against the key's per-minute limit
+   */
+  async checkRateLimit(apiKey: AuthenticatedApiKey): Promise<RateLimitResult> {
+    return rateLimitService.checkRateLimit(
+      { windowMs: 60 * 1000, maxRequests: apiKey.rateLimitPerMinute, keyPrefix: 'rl:apikey' },
+      { identifier: apiKey.id }
+    );
+  }
+
+  /**
+   * Record usage without blocking the request
+   */
+  private touch(id: string, lastUsedAt: Date | null): void {
+    if (lastUsedAt && Date.now() - lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) {
+      return;
+    }
+
+    db.update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, id))
+      .catch((error: unknown) => console.error('Failed to update API key lastUsedAt:', error));
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
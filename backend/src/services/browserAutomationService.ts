@@ -40,6 +40,8 @@ export interface BrowserActionConfig {
   useProxy?: boolean;
   // Stealth options
   stealth?: StealthConfig;
+  // Closes the page (failing the pending action) when aborted
+  signal?: AbortSignal;
 }
 
 export interface BrowserActionResult {
@@ -77,6 +79,9 @@ export class BrowserAutomationService {
     const startTime = Date.now();
     let session: BrowserSession | null = null;
     let page: Page | PuppeteerPage | null = null;
+    const closeOnAbort = () => {
+      page?.close().catch(() => undefined);
+    };
 
     try {
       // Route to optimal engine
@@ -153,6 +158,9 @@ export class BrowserAutomationService {
         }
       }
 
+      config.signal?.throwIfAborted();
+      config.signal?.addEventListener('abort', closeOnAbort, { once: true });
+
       // Execute action based on type
       let result: BrowserActionResult;
 
@@ -253,6 +261,8 @@ export class BrowserAutomationService {
         },
       };
     } finally {
+      config.signal?.removeEventListener('abort', closeOnAbort);
+
       // Close page but keep browser in pool
       if (page) {
         try {
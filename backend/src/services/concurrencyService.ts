@@ -0,0 +1,100 @@
+import redis from '../config/redis';
+
+/**
+ * A concurrency limit on running executions, e.g. one workflow or one workspace
+ */
+export interface ConcurrencyScope {
+  kind: 'workflow' | 'workspace';
+  key: string;
+  limit: number;
+}
+
+// Takes a slot in every scope or none. Expired slots (their holder died
+// without releasing) are dropped first; an execution that already holds a
+// slot in a scope (recovered or resumed run) keeps it.
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local expiresAt = tonumber(ARGV[2])
+local member = ARGV[3]
+for i, key in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+  if not redis.call('ZSCORE', key, member) and redis.call('ZCARD', key) >= tonumber(ARGV[3 + i]) then
+    return i
+  end
+end
+for _, key in ipairs(KEYS) do
+  redis.call('ZADD', key, expiresAt, member)
+end
+return 0
+`;
+
+/**
+ * Concurrency Service
+ *
+ * Tracks running executions per scope in Redis sorted sets (member: execution
+ * ID, score: slot expiry), so limits hold across all worker instances. Slots
+ * expire unless refreshed, which frees them when a worker crashes.
+ */
+export class ConcurrencyService {
+  /**
+   * Scope limiting the concurrent runs of one workflow
+   */
+  workflowScope(workflowId: string, limit: number): ConcurrencyScope {
+    return { kind: 'workflow', key: `concurrency:workflow:${workflowId}`, limit };
+  }
+
+  /**
+   * Scope limiting the concurrent runs of all workflows in a workspace
+   */
+  workspaceScope(workspaceId: string, limit: number): ConcurrencyScope {
+    return { kind: 'workspace', key: `concurrency:workspace:${workspaceId}`, limit };
+  }
+
+  /**
+   * Take a slot for an execution in all scopes. Returns null once the slots
+   * are held; when a scope is full no slot is taken and that scope is returned.
+   */
+  async acquire(executionId: string, scopes: ConcurrencyScope[], ttlMs: number): Promise<ConcurrencyScope | null> {
+    if (scopes.length === 0) {
+      return null;
+    }
+
+    const now = Date.now();
+    const fullScope = (await redis.eval(
+      ACQUIRE_SCRIPT,
+      scopes.length,
+      ...scopes.map((scope) => scope.key),
+      now,
+      now + ttlMs,
+      executionId,
+      ...scopes.map((scope) => scope.limit)
+    )) as number;
+
+    return fullScope === 0 ? null : scopes[fullScope - 1];
+  }
+
+  /**
+   * Extend the slots an execution holds
+   */
+  async refresh(executionId: string, scopes: ConcurrencyScope[], ttlMs: number): Promise<void> {
+    const expiresAt = Date.now() + ttlMs;
+    await Promise.all(scopes.map((scope) => redis.zadd(scope.key, 'XX', expiresAt, executionId)));
+  }
+
+  /**
+   * Free the slots an execution holds
+   */
+  async release(executionId: string, scopes: ConcurrencyScope[]): Promise<void> {
+    await Promise.all(scopes.map((scope) => redis.zrem(scope.key, executionId)));
+  }
+
+  /**
+   * IDs of the executions holding a slot in a scope
+   */
+  async holders(scope: ConcurrencyScope): Promise<string[]> {
+    await redis.zremrangebyscore(scope.key, '-inf', Date.now());
+    return redis.zrange(scope.key, 0, -1);
+  }
+}
+
+export const concurrencyService = new ConcurrencyService();
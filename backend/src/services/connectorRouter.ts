@@ -8,6 +8,9 @@ import { connectorRegistry } from './connectors/registry';
  * Implements 12-step waterfall routing logic to determine which provider
  * should handle a connector execution request.
  * 
+ * Custom connectors (imported OpenAPI / Postman specs) always use stored
+ * credentials and the declarative HTTP executor.
+ *
  * Routing Priority:
  * 1. OAuth required → Nango
  * 2. API key present → Panora (future)
@@ -70,6 +73,18 @@ export class ConnectorRouter {
   async route(context: RoutingContext): Promise<RoutingDecision> {
     const { connector, connectorId } = context;
 
+    // Custom connectors (imported specs) → stored credentials and the declarative HTTP executor
+    if (connectorRegistry.isCustom(connectorId)) {
+      return {
+        provider: ConnectorProvider.CUSTOM_OAUTH,
+        reason: 'Custom connector - using stored credentials',
+        metadata: {
+          connectorId,
+          authType: connector.auth.type,
+        },
+      };
+    }
+
     // Step 1: OAuth required → Nango
     if (connector.auth.type === 'oauth2' && this.shouldUseNango(connector)) {
       return {
@@ -300,7 +315,7 @@ export class ConnectorRouter {
    * This is a simplified version that uses defaults for missing context
    */
   async routeSimple(connectorId: string, userId: string, organizationId?: string): Promise<RoutingDecision> {
-    const connector = connectorRegistry.get(connectorId);
+    const connector = await connectorRegistry.resolve(connectorId);
     
     if (!connector) {
       return {
@@ -0,0 +1,198 @@
+/**
+ * Connector Trigger Providers
+ *
+ * How each connector's triggers receive events. GitHub registers repository
+ * webhooks; Jira, HubSpot and Google Drive are polled with a timestamp cursor.
+ * Provider requests go through the connector executors.
+ */
+
+import { createId } from '@paralleldrive/cuid2';
+import { NodeExecutionResult } from '@sos/shared';
+import { verifySignature, WebhookRequestData } from './webhookAuthService';
+import { executeGitHubCreateWebhook, executeGitHubDeleteWebhook } from './nodeExecutors/connectors/github';
+import { executeJiraGetIssues } from './nodeExecutors/connectors/jira';
+import { executeHubSpotSearchContacts } from './nodeExecutors/connectors/hubspot';
+import { executeGoogleDriveListFiles } from './nodeExecutors/connectors/googleDrive';
+
+/**
+ * One provider event that starts one execution
+ */
+export interface TriggerEvent {
+  id: string; // Stable per event (and per change, for update triggers), used for dedup
+  occurredAt: string; // ISO timestamp; the polling cursor advances to the newest
+  data: Record<string, unknown>;
+}
+
+export interface TriggerContext {
+  triggerId: string; // Event ID from the manifest, e.g. 'push'
+  config: Record<string, unknown>;
+  credentials: Record<string, unknown>;
+}
+
+export interface PollingTriggerProvider {
+  mode: 'polling';
+  /**
+   * Events at or after `since`, oldest first. Results may overlap the previous
+   * poll; the runtime drops events it has already delivered.
+   */
+  poll(context: TriggerContext, since: Date): Promise<TriggerEvent[]>;
+}
+
+export interface WebhookTriggerProvider {
+  mode: 'webhook';
+  /**
+   * Register a provider webhook that posts to callbackUrl; returns its provider ID
+   */
+  subscribe(context: TriggerContext, callbackUrl: string, secret: string): Promise<string>;
+  unsubscribe(context: TriggerContext, webhookId: string): Promise<void>;
+  verify(request: WebhookRequestData, secret: string): boolean;
+  /**
+   * The event a delivery carries, or null when it does not start this trigger
+   * (pings, other event types, filtered actions)
+   */
+  parse(
+    context: Omit<TriggerContext, 'credentials'>,
+    headers: WebhookRequestData['headers'],
+    body: unknown
+  ): TriggerEvent | null;
+}
+
+export type TriggerProvider = PollingTriggerProvider | WebhookTriggerProvider;
+
+function unwrap(result: NodeExecutionResult): Record<string, unknown> {
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Connector request failed');
+  }
+  return (result.output || {}) as Record<string, unknown>;
+}
+
+function toIsoTimestamp(value: unknown): string {
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function header(headers: WebhookRequestData['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+const github: WebhookTriggerProvider = {
+  mode: 'webhook',
+
+  async subscribe({ triggerId, config, credentials }, callbackUrl, secret) {
+    const output = unwrap(
+      await executeGitHubCreateWebhook(
+        config.owner as string,
+        config.repo as string,
+        [triggerId],
+        callbackUrl,
+        secret,
+        credentials as any
+      )
+    );
+    return String(output.id);
+  },
+
+  async unsubscribe({ config, credentials }, webhookId) {
+    unwrap(await executeGitHubDeleteWebhook(config.owner as string, config.repo as string, webhookId, credentials as any));
+  },
+
+  verify(request, secret) {
+    return verifySignature(request, { style: 'github', secret }).valid;
+  },
+
+  parse({ triggerId, config }, headers, body) {
+    if (header(headers, 'x-github-event') !== triggerId) {
+      return null;
+    }
+
+    const payload = (body || {}) as Record<string, any>;
+    if (triggerId === 'push' && config.branch && payload.ref !== `refs/heads/${config.branch}`) {
+      return null;
+    }
+
+    const actions = config.actions as string[] | undefined;
+    if (Array.isArray(actions) && actions.length > 0 && !actions.includes(payload.action)) {
+      return null;
+    }
+
+    return {
+      id: header(headers, 'x-github-delivery') || createId(),
+      occurredAt: new Date().toISOString(),
+      data: payload,
+    };
+  },
+};
+
+const jira: PollingTriggerProvider = {
+  mode: 'polling',
+
+  async poll({ triggerId, config, credentials }, since) {
+    const field = triggerId === 'issue_created' ? 'created' : 'updated';
+
+    // Relative times avoid depending on the Jira user's timezone; the extra minute is deduped
+    const minutes = Math.max(1, Math.ceil((Date.now() - since.getTime()) / 60000) + 1);
+    const clauses = [`${field} >= -${minutes}m`];
+    if (config.projectKey) clauses.push(`project = "${config.projectKey}"`);
+    if (config.jql) clauses.push(`(${config.jql})`);
+
+    const output = unwrap(
+      await executeJiraGetIssues(`${clauses.join(' AND ')} ORDER BY ${field} ASC`, undefined, 100, 0, credentials as any)
+    );
+
+    return ((output.issues as any[]) || [])
+      .map((issue) => ({
+        id: field === 'created' ? String(issue.id) : `${issue.id}:${issue.fields?.updated}`,
+        occurredAt: toIsoTimestamp(issue.fields?.[field]),
+        data: { issue },
+      }))
+      .filter((event) => Date.parse(event.occurredAt) >= since.getTime());
+  },
+};
+
+const hubspot: PollingTriggerProvider = {
+  mode: 'polling',
+
+  async poll({ triggerId, config, credentials }, since) {
+    const property = triggerId === 'contact_created' ? 'createdate' : 'lastmodifieddate';
+    const output = unwrap(
+      await executeHubSpotSearchContacts(property, since, 100, (config.properties as string[]) || [], credentials as any)
+    );
+
+    return ((output.contacts as any[]) || []).map((contact) => ({
+      id: property === 'createdate' ? String(contact.id) : `${contact.id}:${contact.properties?.lastmodifieddate}`,
+      occurredAt: toIsoTimestamp(contact.properties?.[property]),
+      data: { contact },
+    }));
+  },
+};
+
+const googleDrive: PollingTriggerProvider = {
+  mode: 'polling',
+
+  async poll({ triggerId, config, credentials }, since) {
+    const field = triggerId === 'file_created' ? 'createdTime' : 'modifiedTime';
+    const clauses = [`${field} >= '${since.toISOString()}'`, 'trashed = false'];
+    if (config.folderId) {
+      clauses.push(`'${String(config.folderId).replace(/'/g, "\\'")}' in parents`);
+    }
+
+    const output = unwrap(await executeGoogleDriveListFiles(clauses.join(' and '), 100, field, credentials as any));
+
+    return ((output.files as any[]) || []).map((file) => ({
+      id: field === 'createdTime' ? String(file.id) : `${file.id}:${file.modifiedTime}`,
+      occurredAt: toIsoTimestamp(file[field]),
+      data: { file },
+    }));
+  },
+};
+
+/**
+ * Providers by connector ID
+ */
+export const triggerProviders: Record<string, TriggerProvider> = {
+  github,
+  jira,
+  hubspot,
+  google_drive: googleDrive,
+};
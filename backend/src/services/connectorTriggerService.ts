@@ -0,0 +1,421 @@
+/**
+ * Connector Trigger Service
+ *
+ * Starts workflows from `trigger.<connector>.<event>` nodes. Saving a workflow
+ * registers its connector triggers: webhook triggers get a provider webhook
+ * pointing at /webhooks/connectors/:id, polling triggers are polled on their
+ * interval. Each trigger keeps a cursor and recently delivered event IDs so
+ * an event starts at most one execution.
+ */
+
+import { createId } from '@paralleldrive/cuid2';
+import { eq, and } from 'drizzle-orm';
+import { WorkflowDefinition } from '@sos/shared';
+import { db, connectorTriggers, workflows } from '../config/database';
+import { redis } from '../config/redis';
+import { connectorRegistry } from './connectors/registry';
+import { resolveConnectorCredentials } from './nodeExecutors/connector';
+import { workflowExecutor } from './workflowExecutor';
+import { triggerProviders, TriggerEvent, TriggerContext } from './connectorTriggerProviders';
+import { WebhookRequestData } from './webhookAuthService';
+import { encrypt, decrypt } from '../utils/encryption';
+
+type ConnectorTriggerRow = typeof connectorTriggers.$inferSelect;
+
+const TRIGGER_TYPE_PATTERN = /^trigger\.([a-z0-9_]+)\.([a-z0-9_]+)$/;
+const SEEN_EVENT_LIMIT = 500;
+const DEFAULT_POLL_INTERVAL = 300; // Seconds
+const MIN_POLL_INTERVAL = 60;
+const RELOAD_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Connector and event of a connector trigger node type, if the connector
+ * declares the trigger and the runtime supports it
+ */
+export function parseConnectorTriggerType(nodeType: string): { connectorId: string; triggerId: string } | undefined {
+  const match = TRIGGER_TYPE_PATTERN.exec(nodeType);
+  if (!match) return undefined;
+
+  const [, connectorId, triggerId] = match;
+  const declared = connectorRegistry.get(connectorId)?.triggers?.some((trigger) => trigger.id === triggerId);
+  return declared && triggerProviders[connectorId] ? { connectorId, triggerId } : undefined;
+}
+
+/**
+ * Split events into ones not delivered yet and the updated seen-ID list
+ * (most recent last, capped)
+ */
+export function dedupeEvents(events: TriggerEvent[], seenEventIds: string[]): { fresh: TriggerEvent[]; seenEventIds: string[] } {
+  const seen = new Set(seenEventIds);
+  const fresh: TriggerEvent[] = [];
+
+  for (const event of events) {
+    if (seen.has(event.id)) continue;
+    seen.add(event.id);
+    fresh.push(event);
+  }
+
+  return {
+    fresh,
+    seenEventIds: [...seenEventIds, ...fresh.map((event) => event.id)].slice(-SEEN_EVENT_LIMIT),
+  };
+}
+
+/**
+ * Newest event time, never moving the cursor backwards
+ */
+export function advanceCursor(cursor: string | null, events: TriggerEvent[]): string | null {
+  return events.reduce<string | null>(
+    (newest, event) => (!newest || Date.parse(event.occurredAt) > Date.parse(newest) ? event.occurredAt : newest),
+    cursor
+  );
+}
+
+function getCallbackUrl(id: string): string {
+  const baseUrl = process.env.API_URL || process.env.WEBHOOK_BASE_URL || 'http://localhost:4000';
+  return `${baseUrl}/webhooks/connectors/${id}`;
+}
+
+/**
+ * Node config the trigger depends on; a change re-creates the trigger
+ */
+function getTriggerConfig(config: Record<string, unknown>): Record<string, unknown> {
+  const triggerConfig = { ...config };
+  delete triggerConfig.pollInterval;
+  return triggerConfig;
+}
+
+class ConnectorTriggerService {
+  private pollingIntervals: Map<string, { timer: NodeJS.Timeout; pollInterval: number }> = new Map();
+  private isPolling = false;
+
+  /**
+   * Start polling all active polling triggers, reloading the set every minute
+   */
+  async startPolling(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    await this.loadPollingTriggers();
+
+    setInterval(() => {
+      this.loadPollingTriggers();
+    }, RELOAD_INTERVAL_MS);
+  }
+
+  /**
+   * Register the connector triggers of a saved workflow. Unchanged triggers
+   * keep their cursor; removed or changed ones are unsubscribed.
+   */
+  async registerWorkflowTriggers(
+    workflowId: string,
+    definition: WorkflowDefinition,
+    userId: string,
+    organizationId?: string
+  ): Promise<void> {
+    const existing = await db.select().from(connectorTriggers).where(eq(connectorTriggers.workflowId, workflowId));
+    const kept = new Set<string>();
+
+    for (const node of definition.nodes) {
+      const parsed = parseConnectorTriggerType((node.data?.type as string) || '');
+      if (!parsed) continue;
+
+      const config = (node.data?.config || {}) as Record<string, unknown>;
+      const pollInterval = Math.max(MIN_POLL_INTERVAL, Number(config.pollInterval) || DEFAULT_POLL_INTERVAL);
+      const triggerConfig = getTriggerConfig(config);
+      const current = existing.find((row) => row.nodeId === node.id);
+
+      if (
+        current &&
+        current.connectorId === parsed.connectorId &&
+        current.triggerId === parsed.triggerId &&
+        JSON.stringify(current.config) === JSON.stringify(triggerConfig)
+      ) {
+        kept.add(current.id);
+        if (current.pollInterval !== pollInterval) {
+          await db
+            .update(connectorTriggers)
+            .set({ pollInterval, updatedAt: new Date() })
+            .where(eq(connectorTriggers.id, current.id));
+        }
+        continue;
+      }
+
+      if (current) {
+        await this.removeTrigger(current);
+      }
+
+      const mode = triggerProviders[parsed.connectorId].mode;
+      const [row] = await db
+        .insert(connectorTriggers)
+        .values({
+          id: createId(),
+          userId,
+          organizationId: organizationId || null,
+          workflowId,
+          nodeId: node.id,
+          connectorId: parsed.connectorId,
+          triggerId: parsed.triggerId,
+          mode,
+          config: triggerConfig,
+          pollInterval,
+        })
+        .returning();
+      kept.add(row.id);
+
+      if (mode === 'webhook') {
+        await this.subscribe(row);
+      }
+    }
+
+    for (const row of existing) {
+      if (!kept.has(row.id)) {
+        await this.removeTrigger(row);
+      }
+    }
+  }
+
+  /**
+   * Remove all connector triggers of a workflow (before it is deleted)
+   */
+  async unregisterWorkflowTriggers(workflowId: string): Promise<void> {
+    const rows = await db.select().from(connectorTriggers).where(eq(connectorTriggers.workflowId, workflowId));
+    for (const row of rows) {
+      await this.removeTrigger(row);
+    }
+  }
+
+  /**
+   * Handle a provider webhook delivery for a trigger
+   */
+  async handleWebhook(
+    id: string,
+    request: WebhookRequestData & { body: unknown }
+  ): Promise<{ statusCode: number; body: Record<string, unknown> }> {
+    const [found] = await db
+      .select({ trigger: connectorTriggers, workflow: workflows })
+      .from(connectorTriggers)
+      .innerJoin(workflows, eq(connectorTriggers.workflowId, workflows.id))
+      .where(and(eq(connectorTriggers.id, id), eq(connectorTriggers.active, true), eq(workflows.active, true)))
+      .limit(1);
+
+    const provider = found && triggerProviders[found.trigger.connectorId];
+    if (!found || !provider || provider.mode !== 'webhook' || !found.trigger.webhookSecret) {
+      return { statusCode: 404, body: { error: 'Trigger not found' } };
+    }
+
+    const { trigger, workflow } = found;
+    if (!provider.verify(request, decrypt(trigger.webhookSecret!))) {
+      return { statusCode: 401, body: { error: 'Invalid signature' } };
+    }
+
+    const event = provider.parse({ triggerId: trigger.triggerId, config: trigger.config }, request.headers, request.body);
+    if (!event) {
+      return { statusCode: 200, body: { success: true, ignored: true } };
+    }
+
+    const { fresh, seenEventIds } = dedupeEvents([event], trigger.seenEventIds);
+    if (fresh.length === 0) {
+      return { statusCode: 200, body: { success: true, duplicate: true } };
+    }
+
+    await db
+      .update(connectorTriggers)
+      .set({ seenEventIds, lastEventAt: new Date(), lastError: null, updatedAt: new Date() })
+      .where(eq(connectorTriggers.id, trigger.id));
+
+    const executionId = await this.enqueue(trigger, workflow, event);
+    return { statusCode: 202, body: { success: true, executionId } };
+  }
+
+  /**
+   * Poll one trigger and start an execution per new event. The first poll
+   * only sets the cursor, so existing items do not start runs. Every instance
+   * schedules every trigger; only one of them polls it per interval.
+   */
+  async pollTrigger(id: string): Promise<number> {
+    const [found] = await db
+      .select({ trigger: connectorTriggers, workflow: workflows })
+      .from(connectorTriggers)
+      .innerJoin(workflows, eq(connectorTriggers.workflowId, workflows.id))
+      .where(eq(connectorTriggers.id, id))
+      .limit(1);
+
+    const provider = found && triggerProviders[found.trigger.connectorId];
+    if (!found || !provider || provider.mode !== 'polling' || !found.trigger.active || !found.workflow.active) {
+      return 0;
+    }
+
+    const { trigger, workflow } = found;
+    const claimed = await redis.set(`connector-trigger:${trigger.id}:poll`, '1', 'EX', Math.max(trigger.pollInterval - 5, 1), 'NX');
+    if (!claimed) return 0;
+
+    const now = new Date();
+
+    if (!trigger.cursor) {
+      await db
+        .update(connectorTriggers)
+        .set({ cursor: now.toISOString(), lastPolledAt: now, updatedAt: now })
+        .where(eq(connectorTriggers.id, trigger.id));
+      return 0;
+    }
+
+    try {
+      const context = await this.getContext(trigger);
+      const events = await provider.poll(context, new Date(trigger.cursor));
+      const { fresh, seenEventIds } = dedupeEvents(events, trigger.seenEventIds);
+
+      for (const event of fresh) {
+        await this.enqueue(trigger, workflow, event);
+      }
+
+      await db
+        .update(connectorTriggers)
+        .set({
+          cursor: advanceCursor(trigger.cursor, fresh),
+          seenEventIds,
+          lastPolledAt: now,
+          lastEventAt: fresh.length > 0 ? now : trigger.lastEventAt,
+          lastError: null,
+          updatedAt: now,
+        })
+        .where(eq(connectorTriggers.id, trigger.id));
+
+      return fresh.length;
+    } catch (error: any) {
+      console.error(`Error polling connector trigger ${trigger.id}:`, error);
+      await db
+        .update(connectorTriggers)
+        .set({ lastPolledAt: now, lastError: error.message || 'Polling failed', updatedAt: now })
+        .where(eq(connectorTriggers.id, trigger.id));
+      return 0;
+    }
+  }
+
+  /**
+   * Start and stop per-trigger intervals to match the active polling triggers
+   */
+  private async loadPollingTriggers(): Promise<void> {
+    try {
+      const rows = await db
+        .select({ id: connectorTriggers.id, pollInterval: connectorTriggers.pollInterval })
+        .from(connectorTriggers)
+        .innerJoin(workflows, eq(connectorTriggers.workflowId, workflows.id))
+        .where(
+          and(eq(connectorTriggers.mode, 'polling'), eq(connectorTriggers.active, true), eq(workflows.active, true))
+        );
+
+      for (const [id, polling] of this.pollingIntervals.entries()) {
+        const row = rows.find((candidate) => candidate.id === id);
+        if (!row || row.pollInterval !== polling.pollInterval) {
+          clearInterval(polling.timer);
+          this.pollingIntervals.delete(id);
+        }
+      }
+
+      for (const row of rows) {
+        if (this.pollingIntervals.has(row.id)) continue;
+
+        const timer = setInterval(() => {
+          this.pollTrigger(row.id).catch((error) => {
+            console.error(`Error polling connector trigger ${row.id}:`, error);
+          });
+        }, row.pollInterval * 1000);
+        this.pollingIntervals.set(row.id, { timer, pollInterval: row.pollInterval });
+
+        // Prime the cursor (or catch up) right away
+        this.pollTrigger(row.id).catch((error) => {
+          console.error(`Error in initial poll for connector trigger ${row.id}:`, error);
+        });
+      }
+    } catch (error: any) {
+      if (error?.code === '42P01' || error?.code === 'ENOTFOUND' || error?.code === 'ECONNREFUSED') {
+        console.warn('Connector triggers unavailable when loading polling triggers. Will retry on next interval.');
+      } else {
+        console.error('Error loading connector triggers:', error);
+      }
+    }
+  }
+
+  private async getContext(trigger: ConnectorTriggerRow): Promise<TriggerContext> {
+    const resolved = await resolveConnectorCredentials(trigger.connectorId, trigger.userId, trigger.organizationId || '');
+    if (!resolved.credentials) {
+      throw new Error(resolved.error?.message || `No credentials for ${trigger.connectorId}`);
+    }
+    return { triggerId: trigger.triggerId, config: trigger.config, credentials: resolved.credentials };
+  }
+
+  /**
+   * Register the provider webhook; failures are kept on the trigger so the
+   * workflow still saves
+   */
+  private async subscribe(trigger: ConnectorTriggerRow): Promise<void> {
+    const provider = triggerProviders[trigger.connectorId];
+    if (provider.mode !== 'webhook') return;
+
+    const secret = createId() + createId();
+    try {
+      const context = await this.getContext(trigger);
+      const webhookId = await provider.subscribe(context, getCallbackUrl(trigger.id), secret);
+      await db
+        .update(connectorTriggers)
+        .set({ webhookId, webhookSecret: encrypt(secret), lastError: null, updatedAt: new Date() })
+        .where(eq(connectorTriggers.id, trigger.id));
+    } catch (error: any) {
+      console.error(`Error registering ${trigger.connectorId} webhook for trigger ${trigger.id}:`, error);
+      await db
+        .update(connectorTriggers)
+        .set({ lastError: `Webhook registration failed: ${error.message}`, updatedAt: new Date() })
+        .where(eq(connectorTriggers.id, trigger.id));
+    }
+  }
+
+  /**
+   * Stop polling, remove the provider webhook (best effort) and delete the trigger
+   */
+  private async removeTrigger(trigger: ConnectorTriggerRow): Promise<void> {
+    const polling = this.pollingIntervals.get(trigger.id);
+    if (polling) {
+      clearInterval(polling.timer);
+      this.pollingIntervals.delete(trigger.id);
+    }
+
+    const provider = triggerProviders[trigger.connectorId];
+    if (provider?.mode === 'webhook' && trigger.webhookId) {
+      try {
+        await provider.unsubscribe(await this.getContext(trigger), trigger.webhookId);
+      } catch (error) {
+        console.warn(`Failed to remove ${trigger.connectorId} webhook ${trigger.webhookId}:`, error);
+      }
+    }
+
+    await db.delete(connectorTriggers).where(eq(connectorTriggers.id, trigger.id));
+  }
+
+  private async enqueue(
+    trigger: ConnectorTriggerRow,
+    workflow: typeof workflows.$inferSelect,
+    event: TriggerEvent
+  ): Promise<string> {
+    return workflowExecutor.enqueueExecution({
+      workflowId: workflow.id,
+      definition: workflow.definition as WorkflowDefinition,
+      input: {
+        event: event.data,
+        trigger: {
+          type: 'connector',
+          connector: trigger.connectorId,
+          event: trigger.triggerId,
+          eventId: event.id,
+          occurredAt: event.occurredAt,
+        },
+      },
+      userId: trigger.userId,
+      organizationId: trigger.organizationId || undefined,
+      workspaceId: workflow.workspaceId,
+      priority: trigger.mode === 'webhook' ? 'webhook' : 'scheduled',
+    });
+  }
+}
+
+export const connectorTriggerService = new ConnectorTriggerService();
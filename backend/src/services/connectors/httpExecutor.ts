@@ -0,0 +1,143 @@
+/**
+ * Declarative HTTP Connector Executor
+ *
+ * Executes actions of custom connectors: each action's `http` request
+ * (method, path, parameters, body encoding) is filled from the action input
+ * and sent to the manifest baseUrl with the connection's credentials.
+ */
+
+import axios, { AxiosRequestConfig } from 'axios';
+import { NodeExecutionResult } from '@sos/shared';
+import { ConnectorManifest } from './types';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Build the axios request for an action. Throws if a path parameter is missing.
+ */
+export function buildHttpConnectorRequest(
+  manifest: ConnectorManifest,
+  actionId: string,
+  input: Record<string, unknown>,
+  credentials: Record<string, unknown>
+): AxiosRequestConfig {
+  const action = manifest.actions.find((candidate) => candidate.id === actionId);
+  if (!action?.http) {
+    throw new Error(`Action ${actionId} of connector ${manifest.id} has no HTTP request`);
+  }
+  if (!manifest.baseUrl) {
+    throw new Error(`Connector ${manifest.id} has no base URL`);
+  }
+
+  const { http } = action;
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const params: Record<string, unknown> = {};
+  let path = http.path;
+
+  for (const parameter of http.parameters || []) {
+    const value = input[parameter.name];
+    if (parameter.in === 'path') {
+      if (value === undefined || value === null || value === '') {
+        throw new Error(`Missing path parameter: ${parameter.name}`);
+      }
+      path = path.replace(`{${parameter.name}}`, encodeURIComponent(String(value)));
+    } else if (value !== undefined && value !== null) {
+      if (parameter.in === 'query') {
+        params[parameter.name] = value;
+      } else {
+        headers[parameter.name] = String(value);
+      }
+    }
+  }
+
+  const request: AxiosRequestConfig = {
+    method: http.method,
+    url: `${manifest.baseUrl}${path.startsWith('/') ? path : `/${path}`}`,
+    params,
+    headers,
+    timeout: REQUEST_TIMEOUT_MS,
+  };
+
+  if (http.body && input.body !== undefined) {
+    if (http.body === 'form') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      request.data = new URLSearchParams(
+        Object.entries(input.body as Record<string, unknown>).map(([key, value]): [string, string] => [key, String(value)])
+      ).toString();
+    } else {
+      headers['Content-Type'] = 'application/json';
+      request.data = input.body;
+    }
+  }
+
+  // Auth
+  const { auth } = manifest;
+  if (auth.type === 'api_key' && auth.apiKey) {
+    const key = (credentials.apiKey ?? credentials.api_key ?? credentials.token) as string | undefined;
+    if (!key) {
+      throw new Error('API key not found in credentials');
+    }
+    const value = `${auth.apiKey.prefix || ''}${key}`;
+    if (auth.apiKey.in === 'query') {
+      params[auth.apiKey.name] = value;
+    } else {
+      headers[auth.apiKey.name] = value;
+    }
+  } else if (auth.type === 'basic') {
+    request.auth = {
+      username: String(credentials.username ?? ''),
+      password: String(credentials.password ?? ''),
+    };
+  } else if (auth.type === 'oauth2') {
+    const token = credentials.access_token as string | undefined;
+    if (!token) {
+      throw new Error('Access token not found in credentials');
+    }
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return request;
+}
+
+/**
+ * Execute a custom connector action
+ */
+export async function executeHttpConnectorAction(
+  manifest: ConnectorManifest,
+  actionId: string,
+  input: Record<string, unknown>,
+  credentials: Record<string, unknown>
+): Promise<NodeExecutionResult> {
+  let request: AxiosRequestConfig;
+  try {
+    request = buildHttpConnectorRequest(manifest, actionId, input, credentials);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: 'INVALID_REQUEST',
+      },
+    };
+  }
+
+  try {
+    const response = await axios.request(request);
+    return {
+      success: true,
+      output: {
+        status: response.status,
+        data: response.data,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.response?.data?.message || error.response?.data?.error || error.message || `Failed to execute ${manifest.name} ${actionId}`,
+        code: 'HTTP_CONNECTOR_ERROR',
+        details: error.response ? { status: error.response.status, data: error.response.data } : undefined,
+      },
+    };
+  }
+}
@@ -2,26 +2,36 @@ import { ConnectorManifest, ConnectorExecuteOptions, ConnectorExecuteResult } fr
 import { executeSlack } from '../nodeExecutors/slack';
 import { executeAirtable } from '../nodeExecutors/integrations';
 import { executeGoogleSheets } from '../nodeExecutors/integrations';
+import { executeHttpConnectorAction } from './httpExecutor';
 import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
+import type Redis from 'ioredis';
+
+const CUSTOM_CONNECTOR_CHANNEL = 'custom-connectors:changed';
 
 /**
  * Connector Registry
  * 
  * Manages all available connectors and routes execution to appropriate handlers
  * Supports both built-in connectors and dynamically loaded connectors from database
+ *
+ * Custom connectors are loaded at startup; a connector missing from the
+ * registry is looked up in the database before it is reported as not found,
+ * and instances reload a connector when another one announces a change over
+ * Redis pub/sub.
  */
 export class ConnectorRegistry {
   private connectors: Map<string, ConnectorManifest> = new Map();
   private customConnectors: Map<string, ConnectorManifest> = new Map();
+  private customConnectorOrganizations: Map<string, string> = new Map(); // Connector ID -> owning organization
   private loadedFromDatabase: boolean = false;
+  private subscriber: Redis | null = null;
 
   constructor() {
     this.registerBuiltInConnectors();
   }
 
   /**
-   * Load connectors from database (optional)
-   * This allows for custom connectors to be added dynamically
+   * Load custom connectors (custom_connectors table) into the registry
    */
   async loadFromDatabase(): Promise<void> {
     if (this.loadedFromDatabase) {
@@ -29,13 +39,11 @@ export class ConnectorRegistry {
     }
 
     try {
-      // Note: We would need a connectors table in the database for this
-      // For now, this is a placeholder for future implementation
-      // const { db } = await import('../../config/database');
-      // const customConnectors = await db.select().from(connectors);
-      // customConnectors.forEach(conn => {
-      //   this.registerCustom(conn.manifest);
-      // });
+      const { db, customConnectors } = await import('../../config/database');
+      const rows = await db.select().from(customConnectors);
+      rows.forEach((row) => {
+        this.registerCustom(row.manifest as unknown as ConnectorManifest, row.version, row.organizationId);
+      });
       this.loadedFromDatabase = true;
     } catch (error) {
       console.warn('[ConnectorRegistry] Failed to load connectors from database:', error);
@@ -43,6 +51,69 @@ export class ConnectorRegistry {
     }
   }
 
+  /**
+   * Load custom connectors and follow changes made by other instances
+   */
+  async start(): Promise<void> {
+    if (this.subscriber) return;
+
+    const { redis } = await import('../../config/redis');
+    this.subscriber = redis.duplicate();
+    this.subscriber.subscribe(CUSTOM_CONNECTOR_CHANNEL).catch((error) => {
+      console.warn('[ConnectorRegistry] Could not subscribe to custom connector changes:', error);
+    });
+    this.subscriber.on('message', (channel, connectorId) => {
+      if (channel === CUSTOM_CONNECTOR_CHANNEL) {
+        this.reloadCustom(connectorId).catch((error) => {
+          console.error(`[ConnectorRegistry] Failed to reload custom connector ${connectorId}:`, error);
+        });
+      }
+    });
+
+    await this.loadFromDatabase();
+  }
+
+  /**
+   * Re-read one custom connector (dropping it if it was deleted)
+   */
+  async reloadCustom(connectorId: string): Promise<void> {
+    const { db, customConnectors } = await import('../../config/database');
+    const { eq } = await import('drizzle-orm');
+    const [row] = await db.select().from(customConnectors).where(eq(customConnectors.connectorId, connectorId)).limit(1);
+    if (row) {
+      this.registerCustom(row.manifest as unknown as ConnectorManifest, row.version, row.organizationId);
+    } else {
+      this.unregisterCustom(connectorId);
+    }
+  }
+
+  /**
+   * Tell other instances to reload a custom connector after a change
+   */
+  async publishChange(connectorId: string): Promise<void> {
+    try {
+      const { redis } = await import('../../config/redis');
+      await redis.publish(CUSTOM_CONNECTOR_CHANNEL, connectorId);
+    } catch (error) {
+      console.warn('[ConnectorRegistry] Could not publish custom connector change:', error);
+    }
+  }
+
+  /**
+   * Get a connector by ID, looking up custom connectors this instance has
+   * not loaded (e.g. created on another instance) in the database
+   */
+  async resolve(id: string): Promise<ConnectorManifest | undefined> {
+    if (!this.connectors.has(id)) {
+      try {
+        await this.reloadCustom(id);
+      } catch (error) {
+        console.warn(`[ConnectorRegistry] Failed to look up custom connector ${id}:`, error);
+      }
+    }
+    return this.connectors.get(id);
+  }
+
   /**
    * Register a connector manifest (built-in)
    */
@@ -51,12 +122,16 @@ export class ConnectorRegistry {
   }
 
   /**
-   * Register a custom connector (from database or user-defined)
+   * Register a custom connector (from database or user-defined). Connectors
+   * owned by an organization are only listed for that organization.
    */
-  registerCustom(manifest: ConnectorManifest, version?: string): void {
+  registerCustom(manifest: ConnectorManifest, version?: string, organizationId?: string): void {
     // Add version to manifest if provided
     const manifestWithVersion = version ? { ...manifest, version } : manifest;
     this.customConnectors.set(manifest.id, manifestWithVersion);
+    if (organizationId) {
+      this.customConnectorOrganizations.set(manifest.id, organizationId);
+    }
     // Also add to main registry
     this.connectors.set(manifest.id, manifestWithVersion);
   }
@@ -89,6 +164,7 @@ export class ConnectorRegistry {
   unregisterCustom(connectorId: string): boolean {
     if (this.customConnectors.has(connectorId)) {
       this.customConnectors.delete(connectorId);
+      this.customConnectorOrganizations.delete(connectorId);
       this.connectors.delete(connectorId);
       return true;
     }
@@ -110,6 +186,15 @@ export class ConnectorRegistry {
     return this.customConnectors.has(connectorId);
   }
 
+  /**
+   * Check if a connector may be used by an organization (custom connectors
+   * belong to the organization that imported them)
+   */
+  isAvailableTo(connectorId: string, organizationId?: string): boolean {
+    const owner = this.customConnectorOrganizations.get(connectorId);
+    return !owner || owner === organizationId;
+  }
+
   /**
    * Get a connector by ID
    */
@@ -119,9 +204,9 @@ export class ConnectorRegistry {
 
   /**
    * List all connectors, optionally filtered by category
-   * Includes both built-in and custom connectors
+   * Includes built-in connectors and the organization's custom connectors
    */
-  list(category?: string): ConnectorManifest[] {
+  list(category?: string, organizationId?: string): ConnectorManifest[] {
     // Ensure database connectors are loaded
     if (!this.loadedFromDatabase) {
       // Load asynchronously (don't await to avoid blocking)
@@ -130,7 +215,7 @@ export class ConnectorRegistry {
       });
     }
 
-    const all = Array.from(this.connectors.values());
+    const all = Array.from(this.connectors.values()).filter((c) => this.isAvailableTo(c.id, organizationId));
     if (category) {
       return all.filter((c) => c.category === category);
     }
@@ -166,6 +251,16 @@ export class ConnectorRegistry {
       };
     }
 
+    // Custom connectors run through the declarative HTTP executor
+    if (this.isCustom(connectorId) && action.http) {
+      const result = await executeHttpConnectorAction(connector, options.actionId, options.input, options.credentials);
+      return {
+        success: result.success,
+        output: result.output as Record<string, unknown> | undefined,
+        error: result.error,
+      };
+    }
+
     // Route to appropriate executor based on connector ID
     try {
       const context: NodeExecutionContext = {
@@ -481,6 +576,44 @@ export class ConnectorRegistry {
           },
         },
       ],
+      triggers: [
+        {
+          id: 'contact_created',
+          name: 'New Contact',
+          description: 'Starts the workflow when a contact is created',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              properties: { type: 'array', items: { type: 'string' }, description: 'Extra contact properties to include' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              contact: { type: 'object' },
+            },
+          },
+        },
+        {
+          id: 'contact_updated',
+          name: 'Updated Contact',
+          description: 'Starts the workflow when a contact changes',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              properties: { type: 'array', items: { type: 'string' }, description: 'Extra contact properties to include' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              contact: { type: 'object' },
+            },
+          },
+        },
+      ],
     });
 
     // Pipedrive (CRM)
@@ -1009,6 +1142,46 @@ export class ConnectorRegistry {
           },
         },
       ],
+      triggers: [
+        {
+          id: 'issue_created',
+          name: 'New Issue',
+          description: 'Starts the workflow when an issue is created',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              projectKey: { type: 'string' },
+              jql: { type: 'string', description: 'Extra JQL filter, e.g. issuetype = Bug' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              issue: { type: 'object' },
+            },
+          },
+        },
+        {
+          id: 'issue_updated',
+          name: 'Updated Issue',
+          description: 'Starts the workflow when an issue changes',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              projectKey: { type: 'string' },
+              jql: { type: 'string', description: 'Extra JQL filter, e.g. status = Done' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              issue: { type: 'object' },
+            },
+          },
+        },
+      ],
     });
 
     // Shopify (E-commerce)
@@ -1261,6 +1434,7 @@ export class ConnectorRegistry {
         type: 'oauth2',
         scopes: ['https://www.googleapis.com/auth/gmail.send', 'https://www.googleapis.com/auth/gmail.readonly'],
       },
+      healthCheck: { actionId: 'get_messages', input: { maxResults: 1 } },
       actions: [
         {
           id: 'send_email',
@@ -1337,6 +1511,7 @@ export class ConnectorRegistry {
         type: 'oauth2',
         scopes: ['https://graph.microsoft.com/Mail.Send', 'https://graph.microsoft.com/Mail.Read'],
       },
+      healthCheck: { actionId: 'get_messages', input: { top: 1 } },
       actions: [
         {
           id: 'send_email',
@@ -1890,6 +2065,44 @@ export class ConnectorRegistry {
           },
         },
       ],
+      triggers: [
+        {
+          id: 'file_created',
+          name: 'New File',
+          description: 'Starts the workflow when a file is created',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              folderId: { type: 'string', description: 'Only files in this folder' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              file: { type: 'object' },
+            },
+          },
+        },
+        {
+          id: 'file_updated',
+          name: 'Updated File',
+          description: 'Starts the workflow when a file is modified',
+          mode: 'polling',
+          configSchema: {
+            type: 'object',
+            properties: {
+              folderId: { type: 'string', description: 'Only files in this folder' },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              file: { type: 'object' },
+            },
+          },
+        },
+      ],
     });
   }
 
@@ -1907,7 +2120,7 @@ export class ConnectorRegistry {
       oauthProvider: 'nango',
       auth: {
         type: 'oauth2',
-        scopes: ['repo', 'issues:write'],
+        scopes: ['repo', 'issues:write', 'admin:repo_hook'],
       },
       actions: [
         {
@@ -1994,6 +2207,75 @@ export class ConnectorRegistry {
           },
         },
       ],
+      triggers: [
+        {
+          id: 'push',
+          name: 'Push',
+          description: 'Starts the workflow when commits are pushed to a repository',
+          mode: 'webhook',
+          configSchema: {
+            type: 'object',
+            properties: {
+              owner: { type: 'string' },
+              repo: { type: 'string' },
+              branch: { type: 'string', description: 'Only pushes to this branch' },
+            },
+            required: ['owner', 'repo'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              ref: { type: 'string' },
+              commits: { type: 'array' },
+              repository: { type: 'object' },
+            },
+          },
+        },
+        {
+          id: 'pull_request',
+          name: 'Pull Request',
+          description: 'Starts the workflow when a pull request is opened, closed or updated',
+          mode: 'webhook',
+          configSchema: {
+            type: 'object',
+            properties: {
+              owner: { type: 'string' },
+              repo: { type: 'string' },
+              actions: { type: 'array', items: { type: 'string' }, description: 'Only these actions, e.g. opened, closed' },
+            },
+            required: ['owner', 'repo'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string' },
+              pull_request: { type: 'object' },
+            },
+          },
+        },
+        {
+          id: 'issues',
+          name: 'Issue',
+          description: 'Starts the workflow when an issue is opened, closed or updated',
+          mode: 'webhook',
+          configSchema: {
+            type: 'object',
+            properties: {
+              owner: { type: 'string' },
+              repo: { type: 'string' },
+              actions: { type: 'array', items: { type: 'string' }, description: 'Only these actions, e.g. opened, labeled' },
+            },
+            required: ['owner', 'repo'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string' },
+              issue: { type: 'object' },
+            },
+          },
+        },
+      ],
     });
   }
 
@@ -0,0 +1,501 @@
+/**
+ * Connector Spec Importer
+ *
+ * Turns an OpenAPI 3 document or a Postman collection (v2.x) into a
+ * ConnectorManifest. Every operation / request becomes an action with input
+ * and output JSON schemas and a declarative HTTP request, executed by
+ * httpExecutor. Specs are accepted as parsed JSON.
+ */
+
+import { ConnectorManifest, ConnectorAction, ConnectorHttpParameter, ConnectorHttpRequest } from './types';
+
+export type ConnectorSpecFormat = 'openapi' | 'postman';
+
+export interface ConnectorImportOptions {
+  connectorId?: string; // Defaults to custom_<slug of the title>
+  name?: string;
+  baseUrl?: string; // Overrides the spec's server / collection URL
+}
+
+export interface ImportedConnector {
+  format: ConnectorSpecFormat;
+  manifest: ConnectorManifest;
+  warnings: string[]; // Operations or auth schemes that could not be imported
+}
+
+export class ConnectorImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConnectorImportError';
+  }
+}
+
+type JsonObject = Record<string, any>;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const MAX_REF_DEPTH = 10;
+
+export function toConnectorSlug(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+}
+
+/**
+ * Detect the spec format
+ */
+export function detectSpecFormat(spec: unknown): ConnectorSpecFormat {
+  const document = spec as JsonObject;
+  if (document && typeof document === 'object') {
+    if (typeof document.openapi === 'string' && document.openapi.startsWith('3.')) {
+      return 'openapi';
+    }
+    if (document.info?.schema?.includes?.('schema.getpostman.com') || (document.info?.name && Array.isArray(document.item))) {
+      return 'postman';
+    }
+    if (document.swagger) {
+      throw new ConnectorImportError('Swagger 2.0 specs are not supported; convert the spec to OpenAPI 3 first');
+    }
+  }
+  throw new ConnectorImportError('Unrecognized spec: expected an OpenAPI 3 document or a Postman collection (JSON)');
+}
+
+/**
+ * Import an OpenAPI 3 document or a Postman collection
+ */
+export function importConnectorSpec(spec: unknown, options: ConnectorImportOptions = {}): ImportedConnector {
+  return detectSpecFormat(spec) === 'openapi'
+    ? importOpenApiSpec(spec as JsonObject, options)
+    : importPostmanCollection(spec as JsonObject, options);
+}
+
+function uniqueActionId(baseId: string, used: Set<string>): string {
+  let id = baseId || 'action';
+  for (let suffix = 2; used.has(id); suffix++) {
+    id = `${baseId}_${suffix}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function buildManifest(
+  title: string,
+  description: string | undefined,
+  version: string | undefined,
+  baseUrl: string,
+  auth: ConnectorManifest['auth'],
+  actions: ConnectorAction[],
+  options: ConnectorImportOptions
+): ConnectorManifest {
+  if (!baseUrl) {
+    throw new ConnectorImportError('The spec does not declare a server URL; provide baseUrl');
+  }
+  if (actions.length === 0) {
+    throw new ConnectorImportError('The spec does not contain any importable operations');
+  }
+
+  const name = options.name || title || 'Custom API';
+  const connectorId = options.connectorId || `custom_${toConnectorSlug(name)}`;
+  if (!/^[a-z0-9_]+$/.test(connectorId)) {
+    throw new ConnectorImportError('Connector ID may only contain lowercase letters, numbers and underscores');
+  }
+
+  return {
+    id: connectorId,
+    name,
+    version: version || '1.0.0',
+    description: description || `Custom connector for ${name}`,
+    category: 'custom',
+    auth,
+    oauthProvider: auth.type === 'oauth2' ? 'custom' : undefined,
+    actions,
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+  };
+}
+
+// OpenAPI 3
+
+function resolveRef(document: JsonObject, value: any, depth = 0): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') {
+    return value;
+  }
+  if (depth >= MAX_REF_DEPTH || !value.$ref.startsWith('#/')) {
+    return {};
+  }
+  const target = value.$ref
+    .slice(2)
+    .split('/')
+    .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node: any, segment: string) => node?.[segment], document);
+  return resolveRef(document, target, depth + 1);
+}
+
+/**
+ * Inline local $refs so the manifest schemas are self-contained; recursive
+ * schemas are cut off at MAX_REF_DEPTH
+ */
+function inlineSchema(document: JsonObject, schema: any, depth = 0): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  if (depth >= MAX_REF_DEPTH) {
+    return {};
+  }
+  if (Array.isArray(schema)) {
+    return schema.map((item) => inlineSchema(document, item, depth + 1));
+  }
+
+  const resolved = resolveRef(document, schema);
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(resolved || {})) {
+    result[key] = typeof value === 'object' ? inlineSchema(document, value, depth + 1) : value;
+  }
+  return result;
+}
+
+function expandServerUrl(server: JsonObject | undefined): string {
+  if (!server?.url) return '';
+  return String(server.url).replace(/\{([^}]+)\}/g, (_match, name) => server.variables?.[name]?.default ?? '');
+}
+
+function importOpenApiAuth(document: JsonObject, warnings: string[]): ConnectorManifest['auth'] {
+  const schemes: JsonObject = document.components?.securitySchemes || {};
+  const requested = Object.keys((document.security || [])[0] || {});
+  const schemeName = requested.find((name) => schemes[name]) || Object.keys(schemes)[0];
+  if (!schemeName) {
+    return { type: 'none' };
+  }
+
+  const scheme = resolveRef(document, schemes[schemeName]);
+  if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') {
+    return { type: 'basic' };
+  }
+  if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'bearer') {
+    return { type: 'api_key', apiKey: { in: 'header', name: 'Authorization', prefix: 'Bearer ' } };
+  }
+  if (scheme.type === 'apiKey' && (scheme.in === 'header' || scheme.in === 'query')) {
+    return { type: 'api_key', apiKey: { in: scheme.in, name: scheme.name } };
+  }
+  if (scheme.type === 'oauth2') {
+    const flow = scheme.flows?.authorizationCode || scheme.flows?.clientCredentials || {};
+    return {
+      type: 'oauth2',
+      authUrl: flow.authorizationUrl,
+      tokenUrl: flow.tokenUrl,
+      scopes: Object.keys(flow.scopes || {}),
+    };
+  }
+
+  warnings.push(`Security scheme ${schemeName} (${scheme.type}) is not supported; requests are sent without auth`);
+  return { type: 'none' };
+}
+
+function jsonContentSchema(document: JsonObject, content: JsonObject | undefined): any {
+  if (!content) return undefined;
+  const mediaType = Object.keys(content).find((type) => type.includes('json')) ?? Object.keys(content)[0];
+  return mediaType ? inlineSchema(document, content[mediaType]?.schema) : undefined;
+}
+
+function importOpenApiOperation(
+  document: JsonObject,
+  path: string,
+  method: (typeof HTTP_METHODS)[number],
+  operation: JsonObject,
+  pathParameters: any[],
+  usedIds: Set<string>,
+  warnings: string[]
+): ConnectorAction | undefined {
+  const properties: JsonObject = {};
+  const required: string[] = [];
+  const parameters: ConnectorHttpParameter[] = [];
+
+  // Operation parameters override path-level ones with the same name and location
+  const merged = new Map<string, JsonObject>();
+  for (const raw of [...pathParameters, ...(operation.parameters || [])]) {
+    const parameter = resolveRef(document, raw);
+    if (parameter?.name && parameter.in) {
+      merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+
+  for (const parameter of merged.values()) {
+    if (parameter.in === 'cookie') {
+      warnings.push(`${method.toUpperCase()} ${path}: cookie parameter ${parameter.name} skipped`);
+      continue;
+    }
+    properties[parameter.name] = {
+      ...(inlineSchema(document, parameter.schema) || { type: 'string' }),
+      ...(parameter.description ? { description: parameter.description } : {}),
+    };
+    if (parameter.required || parameter.in === 'path') {
+      required.push(parameter.name);
+    }
+    parameters.push({ name: parameter.name, in: parameter.in });
+  }
+
+  const http: ConnectorHttpRequest = { method: method.toUpperCase() as ConnectorHttpRequest['method'], path, parameters };
+
+  const requestBody = resolveRef(document, operation.requestBody);
+  if (requestBody?.content) {
+    const isForm = Object.keys(requestBody.content).some((type) => type === 'application/x-www-form-urlencoded');
+    const isJson = Object.keys(requestBody.content).some((type) => type.includes('json'));
+    if (!isJson && !isForm) {
+      warnings.push(`${method.toUpperCase()} ${path}: request body type not supported, skipped`);
+      return undefined;
+    }
+    http.body = isJson ? 'json' : 'form';
+    properties.body = { ...(jsonContentSchema(document, requestBody.content) || { type: 'object' }), description: 'Request body' };
+    if (requestBody.required) {
+      required.push('body');
+    }
+  }
+
+  const responses: JsonObject = operation.responses || {};
+  const successCode = Object.keys(responses).find((code) => /^2\d\d$/.test(code)) ?? Object.keys(responses).find((code) => code === '2XX');
+  const responseSchema = successCode ? jsonContentSchema(document, resolveRef(document, responses[successCode])?.content) : undefined;
+
+  const baseId = toConnectorSlug(operation.operationId || `${method}_${path.replace(/[{}]/g, '')}`);
+  return {
+    id: uniqueActionId(baseId, usedIds),
+    name: operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`,
+    description: operation.description || operation.summary || `${method.toUpperCase()} ${path}`,
+    inputSchema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        status: { type: 'number' },
+        data: responseSchema || {},
+      },
+    },
+    http,
+  };
+}
+
+export function importOpenApiSpec(document: JsonObject, options: ConnectorImportOptions = {}): ImportedConnector {
+  const warnings: string[] = [];
+  const actions: ConnectorAction[] = [];
+  const usedIds = new Set<string>();
+
+  for (const [path, rawPathItem] of Object.entries<JsonObject>(document.paths || {})) {
+    const pathItem = resolveRef(document, rawPathItem) || {};
+    for (const method of HTTP_METHODS) {
+      if (!pathItem[method] || pathItem[method].deprecated) continue;
+      const action = importOpenApiOperation(document, path, method, pathItem[method], pathItem.parameters || [], usedIds, warnings);
+      if (action) actions.push(action);
+    }
+  }
+
+  const manifest = buildManifest(
+    document.info?.title,
+    document.info?.description,
+    document.info?.version,
+    options.baseUrl || expandServerUrl((document.servers || [])[0]),
+    importOpenApiAuth(document, warnings),
+    actions,
+    options
+  );
+  if (document.externalDocs?.url) {
+    manifest.documentationUrl = document.externalDocs.url;
+  }
+
+  return { format: 'openapi', manifest, warnings };
+}
+
+// Postman
+
+/**
+ * JSON Schema describing an example value (Postman bodies only have examples)
+ */
+export function inferSchema(value: unknown): JsonObject {
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.length > 0 ? inferSchema(value[0]) : {} };
+  }
+  if (value === null) {
+    return {};
+  }
+  if (typeof value === 'object') {
+    const properties: JsonObject = {};
+    for (const [key, item] of Object.entries(value as JsonObject)) {
+      properties[key] = inferSchema(item);
+    }
+    return { type: 'object', properties };
+  }
+  if (typeof value === 'number') {
+    return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  }
+  return { type: typeof value === 'boolean' ? 'boolean' : 'string' };
+}
+
+function substituteVariables(value: string, variables: Record<string, string>): string {
+  return value.replace(/\{\{([^}]+)\}\}/g, (match, name) => variables[name.trim()] ?? match);
+}
+
+function postmanDescription(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  return (value as JsonObject)?.content;
+}
+
+function postmanKeyValues(entries: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (entry?.key) result[entry.key] = String(entry.value ?? '');
+  }
+  return result;
+}
+
+function importPostmanAuth(auth: JsonObject | undefined, variables: Record<string, string>, warnings: string[]): ConnectorManifest['auth'] {
+  if (!auth || auth.type === 'noauth') {
+    return { type: 'none' };
+  }
+
+  const settings = postmanKeyValues(auth[auth.type]);
+  switch (auth.type) {
+    case 'basic':
+      return { type: 'basic' };
+    case 'bearer':
+      return { type: 'api_key', apiKey: { in: 'header', name: 'Authorization', prefix: 'Bearer ' } };
+    case 'apikey':
+      return {
+        type: 'api_key',
+        apiKey: { in: settings.in === 'query' ? 'query' : 'header', name: substituteVariables(settings.key || 'X-API-Key', variables) },
+      };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        authUrl: settings.authUrl,
+        tokenUrl: settings.accessTokenUrl,
+        scopes: settings.scope ? settings.scope.split(/\s+/) : undefined,
+      };
+    default:
+      warnings.push(`Postman auth type ${auth.type} is not supported; requests are sent without auth`);
+      return { type: 'none' };
+  }
+}
+
+interface PostmanRequestItem {
+  name: string;
+  request: JsonObject;
+}
+
+function flattenPostmanItems(items: unknown, prefix: string[] = []): PostmanRequestItem[] {
+  const result: PostmanRequestItem[] = [];
+  for (const item of Array.isArray(items) ? items : []) {
+    if (Array.isArray(item?.item)) {
+      result.push(...flattenPostmanItems(item.item, [...prefix, item.name]));
+    } else if (item?.request) {
+      const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+      result.push({ name: [...prefix, item.name].filter(Boolean).join(' / '), request });
+    }
+  }
+  return result;
+}
+
+function postmanRawUrl(url: unknown): string {
+  if (typeof url === 'string') return url;
+  const value = url as JsonObject;
+  if (value?.raw) return value.raw;
+  const host = Array.isArray(value?.host) ? value.host.join('.') : value?.host || '';
+  const path = Array.isArray(value?.path) ? value.path.join('/') : value?.path || '';
+  return `${value?.protocol ? `${value.protocol}://` : ''}${host}/${path}`;
+}
+
+export function importPostmanCollection(collection: JsonObject, options: ConnectorImportOptions = {}): ImportedConnector {
+  const warnings: string[] = [];
+  const actions: ConnectorAction[] = [];
+  const usedIds = new Set<string>();
+  const variables = postmanKeyValues(collection.variable);
+  let baseUrl = options.baseUrl || '';
+
+  for (const { name, request } of flattenPostmanItems(collection.item)) {
+    const method = String(request.method || 'GET').toUpperCase();
+    if (!(HTTP_METHODS as readonly string[]).includes(method.toLowerCase())) {
+      warnings.push(`${name}: method ${method} not supported, skipped`);
+      continue;
+    }
+
+    let parsed: URL;
+    try {
+      const raw = substituteVariables(postmanRawUrl(request.url), variables).split('?')[0];
+      parsed = new URL(/^https?:\/\//.test(raw) ? raw : `https://${raw}`);
+    } catch {
+      warnings.push(`${name}: URL could not be resolved, skipped`);
+      continue;
+    }
+
+    baseUrl = baseUrl || parsed.origin;
+    if (!options.baseUrl && parsed.origin !== baseUrl) {
+      warnings.push(`${name}: host ${parsed.origin} differs from ${baseUrl}; the request is sent to ${baseUrl}`);
+    }
+    const properties: JsonObject = {};
+    const required: string[] = [];
+    const parameters: ConnectorHttpParameter[] = [];
+
+    // :name path segments (and unresolved {{name}} variables) become path parameters
+    const path = decodeURIComponent(parsed.pathname)
+      .replace(/\{\{([^}]+)\}\}/g, ':$1')
+      .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, param) => {
+        properties[param] = { type: 'string' };
+        required.push(param);
+        parameters.push({ name: param, in: 'path' });
+        return `{${param}}`;
+      });
+
+    const query = Array.isArray((request.url as JsonObject)?.query) ? (request.url as JsonObject).query : [];
+    for (const entry of query) {
+      if (!entry?.key || entry.disabled) continue;
+      properties[entry.key] = {
+        type: 'string',
+        ...(entry.value && !String(entry.value).includes('{{') ? { default: entry.value } : {}),
+        ...(postmanDescription(entry.description) ? { description: postmanDescription(entry.description) } : {}),
+      };
+      parameters.push({ name: entry.key, in: 'query' });
+    }
+
+    const http: ConnectorHttpRequest = { method: method as ConnectorHttpRequest['method'], path, parameters };
+
+    const body = request.body as JsonObject | undefined;
+    if (body?.mode === 'raw' && body.raw) {
+      let example: unknown;
+      try {
+        example = JSON.parse(substituteVariables(body.raw, variables));
+      } catch {
+        example = undefined;
+      }
+      http.body = 'json';
+      properties.body = { ...(example !== undefined ? inferSchema(example) : { type: 'object' }), description: 'Request body' };
+    } else if (body?.mode === 'urlencoded') {
+      http.body = 'form';
+      properties.body = {
+        type: 'object',
+        properties: Object.fromEntries(Object.keys(postmanKeyValues(body.urlencoded)).map((key) => [key, { type: 'string' }])),
+        description: 'Request body',
+      };
+    } else if (body?.mode && body.mode !== 'none') {
+      warnings.push(`${name}: ${body.mode} bodies are not supported, body skipped`);
+    }
+
+    actions.push({
+      id: uniqueActionId(toConnectorSlug(name), usedIds),
+      name,
+      description: postmanDescription(request.description) || `${method} ${path}`,
+      inputSchema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+      outputSchema: { type: 'object', properties: { status: { type: 'number' }, data: {} } },
+      http,
+    });
+  }
+
+  const manifest = buildManifest(
+    collection.info?.name,
+    postmanDescription(collection.info?.description),
+    typeof collection.info?.version === 'string' ? collection.info.version : undefined,
+    baseUrl,
+    importPostmanAuth(collection.auth, variables, warnings),
+    actions,
+    options
+  );
+
+  return { format: 'postman', manifest, warnings };
+}
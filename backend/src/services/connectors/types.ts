@@ -17,12 +17,24 @@ export interface ConnectorManifest {
     tokenUrl?: string;
     clientId?: string;
     clientSecret?: string;
+    apiKey?: {
+      in: 'header' | 'query';
+      name: string; // Header or query parameter name
+      prefix?: string; // e.g. 'Bearer '
+    };
   };
   oauthProvider?: 'nango' | 'custom' | 'panora' | 'composio'; // Which OAuth provider to use
   actions: ConnectorAction[];
   triggers?: ConnectorTrigger[];
   icon?: string;
   documentationUrl?: string;
+  baseUrl?: string; // Declarative HTTP connectors (custom connectors)
+  healthCheck?: ConnectorHealthCheck; // Test-connection action run by credential health checks
+}
+
+export interface ConnectorHealthCheck {
+  actionId: string; // A cheap read-only action
+  input?: Record<string, unknown>;
 }
 
 export interface ConnectorAction {
@@ -31,6 +43,19 @@ export interface ConnectorAction {
   description: string;
   inputSchema: Record<string, unknown>; // JSON Schema
   outputSchema: Record<string, unknown>; // JSON Schema
+  http?: ConnectorHttpRequest; // Request made by the declarative HTTP executor
+}
+
+export interface ConnectorHttpParameter {
+  name: string; // Input field and request parameter name
+  in: 'path' | 'query' | 'header';
+}
+
+export interface ConnectorHttpRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string; // Relative to the manifest baseUrl; {name} marks a path parameter
+  parameters?: ConnectorHttpParameter[];
+  body?: 'json' | 'form'; // Encoding of input.body, if the action sends one
 }
 
 export interface ConnectorTrigger {
@@ -39,6 +64,8 @@ export interface ConnectorTrigger {
   description: string;
   outputSchema: Record<string, unknown>; // JSON Schema
   webhookUrl?: string;
+  mode?: 'webhook' | 'polling'; // How the trigger runtime receives events
+  configSchema?: Record<string, unknown>; // JSON Schema of the trigger node config
 }
 
 export interface ConnectorCredentials {
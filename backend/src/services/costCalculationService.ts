@@ -3,13 +3,24 @@
  * 
  * Calculates costs for LLM API calls based on provider, model, and token usage.
  * Supports OpenAI, Anthropic, and Google models with up-to-date pricing.
+ * Organization-configured OpenAI-compatible endpoints pass their own pricing
+ * from the provider's model catalogue.
  */
 
+export type LLMProviderType = 'openai' | 'anthropic' | 'google' | 'openai_compatible';
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
 export interface CostCalculationInput {
-  provider: 'openai' | 'anthropic' | 'google';
+  provider: LLMProviderType;
   model: string;
   inputTokens: number;
   outputTokens: number;
+  pricing?: ModelPricing; // Overrides the built-in pricing table
 }
 
 export interface CostCalculationResult {
@@ -87,7 +98,16 @@ function normalizeModelName(model: string): string {
 /**
  * Get pricing for a specific model
  */
-function getModelPricing(provider: string, model: string): { input: number; output: number } {
+function getModelPricing(provider: string, model: string, override?: ModelPricing): ModelPricing {
+  if (override) {
+    return override;
+  }
+
+  // Self-hosted models are free unless the provider catalogue prices them
+  if (provider === 'openai_compatible') {
+    return { input: 0, output: 0 };
+  }
+
   const normalizedModel = normalizeModelName(model);
   
   // Try exact match first
@@ -144,7 +164,7 @@ export function calculateLLMCost(input: CostCalculationInput): CostCalculationRe
   const { provider, model, inputTokens, outputTokens } = input;
   
   // Get pricing for the model
-  const pricing = getModelPricing(provider, model);
+  const pricing = getModelPricing(provider, model, input.pricing);
   
   // Calculate costs (pricing is per 1M tokens, so divide by 1,000,000)
   const inputCostPer1k = pricing.input / 1000; // USD per 1k tokens
@@ -182,7 +202,7 @@ export function calculateLLMCost(input: CostCalculationInput): CostCalculationRe
  * Calculate cost from token usage object (from LangChain response)
  */
 export function calculateCostFromTokenUsage(
-  provider: 'openai' | 'anthropic' | 'google',
+  provider: LLMProviderType,
   model: string,
   tokenUsage: {
     promptTokens?: number;
@@ -190,7 +210,8 @@ export function calculateCostFromTokenUsage(
     inputTokens?: number;
     outputTokens?: number;
     totalTokens?: number;
-  }
+  },
+  pricing?: ModelPricing
 ): CostCalculationResult {
   // Handle different token usage formats
   const inputTokens = tokenUsage.promptTokens || tokenUsage.inputTokens || 0;
@@ -211,6 +232,7 @@ export function calculateCostFromTokenUsage(
     model,
     inputTokens: finalInputTokens,
     outputTokens: finalOutputTokens,
+    pricing,
   });
 }
 
@@ -218,10 +240,11 @@ export function calculateCostFromTokenUsage(
  * Get pricing information for a model (for display purposes)
  */
 export function getModelPricingInfo(
-  provider: 'openai' | 'anthropic' | 'google',
-  model: string
+  provider: LLMProviderType,
+  model: string,
+  override?: ModelPricing
 ): { input: number; output: number; inputPer1k: number; outputPer1k: number } {
-  const pricing = getModelPricing(provider, model);
+  const pricing = getModelPricing(provider, model, override);
   
   return {
     input: pricing.input, // per 1M tokens
@@ -246,7 +269,7 @@ export class CostCalculationService {
    * Calculate cost from token usage
    */
   calculateFromTokenUsage(
-    provider: 'openai' | 'anthropic' | 'google',
+    provider: LLMProviderType,
     model: string,
     tokenUsage: {
       promptTokens?: number;
@@ -254,19 +277,21 @@ export class CostCalculationService {
       inputTokens?: number;
       outputTokens?: number;
       totalTokens?: number;
-    }
+    },
+    pricing?: ModelPricing
   ): CostCalculationResult {
-    return calculateCostFromTokenUsage(provider, model, tokenUsage);
+    return calculateCostFromTokenUsage(provider, model, tokenUsage, pricing);
   }
   
   /**
    * Get pricing info for a model
    */
   getPricingInfo(
-    provider: 'openai' | 'anthropic' | 'google',
-    model: string
+    provider: LLMProviderType,
+    model: string,
+    pricing?: ModelPricing
   ): { input: number; output: number; inputPer1k: number; outputPer1k: number } {
-    return getModelPricingInfo(provider, model);
+    return getModelPricingInfo(provider, model, pricing);
   }
 }
 
@@ -9,7 +9,7 @@
 import { db } from '../config/database';
 import { modelCostLogs } from '../../drizzle/schema';
 import { createId } from '@paralleldrive/cuid2';
-import { costCalculationService, CostCalculationResult } from './costCalculationService';
+import { costCalculationService, CostCalculationResult, LLMProviderType, ModelPricing } from './costCalculationService';
 import { featureFlagService } from './featureFlagService';
 import { rudderstackService } from './rudderstackService';
 
@@ -21,16 +21,19 @@ export interface CostLoggingContext {
   organizationId?: string | null;
   workspaceId?: string | null;
   traceId?: string | null;
+  promptId?: string | null; // Prompt library template and version the call used
+  promptVersionId?: string | null;
   prompt?: string | null;
   response?: string | null;
 }
 
 export interface CostLoggingInput {
-  provider: 'openai' | 'anthropic' | 'google';
+  provider: LLMProviderType;
   model: string;
   inputTokens: number;
   outputTokens: number;
   context: CostLoggingContext;
+  pricing?: ModelPricing; // Catalogue pricing of an organization provider
 }
 
 /**
@@ -55,6 +58,7 @@ export async function logLLMCost(input: CostLoggingInput): Promise<void> {
       model: input.model,
       inputTokens: input.inputTokens,
       outputTokens: input.outputTokens,
+      pricing: input.pricing,
     });
 
     // Truncate prompt and response if too long
@@ -84,6 +88,8 @@ export async function logLLMCost(input: CostLoggingInput): Promise<void> {
       prompt,
       response,
       traceId: input.context.traceId || null,
+      promptId: input.context.promptId || null,
+      promptVersionId: input.context.promptVersionId || null,
       organizationId: input.context.organizationId || null,
       workspaceId: input.context.workspaceId || null,
       timestamp: new Date(),
@@ -130,7 +136,7 @@ export async function logLLMCost(input: CostLoggingInput): Promise<void> {
  * Log cost from token usage object (from LangChain response)
  */
 export async function logCostFromTokenUsage(
-  provider: 'openai' | 'anthropic' | 'google',
+  provider: LLMProviderType,
   model: string,
   tokenUsage: {
     promptTokens?: number;
@@ -139,7 +145,8 @@ export async function logCostFromTokenUsage(
     outputTokens?: number;
     totalTokens?: number;
   },
-  context: CostLoggingContext
+  context: CostLoggingContext,
+  pricing?: ModelPricing
 ): Promise<void> {
   // Extract input/output tokens
   const inputTokens = tokenUsage.promptTokens || tokenUsage.inputTokens || 0;
@@ -161,6 +168,7 @@ export async function logCostFromTokenUsage(
     inputTokens: finalInputTokens,
     outputTokens: finalOutputTokens,
     context,
+    pricing,
   });
 }
 
@@ -179,7 +187,7 @@ export class CostLoggingService {
    * Log cost from token usage
    */
   async logFromTokenUsage(
-    provider: 'openai' | 'anthropic' | 'google',
+    provider: LLMProviderType,
     model: string,
     tokenUsage: {
       promptTokens?: number;
@@ -188,9 +196,10 @@ export class CostLoggingService {
       outputTokens?: number;
       totalTokens?: number;
     },
-    context: CostLoggingContext
+    context: CostLoggingContext,
+    pricing?: ModelPricing
   ): Promise<void> {
-    return logCostFromTokenUsage(provider, model, tokenUsage, context);
+    return logCostFromTokenUsage(provider, model, tokenUsage, context, pricing);
   }
 }
 
@@ -0,0 +1,435 @@
+/**
+ * Credential Manager
+ *
+ * Keeps stored connector credentials usable. OAuth tokens are refreshed ahead
+ * of expiry (custom OAuth through the connector's token endpoint, Nango-backed
+ * connections through Nango); a Redis lock makes concurrent executions wait
+ * for a single refresh instead of racing each other. A scheduled sweep also
+ * runs each connector's test-connection action and marks credentials that
+ * keep failing as broken, so the UI can prompt a reconnect and alerts fire.
+ */
+
+import axios from 'axios';
+import { createId } from '@paralleldrive/cuid2';
+import { eq, or, isNull, lt, lte } from 'drizzle-orm';
+import { db, connectorCredentials } from '../config/database';
+import { redis } from '../config/redis';
+import { connectorRegistry } from './connectors/registry';
+import { ConnectorHealthCheck, ConnectorManifest } from './connectors/types';
+import { executeHttpConnectorAction } from './connectors/httpExecutor';
+import { connectorRouter, ConnectorProvider } from './connectorRouter';
+import { nangoService } from './nangoService';
+import { alertService } from './alertService';
+import { encryptObject, decryptObject } from '../utils/encryption';
+
+type CredentialRow = typeof connectorCredentials.$inferSelect;
+
+export type CredentialStatus = 'active' | 'broken';
+
+export interface CredentialCheckResult {
+  credentialId: string;
+  connectorId: string;
+  status: CredentialStatus;
+  refreshed: boolean;
+  checkedAction?: string;
+  error?: string;
+}
+
+const REFRESH_WINDOW_MS = 5 * 60 * 1000; // Refresh tokens expiring within 5 minutes
+const LOCK_TTL_SECONDS = 30;
+const LOCK_WAIT_MS = 15 * 1000;
+const LOCK_POLL_MS = 250;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const CHECK_INTERVAL_MS = 30 * 60 * 1000; // Health check each credential every 30 minutes
+const SWEEP_BATCH_SIZE = 100;
+const BROKEN_AFTER_FAILURES = 3;
+
+// Token endpoints of built-in custom OAuth connectors without a tokenUrl in their manifest
+const TOKEN_URLS: Record<string, string> = {
+  gmail: 'https://oauth2.googleapis.com/token',
+  outlook: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+};
+
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+/**
+ * Thrown when a credential cannot be refreshed; `permanent` failures (revoked
+ * grants, invalid clients) need the user to reconnect
+ */
+export class CredentialRefreshError extends Error {
+  constructor(message: string, public readonly permanent = false) {
+    super(message);
+    this.name = 'CredentialRefreshError';
+  }
+}
+
+/**
+ * When the stored access token expires: the expires_at column, or the expiry
+ * the provider returned inside the credentials (ISO string or epoch seconds)
+ */
+export function getCredentialExpiry(expiresAt: Date | null, credentials: Record<string, unknown>): Date | null {
+  if (expiresAt) return new Date(expiresAt);
+
+  const value = credentials.expires_at ?? credentials.expiresAt;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value < 1e12 ? value * 1000 : value);
+  if (typeof value === 'string' && value) {
+    const parsed = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+    return Number.isNaN(parsed) ? null : new Date(parsed);
+  }
+  return null;
+}
+
+export function needsRefresh(expiry: Date | null, now = Date.now(), windowMs = REFRESH_WINDOW_MS): boolean {
+  return expiry !== null && expiry.getTime() - now <= windowMs;
+}
+
+function getRefreshToken(credentials: Record<string, unknown>): string | undefined {
+  const token = credentials.refresh_token ?? credentials.refreshToken;
+  return typeof token === 'string' && token ? token : undefined;
+}
+
+/**
+ * Action run to test a connection: the connector's declared health check, or
+ * its first read-only action that needs no input
+ */
+export function pickHealthCheck(manifest: ConnectorManifest): ConnectorHealthCheck | undefined {
+  if (manifest.healthCheck) return manifest.healthCheck;
+
+  const action = manifest.actions.find((candidate) => {
+    const isRead = candidate.http ? candidate.http.method === 'GET' : /^(get|list|read)_/.test(candidate.id);
+    const required = (candidate.inputSchema?.required as string[] | undefined) || [];
+    return isRead && required.length === 0;
+  });
+  return action ? { actionId: action.id, input: {} } : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readCredentials(row: CredentialRow): Record<string, unknown> {
+  // Credentials saved through /connectors/credentials are stored encrypted
+  return typeof row.credentials === 'string'
+    ? decryptObject(row.credentials)
+    : (row.credentials as Record<string, unknown>);
+}
+
+export class CredentialManager {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Decrypted credentials for a stored credential row, refreshed first if
+   * the access token is about to expire
+   */
+  async getCredentials(row: CredentialRow): Promise<Record<string, unknown>> {
+    const credentials = readCredentials(row);
+    const expiry = getCredentialExpiry(row.expiresAt, credentials);
+
+    if (!needsRefresh(expiry) || !getRefreshToken(credentials)) {
+      return credentials;
+    }
+
+    try {
+      return (await this.refresh(row.id)).credentials;
+    } catch (error: any) {
+      // A token that has not expired yet is still worth trying
+      if (expiry && expiry.getTime() > Date.now()) {
+        console.warn(`[Credentials] Refresh of ${row.connectorId} credential ${row.id} failed:`, error.message);
+        return credentials;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh a credential's OAuth token. Concurrent callers wait on the lock
+   * and get the token the first caller stored.
+   */
+  async refresh(
+    credentialId: string,
+    options: { windowMs?: number } = {}
+  ): Promise<{ credentials: Record<string, unknown>; refreshed: boolean }> {
+    return this.withRefreshLock(credentialId, async () => {
+      const row = await this.findRow(credentialId);
+      if (!row) {
+        throw new Error('Credential not found');
+      }
+
+      const current = readCredentials(row);
+      if (!needsRefresh(getCredentialExpiry(row.expiresAt, current), Date.now(), options.windowMs)) {
+        // Refreshed by whoever held the lock before us
+        return { credentials: current, refreshed: false };
+      }
+
+      try {
+        const { credentials, expiresAt } = await this.requestRefresh(row, current);
+        await db
+          .update(connectorCredentials)
+          .set({
+            credentials: (typeof row.credentials === 'string' ? encryptObject(credentials) : credentials) as any,
+            expiresAt,
+            status: 'active',
+            failureCount: 0,
+            lastError: null,
+            lastRefreshedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(connectorCredentials.id, row.id));
+
+        return { credentials, refreshed: true };
+      } catch (error: any) {
+        await this.recordFailure(row, error.message, error instanceof CredentialRefreshError && error.permanent);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Refresh the credential if needed, then run its connector's test-connection
+   * action and record the outcome
+   */
+  async checkCredential(credentialId: string): Promise<CredentialCheckResult> {
+    const row = await this.findRow(credentialId);
+    if (!row) {
+      throw new Error('Credential not found');
+    }
+
+    const result: CredentialCheckResult = {
+      credentialId: row.id,
+      connectorId: row.connectorId,
+      status: row.status as CredentialStatus,
+      refreshed: false,
+    };
+
+    let credentials = readCredentials(row);
+    const expiry = getCredentialExpiry(row.expiresAt, credentials);
+
+    // Refresh tokens that would expire before the next sweep
+    if (needsRefresh(expiry, Date.now(), SWEEP_INTERVAL_MS + REFRESH_WINDOW_MS)) {
+      if (getRefreshToken(credentials)) {
+        try {
+          ({ credentials, refreshed: result.refreshed } = await this.refresh(row.id, {
+            windowMs: SWEEP_INTERVAL_MS + REFRESH_WINDOW_MS,
+          }));
+        } catch (error: any) {
+          // refresh() has recorded the failure
+          const latest = await this.findRow(row.id);
+          return { ...result, status: (latest?.status || row.status) as CredentialStatus, error: error.message };
+        }
+      } else if (needsRefresh(expiry, Date.now(), 0)) {
+        const error = 'Access token expired and no refresh token is stored';
+        const status = await this.recordFailure(row, error, true);
+        return { ...result, status, error };
+      }
+    }
+
+    const manifest = await connectorRegistry.resolve(row.connectorId);
+    const healthCheck = manifest ? pickHealthCheck(manifest) : undefined;
+    const error = healthCheck ? await this.runHealthCheck(manifest!, healthCheck, credentials) : undefined;
+
+    if (error) {
+      const status = await this.recordFailure(row, error, false);
+      return { ...result, status, checkedAction: healthCheck?.actionId, error };
+    }
+
+    await db
+      .update(connectorCredentials)
+      .set({ status: 'active', failureCount: 0, lastError: null, lastCheckedAt: new Date() })
+      .where(eq(connectorCredentials.id, row.id));
+
+    return { ...result, status: 'active', checkedAction: healthCheck?.actionId };
+  }
+
+  /**
+   * Refresh and health check credentials on a schedule
+   */
+  startHealthChecks(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.runSweep().catch((error) => {
+        console.error('[Credentials] Health check sweep failed:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * One sweep: credentials expiring before the next sweep and credentials
+   * not checked recently. Only one instance sweeps at a time.
+   */
+  async runSweep(): Promise<CredentialCheckResult[]> {
+    const claimed = await redis.set('connector-credentials:sweep', '1', 'EX', Math.floor(SWEEP_INTERVAL_MS / 1000) - 5, 'NX');
+    if (!claimed) return [];
+
+    const now = Date.now();
+    const due = await db
+      .select({ id: connectorCredentials.id })
+      .from(connectorCredentials)
+      .where(
+        or(
+          isNull(connectorCredentials.lastCheckedAt),
+          lt(connectorCredentials.lastCheckedAt, new Date(now - CHECK_INTERVAL_MS)),
+          lte(connectorCredentials.expiresAt, new Date(now + SWEEP_INTERVAL_MS + REFRESH_WINDOW_MS))
+        )
+      )
+      .limit(SWEEP_BATCH_SIZE);
+
+    const results: CredentialCheckResult[] = [];
+    for (const { id } of due) {
+      try {
+        results.push(await this.checkCredential(id));
+      } catch (error) {
+        console.error(`[Credentials] Health check of credential ${id} failed:`, error);
+      }
+    }
+    return results;
+  }
+
+  private async requestRefresh(
+    row: CredentialRow,
+    current: Record<string, unknown>
+  ): Promise<{ credentials: Record<string, unknown>; expiresAt: Date | null }> {
+    const routing = await connectorRouter.routeSimple(row.connectorId, row.userId, row.organizationId || undefined);
+
+    if (routing.provider === ConnectorProvider.NANGO) {
+      if (!row.nangoConnectionId) {
+        // Stored before the Nango connection ID was kept; only a reconnect can fix it
+        throw new CredentialRefreshError('Nango connection ID not stored for this credential; reconnect the account', true);
+      }
+      try {
+        const credentials = await nangoService.refreshToken(row.connectorId, row.nangoConnectionId);
+        return { credentials, expiresAt: getCredentialExpiry(null, credentials) };
+      } catch (error: any) {
+        throw new CredentialRefreshError(error.message);
+      }
+    }
+
+    const refreshToken = getRefreshToken(current);
+    if (!refreshToken) {
+      throw new CredentialRefreshError('No refresh token stored for this credential', true);
+    }
+
+    const manifest = await connectorRegistry.resolve(row.connectorId);
+    const tokenUrl = manifest?.auth.tokenUrl || TOKEN_URLS[row.connectorId];
+    if (!tokenUrl) {
+      throw new CredentialRefreshError(`Connector ${row.connectorId} has no OAuth token URL`, true);
+    }
+
+    const envPrefix = row.connectorId.toUpperCase();
+    const clientId = manifest?.auth.clientId || process.env[`${envPrefix}_CLIENT_ID`];
+    const clientSecret = manifest?.auth.clientSecret || process.env[`${envPrefix}_CLIENT_SECRET`];
+
+    const body = new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken });
+    if (clientId) body.set('client_id', clientId);
+    if (clientSecret) body.set('client_secret', clientSecret);
+
+    try {
+      const response = await axios.post(tokenUrl, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        timeout: 30000,
+      });
+      const { access_token, refresh_token, expires_in } = response.data || {};
+      if (!access_token) {
+        throw new CredentialRefreshError('Token endpoint did not return an access token');
+      }
+
+      const expiresAt = expires_in ? new Date(Date.now() + Number(expires_in) * 1000) : null;
+      // Providers may rotate the refresh token; keep the old one otherwise
+      const credentials: Record<string, unknown> = {
+        ...current,
+        access_token,
+        refresh_token: refresh_token || refreshToken,
+        expires_at: expiresAt ? expiresAt.toISOString() : undefined,
+      };
+      delete credentials.refreshToken;
+      if ('accessToken' in current) credentials.accessToken = access_token;
+
+      return { credentials, expiresAt };
+    } catch (error: any) {
+      if (error instanceof CredentialRefreshError) throw error;
+      const status = error.response?.status;
+      const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      // 400/401 from a token endpoint means a revoked or invalid grant, not a transient failure
+      throw new CredentialRefreshError(`Token refresh failed: ${reason}`, status === 400 || status === 401);
+    }
+  }
+
+  private async runHealthCheck(
+    manifest: ConnectorManifest,
+    healthCheck: ConnectorHealthCheck,
+    credentials: Record<string, unknown>
+  ): Promise<string | undefined> {
+    try {
+      const result = connectorRegistry.isCustom(manifest.id)
+        ? await executeHttpConnectorAction(manifest, healthCheck.actionId, healthCheck.input || {}, credentials)
+        : await (await import('./nodeExecutors/connector')).executeConnectorAction(
+            manifest.id,
+            healthCheck.actionId,
+            healthCheck.input || {},
+            credentials,
+            {}
+          );
+      return result.success ? undefined : result.error?.message || 'Test connection failed';
+    } catch (error: any) {
+      return error.message || 'Test connection failed';
+    }
+  }
+
+  /**
+   * Count a failed refresh or health check; the credential becomes broken on a
+   * permanent failure or after repeated failures
+   */
+  private async recordFailure(row: CredentialRow, message: string, permanent: boolean): Promise<CredentialStatus> {
+    const failureCount = (row.failureCount || 0) + 1;
+    const status: CredentialStatus = permanent || failureCount >= BROKEN_AFTER_FAILURES ? 'broken' : (row.status as CredentialStatus);
+
+    await db
+      .update(connectorCredentials)
+      .set({ status, failureCount, lastError: message, lastCheckedAt: new Date() })
+      .where(eq(connectorCredentials.id, row.id));
+
+    if (status === 'broken' && row.status !== 'broken' && row.organizationId) {
+      await alertService
+        .triggerCredentialAlerts(row.organizationId, {
+          credentialId: row.id,
+          connectorId: row.connectorId,
+          userId: row.userId,
+          error: message,
+        })
+        .catch((error) => console.error('[Credentials] Failed to send credential alerts:', error));
+    }
+
+    return status;
+  }
+
+  private async withRefreshLock<T>(credentialId: string, fn: () => Promise<T>): Promise<T> {
+    const key = `connector-credential:${credentialId}:refresh`;
+    const token = createId();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (!(await redis.set(key, token, 'EX', LOCK_TTL_SECONDS, 'NX'))) {
+      if (Date.now() > deadline) {
+        throw new CredentialRefreshError('Timed out waiting for another credential refresh');
+      }
+      await sleep(LOCK_POLL_MS);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+    }
+  }
+
+  private async findRow(credentialId: string): Promise<CredentialRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(connectorCredentials)
+      .where(eq(connectorCredentials.id, credentialId))
+      .limit(1);
+    return row;
+  }
+}
+
+export const credentialManager = new CredentialManager();
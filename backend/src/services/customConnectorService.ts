@@ -0,0 +1,221 @@
+import { db, customConnectors } from '../config/database';
+import { eq, and, asc } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { connectorRegistry } from './connectors/registry';
+import { ConnectorManifest } from './connectors/types';
+import {
+  importConnectorSpec,
+  ConnectorImportError,
+  ConnectorImportOptions,
+  ConnectorSpecFormat,
+  ImportedConnector,
+} from './connectors/specImporter';
+
+export interface CustomConnectorInput extends ConnectorImportOptions {
+  spec?: unknown; // OpenAPI 3 document or Postman collection
+  manifest?: ConnectorManifest; // Hand-written manifest (POST /connectors/register)
+}
+
+export interface CustomConnectorView {
+  id: string;
+  connectorId: string;
+  name: string;
+  version: string;
+  sourceType: ConnectorSpecFormat | 'manifest';
+  baseUrl: string | null;
+  authType: string;
+  actionCount: number;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type CustomConnectorRow = typeof customConnectors.$inferSelect;
+
+function toView(row: CustomConnectorRow): CustomConnectorView {
+  const manifest = row.manifest as unknown as ConnectorManifest;
+  return {
+    id: row.id,
+    connectorId: row.connectorId,
+    name: row.name,
+    version: row.version,
+    sourceType: row.sourceType as CustomConnectorView['sourceType'],
+    baseUrl: manifest.baseUrl || null,
+    authType: manifest.auth?.type || 'none',
+    actionCount: manifest.actions?.length || 0,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Custom Connector Service
+ *
+ * Organization-defined connectors for internal or niche HTTP APIs. A connector
+ * is imported from an OpenAPI 3 spec or Postman collection (or given as a
+ * manifest), stored in custom_connectors and registered in the connector
+ * registry, where its actions run through the declarative HTTP executor.
+ */
+export class CustomConnectorService {
+  /**
+   * Import a spec without saving it, to review the generated actions
+   */
+  preview(input: CustomConnectorInput): ImportedConnector {
+    return this.build(input);
+  }
+
+  async list(organizationId: string): Promise<CustomConnectorView[]> {
+    const rows = await db
+      .select()
+      .from(customConnectors)
+      .where(eq(customConnectors.organizationId, organizationId))
+      .orderBy(asc(customConnectors.name));
+    return rows.map(toView);
+  }
+
+  async get(organizationId: string, id: string): Promise<(CustomConnectorView & { manifest: ConnectorManifest }) | null> {
+    const row = await this.findRow(organizationId, id);
+    return row ? { ...toView(row), manifest: row.manifest as unknown as ConnectorManifest } : null;
+  }
+
+  async create(
+    organizationId: string,
+    userId: string,
+    input: CustomConnectorInput
+  ): Promise<{ connector: CustomConnectorView; warnings: string[] }> {
+    const { format, manifest, warnings } = this.build(input);
+    await this.assertConnectorIdAvailable(manifest.id);
+
+    const [row] = await db
+      .insert(customConnectors)
+      .values({
+        id: createId(),
+        organizationId,
+        connectorId: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        sourceType: input.spec ? format : 'manifest',
+        manifest: manifest as unknown as Record<string, unknown>,
+        createdBy: userId,
+      })
+      .returning();
+
+    connectorRegistry.registerCustom(manifest, manifest.version, organizationId);
+    await connectorRegistry.publishChange(manifest.id);
+    return { connector: toView(row), warnings };
+  }
+
+  /**
+   * Re-import a connector from a new spec or manifest; its connector ID is kept
+   * so workflows using it keep working
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    input: CustomConnectorInput
+  ): Promise<{ connector: CustomConnectorView; warnings: string[] }> {
+    const existing = await this.findRow(organizationId, id);
+    if (!existing) {
+      throw new Error('Custom connector not found');
+    }
+
+    const { format, manifest, warnings } = this.build({
+      ...input,
+      connectorId: existing.connectorId,
+      manifest: input.manifest ? { ...input.manifest, id: existing.connectorId } : undefined,
+    });
+
+    const [row] = await db
+      .update(customConnectors)
+      .set({
+        name: manifest.name,
+        version: manifest.version,
+        sourceType: input.spec ? format : 'manifest',
+        manifest: manifest as unknown as Record<string, unknown>,
+        updatedAt: new Date(),
+      })
+      .where(eq(customConnectors.id, existing.id))
+      .returning();
+
+    connectorRegistry.registerCustom(manifest, manifest.version, organizationId);
+    await connectorRegistry.publishChange(manifest.id);
+    return { connector: toView(row), warnings };
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    const existing = await this.findRow(organizationId, id);
+    if (!existing) {
+      throw new Error('Custom connector not found');
+    }
+
+    await db.delete(customConnectors).where(eq(customConnectors.id, existing.id));
+    connectorRegistry.unregisterCustom(existing.connectorId);
+    await connectorRegistry.publishChange(existing.connectorId);
+  }
+
+  /**
+   * Find an organization's custom connector by its registry connector ID
+   */
+  async findByConnectorId(organizationId: string, connectorId: string): Promise<CustomConnectorView | null> {
+    const [row] = await db
+      .select()
+      .from(customConnectors)
+      .where(and(eq(customConnectors.organizationId, organizationId), eq(customConnectors.connectorId, connectorId)))
+      .limit(1);
+    return row ? toView(row) : null;
+  }
+
+  private build(input: CustomConnectorInput): ImportedConnector {
+    if (input.spec) {
+      return importConnectorSpec(input.spec, input);
+    }
+    if (input.manifest) {
+      return { format: 'openapi', manifest: this.validateManifest(input.manifest), warnings: [] };
+    }
+    throw new ConnectorImportError('Either spec or manifest is required');
+  }
+
+  private validateManifest(manifest: ConnectorManifest): ConnectorManifest {
+    if (!manifest.id || !/^[a-z0-9_]+$/.test(manifest.id)) {
+      throw new ConnectorImportError('Connector ID may only contain lowercase letters, numbers and underscores');
+    }
+    if (!manifest.name || !Array.isArray(manifest.actions)) {
+      throw new ConnectorImportError('Manifest must include name, category, and actions');
+    }
+    if (manifest.actions.some((action) => action.http) && !manifest.baseUrl) {
+      throw new ConnectorImportError('Manifests with HTTP actions need a baseUrl');
+    }
+    return {
+      ...manifest,
+      version: manifest.version || '1.0.0',
+      category: manifest.category || 'custom',
+      auth: manifest.auth || { type: 'none' },
+    };
+  }
+
+  private async assertConnectorIdAvailable(connectorId: string): Promise<void> {
+    if (connectorRegistry.get(connectorId) && !connectorRegistry.isCustom(connectorId)) {
+      throw new Error('A connector with this ID already exists');
+    }
+    const [existing] = await db
+      .select({ id: customConnectors.id })
+      .from(customConnectors)
+      .where(eq(customConnectors.connectorId, connectorId))
+      .limit(1);
+    if (existing) {
+      throw new Error('A connector with this ID already exists');
+    }
+  }
+
+  private async findRow(organizationId: string, id: string): Promise<CustomConnectorRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(customConnectors)
+      .where(and(eq(customConnectors.organizationId, organizationId), eq(customConnectors.id, id)))
+      .limit(1);
+    return row;
+  }
+}
+
+export const customConnectorService = new CustomConnectorService();
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { langchainService, EmbeddingConfig } from './langchainService';
+import { storeVectors, deleteVectors, listVectors, VectorIndexOptions } from './vectorStore';
+
+/**
+ * Incremental document sync into a vector index.
+ *
+ * Chunks get stable ids built from the sync scope, the document id and the
+ * chunk position, and carry a hash of their text and metadata. Re-running a
+ * sync only embeds chunks that are new or changed, and deletes chunks that
+ * no longer exist: the tail of a document that got shorter, and (with
+ * removeMissing) every chunk of a document that is no longer in the input.
+ */
+
+export interface SyncDocument {
+  id: string; // Stable id in the source, e.g. a Drive file id or an S3 key
+  chunks: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface SyncOptions {
+  provider: string;
+  indexName: string;
+  scope: string; // Documents of one scope are synced together, e.g. one folder
+  organizationId?: string | null;
+  apiKey?: string;
+  removeMissing?: boolean; // Delete documents of the scope that are not in the input
+  indexOptions?: VectorIndexOptions;
+  embedding?: EmbeddingConfig; // Defaults to OpenAI ada-002
+}
+
+export interface SyncResult {
+  ids: string[];
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// JSON with sorted object keys, so equal metadata always hashes the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashChunk(text: string, metadata?: Record<string, unknown>): string {
+  return sha256(`${text}\n${stableStringify(metadata || {})}`);
+}
+
+// Ids of one scope share a prefix so they can be listed (also on Pinecone)
+export function syncIdPrefix(organizationId: string | null | undefined, indexName: string, scope: string): string {
+  return `sync:${sha256(`${organizationId || ''}\n${indexName}\n${scope}`).slice(0, 16)}:`;
+}
+
+export class DocumentSyncService {
+  async sync(documents: SyncDocument[], options: SyncOptions): Promise<SyncResult> {
+    const documentIds = new Set<string>();
+    for (const document of documents) {
+      if (documentIds.has(document.id)) {
+        throw new Error(`Duplicate document id: ${document.id}`);
+      }
+      documentIds.add(document.id);
+    }
+
+    const prefix = syncIdPrefix(options.organizationId, options.indexName, options.scope);
+    const existing = await listVectors(options.provider, options.indexName, prefix, options.apiKey, options.organizationId);
+    const existingHashes = new Map(existing.map((doc) => [doc.id, doc.metadata?.contentHash as string | undefined]));
+
+    const ids: string[] = [];
+    const syncedPrefixes: string[] = [];
+    const changed: Array<{ id: string; text: string; metadata: Record<string, unknown> }> = [];
+    let added = 0;
+    let updated = 0;
+
+    for (const document of documents) {
+      const documentPrefix = `${prefix}${sha256(document.id).slice(0, 16)}:`;
+      syncedPrefixes.push(documentPrefix);
+
+      document.chunks.forEach((text, chunkIndex) => {
+        const id = `${documentPrefix}${chunkIndex}`;
+        const contentHash = hashChunk(text, document.metadata);
+        ids.push(id);
+
+        const previousHash = existingHashes.get(id);
+        if (previousHash === contentHash) {
+          return;
+        }
+        if (existingHashes.has(id)) {
+          updated++;
+        } else {
+          added++;
+        }
+
+        changed.push({
+          id,
+          text,
+          metadata: {
+            ...document.metadata,
+            documentId: document.id,
+            chunkIndex,
+            contentHash,
+            syncScope: options.scope,
+          },
+        });
+      });
+    }
+
+    const current = new Set(ids);
+    const removedIds = existing
+      .map((doc) => doc.id)
+      .filter((id) => !current.has(id) && (options.removeMissing || syncedPrefixes.some((p) => id.startsWith(p))));
+
+    for (let i = 0; i < changed.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = changed.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await langchainService.generateEmbeddings(batch.map((chunk) => chunk.text), options.embedding);
+      await storeVectors(
+        options.provider,
+        options.indexName,
+        batch.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+        options.apiKey,
+        options.organizationId,
+        options.indexOptions
+      );
+    }
+
+    if (removedIds.length > 0) {
+      await deleteVectors(options.provider, options.indexName, removedIds, options.apiKey, options.organizationId);
+    }
+
+    return {
+      ids,
+      added,
+      updated,
+      removed: removedIds.length,
+      unchanged: ids.length - changed.length,
+    };
+  }
+}
+
+export const documentSyncService = new DocumentSyncService();
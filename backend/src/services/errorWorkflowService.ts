@@ -0,0 +1,143 @@
+import { WorkflowDefinition } from '@sos/shared';
+import { db } from '../config/database';
+import { workflowExecutions, workflows, workspaces, organizations } from '../../drizzle/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * Failed execution handed to the error workflow
+ */
+export interface ExecutionFailure {
+  executionId: string;
+  workflowId: string;
+  error: string;
+  node?: {
+    id: string;
+    type: string;
+    error: unknown;
+    input: Record<string, unknown>;
+  };
+}
+
+/**
+ * Error Workflow Service
+ *
+ * Runs the organization's error workflow (organizations.settings.errorWorkflowId)
+ * whenever an execution fails, so all failures can be handled in one place.
+ */
+export class ErrorWorkflowService {
+  /**
+   * Get the error workflow configured for an organization
+   */
+  async getErrorWorkflowId(organizationId: string): Promise<string | null> {
+    const [organization] = await db
+      .select({ settings: organizations.settings })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId))
+      .limit(1);
+
+    return ((organization?.settings as any)?.errorWorkflowId as string | undefined) || null;
+  }
+
+  /**
+   * Set (or clear, with null) the error workflow of an organization.
+   * The workflow must belong to the organization.
+   */
+  async setErrorWorkflowId(organizationId: string, workflowId: string | null): Promise<void> {
+    if (workflowId) {
+      const [workflow] = await db
+        .select({ organizationId: workspaces.organizationId })
+        .from(workflows)
+        .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+        .where(eq(workflows.id, workflowId))
+        .limit(1);
+
+      if (!workflow || workflow.organizationId !== organizationId) {
+        throw new Error('Workflow not found');
+      }
+    }
+
+    const [organization] = await db
+      .select({ settings: organizations.settings })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId))
+      .limit(1);
+
+    await db
+      .update(organizations)
+      .set({
+        settings: { ...((organization?.settings as any) || {}), errorWorkflowId: workflowId },
+        updatedAt: new Date(),
+      })
+      .where(eq(organizations.id, organizationId));
+  }
+
+  /**
+   * Queue the error workflow for a failed execution. Failures of error
+   * workflow runs (and of the error workflow itself) do not trigger it again.
+   * Returns the execution ID of the queued error workflow run, or null when
+   * nothing was triggered.
+   */
+  async trigger(failure: ExecutionFailure): Promise<string | null> {
+    const [failed] = await db
+      .select({
+        metadata: workflowExecutions.metadata,
+        startedAt: workflowExecutions.startedAt,
+        workflowName: workflows.name,
+        organizationId: workspaces.organizationId,
+      })
+      .from(workflowExecutions)
+      .innerJoin(workflows, eq(workflowExecutions.workflowId, workflows.id))
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(eq(workflowExecutions.id, failure.executionId))
+      .limit(1);
+
+    if (!failed || (failed.metadata as any)?.errorWorkflowFor) {
+      return null;
+    }
+
+    const errorWorkflowId = await this.getErrorWorkflowId(failed.organizationId);
+    if (!errorWorkflowId || errorWorkflowId === failure.workflowId) {
+      return null;
+    }
+
+    const [errorWorkflow] = await db
+      .select({
+        id: workflows.id,
+        definition: workflows.definition,
+        workspaceId: workflows.workspaceId,
+        organizationId: workspaces.organizationId,
+      })
+      .from(workflows)
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(eq(workflows.id, errorWorkflowId))
+      .limit(1);
+
+    if (!errorWorkflow || errorWorkflow.organizationId !== failed.organizationId) {
+      console.warn(`[ErrorWorkflow] Error workflow ${errorWorkflowId} not found for organization ${failed.organizationId}`);
+      return null;
+    }
+
+    // Imported lazily: the executor itself triggers error workflows
+    const { workflowExecutor } = await import('./workflowExecutor');
+    return workflowExecutor.enqueueExecution({
+      workflowId: errorWorkflow.id,
+      definition: errorWorkflow.definition as WorkflowDefinition,
+      input: {
+        execution: {
+          id: failure.executionId,
+          workflowId: failure.workflowId,
+          workflowName: failed.workflowName,
+          error: failure.error,
+          startedAt: failed.startedAt,
+          failedAt: new Date().toISOString(),
+        },
+        node: failure.node || null,
+      },
+      organizationId: failed.organizationId,
+      workspaceId: errorWorkflow.workspaceId,
+      errorWorkflowFor: failure.executionId,
+    });
+  }
+}
+
+export const errorWorkflowService = new ErrorWorkflowService();
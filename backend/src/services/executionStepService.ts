@@ -0,0 +1,34 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { executionSteps } from '../../drizzle/schema';
+
+type NewExecutionStep = Omit<typeof executionSteps.$inferInsert, 'stepNumber'>;
+
+// Concurrent inserts for one execution can pick the same number; the
+// unique (execution_id, step_number) index rejects all but one of them
+const MAX_STEP_INSERT_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Insert an execution step with the execution's next step number, computed
+ * in the insert itself. Parallel branches and tool calls retry on a clash.
+ * Returns the step number.
+ */
+export async function insertExecutionStep(step: NewExecutionStep): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const [inserted] = await db
+        .insert(executionSteps)
+        .values({
+          ...step,
+          stepNumber: sql`(select coalesce(max(${executionSteps.stepNumber}), 0) + 1 from ${executionSteps} where ${executionSteps.executionId} = ${step.executionId})`,
+        })
+        .returning({ stepNumber: executionSteps.stepNumber });
+      return inserted.stepNumber;
+    } catch (error: any) {
+      if (error?.code !== UNIQUE_VIOLATION || attempt >= MAX_STEP_INSERT_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Expression Service
+ *
+ * Resolves `{{ $... }}` expressions inside node configuration before the node
+ * is dispatched to its executor. Expressions run inside a vm2 sandbox and can
+ * reference the node input, previous node results, execution metadata,
+ * workflow variables and a small set of helper functions.
+ *
+ * Only expressions starting with `$` are evaluated, so prompt templates such
+ * as `{{context}}` in RAG nodes are left untouched for their own renderer.
+ */
+
+import { VM } from 'vm2';
+import { format, addDays, differenceInDays, parseISO, isValid } from 'date-fns';
+
+/**
+ * Data exposed to expressions
+ */
+export interface ExpressionScope {
+  input: Record<string, unknown>;
+  nodes: Record<string, unknown>; // Node results keyed by node ID ({ output, success, error })
+  execution: {
+    id: string;
+    workflowId: string;
+    [key: string]: unknown;
+  };
+  variables: Record<string, unknown>;
+}
+
+/**
+ * A single field that failed to resolve
+ */
+export interface ExpressionError {
+  field: string; // Dot path to the config field (e.g. 'headers.Authorization')
+  expression: string;
+  message: string;
+}
+
+export interface ResolveResult<T> {
+  value: T;
+  errors: ExpressionError[];
+}
+
+// Matches `{{ $... }}` anywhere in a string
+const EXPRESSION_PATTERN = /\{\{\s*(\$[\s\S]*?)\s*\}\}/g;
+// Matches a string that is exactly one expression (result keeps its type)
+const SINGLE_EXPRESSION_PATTERN = /^\s*\{\{\s*(\$[\s\S]*?)\s*\}\}\s*$/;
+
+const EVALUATION_TIMEOUT = 1000; // milliseconds per expression
+
+/**
+ * Read a value from an object using a JSON path (`$.a.b[0].c` or `a.b.0.c`)
+ */
+export function getByPath(source: unknown, path: string): unknown {
+  const normalized = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\w+)\]/g, '.$1')
+    .replace(/\["([^"]+)"\]/g, '.$1')
+    .replace(/\['([^']+)'\]/g, '.$1');
+
+  if (!normalized) {
+    return source;
+  }
+
+  let value: any = source;
+  for (const part of normalized.split('.')) {
+    if (part === '') continue;
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = value[part];
+  }
+  return value;
+}
+
+function toDate(value?: unknown): Date {
+  if (value === undefined || value === null) {
+    return new Date();
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return new Date(value);
+  }
+  const parsed = parseISO(String(value));
+  if (!isValid(parsed)) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Helper functions available inside expressions
+ */
+const helpers = {
+  // Date helpers
+  $now: () => new Date().toISOString(),
+  $today: () => format(new Date(), 'yyyy-MM-dd'),
+  $date: (value?: unknown, pattern?: string) =>
+    pattern ? format(toDate(value), pattern) : toDate(value).toISOString(),
+  $addDays: (value: unknown, days: number) => addDays(toDate(value), days).toISOString(),
+  $daysBetween: (from: unknown, to: unknown) => differenceInDays(toDate(to), toDate(from)),
+
+  // String helpers
+  $upper: (value: unknown) => String(value ?? '').toUpperCase(),
+  $lower: (value: unknown) => String(value ?? '').toLowerCase(),
+  $trim: (value: unknown) => String(value ?? '').trim(),
+  $slug: (value: unknown) =>
+    String(value ?? '')
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, ''),
+  $truncate: (value: unknown, length: number) => {
+    const text = String(value ?? '');
+    return text.length > length ? text.slice(0, length) : text;
+  },
+
+  // JSON helpers
+  $json: (value: unknown) => JSON.stringify(value),
+  $parse: (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value),
+  $jsonPath: (value: unknown, path: string) => getByPath(value, path),
+  $default: (value: unknown, fallback: unknown) =>
+    value === undefined || value === null || value === '' ? fallback : value,
+};
+
+/**
+ * Deep-copy scope data so expressions cannot mutate execution results
+ */
+function cloneForSandbox<T>(value: T): T {
+  if (value === undefined) {
+    return value;
+  }
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return value;
+  }
+}
+
+function stringifyForTemplate(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export class ExpressionService {
+  /**
+   * Check whether a value contains at least one expression
+   */
+  hasExpression(value: unknown): boolean {
+    if (typeof value === 'string') {
+      EXPRESSION_PATTERN.lastIndex = 0;
+      return EXPRESSION_PATTERN.test(value);
+    }
+    if (Array.isArray(value)) {
+      return value.some((item) => this.hasExpression(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.values(value).some((item) => this.hasExpression(item));
+    }
+    return false;
+  }
+
+  /**
+   * Evaluate a single expression body (without the surrounding braces)
+   */
+  evaluate(expression: string, scope: ExpressionScope, vm?: VM): unknown {
+    const sandboxVm = vm || this.createVM(scope);
+    return sandboxVm.run(`(${expression})`);
+  }
+
+  /**
+   * Resolve every expression in a node config.
+   *
+   * Fields that fail to resolve keep their raw value and are reported in
+   * `errors`, so the executor's own validation still applies.
+   */
+  resolveConfig<T>(config: T, scope: ExpressionScope): ResolveResult<T> {
+    const errors: ExpressionError[] = [];
+
+    if (!this.hasExpression(config)) {
+      return { value: config, errors };
+    }
+
+    const vm = this.createVM(scope);
+    const value = this.resolveValue(config, '', vm, scope, errors) as T;
+
+    return { value, errors };
+  }
+
+  private resolveValue(
+    value: unknown,
+    path: string,
+    vm: VM,
+    scope: ExpressionScope,
+    errors: ExpressionError[]
+  ): unknown {
+    if (typeof value === 'string') {
+      return this.resolveString(value, path, vm, scope, errors);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.resolveValue(item, path ? `${path}[${index}]` : `[${index}]`, vm, scope, errors)
+      );
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = this.resolveValue(item, path ? `${path}.${key}` : key, vm, scope, errors);
+      }
+      return resolved;
+    }
+
+    return value;
+  }
+
+  private resolveString(
+    value: string,
+    path: string,
+    vm: VM,
+    scope: ExpressionScope,
+    errors: ExpressionError[]
+  ): unknown {
+    // A field that is exactly one expression keeps the expression's type
+    const single = value.match(SINGLE_EXPRESSION_PATTERN);
+    if (single && !single[1].includes('{{')) {
+      try {
+        return this.evaluate(single[1], scope, vm);
+      } catch (error: any) {
+        errors.push({ field: path, expression: single[1], message: error.message || String(error) });
+        return value;
+      }
+    }
+
+    let failed = false;
+    const interpolated = value.replace(EXPRESSION_PATTERN, (match, expression: string) => {
+      try {
+        return stringifyForTemplate(this.evaluate(expression, scope, vm));
+      } catch (error: any) {
+        failed = true;
+        errors.push({ field: path, expression, message: error.message || String(error) });
+        return match;
+      }
+    });
+
+    return failed ? value : interpolated;
+  }
+
+  private createVM(scope: ExpressionScope): VM {
+    return new VM({
+      timeout: EVALUATION_TIMEOUT,
+      eval: false,
+      wasm: false,
+      sandbox: {
+        $input: cloneForSandbox(scope.input),
+        $node: cloneForSandbox(scope.nodes),
+        $execution: cloneForSandbox(scope.execution),
+        $workflow: { id: scope.execution.workflowId },
+        $vars: cloneForSandbox(scope.variables),
+        ...helpers,
+      },
+    });
+  }
+}
+
+export const expressionService = new ExpressionService();
@@ -1,6 +1,6 @@
 import { AgentFramework, AgentFrameworkMetadata } from '../agentFramework';
 import { AgentConfig, AgentResponse } from '../agentService';
-import { langchainService } from '../langchainService';
+import { langchainService, LLMConfig } from '../langchainService';
 
 /**
  * AgentGPT Framework Implementation
@@ -56,7 +56,9 @@ export class AgentGPTFramework implements AgentFramework {
       const response = await langchainService.generateText(
         query,
         {
-          provider: provider as 'openai' | 'anthropic',
+          provider: provider as LLMConfig['provider'],
+          providerId: config.providerId,
+          organizationId: config.organizationId,
           model,
           systemPrompt,
           temperature: config.temperature || 0.7,
@@ -1,6 +1,6 @@
 import { AgentFramework, AgentFrameworkMetadata } from '../agentFramework';
 import { AgentConfig, AgentResponse } from '../agentService';
-import { langchainService } from '../langchainService';
+import { langchainService, LLMConfig } from '../langchainService';
 import { langtoolsService } from '../langtoolsService';
 import { Tool } from '@langchain/core/tools';
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
@@ -71,7 +71,7 @@ Always think step by step and explain your reasoning.`;
 
     try {
       // Create planning graph
-      const graph = this.createPlanningGraph(model, provider, systemPrompt, tools, maxIterations);
+      const graph = this.createPlanningGraph(model, provider, { providerId: config.providerId, organizationId: config.organizationId }, systemPrompt, tools, maxIterations);
 
       // Initial state
       const initialState = {
@@ -117,6 +117,7 @@ Always think step by step and explain your reasoning.`;
   private createPlanningGraph(
     model: string,
     provider: string,
+    endpoint: Pick<LLMConfig, 'providerId' | 'organizationId'>,
     systemPrompt: string,
     tools: Tool[],
     maxIterations: number
@@ -168,7 +169,8 @@ Break down this goal into 3-5 specific, actionable sub-tasks. List them as:
 ...`;
 
         const response = await langchainService.generateText(planningPrompt, {
-          provider: provider as 'openai' | 'anthropic',
+          provider: provider as LLMConfig['provider'],
+          ...endpoint,
           model,
         });
 
@@ -211,7 +213,8 @@ Completed Tasks: ${state.completedTasks.join(', ')}
 Execute this task. If you need to use tools, specify which tool and what input.`;
 
       const response = await langchainService.generateText(executionPrompt, {
-        provider: provider as 'openai' | 'anthropic',
+        provider: provider as LLMConfig['provider'],
+        ...endpoint,
         model,
       });
 
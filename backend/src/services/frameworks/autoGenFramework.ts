@@ -1,6 +1,6 @@
 import { AgentFramework, AgentFrameworkMetadata } from '../agentFramework';
 import { AgentConfig, AgentResponse } from '../agentService';
-import { langchainService } from '../langchainService';
+import { langchainService, LLMConfig } from '../langchainService';
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
 import { langtoolsService } from '../langtoolsService';
@@ -65,7 +65,7 @@ export class AutoGenFramework implements AgentFramework {
 
     try {
       // Create collaborative graph
-      const graph = this.createCollaborativeGraph(model, provider, systemPrompt, agents, tools, maxIterations);
+      const graph = this.createCollaborativeGraph(model, provider, { providerId: config.providerId, organizationId: config.organizationId }, systemPrompt, agents, tools, maxIterations);
 
       // Initial state
       const initialState = {
@@ -132,6 +132,7 @@ export class AutoGenFramework implements AgentFramework {
   private createCollaborativeGraph(
     model: string,
     provider: string,
+    endpoint: Pick<LLMConfig, 'providerId' | 'organizationId'>,
     systemPrompt: string,
     agents: Array<{ name: string; role: string; tools: string[]; prompt: string }>,
     tools: Tool[],
@@ -211,7 +212,8 @@ Available tools: ${currentAgent.tools.join(', ')}
 Provide your contribution. If you need to use tools, specify which tool and input:`;
 
       const response = await langchainService.generateText(agentPrompt, {
-        provider: provider as 'openai' | 'anthropic',
+        provider: provider as LLMConfig['provider'],
+        ...endpoint,
         model,
       });
 
@@ -251,7 +253,8 @@ ${allOutputs}
 Synthesize all contributions into a comprehensive final answer:`;
 
       const response = await langchainService.generateText(coordinationPrompt, {
-        provider: provider as 'openai' | 'anthropic',
+        provider: provider as LLMConfig['provider'],
+        ...endpoint,
         model,
       });
 
@@ -1,6 +1,6 @@
 import { AgentFramework, AgentFrameworkMetadata } from '../agentFramework';
 import { AgentConfig, AgentResponse } from '../agentService';
-import { langchainService } from '../langchainService';
+import { langchainService, LLMConfig } from '../langchainService';
 import { StateGraph, END, START, Annotation } from '@langchain/langgraph';
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
 
@@ -62,7 +62,7 @@ export class MetaGPTFramework implements AgentFramework {
 
     try {
       // Create multi-role graph
-      const graph = this.createMultiRoleGraph(model, provider, systemPrompt, roles, maxIterations);
+      const graph = this.createMultiRoleGraph(model, provider, { providerId: config.providerId, organizationId: config.organizationId }, systemPrompt, roles, maxIterations);
 
       // Initial state
       const initialState = {
@@ -139,6 +139,7 @@ export class MetaGPTFramework implements AgentFramework {
   private createMultiRoleGraph(
     model: string,
     provider: string,
+    endpoint: Pick<LLMConfig, 'providerId' | 'organizationId'>,
     systemPrompt: string,
     roles: Array<{ name: string; expertise: string; prompt: string }>,
     maxIterations: number
@@ -200,7 +201,8 @@ ${previousOutputs || 'None yet'}
 Provide your contribution to achieving this goal:`;
 
       const response = await langchainService.generateText(rolePrompt, {
-        provider: provider as 'openai' | 'anthropic',
+        provider: provider as LLMConfig['provider'],
+        ...endpoint,
         model,
       });
 
@@ -230,7 +232,8 @@ ${allOutputs}
 Synthesize all contributions into a final, comprehensive answer:`;
 
       const response = await langchainService.generateText(consensusPrompt, {
-        provider: provider as 'openai' | 'anthropic',
+        provider: provider as LLMConfig['provider'],
+        ...endpoint,
         model,
       });
 
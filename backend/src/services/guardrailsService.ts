@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { posthogService } from './posthogService';
 import { featureFlagService } from './featureFlagService';
 import { langchainService } from './langchainService';
+import { LLMProviderType } from './costCalculationService';
 import { similarityService, SimilarityMethod } from './similarityService';
 import { guardrailsAIService, GuardrailsAIOptions, GuardrailsAIValidationResult } from './guardrailsAIService';
 import { rateLimitService } from './rateLimitService';
@@ -773,7 +774,7 @@ export class GuardrailsService {
       maxTokens?: number; // Maximum token estimate (default: 128000 for GPT-4)
       warnThreshold?: number; // Warning threshold as percentage of max (default: 0.8 = 80%)
       model?: string; // Current model being used
-      provider?: 'openai' | 'anthropic' | 'google';
+      provider?: LLMProviderType;
     } = {}
   ): PromptLengthResult {
     const {
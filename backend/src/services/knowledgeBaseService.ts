@@ -0,0 +1,559 @@
+import { db } from '../config/database';
+import { vectorIndexes, vectorDocuments, knowledgeSources } from '../../drizzle/schema';
+import { eq, and, desc, asc, ilike, sql } from 'drizzle-orm';
+import { databaseStore, DistanceMetric, AnnIndexType } from './vectorStore';
+import { langchainService, EmbeddingConfig } from './langchainService';
+import { llmProviderService } from './llmProviderService';
+import { parseFileContent } from './nodeExecutors/rag';
+
+export type KnowledgeBase = typeof vectorIndexes.$inferSelect & {
+  documentCount: number;
+  sourceCount: number;
+};
+
+export type KnowledgeSource = Omit<typeof knowledgeSources.$inferSelect, 'content'>;
+
+export interface KnowledgeDocument {
+  id: string;
+  sourceId: string | null;
+  text: string;
+  metadata: Record<string, unknown>;
+  dimensions: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AddSourceInput {
+  name: string;
+  file?: string; // Data URI (PDF, DOCX, text)
+  text?: string;
+  fileType?: string; // 'auto', 'pdf', 'docx', 'txt'
+  chunkSize?: number;
+  chunkOverlap?: number;
+  chunkStrategy?: 'fixed' | 'sentence' | 'paragraph';
+  metadata?: Record<string, unknown>;
+}
+
+// Chunks embedded per embedding request
+const EMBEDDING_BATCH_SIZE = 100;
+
+const sourceColumns = {
+  id: knowledgeSources.id,
+  indexId: knowledgeSources.indexId,
+  organizationId: knowledgeSources.organizationId,
+  name: knowledgeSources.name,
+  type: knowledgeSources.type,
+  mimeType: knowledgeSources.mimeType,
+  sizeBytes: knowledgeSources.sizeBytes,
+  chunkSize: knowledgeSources.chunkSize,
+  chunkOverlap: knowledgeSources.chunkOverlap,
+  chunkStrategy: knowledgeSources.chunkStrategy,
+  chunkCount: knowledgeSources.chunkCount,
+  metadata: knowledgeSources.metadata,
+  status: knowledgeSources.status,
+  error: knowledgeSources.error,
+  createdBy: knowledgeSources.createdBy,
+  createdAt: knowledgeSources.createdAt,
+  updatedAt: knowledgeSources.updatedAt,
+};
+
+const documentColumns = {
+  id: vectorDocuments.id,
+  sourceId: vectorDocuments.sourceId,
+  text: vectorDocuments.text,
+  metadata: vectorDocuments.metadata,
+  dimensions: vectorDocuments.dimensions,
+  createdAt: vectorDocuments.createdAt,
+  updatedAt: vectorDocuments.updatedAt,
+};
+
+export interface KnowledgeBaseEmbeddingSettings {
+  embeddingProviderId?: string | null; // Organization LLM provider; OpenAI when unset
+  embeddingModel?: string | null;
+}
+
+// Embedding model of a knowledge base, as the RAG nodes configure theirs
+function getEmbeddingConfig(knowledgeBase: KnowledgeBase): EmbeddingConfig | undefined {
+  const providerId = knowledgeBase.embeddingProviderId || undefined;
+  const model = knowledgeBase.embeddingModel || undefined;
+  if (!providerId && !model) {
+    return undefined;
+  }
+  return { provider: providerId ? 'openai_compatible' : 'openai', providerId, organizationId: knowledgeBase.organizationId, model };
+}
+
+function toDocument(row: { metadata: unknown } & Omit<KnowledgeDocument, 'metadata'>): KnowledgeDocument {
+  return { ...row, metadata: (row.metadata || {}) as Record<string, unknown> };
+}
+
+/**
+ * Knowledge Base Service
+ *
+ * Manages the vector indexes of the database provider as knowledge bases:
+ * uploads are parsed (PDF/OCR, DOCX, text) and chunked like the Document
+ * Ingestion node, embedded, and stored with their source so they can be
+ * browsed, edited, deleted and re-embedded without a workflow. Every
+ * embedding of a knowledge base uses its embedding provider and model.
+ * Workflows query a knowledge base by its name (indexName).
+ */
+export class KnowledgeBaseService {
+  async list(organizationId: string): Promise<KnowledgeBase[]> {
+    const rows = await db
+      .select({
+        index: vectorIndexes,
+        documentCount: sql<number>`(select count(*) from ${vectorDocuments} where ${vectorDocuments.indexId} = ${vectorIndexes.id})::int`,
+        sourceCount: sql<number>`(select count(*) from ${knowledgeSources} where ${knowledgeSources.indexId} = ${vectorIndexes.id})::int`,
+      })
+      .from(vectorIndexes)
+      .where(and(eq(vectorIndexes.organizationId, organizationId), eq(vectorIndexes.provider, 'database')))
+      .orderBy(asc(vectorIndexes.name));
+
+    return rows.map(({ index, documentCount, sourceCount }) => ({ ...index, documentCount, sourceCount }));
+  }
+
+  async get(organizationId: string, id: string): Promise<KnowledgeBase | null> {
+    const [row] = await db
+      .select({
+        index: vectorIndexes,
+        documentCount: sql<number>`(select count(*) from ${vectorDocuments} where ${vectorDocuments.indexId} = ${vectorIndexes.id})::int`,
+        sourceCount: sql<number>`(select count(*) from ${knowledgeSources} where ${knowledgeSources.indexId} = ${vectorIndexes.id})::int`,
+      })
+      .from(vectorIndexes)
+      .where(and(eq(vectorIndexes.id, id), eq(vectorIndexes.organizationId, organizationId)))
+      .limit(1);
+
+    return row ? { ...row.index, documentCount: row.documentCount, sourceCount: row.sourceCount } : null;
+  }
+
+  /**
+   * Create a knowledge base. Names are unique per organization.
+   */
+  async create(
+    organizationId: string,
+    data: {
+      name: string;
+      description?: string;
+      distanceMetric?: DistanceMetric;
+      annIndexType?: AnnIndexType;
+    } & KnowledgeBaseEmbeddingSettings
+  ): Promise<KnowledgeBase> {
+    const [existing] = await db
+      .select({ id: vectorIndexes.id })
+      .from(vectorIndexes)
+      .where(and(eq(vectorIndexes.organizationId, organizationId), eq(vectorIndexes.name, data.name)))
+      .limit(1);
+
+    if (existing) {
+      throw new Error('Knowledge base already exists');
+    }
+    if (data.embeddingProviderId) {
+      await this.requireEmbeddingProvider(organizationId, data.embeddingProviderId);
+    }
+
+    const [index] = await db
+      .insert(vectorIndexes)
+      .values({
+        organizationId,
+        name: data.name,
+        provider: 'database',
+        description: data.description || null,
+        distanceMetric: data.distanceMetric || 'cosine',
+        annIndexType: data.annIndexType || 'hnsw',
+        embeddingProviderId: data.embeddingProviderId || null,
+        embeddingModel: data.embeddingModel || null,
+      })
+      .returning();
+
+    return { ...index, documentCount: 0, sourceCount: 0 };
+  }
+
+  /**
+   * Update a knowledge base. Chunks embedded before an embedding model
+   * change keep their vectors until the knowledge base is re-embedded.
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    data: { description?: string | null } & KnowledgeBaseEmbeddingSettings
+  ): Promise<KnowledgeBase> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    if (data.embeddingProviderId) {
+      await this.requireEmbeddingProvider(organizationId, data.embeddingProviderId);
+    }
+
+    await db
+      .update(vectorIndexes)
+      .set({
+        description: data.description ?? knowledgeBase.description,
+        embeddingProviderId: data.embeddingProviderId !== undefined ? data.embeddingProviderId : knowledgeBase.embeddingProviderId,
+        embeddingModel: data.embeddingModel !== undefined ? data.embeddingModel : knowledgeBase.embeddingModel,
+        updatedAt: new Date(),
+      })
+      .where(eq(vectorIndexes.id, id));
+
+    return (await this.get(organizationId, id))!;
+  }
+
+  /**
+   * Delete a knowledge base with all its sources and chunks
+   */
+  async delete(organizationId: string, id: string): Promise<void> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    await databaseStore.deleteIndex(organizationId, knowledgeBase.name);
+  }
+
+  async listSources(organizationId: string, id: string): Promise<KnowledgeSource[]> {
+    await this.requireKnowledgeBase(organizationId, id);
+
+    return db
+      .select(sourceColumns)
+      .from(knowledgeSources)
+      .where(eq(knowledgeSources.indexId, id))
+      .orderBy(desc(knowledgeSources.createdAt));
+  }
+
+  /**
+   * Upload a file or text: extract its text, chunk, embed and store the
+   * chunks. A source that fails to process is kept with status 'failed'
+   * and the error, so the upload can be inspected and retried.
+   */
+  async addSource(organizationId: string, id: string, userId: string | null, input: AddSourceInput): Promise<KnowledgeSource> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    if (!input.file && !input.text) {
+      throw new Error('File or text is required');
+    }
+
+    const mimeType = input.file ? input.file.slice(5, input.file.indexOf(';')) || null : 'text/plain';
+    const [source] = await db
+      .insert(knowledgeSources)
+      .values({
+        indexId: id,
+        organizationId,
+        name: input.name,
+        type: input.file ? 'file' : 'text',
+        mimeType,
+        sizeBytes: input.file
+          ? Math.floor(((input.file.split(',')[1] || '').length * 3) / 4)
+          : Buffer.byteLength(input.text!, 'utf-8'),
+        chunkSize: input.chunkSize || 1000,
+        chunkOverlap: input.chunkOverlap ?? 200,
+        chunkStrategy: input.chunkStrategy || 'fixed',
+        metadata: input.metadata || null,
+        status: 'processing',
+        createdBy: userId,
+      })
+      .returning();
+
+    try {
+      const content = input.file ? await parseFileContent(input.file, input.fileType || 'auto') : input.text!;
+      await db.update(knowledgeSources).set({ content }).where(eq(knowledgeSources.id, source.id));
+
+      const chunkCount = await this.ingest(organizationId, knowledgeBase, source, content);
+
+      await db
+        .update(knowledgeSources)
+        .set({ status: 'ready', chunkCount, error: null, updatedAt: new Date() })
+        .where(eq(knowledgeSources.id, source.id));
+    } catch (error: any) {
+      console.error(`[KnowledgeBase] Failed to process source ${source.id}:`, error);
+      await db
+        .update(knowledgeSources)
+        .set({ status: 'failed', error: error.message || 'Processing failed', updatedAt: new Date() })
+        .where(eq(knowledgeSources.id, source.id));
+    }
+
+    return this.requireSource(id, source.id);
+  }
+
+  /**
+   * Re-chunk and re-embed a source from its extracted text, e.g. with other
+   * chunk settings or after a failed upload
+   */
+  async reprocessSource(
+    organizationId: string,
+    id: string,
+    sourceId: string,
+    settings: Pick<AddSourceInput, 'chunkSize' | 'chunkOverlap' | 'chunkStrategy'> = {}
+  ): Promise<KnowledgeSource> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    const [source] = await db
+      .select()
+      .from(knowledgeSources)
+      .where(and(eq(knowledgeSources.id, sourceId), eq(knowledgeSources.indexId, id)))
+      .limit(1);
+
+    if (!source) {
+      throw new Error('Source not found');
+    }
+    if (!source.content) {
+      throw new Error('Source has no extracted text; upload it again');
+    }
+
+    const updated = {
+      ...source,
+      chunkSize: settings.chunkSize || source.chunkSize,
+      chunkOverlap: settings.chunkOverlap ?? source.chunkOverlap,
+      chunkStrategy: settings.chunkStrategy || source.chunkStrategy,
+    };
+
+    try {
+      await db.delete(vectorDocuments).where(eq(vectorDocuments.sourceId, sourceId));
+      const chunkCount = await this.ingest(organizationId, knowledgeBase, updated, source.content);
+
+      await db
+        .update(knowledgeSources)
+        .set({
+          chunkSize: updated.chunkSize,
+          chunkOverlap: updated.chunkOverlap,
+          chunkStrategy: updated.chunkStrategy,
+          status: 'ready',
+          chunkCount,
+          error: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(knowledgeSources.id, sourceId));
+    } catch (error: any) {
+      console.error(`[KnowledgeBase] Failed to reprocess source ${sourceId}:`, error);
+      await db
+        .update(knowledgeSources)
+        .set({ status: 'failed', chunkCount: 0, error: error.message || 'Processing failed', updatedAt: new Date() })
+        .where(eq(knowledgeSources.id, sourceId));
+    }
+
+    return this.requireSource(id, sourceId);
+  }
+
+  /**
+   * Delete a source and its chunks
+   */
+  async deleteSource(organizationId: string, id: string, sourceId: string): Promise<void> {
+    await this.requireKnowledgeBase(organizationId, id);
+    await this.requireSource(id, sourceId);
+    await db.delete(knowledgeSources).where(eq(knowledgeSources.id, sourceId));
+  }
+
+  async listDocuments(
+    organizationId: string,
+    id: string,
+    options: { sourceId?: string; search?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ documents: KnowledgeDocument[]; total: number }> {
+    await this.requireKnowledgeBase(organizationId, id);
+
+    const conditions = [eq(vectorDocuments.indexId, id)];
+    if (options.sourceId) {
+      conditions.push(eq(vectorDocuments.sourceId, options.sourceId));
+    }
+    if (options.search) {
+      conditions.push(ilike(vectorDocuments.text, `%${options.search.replace(/[\\%_]/g, '\\$&')}%`));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select(documentColumns)
+        .from(vectorDocuments)
+        .where(and(...conditions))
+        .orderBy(asc(vectorDocuments.createdAt), asc(vectorDocuments.id))
+        .limit(options.limit || 50)
+        .offset(options.offset || 0),
+      db.select({ total: sql<number>`count(*)::int` }).from(vectorDocuments).where(and(...conditions)),
+    ]);
+
+    return { documents: rows.map(toDocument), total };
+  }
+
+  async getDocument(organizationId: string, id: string, documentId: string): Promise<KnowledgeDocument | null> {
+    await this.requireKnowledgeBase(organizationId, id);
+
+    const [row] = await db
+      .select(documentColumns)
+      .from(vectorDocuments)
+      .where(and(eq(vectorDocuments.id, documentId), eq(vectorDocuments.indexId, id)))
+      .limit(1);
+
+    return row ? toDocument(row) : null;
+  }
+
+  /**
+   * Edit a chunk; a changed text is embedded again
+   */
+  async updateDocument(
+    organizationId: string,
+    id: string,
+    documentId: string,
+    data: { text?: string; metadata?: Record<string, unknown> }
+  ): Promise<KnowledgeDocument> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    const document = await this.getDocument(organizationId, id, documentId);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    const text = data.text ?? document.text;
+    const [embedding] = data.text !== undefined && data.text !== document.text
+      ? await langchainService.generateEmbeddings([text], getEmbeddingConfig(knowledgeBase))
+      : [null];
+
+    if (embedding) {
+      await databaseStore.upsert(organizationId, knowledgeBase.name, [
+        { id: documentId, text, embedding, metadata: data.metadata ?? document.metadata },
+      ]);
+    } else {
+      await db
+        .update(vectorDocuments)
+        .set({ metadata: data.metadata ?? document.metadata, updatedAt: new Date() })
+        .where(eq(vectorDocuments.id, documentId));
+    }
+
+    return (await this.getDocument(organizationId, id, documentId))!;
+  }
+
+  async deleteDocument(organizationId: string, id: string, documentId: string): Promise<void> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    const document = await this.getDocument(organizationId, id, documentId);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    await databaseStore.delete(organizationId, knowledgeBase.name, [documentId]);
+    if (document.sourceId) {
+      await db
+        .update(knowledgeSources)
+        .set({ chunkCount: sql`greatest(${knowledgeSources.chunkCount} - 1, 0)`, updatedAt: new Date() })
+        .where(eq(knowledgeSources.id, document.sourceId));
+    }
+  }
+
+  /**
+   * Embed the chunks of a knowledge base (or one source) again with its
+   * current embedding model. When the model's dimensions changed, the whole
+   * knowledge base has to be re-embedded.
+   */
+  async reembed(organizationId: string, id: string, sourceId?: string): Promise<{ reembedded: number; dimensions: number | null }> {
+    const knowledgeBase = await this.requireKnowledgeBase(organizationId, id);
+    if (sourceId) {
+      await this.requireSource(id, sourceId);
+    }
+
+    const conditions = [eq(vectorDocuments.indexId, id)];
+    if (sourceId) {
+      conditions.push(eq(vectorDocuments.sourceId, sourceId));
+    }
+
+    let dimensions = knowledgeBase.dimensions;
+    let reembedded = 0;
+    let lastId = '';
+
+    for (;;) {
+      const batch = await db
+        .select({ id: vectorDocuments.id, text: vectorDocuments.text })
+        .from(vectorDocuments)
+        .where(and(...conditions, sql`${vectorDocuments.id} > ${lastId}`))
+        .orderBy(asc(vectorDocuments.id))
+        .limit(EMBEDDING_BATCH_SIZE);
+
+      if (batch.length === 0) break;
+
+      const embeddings = await langchainService.generateEmbeddings(batch.map((doc) => doc.text), getEmbeddingConfig(knowledgeBase));
+      const size = embeddings[0]?.length;
+      if (size && size !== dimensions) {
+        if (sourceId || reembedded > 0) {
+          throw new Error(
+            `The embedding model returns ${size}-dimensional vectors but knowledge base "${knowledgeBase.name}" stores ${dimensions}-dimensional vectors; re-embed the whole knowledge base`
+          );
+        }
+        await databaseStore.resizeIndex(organizationId, knowledgeBase.name, size);
+        dimensions = size;
+      }
+
+      for (let i = 0; i < batch.length; i++) {
+        await db
+          .update(vectorDocuments)
+          .set({ embedding: embeddings[i], dimensions: embeddings[i].length, updatedAt: new Date() })
+          .where(eq(vectorDocuments.id, batch[i].id));
+      }
+
+      reembedded += batch.length;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    if (reembedded > 0) {
+      await databaseStore.rebuildAnnIndex(organizationId, knowledgeBase.name);
+    }
+
+    return { reembedded, dimensions };
+  }
+
+  private async requireKnowledgeBase(organizationId: string, id: string): Promise<KnowledgeBase> {
+    const knowledgeBase = await this.get(organizationId, id);
+    if (!knowledgeBase) {
+      throw new Error('Knowledge base not found');
+    }
+    return knowledgeBase;
+  }
+
+  // Embedding provider of the organization, enabled
+  private async requireEmbeddingProvider(organizationId: string, providerId: string): Promise<void> {
+    try {
+      await llmProviderService.resolve(organizationId, providerId);
+    } catch (error: any) {
+      throw new Error(`Invalid embedding provider: ${error.message}`);
+    }
+  }
+
+  private async requireSource(id: string, sourceId: string): Promise<KnowledgeSource> {
+    const [source] = await db
+      .select(sourceColumns)
+      .from(knowledgeSources)
+      .where(and(eq(knowledgeSources.id, sourceId), eq(knowledgeSources.indexId, id)))
+      .limit(1);
+
+    if (!source) {
+      throw new Error('Source not found');
+    }
+    return source;
+  }
+
+  // Chunk, embed and store the text of a source; returns the chunk count
+  private async ingest(
+    organizationId: string,
+    knowledgeBase: KnowledgeBase,
+    source: Pick<typeof knowledgeSources.$inferSelect, 'id' | 'name' | 'chunkSize' | 'chunkOverlap' | 'chunkStrategy' | 'metadata'>,
+    content: string
+  ): Promise<number> {
+    const { chunks } = await langchainService.chunkText(
+      content,
+      source.chunkSize,
+      source.chunkOverlap,
+      source.chunkStrategy as 'fixed' | 'sentence' | 'paragraph'
+    );
+    if (chunks.length === 0) {
+      throw new Error('No text could be extracted');
+    }
+
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const embeddings = await langchainService.generateEmbeddings(batch, getEmbeddingConfig(knowledgeBase));
+
+      await databaseStore.upsert(
+        organizationId,
+        knowledgeBase.name,
+        batch.map((text, i) => ({
+          id: `${source.id}_${start + i}`,
+          text,
+          embedding: embeddings[i],
+          sourceId: source.id,
+          metadata: {
+            ...((source.metadata as Record<string, unknown>) || {}),
+            source: source.name,
+            sourceId: source.id,
+            chunkIndex: start + i,
+          },
+        }))
+      );
+    }
+
+    return chunks.length;
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
@@ -1,16 +1,28 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { ChatOpenAI, AzureChatOpenAI } from "@langchain/openai";
 import { ChatAnthropic } from "@langchain/anthropic";
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { OpenAIEmbeddings, AzureOpenAIEmbeddings } from "@langchain/openai";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { Document } from "@langchain/core/documents";
-import { costCalculationService } from "./costCalculationService";
+import { AIMessage, AIMessageChunk } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { costCalculationService, LLMProviderType, ModelPricing } from "./costCalculationService";
+import { llmProviderService, getCatalogPricing, ResolvedLLMProvider } from "./llmProviderService";
 
 export interface LLMConfig {
-  provider: 'openai' | 'anthropic' | 'google';
+  provider: LLMProviderType;
   model: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  providerId?: string; // Organization LLM provider, required for 'openai_compatible'
+  organizationId?: string | null; // Organization that owns providerId
+}
+
+export interface EmbeddingConfig {
+  provider?: 'openai' | 'openai_compatible';
+  providerId?: string;
+  organizationId?: string | null;
+  model?: string;
 }
 
 export interface LLMResponse {
@@ -20,6 +32,22 @@ export interface LLMResponse {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Replace {{key}} placeholders in a prompt
+ */
+export function applyPromptVariables(prompt: string, variables?: Record<string, unknown>): string {
+  let processedPrompt = prompt;
+  if (variables) {
+    Object.entries(variables).forEach(([key, value]) => {
+      processedPrompt = processedPrompt.replace(
+        new RegExp(`\\{\\{${key}\\}\\}`, 'g'),
+        String(value)
+      );
+    });
+  }
+  return processedPrompt;
+}
+
 /**
  * LangChain Service - Wrapper around LangChain for AI operations
  * This service provides LangChain functionality while maintaining compatibility
@@ -62,49 +90,15 @@ export class LangChainService {
   async generateText(
     prompt: string,
     config: LLMConfig,
-    variables?: Record<string, unknown>
+    variables?: Record<string, unknown>,
+    signal?: AbortSignal,
+    onToken?: (token: string) => void
   ): Promise<LLMResponse> {
-    // Replace variables in prompt
-    let processedPrompt = prompt;
-    if (variables) {
-      Object.entries(variables).forEach(([key, value]) => {
-        processedPrompt = processedPrompt.replace(
-          new RegExp(`\\{\\{${key}\\}\\}`, 'g'),
-          String(value)
-        );
-      });
-    }
+    const processedPrompt = applyPromptVariables(prompt, variables);
 
-    let llm: ChatOpenAI | ChatAnthropic;
-    
-    switch (config.provider) {
-      case 'openai':
-        if (!this.openaiLLM) {
-          throw new Error('OpenAI API key not configured');
-        }
-        // Create new instance with custom config
-        llm = new ChatOpenAI({
-          modelName: config.model,
-          temperature: config.temperature ?? 0.7,
-          maxTokens: config.maxTokens,
-          openAIApiKey: process.env.OPENAI_API_KEY,
-        });
-        break;
-      case 'anthropic':
-        if (!this.anthropicLLM) {
-          throw new Error('Anthropic API key not configured');
-        }
-        // Create new instance with custom config
-        llm = new ChatAnthropic({
-          modelName: config.model,
-          temperature: config.temperature ?? 0.7,
-          maxTokens: config.maxTokens,
-          anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-        });
-        break;
-      default:
-        throw new Error(`Unsupported provider: ${config.provider}`);
-    }
+    // Both chat model classes share BaseChatModel's invoke and stream
+    const { llm: chatModel, pricing } = await this.createChatModel(config);
+    const llm: BaseChatModel = chatModel;
 
     // Add system prompt if provided
     let messages: any[] = [];
@@ -119,10 +113,25 @@ export class LangChainService {
       content: processedPrompt,
     });
 
-    const response = await llm.invoke(processedPrompt);
+    // Streamed calls report tokens as they arrive; the chunks add up to the full message
+    let response: AIMessage | AIMessageChunk;
+    if (onToken) {
+      let aggregate: AIMessageChunk | undefined;
+      for await (const chunk of await llm.stream(processedPrompt, { signal })) {
+        if (chunk.text) {
+          onToken(chunk.text);
+        }
+        aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+      }
+      response = aggregate ?? new AIMessageChunk({ content: '' });
+    } else {
+      response = await llm.invoke(processedPrompt, { signal });
+    }
     
-    // Extract token usage if available
-    const tokenUsage = (response.response_metadata as any)?.tokenUsage;
+    // Extract token usage if available (streams only report usage_metadata)
+    const tokenUsage = (response.response_metadata as any)?.tokenUsage ?? (response.usage_metadata
+      ? { promptTokens: response.usage_metadata.input_tokens, completionTokens: response.usage_metadata.output_tokens }
+      : undefined);
     const tokensUsed = tokenUsage 
       ? (tokenUsage.promptTokens || 0) + (tokenUsage.completionTokens || 0)
       : undefined;
@@ -140,18 +149,21 @@ export class LangChainService {
           inputTokens: tokenUsage.inputTokens,
           outputTokens: tokenUsage.outputTokens,
           totalTokens: tokensUsed,
-        }
+        },
+        pricing
       );
       cost = costDetails.totalCost;
     }
 
     return {
-      content: response.content as string,
+      content: onToken ? response.text : response.content as string,
       tokensUsed,
       cost,
       metadata: {
         model: config.model,
         provider: config.provider,
+        providerId: config.providerId,
+        pricing,
         costDetails,
         ...response.response_metadata,
       },
@@ -161,25 +173,123 @@ export class LangChainService {
   /**
    * Generate embeddings using LangChain
    */
-  async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.embeddings) {
-      throw new Error('OpenAI API key not configured for embeddings');
-    }
-
-    const embedding = await this.embeddings.embedQuery(text);
-    return embedding;
+  async generateEmbedding(text: string, config?: EmbeddingConfig): Promise<number[]> {
+    const embeddings = await this.getEmbeddings(config);
+    return embeddings.embedQuery(text);
   }
 
   /**
    * Generate embeddings for multiple texts
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], config?: EmbeddingConfig): Promise<number[][]> {
+    const embeddings = await this.getEmbeddings(config);
+    return embeddings.embedDocuments(texts);
+  }
+
+  /**
+   * Create the chat model for a config. Organization providers are called
+   * through their base URL with their own key and headers; the returned
+   * pricing comes from the provider's model catalogue.
+   */
+  async createChatModel(config: LLMConfig): Promise<{ llm: ChatOpenAI | ChatAnthropic; pricing?: ModelPricing }> {
+    switch (config.provider) {
+      case 'openai':
+        if (!this.openaiLLM) {
+          throw new Error('OpenAI API key not configured');
+        }
+        // Create new instance with custom config
+        return {
+          llm: new ChatOpenAI({
+            modelName: config.model,
+            temperature: config.temperature ?? 0.7,
+            maxTokens: config.maxTokens,
+            openAIApiKey: process.env.OPENAI_API_KEY,
+          }),
+        };
+      case 'anthropic':
+        if (!this.anthropicLLM) {
+          throw new Error('Anthropic API key not configured');
+        }
+        // Create new instance with custom config
+        return {
+          llm: new ChatAnthropic({
+            modelName: config.model,
+            temperature: config.temperature ?? 0.7,
+            maxTokens: config.maxTokens,
+            anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+          }),
+        };
+      case 'openai_compatible': {
+        const provider = await this.resolveProvider(config.providerId, config.organizationId);
+        const options = {
+          temperature: config.temperature ?? 0.7,
+          maxTokens: config.maxTokens,
+        };
+        const llm = provider.type === 'azure_openai'
+          ? new AzureChatOpenAI({
+              ...options,
+              azureOpenAIApiKey: provider.apiKey,
+              azureOpenAIEndpoint: provider.baseUrl,
+              azureOpenAIApiDeploymentName: config.model,
+              azureOpenAIApiVersion: provider.apiVersion,
+              configuration: { defaultHeaders: provider.headers },
+            })
+          : new ChatOpenAI({
+              ...options,
+              model: config.model,
+              // Local servers (Ollama, LM Studio) accept any key, the client requires one
+              apiKey: provider.apiKey || 'not-needed',
+              configuration: { baseURL: provider.baseUrl, defaultHeaders: provider.headers },
+            });
+        return { llm, pricing: getCatalogPricing(provider, config.model) };
+      }
+      default:
+        throw new Error(`Unsupported provider: ${config.provider}`);
+    }
+  }
+
+  private async getEmbeddings(config?: EmbeddingConfig): Promise<OpenAIEmbeddings> {
+    if (config?.provider === 'openai_compatible' || config?.providerId) {
+      const provider = await this.resolveProvider(config.providerId, config.organizationId);
+      const model = config.model
+        || provider.models.find((entry) => entry.type === 'embedding')?.id;
+      if (!model) {
+        throw new Error(`LLM provider "${provider.name}" has no embedding model configured`);
+      }
+
+      if (provider.type === 'azure_openai') {
+        return new AzureOpenAIEmbeddings({
+          azureOpenAIApiKey: provider.apiKey,
+          azureOpenAIEndpoint: provider.baseUrl,
+          azureOpenAIApiDeploymentName: model,
+          azureOpenAIApiVersion: provider.apiVersion,
+          configuration: { defaultHeaders: provider.headers },
+        });
+      }
+      return new OpenAIEmbeddings({
+        model,
+        apiKey: provider.apiKey || 'not-needed',
+        configuration: { baseURL: provider.baseUrl, defaultHeaders: provider.headers },
+      });
+    }
+
     if (!this.embeddings) {
       throw new Error('OpenAI API key not configured for embeddings');
     }
+    if (config?.model) {
+      return new OpenAIEmbeddings({
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        modelName: config.model,
+      });
+    }
+    return this.embeddings;
+  }
 
-    const embeddings = await this.embeddings.embedDocuments(texts);
-    return embeddings;
+  private async resolveProvider(providerId: string | undefined, organizationId: string | null | undefined): Promise<ResolvedLLMProvider> {
+    if (!providerId) {
+      throw new Error('providerId is required for the openai_compatible provider');
+    }
+    return llmProviderService.resolve(organizationId, providerId);
   }
 
   /**
@@ -0,0 +1,366 @@
+import { db, llmProviders } from '../config/database';
+import { eq, and, asc } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { encrypt, decrypt, encryptObject, decryptObject } from '../utils/encryption';
+import { ModelPricing } from './costCalculationService';
+
+export type LLMProviderKind = 'openai_compatible' | 'azure_openai';
+
+export interface ProviderModel {
+  id: string; // Model name sent to the endpoint (Azure: deployment name)
+  type?: 'chat' | 'embedding';
+  label?: string;
+  pricing?: ModelPricing; // USD per 1M tokens; unpriced models cost nothing
+}
+
+export interface LLMProviderInput {
+  name: string;
+  type?: LLMProviderKind;
+  baseUrl: string;
+  apiKey?: string | null;
+  headers?: Record<string, string> | null;
+  apiVersion?: string | null;
+  models?: ProviderModel[];
+  isPrivate?: boolean;
+  enabled?: boolean;
+}
+
+// Provider as returned by the API: secrets are never sent back
+export interface LLMProviderView {
+  id: string;
+  name: string;
+  type: LLMProviderKind;
+  baseUrl: string;
+  apiVersion: string | null;
+  models: ProviderModel[];
+  isPrivate: boolean;
+  enabled: boolean;
+  hasApiKey: boolean;
+  headerNames: string[];
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Provider with decrypted credentials, used to build clients
+export interface ResolvedLLMProvider {
+  id: string;
+  name: string;
+  type: LLMProviderKind;
+  baseUrl: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+  apiVersion?: string;
+  models: ProviderModel[];
+  isPrivate: boolean;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number;
+  models: string[];
+  error?: string;
+}
+
+type ProviderRow = typeof llmProviders.$inferSelect;
+
+const CACHE_TTL_MS = 60 * 1000;
+const TEST_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+function decryptHeaders(value: string | null): Record<string, string> {
+  return value ? decryptObject<Record<string, string>>(value) : {};
+}
+
+function toView(row: ProviderRow): LLMProviderView {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as LLMProviderKind,
+    baseUrl: row.baseUrl,
+    apiVersion: row.apiVersion,
+    models: (row.models || []) as unknown as ProviderModel[],
+    isPrivate: row.isPrivate,
+    enabled: row.enabled,
+    hasApiKey: !!row.apiKey,
+    headerNames: Object.keys(decryptHeaders(row.headers)),
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * LLM Provider Service
+ *
+ * Organization-level OpenAI-compatible endpoints (vLLM, Ollama, LM Studio,
+ * Azure OpenAI). Nodes reference a provider by id with provider
+ * 'openai_compatible'; LangChainService resolves it here to build chat and
+ * embedding clients against the provider's base URL. API keys and custom
+ * headers are stored encrypted. Providers flagged isPrivate run inside the
+ * organization's network, which is what private-only workflows require.
+ */
+export class LLMProviderService {
+  private cache = new Map<string, { provider: ResolvedLLMProvider; expiresAt: number }>();
+
+  async list(organizationId: string): Promise<LLMProviderView[]> {
+    const rows = await db
+      .select()
+      .from(llmProviders)
+      .where(eq(llmProviders.organizationId, organizationId))
+      .orderBy(asc(llmProviders.name));
+    return rows.map(toView);
+  }
+
+  async get(organizationId: string, id: string): Promise<LLMProviderView | null> {
+    const row = await this.findRow(organizationId, id);
+    return row ? toView(row) : null;
+  }
+
+  async create(organizationId: string, userId: string, input: LLMProviderInput): Promise<LLMProviderView> {
+    await this.assertNameAvailable(organizationId, input.name);
+
+    const type = input.type || 'openai_compatible';
+    const [row] = await db
+      .insert(llmProviders)
+      .values({
+        id: createId(),
+        organizationId,
+        name: input.name,
+        type,
+        baseUrl: normalizeBaseUrl(input.baseUrl),
+        apiKey: input.apiKey ? encrypt(input.apiKey) : null,
+        headers: input.headers && Object.keys(input.headers).length > 0 ? encryptObject(input.headers) : null,
+        apiVersion: input.apiVersion || (type === 'azure_openai' ? DEFAULT_AZURE_API_VERSION : null),
+        models: (input.models || []) as unknown as Array<Record<string, unknown>>,
+        isPrivate: input.isPrivate ?? true,
+        enabled: input.enabled ?? true,
+        createdBy: userId,
+      })
+      .returning();
+
+    return toView(row);
+  }
+
+  /**
+   * Update a provider. An omitted apiKey or headers keeps the stored value;
+   * null clears it.
+   */
+  async update(organizationId: string, id: string, input: Partial<LLMProviderInput>): Promise<LLMProviderView> {
+    const existing = await this.findRow(organizationId, id);
+    if (!existing) {
+      throw new Error('LLM provider not found');
+    }
+    if (input.name && input.name !== existing.name) {
+      await this.assertNameAvailable(organizationId, input.name);
+    }
+
+    const updates: Partial<typeof llmProviders.$inferInsert> = { updatedAt: new Date() };
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.type !== undefined) updates.type = input.type;
+    if (input.baseUrl !== undefined) updates.baseUrl = normalizeBaseUrl(input.baseUrl);
+    if (input.apiVersion !== undefined) updates.apiVersion = input.apiVersion;
+    if (input.models !== undefined) updates.models = input.models as unknown as Array<Record<string, unknown>>;
+    if (input.isPrivate !== undefined) updates.isPrivate = input.isPrivate;
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+    if (input.apiKey !== undefined) {
+      updates.apiKey = input.apiKey ? encrypt(input.apiKey) : null;
+    }
+    if (input.headers !== undefined) {
+      updates.headers = input.headers && Object.keys(input.headers).length > 0 ? encryptObject(input.headers) : null;
+    }
+
+    const [row] = await db
+      .update(llmProviders)
+      .set(updates)
+      .where(and(eq(llmProviders.id, id), eq(llmProviders.organizationId, organizationId)))
+      .returning();
+
+    this.cache.delete(this.cacheKey(organizationId, id));
+    return toView(row);
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    const deleted = await db
+      .delete(llmProviders)
+      .where(and(eq(llmProviders.id, id), eq(llmProviders.organizationId, organizationId)))
+      .returning({ id: llmProviders.id });
+
+    if (deleted.length === 0) {
+      throw new Error('LLM provider not found');
+    }
+    this.cache.delete(this.cacheKey(organizationId, id));
+  }
+
+  /**
+   * Load an enabled provider with decrypted credentials (cached briefly,
+   * since every LLM and embedding call of a workflow resolves it)
+   */
+  async resolve(organizationId: string | null | undefined, id: string): Promise<ResolvedLLMProvider> {
+    if (!organizationId) {
+      throw new Error('Custom LLM providers require an organization context');
+    }
+
+    const key = this.cacheKey(organizationId, id);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.provider;
+    }
+
+    const row = await this.findRow(organizationId, id);
+    if (!row) {
+      throw new Error('LLM provider not found');
+    }
+    if (!row.enabled) {
+      throw new Error(`LLM provider "${row.name}" is disabled`);
+    }
+
+    const provider: ResolvedLLMProvider = {
+      id: row.id,
+      name: row.name,
+      type: row.type as LLMProviderKind,
+      baseUrl: row.baseUrl,
+      apiKey: row.apiKey ? decrypt(row.apiKey) : undefined,
+      headers: decryptHeaders(row.headers),
+      apiVersion: row.apiVersion || undefined,
+      models: (row.models || []) as unknown as ProviderModel[],
+      isPrivate: row.isPrivate,
+    };
+
+    this.cache.set(key, { provider, expiresAt: Date.now() + CACHE_TTL_MS });
+    return provider;
+  }
+
+  /**
+   * Call the provider's model listing endpoint to check the base URL and
+   * credentials, and report the models it serves
+   */
+  async testConnection(organizationId: string, id: string): Promise<ConnectionTestResult> {
+    const provider = await this.resolve(organizationId, id);
+    const started = Date.now();
+
+    const url = provider.type === 'azure_openai'
+      ? `${provider.baseUrl}/openai/models?api-version=${encodeURIComponent(provider.apiVersion || DEFAULT_AZURE_API_VERSION)}`
+      : `${provider.baseUrl}/models`;
+    const headers: Record<string, string> = { ...provider.headers };
+    if (provider.apiKey) {
+      if (provider.type === 'azure_openai') {
+        headers['api-key'] = provider.apiKey;
+      } else {
+        headers.Authorization = `Bearer ${provider.apiKey}`;
+      }
+    }
+
+    try {
+      const response = await fetch(url, { headers, signal: AbortSignal.timeout(TEST_TIMEOUT_MS) });
+      const latencyMs = Date.now() - started;
+      if (!response.ok) {
+        return { ok: false, latencyMs, models: [], error: `HTTP ${response.status} ${response.statusText}`.trim() };
+      }
+
+      const body = (await response.json().catch(() => ({}))) as { data?: Array<{ id?: string }> };
+      const models = (body.data || []).map((model) => model.id).filter((modelId): modelId is string => !!modelId);
+      return { ok: true, latencyMs, models };
+    } catch (error: any) {
+      return { ok: false, latencyMs: Date.now() - started, models: [], error: error.message };
+    }
+  }
+
+  /**
+   * For workflows restricted to private models (settings.privateLlmOnly):
+   * why a node would send data outside the organization's network, or null
+   * when all its model, embedding, rerank and vector store calls stay on
+   * private providers
+   */
+  async checkPrivateNode(organizationId: string | null | undefined, nodeType: string, config: Record<string, any>): Promise<string | null> {
+    const requirePrivate = async (providerId: string | undefined, usage: string): Promise<string | null> => {
+      if (!providerId) {
+        return `${usage} must use a private organization LLM provider`;
+      }
+      try {
+        const provider = await this.resolve(organizationId, providerId);
+        return provider.isPrivate ? null : `${usage} uses LLM provider "${provider.name}", which is not marked private`;
+      } catch (error: any) {
+        return `${usage}: ${error.message}`;
+      }
+    };
+    const chatProviderId = (provider: unknown, providerId: unknown) =>
+      provider === 'openai_compatible' ? (providerId as string) || undefined : undefined;
+    const vectorStore = (provider: unknown) =>
+      provider === 'pinecone' ? 'Pinecone is an external vector store' : null;
+    const rerank = async () => {
+      const rerankProvider = config.rerankProvider || 'none';
+      if (rerankProvider === 'cohere') {
+        return 'Cohere reranking is an external service';
+      }
+      return rerankProvider === 'llm'
+        ? requirePrivate(chatProviderId(config.llmProvider, config.llmProviderId), 'LLM reranking')
+        : null;
+    };
+    const embedding = () => requirePrivate(config.embeddingProviderId, 'Embeddings');
+
+    switch (nodeType) {
+      case 'ai.llm':
+      case 'ai.agent':
+        return requirePrivate(chatProviderId(config.provider || 'openai', config.providerId), 'The model');
+      case 'ai.embedding':
+        return requirePrivate(config.providerId, 'Embeddings');
+      case 'ai.vector_store':
+        return vectorStore(config.provider) || (config.operation === 'delete' ? null : embedding());
+      case 'ai.document_ingest':
+        return config.indexName ? vectorStore(config.provider) || embedding() : null;
+      case 'ai.semantic_search':
+        return vectorStore(config.provider)
+          || (config.retrievalMode === 'keyword' ? null : await embedding())
+          || rerank();
+      case 'ai.rag':
+        return vectorStore(config.vectorStoreProvider)
+          || (config.retrievalMode === 'keyword' ? null : await embedding())
+          || (await rerank())
+          || requirePrivate(chatProviderId(config.llmProvider || 'openai', config.llmProviderId), 'The model');
+      default:
+        // Other AI nodes only support hosted model APIs
+        return nodeType.startsWith('ai.') && nodeType !== 'ai.ocr' && nodeType !== 'ai.tool' && nodeType !== 'ai.tools'
+          ? `${nodeType} nodes only support external model providers`
+          : null;
+    }
+  }
+
+  private async findRow(organizationId: string, id: string): Promise<ProviderRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(llmProviders)
+      .where(and(eq(llmProviders.id, id), eq(llmProviders.organizationId, organizationId)))
+      .limit(1);
+    return row;
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string): Promise<void> {
+    const [existing] = await db
+      .select({ id: llmProviders.id })
+      .from(llmProviders)
+      .where(and(eq(llmProviders.organizationId, organizationId), eq(llmProviders.name, name)))
+      .limit(1);
+    if (existing) {
+      throw new Error('An LLM provider with this name already exists');
+    }
+  }
+
+  private cacheKey(organizationId: string, id: string): string {
+    return `${organizationId}:${id}`;
+  }
+}
+
+/**
+ * Pricing of a model from the provider catalogue; unpriced and unknown
+ * models cost nothing
+ */
+export function getCatalogPricing(provider: ResolvedLLMProvider, model: string): ModelPricing {
+  return provider.models.find((entry) => entry.id === model)?.pricing || { input: 0, output: 0 };
+}
+
+export const llmProviderService = new LLMProviderService();
@@ -0,0 +1,530 @@
+import { NodeExecutionContext } from '@sos/shared';
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import { createId } from '@paralleldrive/cuid2';
+import { and, eq } from 'drizzle-orm';
+import { db, executionLogs, executionSteps, workflows, workspaces } from '../config/database';
+import { langchainService, LLMConfig, LLMResponse } from './langchainService';
+import { ModelPricing } from './costCalculationService';
+import { connectorRegistry } from './connectors/registry';
+import { codeAgentRegistry } from './codeAgentRegistry';
+import { executeConnector } from './nodeExecutors/connector';
+import { executeCode } from './nodeExecutors/code';
+import { executeSubWorkflow } from './nodeExecutors/executeWorkflow';
+import { policyEngineService } from './policyEngineService';
+import { insertExecutionStep } from './executionStepService';
+
+/**
+ * Tool declared on an LLM node (config.tools)
+ */
+export type LLMToolDeclaration =
+  | { type: 'connector'; connectorId: string; actionId: string; name?: string; description?: string }
+  | { type: 'code_agent'; agentId: string; version?: string; name?: string; description?: string }
+  | { type: 'workflow'; workflowId: string; name?: string; description?: string; inputSchema?: Record<string, unknown> };
+
+/**
+ * Tool as offered to the model, with its arguments as JSON Schema
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  declaration: LLMToolDeclaration;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMToolCallRecord extends LLMToolCall {
+  stepId?: string;
+  success: boolean;
+  output?: unknown;
+  error?: string;
+}
+
+export type ToolExecutionContext = NodeExecutionContext & {
+  userId?: string;
+  organizationId?: string;
+  workspaceId?: string;
+  stepId?: string;
+  privateLlmOnly?: boolean; // Passed on to workflows run as tools
+};
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+export const MAX_TOOL_ITERATIONS = 10;
+
+// Tool results are cut to this many characters before they go back to the model
+const MAX_TOOL_RESULT_LENGTH = 20000;
+
+// Config keys that select the connector action; tool arguments cannot set them
+const RESERVED_CONNECTOR_ARGS = ['type', 'action', 'operation'];
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// JSON Schema keywords Gemini function declarations accept
+const GEMINI_SCHEMA_KEYS = ['type', 'description', 'properties', 'required', 'items', 'enum', 'format', 'nullable'];
+
+interface ModelTurn {
+  text: string;
+  toolCalls: LLMToolCall[];
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * One conversation with a model that can call tools. Each provider keeps the
+ * history in its own wire format.
+ */
+interface ToolChatSession {
+  pricing?: ModelPricing;
+  send(): Promise<ModelTurn>;
+  addToolResults(results: Array<{ call: LLMToolCall; content: string }>): void;
+}
+
+/**
+ * Tool names allowed by OpenAI, Anthropic and Google alike
+ */
+export function toToolName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64) || 'tool';
+}
+
+/**
+ * Arguments schema as a JSON Schema object
+ */
+function toParameters(schema: unknown): Record<string, unknown> {
+  if (!schema || typeof schema !== 'object' || Object.keys(schema).length === 0) {
+    return { type: 'object', properties: {} };
+  }
+  if ((schema as Record<string, unknown>).type === 'object') {
+    return schema as Record<string, unknown>;
+  }
+  // Bare property map, as stored on some code agents
+  return { type: 'object', properties: schema };
+}
+
+/**
+ * JSON Schema reduced to the OpenAPI subset Gemini understands
+ */
+export function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    const value = schema[key];
+    if (value === undefined) continue;
+
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toUpperCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function truncate(content: string): string {
+  return content.length > MAX_TOOL_RESULT_LENGTH
+    ? `${content.slice(0, MAX_TOOL_RESULT_LENGTH)}... [truncated]`
+    : content;
+}
+
+export class LLMToolService {
+  /**
+   * Turn the node's tool declarations into tools the model can call
+   */
+  async resolveTools(declarations: LLMToolDeclaration[], organizationId?: string | null): Promise<LLMTool[]> {
+    const tools: LLMTool[] = [];
+
+    for (const declaration of declarations) {
+      let tool: Omit<LLMTool, 'declaration'>;
+
+      switch (declaration.type) {
+        case 'connector': {
+          // Other organizations' custom connectors are treated as missing
+          const connector = await connectorRegistry.resolve(declaration.connectorId);
+          const available = connectorRegistry.isAvailableTo(declaration.connectorId, organizationId || undefined);
+          const action = available ? connector?.actions.find((item) => item.id === declaration.actionId) : undefined;
+          if (!connector || !action) {
+            throw new Error(`Connector action ${declaration.connectorId}.${declaration.actionId} not found`);
+          }
+          tool = {
+            name: declaration.name || `${connector.id}_${action.id}`,
+            description: declaration.description || `${connector.name}: ${action.description || action.name}`,
+            parameters: toParameters(action.inputSchema),
+          };
+          break;
+        }
+        case 'code_agent': {
+          const manifest = await codeAgentRegistry.exportAsTool(declaration.agentId, declaration.version);
+          tool = {
+            name: declaration.name || manifest.name,
+            description: declaration.description || manifest.description,
+            parameters: toParameters(manifest.inputSchema),
+          };
+          break;
+        }
+        case 'workflow': {
+          const [workflow] = organizationId
+            ? await db
+                .select({ name: workflows.name, description: workflows.description })
+                .from(workflows)
+                .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+                .where(and(eq(workflows.id, declaration.workflowId), eq(workspaces.organizationId, organizationId)))
+                .limit(1)
+            : [];
+          if (!workflow) {
+            throw new Error(`Workflow ${declaration.workflowId} not found`);
+          }
+          tool = {
+            name: declaration.name || workflow.name,
+            description: declaration.description || workflow.description || `Runs the "${workflow.name}" workflow`,
+            parameters: toParameters(declaration.inputSchema),
+          };
+          break;
+        }
+        default:
+          throw new Error(`Unsupported tool type: ${(declaration as { type?: string }).type}`);
+      }
+
+      // Names must be unique within one request
+      let name = toToolName(tool.name);
+      if (tools.some((existing) => existing.name === name)) {
+        name = toToolName(`${name.slice(0, 60)}_${tools.length + 1}`);
+      }
+      tools.push({ ...tool, name, declaration });
+    }
+
+    return tools;
+  }
+
+  /**
+   * Let the model call tools until it answers in text. Every tool call is
+   * recorded as a child step of the node's step; a model still asking for
+   * tools after maxIterations rounds fails the call.
+   */
+  async generate(options: {
+    prompt: string;
+    config: LLMConfig;
+    tools: LLMTool[];
+    context: ToolExecutionContext;
+    maxIterations?: number;
+    signal?: AbortSignal;
+  }): Promise<LLMResponse> {
+    const { prompt, config, tools, context, signal } = options;
+    const maxIterations = Math.min(options.maxIterations || DEFAULT_MAX_TOOL_ITERATIONS, MAX_TOOL_ITERATIONS);
+
+    const session = config.provider === 'google'
+      ? this.createGeminiSession(prompt, config, tools, signal)
+      : await this.createLangChainSession(prompt, config, tools, signal);
+
+    const toolCalls: LLMToolCallRecord[] = [];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (let round = 0; ; round++) {
+      const turn = await session.send();
+      inputTokens += turn.inputTokens;
+      outputTokens += turn.outputTokens;
+
+      if (turn.toolCalls.length === 0) {
+        return {
+          content: turn.text,
+          tokensUsed: inputTokens + outputTokens,
+          metadata: {
+            model: config.model,
+            provider: config.provider,
+            providerId: config.providerId,
+            pricing: session.pricing,
+            tokenUsage: { promptTokens: inputTokens, completionTokens: outputTokens },
+            toolCalls,
+            toolRounds: round,
+          },
+        };
+      }
+
+      if (round >= maxIterations) {
+        throw new Error(`Model still requested tools after ${maxIterations} tool call rounds`);
+      }
+
+      const results: Array<{ call: LLMToolCall; content: string }> = [];
+      for (const call of turn.toolCalls) {
+        const record = await this.callTool(call, tools, context);
+        toolCalls.push(record);
+        results.push({
+          call,
+          content: truncate(JSON.stringify(record.success ? record.output ?? null : { error: record.error })),
+        });
+      }
+      session.addToolResults(results);
+    }
+  }
+
+  /**
+   * Run one tool call as a child step of the LLM node
+   */
+  async callTool(call: LLMToolCall, tools: LLMTool[], context: ToolExecutionContext): Promise<LLMToolCallRecord> {
+    const tool = tools.find((item) => item.name === call.name);
+    const startedAt = Date.now();
+    const stepId = await this.startToolStep(call, context);
+
+    let record: LLMToolCallRecord;
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+      const output = await this.executeTool(tool.declaration, call.arguments, { ...context, stepId: stepId || context.stepId });
+      record = { ...call, stepId, success: true, output };
+    } catch (error: any) {
+      record = { ...call, stepId, success: false, error: error.message || 'Tool call failed' };
+    }
+
+    if (stepId) {
+      await db
+        .update(executionSteps)
+        .set({
+          status: record.success ? 'completed' : 'failed',
+          output: record.success ? { output: record.output } : null,
+          error: record.success ? null : { message: record.error },
+          finishedAt: new Date(),
+          executionTime: Date.now() - startedAt,
+        })
+        .where(eq(executionSteps.id, stepId));
+    }
+
+    return record;
+  }
+
+  private async executeTool(
+    declaration: LLMToolDeclaration,
+    args: Record<string, unknown>,
+    context: ToolExecutionContext
+  ): Promise<unknown> {
+    switch (declaration.type) {
+      case 'connector': {
+        const reserved = RESERVED_CONNECTOR_ARGS.filter((key) => key in args);
+        if (reserved.length > 0) {
+          throw new Error(`Tool arguments cannot set reserved field(s): ${reserved.join(', ')}`);
+        }
+        // Some executors read action fields from config; the declared connector and action always win
+        const config = { ...args, type: `integration.${declaration.connectorId}`, action: declaration.actionId };
+        await this.enforceNodePolicies(config.type, config, args, context);
+        const result = await executeConnector({ ...context, input: args, config });
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Connector action failed');
+        }
+        return result.output;
+      }
+      case 'code_agent': {
+        const agent = await codeAgentRegistry.getAgent(declaration.agentId, declaration.version, {
+          organizationId: context.organizationId,
+          workspaceId: context.workspaceId,
+        });
+        if (!agent) {
+          throw new Error('Code agent not found');
+        }
+        const language = agent.language as 'javascript' | 'python' | 'typescript' | 'bash';
+        const config = { code: agent.code, runtime: agent.runtime, packages: agent.packages || [] };
+        await this.enforceNodePolicies(language === 'javascript' ? 'action.code' : `action.code.${language}`, config, args, context);
+        await codeAgentRegistry.incrementUsage(agent.id);
+
+        const result = await executeCode({ ...context, input: args, config }, language);
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Code agent failed');
+        }
+        return result.output?.output ?? result.output;
+      }
+      case 'workflow': {
+        // Same organization check, depth limit and cancellation as the Execute Workflow node
+        const config = { type: 'action.execute_workflow', workflowId: declaration.workflowId };
+        await this.enforceNodePolicies(config.type, config, args, context);
+        const result = await executeSubWorkflow({ ...context, input: args, config }, { pausable: false });
+        if (!result.success) {
+          throw new Error(result.error?.message || 'Workflow failed');
+        }
+        return result.output;
+      }
+    }
+  }
+
+  /**
+   * Apply the organization's node-dispatch policies to a tool call as the
+   * node it runs (connector action, code node or Execute Workflow node)
+   */
+  private async enforceNodePolicies(
+    nodeType: string,
+    config: Record<string, unknown>,
+    args: Record<string, unknown>,
+    context: ToolExecutionContext
+  ): Promise<void> {
+    const result = await policyEngineService.evaluateNodePolicies({
+      node: { id: context.nodeId, type: nodeType, config },
+      input: args,
+      workflowId: context.workflowId,
+      executionId: context.executionId,
+      userId: context.userId,
+      organizationId: context.organizationId,
+      workspaceId: context.workspaceId,
+    });
+
+    if (context.executionId) {
+      for (const warning of result.warnings || []) {
+        await db.insert(executionLogs).values({
+          executionId: context.executionId,
+          nodeId: context.nodeId,
+          level: 'warn',
+          message: `Policy warning for tool ${nodeType}: ${warning}`,
+        });
+      }
+    }
+    if (result.blocked) {
+      throw new Error(`Tool blocked by policy: ${result.reason || 'no reason given'}`);
+    }
+  }
+
+  private async startToolStep(call: LLMToolCall, context: ToolExecutionContext): Promise<string | undefined> {
+    if (!context.executionId) {
+      return undefined;
+    }
+
+    const stepId = createId();
+    await insertExecutionStep({
+      id: stepId,
+      executionId: context.executionId,
+      nodeId: context.nodeId,
+      status: 'running',
+      input: { tool: call.name, toolCallId: call.id, arguments: call.arguments },
+      startedAt: new Date(),
+      parentStepId: context.stepId || null,
+    });
+    return stepId;
+  }
+
+  /**
+   * OpenAI, OpenAI-compatible and Anthropic models through LangChain, which
+   * maps their tool call formats to AIMessage.tool_calls
+   */
+  private async createLangChainSession(
+    prompt: string,
+    config: LLMConfig,
+    tools: LLMTool[],
+    signal?: AbortSignal
+  ): Promise<ToolChatSession> {
+    const { llm, pricing } = await langchainService.createChatModel(config);
+    const model = (llm as any).bindTools(
+      tools.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }))
+    );
+
+    const messages: BaseMessage[] = [];
+    if (config.systemPrompt) {
+      messages.push(new SystemMessage(config.systemPrompt));
+    }
+    messages.push(new HumanMessage(prompt));
+
+    return {
+      pricing,
+      send: async () => {
+        const response = (await model.invoke(messages, { signal })) as AIMessage;
+        messages.push(response);
+
+        const usage = response.usage_metadata;
+        return {
+          text: response.text,
+          toolCalls: (response.tool_calls || []).map((call) => ({
+            id: call.id || createId(),
+            name: call.name,
+            arguments: call.args || {},
+          })),
+          inputTokens: usage?.input_tokens || 0,
+          outputTokens: usage?.output_tokens || 0,
+        };
+      },
+      addToolResults: (results) => {
+        for (const { call, content } of results) {
+          messages.push(new ToolMessage({ tool_call_id: call.id, content }));
+        }
+      },
+    };
+  }
+
+  /**
+   * Google Gemini through its REST API (functionDeclarations / functionCall /
+   * functionResponse parts)
+   */
+  private createGeminiSession(
+    prompt: string,
+    config: LLMConfig,
+    tools: LLMTool[],
+    signal?: AbortSignal
+  ): ToolChatSession {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!apiKey) {
+      throw new Error('Google API key not configured');
+    }
+
+    const contents: Array<{ role: 'user' | 'model'; parts: any[] }> = [{ role: 'user', parts: [{ text: prompt }] }];
+    const functionDeclarations = tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toGeminiSchema(tool.parameters),
+    }));
+
+    return {
+      send: async () => {
+        const response = await fetch(`${GEMINI_API_URL}/models/${encodeURIComponent(config.model)}:generateContent`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+          body: JSON.stringify({
+            contents,
+            systemInstruction: config.systemPrompt ? { parts: [{ text: config.systemPrompt }] } : undefined,
+            tools: [{ functionDeclarations }],
+            generationConfig: { temperature: config.temperature ?? 0.7, maxOutputTokens: config.maxTokens },
+          }),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Google API error ${response.status}: ${await response.text()}`);
+        }
+
+        const body = (await response.json()) as {
+          candidates?: Array<{ content?: { parts?: any[] } }>;
+          usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+        };
+        const parts = body.candidates?.[0]?.content?.parts || [];
+        contents.push({ role: 'model', parts });
+
+        return {
+          text: parts.filter((part) => typeof part.text === 'string').map((part) => part.text).join(''),
+          // Gemini calls carry no ID; results are matched by name and order
+          toolCalls: parts
+            .filter((part) => part.functionCall)
+            .map((part, index) => ({
+              id: `call_${contents.length}_${index}`,
+              name: part.functionCall.name,
+              arguments: part.functionCall.args || {},
+            })),
+          inputTokens: body.usageMetadata?.promptTokenCount || 0,
+          outputTokens: body.usageMetadata?.candidatesTokenCount || 0,
+        };
+      },
+      addToolResults: (results) => {
+        contents.push({
+          role: 'user',
+          parts: results.map(({ call, content }) => ({
+            functionResponse: { name: call.name, response: { result: content } },
+          })),
+        });
+      },
+    };
+  }
+}
+
+export const llmToolService = new LLMToolService();
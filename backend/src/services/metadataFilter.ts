@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import { sql, SQL, AnyColumn } from 'drizzle-orm';
+
+/**
+ * Provider-neutral metadata filter for vector queries, e.g.
+ *
+ *   { and: [
+ *     { field: 'customerId', eq: 'acme' },
+ *     { field: 'type', in: ['faq', 'manual'] },
+ *     { field: 'publishedAt', range: { gte: '2024-01-01' } },
+ *     { field: 'archived', exists: false },
+ *   ] }
+ *
+ * Fields are metadata keys; dots address nested objects ('source.kind').
+ * Ranges compare numbers, or strings such as ISO dates lexicographically.
+ */
+export type MetadataValue = string | number | boolean;
+
+export interface MetadataRange {
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+export interface MetadataCondition {
+  field: string;
+  eq?: MetadataValue;
+  in?: MetadataValue[];
+  range?: MetadataRange;
+  exists?: boolean;
+}
+
+export type MetadataFilter = MetadataCondition | { and: MetadataFilter[] } | { or: MetadataFilter[] };
+
+const OPERATORS = ['eq', 'in', 'range', 'exists'] as const;
+const RANGE_BOUNDS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+const valueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const boundSchema = z.union([z.number(), z.string()]);
+
+const conditionSchema = z
+  .object({
+    field: z.string().min(1),
+    eq: valueSchema.optional(),
+    in: z.array(valueSchema).min(1).optional(),
+    range: z
+      .object({ gt: boundSchema.optional(), gte: boundSchema.optional(), lt: boundSchema.optional(), lte: boundSchema.optional() })
+      .strict()
+      .refine((range) => RANGE_BOUNDS.some((bound) => range[bound] !== undefined), 'Range needs at least one bound')
+      .refine(
+        (range) => new Set(RANGE_BOUNDS.filter((bound) => range[bound] !== undefined).map((bound) => typeof range[bound])).size === 1,
+        'Range bounds must all be numbers or all be strings'
+      )
+      .optional(),
+    exists: z.boolean().optional(),
+  })
+  .strict()
+  .refine(
+    (condition) => OPERATORS.filter((operator) => condition[operator] !== undefined).length === 1,
+    'Each condition needs exactly one of: eq, in, range, exists'
+  );
+
+const filterSchema: z.ZodTypeAny = z.lazy(() =>
+  z.union([
+    z.object({ and: z.array(filterSchema).min(1) }).strict(),
+    z.object({ or: z.array(filterSchema).min(1) }).strict(),
+    conditionSchema,
+  ])
+);
+
+/**
+ * Validate a filter from node config or input. Returns undefined for an
+ * empty filter; throws on an invalid one.
+ */
+export function parseMetadataFilter(input: unknown): MetadataFilter | undefined {
+  if (input === undefined || input === null || input === '') {
+    return undefined;
+  }
+
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('Invalid metadata filter: not valid JSON');
+    }
+  }
+  if (typeof value === 'object' && value !== null && Object.keys(value).length === 0) {
+    return undefined;
+  }
+
+  const result = filterSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Invalid metadata filter: ${issue.path.length ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+  }
+  return result.data as MetadataFilter;
+}
+
+/**
+ * Combine filters so documents must match all of them
+ */
+export function combineMetadataFilters(...filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined {
+  const present = filters.filter((filter): filter is MetadataFilter => !!filter);
+  if (present.length <= 1) {
+    return present[0];
+  }
+  return { and: present };
+}
+
+function fieldPath(field: string): string[] {
+  return field.split('.');
+}
+
+function inRange(value: unknown, range: MetadataRange): boolean {
+  const boundType = typeof RANGE_BOUNDS.map((bound) => range[bound]).find((bound) => bound !== undefined);
+  if (typeof value !== boundType) {
+    return false;
+  }
+  const v = value as number | string;
+  return (range.gt === undefined || v > range.gt) &&
+    (range.gte === undefined || v >= range.gte) &&
+    (range.lt === undefined || v < range.lt) &&
+    (range.lte === undefined || v <= range.lte);
+}
+
+/**
+ * Evaluate a filter against a document's metadata (in-memory store)
+ */
+export function matchesMetadataFilter(metadata: Record<string, unknown> | undefined, filter: MetadataFilter): boolean {
+  if ('and' in filter) {
+    return filter.and.every((child) => matchesMetadataFilter(metadata, child));
+  }
+  if ('or' in filter) {
+    return filter.or.some((child) => matchesMetadataFilter(metadata, child));
+  }
+
+  const value = fieldPath(filter.field).reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    metadata
+  );
+
+  if (filter.exists !== undefined) {
+    return (value !== undefined) === filter.exists;
+  }
+  if (filter.eq !== undefined) {
+    return value === filter.eq;
+  }
+  if (filter.in !== undefined) {
+    return filter.in.includes(value as MetadataValue);
+  }
+  return inRange(value, filter.range!);
+}
+
+// { a: { b: value } } for the path a.b, for jsonb containment (@>)
+function nestedObject(path: string[], value: unknown): unknown {
+  return path.reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+}
+
+/**
+ * Translate a filter into a SQL condition on a jsonb metadata column.
+ * Equality uses containment (@>) so a GIN index on the column applies;
+ * range bounds are only compared with values of the same JSON type.
+ */
+export function toSqlMetadataFilter(filter: MetadataFilter, column: AnyColumn | SQL): SQL {
+  if ('and' in filter) {
+    return sql`(${sql.join(filter.and.map((child) => toSqlMetadataFilter(child, column)), sql` AND `)})`;
+  }
+  if ('or' in filter) {
+    return sql`(${sql.join(filter.or.map((child) => toSqlMetadataFilter(child, column)), sql` OR `)})`;
+  }
+
+  const path = fieldPath(filter.field);
+  const value = sql`jsonb_extract_path(${column}, ${sql.join(path.map((key) => sql`${key}::text`), sql`, `)})`;
+
+  if (filter.exists !== undefined) {
+    return filter.exists ? sql`${value} IS NOT NULL` : sql`${value} IS NULL`;
+  }
+  if (filter.eq !== undefined) {
+    return sql`${column} @> ${JSON.stringify(nestedObject(path, filter.eq))}::jsonb`;
+  }
+  if (filter.in !== undefined) {
+    const matches = filter.in.map((option) => sql`${column} @> ${JSON.stringify(nestedObject(path, option))}::jsonb`);
+    return sql`(${sql.join(matches, sql` OR `)})`;
+  }
+
+  const range = filter.range!;
+  const jsonType = typeof RANGE_BOUNDS.map((bound) => range[bound]).find((bound) => bound !== undefined) === 'number' ? 'number' : 'string';
+  const comparisons = [sql`jsonb_typeof(${value}) = ${jsonType}`];
+  const operators: Record<(typeof RANGE_BOUNDS)[number], string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+  for (const bound of RANGE_BOUNDS) {
+    if (range[bound] !== undefined) {
+      comparisons.push(sql`${value} ${sql.raw(operators[bound])} ${JSON.stringify(range[bound])}::jsonb`);
+    }
+  }
+  return sql`(${sql.join(comparisons, sql` AND `)})`;
+}
+
+/**
+ * Translate a filter into Pinecone's metadata filter syntax. Pinecone
+ * metadata is flat and its range operators only accept numbers.
+ */
+export function toPineconeFilter(filter: MetadataFilter): Record<string, unknown> {
+  if ('and' in filter) {
+    return { $and: filter.and.map(toPineconeFilter) };
+  }
+  if ('or' in filter) {
+    return { $or: filter.or.map(toPineconeFilter) };
+  }
+  if (filter.exists !== undefined) {
+    return { [filter.field]: { $exists: filter.exists } };
+  }
+  if (filter.eq !== undefined) {
+    return { [filter.field]: { $eq: filter.eq } };
+  }
+  if (filter.in !== undefined) {
+    return { [filter.field]: { $in: filter.in } };
+  }
+
+  const range: Record<string, number> = {};
+  for (const bound of RANGE_BOUNDS) {
+    const value = filter.range![bound];
+    if (value === undefined) continue;
+    if (typeof value !== 'number') {
+      throw new Error(`Pinecone only supports numeric ranges (field "${filter.field}"); store dates as timestamps`);
+    }
+    range[`$${bound}`] = value;
+  }
+  return { [filter.field]: range };
+}
@@ -11,6 +11,7 @@ import { createId } from '@paralleldrive/cuid2';
 
 export interface NangoConnection {
   id: string;
+  connectionId?: string; // Nango connection ID (id is our credential row)
   provider: string;
   userId: string;
   organizationId?: string;
@@ -136,6 +137,10 @@ export class NangoService {
           .update(connectorCredentials)
           .set({
             credentials: credentials as any,
+            nangoConnectionId: connectionId,
+            status: 'active',
+            failureCount: 0,
+            lastError: null,
             updatedAt: new Date(),
           })
           .where(eq(connectorCredentials.id, existing.id))
@@ -143,6 +148,7 @@ export class NangoService {
 
         return {
           id: updated.id,
+          connectionId,
           provider,
           userId: updated.userId,
           organizationId: updated.organizationId || undefined,
@@ -160,11 +166,13 @@ export class NangoService {
             userId,
             organizationId: organizationId || null,
             credentials: credentials as any,
+            nangoConnectionId: connectionId,
           })
           .returning();
 
         return {
           id: newConnection.id,
+          connectionId,
           provider,
           userId: newConnection.userId,
           organizationId: newConnection.organizationId || undefined,
@@ -191,8 +199,8 @@ export class NangoService {
     }
 
     try {
-      // Nango handles token refresh automatically, but we can trigger it manually
-      const connection = await nangoClient!.getConnection(provider, connectionId);
+      // Nango handles token refresh automatically, but we can force it
+      const connection = await nangoClient!.getConnection(provider, connectionId, true);
 
       if (!connection) {
         throw new Error('Connection not found');
@@ -210,7 +218,7 @@ export class NangoService {
       const [existing] = await db
         .select()
         .from(connectorCredentials)
-        .where(eq(connectorCredentials.connectorId, provider))
+        .where(and(eq(connectorCredentials.connectorId, provider), eq(connectorCredentials.nangoConnectionId, connectionId)))
         .limit(1);
 
       if (existing) {
@@ -218,6 +226,7 @@ export class NangoService {
           .update(connectorCredentials)
           .set({
             credentials: credentials as any,
+            expiresAt: credentials.expires_at ? new Date(credentials.expires_at as string) : null,
             updatedAt: new Date(),
           })
           .where(eq(connectorCredentials.id, existing.id));
@@ -274,6 +283,7 @@ export class NangoService {
 
     return connections.map((conn) => ({
       id: conn.id,
+      connectionId: conn.nangoConnectionId || undefined,
       provider: conn.connectorId,
       userId: conn.userId,
       organizationId: conn.organizationId || undefined,
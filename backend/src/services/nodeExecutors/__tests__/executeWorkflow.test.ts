@@ -0,0 +1,265 @@
+/**
+ * Unit tests for the Execute Workflow (sub-workflow) node
+ */
+
+// Each db.select() chain resolves to the next queued row set
+const selectResults: unknown[][] = [];
+const mockQuery: any = {};
+['from', 'innerJoin', 'where', 'orderBy'].forEach((method) => {
+  mockQuery[method] = jest.fn(() => mockQuery);
+});
+mockQuery.limit = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+
+// Rows returned by a conditional update (claiming the parent's continuation)
+let claimedRows: unknown[] = [];
+const mockUpdateSet = jest.fn().mockReturnValue({
+  where: () => Object.assign(Promise.resolve(), { returning: () => Promise.resolve(claimedRows) }),
+});
+
+jest.mock('../../../config/database', () => ({
+  db: { select: jest.fn(() => mockQuery), update: jest.fn(() => ({ set: mockUpdateSet })) },
+}));
+
+const mockWorkflowExecutor = {
+  executeWorkflow: jest.fn(),
+  enqueueExecution: jest.fn(),
+  cancelExecution: jest.fn(() => Promise.resolve()),
+};
+
+jest.mock('../../workflowExecutor', () => ({
+  workflowExecutor: mockWorkflowExecutor,
+}));
+
+import { executeSubWorkflow } from '../executeWorkflow';
+import { NodeExecutionContext } from '@sos/shared';
+
+const childDefinition = {
+  nodes: [
+    { id: 'trigger', type: 'custom', position: { x: 0, y: 0 }, data: { type: 'trigger.manual' } },
+    { id: 'transform', type: 'custom', position: { x: 0, y: 0 }, data: { type: 'action.transform' } },
+  ],
+  edges: [{ id: 'e1', source: 'trigger', target: 'transform' }],
+};
+
+function context(config: Record<string, unknown>): NodeExecutionContext {
+  return {
+    nodeId: 'call_child',
+    workflowId: 'wf_parent',
+    executionId: 'exec_parent',
+    input: { orderId: 42 },
+    previousOutputs: {},
+    config: { type: 'logic.execute_workflow', ...config },
+    stepId: 'step_1',
+  } as NodeExecutionContext;
+}
+
+describe('Execute Workflow Node', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    claimedRows = [];
+    jest.clearAllMocks();
+  });
+
+  it('should run the latest version and return the output of its last node', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({
+      executionId: 'exec_child',
+      status: 'completed',
+      results: { transform: { success: true, output: { total: 10 } } },
+    });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child', inputMapping: { id: 42 } }));
+
+    expect(result.success).toBe(true);
+    expect(result.output).toEqual({
+      childExecutionId: 'exec_child',
+      workflowId: 'wf_child',
+      version: 'latest',
+      status: 'completed',
+      output: { total: 10 },
+    });
+    expect(mockWorkflowExecutor.executeWorkflow).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowId: 'wf_child',
+        input: { id: 42 },
+        parentExecution: expect.objectContaining({
+          executionId: 'exec_parent',
+          nodeId: 'call_child',
+          stepId: 'step_1',
+          rootExecutionId: 'exec_parent',
+          depth: 1,
+        }),
+      })
+    );
+  });
+
+  it('should queue the child run in fire-and-forget mode', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }]
+    );
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child', mode: 'fire_and_forget' }));
+
+    expect(result.success).toBe(true);
+    expect(result.output?.status).toBe('queued');
+    expect(mockWorkflowExecutor.enqueueExecution).toHaveBeenCalledWith(
+      expect.objectContaining({ input: { orderId: 42 }, executionId: result.output?.childExecutionId })
+    );
+    expect(mockWorkflowExecutor.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should restrict the child to private models when the parent is', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({ executionId: 'exec_child', status: 'completed', results: {} });
+
+    await executeSubWorkflow({ ...context({ workflowId: 'wf_child' }), privateLlmOnly: true } as NodeExecutionContext);
+
+    expect(mockWorkflowExecutor.executeWorkflow).toHaveBeenCalledWith(expect.objectContaining({ privateLlmOnly: true }));
+  });
+
+  it('should stop at the recursion depth limit', async () => {
+    selectResults.push([{ metadata: { parentExecution: { depth: 5, rootExecutionId: 'exec_root' } } }]);
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('SUBWORKFLOW_DEPTH_EXCEEDED');
+  });
+
+  it('should not run workflows from another organization', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_2', organizationId: 'org_2' }],
+      [{ organizationId: 'org_1' }]
+    );
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.error?.code).toBe('SUBWORKFLOW_NOT_FOUND');
+    expect(mockWorkflowExecutor.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the child run fails', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({
+      executionId: 'exec_child',
+      status: 'failed',
+      error: 'boom',
+    });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.error?.code).toBe('SUBWORKFLOW_FAILED');
+    expect(result.error?.details).toEqual({ childExecutionId: 'exec_child' });
+  });
+
+  it('should pause the parent while the child is paused', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }],
+      [{ status: 'paused', output: null, error: null }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({ executionId: 'exec_child', status: 'paused', pausedAt: 'prompt' });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.pause).toEqual({ reason: 'subworkflow' });
+    expect(mockUpdateSet).toHaveBeenCalledTimes(1);
+    const update = mockUpdateSet.mock.calls[0][0];
+    expect(update.status).toBe('paused');
+    // Only the subWorkflow key is written, not a copy of the metadata read earlier
+    expect(update.metadata.queryChunks).toContainEqual(
+      expect.objectContaining({ value: [expect.stringContaining('jsonb_set(')] })
+    );
+    expect(update.metadata.queryChunks).toContainEqual(
+      JSON.stringify({ nodeId: 'call_child', childExecutionId: 'exec_child', workflowId: 'wf_child', version: 'latest' })
+    );
+  });
+
+  it('should take the result of a child that finished before the parent paused', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }],
+      [{ status: 'completed', output: { transform: { success: true, output: { approved: true } } }, error: null }]
+    );
+    claimedRows = [{ id: 'exec_parent' }];
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({ executionId: 'exec_child', status: 'paused', pausedAt: 'prompt' });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.pause).toBeUndefined();
+    expect(result.output).toEqual(expect.objectContaining({ status: 'completed', output: { approved: true } }));
+    expect(mockUpdateSet).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'running' }));
+  });
+
+  it('should stay paused when the finished child already resumed the parent', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }],
+      [{ status: 'completed', output: {}, error: null }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({ executionId: 'exec_child', status: 'paused', pausedAt: 'prompt' });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.pause).toEqual({ reason: 'subworkflow' });
+  });
+
+  it('should return the result of the paused child on resume', async () => {
+    const subWorkflow = {
+      nodeId: 'call_child',
+      childExecutionId: 'exec_child',
+      workflowId: 'wf_child',
+      version: 'latest',
+      result: { status: 'completed', output: { approved: true } },
+    };
+    selectResults.push([{ metadata: { subWorkflow } }]);
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }));
+
+    expect(result.output).toEqual({
+      childExecutionId: 'exec_child',
+      workflowId: 'wf_child',
+      version: 'latest',
+      status: 'completed',
+      output: { approved: true },
+    });
+    expect(mockUpdateSet).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSet.mock.calls[0][0].metadata.queryChunks).toContainEqual(
+      expect.objectContaining({ value: [expect.stringContaining("- 'subWorkflow'")] })
+    );
+    expect(mockWorkflowExecutor.executeWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a paused child when the caller cannot pause', async () => {
+    selectResults.push(
+      [{ metadata: {} }],
+      [{ id: 'wf_child', definition: childDefinition, workspaceId: 'ws_1', organizationId: 'org_1' }],
+      [{ organizationId: 'org_1' }]
+    );
+    mockWorkflowExecutor.executeWorkflow.mockResolvedValue({ executionId: 'exec_child', status: 'paused' });
+
+    const result = await executeSubWorkflow(context({ workflowId: 'wf_child' }), { pausable: false });
+
+    expect(result.error?.code).toBe('SUBWORKFLOW_PAUSED');
+    expect(mockWorkflowExecutor.cancelExecution).toHaveBeenCalledWith('exec_child');
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the Human Prompt node
+ */
+
+const selectResults: unknown[][] = [];
+const mockQuery: any = {};
+['from', 'where'].forEach((method) => {
+  mockQuery[method] = jest.fn(() => mockQuery);
+});
+mockQuery.limit = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+
+const mockSet = jest.fn(() => ({ where: jest.fn(() => Promise.resolve()) }));
+
+jest.mock('../../../config/database', () => ({
+  db: {
+    select: jest.fn(() => mockQuery),
+    update: jest.fn(() => ({ set: mockSet })),
+  },
+}));
+
+const mockSchedulePromptExpiry = jest.fn();
+
+jest.mock('../../workflowExecutor', () => ({
+  workflowExecutor: { schedulePromptExpiry: mockSchedulePromptExpiry },
+}));
+
+jest.mock('../../websocketService', () => ({
+  websocketService: { emitHumanPrompt: jest.fn() },
+}));
+
+import { executeHumanPrompt } from '../humanPrompt';
+import { NodeExecutionContext } from '@sos/shared';
+
+function context(config: Record<string, unknown> = {}): NodeExecutionContext {
+  return {
+    nodeId: 'prompt_1',
+    workflowId: 'wf_1',
+    executionId: 'exec_1',
+    input: {},
+    previousOutputs: {},
+    config: { type: 'logic.human_prompt', prompt: 'Approve the refund?', ...config },
+  } as NodeExecutionContext;
+}
+
+describe('Human Prompt Node', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('should pause and schedule the prompt expiry', async () => {
+    selectResults.push([{ metadata: {} }]);
+
+    const result = await executeHumanPrompt(context({ timeout: 60000 }));
+
+    expect(result.pause).toEqual({ reason: 'human_prompt' });
+    const update = (mockSet.mock.calls[0] as any[])[0];
+    expect(update.status).toBe('paused');
+    expect(update.metadata.humanPrompt).toEqual(
+      expect.objectContaining({ nodeId: 'prompt_1', prompt: 'Approve the refund?' })
+    );
+
+    const [executionId, promptId, expiresAt] = mockSchedulePromptExpiry.mock.calls[0];
+    expect(executionId).toBe('exec_1');
+    expect(promptId).toBe(update.metadata.humanPrompt.id);
+    expect(expiresAt.toISOString()).toBe(update.metadata.humanPrompt.expiresAt);
+    expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(59000);
+  });
+
+  it('should return the response submitted while paused', async () => {
+    selectResults.push([
+      {
+        metadata: {
+          humanPrompt: { id: 'p1', nodeId: 'prompt_1' },
+          humanPromptResponses: { prompt_1: { approved: true } },
+        },
+      },
+    ]);
+
+    const result = await executeHumanPrompt(context());
+
+    expect(result).toEqual({ success: true, output: { approved: true } });
+    const update = (mockSet.mock.calls[0] as any[])[0];
+    expect(update.metadata.humanPrompt).toBeUndefined();
+    expect(update.metadata.humanPromptResponses).toEqual({});
+    expect(mockSchedulePromptExpiry).not.toHaveBeenCalled();
+  });
+
+  it('should fail when resumed after the prompt expired', async () => {
+    selectResults.push([{ metadata: { humanPrompt: { id: 'p1', nodeId: 'prompt_1', expired: true } } }]);
+
+    const result = await executeHumanPrompt(context({ timeout: 1000 }));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('HUMAN_PROMPT_EXPIRED');
+    expect((mockSet.mock.calls[0] as any[])[0].metadata.humanPrompt).toBeUndefined();
+    expect(mockSchedulePromptExpiry).not.toHaveBeenCalled();
+  });
+});
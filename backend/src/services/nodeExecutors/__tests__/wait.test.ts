@@ -0,0 +1,134 @@
+/**
+ * Unit tests for long waits of the Wait node
+ */
+
+const selectResults: unknown[][] = [];
+const mockQuery: any = {};
+['from', 'where'].forEach((method) => {
+  mockQuery[method] = jest.fn(() => mockQuery);
+});
+mockQuery.limit = jest.fn(() => Promise.resolve(selectResults.shift() || []));
+
+const mockSet = jest.fn(() => ({ where: jest.fn(() => Promise.resolve()) }));
+
+jest.mock('../../../config/database', () => ({
+  db: {
+    select: jest.fn(() => mockQuery),
+    update: jest.fn(() => ({ set: mockSet })),
+    insert: jest.fn(() => ({ values: jest.fn(() => Promise.resolve()) })),
+  },
+}));
+
+const mockScheduleWaitResume = jest.fn();
+
+jest.mock('../../workflowExecutor', () => ({
+  workflowExecutor: { scheduleWaitResume: mockScheduleWaitResume },
+}));
+
+import { executeWait } from '../logic';
+import { NodeExecutionContext } from '@sos/shared';
+
+function context(config: Record<string, unknown>): NodeExecutionContext {
+  return {
+    nodeId: 'wait_1',
+    workflowId: 'wf_1',
+    executionId: 'exec_1',
+    input: { email: 'a@example.com' },
+    previousOutputs: {},
+    config: { type: 'logic.wait', ...config },
+  } as NodeExecutionContext;
+}
+
+describe('Wait Node', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('should pause and schedule a resume for waits measured in days', async () => {
+    selectResults.push([{ metadata: {} }]);
+
+    const result = await executeWait(context({ mode: 'days', days: 3 }));
+
+    expect(result.pause).toEqual({ reason: 'wait' });
+    const update = (mockSet.mock.calls[0] as any[])[0];
+    expect(update.status).toBe('paused');
+    expect(update.metadata.wait).toEqual(expect.objectContaining({ nodeId: 'wait_1', mode: 'timer' }));
+
+    const [executionId, waitId, resumeAt] = mockScheduleWaitResume.mock.calls[0];
+    expect(executionId).toBe('exec_1');
+    expect(waitId).toBe(update.metadata.wait.id);
+    expect(resumeAt.getTime() - Date.now()).toBeGreaterThan(2.9 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should wait for an event without a timer when no timeout is set', async () => {
+    selectResults.push([{ metadata: {} }]);
+
+    const result = await executeWait(context({ mode: 'event', correlationKey: 'approval-42' }));
+
+    expect(result.pause).toEqual({ reason: 'wait' });
+    const wait = (mockSet.mock.calls[0] as any[])[0].metadata.wait;
+    expect(wait).toEqual(expect.objectContaining({ mode: 'event', correlationKey: 'approval-42' }));
+    expect(wait.secret).toMatch(/^[0-9a-f]{48}$/);
+    expect(mockScheduleWaitResume).not.toHaveBeenCalled();
+  });
+
+  it('should use the configured secret of an event wait', async () => {
+    selectResults.push([{ metadata: {} }]);
+
+    await executeWait(context({ mode: 'event', correlationKey: 'approval-42', secret: 's3cret' }));
+
+    expect((mockSet.mock.calls[0] as any[])[0].metadata.wait.secret).toBe('s3cret');
+  });
+
+  it('should return the event payload when resumed by an event', async () => {
+    selectResults.push([
+      {
+        metadata: {
+          wait: { id: 'w1', nodeId: 'wait_1', mode: 'event', correlationKey: 'approval-42', event: { approved: true } },
+        },
+      },
+    ]);
+
+    const result = await executeWait(context({ mode: 'event', correlationKey: 'approval-42' }));
+
+    expect(result.pause).toBeUndefined();
+    expect(result.output).toEqual(
+      expect.objectContaining({ data: { email: 'a@example.com' }, event: { approved: true } })
+    );
+    expect((mockSet.mock.calls[0] as any[])[0].metadata.wait).toBeUndefined();
+  });
+
+  it('should report a timeout when an event wait resumes without an event', async () => {
+    selectResults.push([
+      {
+        metadata: {
+          wait: { id: 'w1', nodeId: 'wait_1', mode: 'event', resumeAt: new Date(Date.now() - 1000).toISOString() },
+        },
+      },
+    ]);
+
+    const result = await executeWait(context({ mode: 'event', correlationKey: 'approval-42', timeout: 1000 }));
+
+    expect(result.output).toEqual(expect.objectContaining({ event: null, timedOut: true }));
+  });
+
+  it('should continue in-process when the deadline has already passed', async () => {
+    selectResults.push([{ metadata: {} }]);
+    const until = new Date(Date.now() - 60000).toISOString();
+
+    const result = await executeWait(context({ mode: 'until', until }));
+
+    expect(result.success).toBe(true);
+    expect(result.pause).toBeUndefined();
+    expect(result.output).toEqual({ data: { email: 'a@example.com' }, waitedUntil: until });
+    expect(mockSet).not.toHaveBeenCalled();
+    expect(mockScheduleWaitResume).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid timestamps', async () => {
+    const result = await executeWait(context({ mode: 'until', until: 'next tuesday' }));
+
+    expect(result.error?.code).toBe('INVALID_TIMESTAMP');
+  });
+});
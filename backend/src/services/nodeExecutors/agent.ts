@@ -9,6 +9,7 @@ import { contextCacheService } from '../contextCacheService';
 import { observabilityService } from '../observabilityService';
 import { posthogService } from '../posthogService';
 import { langfuseService } from '../langfuseService';
+import { promptService, getNodePromptReference, getPromptTraceMetadata, renderPrompt, ResolvedPrompt } from '../promptService';
 import { createId } from '@paralleldrive/cuid2';
 import { db } from '../../config/database';
 import { agentTraceHistory } from '../../../drizzle/schema';
@@ -76,6 +77,27 @@ export async function executeAgent(
     };
   }
 
+  // Prompt library template: the agent's instructions, filled from the node's input and promptVariables
+  let promptVersion: ResolvedPrompt | undefined;
+  let promptInstructions: string | undefined;
+  const promptReference = getNodePromptReference(nodeConfig);
+  if (promptReference) {
+    try {
+      promptVersion = await promptService.resolve((context as any).organizationId, promptReference);
+      const rendered = renderPrompt(promptVersion, { ...input, query, ...nodeConfig.promptVariables });
+      promptInstructions = rendered.systemPrompt || rendered.prompt;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          code: 'PROMPT_ERROR',
+        },
+      };
+    }
+  }
+  const modelDefaults = promptVersion?.modelDefaults || {};
+
   // Guardrails: Validate input
   const inputSchema = guardrailsService.createInputSchema();
   const inputValidation = guardrailsService.validateInput({ query, context: input }, inputSchema);
@@ -285,13 +307,16 @@ export async function executeAgent(
   const useRouting = (nodeConfig.useRouting as boolean) ?? true;
   
   const agentType = (nodeConfig.agentType as AgentConfig['type']) || 'react';
-  const provider = (nodeConfig.provider as AgentConfig['provider']) || 'openai';
-  const model = (nodeConfig.model as string) || (provider === 'openai' ? 'gpt-4' : 'claude-3-opus-20240229');
-  const temperature = (nodeConfig.temperature as number) ?? 0.7;
+  const provider = (nodeConfig.provider as AgentConfig['provider']) || (modelDefaults.provider as AgentConfig['provider']) || 'openai';
+  const providerId = provider === 'openai_compatible'
+    ? ((nodeConfig.providerId as string | undefined) || modelDefaults.providerId)
+    : undefined;
+  const model = (nodeConfig.model as string) || modelDefaults.model || (provider === 'openai' ? 'gpt-4' : 'claude-3-opus-20240229');
+  const temperature = (nodeConfig.temperature as number) ?? modelDefaults.temperature ?? 0.7;
   const maxIterations = (nodeConfig.maxIterations as number) ?? 15;
   const maxExecutionTime = (nodeConfig.maxExecutionTime as number) ?? 60000;
   const returnIntermediateSteps = (nodeConfig.returnIntermediateSteps as boolean) ?? true;
-  const systemPrompt = (nodeConfig.systemPrompt as string) || undefined;
+  const systemPrompt = (nodeConfig.systemPrompt as string) || promptInstructions;
   const tools = (nodeConfig.tools as string[]) || [];
   const memoryType = (nodeConfig.memoryType as AgentConfig['memoryType']) || 'buffer';
   const memoryMaxTokenLimit = (nodeConfig.memoryMaxTokenLimit as number) ?? 2000;
@@ -309,6 +334,7 @@ export async function executeAgent(
       'agent.type': agentType,
       'agent.provider': provider,
       'agent.model': model,
+      ...(promptVersion ? { 'prompt.id': promptVersion.promptId, 'prompt.version': promptVersion.version } : {}),
       'node.id': nodeId,
       'workflow.id': workflowId,
       'workflow.execution_id': context.executionId,
@@ -358,6 +384,8 @@ export async function executeAgent(
       // Agent configuration (will be merged with framework recommendations)
       const agentConfig: Partial<AgentConfig> = {
         provider,
+        providerId,
+        organizationId: (context as any).organizationId,
         model,
         temperature,
         maxIterations,
@@ -368,6 +396,8 @@ export async function executeAgent(
         tools,
         memoryType,
         memoryMaxTokenLimit,
+        promptId: promptVersion?.promptId,
+        promptVersionId: promptVersion?.promptVersionId,
       };
 
       // Execute with routing (with retry/fallback)
@@ -387,6 +417,8 @@ export async function executeAgent(
       const agentConfig: AgentConfig = {
         type: agentType,
         provider,
+        providerId,
+        organizationId: (context as any).organizationId,
         model,
         temperature,
         maxIterations,
@@ -397,6 +429,8 @@ export async function executeAgent(
         tools,
         memoryType,
         memoryMaxTokenLimit,
+        promptId: promptVersion?.promptId,
+        promptVersionId: promptVersion?.promptVersionId,
       };
 
       // Create agent if it doesn't exist
@@ -602,6 +636,7 @@ export async function executeAgent(
           agentType,
           provider,
           model,
+          ...getPromptTraceMetadata(promptVersion),
         },
         intermediateSteps: result.intermediateSteps,
       }).catch((err: any) => {
@@ -725,6 +760,7 @@ export async function executeAgent(
           agentType,
           provider,
           model,
+          ...getPromptTraceMetadata(promptVersion),
         },
       }).catch((err: any) => {
         console.warn('[Agent Executor] Langfuse export failed:', err);
@@ -96,6 +96,7 @@ export async function executeBrowserAutomation(
       htmlType: (nodeConfig.htmlType as 'static' | 'dynamic') || (input.htmlType as 'static' | 'dynamic'),
       requiresInteraction: nodeConfig.requiresInteraction === true || input.requiresInteraction === true,
       useProxy: nodeConfig.useProxy === true || input.useProxy === true,
+      signal: context.signal,
       context: {
         organizationId: organizationId || undefined,
         workspaceId: workspaceId || undefined,
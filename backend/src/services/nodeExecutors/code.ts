@@ -282,7 +282,7 @@ export async function executeCode(
       } else if (language === 'python') {
         const packages = nodeConfig.packages || [];
         const timeout = nodeConfig.timeout || 30000;
-        result = await executePython(code, input, { packages, timeout });
+        result = await executePython(code, input, { packages, timeout, signal: context.signal });
       } else if (language === 'typescript') {
         // Compile TypeScript to JavaScript
         const ts = await import('typescript');
@@ -292,7 +292,7 @@ export async function executeCode(
         });
         result = executeJavaScript(jsCode, input);
       } else if (language === 'bash') {
-        result = await executeBash(code, input, nodeConfig.timeout || 30000);
+        result = await executeBash(code, input, nodeConfig.timeout || 30000, context.signal);
       } else {
         span.setStatus({ code: SpanStatusCode.ERROR, message: `Unsupported language: ${language}` });
         return {
@@ -558,7 +558,7 @@ function executeJavaScript(
 async function executePython(
   code: string,
   input: Record<string, unknown>,
-  config?: { packages?: string[]; timeout?: number }
+  config?: { packages?: string[]; timeout?: number; signal?: AbortSignal }
 ): Promise<NodeExecutionResult> {
   try {
     const packages = config?.packages || [];
@@ -600,7 +600,7 @@ async function executePythonViaService(
   serviceUrl: string,
   code: string,
   input: Record<string, unknown>,
-  config?: { packages?: string[]; timeout?: number }
+  config?: { packages?: string[]; timeout?: number; signal?: AbortSignal }
 ): Promise<NodeExecutionResult> {
   const axios = (await import('axios')).default;
   
@@ -615,6 +615,7 @@ async function executePythonViaService(
       },
       {
         timeout: (config?.timeout || 30000) + 5000, // Add buffer for network
+        signal: config?.signal,
       }
     );
 
@@ -639,7 +640,7 @@ async function executePythonViaService(
 async function executePythonViaSubprocess(
   code: string,
   input: Record<string, unknown>,
-  config?: { packages?: string[]; timeout?: number }
+  config?: { packages?: string[]; timeout?: number; signal?: AbortSignal }
 ): Promise<NodeExecutionResult> {
   const { spawn } = await import('child_process');
   const fs = await import('fs/promises');
@@ -718,6 +719,7 @@ except Exception as e:
     // For now, we rely on process timeout and subprocess isolation
     const pythonProcess = spawn('python3', [tempFile], {
       timeout,
+      signal: config?.signal, // Killed when the execution is cancelled
       stdio: ['pipe', 'pipe', 'pipe'],
       // Security: Limit environment variables
       env: {
@@ -858,7 +860,8 @@ except Exception as e:
 async function executeBash(
   code: string,
   input: Record<string, unknown>,
-  timeout: number = 30000
+  timeout: number = 30000,
+  signal?: AbortSignal
 ): Promise<NodeExecutionResult> {
   const { spawn } = await import('child_process');
   const fs = await import('fs/promises');
@@ -895,6 +898,7 @@ echo "$RESULT"
 
     const bashProcess = spawn('bash', [tempFile], {
       timeout,
+      signal, // Killed when the execution is cancelled
       stdio: ['pipe', 'pipe', 'pipe'],
       env: {
         ...process.env,
@@ -1,11 +1,13 @@
 import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
 import { connectorRouter, ConnectorProvider } from '../connectorRouter';
 import { connectorRegistry } from '../connectors/registry';
+import { executeHttpConnectorAction } from '../connectors/httpExecutor';
 import { nangoService } from '../nangoService';
 import { db } from '../../config/database';
 import { connectorCredentials } from '../../../drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import axios from 'axios';
+import { credentialManager } from '../credentialManager';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 
 /**
@@ -26,8 +28,8 @@ export async function executeConnector(context: NodeExecutionContext): Promise<N
   const actionId = nodeConfig.action || nodeConfig.operation || 'default';
 
   // Get connector manifest
-  const connector = connectorRegistry.get(connectorId);
-  if (!connector) {
+  const connector = await connectorRegistry.resolve(connectorId);
+  if (!connector || !connectorRegistry.isAvailableTo(connectorId, (context as any).organizationId)) {
     return {
       success: false,
       error: {
@@ -72,95 +74,22 @@ export async function executeConnector(context: NodeExecutionContext): Promise<N
   try {
     const spanContext = span.spanContext();
     traceId = spanContext.traceId;
-    // Route to determine which provider to use
-    const routingDecision = await connectorRouter.routeSimple(connectorId, userId, organizationId);
-    
+    // Route to a provider and get credentials from it
+    const resolved = await resolveConnectorCredentials(connectorId, userId, organizationId);
+
     span.setAttributes({
-      'connector.routing_provider': routingDecision.provider,
+      'connector.routing_provider': resolved.provider,
     });
 
-    // Get credentials based on provider
-    let credentials: Record<string, unknown> | null = null;
-
-    if (routingDecision.provider === ConnectorProvider.NANGO) {
-      // Get credentials from Nango
-      const connections = await nangoService.getConnections(userId, organizationId);
-      const connection = connections.find((conn) => conn.provider === connectorId);
-
-      if (!connection) {
-        return {
-          success: false,
-          error: {
-            message: `No connection found for ${connectorId}. Please connect your account first.`,
-            code: 'NO_CONNECTION',
-            details: {
-              connectorId,
-              provider: 'nango',
-              authUrl: `/api/v1/nango/oauth/${connectorId}/authorize`,
-            },
-          },
-        };
-      }
-
-      // Get access token from Nango
-      const connectionId = `${userId}-${connectorId}-${Date.now()}`;
-      const token = await nangoService.getToken(connectorId, connection.id);
-      credentials = {
-        ...connection.credentials,
-        access_token: token,
-      };
-    } else if (routingDecision.provider === ConnectorProvider.CUSTOM_OAUTH) {
-      // Get credentials from database (for custom OAuth like Gmail/Outlook)
-      const [storedCredentials] = await db
-        .select()
-        .from(connectorCredentials)
-        .where(
-          and(
-            eq(connectorCredentials.connectorId, connectorId),
-            eq(connectorCredentials.userId, userId),
-            organizationId ? eq(connectorCredentials.organizationId, organizationId) : undefined
-          )
-        )
-        .limit(1);
-
-      if (!storedCredentials) {
-        return {
-          success: false,
-          error: {
-            message: `No credentials found for ${connectorId}. Please connect your account first.`,
-            code: 'NO_CREDENTIALS',
-            details: {
-              connectorId,
-              provider: 'custom_oauth',
-            },
-          },
-        };
-      }
-
-      credentials = storedCredentials.credentials as Record<string, unknown>;
-    } else if (routingDecision.provider === ConnectorProvider.ERROR) {
-      return {
-        success: false,
-        error: {
-          message: routingDecision.reason,
-          code: 'ROUTING_ERROR',
-          details: routingDecision.metadata,
-        },
-      };
-    } else {
-      // Future providers (Panora, Composio, etc.) - not yet implemented
-      return {
-        success: false,
-        error: {
-          message: `Provider ${routingDecision.provider} is not yet implemented`,
-          code: 'PROVIDER_NOT_IMPLEMENTED',
-          details: routingDecision.metadata,
-        },
-      };
+    if (!resolved.credentials) {
+      return { success: false, error: resolved.error };
     }
+    const credentials = resolved.credentials;
 
-    // Execute the connector action
-    const result = await executeConnectorAction(connectorId, actionId, input, credentials, nodeConfig);
+    // Execute the connector action (custom connectors through the declarative HTTP executor)
+    const result = connectorRegistry.isCustom(connectorId)
+      ? await executeHttpConnectorAction(connector, actionId, input, credentials)
+      : await executeConnectorAction(connectorId, actionId, input, credentials, nodeConfig);
     
     const latencyMs = Date.now() - startTime;
     
@@ -217,9 +146,125 @@ export async function executeConnector(context: NodeExecutionContext): Promise<N
 }
 
 /**
- * Execute a specific connector action
+ * Get the credentials a user's connection to a connector uses, from the
+ * provider the connector router picks (Nango or stored custom OAuth)
+ */
+export async function resolveConnectorCredentials(
+  connectorId: string,
+  userId: string,
+  organizationId: string
+): Promise<{
+  provider: ConnectorProvider;
+  credentials?: Record<string, unknown>;
+  error?: NodeExecutionResult['error'];
+}> {
+  const routingDecision = await connectorRouter.routeSimple(connectorId, userId, organizationId);
+  const provider = routingDecision.provider;
+
+  if (provider === ConnectorProvider.NANGO) {
+    // Get credentials from Nango
+    const connections = await nangoService.getConnections(userId, organizationId);
+    const connection = connections.find((conn) => conn.provider === connectorId);
+
+    if (!connection) {
+      return {
+        provider,
+        error: {
+          message: `No connection found for ${connectorId}. Please connect your account first.`,
+          code: 'NO_CONNECTION',
+          details: {
+            connectorId,
+            provider: 'nango',
+            authUrl: `/api/v1/nango/oauth/${connectorId}/authorize`,
+          },
+        },
+      };
+    }
+
+    // Get access token from Nango
+    const token = await nangoService.getToken(connectorId, connection.connectionId || connection.id);
+    return {
+      provider,
+      credentials: {
+        ...connection.credentials,
+        access_token: token,
+      },
+    };
+  }
+
+  if (provider === ConnectorProvider.CUSTOM_OAUTH) {
+    // Get credentials from database (for custom OAuth like Gmail/Outlook)
+    const [storedCredentials] = await db
+      .select()
+      .from(connectorCredentials)
+      .where(
+        and(
+          eq(connectorCredentials.connectorId, connectorId),
+          eq(connectorCredentials.userId, userId),
+          organizationId ? eq(connectorCredentials.organizationId, organizationId) : undefined
+        )
+      )
+      .limit(1);
+
+    if (!storedCredentials) {
+      return {
+        provider,
+        error: {
+          message: `No credentials found for ${connectorId}. Please connect your account first.`,
+          code: 'NO_CREDENTIALS',
+          details: {
+            connectorId,
+            provider: 'custom_oauth',
+          },
+        },
+      };
+    }
+
+    // Decrypted, with the OAuth token refreshed if it is about to expire
+    try {
+      const credentials = await credentialManager.getCredentials(storedCredentials);
+      return { provider, credentials };
+    } catch (error: any) {
+      return {
+        provider,
+        error: {
+          message: `Credentials for ${connectorId} could not be refreshed: ${error.message}. Please reconnect your account.`,
+          code: 'CREDENTIALS_EXPIRED',
+          details: {
+            connectorId,
+            credentialId: storedCredentials.id,
+          },
+        },
+      };
+    }
+  }
+
+  if (provider === ConnectorProvider.ERROR) {
+    return {
+      provider,
+      error: {
+        message: routingDecision.reason,
+        code: 'ROUTING_ERROR',
+        details: routingDecision.metadata,
+      },
+    };
+  }
+
+  // Future providers (Panora, Composio, etc.) - not yet implemented
+  return {
+    provider,
+    error: {
+      message: `Provider ${provider} is not yet implemented`,
+      code: 'PROVIDER_NOT_IMPLEMENTED',
+      details: routingDecision.metadata,
+    },
+  };
+}
+
+/**
+ * Execute a specific connector action (also used by credential health checks)
  */
-async function executeConnectorAction(
+export async function executeConnectorAction(
   connectorId: string,
   actionId: string,
   input: Record<string, unknown>,
@@ -193,6 +193,85 @@ export async function executeGitHubListRepositories(
   }
 }
 
+/**
+ * Create a repository webhook (used by connector triggers)
+ */
+export async function executeGitHubCreateWebhook(
+  owner: string,
+  repo: string,
+  events: string[],
+  url: string,
+  secret: string,
+  credentials: GitHubCredentials
+): Promise<NodeExecutionResult> {
+  try {
+    const client = createGitHubClient(credentials);
+
+    const response = await client.post(`/repos/${owner}/${repo}/hooks`, {
+      name: 'web',
+      active: true,
+      events,
+      config: {
+        url,
+        content_type: 'json',
+        secret,
+        insecure_ssl: '0',
+      },
+    });
+
+    return {
+      success: true,
+      output: {
+        id: response.data.id,
+        events: response.data.events,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.response?.data?.message || error.message || 'GitHub webhook creation failed',
+        code: 'GITHUB_CREATE_WEBHOOK_ERROR',
+        details: error.response?.data,
+      },
+    };
+  }
+}
+
+/**
+ * Delete a repository webhook
+ */
+export async function executeGitHubDeleteWebhook(
+  owner: string,
+  repo: string,
+  hookId: string,
+  credentials: GitHubCredentials
+): Promise<NodeExecutionResult> {
+  try {
+    const client = createGitHubClient(credentials);
+
+    await client.delete(`/repos/${owner}/${repo}/hooks/${hookId}`);
+
+    return {
+      success: true,
+      output: { deleted: true },
+    };
+  } catch (error: any) {
+    // Already gone counts as deleted
+    if (error.response?.status === 404) {
+      return { success: true, output: { deleted: false } };
+    }
+    return {
+      success: false,
+      error: {
+        message: error.response?.data?.message || error.message || 'GitHub webhook deletion failed',
+        code: 'GITHUB_DELETE_WEBHOOK_ERROR',
+        details: error.response?.data,
+      },
+    };
+  }
+}
+
 /**
  * Execute GitHub connector action
  */
@@ -99,6 +99,7 @@ export async function executeGoogleDriveUploadFile(
 export async function executeGoogleDriveListFiles(
   query?: string,
   pageSize: number = 10,
+  orderBy?: string,
   credentials: GoogleDriveCredentials
 ): Promise<NodeExecutionResult> {
   try {
@@ -106,13 +107,17 @@ export async function executeGoogleDriveListFiles(
     
     const params: Record<string, unknown> = {
       pageSize,
-      fields: 'files(id, name, mimeType, webViewLink, createdTime, modifiedTime)',
+      fields: 'files(id, name, mimeType, webViewLink, createdTime, modifiedTime, parents)',
     };
     
     if (query) {
       params.q = query;
     }
 
+    if (orderBy) {
+      params.orderBy = orderBy;
+    }
+
     const response = await client.get('/files', { params });
 
     return {
@@ -211,7 +216,7 @@ export async function executeGoogleDrive(
     case 'list_files':
       const query = input.query as string | undefined;
       const pageSize = (input.pageSize as number) || 10;
-      return executeGoogleDriveListFiles(query, pageSize, credentials);
+      return executeGoogleDriveListFiles(query, pageSize, input.orderBy as string | undefined, credentials);
 
     case 'download_file':
       const fileId = input.fileId as string;
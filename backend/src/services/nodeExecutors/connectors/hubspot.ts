@@ -132,6 +132,51 @@ export async function executeHubSpotGetContact(
   }
 }
 
+/**
+ * Search contacts changed since a time, oldest first (used by connector triggers)
+ */
+export async function executeHubSpotSearchContacts(
+  timestampProperty: 'createdate' | 'lastmodifieddate',
+  since: Date,
+  limit: number = 100,
+  properties: string[] = [],
+  credentials: HubSpotCredentials
+): Promise<NodeExecutionResult> {
+  try {
+    const client = createHubSpotClient(credentials);
+
+    const response = await client.post('/crm/v3/objects/contacts/search', {
+      filterGroups: [{
+        filters: [{
+          propertyName: timestampProperty,
+          operator: 'GTE',
+          value: since.getTime().toString(),
+        }],
+      }],
+      sorts: [{ propertyName: timestampProperty, direction: 'ASCENDING' }],
+      properties: Array.from(new Set(['email', 'firstname', 'lastname', 'createdate', 'lastmodifieddate', ...properties])),
+      limit,
+    });
+
+    return {
+      success: true,
+      output: {
+        contacts: response.data.results || [],
+        total: response.data.total || 0,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.response?.data?.message || error.message || 'HubSpot contact search failed',
+        code: 'HUBSPOT_SEARCH_CONTACTS_ERROR',
+        details: error.response?.data,
+      },
+    };
+  }
+}
+
 /**
  * Execute HubSpot connector action
  */
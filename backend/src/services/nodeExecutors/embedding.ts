@@ -19,8 +19,15 @@ export async function executeEmbedding(
   }
 
   try {
-    const model = nodeConfig.model || 'text-embedding-ada-002';
-    const embedding = await aiService.generateEmbedding(text);
+    const providerId = (nodeConfig.providerId as string) || undefined;
+    const model = nodeConfig.model || (providerId ? undefined : 'text-embedding-ada-002');
+    // Organization providers fall back to the first embedding model of their catalogue
+    const embedding = await aiService.generateEmbedding(text, {
+      provider: providerId ? 'openai_compatible' : 'openai',
+      providerId,
+      organizationId: (context as any).organizationId,
+      model,
+    });
 
     return {
       success: true,
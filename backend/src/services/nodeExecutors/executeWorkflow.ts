@@ -0,0 +1,353 @@
+import { NodeExecutionContext, NodeExecutionResult, WorkflowDefinition } from '@sos/shared';
+import { db } from '../../config/database';
+import { workflows, workflowVersions, workflowExecutions, workspaces } from '../../../drizzle/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+
+// Maximum nesting of sub-workflow calls (parent -> child -> grandchild ...)
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+/**
+ * Link from a child execution back to the step that started it
+ * (stored in the child's workflow_executions.metadata.parentExecution)
+ */
+export interface ParentExecutionLink {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  stepId?: string;
+  rootExecutionId: string;
+  depth: number;
+}
+
+/**
+ * Child run a paused parent is waiting on
+ * (stored in the parent's workflow_executions.metadata.subWorkflow)
+ */
+export interface SubWorkflowWaitState {
+  nodeId: string;
+  childExecutionId: string;
+  workflowId: string;
+  version: number | 'latest';
+  // Set when the child finished; the parent then resumes
+  result?: {
+    status: string;
+    output?: Record<string, unknown>;
+    error?: string;
+  };
+}
+
+type SubWorkflowContext = NodeExecutionContext & {
+  userId?: string;
+  organizationId?: string;
+  workspaceId?: string;
+  stepId?: string;
+  privateLlmOnly?: boolean;
+};
+
+/**
+ * Output of a finished child run: the output of its only sink node, or all
+ * sink outputs keyed by node ID when the child ends in several branches
+ */
+export function getSubWorkflowOutput(
+  definition: WorkflowDefinition,
+  results: Record<string, any>
+): Record<string, unknown> {
+  const sinkIds = definition.nodes
+    .filter((node) => !definition.edges.some((edge) => edge.source === node.id))
+    .map((node) => node.id)
+    .filter((id) => results[id]?.success);
+
+  if (sinkIds.length === 1) {
+    return (results[sinkIds[0]].output as Record<string, unknown>) || {};
+  }
+
+  const outputs: Record<string, unknown> = {};
+  for (const id of sinkIds) {
+    outputs[id] = results[id].output;
+  }
+  return outputs;
+}
+
+/**
+ * Result of the node for a finished child run
+ */
+function childRunResult(
+  state: Pick<SubWorkflowWaitState, 'childExecutionId' | 'workflowId' | 'version'>,
+  result: NonNullable<SubWorkflowWaitState['result']>
+): NodeExecutionResult {
+  if (result.status !== 'completed') {
+    return {
+      success: false,
+      error: {
+        message: `Sub-workflow ${state.workflowId} ${result.status}: ${result.error || 'unknown error'}`,
+        code: 'SUBWORKFLOW_FAILED',
+        details: { childExecutionId: state.childExecutionId },
+      },
+    };
+  }
+
+  return {
+    success: true,
+    output: {
+      childExecutionId: state.childExecutionId,
+      workflowId: state.workflowId,
+      version: state.version,
+      status: result.status,
+      output: result.output || {},
+    },
+  };
+}
+
+/**
+ * Execute Workflow node
+ * Runs another workflow of the same organization as a function, either
+ * waiting for its result or firing and forgetting. A child that pauses
+ * (wait, human prompt, breakpoint) pauses the parent too; the parent resumes
+ * when the child finishes. Callers that cannot pause (LLM tool calls) pass
+ * `pausable: false`, and a pausing child is then cancelled and fails the node.
+ */
+export async function executeSubWorkflow(
+  context: NodeExecutionContext,
+  options: { pausable?: boolean } = {}
+): Promise<NodeExecutionResult> {
+  const { pausable = true } = options;
+  const subContext = context as SubWorkflowContext;
+  const { input, config } = context;
+  const nodeConfig = config as any;
+
+  try {
+    const targetWorkflowId = nodeConfig.workflowId as string | undefined;
+    if (!targetWorkflowId) {
+      return {
+        success: false,
+        error: { message: 'No workflow selected', code: 'SUBWORKFLOW_NOT_CONFIGURED' },
+      };
+    }
+
+    // Depth comes from the parent's own link, if it is itself a sub-workflow
+    const [parentExecution] = await db
+      .select({ metadata: workflowExecutions.metadata })
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.id, context.executionId))
+      .limit(1);
+    const parentMetadata = (parentExecution?.metadata as any) || {};
+    const pending = parentMetadata.subWorkflow as SubWorkflowWaitState | undefined;
+
+    // Resumed: the child this node paused on finished
+    if (pending?.nodeId === context.nodeId) {
+      if (!pending.result) {
+        // Resumed by hand while the child is still running
+        await db.update(workflowExecutions).set({ status: 'paused' }).where(eq(workflowExecutions.id, context.executionId));
+        return { success: true, output: {}, pause: { reason: 'subworkflow' } };
+      }
+
+      await db.update(workflowExecutions).set({
+        metadata: sql`coalesce(${workflowExecutions.metadata}, '{}'::jsonb) - 'subWorkflow'`,
+      }).where(eq(workflowExecutions.id, context.executionId));
+      return childRunResult(pending, pending.result);
+    }
+
+    const parentLink = parentMetadata.parentExecution as ParentExecutionLink | undefined;
+    const depth = (parentLink?.depth || 0) + 1;
+    const maxDepth = Math.min(Number(nodeConfig.maxDepth) || MAX_SUBWORKFLOW_DEPTH, MAX_SUBWORKFLOW_DEPTH);
+
+    if (depth > maxDepth) {
+      return {
+        success: false,
+        error: {
+          message: `Sub-workflow depth limit of ${maxDepth} exceeded`,
+          code: 'SUBWORKFLOW_DEPTH_EXCEEDED',
+          details: { depth, rootExecutionId: parentLink?.rootExecutionId },
+        },
+      };
+    }
+
+    // Target must belong to the same organization as the calling workflow
+    const [target] = await db
+      .select({
+        id: workflows.id,
+        definition: workflows.definition,
+        workspaceId: workflows.workspaceId,
+        organizationId: workspaces.organizationId,
+      })
+      .from(workflows)
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(eq(workflows.id, targetWorkflowId))
+      .limit(1);
+
+    const [caller] = await db
+      .select({ organizationId: workspaces.organizationId })
+      .from(workflows)
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(eq(workflows.id, context.workflowId))
+      .limit(1);
+
+    if (!target || !caller || target.organizationId !== caller.organizationId) {
+      return {
+        success: false,
+        error: { message: `Workflow ${targetWorkflowId} not found`, code: 'SUBWORKFLOW_NOT_FOUND' },
+      };
+    }
+
+    // Pinned version or the current definition
+    let definition = target.definition as WorkflowDefinition;
+    let version: number | 'latest' = 'latest';
+    if (nodeConfig.version !== undefined && nodeConfig.version !== '' && nodeConfig.version !== 'latest') {
+      const [pinned] = await db
+        .select()
+        .from(workflowVersions)
+        .where(and(eq(workflowVersions.workflowId, target.id), eq(workflowVersions.version, Number(nodeConfig.version))))
+        .orderBy(desc(workflowVersions.createdAt))
+        .limit(1);
+
+      if (!pinned) {
+        return {
+          success: false,
+          error: {
+            message: `Version ${nodeConfig.version} of workflow ${target.id} not found`,
+            code: 'SUBWORKFLOW_VERSION_NOT_FOUND',
+          },
+        };
+      }
+      definition = pinned.definition as WorkflowDefinition;
+      version = pinned.version;
+    }
+
+    // Mapped inputs (expressions already resolved) or the node input as-is
+    const mappedInput = nodeConfig.inputMapping && typeof nodeConfig.inputMapping === 'object'
+      && Object.keys(nodeConfig.inputMapping).length > 0
+      ? (nodeConfig.inputMapping as Record<string, unknown>)
+      : input;
+
+    const parentExecutionLink: ParentExecutionLink = {
+      executionId: context.executionId,
+      workflowId: context.workflowId,
+      nodeId: context.nodeId,
+      stepId: subContext.stepId,
+      rootExecutionId: parentLink?.rootExecutionId || context.executionId,
+      depth,
+    };
+
+    // Imported lazily: the executor itself depends on the node executors
+    const { workflowExecutor } = await import('../workflowExecutor');
+    const childExecutionId = createId();
+    const childRun = {
+      workflowId: target.id,
+      definition,
+      input: mappedInput,
+      executionId: childExecutionId,
+      userId: subContext.userId,
+      organizationId: subContext.organizationId,
+      workspaceId: target.workspaceId,
+      parentExecution: parentExecutionLink,
+      // A parent restricted to private models restricts the child too
+      ...(subContext.privateLlmOnly ? { privateLlmOnly: true } : {}),
+    };
+
+    if (nodeConfig.mode === 'fire_and_forget') {
+      await workflowExecutor.enqueueExecution(childRun);
+      return {
+        success: true,
+        output: {
+          childExecutionId,
+          workflowId: target.id,
+          version,
+          status: 'queued',
+        },
+      };
+    }
+
+    // Cancelling the parent (or its timeout) cancels the child run too
+    const cancelChild = () => {
+      workflowExecutor.cancelExecution(childExecutionId).catch(() => undefined);
+    };
+    context.signal?.addEventListener('abort', cancelChild, { once: true });
+
+    let childResult: {
+      executionId: string;
+      status: string;
+      results?: Record<string, any>;
+      error?: string;
+    };
+    try {
+      childResult = (await workflowExecutor.executeWorkflow(childRun)) as typeof childResult;
+    } finally {
+      context.signal?.removeEventListener('abort', cancelChild);
+    }
+
+    const childState = { childExecutionId: childResult.executionId, workflowId: target.id, version };
+
+    if (childResult.status === 'paused') {
+      if (!pausable) {
+        await workflowExecutor.cancelExecution(childResult.executionId).catch(() => undefined);
+        return {
+          success: false,
+          error: {
+            message: `Sub-workflow ${target.id} paused, but this caller cannot wait for it`,
+            code: 'SUBWORKFLOW_PAUSED',
+            details: { childExecutionId: childResult.executionId },
+          },
+        };
+      }
+
+      // Wait for the child without holding the worker
+      const subWorkflow: SubWorkflowWaitState = { nodeId: context.nodeId, ...childState };
+      await db.update(workflowExecutions).set({
+        status: 'paused',
+        metadata: sql`jsonb_set(
+          coalesce(${workflowExecutions.metadata}, '{}'::jsonb),
+          '{subWorkflow}',
+          ${JSON.stringify(subWorkflow)}::jsonb
+        )`,
+      }).where(eq(workflowExecutions.id, context.executionId));
+
+      // A child resumed elsewhere may have finished before the parent was
+      // paused, in which case nothing resumes the parent; take its result here
+      const [child] = await db
+        .select({ status: workflowExecutions.status, output: workflowExecutions.output, error: workflowExecutions.error })
+        .from(workflowExecutions)
+        .where(eq(workflowExecutions.id, childResult.executionId))
+        .limit(1);
+
+      if (child && ['completed', 'failed', 'cancelled'].includes(child.status)) {
+        // Only one of this run and the child's resume of the parent continues
+        const claimed = await db.update(workflowExecutions).set({
+          status: 'running',
+          metadata: sql`coalesce(${workflowExecutions.metadata}, '{}'::jsonb) - 'subWorkflow'`,
+        }).where(and(
+          eq(workflowExecutions.id, context.executionId),
+          eq(workflowExecutions.status, 'paused'),
+          sql`${workflowExecutions.metadata}->'subWorkflow'->>'childExecutionId' = ${childResult.executionId}`
+        )).returning({ id: workflowExecutions.id });
+
+        if (claimed.length > 0) {
+          return childRunResult(childState, {
+            status: child.status,
+            error: child.error || undefined,
+            output: child.status === 'completed'
+              ? getSubWorkflowOutput(definition, (child.output as Record<string, any>) || {})
+              : undefined,
+          });
+        }
+      }
+
+      return { success: true, output: {}, pause: { reason: 'subworkflow' } };
+    }
+
+    return childRunResult(childState, {
+      status: childResult.status,
+      error: childResult.error,
+      output: childResult.status === 'completed' ? getSubWorkflowOutput(definition, childResult.results || {}) : undefined,
+    });
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: `Execute workflow failed: ${error.message}`,
+        code: 'SUBWORKFLOW_ERROR',
+        details: error,
+      },
+    };
+  }
+}
@@ -33,6 +33,7 @@ export async function executeHttpRequest(
     headers,
     timeout: nodeConfig.timeout || 30000,
     maxRedirects: nodeConfig.followRedirects !== false ? 5 : 0,
+    signal: context.signal,
   };
 
   // Add body for methods that support it
@@ -2,13 +2,29 @@ import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
 import { db } from '../../config/database';
 import { workflowExecutions } from '../../../drizzle/schema';
 import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
 import { websocketService } from '../websocketService';
-import redis from '../../config/redis';
+
+/**
+ * Pending prompt of a paused execution
+ * (stored in workflow_executions.metadata.humanPrompt)
+ */
+export interface HumanPromptState {
+  id: string;
+  nodeId: string;
+  prompt: string;
+  inputSchema: Record<string, unknown>;
+  requestedAt: string;
+  expiresAt: string;
+  expired?: boolean; // Set when the timeout elapsed without a response
+}
 
 /**
  * Execute human prompt node
  * 
- * Pauses execution and waits for human input
+ * Pauses execution until a human responds; the worker is released while
+ * waiting and the node runs again on resume, returning the stored response.
+ * A prompt left unanswered past its timeout fails the node.
  */
 export async function executeHumanPrompt(
   context: NodeExecutionContext
@@ -38,21 +54,62 @@ export async function executeHumanPrompt(
       };
     }
 
-    // Pause execution
     const metadata = (execution.metadata as any) || {};
+    const responses = metadata.humanPromptResponses || {};
+    const pending = metadata.humanPrompt as HumanPromptState | undefined;
+
+    // Response submitted while the execution was paused
+    if (responses[nodeId] !== undefined) {
+      const { [nodeId]: response, ...remainingResponses } = responses;
+      await db.update(workflowExecutions).set({
+        metadata: {
+          ...metadata,
+          humanPrompt: undefined,
+          humanPromptResponses: remainingResponses,
+        },
+      }).where(eq(workflowExecutions.id, executionId));
+
+      return {
+        success: true,
+        output: response,
+      };
+    }
+
+    // Resumed by the expiry timer
+    if (pending?.nodeId === nodeId && pending.expired) {
+      await db.update(workflowExecutions).set({
+        metadata: { ...metadata, humanPrompt: undefined },
+      }).where(eq(workflowExecutions.id, executionId));
+
+      return {
+        success: false,
+        error: {
+          message: `Human prompt expired without a response after ${timeout}ms`,
+          code: 'HUMAN_PROMPT_EXPIRED',
+        },
+      };
+    }
+
+    // Pause execution
+    const requestedAt = new Date();
+    const expiresAt = new Date(requestedAt.getTime() + timeout);
+    const humanPrompt: HumanPromptState = {
+      id: createId(),
+      nodeId,
+      prompt,
+      inputSchema,
+      requestedAt: requestedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
     await db.update(workflowExecutions).set({
       status: 'paused',
-      metadata: {
-        ...metadata,
-        humanPrompt: {
-          nodeId,
-          prompt,
-          inputSchema,
-          requestedAt: new Date(),
-        },
-      },
+      metadata: { ...metadata, humanPrompt },
     }).where(eq(workflowExecutions.id, executionId));
 
+    // Imported lazily: the executor itself depends on the node executors
+    const { workflowExecutor } = await import('../workflowExecutor');
+    await workflowExecutor.schedulePromptExpiry(executionId, humanPrompt.id, expiresAt);
+
     // Emit WebSocket event for human prompt
     websocketService.emitHumanPrompt(executionId, {
       nodeId,
@@ -60,21 +117,10 @@ export async function executeHumanPrompt(
       inputSchema,
     });
 
-    // Wait for human response using Redis pub/sub
-    const response = await waitForHumanResponse(executionId, nodeId, timeout);
-
-    // Resume execution
-    await db.update(workflowExecutions).set({
-      status: 'running',
-      metadata: {
-        ...metadata,
-        humanPrompt: undefined,
-      },
-    }).where(eq(workflowExecutions.id, executionId));
-
     return {
       success: true,
-      output: response,
+      output: {},
+      pause: { reason: 'human_prompt' },
     };
   } catch (error: any) {
     return {
@@ -86,48 +132,3 @@ export async function executeHumanPrompt(
     };
   }
 }
-
-/**
- * Wait for human response via Redis pub/sub
- */
-function waitForHumanResponse(
-  executionId: string,
-  nodeId: string,
-  timeout: number
-): Promise<Record<string, unknown>> {
-  return new Promise((resolve, reject) => {
-    const subscriber = redis.duplicate();
-    const channel = `execution:${executionId}:human-prompt:${nodeId}`;
-
-    subscriber.subscribe(channel);
-
-    const timeoutId = setTimeout(() => {
-      subscriber.unsubscribe();
-      subscriber.quit();
-      reject(new Error('Human prompt timeout'));
-    }, timeout);
-
-    subscriber.on('message', (ch, message) => {
-      if (ch === channel) {
-        clearTimeout(timeoutId);
-        subscriber.unsubscribe();
-        subscriber.quit();
-
-        try {
-          const response = JSON.parse(message);
-          resolve(response);
-        } catch (error) {
-          reject(new Error('Invalid response format'));
-        }
-      }
-    });
-
-    subscriber.on('error', (error) => {
-      clearTimeout(timeoutId);
-      subscriber.unsubscribe();
-      subscriber.quit();
-      reject(error);
-    });
-  });
-}
-
@@ -1,5 +1,7 @@
 import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
 import { executeHttpRequest } from './httpRequest';
+import { executeRespondWebhook } from './respondWebhook';
+import { executeSubWorkflow } from './executeWorkflow';
 import { executeCode } from './code';
 import { executeLLM } from './llm';
 import { executeTransform } from './transform';
@@ -43,6 +45,7 @@ import { executeBrowserAutomation } from './browserAutomation';
 import { executeBrowserSwitch } from './browserSwitch';
 import { executeAIBrowserAgent } from './aiBrowserAgent';
 import { executeRAGHelperClicker } from './ragHelperClicker';
+import { llmProviderService } from '../llmProviderService';
 
 export async function executeNode(context: NodeExecutionContext): Promise<NodeExecutionResult> {
   const { nodeId, config } = context;
@@ -53,6 +56,23 @@ export async function executeNode(context: NodeExecutionContext): Promise<NodeEx
   try {
     let result: NodeExecutionResult;
 
+    // Private-only workflows: reject nodes that would call a model outside the network
+    if ((context as any).privateLlmOnly) {
+      const violation = await llmProviderService.checkPrivateNode((context as any).organizationId, nodeType, config as Record<string, any>);
+      if (violation) {
+        return {
+          success: false,
+          error: {
+            message: `Workflow is restricted to private LLM providers: ${violation}`,
+            code: 'PRIVATE_LLM_REQUIRED',
+          },
+          metadata: {
+            executionTime: Date.now() - startTime,
+          },
+        };
+      }
+    }
+
     // Route to appropriate executor based on node type
     if (nodeType.startsWith('trigger.')) {
       // Triggers don't execute - they just pass through data
@@ -62,6 +82,8 @@ export async function executeNode(context: NodeExecutionContext): Promise<NodeEx
       };
     } else if (nodeType === 'action.http') {
       result = await executeHttpRequest(context);
+    } else if (nodeType === 'action.respond_webhook') {
+      result = await executeRespondWebhook(context);
     } else if (nodeType === 'action.code') {
       result = await executeCode(context, 'javascript');
     } else if (nodeType === 'action.code.python') {
@@ -122,6 +144,8 @@ export async function executeNode(context: NodeExecutionContext): Promise<NodeEx
       result = await executeMerge(context);
     } else if (nodeType === 'logic.error_catch') {
       result = await executeErrorCatch(context);
+    } else if (nodeType === 'logic.execute_workflow') {
+      result = await executeSubWorkflow(context);
     } else if (nodeType === 'data.database') {
       result = await executeDatabase(context);
     } else if (nodeType === 'data.file') {
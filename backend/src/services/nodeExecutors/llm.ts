@@ -5,19 +5,46 @@ import { modelCostLogs, organizations } from '../../../drizzle/schema';
 import { createId } from '@paralleldrive/cuid2';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import { featureFlagService } from '../featureFlagService';
-import { costCalculationService } from '../costCalculationService';
+import { costCalculationService, LLMProviderType, ModelPricing } from '../costCalculationService';
 import { guardrailsService } from '../guardrailsService';
 import { langfuseService } from '../langfuseService';
 import { archGWService } from '../archGWService';
 import { rateLimitService } from '../rateLimitService';
 import { retryService } from '../retryService';
+import { websocketService } from '../websocketService';
+import { llmToolService, LLMToolDeclaration } from '../llmToolService';
+import { LLMConfig, applyPromptVariables } from '../langchainService';
+import { promptService, getNodePromptReference, getPromptTraceMetadata, renderPrompt, ResolvedPrompt } from '../promptService';
 import { eq } from 'drizzle-orm';
 
 export async function executeLLM(context: NodeExecutionContext): Promise<NodeExecutionResult> {
   const { input, config } = context;
   const nodeConfig = config as any;
 
-  const prompt = (input.prompt as string) || nodeConfig.prompt || '';
+  let prompt = (input.prompt as string) || nodeConfig.prompt || '';
+  let systemPrompt = nodeConfig.systemPrompt as string | undefined;
+
+  // Prompt library template, filled from the node's input and promptVariables
+  let promptVersion: ResolvedPrompt | undefined;
+  const promptReference = getNodePromptReference(nodeConfig);
+  if (promptReference) {
+    try {
+      promptVersion = await promptService.resolve((context as any).organizationId, promptReference);
+      const rendered = renderPrompt(promptVersion, { ...input, ...nodeConfig.promptVariables });
+      prompt = rendered.prompt;
+      systemPrompt = systemPrompt || rendered.systemPrompt;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          code: 'PROMPT_ERROR',
+        },
+      };
+    }
+  }
+  const modelDefaults = promptVersion?.modelDefaults || {};
+
   if (!prompt) {
     return {
       success: false,
@@ -29,8 +56,14 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
   }
 
   const startTime = Date.now();
-  let modelName = nodeConfig.model || 'gpt-3.5-turbo';
-  let provider = (nodeConfig.provider as 'openai' | 'anthropic' | 'google') || 'openai';
+  let modelName = nodeConfig.model || modelDefaults.model || 'gpt-3.5-turbo';
+  let provider = (nodeConfig.provider as LLMProviderType) || modelDefaults.provider || 'openai';
+  // Organization endpoint (vLLM, Ollama, Azure OpenAI, ...) for the 'openai_compatible' provider
+  const providerId = provider === 'openai_compatible'
+    ? ((nodeConfig.providerId as string | undefined) || modelDefaults.providerId)
+    : undefined;
+  const temperature = nodeConfig.temperature || modelDefaults.temperature || 0.7;
+  const maxTokens = nodeConfig.maxTokens || modelDefaults.maxTokens || 1000;
 
   // Create OpenTelemetry span for LLM execution
   const tracer = trace.getTracer('sos-llm-executor');
@@ -41,6 +74,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       'node.id': context.nodeId,
       'workflow.id': context.workflowId,
       'workflow.execution_id': context.executionId,
+      ...(promptVersion ? { 'prompt.id': promptVersion.promptId, 'prompt.version': promptVersion.version } : {}),
     },
   });
 
@@ -59,7 +93,8 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
         (context as any).workspaceId
       );
 
-      if (enableArchGW) {
+      // Custom endpoints are never routed to another provider
+      if (enableArchGW && provider !== 'openai_compatible') {
         // Get compliance requirements from organization settings or node config
         let complianceRequirements: string[] = [];
         const organizationId = (context as any).organizationId;
@@ -324,7 +359,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       // Skip individual checks if ArchGW already handled routing
       const skipIndividualChecks = routingDecision && routingDecision.factors?.includes('cost_tiering');
 
-      if (enableCostTiering && !skipIndividualChecks) {
+      if (enableCostTiering && !skipIndividualChecks && provider !== 'openai_compatible') {
         // Get organization plan
         let organizationPlan: 'free' | 'pro' | 'team' | 'enterprise' = 'free';
         const organizationId = (context as any).organizationId;
@@ -392,7 +427,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       // Skip individual checks if ArchGW already handled routing
       const skipIndividualChecks = routingDecision && routingDecision.factors?.includes('region_routing');
 
-      if (enableRegionRouting && !skipIndividualChecks) {
+      if (enableRegionRouting && !skipIndividualChecks && provider !== 'openai_compatible') {
         // Get compliance requirements from organization settings or node config
         let complianceRequirements: string[] = [];
         const organizationId = (context as any).organizationId;
@@ -529,7 +564,56 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       // Continue execution if similarity check fails
     }
 
+    // Tool-calling mode: the model may call connector actions, code agents and workflows
+    const toolDeclarations = Array.isArray(nodeConfig.tools) ? (nodeConfig.tools as LLMToolDeclaration[]) : [];
+    const tools = toolDeclarations.length > 0
+      ? await llmToolService.resolveTools(toolDeclarations, (context as any).organizationId)
+      : [];
+
     const llmStartTime = new Date();
+
+    // Stream tokens to clients unless output guardrails may still rewrite or block the text
+    const validatesOutput = !!(nodeConfig.jsonSchema || nodeConfig.outputSchema || nodeConfig.validationPolicies || nodeConfig.usePredefinedPolicies);
+    const stream = nodeConfig.stream !== false && !validatesOutput && tools.length === 0
+      ? websocketService.createNodeChunkStream(context.executionId, context.nodeId)
+      : undefined;
+
+    // Uses the provider and model current at call time (they change on reroute)
+    const callModel = async () => {
+      const llmConfig: LLMConfig = {
+        provider,
+        model: modelName,
+        temperature,
+        maxTokens,
+        systemPrompt,
+        providerId,
+        organizationId: (context as any).organizationId,
+      };
+      const variables = {
+        ...input,
+        context: input.context,
+      };
+
+      if (tools.length > 0) {
+        return await llmToolService.generate({
+          prompt: applyPromptVariables(prompt, variables),
+          config: llmConfig,
+          tools,
+          context,
+          maxIterations: nodeConfig.maxToolIterations,
+          signal: context.signal,
+        });
+      }
+
+      stream?.restart();
+      return await aiService.generateText({
+        prompt,
+        config: llmConfig,
+        variables,
+        signal: context.signal,
+        onToken: stream?.write,
+      });
+    };
     
     // Check if StackStorm retry is enabled
     const enableStackStormRetry = await featureFlagService.isEnabled(
@@ -538,26 +622,12 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       (context as any).workspaceId
     );
 
-    // Execute LLM call with retry logic (StackStorm if enabled, otherwise simple retry)
+    // Execute LLM call with retry logic (StackStorm if enabled, otherwise simple retry).
+    // Tool calls have side effects, so a tool-calling run is not retried.
     const retryResult = await retryService.executeWithRetry(
-      async () => {
-        return await aiService.generateText({
-          prompt,
-          config: {
-            provider,
-            model: modelName,
-            temperature: nodeConfig.temperature || 0.7,
-            maxTokens: nodeConfig.maxTokens || 1000,
-            systemPrompt: nodeConfig.systemPrompt,
-          },
-          variables: {
-            ...input,
-            context: input.context,
-          },
-        });
-      },
+      callModel,
       {
-        maxRetries: nodeConfig.maxRetries || 3,
+        maxRetries: tools.length > 0 ? 1 : nodeConfig.maxRetries || 3,
         initialDelay: nodeConfig.retryDelay || 1000,
         useStackStorm: enableStackStormRetry,
         userId: context.userId,
@@ -569,8 +639,8 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
 
     // Handle retry result
     if (!retryResult.success) {
-      // Retry failed, try reroute if enabled
-      if (routingDecision && routingDecision.fallbackRegions && routingDecision.fallbackProviders) {
+      // Retry failed, try reroute if enabled (not after tools may already have run)
+      if (tools.length === 0 && routingDecision && routingDecision.fallbackRegions && routingDecision.fallbackProviders) {
         try {
           const enableReroute = await featureFlagService.isEnabled(
             'enable_reroute',
@@ -605,24 +675,9 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
 
               // Retry with new route
               const rerouteRetryResult = await retryService.executeWithRetry(
-                async () => {
-                  return await aiService.generateText({
-                    prompt,
-                    config: {
-                      provider,
-                      model: modelName,
-                      temperature: nodeConfig.temperature || 0.7,
-                      maxTokens: nodeConfig.maxTokens || 1000,
-                      systemPrompt: nodeConfig.systemPrompt,
-                    },
-                    variables: {
-                      ...input,
-                      context: input.context,
-                    },
-                  });
-                },
+                callModel,
                 {
-                  maxRetries: 2, // Fewer retries for reroute
+                  maxRetries: tools.length > 0 ? 1 : 2, // Fewer retries for reroute
                   initialDelay: nodeConfig.retryDelay || 1000,
                   useStackStorm: enableStackStormRetry,
                   userId: context.userId,
@@ -711,6 +766,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       model: modelName,
       inputTokens,
       outputTokens,
+      pricing: result.metadata?.pricing as ModelPricing | undefined,
     });
     
     const totalTokens = costResult.totalTokens;
@@ -986,6 +1042,8 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
           prompt: prompt.length > 1000 ? prompt.substring(0, 1000) + '...' : prompt, // Truncate if too long
           response: result.content.length > 1000 ? result.content.substring(0, 1000) + '...' : result.content, // Truncate if too long
           traceId: traceId || null,
+          promptId: promptVersion?.promptId || null,
+          promptVersionId: promptVersion?.promptVersionId || null,
           organizationId: (context as any).organizationId || null,
           workspaceId: (context as any).workspaceId || null,
           timestamp: new Date(),
@@ -1016,11 +1074,12 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
           total: totalTokens,
         },
         metadata: {
-          temperature: nodeConfig.temperature || 0.7,
-          maxTokens: nodeConfig.maxTokens || 1000,
+          temperature,
+          maxTokens,
           userId: context.userId,
           workspaceId: (context as any).workspaceId,
           organizationId: (context as any).organizationId,
+          ...getPromptTraceMetadata(promptVersion),
         },
       }).then((langfuseUrl) => {
         // Add Langfuse trace URL to span attributes for linking
@@ -1041,6 +1100,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
       output: {
         text: validatedOutput, // Use validated output if validation was performed
         tokens: result.tokensUsed,
+        ...(tools.length > 0 ? { toolCalls: result.metadata?.toolCalls || [] } : {}),
       },
       metadata: {
         tokensUsed: result.tokensUsed,
@@ -1050,6 +1110,7 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
         totalTokens,
         inputCost: costResult.inputCost,
         outputCost: costResult.outputCost,
+        ...(promptVersion ? { prompt: getPromptTraceMetadata(promptVersion) } : {}),
       },
     };
   } catch (error: any) {
@@ -1086,11 +1147,12 @@ export async function executeLLM(context: NodeExecutionContext): Promise<NodeExe
         endTime: llmEndTime,
         error: error.message || 'LLM execution failed',
         metadata: {
-          temperature: nodeConfig.temperature || 0.7,
-          maxTokens: nodeConfig.maxTokens || 1000,
+          temperature,
+          maxTokens,
           userId: context.userId,
           workspaceId: (context as any).workspaceId,
           organizationId: (context as any).organizationId,
+          ...getPromptTraceMetadata(promptVersion),
         },
       }).then((langfuseUrl) => {
         // Add Langfuse trace URL to span attributes for linking
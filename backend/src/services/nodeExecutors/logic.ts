@@ -1,5 +1,8 @@
 import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
 import { VM } from 'vm2';
+import { executeLongWait, MAX_IN_PROCESS_WAIT_MS } from './wait';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Execute IF/ELSE logic node
@@ -145,32 +148,85 @@ export async function executeErrorCatch(context: NodeExecutionContext): Promise<
 
 /**
  * Execute Wait/Delay node
- * Waits for a specified duration
+ * Short durations sleep in-process; longer ones, timestamps, days and
+ * external events pause the execution and resume it later
  */
 export async function executeWait(context: NodeExecutionContext): Promise<NodeExecutionResult> {
   try {
     const { input, config } = context;
-    const duration = (config as any).duration || 1000;
+    const nodeConfig = config as any;
+    const mode = nodeConfig.mode || 'duration';
 
-    if (duration < 0 || duration > 60000) {
-      return {
-        success: false,
-        error: {
-          message: 'Wait duration must be between 0 and 60000 milliseconds',
-          code: 'INVALID_DURATION',
-        },
-      };
+    if (mode === 'event') {
+      const correlationKey = nodeConfig.correlationKey ? String(nodeConfig.correlationKey) : '';
+      if (!correlationKey) {
+        return {
+          success: false,
+          error: {
+            message: 'A correlation key is required to wait for an event',
+            code: 'INVALID_CORRELATION_KEY',
+          },
+        };
+      }
+      const timeout = Number(nodeConfig.timeout) || 0;
+      return await executeLongWait(context, {
+        correlationKey,
+        secret: nodeConfig.secret || undefined,
+        resumeAt: timeout > 0 ? new Date(Date.now() + timeout) : undefined,
+      });
     }
 
-    await new Promise((resolve) => setTimeout(resolve, duration));
+    let resumeAt: Date;
+    if (mode === 'until') {
+      resumeAt = new Date(nodeConfig.until);
+      if (isNaN(resumeAt.getTime())) {
+        return {
+          success: false,
+          error: {
+            message: `Invalid wait timestamp: ${nodeConfig.until}`,
+            code: 'INVALID_TIMESTAMP',
+          },
+        };
+      }
+    } else if (mode === 'days') {
+      const days = Number(nodeConfig.days);
+      if (!(days > 0)) {
+        return {
+          success: false,
+          error: {
+            message: 'Wait days must be a positive number',
+            code: 'INVALID_DURATION',
+          },
+        };
+      }
+      resumeAt = new Date(Date.now() + days * DAY_MS);
+    } else {
+      const duration = nodeConfig.duration ?? 1000;
+      if (duration < 0) {
+        return {
+          success: false,
+          error: {
+            message: 'Wait duration must not be negative',
+            code: 'INVALID_DURATION',
+          },
+        };
+      }
+
+      if (duration <= MAX_IN_PROCESS_WAIT_MS) {
+        await new Promise((resolve) => setTimeout(resolve, duration));
 
-    return {
-      success: true,
-      output: {
-        data: input,
-        waited: duration,
-      },
-    };
+        return {
+          success: true,
+          output: {
+            data: input,
+            waited: duration,
+          },
+        };
+      }
+      resumeAt = new Date(Date.now() + duration);
+    }
+
+    return await executeLongWait(context, { resumeAt });
   } catch (error: any) {
     return {
       success: false,
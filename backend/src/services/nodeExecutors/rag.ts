@@ -1,13 +1,18 @@
 import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
 import { aiService } from '../aiService';
-import { langchainService } from '../langchainService';
+import { langchainService, EmbeddingConfig, LLMConfig } from '../langchainService';
 import { storeVectors, queryVectors, deleteVectors } from '../vectorStore';
+import { retrievalService, RetrievalMode, RetrievalRequest } from '../retrievalService';
+import { documentSyncService } from '../documentSyncService';
+import { MetadataFilter, parseMetadataFilter, combineMetadataFilters } from '../metadataFilter';
 import { db, workflows, workspaces } from '../../config/database';
 import { eq } from 'drizzle-orm';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import { posthogService } from '../posthogService';
 import { featureFlagService } from '../featureFlagService';
 import { costLoggingService } from '../costLoggingService';
+import { websocketService } from '../websocketService';
+import { promptService, getNodePromptReference, getPromptTraceMetadata, renderPrompt, ResolvedPrompt, PromptModelDefaults } from '../promptService';
 
 // Dynamic imports for file parsing libraries
 let pdfParse: any = null;
@@ -47,8 +52,62 @@ async function getOrganizationIdFromWorkflow(workflowId: string): Promise<string
   }
 }
 
-// Helper function to parse file content based on type
-async function parseFileContent(file: string, fileType: string): Promise<string> {
+// Embedding model of a node: OpenAI ada-002 unless an organization provider
+// (embeddingProviderId) or another model is configured
+function getEmbeddingConfig(nodeConfig: any, organizationId?: string | null): EmbeddingConfig | undefined {
+  const providerId = (nodeConfig.embeddingProviderId as string) || undefined;
+  const model = (nodeConfig.embeddingModel as string) || undefined;
+  if (!providerId && !model) {
+    return undefined;
+  }
+  return { provider: providerId ? 'openai_compatible' : 'openai', providerId, organizationId, model };
+}
+
+// Generation model of the RAG node (and of the 'llm' reranker)
+function getGenerationLLM(
+  nodeConfig: any,
+  organizationId?: string | null,
+  defaults: PromptModelDefaults = {}
+): Pick<LLMConfig, 'provider' | 'model' | 'providerId' | 'organizationId'> {
+  const provider = ((nodeConfig.llmProvider as string) || defaults.provider || 'openai') as LLMConfig['provider'];
+  return {
+    provider,
+    model: (nodeConfig.model as string) || defaults.model || 'gpt-3.5-turbo',
+    providerId: provider === 'openai_compatible' ? (nodeConfig.llmProviderId as string) || defaults.providerId || undefined : undefined,
+    organizationId,
+  };
+}
+
+// Retrieval mode and optional rerank stage shared by the search and RAG nodes
+function getRetrievalConfig(nodeConfig: any, organizationId?: string | null): Pick<RetrievalRequest, 'mode' | 'candidateCount' | 'rerank'> {
+  const rerankProvider = (nodeConfig.rerankProvider as string) || 'none';
+
+  return {
+    mode: ((nodeConfig.retrievalMode as string) || 'vector') as RetrievalMode,
+    candidateCount: (nodeConfig.candidateCount as number) || undefined,
+    rerank: rerankProvider === 'none'
+      ? undefined
+      : {
+          provider: rerankProvider,
+          options: {
+            model: (nodeConfig.rerankModel as string) || undefined,
+            apiKey: (nodeConfig.rerankApiKey as string) || undefined,
+            endpoint: (nodeConfig.rerankEndpoint as string) || undefined,
+            llm: nodeConfig.llmProvider ? getGenerationLLM(nodeConfig, organizationId) : undefined,
+          },
+        },
+  };
+}
+
+// Metadata filter from node config (fixed scope), narrowed by a filter in the
+// node input (e.g. the current customer); throws on an invalid filter
+function getMetadataFilter(nodeConfig: any, input: Record<string, unknown>): MetadataFilter | undefined {
+  return combineMetadataFilters(parseMetadataFilter(nodeConfig.filter), parseMetadataFilter(input.filter));
+}
+
+// Helper function to parse file content based on type (also used for
+// knowledge base uploads)
+export async function parseFileContent(file: string, fileType: string): Promise<string> {
   if (file.startsWith('data:')) {
     // Base64 encoded file
     const base64Data = file.split(',')[1];
@@ -156,7 +215,7 @@ export async function executeVectorStore(context: NodeExecutionContext): Promise
       let finalEmbeddings = embeddings;
       if (finalEmbeddings.length === 0) {
         try {
-          finalEmbeddings = await langchainService.generateEmbeddings(texts);
+          finalEmbeddings = await langchainService.generateEmbeddings(texts, getEmbeddingConfig(nodeConfig, (context as any).organizationId));
         } catch (error: any) {
           return {
             success: false,
@@ -187,7 +246,10 @@ export async function executeVectorStore(context: NodeExecutionContext): Promise
         };
       });
 
-      const ids = await storeVectors(provider, indexName, documents, apiKey, organizationId);
+      const ids = await storeVectors(provider, indexName, documents, apiKey, organizationId, {
+        distanceMetric: nodeConfig.distanceMetric,
+        annIndexType: nodeConfig.annIndexType,
+      });
 
       return {
         success: true,
@@ -204,7 +266,7 @@ export async function executeVectorStore(context: NodeExecutionContext): Promise
       let finalEmbedding = queryEmbedding;
       if (!finalEmbedding && queryText) {
         try {
-          finalEmbedding = await langchainService.generateEmbedding(queryText);
+          finalEmbedding = await langchainService.generateEmbedding(queryText, getEmbeddingConfig(nodeConfig, (context as any).organizationId));
         } catch (error: any) {
           return {
             success: false,
@@ -226,7 +288,8 @@ export async function executeVectorStore(context: NodeExecutionContext): Promise
         };
       }
 
-      const results = await queryVectors(provider, indexName, finalEmbedding, topK, apiKey, organizationId);
+      const filter = getMetadataFilter(nodeConfig, input);
+      const results = await queryVectors(provider, indexName, finalEmbedding, topK, apiKey, organizationId, filter);
 
       return {
         success: true,
@@ -277,9 +340,35 @@ export async function executeVectorStore(context: NodeExecutionContext): Promise
   }
 }
 
+interface IngestDocument {
+  id?: string;
+  file?: string;
+  text?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Documents to ingest: a list (e.g. files from a Drive or S3 connector) or a single file/text
+function getIngestDocuments(input: Record<string, unknown>): IngestDocument[] {
+  if (Array.isArray(input.documents)) {
+    return (input.documents as Array<Record<string, unknown>>).map((doc) => ({
+      id: (doc.id ?? doc.key ?? doc.name) as string | undefined,
+      file: doc.file as string | undefined,
+      text: (doc.text ?? doc.content) as string | undefined,
+      metadata: doc.metadata as Record<string, unknown> | undefined,
+    }));
+  }
+
+  return [{
+    id: (input.documentId as string) || undefined,
+    file: (input.file as string) || undefined,
+    text: (input.text as string) || undefined,
+    metadata: input.metadata as Record<string, unknown> | undefined,
+  }];
+}
+
 // Document Ingestion Node
 export async function executeDocumentIngest(context: NodeExecutionContext): Promise<NodeExecutionResult> {
-  const { input, config } = context;
+  const { input, config, workflowId, nodeId } = context;
   const nodeConfig = config as any;
 
   const fileType = (nodeConfig.fileType as string) || 'auto';
@@ -288,64 +377,109 @@ export async function executeDocumentIngest(context: NodeExecutionContext): Prom
   const chunkStrategy = (nodeConfig.chunkStrategy as string) || 'fixed';
   const preIngestHook = nodeConfig.preIngestHook as string | undefined; // Code agent ID
 
-  const file = (input.file as string) || '';
-  const text = (input.text as string) || '';
+  // With an index configured, chunks are embedded and synced into it
+  const indexName = nodeConfig.indexName as string | undefined;
+  const provider = (nodeConfig.provider as string) || 'memory';
+
+  const documents = getIngestDocuments(input);
+  const missingIndex = documents.findIndex((doc) => !doc.file && !doc.text);
 
-  if (!file && !text) {
+  if (documents.length === 0 || missingIndex >= 0) {
     return {
       success: false,
       error: {
-        message: 'File or text is required',
+        message: documents.length > 1 ? `File or text is required (document ${missingIndex})` : 'File or text is required',
         code: 'MISSING_INPUT',
       },
     };
   }
 
+  if (indexName && documents.some((doc) => !doc.id)) {
+    return {
+      success: false,
+      error: {
+        message: 'A document id (documentId input, or id on each document) is required to sync into an index',
+        code: 'MISSING_DOCUMENT_ID',
+      },
+    };
+  }
+
   try {
-    let content = text;
+    const chunked: Array<{ id?: string; chunks: string[]; chunkDetails: unknown; originalLength: number; metadata?: Record<string, unknown> }> = [];
 
-    // If file is provided, parse it (keep existing parsing logic)
-    if (file) {
-      content = await parseFileContent(file, fileType);
-    }
+    for (const doc of documents) {
+      let content = doc.text || '';
 
-    // Execute pre-ingest hook if configured
-    if (preIngestHook) {
-      const hookResult = await etlHookService.executePreIngestHook(
-        preIngestHook,
-        {
-          document: content,
-          fileType,
-          metadata: input.metadata as Record<string, any> | undefined,
-        },
-        context.workflowId
-      );
+      // If file is provided, parse it (keep existing parsing logic)
+      if (doc.file) {
+        content = await parseFileContent(doc.file, fileType);
+      }
 
-      if (hookResult.success && hookResult.document) {
-        content = hookResult.document;
-      } else {
-        console.warn('Pre-ingest hook failed, using original content:', hookResult.error);
+      // Execute pre-ingest hook if configured
+      if (preIngestHook) {
+        const hookResult = await etlHookService.executePreIngestHook(
+          preIngestHook,
+          {
+            document: content,
+            fileType,
+            metadata: doc.metadata as Record<string, any> | undefined,
+          },
+          context.workflowId
+        );
+
+        if (hookResult.success && hookResult.document) {
+          content = hookResult.document;
+        } else {
+          console.warn('Pre-ingest hook failed, using original content:', hookResult.error);
+        }
       }
+
+      // Use LangChain for chunking (more robust than custom implementation)
+      const { chunks, metadata } = await langchainService.chunkText(
+        content,
+        chunkSize,
+        chunkOverlap,
+        chunkStrategy as 'fixed' | 'sentence' | 'paragraph'
+      );
+      chunked.push({ id: doc.id, chunks, chunkDetails: metadata, originalLength: content.length, metadata: doc.metadata });
     }
 
-    // Use LangChain for chunking (more robust than custom implementation)
-    const { chunks, metadata } = await langchainService.chunkText(
-      content,
-      chunkSize,
-      chunkOverlap,
-      chunkStrategy as 'fixed' | 'sentence' | 'paragraph'
-    );
+    const output: Record<string, unknown> = {
+      chunks: chunked.flatMap((doc) => doc.chunks),
+      metadata: chunked.length === 1 && !Array.isArray(input.documents)
+        ? {
+            totalChunks: chunked[0].chunks.length,
+            chunkDetails: chunked[0].chunkDetails,
+            originalLength: chunked[0].originalLength,
+          }
+        : {
+            totalChunks: chunked.reduce((sum, doc) => sum + doc.chunks.length, 0),
+            documents: chunked.map((doc) => ({ id: doc.id, totalChunks: doc.chunks.length, originalLength: doc.originalLength })),
+          },
+    };
+
+    if (indexName) {
+      const organizationId = provider === 'database' ? await getOrganizationIdFromWorkflow(workflowId) : null;
+      const result = await documentSyncService.sync(
+        chunked.map((doc) => ({ id: doc.id!, chunks: doc.chunks, metadata: doc.metadata })),
+        {
+          provider,
+          indexName,
+          scope: (nodeConfig.syncScope as string) || `${workflowId}:${nodeId}`,
+          organizationId,
+          apiKey: (nodeConfig.apiKey as string) || undefined,
+          // Only a list of documents describes the whole source
+          removeMissing: Array.isArray(input.documents) && nodeConfig.removeMissing !== false,
+          indexOptions: { distanceMetric: nodeConfig.distanceMetric, annIndexType: nodeConfig.annIndexType },
+          embedding: getEmbeddingConfig(nodeConfig, (context as any).organizationId),
+        }
+      );
+      Object.assign(output, result);
+    }
 
     return {
       success: true,
-      output: {
-        chunks,
-        metadata: {
-          totalChunks: chunks.length,
-          chunkDetails: metadata,
-          originalLength: content.length,
-        },
-      },
+      output,
     };
   } catch (error: any) {
     return {
@@ -369,10 +503,24 @@ export async function executeSemanticSearch(context: NodeExecutionContext): Prom
   const topK = (nodeConfig.topK as number) || 5;
   const minScore = (nodeConfig.minScore as number) || 0.7;
   const apiKey = (nodeConfig.apiKey as string) || undefined;
+  const retrieval = getRetrievalConfig(nodeConfig, (context as any).organizationId);
 
   const query = (input.query as string) || '';
   const queryEmbedding = (input.embedding as number[]) || undefined;
 
+  let filter: MetadataFilter | undefined;
+  try {
+    filter = getMetadataFilter(nodeConfig, input);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: 'INVALID_FILTER',
+      },
+    };
+  }
+
   if (!query && !queryEmbedding) {
     return {
       success: false,
@@ -383,17 +531,28 @@ export async function executeSemanticSearch(context: NodeExecutionContext): Prom
     };
   }
 
+  // Keyword matching and reranking work on the query text
+  if (!query && (retrieval.mode !== 'vector' || retrieval.rerank)) {
+    return {
+      success: false,
+      error: {
+        message: `Query text is required for ${retrieval.rerank ? 'reranking' : `${retrieval.mode} retrieval`}`,
+        code: 'MISSING_QUERY',
+      },
+    };
+  }
+
   // Get organizationId from workflow for multi-tenant isolation
   const organizationId = provider === 'database' ? await getOrganizationIdFromWorkflow(workflowId) : null;
 
   try {
-    // Generate embedding if not provided (using LangChain)
+    // Generate embedding if not provided (using LangChain); keyword search does not need one
     let embedding = queryEmbedding;
-    if (!embedding && query) {
-      embedding = await langchainService.generateEmbedding(query);
+    if (!embedding && query && retrieval.mode !== 'keyword') {
+      embedding = await langchainService.generateEmbedding(query, getEmbeddingConfig(nodeConfig, (context as any).organizationId));
     }
 
-    if (!embedding) {
+    if (!embedding && retrieval.mode !== 'keyword') {
       return {
         success: false,
         error: {
@@ -403,11 +562,22 @@ export async function executeSemanticSearch(context: NodeExecutionContext): Prom
       };
     }
 
-    // Search vector store (using existing implementation which supports all providers)
-    const results = await queryVectors(provider, indexName, embedding, topK, apiKey, organizationId);
+    const results = await retrievalService.retrieve({
+      provider,
+      indexName,
+      query,
+      queryEmbedding: embedding,
+      topK,
+      ...retrieval,
+      filter,
+      apiKey,
+      organizationId,
+    });
 
-    // Filter by minimum score
-    const filteredResults = results.filter((r) => r.score >= minScore);
+    // Filter by minimum score (a similarity threshold, so only for plain vector search)
+    const filteredResults = retrieval.mode === 'vector' && !retrieval.rerank
+      ? results.filter((r) => r.score >= minScore)
+      : results;
 
     return {
       success: true,
@@ -415,6 +585,8 @@ export async function executeSemanticSearch(context: NodeExecutionContext): Prom
         results: filteredResults,
         count: filteredResults.length,
         query,
+        retrievalMode: retrieval.mode,
+        filter: filter || null,
       },
     };
   } catch (error: any) {
@@ -437,12 +609,37 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
   const query = (input.query as string) || '';
   const vectorStoreProvider = (nodeConfig.vectorStoreProvider as string) || 'memory';
   const indexName = (nodeConfig.indexName as string) || 'default';
-  const llmProvider = (nodeConfig.llmProvider as string) || 'openai';
-  const model = (nodeConfig.model as string) || 'gpt-3.5-turbo';
+
+  // Prompt library template replaces promptTemplate; {{context}} and {{query}} are filled at answer time
+  let promptVersion: ResolvedPrompt | undefined;
+  const promptReference = getNodePromptReference(nodeConfig);
+  if (promptReference) {
+    try {
+      promptVersion = await promptService.resolve((context as any).organizationId, promptReference);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          code: 'PROMPT_ERROR',
+        },
+      };
+    }
+  }
+
+  const generationLLM = getGenerationLLM(nodeConfig, (context as any).organizationId, promptVersion?.modelDefaults);
+  const llmProvider = generationLLM.provider;
+  const model = generationLLM.model;
   const topK = (nodeConfig.topK as number) || 5;
   const promptTemplate = (nodeConfig.promptTemplate as string) || 
     'Use the following context to answer the question:\n\nContext:\n{{context}}\n\nQuestion: {{query}}\n\nAnswer:';
+  const promptVariables = { ...input, ...nodeConfig.promptVariables };
   const apiKey = (nodeConfig.apiKey as string) || undefined;
+  const retrieval = getRetrievalConfig(nodeConfig, (context as any).organizationId);
+  // Stream the answer unless a post-answer hook may still rewrite it
+  const answerStream = nodeConfig.stream !== false && !nodeConfig.postAnswerHook
+    ? websocketService.createNodeChunkStream(context.executionId, context.nodeId)
+    : undefined;
 
   // Validation: Query is required
   if (!query || query.trim().length === 0) {
@@ -455,6 +652,20 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
     };
   }
 
+  // Validation: Metadata filter must be valid
+  let filter: MetadataFilter | undefined;
+  try {
+    filter = getMetadataFilter(nodeConfig, input);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: error.message,
+        code: 'INVALID_FILTER',
+      },
+    };
+  }
+
   // Validation: Vector store provider must be configured
   const validProviders = ['memory', 'pinecone', 'weaviate', 'chroma', 'database', 'qdrant', 'milvus'];
   if (!validProviders.includes(vectorStoreProvider)) {
@@ -479,7 +690,7 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
   }
 
   // Validation: LLM provider must be configured
-  const validLLMProviders = ['openai', 'anthropic', 'google'];
+  const validLLMProviders = ['openai', 'anthropic', 'google', 'openai_compatible'];
   if (!validLLMProviders.includes(llmProvider)) {
     return {
       success: false,
@@ -511,6 +722,16 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
     };
   }
 
+  if (llmProvider === 'openai_compatible' && !generationLLM.providerId) {
+    return {
+      success: false,
+      error: {
+        message: 'llmProviderId is required for the openai_compatible LLM provider',
+        code: 'MISSING_LLM_PROVIDER',
+      },
+    };
+  }
+
   if (llmProvider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
     return {
       success: false,
@@ -530,6 +751,9 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
       'rag.llm_provider': llmProvider,
       'rag.llm_model': model,
       'rag.top_k': topK,
+      'rag.retrieval_mode': retrieval.mode,
+      'rag.rerank_provider': retrieval.rerank?.provider || 'none',
+      ...(promptVersion ? { 'prompt.id': promptVersion.promptId, 'prompt.version': promptVersion.version } : {}),
       'node.id': context.nodeId,
       'workflow.id': workflowId,
       'workflow.execution_id': context.executionId,
@@ -542,11 +766,13 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
   const organizationId = vectorStoreProvider === 'database' ? await getOrganizationIdFromWorkflow(workflowId) : null;
 
   try {
-    // Step 1: Generate query embedding (using LangChain)
-    let queryEmbedding: number[];
+    // Step 1: Generate query embedding (using LangChain); keyword retrieval does not need one
+    let queryEmbedding: number[] | undefined;
     try {
-      queryEmbedding = await langchainService.generateEmbedding(query);
-      if (!queryEmbedding || !Array.isArray(queryEmbedding) || queryEmbedding.length === 0) {
+      queryEmbedding = retrieval.mode === 'keyword'
+        ? undefined
+        : await langchainService.generateEmbedding(query, getEmbeddingConfig(nodeConfig, generationLLM.organizationId));
+      if (retrieval.mode !== 'keyword' && (!queryEmbedding || !Array.isArray(queryEmbedding) || queryEmbedding.length === 0)) {
         return {
           success: false,
           error: {
@@ -566,10 +792,20 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
       };
     }
 
-    // Step 2: Search vector store
+    // Step 2: Retrieve documents (vector, keyword or hybrid search, then optional reranking)
     let searchResults: any[];
     try {
-      searchResults = await queryVectors(vectorStoreProvider, indexName, queryEmbedding, topK, apiKey, organizationId);
+      searchResults = await retrievalService.retrieve({
+        provider: vectorStoreProvider,
+        indexName,
+        query,
+        queryEmbedding,
+        topK,
+        ...retrieval,
+        filter,
+        apiKey,
+        organizationId,
+      });
       
       if (!Array.isArray(searchResults)) {
         return {
@@ -589,6 +825,8 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
           details: {
             provider: vectorStoreProvider,
             indexName,
+            retrievalMode: retrieval.mode,
+            rerankProvider: retrieval.rerank?.provider,
             error: error.message,
           },
         },
@@ -599,12 +837,15 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
       return {
         success: false,
         error: {
-          message: `No relevant documents found in vector store "${indexName}" (provider: ${vectorStoreProvider}). Ensure documents have been ingested using the Document Ingestion node.`,
+          message: filter
+            ? `No documents matching the metadata filter found in vector store "${indexName}" (provider: ${vectorStoreProvider}).`
+            : `No relevant documents found in vector store "${indexName}" (provider: ${vectorStoreProvider}). Ensure documents have been ingested using the Document Ingestion node.`,
           code: 'NO_RESULTS',
           details: {
             provider: vectorStoreProvider,
             indexName,
             topK,
+            filter,
           },
         },
       };
@@ -614,26 +855,32 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
     const context = searchResults.map((r, idx) => `[${idx + 1}] ${r.text}`).join('\n\n');
 
     // Step 4: Build prompt with context
-    const prompt = promptTemplate
-      .replace(/\{\{context\}\}/g, context)
-      .replace(/\{\{query\}\}/g, query);
+    const rendered = promptVersion
+      ? renderPrompt(promptVersion, { ...promptVariables, context, query })
+      : undefined;
+    const prompt = rendered
+      ? rendered.prompt
+      : promptTemplate
+          .replace(/\{\{context\}\}/g, context)
+          .replace(/\{\{query\}\}/g, query);
 
     // Step 5: Generate answer using LLM (now uses LangChain)
     const llmResponse = await aiService.generateText({
       prompt,
       config: {
-        provider: llmProvider as 'openai' | 'anthropic' | 'google',
-        model,
-        temperature: 0.7,
-        maxTokens: 1000,
+        ...generationLLM,
+        temperature: promptVersion?.modelDefaults.temperature ?? 0.7,
+        maxTokens: promptVersion?.modelDefaults.maxTokens ?? 1000,
+        systemPrompt: rendered?.systemPrompt,
       },
+      onToken: answerStream?.write,
     });
 
     // Log cost for LLM call
     const tokenUsage = llmResponse.metadata as any;
     if (tokenUsage) {
       await costLoggingService.logFromTokenUsage(
-        llmProvider as 'openai' | 'anthropic' | 'google',
+        llmProvider,
         model,
         {
           promptTokens: tokenUsage.tokenUsage?.promptTokens,
@@ -648,9 +895,12 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
           nodeId: context.nodeId || null,
           organizationId: (context as any).organizationId || null,
           workspaceId: (context as any).workspaceId || null,
+          promptId: promptVersion?.promptId || null,
+          promptVersionId: promptVersion?.promptVersionId || null,
           prompt: prompt.length > 1000 ? prompt.substring(0, 1000) + '...' : prompt,
           response: llmResponse.content.length > 1000 ? llmResponse.content.substring(0, 1000) + '...' : llmResponse.content,
-        }
+        },
+        tokenUsage.pricing
       );
     }
 
@@ -698,10 +948,10 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
     
     // Track RAG query in PostHog (if feature flag enabled)
     const userId = (context as any).userId || '';
-    const organizationId = (context as any).organizationId || '';
+    const trackingOrganizationId = (context as any).organizationId || '';
     const workspaceId = (context as any).workspaceId || '';
     
-    if (userId && organizationId) {
+    if (userId && trackingOrganizationId) {
       const versionedTracking = await featureFlagService.isEnabled(
         'versioned_rag_tracking',
         userId,
@@ -711,7 +961,7 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
       if (versionedTracking) {
         posthogService.trackRAGQueryTriggered({
           userId,
-          organizationId,
+          organizationId: trackingOrganizationId,
           workspaceId: workspaceId || undefined,
           vectorDbUsed: vectorStoreProvider,
           indexName,
@@ -730,14 +980,18 @@ export async function executeRAG(context: NodeExecutionContext): Promise<NodeExe
       output: {
         answer: finalAnswer,
         sources: searchResults.map((r) => ({
+          id: r.id,
           text: r.text,
           score: r.score,
+          vectorScore: r.vectorScore,
+          keywordScore: r.keywordScore,
           metadata: r.metadata,
         })),
         tokens: llmResponse.tokensUsed,
       },
       metadata: {
         tokensUsed: llmResponse.tokensUsed,
+        ...(promptVersion ? { prompt: getPromptTraceMetadata(promptVersion) } : {}),
       },
     };
   } catch (error: any) {
@@ -0,0 +1,59 @@
+import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
+
+/**
+ * Execute Respond to Webhook node
+ * Builds the HTTP response returned to the webhook caller when the webhook
+ * trigger uses the 'response_node' response mode
+ */
+export async function executeRespondWebhook(context: NodeExecutionContext): Promise<NodeExecutionResult> {
+  try {
+    const { input, config } = context;
+    const nodeConfig = config as any;
+
+    const statusCode = Number(nodeConfig.statusCode ?? 200);
+    if (!Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599) {
+      return {
+        success: false,
+        error: {
+          message: `Invalid status code: ${nodeConfig.statusCode}`,
+          code: 'INVALID_STATUS_CODE',
+        },
+      };
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries((nodeConfig.headers as Record<string, unknown>) || {})) {
+      headers[name] = String(value);
+    }
+
+    // Body defaults to the node input when not configured
+    let body: unknown = nodeConfig.body !== undefined && nodeConfig.body !== '' ? nodeConfig.body : input;
+    if (typeof body === 'string' && nodeConfig.parseJson !== false) {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Plain text body
+      }
+    }
+
+    return {
+      success: true,
+      output: {
+        webhookResponse: {
+          statusCode,
+          headers,
+          body,
+        },
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: {
+        message: `Respond to webhook failed: ${error.message}`,
+        code: 'RESPOND_WEBHOOK_ERROR',
+        details: error,
+      },
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { NodeExecutionContext, NodeExecutionResult } from '@sos/shared';
+import { db } from '../../config/database';
+import { workflowExecutions, executionLogs } from '../../../drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import * as crypto from 'crypto';
+
+// Waits up to this long sleep in-process; longer ones pause the execution
+export const MAX_IN_PROCESS_WAIT_MS = 60000;
+
+/**
+ * Pending long wait of a paused execution
+ * (stored in workflow_executions.metadata.wait)
+ */
+export interface WaitState {
+  id: string;
+  nodeId: string;
+  mode: 'timer' | 'event';
+  startedAt: string;
+  resumeAt?: string; // Timer deadline, or the event timeout
+  correlationKey?: string;
+  secret?: string; // Event waits: the node's secret, or a token generated for this wait
+  event?: Record<string, unknown>; // Payload of the event that ended the wait
+  receivedAt?: string;
+}
+
+/**
+ * Pause the execution until `resumeAt` or until an event with the
+ * correlation key arrives. The node runs again when the execution resumes
+ * and then returns what ended the wait. Events must carry the wait's secret,
+ * generated per wait unless the node sets one. A timer whose deadline has
+ * passed or is close is waited out in-process: pausing would queue a resume
+ * that can start before this run has unwound.
+ */
+export async function executeLongWait(
+  context: NodeExecutionContext,
+  options: { resumeAt?: Date; correlationKey?: string; secret?: string }
+): Promise<NodeExecutionResult> {
+  const { executionId, nodeId, input } = context;
+
+  const [execution] = await db
+    .select()
+    .from(workflowExecutions)
+    .where(eq(workflowExecutions.id, executionId))
+    .limit(1);
+
+  if (!execution) {
+    return {
+      success: false,
+      error: { message: 'Execution not found', code: 'EXECUTION_NOT_FOUND' },
+    };
+  }
+
+  const metadata = (execution.metadata as any) || {};
+  const pending = metadata.wait as WaitState | undefined;
+
+  // Resumed: the wait ended by event, by timer, or by a manual resume
+  if (pending?.nodeId === nodeId) {
+    await db.update(workflowExecutions).set({
+      metadata: { ...metadata, wait: undefined },
+    }).where(eq(workflowExecutions.id, executionId));
+
+    if (pending.event) {
+      return {
+        success: true,
+        output: { data: input, event: pending.event, receivedAt: pending.receivedAt },
+      };
+    }
+
+    const elapsed = !pending.resumeAt || new Date(pending.resumeAt).getTime() <= Date.now();
+    if (pending.mode === 'event') {
+      return {
+        success: true,
+        output: { data: input, event: null, timedOut: elapsed },
+      };
+    }
+    return {
+      success: true,
+      output: { data: input, waitedUntil: elapsed ? pending.resumeAt : new Date().toISOString() },
+    };
+  }
+
+  const remainingMs = options.resumeAt ? options.resumeAt.getTime() - Date.now() : Infinity;
+  if (!options.correlationKey && remainingMs <= MAX_IN_PROCESS_WAIT_MS) {
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, remainingMs)));
+    return {
+      success: true,
+      output: { data: input, waitedUntil: options.resumeAt!.toISOString() },
+    };
+  }
+
+  const wait: WaitState = {
+    id: createId(),
+    nodeId,
+    mode: options.correlationKey ? 'event' : 'timer',
+    startedAt: new Date().toISOString(),
+    resumeAt: options.resumeAt?.toISOString(),
+    correlationKey: options.correlationKey,
+    secret: options.correlationKey ? options.secret || crypto.randomBytes(24).toString('hex') : undefined,
+  };
+
+  await db.update(workflowExecutions).set({
+    status: 'paused',
+    metadata: { ...metadata, wait },
+  }).where(eq(workflowExecutions.id, executionId));
+
+  await db.insert(executionLogs).values({
+    executionId,
+    nodeId,
+    level: 'info',
+    message: wait.mode === 'event'
+      ? `Waiting for event "${wait.correlationKey}"`
+      : `Waiting until ${wait.resumeAt}`,
+    data: { correlationKey: wait.correlationKey, resumeAt: wait.resumeAt },
+  });
+
+  // Imported lazily: the executor itself depends on the node executors
+  if (options.resumeAt) {
+    const { workflowExecutor } = await import('../workflowExecutor');
+    await workflowExecutor.scheduleWaitResume(executionId, wait.id, options.resumeAt);
+  }
+
+  return {
+    success: true,
+    output: {},
+    pause: { reason: 'wait' },
+  };
+}
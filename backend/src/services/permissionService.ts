@@ -7,6 +7,26 @@ export interface Permission {
   action: string;
 }
 
+/**
+ * API-key scopes: resource type -> allowed actions, with '*' as a wildcard
+ * for either. A key without scopes acts with its owner's full permissions.
+ */
+export type ApiKeyScopes = Record<string, string[]>;
+
+/**
+ * Check whether API-key scopes cover a permission
+ */
+export function apiKeyScopeAllows(
+  scopes: ApiKeyScopes | null | undefined,
+  permission: Permission
+): boolean {
+  if (!scopes || Object.keys(scopes).length === 0) return true;
+
+  return [scopes[permission.resourceType], scopes['*']].some(
+    (actions) => Array.isArray(actions) && (actions.includes('*') || actions.includes(permission.action))
+  );
+}
+
 export class PermissionService {
   /**
    * Check if a user has a specific permission
@@ -43,6 +63,19 @@ export class PermissionService {
     return this.checkLegacyRolePermission(member.role, permission);
   }
 
+  /**
+   * Check an API-key request: the key's scopes must cover the permission and
+   * its owner must still hold it, so a key never outlives a role downgrade
+   */
+  async hasApiKeyPermission(
+    apiKey: { userId: string; scopes: ApiKeyScopes | null },
+    organizationId: string,
+    permission: Permission
+  ): Promise<boolean> {
+    if (!apiKeyScopeAllows(apiKey.scopes, permission)) return false;
+    return this.hasPermission(apiKey.userId, organizationId, permission);
+  }
+
   /**
    * Check if a role has a specific permission
    */
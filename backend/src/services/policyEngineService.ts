@@ -11,9 +11,21 @@
  * - Policy priority and conflict resolution
  * - Policy caching for performance
  * - Integration with ArchGW and Guardrails
+ * - Node-dispatch enforcement in the workflow executor and LLM tool calls
+ *
+ * Policy sets are stored in Postgres (policy_sets, with a snapshot per version
+ * in policy_set_versions). Each instance keeps the enabled sets in memory and
+ * reloads a set when another instance announces a change over Redis pub/sub.
  */
 
 import { z } from 'zod';
+import { createId } from '@paralleldrive/cuid2';
+import { eq, and, desc, asc } from 'drizzle-orm';
+import type Redis from 'ioredis';
+import { db, policySets as policySetsTable, policySetVersions } from '../config/database';
+import { redis } from '../config/redis';
+
+const POLICY_CHANNEL = 'policy-sets:changed';
 
 /**
  * Policy rule condition
@@ -46,6 +58,7 @@ export interface PolicyRule {
   conditions: PolicyCondition[]; // All conditions must match (AND logic)
   actions: PolicyAction[]; // Actions to take if conditions match
   metadata?: Record<string, any>;
+  policySetId?: string; // Set on matched rules in evaluation results
 }
 
 /**
@@ -60,6 +73,58 @@ export interface PolicySet {
   rules: PolicyRule[];
   enabled: boolean;
   priority: number; // Higher priority policy sets are evaluated first
+  version?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Policy set fields accepted when creating or updating a set
+ */
+export interface PolicySetInput {
+  name: string;
+  description?: string | null;
+  workspaceId?: string | null;
+  rules: Array<Omit<PolicyRule, 'id' | 'policySetId'> & { id?: string }>;
+  enabled?: boolean;
+  priority?: number;
+}
+
+export interface PolicySetVersion {
+  version: number;
+  name: string;
+  description: string | null;
+  rules: PolicyRule[];
+  enabled: boolean;
+  priority: number;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * A node about to be dispatched by the workflow executor
+ */
+export interface NodePolicyInput {
+  node: { id: string; type: string; config: Record<string, unknown> };
+  input?: Record<string, unknown>;
+  workflowId: string;
+  executionId?: string;
+  userId?: string;
+  organizationId?: string;
+  workspaceId?: string;
+}
+
+/**
+ * Rules that fired for one node of a simulated execution
+ */
+export interface NodePolicySimulation {
+  nodeId: string;
+  nodeType: string;
+  context: PolicyContext;
+  matchedRules: PolicyRule[];
+  blocked: boolean;
+  warnings: string[];
+  reason?: string;
 }
 
 /**
@@ -83,6 +148,13 @@ export interface PolicyContext {
   region?: string;
   complianceRequirements?: string[];
   dataResidency?: string;
+
+  // Node-dispatch context ('routing' for LLM routing, 'node_dispatch' in the executor)
+  stage?: 'routing' | 'node_dispatch';
+  workflowId?: string;
+  executionId?: string;
+  node?: { id: string; type: string; config: Record<string, unknown> };
+  http?: { url: string; method: string; domain: string }; // Nodes calling a URL (e.g. action.http)
   
   // Custom context
   [key: string]: any;
@@ -101,6 +173,58 @@ export interface PolicyEvaluationResult {
   reason?: string;
 }
 
+type PolicySetRow = typeof policySetsTable.$inferSelect;
+
+function toPolicySet(row: PolicySetRow): PolicySet {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    organizationId: row.organizationId,
+    workspaceId: row.workspaceId || undefined,
+    rules: [...(row.rules as unknown as PolicyRule[])].sort((a, b) => b.priority - a.priority),
+    enabled: row.enabled,
+    priority: row.priority,
+    version: row.version,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function withRuleIds(rules: PolicySetInput['rules']): PolicyRule[] {
+  return rules.map((rule) => ({ ...rule, id: rule.id || createId() }));
+}
+
+/**
+ * Policy context of a node about to run. Nodes calling a URL (from their
+ * input or config) expose it as http.url / http.domain / http.method so
+ * rules can allowlist domains.
+ */
+export function buildNodePolicyContext(data: NodePolicyInput): PolicyContext {
+  const context: PolicyContext = {
+    stage: 'node_dispatch',
+    userId: data.userId || undefined,
+    organizationId: data.organizationId || undefined,
+    workspaceId: data.workspaceId || undefined,
+    workflowId: data.workflowId,
+    executionId: data.executionId,
+    node: data.node,
+  };
+
+  const url = data.input?.url || data.node.config.url;
+  if (typeof url === 'string' && url) {
+    try {
+      const parsed = new URL(url);
+      const method = data.input?.method || data.node.config.method || 'GET';
+      context.http = { url, method: String(method).toUpperCase(), domain: parsed.hostname.toLowerCase() };
+    } catch {
+      // Unresolved or relative URLs have no domain to check
+    }
+  }
+
+  return context;
+}
+
 /**
  * Policy Engine Service
  */
@@ -108,6 +232,198 @@ export class PolicyEngineService {
   private policySets: Map<string, PolicySet> = new Map();
   private policyCache: Map<string, { result: PolicyEvaluationResult; expiresAt: number }> = new Map();
   private cacheTTL: number = 60000; // 1 minute cache TTL
+  private subscriber: Redis | null = null;
+
+  /**
+   * Load persisted policy sets and follow changes made by other instances
+   */
+  async start(): Promise<void> {
+    if (this.subscriber) return;
+
+    this.subscriber = redis.duplicate();
+    this.subscriber.subscribe(POLICY_CHANNEL).catch((error) => {
+      console.warn('[Policy Engine] Could not subscribe to policy changes:', error);
+    });
+    this.subscriber.on('message', (channel, policySetId) => {
+      if (channel === POLICY_CHANNEL) {
+        this.reloadPolicySet(policySetId).catch((error) => {
+          console.error(`[Policy Engine] Failed to reload policy set ${policySetId}:`, error);
+        });
+      }
+    });
+
+    await this.loadPolicySets();
+  }
+
+  /**
+   * Replace the in-memory policy sets with the enabled ones in the database
+   */
+  async loadPolicySets(): Promise<void> {
+    const rows = await db.select().from(policySetsTable).where(eq(policySetsTable.enabled, true));
+
+    this.policySets.clear();
+    for (const row of rows) {
+      this.registerPolicySet(toPolicySet(row));
+    }
+    this.clearCache();
+  }
+
+  /**
+   * Re-read one policy set after a change (dropping it if deleted or disabled)
+   */
+  async reloadPolicySet(policySetId: string): Promise<void> {
+    const [row] = await db.select().from(policySetsTable).where(eq(policySetsTable.id, policySetId)).limit(1);
+
+    if (row && row.enabled) {
+      this.registerPolicySet(toPolicySet(row));
+    } else {
+      this.unregisterPolicySet(policySetId);
+    }
+    this.clearCache();
+  }
+
+  /**
+   * All of an organization's policy sets, including disabled ones; with a
+   * workspace, its own sets and the organization-wide ones
+   */
+  async listPolicySets(organizationId: string, workspaceId?: string): Promise<PolicySet[]> {
+    const rows = await db
+      .select()
+      .from(policySetsTable)
+      .where(eq(policySetsTable.organizationId, organizationId))
+      .orderBy(desc(policySetsTable.priority), asc(policySetsTable.name));
+
+    return rows
+      .filter((row) => !workspaceId || !row.workspaceId || row.workspaceId === workspaceId)
+      .map(toPolicySet);
+  }
+
+  async getPolicySet(organizationId: string, policySetId: string): Promise<PolicySet | null> {
+    const row = await this.findRow(organizationId, policySetId);
+    return row ? toPolicySet(row) : null;
+  }
+
+  async createPolicySet(organizationId: string, userId: string, input: PolicySetInput): Promise<PolicySet> {
+    const [row] = await db
+      .insert(policySetsTable)
+      .values({
+        id: createId(),
+        organizationId,
+        workspaceId: input.workspaceId || null,
+        name: input.name,
+        description: input.description ?? null,
+        rules: withRuleIds(input.rules) as unknown as Array<Record<string, unknown>>,
+        enabled: input.enabled !== false,
+        priority: input.priority || 0,
+        version: 1,
+        createdBy: userId,
+      })
+      .returning();
+
+    await this.saveVersion(row, userId);
+    await this.publishChange(row.id);
+    return toPolicySet(row);
+  }
+
+  /**
+   * Update a policy set; every change is stored as a new version
+   */
+  async updatePolicySet(
+    organizationId: string,
+    policySetId: string,
+    userId: string,
+    input: Partial<PolicySetInput>
+  ): Promise<PolicySet> {
+    const existing = await this.findRow(organizationId, policySetId);
+    if (!existing) {
+      throw new Error('Policy set not found');
+    }
+
+    const updates: Partial<typeof policySetsTable.$inferInsert> = {
+      version: existing.version + 1,
+      updatedAt: new Date(),
+    };
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.workspaceId !== undefined) updates.workspaceId = input.workspaceId;
+    if (input.rules !== undefined) updates.rules = withRuleIds(input.rules) as unknown as Array<Record<string, unknown>>;
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+    if (input.priority !== undefined) updates.priority = input.priority;
+
+    const [row] = await db
+      .update(policySetsTable)
+      .set(updates)
+      .where(eq(policySetsTable.id, existing.id))
+      .returning();
+
+    await this.saveVersion(row, userId);
+    await this.publishChange(row.id);
+    return toPolicySet(row);
+  }
+
+  async deletePolicySet(organizationId: string, policySetId: string): Promise<void> {
+    const deleted = await db
+      .delete(policySetsTable)
+      .where(and(eq(policySetsTable.id, policySetId), eq(policySetsTable.organizationId, organizationId)))
+      .returning({ id: policySetsTable.id });
+
+    if (deleted.length === 0) {
+      throw new Error('Policy set not found');
+    }
+    await this.publishChange(policySetId);
+  }
+
+  async listVersions(organizationId: string, policySetId: string): Promise<PolicySetVersion[]> {
+    const existing = await this.findRow(organizationId, policySetId);
+    if (!existing) {
+      throw new Error('Policy set not found');
+    }
+
+    const rows = await db
+      .select()
+      .from(policySetVersions)
+      .where(eq(policySetVersions.policySetId, policySetId))
+      .orderBy(desc(policySetVersions.version));
+
+    return rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      rules: row.rules as unknown as PolicyRule[],
+      enabled: row.enabled,
+      priority: row.priority,
+      createdBy: row.createdBy,
+      createdAt: row.createdAt,
+    }));
+  }
+
+  /**
+   * Roll a policy set back to an earlier version (saved as a new version)
+   */
+  async restoreVersion(organizationId: string, policySetId: string, version: number, userId: string): Promise<PolicySet> {
+    const existing = await this.findRow(organizationId, policySetId);
+    if (!existing) {
+      throw new Error('Policy set not found');
+    }
+
+    const [snapshot] = await db
+      .select()
+      .from(policySetVersions)
+      .where(and(eq(policySetVersions.policySetId, policySetId), eq(policySetVersions.version, version)))
+      .limit(1);
+
+    if (!snapshot) {
+      throw new Error('Policy set version not found');
+    }
+
+    return this.updatePolicySet(organizationId, policySetId, userId, {
+      name: snapshot.name,
+      description: snapshot.description,
+      rules: snapshot.rules as unknown as PolicyRule[],
+      enabled: snapshot.enabled,
+      priority: snapshot.priority,
+    });
+  }
 
   /**
    * Register a policy set
@@ -158,6 +474,7 @@ export class PolicyEngineService {
       organizationId?: string;
       workspaceId?: string;
       cacheKey?: string;
+      dryRun?: boolean; // Skip side effects ('log' actions)
     } = {}
   ): Promise<PolicyEvaluationResult> {
     // Check cache
@@ -172,6 +489,7 @@ export class PolicyEngineService {
     const actions: PolicyAction[] = [];
     const warnings: string[] = [];
     let blocked = false;
+    let blockingRule: PolicyRule | undefined;
     let modifiedContext: Partial<PolicyContext> = { ...context };
 
     // Get relevant policy sets
@@ -190,7 +508,7 @@ export class PolicyEngineService {
 
         // Check if rule conditions match
         if (this.evaluateConditions(rule.conditions, modifiedContext)) {
-          matchedRules.push(rule);
+          matchedRules.push({ ...rule, policySetId: policySet.id });
 
           // Apply rule actions
           for (const action of rule.actions) {
@@ -199,6 +517,7 @@ export class PolicyEngineService {
             switch (action.type) {
               case 'block':
                 blocked = true;
+                blockingRule = rule;
                 break;
 
               case 'warn':
@@ -219,7 +538,9 @@ export class PolicyEngineService {
 
               case 'log':
                 // Log action (could be sent to observability service)
-                console.log(`[Policy Engine] Rule "${rule.name}": ${action.reason || 'Action logged'}`);
+                if (!options.dryRun) {
+                  console.log(`[Policy Engine] Rule "${rule.name}": ${action.reason || 'Action logged'}`);
+                }
                 break;
             }
 
@@ -252,7 +573,7 @@ export class PolicyEngineService {
       blocked,
       warnings: warnings.length > 0 ? warnings : undefined,
       reason: blocked 
-        ? `Blocked by policy rule: ${matchedRules[0]?.name || 'unknown'}`
+        ? `Blocked by policy rule: ${blockingRule?.name || 'unknown'}`
         : matchedRules.length > 0
         ? `Matched ${matchedRules.length} policy rule(s)`
         : undefined,
@@ -269,6 +590,68 @@ export class PolicyEngineService {
     return result;
   }
 
+  /**
+   * Evaluate policies for a node at dispatch time. Only block, warn and log
+   * actions apply to nodes; rules can target this stage with
+   * { field: 'stage', operator: 'eq', value: 'node_dispatch' }.
+   */
+  async evaluateNodePolicies(data: NodePolicyInput, options: { dryRun?: boolean } = {}): Promise<PolicyEvaluationResult> {
+    const context = buildNodePolicyContext(data);
+
+    // Policy sets belong to organizations; without one (or without policies)
+    // there is nothing to evaluate
+    if (!context.organizationId || this.getPolicySets(context.organizationId, context.workspaceId).length === 0) {
+      return { matched: false, matchedRules: [], actions: [], blocked: false, warnings: [] };
+    }
+
+    return this.evaluatePolicies(context, {
+      organizationId: context.organizationId,
+      workspaceId: context.workspaceId,
+      dryRun: options.dryRun,
+    });
+  }
+
+  /**
+   * Dry run: which rules would fire for each node of a workflow, without
+   * executing anything. Nodes are evaluated with their configured (not
+   * expression-resolved) config.
+   */
+  async simulateExecution(data: {
+    workflowId: string;
+    nodes: Array<{ id: string; type?: string; data?: Record<string, any> }>;
+    input?: Record<string, unknown>;
+    userId?: string;
+    organizationId: string;
+    workspaceId?: string;
+  }): Promise<NodePolicySimulation[]> {
+    const simulations: NodePolicySimulation[] = [];
+
+    for (const node of data.nodes) {
+      const nodeType = (node.data?.type as string) || node.type || 'unknown';
+      const nodeInput: NodePolicyInput = {
+        node: { id: node.id, type: nodeType, config: (node.data?.config as Record<string, unknown>) || {} },
+        input: data.input,
+        workflowId: data.workflowId,
+        userId: data.userId,
+        organizationId: data.organizationId,
+        workspaceId: data.workspaceId,
+      };
+      const result = await this.evaluateNodePolicies(nodeInput, { dryRun: true });
+
+      simulations.push({
+        nodeId: node.id,
+        nodeType,
+        context: buildNodePolicyContext(nodeInput),
+        matchedRules: result.matchedRules,
+        blocked: result.blocked,
+        warnings: result.warnings || [],
+        reason: result.reason,
+      });
+    }
+
+    return simulations;
+  }
+
   /**
    * Evaluate rule conditions
    */
@@ -363,6 +746,41 @@ export class PolicyEngineService {
     return value;
   }
 
+  private async findRow(organizationId: string, policySetId: string): Promise<PolicySetRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(policySetsTable)
+      .where(and(eq(policySetsTable.id, policySetId), eq(policySetsTable.organizationId, organizationId)))
+      .limit(1);
+    return row;
+  }
+
+  private async saveVersion(row: PolicySetRow, userId: string): Promise<void> {
+    await db.insert(policySetVersions).values({
+      id: createId(),
+      policySetId: row.id,
+      version: row.version,
+      name: row.name,
+      description: row.description,
+      rules: row.rules,
+      enabled: row.enabled,
+      priority: row.priority,
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Apply a change locally and tell the other instances to reload the set
+   */
+  private async publishChange(policySetId: string): Promise<void> {
+    await this.reloadPolicySet(policySetId);
+    try {
+      await redis.publish(POLICY_CHANNEL, policySetId);
+    } catch (error) {
+      console.warn('[Policy Engine] Could not publish policy change:', error);
+    }
+  }
+
   /**
    * Create a default policy set for an organization
    */
@@ -482,5 +900,5 @@ export const policyEngineService = new PolicyEngineService();
 // Start periodic cache cleanup
 setInterval(() => {
   policyEngineService.cleanupCache();
-}, 5 * 60 * 1000); // Every 5 minutes
+}, 5 * 60 * 1000).unref(); // Every 5 minutes
 
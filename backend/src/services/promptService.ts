@@ -0,0 +1,510 @@
+import { db, prompts, promptVersions, modelCostLogs } from '../config/database';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { LLMProviderType } from './costCalculationService';
+
+export interface PromptVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+  default?: string;
+}
+
+// Model settings a version suggests; node config still wins where it sets them
+export interface PromptModelDefaults {
+  provider?: LLMProviderType;
+  model?: string;
+  providerId?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface PromptInput {
+  name: string;
+  description?: string | null;
+  tags?: string[];
+}
+
+export interface PromptVersionInput {
+  version?: string; // Explicit semantic version; must be higher than the latest
+  bump?: 'major' | 'minor' | 'patch'; // Used when version is omitted (default patch)
+  template: string;
+  systemPrompt?: string | null;
+  variables?: PromptVariable[]; // Derived from the template's {{placeholders}} when omitted
+  modelDefaults?: PromptModelDefaults;
+  changelog?: string | null;
+  labels?: string[]; // Environment labels to move to this version, e.g. ['draft']
+}
+
+/**
+ * How a node refers to a prompt: a pinned version, or an environment label.
+ * Without either the production label is used, then the latest version.
+ */
+export interface PromptReference {
+  promptId: string;
+  version?: string;
+  label?: string;
+}
+
+export interface ResolvedPrompt {
+  promptId: string;
+  promptVersionId: string;
+  name: string;
+  version: string;
+  label?: string;
+  template: string;
+  systemPrompt: string | null;
+  variables: PromptVariable[];
+  modelDefaults: PromptModelDefaults;
+}
+
+export interface PromptVersionStats {
+  promptVersionId: string;
+  version: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalCostUsd: number;
+  averageCostUsd: number;
+}
+
+type PromptRow = typeof prompts.$inferSelect;
+type PromptVersionRow = typeof promptVersions.$inferSelect;
+
+export const DEFAULT_PROMPT_LABEL = 'production';
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export function parseVersion(version: string): [number, number, number] {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) {
+    throw new Error(`Invalid version "${version}", expected MAJOR.MINOR.PATCH`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+export function bumpVersion(version: string, bump: 'major' | 'minor' | 'patch' = 'patch'): string {
+  const [major, minor, patch] = parseVersion(version);
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    default:
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Placeholders used in a template, in order of first use
+ */
+export function extractVariables(...templates: Array<string | null | undefined>): string[] {
+  const names = new Set<string>();
+  for (const template of templates) {
+    for (const match of (template || '').matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Fill a resolved prompt's template and system prompt. Variable defaults
+ * apply to missing values; a missing required variable is an error.
+ */
+export function renderPrompt(
+  resolved: Pick<ResolvedPrompt, 'name' | 'version' | 'template' | 'systemPrompt' | 'variables'>,
+  values: Record<string, unknown> = {}
+): { prompt: string; systemPrompt?: string } {
+  const variables: Record<string, unknown> = {};
+  const missing: string[] = [];
+
+  for (const variable of resolved.variables) {
+    const value = values[variable.name] ?? variable.default;
+    if (value === undefined || value === null) {
+      if (variable.required !== false) missing.push(variable.name);
+      continue;
+    }
+    variables[variable.name] = typeof value === 'object' ? JSON.stringify(value) : value;
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Prompt "${resolved.name}" ${resolved.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  const fill = (template: string) =>
+    template.replace(VARIABLE_PATTERN, (placeholder, name: string) => (name in variables ? String(variables[name]) : placeholder));
+
+  return {
+    prompt: fill(resolved.template),
+    systemPrompt: resolved.systemPrompt ? fill(resolved.systemPrompt) : undefined,
+  };
+}
+
+/**
+ * Prompt reference in a node's config (promptId, promptVersion, promptLabel)
+ */
+export function getNodePromptReference(nodeConfig: Record<string, any>): PromptReference | undefined {
+  if (!nodeConfig.promptId) {
+    return undefined;
+  }
+  return {
+    promptId: nodeConfig.promptId as string,
+    version: (nodeConfig.promptVersion as string) || undefined,
+    label: (nodeConfig.promptLabel as string) || undefined,
+  };
+}
+
+/**
+ * Trace attributes that tie a model call to the prompt version it used
+ */
+export function getPromptTraceMetadata(resolved?: ResolvedPrompt): Record<string, string> {
+  if (!resolved) {
+    return {};
+  }
+  return {
+    promptId: resolved.promptId,
+    promptName: resolved.name,
+    promptVersion: resolved.version,
+    promptVersionId: resolved.promptVersionId,
+    ...(resolved.label ? { promptLabel: resolved.label } : {}),
+  };
+}
+
+function toResolved(prompt: PromptRow, version: PromptVersionRow, label?: string): ResolvedPrompt {
+  return {
+    promptId: prompt.id,
+    promptVersionId: version.id,
+    name: prompt.name,
+    version: version.version,
+    label,
+    template: version.template,
+    systemPrompt: version.systemPrompt,
+    variables: (version.variables || []) as unknown as PromptVariable[],
+    modelDefaults: (version.modelDefaults || {}) as PromptModelDefaults,
+  };
+}
+
+/**
+ * Prompt Service
+ *
+ * Organization prompt library. Each prompt has immutable, semantically
+ * versioned templates and environment labels (draft, production, ...) that
+ * point at one version each. LLM, RAG and agent nodes reference a prompt by
+ * id and a version or label; the resolved version is recorded on the node's
+ * model_cost_logs rows and Langfuse traces so versions can be compared.
+ */
+export class PromptService {
+  async list(organizationId: string) {
+    const rows = await db
+      .select()
+      .from(prompts)
+      .where(eq(prompts.organizationId, organizationId))
+      .orderBy(asc(prompts.name));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const versions = await db
+      .select({ id: promptVersions.id, promptId: promptVersions.promptId, version: promptVersions.version })
+      .from(promptVersions)
+      .where(inArray(promptVersions.promptId, rows.map((row) => row.id)));
+
+    return rows.map((row) => {
+      const own = versions.filter((version) => version.promptId === row.id);
+      const latest = own.sort((a, b) => compareVersions(b.version, a.version))[0];
+      return {
+        ...row,
+        latestVersion: latest?.version ?? null,
+        versionCount: own.length,
+        labels: this.labelVersions(row, own),
+      };
+    });
+  }
+
+  async get(organizationId: string, id: string) {
+    const row = await this.findRow(organizationId, id);
+    if (!row) {
+      return null;
+    }
+
+    const versions = (await db
+      .select()
+      .from(promptVersions)
+      .where(eq(promptVersions.promptId, id)))
+      .sort((a, b) => compareVersions(b.version, a.version));
+
+    return { ...row, labels: this.labelVersions(row, versions), versions };
+  }
+
+  async create(organizationId: string, userId: string, input: PromptInput & PromptVersionInput) {
+    await this.assertNameAvailable(organizationId, input.name);
+
+    const [row] = await db
+      .insert(prompts)
+      .values({
+        id: createId(),
+        organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        tags: input.tags || [],
+        labels: {},
+        createdBy: userId,
+      })
+      .returning();
+
+    await this.createVersion(organizationId, row.id, userId, { ...input, version: input.version || '1.0.0' });
+    return this.get(organizationId, row.id);
+  }
+
+  async update(organizationId: string, id: string, input: Partial<PromptInput>) {
+    const existing = await this.findRow(organizationId, id);
+    if (!existing) {
+      throw new Error('Prompt not found');
+    }
+    if (input.name && input.name !== existing.name) {
+      await this.assertNameAvailable(organizationId, input.name);
+    }
+
+    const updates: Partial<typeof prompts.$inferInsert> = { updatedAt: new Date() };
+    if (input.name !== undefined) updates.name = input.name;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.tags !== undefined) updates.tags = input.tags;
+
+    const [row] = await db
+      .update(prompts)
+      .set(updates)
+      .where(and(eq(prompts.id, id), eq(prompts.organizationId, organizationId)))
+      .returning();
+    return row;
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    const deleted = await db
+      .delete(prompts)
+      .where(and(eq(prompts.id, id), eq(prompts.organizationId, organizationId)))
+      .returning({ id: prompts.id });
+
+    if (deleted.length === 0) {
+      throw new Error('Prompt not found');
+    }
+  }
+
+  /**
+   * Add a version. Versions are immutable; an explicit version must be higher
+   * than the latest one, otherwise the latest is bumped.
+   */
+  async createVersion(organizationId: string, promptId: string, userId: string, input: PromptVersionInput): Promise<PromptVersionRow> {
+    const prompt = await this.findRow(organizationId, promptId);
+    if (!prompt) {
+      throw new Error('Prompt not found');
+    }
+
+    const latest = await this.latestVersion(promptId);
+    let version = input.version;
+    if (version) {
+      parseVersion(version);
+      if (latest && compareVersions(version, latest.version) <= 0) {
+        throw new Error(`Version must be higher than ${latest.version}`);
+      }
+    } else {
+      version = latest ? bumpVersion(latest.version, input.bump) : '1.0.0';
+    }
+
+    const variables = input.variables
+      ?? extractVariables(input.template, input.systemPrompt).map((name) => ({ name, required: true }));
+
+    const [row] = await db
+      .insert(promptVersions)
+      .values({
+        id: createId(),
+        promptId,
+        version,
+        template: input.template,
+        systemPrompt: input.systemPrompt ?? null,
+        variables: variables as unknown as Array<Record<string, unknown>>,
+        modelDefaults: (input.modelDefaults || {}) as Record<string, unknown>,
+        changelog: input.changelog ?? null,
+        createdBy: userId,
+      })
+      .returning();
+
+    if (input.labels && input.labels.length > 0) {
+      const labels = { ...(prompt.labels || {}) };
+      for (const label of input.labels) {
+        labels[label] = row.id;
+      }
+      await db.update(prompts).set({ labels, updatedAt: new Date() }).where(eq(prompts.id, promptId));
+    }
+
+    return row;
+  }
+
+  /**
+   * Point an environment label at a version (e.g. promote a draft to production)
+   */
+  async setLabel(organizationId: string, promptId: string, label: string, version: string) {
+    const prompt = await this.findRow(organizationId, promptId);
+    if (!prompt) {
+      throw new Error('Prompt not found');
+    }
+    const [target] = await db
+      .select({ id: promptVersions.id })
+      .from(promptVersions)
+      .where(and(eq(promptVersions.promptId, promptId), eq(promptVersions.version, version)))
+      .limit(1);
+    if (!target) {
+      throw new Error('Prompt version not found');
+    }
+
+    const labels = { ...(prompt.labels || {}), [label]: target.id };
+    await db.update(prompts).set({ labels, updatedAt: new Date() }).where(eq(prompts.id, promptId));
+    return this.get(organizationId, promptId);
+  }
+
+  async removeLabel(organizationId: string, promptId: string, label: string) {
+    const prompt = await this.findRow(organizationId, promptId);
+    if (!prompt) {
+      throw new Error('Prompt not found');
+    }
+
+    const labels = { ...(prompt.labels || {}) };
+    delete labels[label];
+    await db.update(prompts).set({ labels, updatedAt: new Date() }).where(eq(prompts.id, promptId));
+    return this.get(organizationId, promptId);
+  }
+
+  /**
+   * Resolve a node's prompt reference to one version
+   */
+  async resolve(organizationId: string | null | undefined, reference: PromptReference): Promise<ResolvedPrompt> {
+    const prompt = organizationId ? await this.findRow(organizationId, reference.promptId) : undefined;
+    if (!prompt) {
+      throw new Error('Prompt not found');
+    }
+
+    if (reference.version) {
+      const [version] = await db
+        .select()
+        .from(promptVersions)
+        .where(and(eq(promptVersions.promptId, prompt.id), eq(promptVersions.version, reference.version)))
+        .limit(1);
+      if (!version) {
+        throw new Error(`Prompt "${prompt.name}" has no version ${reference.version}`);
+      }
+      return toResolved(prompt, version);
+    }
+
+    const label = reference.label || DEFAULT_PROMPT_LABEL;
+    const labeledId = (prompt.labels || {})[label];
+    if (labeledId) {
+      const [version] = await db.select().from(promptVersions).where(eq(promptVersions.id, labeledId)).limit(1);
+      if (version) {
+        return toResolved(prompt, version, label);
+      }
+    }
+    if (reference.label) {
+      throw new Error(`Prompt "${prompt.name}" has no "${reference.label}" label`);
+    }
+
+    const latest = await this.latestVersion(prompt.id);
+    if (!latest) {
+      throw new Error(`Prompt "${prompt.name}" has no versions`);
+    }
+    return toResolved(prompt, latest);
+  }
+
+  /**
+   * Cost and token usage per version, from the model_cost_logs rows of the
+   * calls that used it
+   */
+  async stats(organizationId: string, promptId: string, since?: Date): Promise<PromptVersionStats[]> {
+    const prompt = await this.findRow(organizationId, promptId);
+    if (!prompt) {
+      throw new Error('Prompt not found');
+    }
+
+    const rows = await db
+      .select({
+        promptVersionId: promptVersions.id,
+        version: promptVersions.version,
+        calls: sql<number>`count(${modelCostLogs.id})`,
+        inputTokens: sql<number>`coalesce(sum(${modelCostLogs.inputTokens}), 0)`,
+        outputTokens: sql<number>`coalesce(sum(${modelCostLogs.outputTokens}), 0)`,
+        totalCostUsd: sql<number>`coalesce(sum(${modelCostLogs.usdCost}), 0)`,
+      })
+      .from(promptVersions)
+      .leftJoin(
+        modelCostLogs,
+        and(
+          eq(modelCostLogs.promptVersionId, promptVersions.id),
+          since ? sql`${modelCostLogs.timestamp} >= ${since}` : undefined
+        )
+      )
+      .where(eq(promptVersions.promptId, promptId))
+      .groupBy(promptVersions.id, promptVersions.version)
+      .orderBy(desc(promptVersions.createdAt));
+
+    return rows
+      .map((row) => {
+        const calls = Number(row.calls);
+        const totalCostUsd = Number(row.totalCostUsd);
+        return {
+          promptVersionId: row.promptVersionId,
+          version: row.version,
+          calls,
+          inputTokens: Number(row.inputTokens),
+          outputTokens: Number(row.outputTokens),
+          totalCostUsd,
+          averageCostUsd: calls > 0 ? totalCostUsd / calls : 0,
+        };
+      })
+      .sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  private labelVersions(prompt: PromptRow, versions: Array<{ id: string; version: string }>): Record<string, string> {
+    const labels: Record<string, string> = {};
+    for (const [label, versionId] of Object.entries(prompt.labels || {})) {
+      const version = versions.find((entry) => entry.id === versionId);
+      if (version) labels[label] = version.version;
+    }
+    return labels;
+  }
+
+  private async latestVersion(promptId: string): Promise<PromptVersionRow | undefined> {
+    const versions = await db.select().from(promptVersions).where(eq(promptVersions.promptId, promptId));
+    return versions.sort((a, b) => compareVersions(b.version, a.version))[0];
+  }
+
+  private async findRow(organizationId: string, id: string): Promise<PromptRow | undefined> {
+    const [row] = await db
+      .select()
+      .from(prompts)
+      .where(and(eq(prompts.id, id), eq(prompts.organizationId, organizationId)))
+      .limit(1);
+    return row;
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string): Promise<void> {
+    const [existing] = await db
+      .select({ id: prompts.id })
+      .from(prompts)
+      .where(and(eq(prompts.organizationId, organizationId), eq(prompts.name, name)))
+      .limit(1);
+    if (existing) {
+      throw new Error('A prompt with this name already exists');
+    }
+  }
+}
+
+export const promptService = new PromptService();
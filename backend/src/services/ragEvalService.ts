@@ -0,0 +1,632 @@
+import { db } from '../config/database';
+import { redis } from '../config/redis';
+import { ragEvalDatasets, ragEvalCases, ragEvalRuns, ragEvalResults, workflows, workspaces } from '../../drizzle/schema';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import { aiService } from './aiService';
+import { executeRAG } from './nodeExecutors/rag';
+import { llmProviderService } from './llmProviderService';
+
+export type RagEvalDataset = typeof ragEvalDatasets.$inferSelect;
+export type RagEvalCase = typeof ragEvalCases.$inferSelect;
+export type RagEvalRun = typeof ragEvalRuns.$inferSelect;
+export type RagEvalResult = typeof ragEvalResults.$inferSelect;
+
+export interface RagEvalCaseInput {
+  question: string;
+  expectedAnswer?: string | null;
+  expectedSources?: string[];
+}
+
+export interface RagEvalJudge {
+  provider: 'openai' | 'anthropic' | 'google' | 'openai_compatible';
+  model: string;
+  providerId?: string; // Organization LLM provider, required for 'openai_compatible'
+}
+
+export interface RagEvalMetrics {
+  cases: number;
+  errors: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  faithfulness: number | null;
+  answerRelevance: number | null;
+  averageLatencyMs: number | null;
+}
+
+// A running evaluation holds a Redis lease; runs whose lease expired (their
+// server restarted or crashed) are marked failed by failInterruptedRuns()
+const RUN_LEASE_TTL_SECONDS = 30;
+const RUN_LEASE_REFRESH_MS = 10000;
+
+export interface StartRunInput {
+  workflowId: string;
+  nodeId?: string; // Defaults to the first RAG node of the workflow
+  overrides?: Record<string, unknown>; // RAG node config changes to try, e.g. { topK: 8 }
+  judge?: RagEvalJudge | null; // null = retrieval metrics only
+}
+
+type CaseResult = Omit<typeof ragEvalResults.$inferInsert, 'runId'>;
+
+const DEFAULT_JUDGE: RagEvalJudge = { provider: 'openai', model: 'gpt-4o-mini' };
+
+// Config keys that are never stored with a run
+const SECRET_CONFIG_KEYS = ['apiKey', 'rerankApiKey'];
+
+const JUDGE_CONTEXT_CHARS = 6000;
+
+// Values a retrieved document can be referenced by in expectedSources
+function sourceKeys(source: { id?: string; metadata?: Record<string, unknown> }): string[] {
+  const metadata = source.metadata || {};
+  return [metadata.documentId, metadata.source, metadata.sourceId, source.id]
+    .filter((key) => key !== undefined && key !== null)
+    .map(String);
+}
+
+/**
+ * Retrieval metrics of one question: recall@k (share of expected sources in
+ * the retrieved top k) and the reciprocal rank of the first relevant
+ * document. Null when the question has no expected sources.
+ */
+export function scoreRetrieval(
+  retrieved: Array<{ id?: string; metadata?: Record<string, unknown> }>,
+  expectedSources: string[]
+): { recall: number | null; reciprocalRank: number | null } {
+  if (expectedSources.length === 0) {
+    return { recall: null, reciprocalRank: null };
+  }
+
+  const expected = new Set(expectedSources);
+  const found = new Set<string>();
+  let firstRelevantRank = 0;
+
+  retrieved.forEach((source, index) => {
+    const matches = sourceKeys(source).filter((key) => expected.has(key));
+    matches.forEach((key) => found.add(key));
+    if (matches.length > 0 && firstRelevantRank === 0) {
+      firstRelevantRank = index + 1;
+    }
+  });
+
+  return {
+    recall: found.size / expected.size,
+    reciprocalRank: firstRelevantRank ? 1 / firstRelevantRank : 0,
+  };
+}
+
+function average(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+export function summarizeResults(results: CaseResult[]): RagEvalMetrics {
+  return {
+    cases: results.length,
+    errors: results.filter((result) => result.error).length,
+    recallAtK: average(results.map((result) => result.recall)),
+    mrr: average(results.map((result) => result.reciprocalRank)),
+    faithfulness: average(results.map((result) => result.faithfulness)),
+    answerRelevance: average(results.map((result) => result.answerRelevance)),
+    averageLatencyMs: average(results.map((result) => result.latencyMs)),
+  };
+}
+
+// Reads the judge's JSON reply; scores are clamped to 0-1
+export function parseJudgeResponse(content: string): { faithfulness: number | null; answerRelevance: number | null; reasoning: string } {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error('Judge did not return JSON');
+  }
+
+  const parsed = JSON.parse(json);
+  const score = (value: unknown) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? Math.min(Math.max(number, 0), 1) : null;
+  };
+
+  return {
+    faithfulness: score(parsed.faithfulness),
+    answerRelevance: score(parsed.answerRelevance ?? parsed.answer_relevance),
+    reasoning: String(parsed.reasoning || ''),
+  };
+}
+
+async function judgeAnswer(
+  judge: RagEvalJudge,
+  organizationId: string | undefined,
+  question: string,
+  answer: string,
+  context: string,
+  expectedAnswer?: string | null
+) {
+  const response = await aiService.generateText({
+    prompt:
+      'You grade answers of a retrieval-augmented assistant. Score from 0 to 1:\n' +
+      '- faithfulness: every claim in the answer is supported by the context (1 = fully supported, 0 = made up)\n' +
+      '- answerRelevance: the answer addresses the question' +
+      (expectedAnswer ? ' and agrees with the reference answer' : '') +
+      ' (1 = fully, 0 = not at all)\n' +
+      'Reply with JSON only: {"faithfulness": number, "answerRelevance": number, "reasoning": "one sentence"}\n\n' +
+      `Question: ${question}\n\n` +
+      (expectedAnswer ? `Reference answer: ${expectedAnswer}\n\n` : '') +
+      `Context:\n${context.slice(0, JUDGE_CONTEXT_CHARS)}\n\n` +
+      `Answer: ${answer}`,
+    config: {
+      provider: judge.provider,
+      model: judge.model,
+      providerId: judge.providerId,
+      organizationId,
+      temperature: 0,
+      maxTokens: 300,
+    },
+  });
+
+  return parseJudgeResponse(response.content);
+}
+
+/**
+ * Run questions through a RAG node config and score them. Does not touch
+ * the database, so it also runs offline (in-memory vector store, stubbed LLM).
+ */
+export async function runEvaluation(
+  cases: Array<Pick<RagEvalCase, 'id' | 'question' | 'expectedAnswer' | 'expectedSources'>>,
+  options: {
+    config: Record<string, unknown>;
+    workflowId: string;
+    nodeId: string;
+    executionId: string;
+    judge?: RagEvalJudge | null;
+    // Workspace the workflow belongs to, for organization LLM providers and the vector store
+    organizationId?: string;
+    workspaceId?: string;
+    userId?: string;
+  },
+  onResult?: (result: CaseResult) => Promise<void>
+): Promise<{ results: CaseResult[]; metrics: RagEvalMetrics }> {
+  const results: CaseResult[] = [];
+
+  for (const testCase of cases) {
+    const startTime = Date.now();
+    const context = {
+      nodeId: options.nodeId,
+      workflowId: options.workflowId,
+      executionId: options.executionId,
+      input: { query: testCase.question },
+      previousOutputs: {},
+      config: options.config,
+      organizationId: options.organizationId,
+      workspaceId: options.workspaceId,
+      userId: options.userId,
+    };
+    const execution = await executeRAG(context);
+    const latencyMs = Date.now() - startTime;
+
+    let result: CaseResult;
+    if (!execution.success) {
+      result = {
+        caseId: testCase.id,
+        question: testCase.question,
+        retrievedSources: [],
+        // Nothing retrieved: the expected sources were all missed
+        ...(execution.error?.code === 'NO_RESULTS' ? scoreRetrieval([], testCase.expectedSources || []) : {}),
+        latencyMs,
+        error: execution.error?.message || 'RAG execution failed',
+      };
+    } else {
+      const answer = String(execution.output?.answer || '');
+      const sources = (execution.output?.sources || []) as Array<{ id?: string; text: string; metadata?: Record<string, unknown> }>;
+      result = {
+        caseId: testCase.id,
+        question: testCase.question,
+        answer,
+        retrievedSources: sources.map((source) => sourceKeys(source)[0] || ''),
+        ...scoreRetrieval(sources, testCase.expectedSources || []),
+        latencyMs,
+      };
+
+      if (options.judge) {
+        try {
+          const context = sources.map((source, index) => `[${index + 1}] ${source.text}`).join('\n\n');
+          const verdict = await judgeAnswer(options.judge, options.organizationId, testCase.question, answer, context, testCase.expectedAnswer);
+          result.faithfulness = verdict.faithfulness;
+          result.answerRelevance = verdict.answerRelevance;
+          result.judgeReasoning = verdict.reasoning;
+        } catch (error: any) {
+          result.error = `Judge failed: ${error.message}`;
+        }
+      }
+    }
+
+    results.push(result);
+    if (onResult) {
+      await onResult(result);
+    }
+  }
+
+  return { results, metrics: summarizeResults(results) };
+}
+
+/**
+ * RAG Evaluation Service
+ *
+ * Stores golden question sets (question, expected answer, expected sources)
+ * and runs them against the RAG node of a workflow, persisting per-question
+ * scores and run averages so config changes can be compared run by run.
+ */
+export class RagEvalService {
+  async listDatasets(organizationId: string): Promise<Array<RagEvalDataset & { caseCount: number; lastRun: RagEvalRun | null }>> {
+    const datasets = await db
+      .select({
+        dataset: ragEvalDatasets,
+        caseCount: sql<number>`(select count(*)::int from ${ragEvalCases} where ${ragEvalCases.datasetId} = ${ragEvalDatasets.id})`,
+      })
+      .from(ragEvalDatasets)
+      .where(eq(ragEvalDatasets.organizationId, organizationId))
+      .orderBy(desc(ragEvalDatasets.updatedAt));
+
+    const runs = datasets.length
+      ? await db
+          .selectDistinctOn([ragEvalRuns.datasetId])
+          .from(ragEvalRuns)
+          .where(inArray(ragEvalRuns.datasetId, datasets.map((row) => row.dataset.id)))
+          .orderBy(ragEvalRuns.datasetId, desc(ragEvalRuns.startedAt))
+      : [];
+    const lastRuns = new Map(runs.map((run) => [run.datasetId, run]));
+
+    return datasets.map((row) => ({ ...row.dataset, caseCount: row.caseCount, lastRun: lastRuns.get(row.dataset.id) || null }));
+  }
+
+  async getDataset(organizationId: string, id: string): Promise<(RagEvalDataset & { cases: RagEvalCase[] }) | null> {
+    const [dataset] = await db
+      .select()
+      .from(ragEvalDatasets)
+      .where(and(eq(ragEvalDatasets.id, id), eq(ragEvalDatasets.organizationId, organizationId)))
+      .limit(1);
+    if (!dataset) {
+      return null;
+    }
+
+    const cases = await db
+      .select()
+      .from(ragEvalCases)
+      .where(eq(ragEvalCases.datasetId, id))
+      .orderBy(asc(ragEvalCases.createdAt));
+
+    return { ...dataset, cases };
+  }
+
+  async createDataset(
+    organizationId: string,
+    userId: string | null,
+    data: { name: string; description?: string; cases?: RagEvalCaseInput[] }
+  ): Promise<RagEvalDataset & { cases: RagEvalCase[] }> {
+    const [dataset] = await db
+      .insert(ragEvalDatasets)
+      .values({ organizationId, name: data.name, description: data.description || null, createdBy: userId })
+      .returning();
+
+    const cases = data.cases?.length ? await this.insertCases(dataset.id, data.cases) : [];
+    return { ...dataset, cases };
+  }
+
+  async updateDataset(organizationId: string, id: string, data: { name?: string; description?: string | null }): Promise<RagEvalDataset> {
+    await this.requireDataset(organizationId, id);
+    const [dataset] = await db
+      .update(ragEvalDatasets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(ragEvalDatasets.id, id))
+      .returning();
+    return dataset;
+  }
+
+  async deleteDataset(organizationId: string, id: string): Promise<void> {
+    await this.requireDataset(organizationId, id);
+    await db.delete(ragEvalDatasets).where(eq(ragEvalDatasets.id, id));
+  }
+
+  async addCases(organizationId: string, datasetId: string, cases: RagEvalCaseInput[]): Promise<RagEvalCase[]> {
+    await this.requireDataset(organizationId, datasetId);
+    const inserted = await this.insertCases(datasetId, cases);
+    await db.update(ragEvalDatasets).set({ updatedAt: new Date() }).where(eq(ragEvalDatasets.id, datasetId));
+    return inserted;
+  }
+
+  async updateCase(organizationId: string, datasetId: string, caseId: string, data: Partial<RagEvalCaseInput>): Promise<RagEvalCase> {
+    await this.requireDataset(organizationId, datasetId);
+    const [updated] = await db
+      .update(ragEvalCases)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(ragEvalCases.id, caseId), eq(ragEvalCases.datasetId, datasetId)))
+      .returning();
+    if (!updated) {
+      throw new Error('Case not found');
+    }
+    return updated;
+  }
+
+  async deleteCase(organizationId: string, datasetId: string, caseId: string): Promise<void> {
+    await this.requireDataset(organizationId, datasetId);
+    const deleted = await db
+      .delete(ragEvalCases)
+      .where(and(eq(ragEvalCases.id, caseId), eq(ragEvalCases.datasetId, datasetId)))
+      .returning({ id: ragEvalCases.id });
+    if (deleted.length === 0) {
+      throw new Error('Case not found');
+    }
+  }
+
+  async listRuns(organizationId: string, datasetId: string): Promise<RagEvalRun[]> {
+    await this.requireDataset(organizationId, datasetId);
+    return db
+      .select()
+      .from(ragEvalRuns)
+      .where(eq(ragEvalRuns.datasetId, datasetId))
+      .orderBy(desc(ragEvalRuns.startedAt));
+  }
+
+  async getRun(organizationId: string, datasetId: string, runId: string): Promise<(RagEvalRun & { results: RagEvalResult[] }) | null> {
+    const [run] = await db
+      .select()
+      .from(ragEvalRuns)
+      .where(and(
+        eq(ragEvalRuns.id, runId),
+        eq(ragEvalRuns.datasetId, datasetId),
+        eq(ragEvalRuns.organizationId, organizationId)
+      ))
+      .limit(1);
+    if (!run) {
+      return null;
+    }
+
+    const results = await db
+      .select()
+      .from(ragEvalResults)
+      .where(eq(ragEvalResults.runId, runId))
+      .orderBy(asc(ragEvalResults.createdAt));
+
+    return { ...run, results };
+  }
+
+  /**
+   * Start a run of all questions of a dataset. The run is returned right
+   * away with status 'running'; results are stored as questions complete.
+   * A run interrupted by a restart is marked failed, not continued.
+   */
+  async startRun(organizationId: string, userId: string | null, datasetId: string, input: StartRunInput): Promise<RagEvalRun> {
+    const dataset = await this.getDataset(organizationId, datasetId);
+    if (!dataset) {
+      throw new Error('Dataset not found');
+    }
+    if (dataset.cases.length === 0) {
+      throw new Error('Dataset has no questions');
+    }
+
+    const node = await this.findRagNode(organizationId, input.workflowId, input.nodeId);
+    const config = { ...node.config, ...(input.overrides || {}) };
+    const judge = input.judge === null ? null : input.judge || DEFAULT_JUDGE;
+
+    // Same restriction as running the workflow, for the node and the judge model
+    if (node.privateLlmOnly) {
+      const violation = await llmProviderService.checkPrivateNode(organizationId, 'ai.rag', config);
+      const judgeViolation = judge
+        ? await llmProviderService.checkPrivateNode(organizationId, 'ai.llm', { provider: judge.provider, providerId: judge.providerId })
+        : null;
+      if (violation || judgeViolation) {
+        throw new Error(`Workflow is restricted to private LLM providers: ${violation || `Judge: ${judgeViolation}`}`);
+      }
+    }
+
+    const [run] = await db
+      .insert(ragEvalRuns)
+      .values({
+        datasetId,
+        organizationId,
+        workflowId: input.workflowId,
+        nodeId: node.id,
+        config: Object.fromEntries(Object.entries(config).filter(([key]) => !SECRET_CONFIG_KEYS.includes(key))),
+        judge,
+        createdBy: userId,
+      })
+      .returning();
+
+    const releaseLease = await this.holdLease(run.id);
+    this.executeRun(run, dataset.cases, config, judge, node.workspaceId)
+      .catch((error) => {
+        console.error('RAG evaluation run failed:', error);
+      })
+      .finally(releaseLease);
+
+    return run;
+  }
+
+  /**
+   * Compare runs of a dataset: their config and averages, and the scores of
+   * every question per run
+   */
+  async compareRuns(organizationId: string, datasetId: string, runIds: string[]) {
+    const runs = await db
+      .select()
+      .from(ragEvalRuns)
+      .where(and(
+        inArray(ragEvalRuns.id, runIds),
+        eq(ragEvalRuns.datasetId, datasetId),
+        eq(ragEvalRuns.organizationId, organizationId)
+      ))
+      .orderBy(asc(ragEvalRuns.startedAt));
+    if (runs.length !== runIds.length) {
+      throw new Error('Run not found');
+    }
+
+    const results = await db.select().from(ragEvalResults).where(inArray(ragEvalResults.runId, runIds));
+
+    const questions = new Map<string, { caseId: string | null; question: string; results: Record<string, Partial<RagEvalResult>> }>();
+    for (const result of results) {
+      const key = result.caseId || result.question;
+      const entry = questions.get(key) || { caseId: result.caseId, question: result.question, results: {} };
+      entry.results[result.runId] = {
+        answer: result.answer,
+        recall: result.recall,
+        reciprocalRank: result.reciprocalRank,
+        faithfulness: result.faithfulness,
+        answerRelevance: result.answerRelevance,
+        error: result.error,
+      };
+      questions.set(key, entry);
+    }
+
+    return {
+      runs: runs.map((run) => ({ id: run.id, startedAt: run.startedAt, status: run.status, config: run.config, judge: run.judge, metrics: run.metrics })),
+      questions: [...questions.values()],
+    };
+  }
+
+  private async executeRun(
+    run: RagEvalRun,
+    cases: RagEvalCase[],
+    config: Record<string, unknown>,
+    judge: RagEvalJudge | null,
+    workspaceId: string
+  ): Promise<void> {
+    try {
+      const { metrics } = await runEvaluation(
+        cases,
+        {
+          config,
+          workflowId: run.workflowId!,
+          nodeId: run.nodeId,
+          executionId: `rag-eval-${run.id}`,
+          judge,
+          organizationId: run.organizationId,
+          workspaceId,
+          userId: run.createdBy || undefined,
+        },
+        async (result) => {
+          await db.insert(ragEvalResults).values({ ...result, runId: run.id });
+        }
+      );
+
+      await db
+        .update(ragEvalRuns)
+        .set({ status: 'completed', metrics, completedAt: new Date() })
+        .where(eq(ragEvalRuns.id, run.id));
+    } catch (error: any) {
+      await db
+        .update(ragEvalRuns)
+        .set({ status: 'failed', error: error.message || 'Evaluation failed', completedAt: new Date() })
+        .where(eq(ragEvalRuns.id, run.id));
+    }
+  }
+
+  /**
+   * Mark running evaluation runs whose lease expired as failed
+   */
+  async failInterruptedRuns(): Promise<number> {
+    const running = await db
+      .select({ id: ragEvalRuns.id })
+      .from(ragEvalRuns)
+      .where(eq(ragEvalRuns.status, 'running'));
+
+    let failed = 0;
+    for (const { id } of running) {
+      // Claiming the lease makes sure a run still in progress is left alone
+      const claimed = await redis.set(`rag-eval-run:${id}:lease`, 'interrupted', 'EX', RUN_LEASE_TTL_SECONDS, 'NX');
+      if (claimed !== 'OK') continue;
+
+      await db
+        .update(ragEvalRuns)
+        .set({ status: 'failed', error: 'Evaluation was interrupted by a server restart; start a new run', completedAt: new Date() })
+        .where(and(eq(ragEvalRuns.id, id), eq(ragEvalRuns.status, 'running')));
+      failed++;
+    }
+
+    return failed;
+  }
+
+  /**
+   * Fail interrupted runs now and whenever a lease can have expired
+   */
+  startRecovery(): void {
+    const recover = () =>
+      this.failInterruptedRuns()
+        .then((count) => {
+          if (count > 0) {
+            console.log(`♻️  Marked ${count} interrupted RAG evaluation run(s) failed`);
+          }
+        })
+        .catch((error) => console.error('[RagEval] Interrupted run check failed:', error));
+
+    recover();
+    setInterval(recover, RUN_LEASE_TTL_SECONDS * 1000).unref();
+  }
+
+  // Keep the Redis lease of a running run; returns a release function
+  private async holdLease(runId: string): Promise<() => Promise<void>> {
+    const key = `rag-eval-run:${runId}:lease`;
+    const refresh = () =>
+      redis.set(key, String(process.pid), 'EX', RUN_LEASE_TTL_SECONDS).catch((error) => {
+        console.warn('[RagEval] Could not refresh run lease:', error);
+      });
+
+    await refresh();
+    const interval = setInterval(refresh, RUN_LEASE_REFRESH_MS);
+
+    return async () => {
+      clearInterval(interval);
+      await redis.del(key).catch(() => undefined);
+    };
+  }
+
+  private async findRagNode(
+    organizationId: string,
+    workflowId: string,
+    nodeId?: string
+  ): Promise<{ id: string; config: Record<string, unknown>; workspaceId: string; privateLlmOnly: boolean }> {
+    const [workflow] = await db
+      .select({ definition: workflows.definition, workspaceId: workflows.workspaceId, settings: workflows.settings })
+      .from(workflows)
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(and(eq(workflows.id, workflowId), eq(workspaces.organizationId, organizationId)))
+      .limit(1);
+    if (!workflow) {
+      throw new Error('Workflow not found');
+    }
+
+    const nodes = ((workflow.definition as any)?.nodes || []) as Array<{ id: string; data?: { type?: string; config?: Record<string, unknown> } }>;
+    const node = nodes.find((n) => (nodeId ? n.id === nodeId : n.data?.type === 'ai.rag'));
+    if (!node || node.data?.type !== 'ai.rag') {
+      throw new Error('RAG node not found');
+    }
+
+    return {
+      id: node.id,
+      config: node.data.config || {},
+      workspaceId: workflow.workspaceId,
+      privateLlmOnly: !!(workflow.settings as { privateLlmOnly?: boolean } | null)?.privateLlmOnly,
+    };
+  }
+
+  private async insertCases(datasetId: string, cases: RagEvalCaseInput[]): Promise<RagEvalCase[]> {
+    return db
+      .insert(ragEvalCases)
+      .values(cases.map((testCase) => ({
+        datasetId,
+        question: testCase.question,
+        expectedAnswer: testCase.expectedAnswer || null,
+        expectedSources: testCase.expectedSources || [],
+      })))
+      .returning();
+  }
+
+  private async requireDataset(organizationId: string, id: string): Promise<RagEvalDataset> {
+    const [dataset] = await db
+      .select()
+      .from(ragEvalDatasets)
+      .where(and(eq(ragEvalDatasets.id, id), eq(ragEvalDatasets.organizationId, organizationId)))
+      .limit(1);
+    if (!dataset) {
+      throw new Error('Dataset not found');
+    }
+    return dataset;
+  }
+}
+
+export const ragEvalService = new RagEvalService();
@@ -0,0 +1,148 @@
+import axios from 'axios';
+import { aiService, LLMConfig } from './aiService';
+
+/**
+ * Options passed to a rerank provider
+ */
+export interface RerankOptions {
+  model?: string;
+  apiKey?: string;
+  endpoint?: string; // Self-hosted cross-encoder URL
+  llm?: Pick<LLMConfig, 'provider' | 'model' | 'providerId' | 'organizationId'>; // Model scoring passages for the 'llm' provider
+}
+
+/**
+ * Scores the relevance of each text to the query (one score per text, higher is more relevant)
+ */
+export type RerankProvider = (query: string, texts: string[], options: RerankOptions) => Promise<number[]>;
+
+const COHERE_RERANK_URL = 'https://api.cohere.com/v2/rerank';
+const RERANK_TIMEOUT_MS = 30000;
+const LLM_PASSAGE_CHARS = 2000;
+
+// Cohere hosted cross-encoder
+const cohereProvider: RerankProvider = async (query, texts, options) => {
+  const apiKey = options.apiKey || process.env.COHERE_API_KEY;
+  if (!apiKey) {
+    throw new Error('Cohere API key is required. Set it in node config (rerankApiKey) or environment variable (COHERE_API_KEY)');
+  }
+
+  const response = await axios.post(
+    COHERE_RERANK_URL,
+    { model: options.model || 'rerank-v3.5', query, documents: texts },
+    { headers: { Authorization: `Bearer ${apiKey}` }, timeout: RERANK_TIMEOUT_MS }
+  );
+
+  const scores = new Array<number>(texts.length).fill(0);
+  for (const result of response.data.results as Array<{ index: number; relevance_score: number }>) {
+    scores[result.index] = result.relevance_score;
+  }
+  return scores;
+};
+
+// Self-hosted cross-encoder (e.g. Hugging Face text-embeddings-inference /rerank):
+// POST { query, texts } -> [{ index, score }]
+const crossEncoderProvider: RerankProvider = async (query, texts, options) => {
+  const endpoint = options.endpoint || process.env.RERANK_API_URL;
+  if (!endpoint) {
+    throw new Error('Cross-encoder endpoint is required. Set it in node config (rerankEndpoint) or environment variable (RERANK_API_URL)');
+  }
+
+  const response = await axios.post(
+    endpoint,
+    { query, texts, ...(options.model ? { model: options.model } : {}) },
+    {
+      headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+      timeout: RERANK_TIMEOUT_MS,
+    }
+  );
+
+  const results = (Array.isArray(response.data) ? response.data : response.data.results) as Array<{ index: number; score: number }>;
+  const scores = new Array<number>(texts.length).fill(0);
+  for (const result of results) {
+    scores[result.index] = result.score;
+  }
+  return scores;
+};
+
+// Asks an LLM to grade each passage from 0 to 10
+const llmProvider: RerankProvider = async (query, texts, options) => {
+  return Promise.all(
+    texts.map(async (text) => {
+      const response = await aiService.generateText({
+        prompt:
+          'Rate how well the passage answers the question on a scale from 0 (irrelevant) to 10 (fully answers it). ' +
+          'Reply with the number only.\n\n' +
+          `Question: ${query}\n\nPassage:\n${text.slice(0, LLM_PASSAGE_CHARS)}\n\nScore:`,
+        config: {
+          provider: options.llm?.provider || 'openai',
+          model: options.llm?.model || options.model || 'gpt-4o-mini',
+          providerId: options.llm?.providerId,
+          organizationId: options.llm?.organizationId,
+          temperature: 0,
+          maxTokens: 5,
+        },
+      });
+
+      const score = parseFloat(response.content.match(/\d+(\.\d+)?/)?.[0] || '0');
+      return Math.min(Math.max(score, 0), 10) / 10;
+    })
+  );
+};
+
+/**
+ * Rerank Service
+ *
+ * Reorders retrieved passages with a model that reads the query and passage
+ * together, which ranks more precisely than embedding or keyword scores.
+ * Providers are pluggable; 'cohere', 'cross-encoder' and 'llm' are built in.
+ */
+export class RerankService {
+  private providers = new Map<string, RerankProvider>([
+    ['cohere', cohereProvider],
+    ['cross-encoder', crossEncoderProvider],
+    ['llm', llmProvider],
+  ]);
+
+  /**
+   * Register (or replace) a rerank provider
+   */
+  registerProvider(name: string, provider: RerankProvider): void {
+    this.providers.set(name, provider);
+  }
+
+  getProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Rerank documents by relevance to the query and keep the best topN.
+   * The provider's score replaces each document's score; the previous
+   * score is kept as retrievalScore.
+   */
+  async rerank<T extends { text: string; score: number }>(
+    provider: string,
+    query: string,
+    documents: T[],
+    topN: number,
+    options: RerankOptions = {}
+  ): Promise<Array<T & { retrievalScore: number }>> {
+    const rerankProvider = this.providers.get(provider);
+    if (!rerankProvider) {
+      throw new Error(`Unsupported rerank provider: ${provider}. Available providers: ${this.getProviders().join(', ')}`);
+    }
+
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const scores = await rerankProvider(query, documents.map((doc) => doc.text), options);
+
+    return documents
+      .map((doc, i) => ({ ...doc, retrievalScore: doc.score, score: scores[i] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topN);
+  }
+}
+
+export const rerankService = new RerankService();
@@ -0,0 +1,128 @@
+import { queryVectors, searchKeywords } from './vectorStore';
+import { rerankService, RerankOptions } from './rerankService';
+import { MetadataFilter } from './metadataFilter';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface RetrievedDocument {
+  id: string;
+  text: string;
+  score: number;
+  metadata?: Record<string, unknown>;
+  vectorScore?: number; // Similarity from the vector search
+  keywordScore?: number; // Full-text rank from the keyword search
+  retrievalScore?: number; // Score before reranking
+}
+
+export interface RetrievalRequest {
+  provider: string;
+  indexName: string;
+  query: string;
+  queryEmbedding?: number[]; // Required for 'vector' and 'hybrid'
+  topK: number;
+  mode?: RetrievalMode; // Default: 'vector'
+  candidateCount?: number; // Documents fetched per search before fusion/reranking (default: topK * 4)
+  rerank?: { provider: string; options?: RerankOptions };
+  filter?: MetadataFilter; // Only documents whose metadata matches are retrieved
+  apiKey?: string;
+  organizationId?: string | null;
+}
+
+// Rank constant of reciprocal rank fusion; 60 is the value from the original paper
+const RRF_K = 60;
+
+/**
+ * Merge ranked lists with reciprocal rank fusion: each document scores
+ * sum(1 / (k + rank)) over the lists it appears in. Only ranks are used, so
+ * lists with incomparable scores (cosine similarity, ts_rank) can be fused.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: T[][],
+  k: number = RRF_K
+): Array<{ document: T; score: number }> {
+  const fused = new Map<string, { document: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((document, rank) => {
+      const entry = fused.get(document.id) || { document, score: 0 };
+      entry.score += 1 / (k + rank + 1);
+      fused.set(document.id, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieval Service
+ *
+ * Finds the documents for a RAG query by embedding similarity, keyword
+ * (full-text) ranking, or both fused with reciprocal rank fusion. Keyword
+ * ranking catches exact tokens such as product codes and error IDs that
+ * embeddings blur. An optional rerank stage orders the candidates last.
+ */
+export class RetrievalService {
+  async retrieve(request: RetrievalRequest): Promise<RetrievedDocument[]> {
+    const mode = request.mode || 'vector';
+    const candidateCount = Math.max(
+      request.candidateCount || request.topK * 4,
+      request.topK
+    );
+    // Without reranking or fusion the searches can return topK directly
+    const fetchCount = request.rerank || mode === 'hybrid' ? candidateCount : request.topK;
+
+    if (mode !== 'keyword' && !request.queryEmbedding) {
+      throw new Error(`Query embedding is required for ${mode} retrieval`);
+    }
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      mode !== 'keyword'
+        ? queryVectors(
+            request.provider,
+            request.indexName,
+            request.queryEmbedding!,
+            fetchCount,
+            request.apiKey,
+            request.organizationId,
+            request.filter
+          )
+        : Promise.resolve([]),
+      mode !== 'vector'
+        ? searchKeywords(request.provider, request.indexName, request.query, fetchCount, request.organizationId, request.filter)
+        : Promise.resolve([]),
+    ]);
+
+    let candidates: RetrievedDocument[];
+    if (mode === 'hybrid') {
+      const vectorScores = new Map(vectorResults.map((doc) => [doc.id, doc.score]));
+      const keywordScores = new Map(keywordResults.map((doc) => [doc.id, doc.score]));
+
+      candidates = reciprocalRankFusion([vectorResults, keywordResults])
+        .slice(0, candidateCount)
+        .map(({ document, score }) => ({
+          ...document,
+          score,
+          vectorScore: vectorScores.get(document.id),
+          keywordScore: keywordScores.get(document.id),
+        }));
+    } else if (mode === 'keyword') {
+      candidates = keywordResults.map((doc) => ({ ...doc, keywordScore: doc.score }));
+    } else {
+      candidates = vectorResults.map((doc) => ({ ...doc, vectorScore: doc.score }));
+    }
+
+    if (request.rerank) {
+      return rerankService.rerank(
+        request.rerank.provider,
+        request.query,
+        candidates,
+        request.topK,
+        request.rerank.options
+      );
+    }
+
+    return candidates.slice(0, request.topK);
+  }
+}
+
+export const retrievalService = new RetrievalService();
@@ -260,6 +260,10 @@ export class RetryService {
    * Check if error should not be retried
    */
   private shouldNotRetry(error: any): boolean {
+    // Don't retry aborted calls (execution cancelled or timed out)
+    if (error.name === 'AbortError' || error.message === 'AbortError') {
+      return true;
+    }
     // Don't retry on authentication errors (won't succeed on retry)
     if (error.code === 'AUTHENTICATION_ERROR' || error.code === 'UNAUTHORIZED') {
       return true;
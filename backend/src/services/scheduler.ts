@@ -162,7 +162,8 @@ class Scheduler {
                   workflow.workspaceId
                 );
 
-                const executionResult = await workflowExecutor.executeWorkflow({
+                // Queued behind manual and webhook runs
+                await workflowExecutor.enqueueExecution({
                   workflowId: workflow.id,
                   definition,
                   input: {
@@ -171,6 +172,8 @@ class Scheduler {
                       timestamp: new Date().toISOString(),
                     },
                   },
+                  workspaceId: workflow.workspaceId,
+                  priority: 'scheduled',
                 });
 
                 // Record success if backoff is enabled
@@ -1,7 +1,8 @@
 // Vector store service with support for in-memory, database, and external providers (Pinecone, Weaviate, Chroma)
 
 import { db, vectorIndexes, vectorDocuments } from '../config/database';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray, like, sql } from 'drizzle-orm';
+import { MetadataFilter, matchesMetadataFilter, toSqlMetadataFilter, toPineconeFilter } from './metadataFilter';
 
 // Simple logger for vector store operations
 const logger = {
@@ -37,6 +38,19 @@ interface VectorDocument {
   metadata?: Record<string, unknown>;
 }
 
+// Keyword search terms: words, numbers and codes such as "ERR-4012" or "v2.1"
+// are kept whole so exact identifiers match
+const KEYWORD_TERM_PATTERN = /[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu;
+const MAX_KEYWORD_TERMS = 32;
+
+function toKeywordTerms(text: string): string[] {
+  return (text.toLowerCase().match(KEYWORD_TERM_PATTERN) || []);
+}
+
+// BM25 parameters (term frequency saturation, length normalization)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
 // In-memory vector store for development/testing
 class InMemoryVectorStore {
   private stores: Map<string, VectorDocument[]> = new Map();
@@ -71,9 +85,9 @@ class InMemoryVectorStore {
     return ids;
   }
 
-  async query(indexName: string, queryEmbedding: number[], topK: number = 5): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
-    const store = this.stores.get(indexName) || [];
-    
+  async query(indexName: string, queryEmbedding: number[], topK: number = 5, filter?: MetadataFilter): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
+    const store = this.filterDocuments(indexName, filter);
+
     // Calculate cosine similarity
     const results = store.map((doc) => {
       const score = this.cosineSimilarity(queryEmbedding, doc.embedding);
@@ -89,6 +103,50 @@ class InMemoryVectorStore {
     return results.sort((a, b) => b.score - a.score).slice(0, topK);
   }
 
+  // BM25 ranking over the document texts of an index
+  async keywordQuery(indexName: string, query: string, topK: number = 5, filter?: MetadataFilter): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
+    const store = this.filterDocuments(indexName, filter);
+    const queryTerms = [...new Set(toKeywordTerms(query))].slice(0, MAX_KEYWORD_TERMS);
+    if (store.length === 0 || queryTerms.length === 0) {
+      return [];
+    }
+
+    const documents = store.map((doc) => ({ doc, terms: toKeywordTerms(doc.text) }));
+    const averageLength = documents.reduce((sum, { terms }) => sum + terms.length, 0) / documents.length || 1;
+    const documentFrequency = new Map(
+      queryTerms.map((term) => [term, documents.filter(({ terms }) => terms.includes(term)).length])
+    );
+
+    const results = documents.map(({ doc, terms }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.filter((t) => t === term).length;
+        if (frequency === 0) continue;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (terms.length / averageLength)));
+      }
+      return { id: doc.id, text: doc.text, score, metadata: doc.metadata };
+    });
+
+    return results
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  private filterDocuments(indexName: string, filter?: MetadataFilter): VectorDocument[] {
+    const store = this.stores.get(indexName) || [];
+    return filter ? store.filter((doc) => matchesMetadataFilter(doc.metadata, filter)) : store;
+  }
+
+  async listByIdPrefix(indexName: string, idPrefix: string): Promise<Array<{ id: string; metadata?: Record<string, unknown> }>> {
+    return (this.stores.get(indexName) || [])
+      .filter((doc) => doc.id.startsWith(idPrefix))
+      .map((doc) => ({ id: doc.id, metadata: doc.metadata }));
+  }
+
   async delete(indexName: string, ids: string[]): Promise<void> {
     const store = this.stores.get(indexName);
     if (!store) return;
@@ -115,25 +173,66 @@ class InMemoryVectorStore {
   }
 }
 
-// Database-backed vector store with multi-tenant support
-export class DatabaseVectorStore {
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+export type DistanceMetric = 'cosine' | 'l2' | 'inner_product';
+export type AnnIndexType = 'hnsw' | 'ivfflat' | 'none';
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
+// Settings of a database vector index, applied when the index is created
+export interface VectorIndexOptions {
+  distanceMetric?: DistanceMetric;
+  annIndexType?: AnnIndexType;
+}
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+type VectorIndexRecord = typeof vectorIndexes.$inferSelect;
+
+// pgvector operator and operator class per distance metric; scores are
+// "higher is more similar" for every metric
+const DISTANCE_METRICS: Record<DistanceMetric, { operator: string; opclass: string; toScore: (distance: number) => number }> = {
+  cosine: { operator: '<=>', opclass: 'vector_cosine_ops', toScore: (distance) => 1 - distance },
+  l2: { operator: '<->', opclass: 'vector_l2_ops', toScore: (distance) => 1 / (1 + distance) },
+  inner_product: { operator: '<#>', opclass: 'vector_ip_ops', toScore: (distance) => -distance },
+};
+
+// HNSW returns at most hnsw.ef_search candidates (default 40)
+const HNSW_DEFAULT_EF_SEARCH = 40;
+// Metadata filters apply after the HNSW scan, so filtered queries scan more
+// candidates to still fill topK
+const HNSW_FILTERED_EF_SEARCH = 400;
+const HNSW_MAX_EF_SEARCH = 1000;
+
+// IVFFlat clusters are computed from existing rows, so the index is only
+// built once an index has enough documents (smaller ones are scanned exactly)
+const IVFFLAT_MIN_ROWS = 1000;
+const IVFFLAT_ROWS_PER_LIST = 1000;
+
+// pgvector's HNSW and IVFFlat indexes reject vectors with more dimensions
+// (e.g. text-embedding-3-large at 3072); larger ones are scanned exactly
+const MAX_ANN_DIMENSIONS = 2000;
+
+// Database-backed vector store with multi-tenant support. Embeddings are
+// stored in a pgvector column; each vector index gets a partial ANN index on
+// its own documents, cast to its dimensions and built for its distance metric.
+// ANN indexes are built concurrently in the background; searches scan exactly
+// until the build finished.
+export class DatabaseVectorStore {
+  private annIndexes = new Set<string>();
+  private annIndexBuilds = new Map<string, Promise<void>>();
+
+  async getOrCreateIndex(
+    organizationId: string | null,
+    indexName: string,
+    provider: string = 'database',
+    options: VectorIndexOptions = {}
+  ): Promise<string> {
+    const index = await this.getOrCreateIndexRecord(organizationId, indexName, provider, options);
+    return index.id;
   }
 
-  async getOrCreateIndex(organizationId: string | null, indexName: string, provider: string = 'database'): Promise<string> {
+  async getOrCreateIndexRecord(
+    organizationId: string | null,
+    indexName: string,
+    provider: string = 'database',
+    options: VectorIndexOptions = {}
+  ): Promise<VectorIndexRecord> {
     const startTime = Date.now();
     logger.debug('Getting or creating index', { organizationId, indexName, provider });
 
@@ -154,7 +253,7 @@ export class DatabaseVectorStore {
       if (existing.length > 0) {
         const duration = Date.now() - startTime;
         logger.debug('Index found', { indexId: existing[0].id, duration });
-        return existing[0].id;
+        return existing[0];
       }
 
       // Create new index
@@ -163,12 +262,14 @@ export class DatabaseVectorStore {
           organizationId: organizationId || null,
           name: indexName,
           provider,
+          distanceMetric: options.distanceMetric || 'cosine',
+          annIndexType: options.annIndexType || 'hnsw',
         })
-        .returning({ id: vectorIndexes.id });
+        .returning();
 
       const duration = Date.now() - startTime;
       logger.info('Index created', { indexId: newIndex.id, organizationId, indexName, provider, duration });
-      return newIndex.id;
+      return newIndex;
     } catch (error) {
       logger.error('Error getting or creating index', error);
       throw error;
@@ -178,7 +279,8 @@ export class DatabaseVectorStore {
   async upsert(
     organizationId: string | null,
     indexName: string,
-    documents: Array<{ id?: string; embedding: number[]; text: string; metadata?: Record<string, unknown> }>
+    documents: Array<{ id?: string; embedding: number[]; text: string; metadata?: Record<string, unknown>; sourceId?: string }>,
+    options: VectorIndexOptions = {}
   ): Promise<string[]> {
     const startTime = Date.now();
     logger.info('Upserting documents', { 
@@ -188,7 +290,23 @@ export class DatabaseVectorStore {
     });
 
     try {
-      const indexId = await this.getOrCreateIndex(organizationId, indexName, 'database');
+      const index = await this.getOrCreateIndexRecord(organizationId, indexName, 'database', options);
+      const indexId = index.id;
+
+      // An index stores vectors of one size: the size of its first documents
+      const dimensions = index.dimensions || documents[0]?.embedding.length;
+      const mismatch = documents.find((doc) => doc.embedding.length !== dimensions);
+      if (mismatch) {
+        throw new Error(
+          `Embedding has ${mismatch.embedding.length} dimensions but index "${indexName}" stores ${dimensions}-dimensional vectors`
+        );
+      }
+      if (!index.dimensions && dimensions) {
+        await db.update(vectorIndexes)
+          .set({ dimensions, updatedAt: new Date() })
+          .where(eq(vectorIndexes.id, indexId));
+      }
+
       const ids: string[] = [];
       let created = 0;
       let updated = 0;
@@ -208,7 +326,9 @@ export class DatabaseVectorStore {
             .set({
               text: doc.text,
               embedding: doc.embedding,
+              dimensions: doc.embedding.length,
               metadata: doc.metadata || null,
+              ...(doc.sourceId && { sourceId: doc.sourceId }),
               updatedAt: new Date(),
             })
             .where(eq(vectorDocuments.id, id));
@@ -222,13 +342,19 @@ export class DatabaseVectorStore {
               organizationId: organizationId || null,
               text: doc.text,
               embedding: doc.embedding,
+              dimensions: doc.embedding.length,
               metadata: doc.metadata || null,
+              sourceId: doc.sourceId || null,
             });
           created++;
         }
         ids.push(id);
       }
 
+      if (dimensions) {
+        this.ensureAnnIndex({ ...index, dimensions });
+      }
+
       const duration = Date.now() - startTime;
       logger.info('Documents upserted', { 
         organizationId, 
@@ -250,54 +376,83 @@ export class DatabaseVectorStore {
     organizationId: string | null,
     indexName: string,
     queryEmbedding: number[],
-    topK: number = 5
+    topK: number = 5,
+    filter?: MetadataFilter
   ): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
     const startTime = Date.now();
     logger.debug('Querying vectors', { 
       organizationId, 
       indexName, 
       topK, 
-      embeddingDimensions: queryEmbedding.length 
+      embeddingDimensions: queryEmbedding.length,
+      filtered: !!filter,
     });
 
     try {
-      const indexId = await this.getOrCreateIndex(organizationId, indexName, 'database');
+      const index = await this.getOrCreateIndexRecord(organizationId, indexName, 'database');
 
-      // Get all documents for this index
-      const whereConditions = [eq(vectorDocuments.indexId, indexId)];
-      if (organizationId) {
-        whereConditions.push(eq(vectorDocuments.organizationId, organizationId));
-      } else {
-        whereConditions.push(eq(vectorDocuments.organizationId, null));
+      // Nothing stored yet
+      if (!index.dimensions) {
+        return [];
+      }
+      if (queryEmbedding.length !== index.dimensions) {
+        throw new Error(
+          `Query embedding has ${queryEmbedding.length} dimensions but index "${indexName}" stores ${index.dimensions}-dimensional vectors`
+        );
       }
-      
-      const docs = await db.select()
-        .from(vectorDocuments)
-        .where(whereConditions.length > 1 ? and(...whereConditions) : whereConditions[0]);
-
-      logger.debug('Documents retrieved for similarity calculation', { 
-        documentCount: docs.length 
-      });
 
-      // Calculate cosine similarity for all documents
-      const results = docs.map((doc) => {
-        const score = this.cosineSimilarity(queryEmbedding, doc.embedding);
-        return {
-          id: doc.id,
-          text: doc.text,
-          score,
-          metadata: (doc.metadata || {}) as Record<string, unknown>,
-        };
-      });
+      this.ensureAnnIndex(index);
+
+      // Same expression and predicate as the partial ANN index, so the
+      // planner can use it for the ORDER BY ... LIMIT
+      const metric = DISTANCE_METRICS[index.distanceMetric as DistanceMetric] || DISTANCE_METRICS.cosine;
+      const vectorType = sql.raw(`vector(${index.dimensions})`);
+      const distance = sql<number>`(${vectorDocuments.embedding}::${vectorType}) ${sql.raw(metric.operator)} (${toVectorLiteral(queryEmbedding)}::${vectorType})`;
+
+      const conditions = [
+        sql`${vectorDocuments.indexId} = ${sql.raw(toSqlLiteral(index.id))}`,
+        eq(vectorDocuments.dimensions, index.dimensions),
+        organizationId
+          ? eq(vectorDocuments.organizationId, organizationId)
+          : eq(vectorDocuments.organizationId, null),
+      ];
+      if (filter) {
+        conditions.push(toSqlMetadataFilter(filter, vectorDocuments.metadata));
+      }
 
-      // Sort by score descending and return top K
-      const topResults = results.sort((a, b) => b.score - a.score).slice(0, topK);
+      const search = (executor: Pick<typeof db, 'select'>) =>
+        executor.select({
+          id: vectorDocuments.id,
+          text: vectorDocuments.text,
+          metadata: vectorDocuments.metadata,
+          distance,
+        })
+          .from(vectorDocuments)
+          .where(and(...conditions))
+          .orderBy(distance)
+          .limit(topK);
+
+      // Let HNSW return more candidates than its default when asked for more
+      const efSearch = Math.min(Math.max(Math.floor(topK), filter ? HNSW_FILTERED_EF_SEARCH : 0), HNSW_MAX_EF_SEARCH);
+      const docs = index.annIndexType === 'hnsw' && efSearch > HNSW_DEFAULT_EF_SEARCH
+        ? await db.transaction(async (tx) => {
+            await tx.execute(sql.raw(`SET LOCAL hnsw.ef_search = ${efSearch}`));
+            return search(tx);
+          })
+        : await search(db);
+
+      const topResults = docs.map((doc) => ({
+        id: doc.id,
+        text: doc.text,
+        score: metric.toScore(Number(doc.distance)),
+        metadata: (doc.metadata || {}) as Record<string, unknown>,
+      }));
       
       const duration = Date.now() - startTime;
       logger.info('Query completed', { 
         organizationId, 
         indexName, 
-        totalDocuments: docs.length, 
+        distanceMetric: index.distanceMetric,
         resultsReturned: topResults.length, 
         topK, 
         duration,
@@ -311,6 +466,90 @@ export class DatabaseVectorStore {
     }
   }
 
+  /**
+   * Full-text search over document texts, ranked with ts_rank_cd. Any query
+   * term may match; the 'simple' configuration does not stem, so product
+   * codes and error IDs match exactly.
+   */
+  async keywordQuery(
+    organizationId: string | null,
+    indexName: string,
+    query: string,
+    topK: number = 5,
+    filter?: MetadataFilter
+  ): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
+    const startTime = Date.now();
+    const terms = [...new Set(toKeywordTerms(query))].slice(0, MAX_KEYWORD_TERMS);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    try {
+      const indexId = await this.getOrCreateIndex(organizationId, indexName, 'database');
+
+      // Same expression as the GIN index on vector_documents.text
+      const document = sql`to_tsvector('simple', ${vectorDocuments.text})`;
+      const tsquery = sql.join(terms.map((term) => sql`plainto_tsquery('simple', ${term})`), sql` || `);
+      const rank = sql<number>`ts_rank_cd(${document}, ${tsquery})`;
+
+      const docs = await db.select({
+        id: vectorDocuments.id,
+        text: vectorDocuments.text,
+        metadata: vectorDocuments.metadata,
+        rank,
+      })
+        .from(vectorDocuments)
+        .where(and(
+          eq(vectorDocuments.indexId, indexId),
+          organizationId
+            ? eq(vectorDocuments.organizationId, organizationId)
+            : eq(vectorDocuments.organizationId, null),
+          sql`${document} @@ (${tsquery})`,
+          filter ? toSqlMetadataFilter(filter, vectorDocuments.metadata) : undefined
+        ))
+        .orderBy(sql`${rank} DESC`)
+        .limit(topK);
+
+      logger.debug('Keyword query completed', {
+        organizationId,
+        indexName,
+        terms: terms.length,
+        resultsReturned: docs.length,
+        duration: Date.now() - startTime,
+      });
+
+      return docs.map((doc) => ({
+        id: doc.id,
+        text: doc.text,
+        score: Number(doc.rank),
+        metadata: (doc.metadata || {}) as Record<string, unknown>,
+      }));
+    } catch (error) {
+      logger.error('Error running keyword query', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the ids and metadata of the documents whose id starts with a prefix,
+   * e.g. the chunks written by one document sync
+   */
+  async listByIdPrefix(
+    organizationId: string | null,
+    indexName: string,
+    idPrefix: string
+  ): Promise<Array<{ id: string; metadata?: Record<string, unknown> }>> {
+    const indexId = await this.getOrCreateIndex(organizationId, indexName, 'database');
+    const rows = await db.select({ id: vectorDocuments.id, metadata: vectorDocuments.metadata })
+      .from(vectorDocuments)
+      .where(and(
+        eq(vectorDocuments.indexId, indexId),
+        like(vectorDocuments.id, `${idPrefix.replace(/[\\%_]/g, '\\$&')}%`)
+      ));
+
+    return rows.map((row) => ({ id: row.id, metadata: (row.metadata || undefined) as Record<string, unknown> | undefined }));
+  }
+
   async delete(organizationId: string | null, indexName: string, ids: string[]): Promise<void> {
     const startTime = Date.now();
     logger.info('Deleting documents', { 
@@ -319,18 +558,22 @@ export class DatabaseVectorStore {
       documentCount: ids.length 
     });
 
+    if (ids.length === 0) {
+      return;
+    }
+
     try {
       const indexId = await this.getOrCreateIndex(organizationId, indexName, 'database');
 
-      const deleteConditions = [eq(vectorDocuments.indexId, indexId)];
+      const deleteConditions = [eq(vectorDocuments.indexId, indexId), inArray(vectorDocuments.id, ids)];
       if (organizationId) {
         deleteConditions.push(eq(vectorDocuments.organizationId, organizationId));
       } else {
         deleteConditions.push(eq(vectorDocuments.organizationId, null));
       }
       
-      const result = await db.delete(vectorDocuments)
-        .where(deleteConditions.length > 1 ? and(...deleteConditions) : deleteConditions[0]);
+      await db.delete(vectorDocuments)
+        .where(and(...deleteConditions));
 
       const duration = Date.now() - startTime;
       logger.info('Documents deleted', { 
@@ -344,6 +587,135 @@ export class DatabaseVectorStore {
       throw error;
     }
   }
+
+  /**
+   * Drop and rebuild the ANN index of a vector index, e.g. to recompute
+   * IVFFlat clusters after the index grew a lot or to replace an index left
+   * invalid by a failed build. Resolves once the new index is built.
+   */
+  async rebuildAnnIndex(organizationId: string | null, indexName: string): Promise<void> {
+    const index = await this.getOrCreateIndexRecord(organizationId, indexName, 'database');
+    // A build still running in the background would recreate the old index
+    await this.annIndexBuilds.get(index.id);
+    await db.execute(sql.raw(`DROP INDEX IF EXISTS ${annIndexName(index.id)}`));
+    this.annIndexes.delete(index.id);
+    await this.ensureAnnIndex(index);
+  }
+
+  /**
+   * Change the dimensions of a vector index (e.g. after switching embedding
+   * models). Its ANN index is dropped; documents of the old size are no
+   * longer returned until they are re-embedded, and the ANN index is rebuilt
+   * on the next upsert or rebuildAnnIndex.
+   */
+  async resizeIndex(organizationId: string | null, indexName: string, dimensions: number): Promise<void> {
+    const index = await this.getOrCreateIndexRecord(organizationId, indexName, 'database');
+    await db.execute(sql.raw(`DROP INDEX IF EXISTS ${annIndexName(index.id)}`));
+    this.annIndexes.delete(index.id);
+    await db.update(vectorIndexes)
+      .set({ dimensions, updatedAt: new Date() })
+      .where(eq(vectorIndexes.id, index.id));
+    logger.info('Index resized', { indexId: index.id, from: index.dimensions, to: dimensions });
+  }
+
+  /**
+   * Delete a vector index with its documents and ANN index
+   */
+  async deleteIndex(organizationId: string | null, indexName: string): Promise<void> {
+    const index = await this.getOrCreateIndexRecord(organizationId, indexName, 'database');
+    await db.execute(sql.raw(`DROP INDEX IF EXISTS ${annIndexName(index.id)}`));
+    this.annIndexes.delete(index.id);
+    await db.delete(vectorIndexes).where(eq(vectorIndexes.id, index.id));
+    logger.info('Index deleted', { indexId: index.id, organizationId, indexName });
+  }
+
+  /**
+   * Start building the partial ANN index of a vector index in the background
+   * if it does not exist yet; the returned promise settles when the build
+   * ends and never rejects (indexes above MAX_ANN_DIMENSIONS are always
+   * scanned exactly)
+   */
+  private ensureAnnIndex(index: VectorIndexRecord): Promise<void> {
+    if (!index.dimensions || index.annIndexType === 'none' || this.annIndexes.has(index.id)) {
+      return Promise.resolve();
+    }
+    if (index.dimensions > MAX_ANN_DIMENSIONS) {
+      this.annIndexes.add(index.id);
+      logger.warn('ANN index skipped, exact search is used', {
+        indexId: index.id,
+        dimensions: index.dimensions,
+        maxDimensions: MAX_ANN_DIMENSIONS,
+      });
+      return Promise.resolve();
+    }
+
+    let build = this.annIndexBuilds.get(index.id);
+    if (!build) {
+      build = this.buildAnnIndex(index)
+        .catch((error) => logger.error('Error building ANN index', { indexId: index.id, error }))
+        .finally(() => this.annIndexBuilds.delete(index.id));
+      this.annIndexBuilds.set(index.id, build);
+    }
+    return build;
+  }
+
+  /**
+   * Build the partial ANN index without blocking writes to vector_documents
+   */
+  private async buildAnnIndex(index: VectorIndexRecord): Promise<void> {
+    if (!index.dimensions) {
+      return;
+    }
+
+    const metric = DISTANCE_METRICS[index.distanceMetric as DistanceMetric] || DISTANCE_METRICS.cosine;
+    const columns = `((embedding::vector(${Math.floor(index.dimensions)})) ${metric.opclass})`;
+    const predicate = `WHERE index_id = ${toSqlLiteral(index.id)}`;
+
+    if (index.annIndexType === 'ivfflat') {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(vectorDocuments)
+        .where(eq(vectorDocuments.indexId, index.id));
+      if (count < IVFFLAT_MIN_ROWS) {
+        return;
+      }
+
+      const lists = Math.max(1, Math.round(count / IVFFLAT_ROWS_PER_LIST));
+      await db.execute(sql.raw(
+        `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${annIndexName(index.id)} ON vector_documents USING ivfflat ${columns} WITH (lists = ${lists}) ${predicate}`
+      ));
+    } else {
+      await db.execute(sql.raw(
+        `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${annIndexName(index.id)} ON vector_documents USING hnsw ${columns} ${predicate}`
+      ));
+    }
+
+    // IF NOT EXISTS also skips an index another instance is still building,
+    // or one left invalid by a failed build; both are retried later
+    const [state] = await db.execute<{ valid: boolean }>(
+      sql`SELECT indisvalid AS valid FROM pg_index WHERE indexrelid = to_regclass(${annIndexName(index.id)})`
+    );
+    if (!state?.valid) {
+      logger.warn('ANN index not valid yet, exact search is used', { indexId: index.id });
+      return;
+    }
+
+    this.annIndexes.add(index.id);
+    logger.info('ANN index ready', { indexId: index.id, type: index.annIndexType, distanceMetric: index.distanceMetric });
+  }
+}
+
+// pgvector text input for an embedding
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.map(Number).join(',')}]`;
+}
+
+// Quoted SQL string literal; partial index predicates need literal values
+function toSqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function annIndexName(indexId: string): string {
+  return `"vector_documents_ann_${indexId.replace(/[^a-zA-Z0-9_]/g, '_')}"`;
 }
 
 // Pinecone vector store
@@ -405,7 +777,8 @@ class PineconeVectorStore {
     queryEmbedding: number[],
     topK: number = 5,
     apiKey: string,
-    environment?: string
+    environment?: string,
+    filter?: MetadataFilter
   ): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
     await this.initialize(apiKey, environment);
     if (!this.client) throw new Error('Pinecone client not initialized');
@@ -415,6 +788,7 @@ class PineconeVectorStore {
       vector: queryEmbedding,
       topK,
       includeMetadata: true,
+      ...(filter && { filter: toPineconeFilter(filter) }),
     });
 
     return queryResponse.matches.map((match: any) => ({
@@ -425,6 +799,35 @@ class PineconeVectorStore {
     }));
   }
 
+  // Id prefix listing is only available on serverless indexes
+  async listByIdPrefix(
+    indexName: string,
+    idPrefix: string,
+    apiKey: string,
+    environment?: string
+  ): Promise<Array<{ id: string; metadata?: Record<string, unknown> }>> {
+    await this.initialize(apiKey, environment);
+    if (!this.client) throw new Error('Pinecone client not initialized');
+
+    const index = this.client.index(indexName);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await index.listPaginated({ prefix: idPrefix, ...(paginationToken && { paginationToken }) });
+      ids.push(...(page.vectors || []).map((vector: any) => vector.id as string));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    const documents: Array<{ id: string; metadata?: Record<string, unknown> }> = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      const response = await index.fetch(ids.slice(i, i + 100));
+      for (const record of Object.values(response.records || {}) as any[]) {
+        documents.push({ id: record.id, metadata: record.metadata });
+      }
+    }
+    return documents;
+  }
+
   async delete(
     indexName: string,
     ids: string[],
@@ -440,7 +843,7 @@ class PineconeVectorStore {
 }
 
 const inMemoryStore = new InMemoryVectorStore();
-const databaseStore = new DatabaseVectorStore();
+export const databaseStore = new DatabaseVectorStore();
 const pineconeStore = new PineconeVectorStore();
 
 export async function storeVectors(
@@ -448,12 +851,13 @@ export async function storeVectors(
   indexName: string,
   documents: Array<{ id?: string; embedding: number[]; text: string; metadata?: Record<string, unknown> }>,
   apiKey?: string,
-  organizationId?: string | null
+  organizationId?: string | null,
+  indexOptions?: VectorIndexOptions
 ): Promise<string[]> {
   if (provider === 'memory') {
     return inMemoryStore.upsert(indexName || 'default', documents);
   } else if (provider === 'database') {
-    return databaseStore.upsert(organizationId || null, indexName || 'default', documents);
+    return databaseStore.upsert(organizationId || null, indexName || 'default', documents, indexOptions);
   } else if (provider === 'pinecone') {
     if (!apiKey) {
       throw new Error('Pinecone API key is required');
@@ -474,17 +878,18 @@ export async function queryVectors(
   queryEmbedding: number[],
   topK: number = 5,
   apiKey?: string,
-  organizationId?: string | null
+  organizationId?: string | null,
+  filter?: MetadataFilter
 ): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
   if (provider === 'memory') {
-    return inMemoryStore.query(indexName || 'default', queryEmbedding, topK);
+    return inMemoryStore.query(indexName || 'default', queryEmbedding, topK, filter);
   } else if (provider === 'database') {
-    return databaseStore.query(organizationId || null, indexName || 'default', queryEmbedding, topK);
+    return databaseStore.query(organizationId || null, indexName || 'default', queryEmbedding, topK, filter);
   } else if (provider === 'pinecone') {
     if (!apiKey) {
       throw new Error('Pinecone API key is required');
     }
-    return pineconeStore.query(indexName || 'default', queryEmbedding, topK, apiKey);
+    return pineconeStore.query(indexName || 'default', queryEmbedding, topK, apiKey, undefined, filter);
   } else if (provider === 'weaviate') {
     throw new Error('Weaviate support requires weaviate-ts-client package');
   } else if (provider === 'chroma') {
@@ -494,6 +899,46 @@ export async function queryVectors(
   }
 }
 
+// Keyword (full-text) search; supported by the memory and database providers
+export async function searchKeywords(
+  provider: string,
+  indexName: string,
+  query: string,
+  topK: number = 5,
+  organizationId?: string | null,
+  filter?: MetadataFilter
+): Promise<Array<{ id: string; text: string; score: number; metadata?: Record<string, unknown> }>> {
+  if (provider === 'memory') {
+    return inMemoryStore.keywordQuery(indexName || 'default', query, topK, filter);
+  } else if (provider === 'database') {
+    return databaseStore.keywordQuery(organizationId || null, indexName || 'default', query, topK, filter);
+  } else {
+    throw new Error(`Keyword search is not supported by vector store provider: ${provider} (use memory or database)`);
+  }
+}
+
+// List documents by id prefix; the ids and metadata only, without embeddings
+export async function listVectors(
+  provider: string,
+  indexName: string,
+  idPrefix: string,
+  apiKey?: string,
+  organizationId?: string | null
+): Promise<Array<{ id: string; metadata?: Record<string, unknown> }>> {
+  if (provider === 'memory') {
+    return inMemoryStore.listByIdPrefix(indexName || 'default', idPrefix);
+  } else if (provider === 'database') {
+    return databaseStore.listByIdPrefix(organizationId || null, indexName || 'default', idPrefix);
+  } else if (provider === 'pinecone') {
+    if (!apiKey) {
+      throw new Error('Pinecone API key is required');
+    }
+    return pineconeStore.listByIdPrefix(indexName || 'default', idPrefix, apiKey);
+  } else {
+    throw new Error(`Listing documents is not supported by vector store provider: ${provider}`);
+  }
+}
+
 export async function deleteVectors(
   provider: string,
   indexName: string,
@@ -0,0 +1,320 @@
+/**
+ * Webhook Auth Service
+ *
+ * Verifies incoming webhook requests against the auth options stored on the
+ * webhook registry row: HMAC signatures (GitHub, Stripe, Slack or generic
+ * SHA-256 styles), shared header tokens, basic auth and IP allowlists.
+ * Replay protection combines a timestamp tolerance window with a nonce kept
+ * in Redis for the length of that window. Requests without a signed
+ * timestamp keep their nonce for days instead, and requests carrying neither
+ * are rejected.
+ */
+
+import * as crypto from 'crypto';
+import { redis } from '../config/redis';
+
+export type WebhookSignatureStyle = 'github' | 'stripe' | 'slack' | 'generic';
+
+/**
+ * Auth options for a webhook (stored in webhook_registry.auth)
+ */
+export interface WebhookAuthConfig {
+  type?: 'none' | 'hmac' | 'header' | 'basic';
+  hmac?: {
+    style: WebhookSignatureStyle;
+    secret: string;
+    header?: string; // Generic style only (default: X-Signature)
+    timestampHeader?: string; // Generic style only, signs `${timestamp}.${body}` when set
+  };
+  header?: {
+    name: string;
+    value: string;
+  };
+  basic?: {
+    username: string;
+    password: string;
+  };
+  ipAllowlist?: string[]; // Exact IPs or IPv4 CIDR ranges
+  replayProtection?: {
+    enabled: boolean;
+    toleranceSeconds?: number; // Default: 300
+    nonceHeader?: string; // Header carrying a unique request ID (falls back to the signature)
+  };
+}
+
+/**
+ * Request data needed for verification
+ */
+export interface WebhookRequestData {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+  ip?: string;
+}
+
+export type WebhookRejectionReason =
+  | 'ip_not_allowed'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'invalid_token'
+  | 'invalid_credentials'
+  | 'timestamp_out_of_range'
+  | 'missing_nonce'
+  | 'replayed_request';
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  reason?: WebhookRejectionReason;
+  message?: string;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+// How far ahead of this server's clock a signed timestamp may be
+const MAX_CLOCK_SKEW_SECONDS = 30;
+// Without a signed timestamp an old request stays valid, so its nonce is kept much longer
+const UNTIMED_NONCE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function getHeader(headers: WebhookRequestData['headers'], name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function hmacHex(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload, 'utf8').digest('hex');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!Number.isInteger(octet) || octet < 0 || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+/**
+ * Check an IP against an allowlist of exact IPs and IPv4 CIDR ranges
+ */
+export function isIpAllowed(ip: string | undefined, allowlist: string[]): boolean {
+  if (!ip) return false;
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const normalizedIp = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+
+  return allowlist.some((entry) => {
+    const [range, bits] = entry.trim().split('/');
+    if (bits === undefined) {
+      return range === normalizedIp;
+    }
+
+    const ipValue = ipv4ToNumber(normalizedIp);
+    const rangeValue = ipv4ToNumber(range);
+    const prefix = Number(bits);
+    if (ipValue === null || rangeValue === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+      return false;
+    }
+
+    const blockSize = Math.pow(2, 32 - prefix);
+    return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+  });
+}
+
+interface SignatureCheck extends WebhookVerificationResult {
+  timestamp?: number; // Unix seconds, when the style signs a timestamp
+  signature?: string;
+}
+
+/**
+ * Verify an HMAC signature in the given provider style
+ */
+export function verifySignature(
+  request: WebhookRequestData,
+  hmac: NonNullable<WebhookAuthConfig['hmac']>
+): SignatureCheck {
+  const { headers, rawBody } = request;
+
+  switch (hmac.style) {
+    case 'github': {
+      const signature = getHeader(headers, 'x-hub-signature-256');
+      if (!signature) return { valid: false, reason: 'missing_signature' };
+      const expected = `sha256=${hmacHex(hmac.secret, rawBody)}`;
+      return safeEqual(signature, expected)
+        ? { valid: true, signature }
+        : { valid: false, reason: 'invalid_signature' };
+    }
+
+    case 'stripe': {
+      const header = getHeader(headers, 'stripe-signature');
+      if (!header) return { valid: false, reason: 'missing_signature' };
+      const parts = header.split(',').map((part) => part.split('='));
+      const timestamp = parts.find(([key]) => key === 't')?.[1];
+      const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) return { valid: false, reason: 'missing_signature' };
+      const expected = hmacHex(hmac.secret, `${timestamp}.${rawBody}`);
+      const matched = signatures.find((signature) => safeEqual(signature, expected));
+      return matched
+        ? { valid: true, timestamp: Number(timestamp), signature: matched }
+        : { valid: false, reason: 'invalid_signature' };
+    }
+
+    case 'slack': {
+      const signature = getHeader(headers, 'x-slack-signature');
+      const timestamp = getHeader(headers, 'x-slack-request-timestamp');
+      if (!signature || !timestamp) return { valid: false, reason: 'missing_signature' };
+      const expected = `v0=${hmacHex(hmac.secret, `v0:${timestamp}:${rawBody}`)}`;
+      return safeEqual(signature, expected)
+        ? { valid: true, timestamp: Number(timestamp), signature }
+        : { valid: false, reason: 'invalid_signature' };
+    }
+
+    case 'generic':
+    default: {
+      const rawSignature = getHeader(headers, hmac.header || 'x-signature');
+      if (!rawSignature) return { valid: false, reason: 'missing_signature' };
+      const signature = rawSignature.replace(/^sha256=/, '');
+      const timestamp = hmac.timestampHeader ? getHeader(headers, hmac.timestampHeader) : undefined;
+      if (hmac.timestampHeader && !timestamp) return { valid: false, reason: 'missing_signature' };
+      const payload = timestamp ? `${timestamp}.${rawBody}` : rawBody;
+      return safeEqual(signature, hmacHex(hmac.secret, payload))
+        ? { valid: true, timestamp: timestamp ? Number(timestamp) : undefined, signature }
+        : { valid: false, reason: 'invalid_signature' };
+    }
+  }
+}
+
+export class WebhookAuthService {
+  /**
+   * Verify a request against a webhook's auth config
+   *
+   * @param webhookId Registry row ID, used to scope replay nonces
+   */
+  async verify(
+    webhookId: string,
+    request: WebhookRequestData,
+    auth: WebhookAuthConfig | null | undefined
+  ): Promise<WebhookVerificationResult> {
+    if (!auth) {
+      return { valid: true };
+    }
+
+    if (auth.ipAllowlist && auth.ipAllowlist.length > 0 && !isIpAllowed(request.ip, auth.ipAllowlist)) {
+      return { valid: false, reason: 'ip_not_allowed', message: `IP ${request.ip} is not allowed` };
+    }
+
+    let signatureCheck: SignatureCheck | null = null;
+
+    switch (auth.type) {
+      case 'hmac': {
+        if (!auth.hmac?.secret) {
+          return { valid: false, reason: 'invalid_signature', message: 'Webhook signing secret is not configured' };
+        }
+        signatureCheck = verifySignature(request, auth.hmac);
+        if (!signatureCheck.valid) {
+          return signatureCheck;
+        }
+        break;
+      }
+
+      case 'header': {
+        const value = auth.header ? getHeader(request.headers, auth.header.name) : undefined;
+        if (!auth.header?.value || !value || !safeEqual(value, auth.header.value)) {
+          return { valid: false, reason: 'invalid_token' };
+        }
+        break;
+      }
+
+      case 'basic': {
+        const header = getHeader(request.headers, 'authorization') || '';
+        const [scheme, encoded] = header.split(' ');
+        const decoded = scheme?.toLowerCase() === 'basic' && encoded
+          ? Buffer.from(encoded, 'base64').toString('utf8')
+          : '';
+        const expected = auth.basic?.password ? `${auth.basic.username}:${auth.basic.password}` : null;
+        if (!expected || !safeEqual(decoded, expected)) {
+          return { valid: false, reason: 'invalid_credentials' };
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+
+    if (auth.replayProtection?.enabled) {
+      return this.checkReplay(webhookId, request, auth.replayProtection, signatureCheck);
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Reject requests outside the timestamp window (or too far in the future),
+   * without a nonce or whose nonce was already seen
+   */
+  private async checkReplay(
+    webhookId: string,
+    request: WebhookRequestData,
+    replayProtection: NonNullable<WebhookAuthConfig['replayProtection']>,
+    signatureCheck: SignatureCheck | null
+  ): Promise<WebhookVerificationResult> {
+    const toleranceSeconds = replayProtection.toleranceSeconds || DEFAULT_TOLERANCE_SECONDS;
+
+    const nowSeconds = Date.now() / 1000;
+    if (signatureCheck?.timestamp !== undefined) {
+      const ageSeconds = nowSeconds - signatureCheck.timestamp;
+      if (!Number.isFinite(ageSeconds) || ageSeconds > toleranceSeconds || ageSeconds < -MAX_CLOCK_SKEW_SECONDS) {
+        return {
+          valid: false,
+          reason: 'timestamp_out_of_range',
+          message: `Request timestamp is outside the ${toleranceSeconds}s tolerance window`,
+        };
+      }
+    }
+
+    const nonce =
+      (replayProtection.nonceHeader && getHeader(request.headers, replayProtection.nonceHeader)) ||
+      signatureCheck?.signature;
+    if (!nonce) {
+      return {
+        valid: false,
+        reason: 'missing_nonce',
+        message: replayProtection.nonceHeader
+          ? `Replay protection requires the ${replayProtection.nonceHeader} header`
+          : 'Replay protection requires a signed request or a nonce header',
+      };
+    }
+
+    // A timed nonce is kept until its timestamp leaves the tolerance window
+    const ttlSeconds = signatureCheck?.timestamp !== undefined
+      ? Math.max(1, Math.ceil(signatureCheck.timestamp + toleranceSeconds - nowSeconds))
+      : Math.max(toleranceSeconds, UNTIMED_NONCE_TTL_SECONDS);
+
+    try {
+      const key = `webhook:nonce:${webhookId}:${crypto.createHash('sha256').update(nonce).digest('hex')}`;
+      const stored = await redis.set(key, '1', 'EX', ttlSeconds, 'NX');
+      if (stored === null) {
+        return { valid: false, reason: 'replayed_request', message: 'Request was already received' };
+      }
+    } catch (error) {
+      // Fail open on Redis errors so webhooks keep working; signatures still apply
+      console.warn('[WebhookAuth] Replay check skipped, Redis unavailable:', error);
+    }
+
+    return { valid: true };
+  }
+}
+
+export const webhookAuthService = new WebhookAuthService();
@@ -3,11 +3,106 @@ import { webhookRegistry, workflows, workspaces, organizations } from '../../dri
 import { eq, and } from 'drizzle-orm';
 import { WorkflowDefinition } from '@sos/shared';
 import { emailTriggerService } from './emailTriggerService';
+import { WebhookAuthConfig } from './webhookAuthService';
+import { encrypt, decrypt } from '../utils/encryption';
+
+export type WebhookResponseMode = 'on_completion' | 'response_node' | 'last_node' | 'async';
+
+const WEBHOOK_RESPONSE_MODES: WebhookResponseMode[] = ['on_completion', 'response_node', 'last_node', 'async'];
+
+/**
+ * Stands in for a webhook secret in workflow definitions; the secret itself
+ * is stored encrypted on the webhook registry row. Saving the mask back keeps
+ * the stored secret.
+ */
+export const MASKED_WEBHOOK_SECRET = '********';
+
+// Secret fields of a webhook auth config, as [section, field]
+const WEBHOOK_SECRET_FIELDS = [
+  ['hmac', 'secret'],
+  ['header', 'value'],
+  ['basic', 'password'],
+] as const;
+
+// Registry auth with encrypted secrets (rows written before carry plaintext)
+type StoredWebhookAuth = WebhookAuthConfig & { secretsEncrypted?: boolean };
+
+function mapWebhookSecrets(
+  auth: WebhookAuthConfig,
+  map: (value: string | undefined, section: 'hmac' | 'header' | 'basic', field: string) => string | undefined
+): WebhookAuthConfig {
+  const result: any = { ...auth };
+  for (const [section, field] of WEBHOOK_SECRET_FIELDS) {
+    if (result[section]) {
+      result[section] = { ...result[section], [field]: map(result[section][field], section, field) };
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace webhook secrets in a definition with MASKED_WEBHOOK_SECRET, for
+ * storing the definition and returning it to clients
+ */
+export function maskWebhookSecrets<T extends WorkflowDefinition | null | undefined>(definition: T): T {
+  if (!definition?.nodes) {
+    return definition;
+  }
+
+  return {
+    ...definition,
+    nodes: definition.nodes.map((node) => {
+      const config = node.data?.config as any;
+      if ((node.data?.type as string) !== 'trigger.webhook' || !config?.auth) {
+        return node;
+      }
+      const auth = mapWebhookSecrets(config.auth, (value) => (value ? MASKED_WEBHOOK_SECRET : value));
+      return { ...node, data: { ...node.data, config: { ...config, auth } } };
+    }),
+  };
+}
+
+/**
+ * Auth config of a registry row with its secrets decrypted
+ */
+export function decryptWebhookAuth(auth: StoredWebhookAuth | null | undefined): WebhookAuthConfig | null {
+  if (!auth) {
+    return null;
+  }
+  const { secretsEncrypted, ...config } = auth;
+  return secretsEncrypted ? mapWebhookSecrets(config, (value) => (value ? decrypt(value) : value)) : config;
+}
+
+/**
+ * Encrypt the secrets of a trigger node's auth config; masked secrets keep
+ * the value stored on the node's previous registry row
+ */
+function protectWebhookAuth(auth: WebhookAuthConfig | undefined, previous: StoredWebhookAuth | undefined): StoredWebhookAuth | null {
+  if (!auth) {
+    return null;
+  }
+
+  const encrypted = mapWebhookSecrets(auth, (value, section, field) => {
+    if (value === MASKED_WEBHOOK_SECRET) {
+      const stored = (previous?.[section] as Record<string, string> | undefined)?.[field];
+      return stored && !previous?.secretsEncrypted ? encrypt(stored) : stored;
+    }
+    return value ? encrypt(value) : undefined;
+  });
+  return { ...encrypted, secretsEncrypted: true };
+}
 
 /**
  * Update webhook registry when a workflow is saved
  */
 export async function updateWebhookRegistry(workflowId: string, definition: WorkflowDefinition) {
+  // Secrets saved as masks are taken over from the rows being replaced
+  const previousRows = await db
+    .select({ nodeId: webhookRegistry.nodeId, auth: webhookRegistry.auth })
+    .from(webhookRegistry)
+    .where(eq(webhookRegistry.workflowId, workflowId));
+  const previousAuth = new Map(previousRows.map((row) => [row.nodeId, row.auth as StoredWebhookAuth | null]));
+
   // Remove existing webhooks for this workflow
   await db.delete(webhookRegistry).where(eq(webhookRegistry.workflowId, workflowId));
 
@@ -21,6 +116,9 @@ export async function updateWebhookRegistry(workflowId: string, definition: Work
     const config = node.data?.config as any;
     const path = config?.path as string;
     const method = (config?.method as string) || 'POST';
+    const responseMode = WEBHOOK_RESPONSE_MODES.includes(config?.responseMode)
+      ? (config.responseMode as WebhookResponseMode)
+      : 'on_completion';
 
     if (path) {
       await db.insert(webhookRegistry).values({
@@ -28,6 +126,8 @@ export async function updateWebhookRegistry(workflowId: string, definition: Work
         path: path.startsWith('/') ? path : `/${path}`,
         method: method.toUpperCase(),
         nodeId: node.id,
+        responseMode,
+        auth: protectWebhookAuth(config?.auth as WebhookAuthConfig | undefined, previousAuth.get(node.id) || undefined),
         active: true,
       });
     }
@@ -1,15 +1,27 @@
+import { EventEmitter } from 'events';
 import { Server as SocketIOServer } from 'socket.io';
 
 export interface ExecutionEvent {
-  type: 'node_start' | 'node_complete' | 'node_error' | 'execution_start' | 'execution_complete' | 'execution_paused' | 'execution_resumed';
+  type: 'node_start' | 'node_complete' | 'node_error' | 'node_chunk' | 'execution_start' | 'execution_complete' | 'execution_paused' | 'execution_resumed' | 'execution_cancelled';
   executionId: string;
   nodeId?: string;
   data?: Record<string, unknown>;
   timestamp: Date;
 }
 
+/**
+ * Streams a node's output token by token. A retried call starts over, so
+ * clients are told to drop what they received so far.
+ */
+export interface NodeChunkStream {
+  write(chunk: string): void;
+  restart(): void;
+}
+
 class WebSocketService {
   private io: SocketIOServer | null = null;
+  // In-process listeners, e.g. webhook callers receiving Server-Sent Events
+  private listeners = new EventEmitter().setMaxListeners(0);
 
   /**
    * Initialize the WebSocket service with the Socket.IO instance
@@ -22,17 +34,18 @@ class WebSocketService {
    * Emit execution event to all clients subscribed to this execution
    */
   emitExecutionEvent(executionId: string, event: Omit<ExecutionEvent, 'executionId' | 'timestamp'>) {
-    if (!this.io) {
-      console.warn('WebSocket service not initialized, skipping event emission');
-      return;
-    }
-
     const fullEvent: ExecutionEvent = {
       ...event,
       executionId,
       timestamp: new Date(),
     };
 
+    this.listeners.emit(executionId, fullEvent);
+
+    if (!this.io) {
+      return;
+    }
+
     // Emit to room for this execution
     this.io.to(`execution:${executionId}`).emit('execution:event', fullEvent);
     
@@ -74,6 +87,48 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Emit a piece of a node's streamed output; reset tells clients to discard
+   * the chunks received before it
+   */
+  emitNodeChunk(executionId: string, nodeId: string, chunk: string, reset = false) {
+    this.emitExecutionEvent(executionId, {
+      type: 'node_chunk',
+      nodeId,
+      data: reset ? { chunk, reset } : { chunk },
+    });
+  }
+
+  /**
+   * Chunk stream for a node's output
+   */
+  createNodeChunkStream(executionId: string, nodeId: string): NodeChunkStream {
+    let written = false;
+    return {
+      write: (chunk) => {
+        written = true;
+        this.emitNodeChunk(executionId, nodeId, chunk);
+      },
+      restart: () => {
+        if (written) {
+          written = false;
+          this.emitNodeChunk(executionId, nodeId, '', true);
+        }
+      },
+    };
+  }
+
+  /**
+   * Listen to the events of an execution running in this process.
+   * Returns a function that removes the listener.
+   */
+  subscribe(executionId: string, listener: (event: ExecutionEvent) => void): () => void {
+    this.listeners.on(executionId, listener);
+    return () => {
+      this.listeners.off(executionId, listener);
+    };
+  }
+
   /**
    * Emit execution start event
    */
@@ -113,6 +168,15 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Emit execution cancelled event
+   */
+  emitExecutionCancelled(executionId: string) {
+    this.emitExecutionEvent(executionId, {
+      type: 'execution_cancelled',
+    });
+  }
+
   /**
    * Emit human prompt event
    */
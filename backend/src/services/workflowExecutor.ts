@@ -1,19 +1,167 @@
-import { WorkflowDefinition, WorkflowNode, WorkflowEdge, NodeExecutionContext } from '@sos/shared';
-import { Queue, Worker } from 'bullmq';
+import {
+  WorkflowDefinition,
+  WorkflowNode,
+  WorkflowEdge,
+  WorkflowSettings,
+  NodeExecutionContext,
+  ConcurrencyPolicy,
+  ExecutionPriority,
+} from '@sos/shared';
+import { Queue, Worker, Job, DelayedError } from 'bullmq';
 import redis from '../config/redis';
+import type Redis from 'ioredis';
 import { executeNode } from './nodeExecutors';
 import { db } from '../config/database';
-import { workflowExecutions, executionLogs, executionSteps, workflows } from '../../drizzle/schema';
-import { eq, desc } from 'drizzle-orm';
+import { workflowExecutions, executionLogs, executionSteps, workflows, workspaces } from '../../drizzle/schema';
+import { eq, ne, and, isNull, inArray, sql } from 'drizzle-orm';
 import { alertService } from './alertService';
 import { websocketService } from './websocketService';
 import { posthogService } from './posthogService';
+import { expressionService } from './expressionService';
+import { ParentExecutionLink, SubWorkflowWaitState, getSubWorkflowOutput } from './nodeExecutors/executeWorkflow';
+import { WaitState } from './nodeExecutors/wait';
+import { HumanPromptState } from './nodeExecutors/humanPrompt';
+import { errorWorkflowService } from './errorWorkflowService';
+import { policyEngineService } from './policyEngineService';
+import { concurrencyService, ConcurrencyScope } from './concurrencyService';
+import { insertExecutionStep } from './executionStepService';
+import { safeEqual } from './webhookAuthService';
+import {
+  planWorkflow,
+  runExecutionPlan,
+  scopeWithoutLoopBodies,
+  reachableFrom,
+  getNodeType,
+  WorkflowGraphError,
+  ExecutionPlan,
+  LoopBody,
+  NodeCompletion,
+} from './workflowGraph';
 import { createId } from '@paralleldrive/cuid2';
 import { trace, context, SpanStatusCode } from '@opentelemetry/api';
 
+// Nodes run in parallel per execution unless the workflow sets maxConcurrency
+const DEFAULT_NODE_CONCURRENCY = 5;
+
+// A running execution holds a Redis lease; executions whose lease expired
+// (worker restarted or crashed) are picked up by recoverExecutions()
+const LEASE_TTL_SECONDS = 30;
+const LEASE_REFRESH_MS = 10000;
+
+// A lease holds the token of the run attempt that owns it. Refreshing and
+// releasing check the token, so an attempt that is still unwinding cannot
+// extend or free the lease of a resumed attempt (or of a recovery claim).
+const REFRESH_LEASE_SCRIPT = "local current = redis.call('get', KEYS[1]) if current == ARGV[1] or not current then return redis.call('set', KEYS[1], ARGV[1], 'EX', ARGV[2]) else return false end";
+const RELEASE_LEASE_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+// Cancellations are broadcast so the instance running the execution aborts it
+const CANCEL_CHANNEL = 'execution:cancel';
+
+// BullMQ priorities of the execution priority classes (lower is picked first)
+const PRIORITY_LEVELS: Record<ExecutionPriority, number> = {
+  manual: 1,
+  webhook: 2,
+  normal: 5,
+  scheduled: 10,
+};
+
+// Queued runs over a concurrency limit are retried after this delay
+const CONCURRENCY_RETRY_MS = 1000;
+
+// Direct callers (manual runs, sync webhooks) over a concurrency limit wait
+// this long for a slot before their run is handed to the queue
+const DIRECT_CONCURRENCY_WAIT_MS = 30000;
+
+// Number of recent queue wait times kept for the queue metrics
+const QUEUE_WAIT_SAMPLES = 500;
+
+/**
+ * State of an execution running in this process
+ */
+interface ActiveRun {
+  abortController: AbortController;
+  errorHandling?: WorkflowSettings['errorHandling'];
+}
+
+/**
+ * Queue job a run was started from, used to delay it when it is over a
+ * concurrency limit
+ */
+interface QueuedRun {
+  job: Job;
+  token?: string;
+}
+
+interface NodeRunResult {
+  nodeId: string;
+  stepId: string;
+  success: boolean;
+  output: unknown;
+  error?: any;
+}
+
+/**
+ * Checkpoint stored on a completed execution step
+ */
+interface StepCheckpoint {
+  activeEdgeIds: string[];
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Thrown when a node pauses the execution (breakpoint, step mode, human prompt).
+ * The run stops and its worker is released; resuming re-enqueues it and the
+ * checkpointed steps are skipped.
+ */
+export class ExecutionPausedError extends Error {
+  constructor(public nodeId: string, public reason: string) {
+    super(`Execution paused at node ${nodeId} (${reason})`);
+    this.name = 'ExecutionPausedError';
+  }
+}
+
+/**
+ * Thrown when a node fails and nothing handles it (no error handle wired,
+ * not set to continue on error); the execution fails
+ */
+export class NodeFailedError extends Error {
+  constructor(
+    public nodeId: string,
+    public nodeType: string,
+    public nodeError: any,
+    public input: Record<string, unknown>
+  ) {
+    super(`Node ${nodeId} failed: ${nodeError?.message || 'Unknown error'}`);
+    this.name = 'NodeFailedError';
+  }
+}
+
+/**
+ * Abort reason of a cancelled execution
+ */
+export class ExecutionCancelledError extends Error {
+  constructor(public executionId: string) {
+    super(`Execution ${executionId} was cancelled`);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+/**
+ * Abort reason of an execution that ran longer than its workflow timeout
+ */
+export class ExecutionTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Execution exceeded the workflow timeout of ${timeoutMs}ms`);
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
 export class WorkflowExecutor {
   private queue: Queue;
   private worker: Worker;
+  private cancelSubscriber: Redis;
+  private activeRuns = new Map<string, ActiveRun>();
+  private queueWaits: Array<{ organizationId?: string; waitMs: number }> = [];
 
   constructor() {
     this.queue = new Queue('workflow-execution', {
@@ -22,14 +170,33 @@ export class WorkflowExecutor {
 
     this.worker = new Worker(
       'workflow-execution',
-      async (job) => {
-        return this.executeWorkflow(job.data);
+      async (job, token) => {
+        if (job.name === 'resume') {
+          return this.resumeWorkflow(job.data.executionId, { job, token });
+        }
+        if (job.name === 'wait-elapsed') {
+          return this.endWait(job.data.executionId, job.data.waitId);
+        }
+        if (job.name === 'prompt-expired') {
+          return this.expirePrompt(job.data.executionId, job.data.promptId);
+        }
+        return this.executeWorkflow(job.data, { job, token });
       },
       {
         connection: redis,
         concurrency: 10,
       }
     );
+
+    this.cancelSubscriber = redis.duplicate();
+    this.cancelSubscriber.subscribe(CANCEL_CHANNEL).catch((error) => {
+      console.warn('[WorkflowExecutor] Could not subscribe to cancellations:', error);
+    });
+    this.cancelSubscriber.on('message', (channel, executionId) => {
+      if (channel === CANCEL_CHANNEL) {
+        this.activeRuns.get(executionId)?.abortController.abort(new ExecutionCancelledError(executionId));
+      }
+    });
   }
 
   async executeWorkflow(data: {
@@ -41,45 +208,136 @@ export class WorkflowExecutor {
     userId?: string;
     organizationId?: string;
     workspaceId?: string;
-  }): Promise<unknown> {
+    parentExecution?: ParentExecutionLink;
+    resume?: boolean; // Continue an existing execution from its checkpoints
+    errorWorkflowFor?: string; // Failed execution this error workflow run handles
+    priority?: ExecutionPriority;
+    privateLlmOnly?: boolean; // Inherited from a parent run restricted to private models
+  }, queuedRun?: QueuedRun): Promise<unknown> {
     const { definition, input = {}, executionId: providedExecutionId } = data;
 
-    // Get workspaceId from workflow if not provided
+    // Get workspaceId (if not provided) and workflow variables from the workflow
     let workspaceId = data.workspaceId;
-    if (!workspaceId) {
-      try {
-        const [workflow] = await db
-          .select({ workspaceId: workflows.workspaceId })
-          .from(workflows)
-          .where(eq(workflows.id, data.workflowId))
+    let variables: Record<string, unknown> | undefined;
+    let maxConcurrency: number | undefined;
+    let timeout: number | undefined;
+    let errorHandling: WorkflowSettings['errorHandling'];
+    let concurrency: WorkflowSettings['concurrency'];
+    let privateLlmOnly = !!data.privateLlmOnly;
+    let workspaceLimit: number | undefined;
+    let workspaceOrganizationId: string | undefined;
+    try {
+      const [workflow] = await db
+        .select({ workspaceId: workflows.workspaceId, settings: workflows.settings })
+        .from(workflows)
+        .where(eq(workflows.id, data.workflowId))
+        .limit(1);
+      workspaceId = workspaceId || workflow?.workspaceId;
+      variables = (workflow?.settings as WorkflowSettings | null)?.variables;
+      maxConcurrency = (workflow?.settings as WorkflowSettings | null)?.maxConcurrency;
+      timeout = (workflow?.settings as WorkflowSettings | null)?.timeout;
+      errorHandling = (workflow?.settings as WorkflowSettings | null)?.errorHandling;
+      concurrency = (workflow?.settings as WorkflowSettings | null)?.concurrency;
+      privateLlmOnly = privateLlmOnly || !!(workflow?.settings as WorkflowSettings | null)?.privateLlmOnly;
+
+      if (workspaceId) {
+        const [workspace] = await db
+          .select({ settings: workspaces.settings, organizationId: workspaces.organizationId })
+          .from(workspaces)
+          .where(eq(workspaces.id, workspaceId))
           .limit(1);
-        workspaceId = workflow?.workspaceId;
-      } catch (err) {
-        console.warn('[WorkflowExecutor] Could not fetch workspaceId:', err);
+        workspaceLimit = (workspace?.settings as any)?.maxConcurrentExecutions;
+        workspaceOrganizationId = workspace?.organizationId || undefined;
       }
+    } catch (err) {
+      console.warn('[WorkflowExecutor] Could not fetch workflow settings:', err);
     }
 
-    // Create execution record
-    const [execution] = await db
-      .insert(workflowExecutions)
-      .values({
+    const executionMetadata = {
+      ...(data.stepMode ? {
+        debugState: {
+          stepMode: true,
+        },
+      } : {}),
+      ...(data.userId ? { userId: data.userId } : {}),
+      // Triggered runs have no caller organization; nodes resolving
+      // organization LLM providers need the workflow's
+      ...(data.organizationId || workspaceOrganizationId ? { organizationId: data.organizationId || workspaceOrganizationId } : {}),
+      ...(workspaceId ? { workspaceId } : {}),
+      ...(privateLlmOnly ? { privateLlmOnly } : {}),
+      ...(variables ? { variables } : {}),
+      ...(data.parentExecution ? { parentExecution: data.parentExecution } : {}),
+      ...(data.errorWorkflowFor ? { errorWorkflowFor: data.errorWorkflowFor } : {}),
+      ...(data.priority ? { priority: data.priority } : {}),
+    };
+
+    // Runs cancelled while queued or waiting to resume never start
+    if (providedExecutionId) {
+      const [current] = await db
+        .select({ status: workflowExecutions.status })
+        .from(workflowExecutions)
+        .where(eq(workflowExecutions.id, providedExecutionId))
+        .limit(1);
+      if (current?.status === 'cancelled') {
+        return { executionId: providedExecutionId, status: 'cancelled', error: 'Execution was cancelled before it started' };
+      }
+    }
+
+    // Take the run's concurrency slots. Sub-workflows run inline by their
+    // parent use the parent's slots: waiting for a slot would deadlock.
+    const executionId = providedExecutionId || createId();
+    const slots: ConcurrencyScope[] = [];
+    if (!data.parentExecution || queuedRun) {
+      if (concurrency?.limit) {
+        slots.push(concurrencyService.workflowScope(data.workflowId, concurrency.limit));
+      }
+      if (workspaceId && workspaceLimit) {
+        slots.push(concurrencyService.workspaceScope(workspaceId, workspaceLimit));
+      }
+    }
+    const notAdmitted = await this.admitExecution(executionId, data, executionMetadata, slots, concurrency?.policy, queuedRun);
+    if (notAdmitted) {
+      return notAdmitted;
+    }
+    if (queuedRun) {
+      this.recordQueueWait(data.organizationId || workspaceOrganizationId, Date.now() - queuedRun.job.timestamp);
+    }
+
+    // Reuse a pre-created execution record (e.g. replays, runs that waited
+    // for a slot) or create one
+    const [existingExecution] = await db
+      .select()
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.id, executionId))
+      .limit(1);
+
+    if (existingExecution) {
+      // Conditional so a cancel issued since the checks above is not undone
+      const started = await db
+        .update(workflowExecutions)
+        .set({
+          status: 'running',
+          metadata: {
+            ...((existingExecution.metadata as any) || {}),
+            ...executionMetadata,
+          },
+        })
+        .where(and(eq(workflowExecutions.id, existingExecution.id), ne(workflowExecutions.status, 'cancelled')))
+        .returning({ id: workflowExecutions.id });
+
+      if (started.length === 0) {
+        await concurrencyService.release(executionId, slots);
+        return { executionId, status: 'cancelled', error: 'Execution was cancelled before it started' };
+      }
+    } else {
+      await db.insert(workflowExecutions).values({
+        id: executionId,
         workflowId: data.workflowId,
         status: 'running',
         input: input as any,
-        metadata: {
-          ...(data.stepMode ? {
-            debugState: {
-              stepMode: true,
-            },
-          } : {}),
-          ...(data.userId ? { userId: data.userId } : {}),
-          ...(data.organizationId ? { organizationId: data.organizationId } : {}),
-          ...(workspaceId ? { workspaceId } : {}),
-        },
-      })
-      .returning();
-
-    const executionId = providedExecutionId || execution.id;
+        metadata: executionMetadata,
+      });
+    }
 
     // Create OpenTelemetry trace for workflow execution
     const tracer = trace.getTracer('sos-workflow-executor');
@@ -101,61 +359,68 @@ export class WorkflowExecutor {
 
     const startTime = Date.now();
     let traceId: string | undefined;
+    const releaseLease = this.holdLease(executionId, slots);
+
+    // Cancellation and the timeout watchdog abort in-flight nodes through this
+    // controller. Each run attempt gets the full timeout, so time spent
+    // paused does not count.
+    const abortController = new AbortController();
+    this.activeRuns.set(executionId, { abortController, errorHandling });
+    const watchdog = timeout
+      ? setTimeout(() => {
+          this.expireExecution(executionId, timeout!).catch((error) => {
+            console.error('[WorkflowExecutor] Could not expire execution:', error);
+          });
+        }, timeout)
+      : undefined;
 
     try {
       // Get trace ID from current span context
       const spanContext = span.spanContext();
       traceId = spanContext.traceId;
-      // Build execution graph
-      const nodes = new Map<string, WorkflowNode>();
-      const edges = new Map<string, WorkflowEdge[]>();
-
-      definition.nodes.forEach((node) => {
-        nodes.set(node.id, node);
-        edges.set(node.id, []);
-      });
-
-      definition.edges.forEach((edge) => {
-        const sourceEdges = edges.get(edge.source) || [];
-        sourceEdges.push(edge);
-        edges.set(edge.source, sourceEdges);
-      });
+      // Plan the execution graph; invalid graphs fail before any node runs
+      const plan = planWorkflow(definition);
+      const graphErrors = plan.issues.filter((issue) => issue.severity === 'error');
+      if (graphErrors.length > 0) {
+        throw new WorkflowGraphError(graphErrors);
+      }
 
-      // Find start nodes (nodes with no incoming edges or trigger nodes)
-      const startNodes = definition.nodes.filter(
-        (node) =>
-          !definition.edges.some((edge) => edge.target === node.id) ||
-          (node.data?.type as string)?.startsWith('trigger.')
-      );
+      for (const issue of data.resume ? [] : plan.issues) {
+        await db.insert(executionLogs).values({
+          executionId,
+          nodeId: 'workflow',
+          level: 'warn',
+          message: issue.message,
+          data: { code: issue.code, nodeIds: issue.nodeIds },
+        });
+      }
 
-      // Execute workflow
+      // Execute workflow, seeding results from checkpoints when resuming
       const results: Record<string, unknown> = {};
-
-      // Handle empty workflow
-      if (startNodes.length === 0 && definition.nodes.length > 0) {
-        // All nodes have incoming edges - find nodes with no incoming edges (shouldn't happen, but handle it)
-        const nodesWithNoIncoming = definition.nodes.filter(
-          (node) => !definition.edges.some((edge) => edge.target === node.id)
-        );
-        
-        if (nodesWithNoIncoming.length === 0) {
-          // Circular dependency or all nodes connected - execute first node
-          if (definition.nodes.length > 0) {
-            startNodes.push(definition.nodes[0]);
-          }
-        } else {
-          startNodes.push(...nodesWithNoIncoming);
+      const checkpoints = data.resume
+        ? await this.loadCheckpoints(executionId, plan, results)
+        : new Map<string, NodeCompletion>();
+
+      const concurrency = maxConcurrency || DEFAULT_NODE_CONCURRENCY;
+      await runExecutionPlan(plan, {
+        scope: plan.mainScope,
+        startNodeIds: plan.startNodeIds,
+        input,
+        concurrency,
+        checkpoints,
+        runNode: (node, nodeInput) =>
+          this.runPlannedNode(node, nodeInput, results, plan, executionId, data.workflowId, concurrency),
+      }).catch(async (error) => {
+        // Unhandled node failures run the workflow's error path before the run fails
+        if (error instanceof NodeFailedError && errorHandling?.errorPath) {
+          await this.runErrorPath(errorHandling.errorPath, error, plan, results, executionId, data.workflowId, concurrency);
         }
-      }
+        throw error;
+      });
 
-      // Execute start nodes in parallel if there are multiple
-      if (startNodes.length > 1) {
-        const startNodeExecutions = startNodes.map((startNode) =>
-          this.executeNode(startNode, input, results, nodes, edges, executionId, data.workflowId)
-        );
-        await Promise.all(startNodeExecutions);
-      } else if (startNodes.length === 1) {
-        await this.executeNode(startNodes[0], input, results, nodes, edges, executionId, data.workflowId);
+      // Nodes that ignore the abort signal can still finish after a cancel
+      if (abortController.signal.aborted) {
+        throw abortController.signal.reason;
       }
 
       // Update execution status
@@ -215,6 +480,28 @@ export class WorkflowExecutor {
         results,
       };
     } catch (error: any) {
+      // Paused runs end here; the status was set by the pausing node
+      if (error instanceof ExecutionPausedError) {
+        return {
+          executionId,
+          status: 'paused',
+          pausedAt: error.nodeId,
+          reason: error.reason,
+        };
+      }
+
+      // Cancelled or timed out: the status was set when the run was aborted
+      if (abortController.signal.aborted || error instanceof ExecutionCancelledError) {
+        const reason = abortController.signal.reason || error;
+        const timedOut = reason instanceof ExecutionTimeoutError;
+        return {
+          executionId,
+          status: timedOut ? 'failed' : 'cancelled',
+          error: reason.message,
+          ...(timedOut ? { code: 'WORKFLOW_TIMEOUT' } : {}),
+        };
+      }
+
       // Update execution status to failed
       await db
         .update(workflowExecutions)
@@ -228,6 +515,18 @@ export class WorkflowExecutor {
       // Emit execution error event
       websocketService.emitNodeError(executionId, 'workflow', error);
 
+      // Hand the failure to the organization's error workflow
+      await errorWorkflowService.trigger({
+        executionId,
+        workflowId: data.workflowId,
+        error: error.message,
+        node: error instanceof NodeFailedError
+          ? { id: error.nodeId, type: error.nodeType, error: error.nodeError, input: error.input }
+          : undefined,
+      }).catch((triggerError) => {
+        console.error('Error triggering error workflow:', triggerError);
+      });
+
       // Track workflow execution failure in PostHog
       if (data.userId && data.organizationId) {
         const toolsUsed = definition.nodes
@@ -273,6 +572,10 @@ export class WorkflowExecutor {
         results: {},
         traceId, // Include trace ID in response
       };
+    } finally {
+      clearTimeout(watchdog);
+      this.activeRuns.delete(executionId);
+      await releaseLease();
     }
   }
 
@@ -280,37 +583,28 @@ export class WorkflowExecutor {
     node: WorkflowNode,
     input: Record<string, unknown>,
     results: Record<string, unknown>,
-    nodes: Map<string, WorkflowNode>,
-    edges: Map<string, WorkflowEdge[]>,
+    plan: ExecutionPlan,
     executionId: string,
     workflowId: string,
     stepMode: boolean = false,
     parentStepId?: string
-  ): Promise<unknown> {
-    const nodeType = (node.data?.type as string) || node.type;
+  ): Promise<NodeRunResult> {
+    const nodeType = getNodeType(node);
     console.log(`Executing node ${node.id} of type ${nodeType}`);
 
-    // Get next step number
-    const existingSteps = await db
-      .select()
-      .from(executionSteps)
-      .where(eq(executionSteps.executionId, executionId))
-      .orderBy(desc(executionSteps.stepNumber))
-      .limit(1);
-    
-    const stepNumber = existingSteps.length > 0 ? (existingSteps[0].stepNumber || 0) + 1 : 1;
+    const signal = this.activeRuns.get(executionId)?.abortController.signal;
+    signal?.throwIfAborted();
 
-    // Create execution step record
+    // Create execution step record with the next step number
     const stepId = createId();
     const stepStartTime = Date.now();
     
-    await db.insert(executionSteps).values({
+    await insertExecutionStep({
       id: stepId,
       executionId,
       nodeId: node.id,
-      stepNumber,
       status: 'running',
-      input: { ...input, ...this.collectPreviousOutputs(node, edges, results) },
+      input: { ...input, ...this.collectPreviousOutputs(node, plan, results) },
       startedAt: new Date(),
       parentStepId: parentStepId || null,
     });
@@ -322,22 +616,31 @@ export class WorkflowExecutor {
     const hasBreakpoint = (node.data?.breakpoint as boolean) || false;
     const execution = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, executionId)).limit(1);
     const executionData = execution[0];
+    if (executionData?.status === 'cancelled') {
+      // Cancelled from an instance whose broadcast did not reach this one
+      throw new ExecutionCancelledError(executionId);
+    }
     const metadata = (executionData?.metadata as any) || {};
     const isStepMode = metadata.debugState?.stepMode || stepMode;
-
-    if (hasBreakpoint || isStepMode) {
-      // Pause execution at breakpoint or in step mode
+    // The node an execution was resumed at runs instead of pausing again
+    const isResumedNode = metadata.debugState?.resumeNodeId === node.id;
+
+    if ((hasBreakpoint || isStepMode) && !isResumedNode) {
+      // Pause execution at breakpoint or in step mode; only debugState is
+      // written so keys stored by parallel branches since the read above stay
+      const debugState = {
+        currentNodeId: node.id,
+        results: results,
+        stepMode: isStepMode,
+        pausedAt: new Date(),
+      };
       await db.update(workflowExecutions).set({
         status: 'paused',
-        metadata: {
-          ...((execution[0]?.metadata as any) || {}),
-          debugState: {
-            currentNodeId: node.id,
-            results: results,
-            stepMode: isStepMode,
-            pausedAt: new Date(),
-          },
-        },
+        metadata: sql`jsonb_set(
+          coalesce(${workflowExecutions.metadata}, '{}'::jsonb),
+          '{debugState}',
+          ${JSON.stringify(debugState)}::jsonb
+        )`,
       }).where(eq(workflowExecutions.id, executionId));
 
       // Emit execution paused event
@@ -352,40 +655,68 @@ export class WorkflowExecutor {
         data: { breakpoint: hasBreakpoint, stepMode: isStepMode },
       });
 
-      // Wait for resume signal using Redis pub/sub
-      await this.waitForResume(executionId);
+      await db.update(executionSteps).set({ status: 'paused' }).where(eq(executionSteps.id, stepId));
+      throw new ExecutionPausedError(node.id, hasBreakpoint ? 'breakpoint' : 'step');
     }
 
-    // For merge nodes, check if all inputs are ready before executing
-    if (nodeType === 'logic.merge') {
-      const incomingEdges = Array.from(edges.values())
-        .flat()
-        .filter((edge) => edge.target === node.id);
-      
-      const allInputsReady = incomingEdges.length > 0 && incomingEdges.every((edge) => {
-        const sourceResult = results[edge.source];
-        return sourceResult !== undefined;
-      });
-
-      // If not all inputs are ready, don't execute yet - return early
-      // The merge node will be executed when the last input arrives
-      if (!allInputsReady) {
-        console.log(`Merge node ${node.id} waiting for all inputs (${incomingEdges.filter(e => results[e.source] !== undefined).length}/${incomingEdges.length} ready)`);
-        return {
-          nodeId: node.id,
-          success: true,
-          output: {},
-          waiting: true,
-        };
+    // Input changes submitted with the resume request apply to the resumed node
+    if (isResumedNode) {
+      const modification = [...(metadata.resumeModifications || [])]
+        .reverse()
+        .find((item: { nodeId: string }) => item.nodeId === node.id);
+      if (modification?.input) {
+        input = { ...input, ...modification.input };
       }
     }
 
     // Collect previous outputs for data flow
-    const previousOutputs = this.collectPreviousOutputs(node, edges, results);
+    const previousOutputs = this.collectPreviousOutputs(node, plan, results);
+
+    // Prepare node execution context, resolving {{ $... }} expressions in the config
+    const rawNodeConfig = (node.data?.config as Record<string, unknown>) || {};
+    const { value: nodeConfig, errors: expressionErrors } = expressionService.resolveConfig(rawNodeConfig, {
+      input: { ...input, ...previousOutputs },
+      nodes: results,
+      execution: {
+        id: executionId,
+        workflowId,
+        startedAt: executionData?.startedAt,
+        mode: isStepMode ? 'debug' : 'normal',
+      },
+      variables: metadata.variables || {},
+    });
+
+    for (const expressionError of expressionErrors) {
+      await db.insert(executionLogs).values({
+        executionId,
+        nodeId: node.id,
+        level: 'warn',
+        message: `Expression in field "${expressionError.field}" could not be resolved: ${expressionError.message}`,
+        data: { ...expressionError },
+      });
+    }
+
+    // Enforce the organization's policy sets before the node is dispatched
+    const policyResult = await policyEngineService.evaluateNodePolicies({
+      node: { id: node.id, type: nodeType, config: nodeConfig },
+      input: { ...input, ...previousOutputs },
+      workflowId,
+      executionId,
+      userId: metadata.userId,
+      organizationId: metadata.organizationId,
+      workspaceId: metadata.workspaceId,
+    });
+
+    for (const warning of policyResult.warnings || []) {
+      await db.insert(executionLogs).values({
+        executionId,
+        nodeId: node.id,
+        level: 'warn',
+        message: `Policy warning: ${warning}`,
+        data: { rules: policyResult.matchedRules.map((rule) => ({ id: rule.id, name: rule.name, policySetId: rule.policySetId })) },
+      });
+    }
 
-    // Prepare node execution context
-    const nodeConfig = (node.data?.config as Record<string, unknown>) || {};
-    
     // Get retry configuration (node-level or workflow-level)
     const nodeRetry = (node.data?.retry as any) || (node.data?.workflowSettings?.retry as any);
     const retryConfig = nodeRetry || (node.data?.workflowSettings?.retry as any);
@@ -412,7 +743,30 @@ export class WorkflowExecutor {
 
     const nodeStartTime = Date.now();
 
-    while (attempt < maxAttempts) {
+    // A blocked node fails without running (and without retries)
+    if (policyResult.blocked) {
+      const blockingRule = policyResult.matchedRules[policyResult.matchedRules.length - 1];
+      executionResult = {
+        success: false,
+        error: {
+          message: policyResult.reason || 'Blocked by policy',
+          code: 'POLICY_BLOCKED',
+          details: { rule: blockingRule && { id: blockingRule.id, name: blockingRule.name, policySetId: blockingRule.policySetId } },
+        },
+      };
+      lastError = executionResult.error;
+      attempt = 1;
+
+      await db.insert(executionLogs).values({
+        executionId,
+        nodeId: node.id,
+        level: 'error',
+        message: `Node ${node.id} blocked by policy: ${policyResult.reason || 'no reason given'}`,
+        data: { error: executionResult.error },
+      });
+    }
+
+    while (!policyResult.blocked && attempt < maxAttempts && !signal?.aborted) {
       attempt++;
       
       // Get userId, organizationId, and workspaceId from execution metadata
@@ -423,7 +777,13 @@ export class WorkflowExecutor {
       const organizationId = metadata.organizationId || '';
       const workspaceId = metadata.workspaceId || '';
 
-      const context: NodeExecutionContext & { userId?: string; organizationId?: string; workspaceId?: string } = {
+      const context: NodeExecutionContext & {
+        userId?: string;
+        organizationId?: string;
+        workspaceId?: string;
+        stepId?: string;
+        privateLlmOnly?: boolean;
+      } = {
         nodeId: node.id,
         workflowId,
         executionId,
@@ -436,6 +796,9 @@ export class WorkflowExecutor {
         userId,
         organizationId,
         workspaceId,
+        stepId,
+        signal,
+        privateLlmOnly: !!metadata.privateLlmOnly,
       };
 
       nodeSpan.setAttributes({
@@ -507,6 +870,22 @@ export class WorkflowExecutor {
       }
     }
 
+    // Cancelled or timed out while the node ran; its result is discarded
+    if (signal?.aborted) {
+      nodeSpan.setAttributes({ 'node.status': 'aborted' });
+      nodeSpan.end();
+      throw signal.reason;
+    }
+
+    // Nodes waiting on something external pause the run and free the worker
+    if (executionResult.pause) {
+      nodeSpan.setAttributes({ 'node.status': 'paused' });
+      nodeSpan.end();
+      await db.update(executionSteps).set({ status: 'paused' }).where(eq(executionSteps.id, stepId));
+      websocketService.emitExecutionPaused(executionId, node.id);
+      throw new ExecutionPausedError(node.id, executionResult.pause.reason);
+    }
+
     const executionTime = Date.now() - nodeStartTime;
 
     // Update span with node execution result
@@ -597,6 +976,7 @@ export class WorkflowExecutor {
     // Store result
     const result = {
       nodeId: node.id,
+      stepId,
       success: executionResult.success,
       output: executionResult.output || {},
       error: executionResult.error,
@@ -621,289 +1001,212 @@ export class WorkflowExecutor {
       allResults: { ...results },
     };
 
-    // Store snapshot in execution metadata
-    const executionRecordForSnapshot = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, executionId)).limit(1);
-    if (executionRecordForSnapshot[0]) {
-      const metadata = (executionRecordForSnapshot[0].metadata as any) || {};
-      if (!metadata.variableSnapshots) {
-        metadata.variableSnapshots = {};
-      }
-      metadata.variableSnapshots[node.id] = variableSnapshot;
-      
-      await db.update(workflowExecutions).set({
-        metadata: metadata,
-      }).where(eq(workflowExecutions.id, executionId));
-    }
-
-    // After storing result, check if any waiting merge nodes can now execute
-    // Find all merge nodes that have this node as an input
-    const mergeNodesWaiting = Array.from(nodes.values()).filter((n) => {
-      const nType = (n.data?.type as string) || n.type;
-      if (nType !== 'logic.merge') return false;
-      const incomingEdges = Array.from(edges.values())
-        .flat()
-        .filter((edge) => edge.target === n.id);
-      return incomingEdges.some((edge) => edge.source === node.id);
-    });
+    // Store snapshot in execution metadata; only this node's key is written so
+    // parallel branches don't overwrite each other or the pause state
+    await db.update(workflowExecutions).set({
+      metadata: sql`jsonb_set(
+        coalesce(${workflowExecutions.metadata}, '{}'::jsonb),
+        '{variableSnapshots}',
+        coalesce(${workflowExecutions.metadata}->'variableSnapshots', '{}'::jsonb)
+          || jsonb_build_object(${node.id}::text, ${JSON.stringify(variableSnapshot)}::jsonb)
+      )`,
+    }).where(eq(workflowExecutions.id, executionId));
 
-    // Try to execute waiting merge nodes
-    for (const mergeNode of mergeNodesWaiting) {
-      const incomingEdges = Array.from(edges.values())
-        .flat()
-        .filter((edge) => edge.target === mergeNode.id);
-      const allInputsReady = incomingEdges.every((edge) => {
-        const sourceResult = results[edge.source];
-        return sourceResult !== undefined && !(sourceResult as any).waiting;
-      });
+    return result;
+  }
 
-      if (allInputsReady) {
-        // Execute the merge node now that all inputs are ready
-        await this.executeNode(
-          mergeNode,
-          input,
-          results,
-          nodes,
-          edges,
-          executionId,
-          workflowId
-        );
-      }
-    }
+  /**
+   * Run a node as part of a plan and decide which of its outgoing edges fire
+   */
+  private async runPlannedNode(
+    node: WorkflowNode,
+    input: Record<string, unknown>,
+    results: Record<string, unknown>,
+    plan: ExecutionPlan,
+    executionId: string,
+    workflowId: string,
+    concurrency: number,
+    parentStepId?: string
+  ): Promise<NodeCompletion> {
+    const result = await this.executeNode(node, input, results, plan, executionId, workflowId, false, parentStepId);
+    const completion = await this.completeNode(node, input, result, results, plan, executionId, workflowId, concurrency);
+
+    // Checkpoint the step so a resumed run replays it instead of running it again
+    const checkpoint: StepCheckpoint = {
+      activeEdgeIds: completion.activeEdges.map((edge) => edge.id),
+      payload: completion.payload,
+    };
+    await db.update(executionSteps).set({ checkpoint }).where(eq(executionSteps.id, result.stepId));
 
-    // Handle error path routing
-    if (!executionResult.success) {
-      const nodeEdges = edges.get(node.id) || [];
-      
-      // Look for error output handle (sourceHandle === 'error')
-      const errorEdges = nodeEdges.filter((edge) => {
-        const sourceHandle = (edge as any).sourceHandle;
-        return sourceHandle === 'error';
-      });
+    return completion;
+  }
 
+  /**
+   * Decide which outgoing edges of a finished node fire, running loop bodies
+   */
+  private async completeNode(
+    node: WorkflowNode,
+    input: Record<string, unknown>,
+    result: NodeRunResult,
+    results: Record<string, unknown>,
+    plan: ExecutionPlan,
+    executionId: string,
+    workflowId: string,
+    concurrency: number
+  ): Promise<NodeCompletion> {
+    const nodeType = getNodeType(node);
+    const nodeEdges = plan.outgoing.get(node.id) || [];
+    const handleOf = (edge: WorkflowEdge) => (edge as any).sourceHandle as string | undefined;
+
+    // Failed nodes continue along their error handle, or along their regular
+    // edges when the node or the workflow is set to continue on error
+    if (!result.success) {
+      const payload = {
+        error: result.error,
+        originalInput: input,
+        failedNodeId: node.id,
+      };
+      const errorEdges = nodeEdges.filter((edge) => handleOf(edge) === 'error');
       if (errorEdges.length > 0) {
-        // Route to error handling nodes
-        const errorOutput = {
-          error: executionResult.error,
-          originalInput: input,
-          failedNodeId: node.id,
-        };
-
-        // Execute error handling nodes in parallel
-        const errorNodeExecutions = errorEdges.map((edge) => {
-          const targetNode = nodes.get(edge.target);
-          if (targetNode) {
-            return this.executeNode(
-              targetNode,
-              errorOutput as Record<string, unknown>,
-              results,
-              nodes,
-              edges,
-              executionId,
-              workflowId
-            );
-          }
-          return Promise.resolve();
-        });
-
-        await Promise.all(errorNodeExecutions);
-        return result; // Don't continue with normal flow after error routing
+        return { activeEdges: errorEdges, payload };
       }
-      
-      // No error path - check if workflow settings allow continuing on error
-      const workflowSettings = (node.data?.workflowSettings as any) || {};
-      if (!workflowSettings.errorHandling?.continueOnError) {
-        // Stop execution if no error path and continueOnError is false
-        return result;
+
+      const errorHandling = this.activeRuns.get(executionId)?.errorHandling
+        || (node.data?.workflowSettings as WorkflowSettings | undefined)?.errorHandling;
+      if (node.data?.onError === 'continue' || errorHandling?.continueOnError) {
+        return { activeEdges: nodeEdges, payload };
       }
+
+      throw new NodeFailedError(node.id, nodeType, result.error, input);
     }
 
-    // Execute connected nodes if successful
-    if (executionResult.success) {
-      const nodeEdges = edges.get(node.id) || [];
-
-      // Handle conditional branching (IF/ELSE)
-      if (nodeType === 'logic.if') {
-        const condition = (executionResult.output as any)?.condition;
-        // Find edge with matching sourceHandle (true/false)
-        const matchingEdge = nodeEdges.find((edge) => {
-          const sourceHandle = (edge as any).sourceHandle;
-          if (condition && sourceHandle === 'true') return true;
-          if (!condition && sourceHandle === 'false') return true;
-          return false;
-        });
+    const output = result.output as Record<string, unknown>;
+    const successEdges = nodeEdges.filter((edge) => handleOf(edge) !== 'error');
 
-        if (matchingEdge) {
-          const targetNode = nodes.get(matchingEdge.target);
-          if (targetNode) {
-            await this.executeNode(
-              targetNode,
-              executionResult.output as Record<string, unknown>,
-              results,
-              nodes,
-              edges,
-              executionId,
-              workflowId
-            );
-          }
-        }
-      }
-      // Handle Switch node
-      else if (nodeType === 'logic.switch') {
-        const matchedCase = (executionResult.output as any)?.case;
-        // Find edge with matching sourceHandle (case name)
-        const matchingEdge = nodeEdges.find((edge) => {
-          const sourceHandle = (edge as any).sourceHandle;
-          return sourceHandle === matchedCase || sourceHandle === 'default';
-        });
+    // Conditional branching (IF/ELSE)
+    if (nodeType === 'logic.if') {
+      const branch = (output as any)?.condition ? 'true' : 'false';
+      return { activeEdges: successEdges.filter((edge) => handleOf(edge) === branch), payload: output };
+    }
 
-        if (matchingEdge) {
-          const targetNode = nodes.get(matchingEdge.target);
-          if (targetNode) {
-            await this.executeNode(
-              targetNode,
-              executionResult.output as Record<string, unknown>,
-              results,
-              nodes,
-              edges,
-              executionId,
-              workflowId
-            );
-          }
-        }
-      }
-      // Handle Merge node - wait for all inputs before proceeding
-      else if (nodeType === 'logic.merge') {
-        // Check if all incoming edges have completed
-        const incomingEdgesForMerge = Array.from(edges.values())
-          .flat()
-          .filter((edge) => edge.target === node.id);
-        
-        const allInputsReady = incomingEdgesForMerge.every((edge) => {
-          const sourceResult = results[edge.source];
-          return sourceResult !== undefined;
-        });
+    // Switch: matching case edges, falling back to the default edge
+    if (nodeType === 'logic.switch') {
+      const matchedCase = (output as any)?.case;
+      const caseEdges = successEdges.filter((edge) => handleOf(edge) === matchedCase);
+      return {
+        activeEdges: caseEdges.length > 0 ? caseEdges : successEdges.filter((edge) => handleOf(edge) === 'default'),
+        payload: output,
+      };
+    }
 
-        // Only execute merge node's outgoing edges if all inputs are ready
-        if (allInputsReady) {
-          // Merge node executor already collected all inputs
-          // Execute outgoing edges after merge completes
-          for (const edge of nodeEdges) {
-            const targetNode = nodes.get(edge.target);
-            if (targetNode) {
-              await this.executeNode(
-                targetNode,
-                executionResult.output as Record<string, unknown>,
-                results,
-                nodes,
-                edges,
-                executionId,
-                workflowId
-              );
-            }
-          }
-        }
-        // If not all inputs ready, merge node will be executed when the last input arrives
-      }
-      // Handle loops - will be implemented separately
-      else if (nodeType.startsWith('logic.loop.')) {
-        // Loop handling will be implemented in a separate method
-        await this.executeLoopNode(
-          node,
-          executionResult,
-          nodeEdges,
-          nodes,
-          edges,
-          results,
-          executionId,
-          workflowId
-        );
-      }
-      // Default: execute all connected nodes in parallel (if they can run in parallel)
-      else {
-        // Check if any target nodes are merge nodes - if so, we need to handle them specially
-        const targetNodes = nodeEdges
-          .map((edge) => {
-            const targetNode = nodes.get(edge.target);
-            return targetNode ? { node: targetNode, edge } : null;
-          })
-          .filter((item): item is { node: WorkflowNode; edge: WorkflowEdge } => item !== null);
-
-        // Separate merge nodes from regular nodes
-        const mergeNodes: Array<{ node: WorkflowNode; edge: WorkflowEdge }> = [];
-        const regularNodes: Array<{ node: WorkflowNode; edge: WorkflowEdge }> = [];
-
-        for (const { node, edge } of targetNodes) {
-          const targetNodeType = (node.data?.type as string) || node.type;
-          if (targetNodeType === 'logic.merge') {
-            mergeNodes.push({ node, edge });
-          } else {
-            regularNodes.push({ node, edge });
-          }
-        }
+    // Loops run their body per iteration, then continue along the post-loop edges
+    const loopBody = plan.loopBodies.get(node.id);
+    if (loopBody) {
+      const loopOutput = await this.executeLoopNode(
+        node,
+        result,
+        loopBody,
+        plan,
+        results,
+        executionId,
+        workflowId,
+        concurrency
+      );
+      return {
+        activeEdges: successEdges.filter((edge) => edge.id !== loopBody.entryEdge.id),
+        payload: loopOutput,
+      };
+    }
 
-        // Execute regular nodes in parallel
-        if (regularNodes.length > 0) {
-          const parallelExecutions = regularNodes.map(({ node, edge }) =>
-            this.executeNode(
-              node,
-              executionResult.output as Record<string, unknown>,
-              results,
-              nodes,
-              edges,
-              executionId,
-              workflowId
-            )
-          );
-          await Promise.all(parallelExecutions);
-        }
+    return { activeEdges: successEdges, payload: output };
+  }
 
-        // Execute merge nodes sequentially (they need to check if all inputs are ready)
-        for (const { node, edge } of mergeNodes) {
-          await this.executeNode(
-            node,
-            executionResult.output as Record<string, unknown>,
-            results,
-            nodes,
-            edges,
-            executionId,
-            workflowId
-          );
-        }
-      }
+  /**
+   * Run the workflow's error path (settings.errorHandling.errorPath) and the
+   * nodes below it with the failure as input. Failures inside the error path
+   * are logged; the execution fails with the original error either way.
+   */
+  private async runErrorPath(
+    errorPathNodeId: string,
+    failure: NodeFailedError,
+    plan: ExecutionPlan,
+    results: Record<string, unknown>,
+    executionId: string,
+    workflowId: string,
+    concurrency: number
+  ): Promise<void> {
+    if (!plan.nodes.has(errorPathNodeId)) {
+      await db.insert(executionLogs).values({
+        executionId,
+        nodeId: 'workflow',
+        level: 'warn',
+        message: `Error path node ${errorPathNodeId} does not exist`,
+      });
+      return;
     }
 
-    return result;
+    try {
+      await runExecutionPlan(plan, {
+        scope: scopeWithoutLoopBodies(reachableFrom([errorPathNodeId], plan.outgoing), plan.loopBodies),
+        startNodeIds: [errorPathNodeId],
+        input: {
+          error: failure.nodeError,
+          originalInput: failure.input,
+          failedNodeId: failure.nodeId,
+        },
+        concurrency,
+        runNode: (node, nodeInput) =>
+          this.runPlannedNode(node, nodeInput, results, plan, executionId, workflowId, concurrency),
+      });
+    } catch (error: any) {
+      await db.insert(executionLogs).values({
+        executionId,
+        nodeId: errorPathNodeId,
+        level: 'error',
+        message: `Error path failed: ${error.message}`,
+      });
+    }
   }
 
   private async executeLoopNode(
     node: WorkflowNode,
     executionResult: any,
-    nodeEdges: WorkflowEdge[],
-    nodes: Map<string, WorkflowNode>,
-    edges: Map<string, WorkflowEdge[]>,
+    loopBody: LoopBody,
+    plan: ExecutionPlan,
     results: Record<string, unknown>,
     executionId: string,
-    workflowId: string
-  ): Promise<void> {
-    const nodeType = (node.data?.type as string) || node.type;
+    workflowId: string,
+    concurrency: number
+  ): Promise<Record<string, unknown>> {
+    const nodeType = getNodeType(node);
     const nodeConfig = (node.data?.config as Record<string, unknown>) || {};
     const loopOutputs: unknown[] = [];
-
-    // Find the loop body node (first connected node)
-    const loopBodyEdge = nodeEdges.find((edge) => {
-      // Find edge that goes back to loop or to loop body
-      const targetNode = nodes.get(edge.target);
-      return targetNode && targetNode.id !== node.id;
-    });
-
-    if (!loopBodyEdge) {
-      return; // No loop body to execute
-    }
-
-    const loopBodyNode = nodes.get(loopBodyEdge.target);
-    if (!loopBodyNode) {
-      return;
-    }
+    const bodyScope = scopeWithoutLoopBodies(loopBody.nodeIds, plan.loopBodies);
+
+    // Run the body subgraph once; its output is that of the last body node to run
+    const runIteration = async (iterationInput: Record<string, unknown>) => {
+      const ran = await runExecutionPlan(plan, {
+        scope: bodyScope,
+        startNodeIds: [loopBody.entryEdge.target],
+        input: iterationInput,
+        concurrency,
+        runNode: (bodyNode, bodyInput) =>
+          this.runPlannedNode(
+            bodyNode,
+            bodyInput,
+            results,
+            plan,
+            executionId,
+            workflowId,
+            concurrency,
+            executionResult.stepId
+          ),
+      });
+      const lastResult = ran.length > 0 ? (results[ran[ran.length - 1]] as any) : undefined;
+      if (lastResult && typeof lastResult === 'object' && 'output' in lastResult) {
+        loopOutputs.push(lastResult.output);
+      }
+    };
 
     // Execute based on loop type
     if (nodeType === 'logic.loop.for') {
@@ -911,26 +1214,11 @@ export class WorkflowExecutor {
       const startIndex = (nodeConfig.startIndex as number) || 0;
 
       for (let i = startIndex; i < startIndex + count; i++) {
-        const iterationInput = {
+        await runIteration({
           ...executionResult.output,
           index: i,
           item: i,
-        };
-
-        // Execute loop body
-        const bodyResult = await this.executeNode(
-          loopBodyNode,
-          iterationInput as Record<string, unknown>,
-          results,
-          nodes,
-          edges,
-          executionId,
-          workflowId
-        );
-
-        if (bodyResult && typeof bodyResult === 'object' && 'output' in bodyResult) {
-          loopOutputs.push((bodyResult as any).output);
-        }
+        });
       }
     } else if (nodeType === 'logic.loop.foreach') {
       const arrayPath = (nodeConfig.arrayPath as string) || 'input';
@@ -951,27 +1239,11 @@ export class WorkflowExecutor {
       }
 
       for (let i = 0; i < array.length; i++) {
-        const item = array[i];
-        const iterationInput = {
+        await runIteration({
           ...executionResult.output,
           index: i,
-          item: item,
-        };
-
-        // Execute loop body
-        const bodyResult = await this.executeNode(
-          loopBodyNode,
-          iterationInput as Record<string, unknown>,
-          results,
-          nodes,
-          edges,
-          executionId,
-          workflowId
-        );
-
-        if (bodyResult && typeof bodyResult === 'object' && 'output' in bodyResult) {
-          loopOutputs.push((bodyResult as any).output);
-        }
+          item: array[i],
+        });
       }
     } else if (nodeType === 'logic.loop.while') {
       const condition = (nodeConfig.condition as string) || 'true';
@@ -998,105 +1270,426 @@ export class WorkflowExecutor {
 
         if (!shouldContinue) break;
 
-        const iterationInput = {
+        await runIteration({
           ...executionResult.output,
           iteration,
-        };
-
-        // Execute loop body
-        const bodyResult = await this.executeNode(
-          loopBodyNode,
-          iterationInput as Record<string, unknown>,
-          results,
-          nodes,
-          edges,
-          executionId,
-          workflowId
-        );
-
-        if (bodyResult && typeof bodyResult === 'object' && 'output' in bodyResult) {
-          loopOutputs.push((bodyResult as any).output);
-        }
+        });
 
         iteration++;
       }
     }
 
     // Store loop results
+    const loopOutput = {
+      output: loopOutputs,
+      count: loopOutputs.length,
+    };
     results[`${node.id}_loop_output`] = {
       nodeId: node.id,
       success: true,
-      output: {
-        output: loopOutputs,
-        count: loopOutputs.length,
-      },
+      output: loopOutput,
     };
 
-    // Execute nodes after loop (find edges that don't go to loop body)
-    const postLoopEdges = nodeEdges.filter((edge) => edge.target !== loopBodyNode.id);
-    for (const edge of postLoopEdges) {
-      const targetNode = nodes.get(edge.target);
-      if (targetNode) {
-        await this.executeNode(
-          targetNode,
-          { output: loopOutputs, count: loopOutputs.length } as Record<string, unknown>,
-          results,
-          nodes,
-          edges,
-          executionId,
-          workflowId
-        );
-      }
-    }
+    return loopOutput;
   }
 
+
   async enqueueExecution(data: {
     workflowId: string;
     definition: WorkflowDefinition;
     input?: Record<string, unknown>;
+    executionId?: string;
+    userId?: string;
+    organizationId?: string;
+    workspaceId?: string;
+    parentExecution?: ParentExecutionLink;
+    errorWorkflowFor?: string;
+    priority?: ExecutionPriority;
+    privateLlmOnly?: boolean;
   }): Promise<string> {
-    const job = await this.queue.add('execute', data);
-    return job.id!;
+    // The record exists from now on so the run can be listed and cancelled
+    // before a worker picks it up
+    const executionId = data.executionId || createId();
+    await db.insert(workflowExecutions).values({
+      id: executionId,
+      workflowId: data.workflowId,
+      status: 'queued',
+      input: (data.input || {}) as any,
+      metadata: {
+        ...(data.userId ? { userId: data.userId } : {}),
+        ...(data.organizationId ? { organizationId: data.organizationId } : {}),
+        ...(data.workspaceId ? { workspaceId: data.workspaceId } : {}),
+        ...(data.parentExecution ? { parentExecution: data.parentExecution } : {}),
+        ...(data.errorWorkflowFor ? { errorWorkflowFor: data.errorWorkflowFor } : {}),
+        ...(data.priority ? { priority: data.priority } : {}),
+        queuedAt: new Date().toISOString(),
+      },
+    });
+
+    await this.queue.add('execute', { ...data, executionId }, {
+      priority: PRIORITY_LEVELS[data.priority || 'normal'],
+    });
+    return executionId;
   }
 
   /**
-   * Wait for resume signal using Redis pub/sub
+   * Take the concurrency slots of a run. When a limit is hit the workflow's
+   * policy decides: `skip` records the run as cancelled, `replace` cancels
+   * the workflow's running runs, and `queue` (the default) delays a queued
+   * run or makes a direct caller wait, queueing the run with its priority
+   * when no slot frees up in time. Returns the result to hand back when the
+   * run does not start now, or null once the slots are held.
    */
-  private async waitForResume(executionId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const subscriber = redis.duplicate();
-      const channel = `execution:${executionId}:resume`;
-      
-      subscriber.subscribe(channel);
-      
-      const timeout = setTimeout(() => {
-        subscriber.unsubscribe();
-        subscriber.quit();
-        reject(new Error('Resume timeout (1 hour)'));
-      }, 3600000); // 1 hour timeout
-      
-      subscriber.on('message', (ch, message) => {
-        if (ch === channel) {
-          clearTimeout(timeout);
-          subscriber.unsubscribe();
-          subscriber.quit();
-          
-          if (message === 'resume') {
-            websocketService.emitExecutionResumed(executionId);
-            resolve();
-          } else if (message === 'cancel') {
-            reject(new Error('Execution cancelled'));
-          }
-        }
-      });
-      
-      subscriber.on('error', (error) => {
-        clearTimeout(timeout);
-        subscriber.unsubscribe();
-        subscriber.quit();
-        reject(error);
+  private async admitExecution(
+    executionId: string,
+    data: Parameters<WorkflowExecutor['executeWorkflow']>[0],
+    metadata: Record<string, unknown>,
+    slots: ConcurrencyScope[],
+    policy: ConcurrencyPolicy | undefined,
+    queuedRun?: QueuedRun
+  ): Promise<Record<string, unknown> | null> {
+    const ttlMs = LEASE_TTL_SECONDS * 1000;
+    let fullScope = await concurrencyService.acquire(executionId, slots, ttlMs);
+    if (!fullScope) {
+      return null;
+    }
+
+    // Resumed runs always wait: their earlier steps already ran
+    const limitPolicy = data.resume ? 'queue' : policy || 'queue';
+    const { kind, limit } = fullScope;
+    const reason = `${kind === 'workflow' ? 'Workflow' : 'Workspace'} concurrency limit of ${limit} reached`;
+
+    if (limitPolicy === 'skip') {
+      const [existing] = await db
+        .select({ id: workflowExecutions.id })
+        .from(workflowExecutions)
+        .where(eq(workflowExecutions.id, executionId))
+        .limit(1);
+      const skipped = {
+        status: 'cancelled' as const,
+        finishedAt: new Date(),
+        error: `Skipped: ${reason}`,
+      };
+      if (existing) {
+        await db.update(workflowExecutions).set(skipped).where(eq(workflowExecutions.id, executionId));
+      } else {
+        await db.insert(workflowExecutions).values({
+          id: executionId,
+          workflowId: data.workflowId,
+          input: (data.input || {}) as any,
+          metadata,
+          ...skipped,
+        });
+      }
+      return { executionId, status: 'skipped', reason };
+    }
+
+    if (limitPolicy === 'replace' && kind === 'workflow') {
+      for (const runningId of await concurrencyService.holders(fullScope)) {
+        await this.cancelExecution(runningId, 'concurrency:replace').catch((error) => {
+          console.warn(`[WorkflowExecutor] Could not replace execution ${runningId}:`, error.message);
+        });
+        // Cancelled runs give up their slots now rather than when their nodes stop
+        await concurrencyService.release(runningId, slots);
+      }
+      fullScope = await concurrencyService.acquire(executionId, slots, ttlMs);
+      if (!fullScope) {
+        return null;
+      }
+    }
+
+    if (queuedRun) {
+      await queuedRun.job.moveToDelayed(Date.now() + CONCURRENCY_RETRY_MS, queuedRun.token);
+      throw new DelayedError();
+    }
+
+    // Direct callers wait for a slot; the run shows as pending meanwhile
+    const [existing] = await db
+      .select({ id: workflowExecutions.id })
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.id, executionId))
+      .limit(1);
+    if (!existing) {
+      await db.insert(workflowExecutions).values({
+        id: executionId,
+        workflowId: data.workflowId,
+        status: 'pending',
+        input: (data.input || {}) as any,
+        metadata,
       });
+    }
+
+    const waitUntil = Date.now() + DIRECT_CONCURRENCY_WAIT_MS;
+    while (fullScope) {
+      await new Promise((resolve) => setTimeout(resolve, CONCURRENCY_RETRY_MS));
+      const [execution] = await db
+        .select({ status: workflowExecutions.status })
+        .from(workflowExecutions)
+        .where(eq(workflowExecutions.id, executionId))
+        .limit(1);
+      if (execution?.status === 'cancelled') {
+        return { executionId, status: 'cancelled', error: 'Execution was cancelled while waiting for a slot' };
+      }
+      fullScope = await concurrencyService.acquire(executionId, slots, ttlMs);
+
+      if (fullScope && Date.now() >= waitUntil) {
+        // Conditional so a cancel issued meanwhile is not undone
+        const queued = await db.update(workflowExecutions).set({
+          status: 'queued',
+          metadata: sql`jsonb_set(
+            coalesce(${workflowExecutions.metadata}, '{}'::jsonb),
+            '{queuedAt}',
+            ${JSON.stringify(new Date().toISOString())}::jsonb
+          )`,
+        }).where(and(eq(workflowExecutions.id, executionId), ne(workflowExecutions.status, 'cancelled')))
+          .returning({ id: workflowExecutions.id });
+        if (queued.length === 0) {
+          return { executionId, status: 'cancelled', error: 'Execution was cancelled while waiting for a slot' };
+        }
+
+        await this.queue.add('execute', { ...data, executionId }, {
+          priority: PRIORITY_LEVELS[data.priority || 'normal'],
+        });
+        return { executionId, status: 'queued', reason };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remember how long a queued run waited before it started
+   */
+  private recordQueueWait(organizationId: string | undefined, waitMs: number): void {
+    this.queueWaits.push({ organizationId, waitMs });
+    if (this.queueWaits.length > QUEUE_WAIT_SAMPLES) {
+      this.queueWaits.shift();
+    }
+  }
+
+  /**
+   * Queued runs of an organization (per priority class), its running runs,
+   * and wait times of its runs this instance started recently. The queue is
+   * shared by all organizations, so its own counts are not reported.
+   */
+  async getQueueMetrics(organizationId: string): Promise<{
+    depth: number;
+    counts: { queued: number; running: number };
+    byPriority: Record<ExecutionPriority, number>;
+    oldestWaitingMs: number;
+    waitTime: { samples: number; averageMs: number; p95Ms: number; maxMs: number };
+  }> {
+    const executions = await db
+      .select({ status: workflowExecutions.status, startedAt: workflowExecutions.startedAt, metadata: workflowExecutions.metadata })
+      .from(workflowExecutions)
+      .innerJoin(workflows, eq(workflowExecutions.workflowId, workflows.id))
+      .innerJoin(workspaces, eq(workflows.workspaceId, workspaces.id))
+      .where(and(eq(workspaces.organizationId, organizationId), inArray(workflowExecutions.status, ['queued', 'running'])));
+
+    const queued = executions.filter((execution) => execution.status === 'queued');
+    const byPriority = Object.fromEntries(
+      Object.keys(PRIORITY_LEVELS).map((name) => [name, 0])
+    ) as Record<ExecutionPriority, number>;
+    let oldestTimestamp = Date.now();
+    for (const execution of queued) {
+      const metadata = (execution.metadata as any) || {};
+      const priority = (metadata.priority as ExecutionPriority) in PRIORITY_LEVELS ? metadata.priority as ExecutionPriority : 'normal';
+      byPriority[priority] += 1;
+      // Runs queued before queuedAt was recorded count from their start
+      const queuedAt = metadata.queuedAt ? new Date(metadata.queuedAt).getTime() : new Date(execution.startedAt).getTime();
+      oldestTimestamp = Math.min(oldestTimestamp, queuedAt);
+    }
+
+    const waits = this.queueWaits
+      .filter((wait) => wait.organizationId === organizationId)
+      .map((wait) => wait.waitMs)
+      .sort((a, b) => a - b);
+
+    return {
+      depth: queued.length,
+      counts: { queued: queued.length, running: executions.length - queued.length },
+      byPriority,
+      oldestWaitingMs: Date.now() - oldestTimestamp,
+      waitTime: {
+        samples: waits.length,
+        averageMs: waits.length > 0 ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length) : 0,
+        p95Ms: waits.length > 0 ? waits[Math.min(waits.length - 1, Math.floor(waits.length * 0.95))] : 0,
+        maxMs: waits.length > 0 ? waits[waits.length - 1] : 0,
+      },
+    };
+  }
+
+  /**
+   * Cancel a queued, pending, running or paused execution. The status is set
+   * right away; the instance running it aborts its in-flight nodes, and a
+   * queued run does not start when a worker picks it up.
+   */
+  async cancelExecution(executionId: string, cancelledBy?: string): Promise<void> {
+    const [execution] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, executionId)).limit(1);
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+    if (!['queued', 'pending', 'running', 'paused'].includes(execution.status)) {
+      throw new Error(`Execution is already ${execution.status}`);
+    }
+
+    await db.update(workflowExecutions).set({
+      status: 'cancelled',
+      finishedAt: new Date(),
+      error: 'Execution cancelled',
+      metadata: {
+        ...((execution.metadata as any) || {}),
+        cancelledBy,
+        cancelledAt: new Date(),
+      },
+    }).where(eq(workflowExecutions.id, executionId));
+
+    await db.update(executionSteps).set({ status: 'cancelled', finishedAt: new Date() }).where(
+      and(eq(executionSteps.executionId, executionId), inArray(executionSteps.status, ['running', 'paused']))
+    );
+
+    await db.insert(executionLogs).values({
+      executionId,
+      nodeId: 'workflow',
+      level: 'warn',
+      message: 'Execution cancelled',
+      data: { cancelledBy },
     });
+
+    this.activeRuns.get(executionId)?.abortController.abort(new ExecutionCancelledError(executionId));
+    await redis.publish(CANCEL_CHANNEL, executionId).catch((error) => {
+      console.warn('[WorkflowExecutor] Could not broadcast cancellation:', error);
+    });
+
+    websocketService.emitExecutionCancelled(executionId);
+
+    // Cancelling cascades down to a child the run waits on, and a parent
+    // waiting on this run resumes with the cancellation
+    const metadata = (execution.metadata as any) || {};
+    const child = metadata.subWorkflow as SubWorkflowWaitState | undefined;
+    if (child && !child.result) {
+      await this.cancelExecution(child.childExecutionId, cancelledBy).catch(() => undefined);
+    }
+    if (metadata.parentExecution) {
+      await this.resumeParent(metadata.parentExecution, executionId, { status: 'cancelled', error: 'Execution cancelled' });
+    }
+  }
+
+  /**
+   * Timeout watchdog: fail an execution still running past its workflow timeout
+   */
+  private async expireExecution(executionId: string, timeoutMs: number): Promise<void> {
+    const error = new ExecutionTimeoutError(timeoutMs);
+
+    const expired = await db.update(workflowExecutions).set({
+      status: 'failed',
+      finishedAt: new Date(),
+      error: error.message,
+    }).where(and(eq(workflowExecutions.id, executionId), eq(workflowExecutions.status, 'running'))).returning();
+
+    if (expired.length === 0) {
+      return;
+    }
+
+    await db.update(executionSteps).set({
+      status: 'failed',
+      error: { message: error.message, code: 'WORKFLOW_TIMEOUT' },
+      finishedAt: new Date(),
+    }).where(and(eq(executionSteps.executionId, executionId), eq(executionSteps.status, 'running')));
+
+    await db.insert(executionLogs).values({
+      executionId,
+      nodeId: 'workflow',
+      level: 'error',
+      message: error.message,
+      data: { code: 'WORKFLOW_TIMEOUT', timeoutMs },
+    });
+
+    this.activeRuns.get(executionId)?.abortController.abort(error);
+    websocketService.emitNodeError(executionId, 'workflow', error);
+
+    const [execution] = await db
+      .select({ workflowId: workflowExecutions.workflowId })
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.id, executionId))
+      .limit(1);
+    if (execution) {
+      await errorWorkflowService.trigger({ executionId, workflowId: execution.workflowId, error: error.message })
+        .catch((triggerError) => console.error('Error triggering error workflow:', triggerError));
+    }
+
+    try {
+      await alertService.checkAlerts(executionId);
+    } catch (alertError) {
+      console.error('Error checking alerts:', alertError);
+    }
+  }
+
+  /**
+   * Continue an execution from its checkpoints (after a pause or a worker restart)
+   */
+  async resumeWorkflow(executionId: string, queuedRun?: QueuedRun): Promise<unknown> {
+    const [execution] = await db
+      .select({
+        workflowId: workflowExecutions.workflowId,
+        input: workflowExecutions.input,
+        metadata: workflowExecutions.metadata,
+        definition: workflows.definition,
+      })
+      .from(workflowExecutions)
+      .innerJoin(workflows, eq(workflowExecutions.workflowId, workflows.id))
+      .where(eq(workflowExecutions.id, executionId))
+      .limit(1);
+
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+
+    const metadata = (execution.metadata as any) || {};
+    const definition = execution.definition as WorkflowDefinition;
+    const result = await this.executeWorkflow({
+      workflowId: execution.workflowId,
+      definition,
+      input: (execution.input as Record<string, unknown>) || {},
+      executionId,
+      userId: metadata.userId,
+      organizationId: metadata.organizationId,
+      workspaceId: metadata.workspaceId,
+      parentExecution: metadata.parentExecution,
+      privateLlmOnly: metadata.privateLlmOnly,
+      resume: true,
+      priority: metadata.priority,
+    }, queuedRun) as { status: string; results?: Record<string, any>; error?: string };
+
+    // A child that paused its parent hands its result back once it finishes
+    if (metadata.parentExecution && ['completed', 'failed', 'cancelled'].includes(result.status)) {
+      await this.resumeParent(metadata.parentExecution, executionId, {
+        status: result.status,
+        error: result.error,
+        output: result.status === 'completed' ? getSubWorkflowOutput(definition, result.results || {}) : undefined,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Resume a parent paused on a sub-workflow run with the run's result;
+   * parents not waiting on this run are left alone
+   */
+  private async resumeParent(
+    link: ParentExecutionLink,
+    childExecutionId: string,
+    result: NonNullable<SubWorkflowWaitState['result']>
+  ): Promise<void> {
+    const [parent] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, link.executionId)).limit(1);
+    const metadata = (parent?.metadata as any) || {};
+    const pending = metadata.subWorkflow as SubWorkflowWaitState | undefined;
+    if (!parent || parent.status !== 'paused' || pending?.childExecutionId !== childExecutionId) {
+      return;
+    }
+
+    await this.enqueueResume(link.executionId, { ...metadata, subWorkflow: { ...pending, result } });
+    websocketService.emitExecutionResumed(link.executionId);
   }
 
   /**
@@ -1115,25 +1708,15 @@ export class WorkflowExecutor {
     }
 
     // Store modifications in metadata if provided
+    const metadata = (execution[0].metadata as any) || {};
     if (modifications) {
-      const metadata = (execution[0].metadata as any) || {};
       if (!metadata.resumeModifications) {
         metadata.resumeModifications = [];
       }
       metadata.resumeModifications.push(modifications);
-      
-      await db.update(workflowExecutions).set({
-        status: 'running',
-        metadata: metadata,
-      }).where(eq(workflowExecutions.id, executionId));
-    } else {
-      await db.update(workflowExecutions).set({
-        status: 'running',
-      }).where(eq(workflowExecutions.id, executionId));
     }
 
-    // Publish resume signal via Redis
-    await redis.publish(`execution:${executionId}:resume`, 'resume');
+    await this.enqueueResume(executionId, metadata);
 
     // Emit execution resumed event
     websocketService.emitExecutionResumed(executionId);
@@ -1154,9 +1737,276 @@ export class WorkflowExecutor {
     }
 
     // Resume execution (it will pause again at next node)
+    await this.enqueueResume(executionId, metadata);
+  }
+
+  /**
+   * Queue a paused execution again; the node it paused at runs instead of
+   * pausing a second time. The run shows as queued, without a lease, until a
+   * worker picks up the job, so recovery does not resume it a second time.
+   */
+  private async enqueueResume(executionId: string, metadata: Record<string, any>): Promise<void> {
+    const resumeNodeId = metadata.humanPrompt?.nodeId
+      || metadata.wait?.nodeId
+      || metadata.subWorkflow?.nodeId
+      || metadata.debugState?.currentNodeId;
+
+    await this.queueResume(executionId, {
+      ...metadata,
+      debugState: {
+        ...(metadata.debugState || {}),
+        resumeNodeId,
+      },
+    });
+  }
+
+  /**
+   * Store the metadata of a run about to be resumed and add its resume job.
+   * Each resume gets its own job ID, so a resume queued twice runs once.
+   */
+  private async queueResume(executionId: string, metadata: Record<string, any>): Promise<void> {
+    const resumeCount = (metadata.resumeCount || 0) + 1;
+
     await db.update(workflowExecutions).set({
-      status: 'running',
+      status: 'queued',
+      metadata: { ...metadata, resumeCount, queuedAt: new Date().toISOString() },
     }).where(eq(workflowExecutions.id, executionId));
+
+    await this.queue.add('resume', { executionId }, {
+      jobId: `resume:${executionId}:${resumeCount}`,
+      priority: PRIORITY_LEVELS[(metadata.priority as ExecutionPriority) || 'normal'],
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  /**
+   * Resume a waiting execution at `resumeAt` through a delayed job
+   */
+  async scheduleWaitResume(executionId: string, waitId: string, resumeAt: Date): Promise<void> {
+    await this.queue.add(
+      'wait-elapsed',
+      { executionId, waitId },
+      { delay: Math.max(0, resumeAt.getTime() - Date.now()) }
+    );
+  }
+
+  /**
+   * Resume an execution whose wait ended. Timers of waits that already
+   * ended (event arrived, manual resume) are ignored.
+   */
+  async endWait(executionId: string, waitId: string): Promise<boolean> {
+    const [execution] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, executionId)).limit(1);
+    const metadata = (execution?.metadata as any) || {};
+    if (!execution || execution.status !== 'paused' || (metadata.wait as WaitState | undefined)?.id !== waitId) {
+      return false;
+    }
+
+    await this.enqueueResume(executionId, metadata);
+    websocketService.emitExecutionResumed(executionId);
+    return true;
+  }
+
+  /**
+   * Expire a human prompt at `expiresAt` through a delayed job
+   */
+  async schedulePromptExpiry(executionId: string, promptId: string, expiresAt: Date): Promise<void> {
+    await this.queue.add(
+      'prompt-expired',
+      { executionId, promptId },
+      { delay: Math.max(0, expiresAt.getTime() - Date.now()) }
+    );
+  }
+
+  /**
+   * Resume an execution whose human prompt went unanswered; the prompt node
+   * then fails. Timers of prompts that were answered are ignored.
+   */
+  async expirePrompt(executionId: string, promptId: string): Promise<boolean> {
+    const [execution] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, executionId)).limit(1);
+    const metadata = (execution?.metadata as any) || {};
+    const humanPrompt = metadata.humanPrompt as HumanPromptState | undefined;
+    if (
+      !execution
+      || execution.status !== 'paused'
+      || humanPrompt?.id !== promptId
+      || metadata.humanPromptResponses?.[humanPrompt.nodeId] !== undefined
+    ) {
+      return false;
+    }
+
+    await this.enqueueResume(executionId, { ...metadata, humanPrompt: { ...humanPrompt, expired: true } });
+    websocketService.emitExecutionResumed(executionId);
+    return true;
+  }
+
+  /**
+   * Deliver an external event to executions waiting on its correlation key
+   * whose wait secret matches; returns the IDs of the executions that were resumed
+   */
+  async deliverWaitEvent(
+    correlationKey: string,
+    payload: Record<string, unknown>,
+    secret: string
+  ): Promise<string[]> {
+    const waiting = await db
+      .select()
+      .from(workflowExecutions)
+      .where(
+        and(
+          eq(workflowExecutions.status, 'paused'),
+          sql`${workflowExecutions.metadata}->'wait'->>'correlationKey' = ${correlationKey}`
+        )
+      );
+
+    const resumed: string[] = [];
+    for (const execution of waiting) {
+      const metadata = (execution.metadata as any) || {};
+      const wait = metadata.wait as WaitState;
+      if (!wait.secret || !safeEqual(wait.secret, secret)) continue;
+
+      const updatedMetadata = {
+        ...metadata,
+        wait: { ...wait, event: payload, receivedAt: new Date().toISOString() },
+      };
+      await db.update(workflowExecutions).set({ metadata: updatedMetadata }).where(eq(workflowExecutions.id, execution.id));
+
+      if (await this.endWait(execution.id, wait.id)) {
+        resumed.push(execution.id);
+      }
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Load checkpoints of top-level steps finished by an earlier attempt and
+   * seed their results. Steps a dead worker left running are marked failed
+   * and run again; steps inside loops are not replayed, so an interrupted
+   * loop runs its body again.
+   */
+  private async loadCheckpoints(
+    executionId: string,
+    plan: ExecutionPlan,
+    results: Record<string, unknown>
+  ): Promise<Map<string, NodeCompletion>> {
+    const steps = await db
+      .select()
+      .from(executionSteps)
+      .where(and(eq(executionSteps.executionId, executionId), isNull(executionSteps.parentStepId)))
+      .orderBy(executionSteps.stepNumber);
+
+    const checkpoints = new Map<string, NodeCompletion>();
+    for (const step of steps) {
+      const checkpoint = step.checkpoint as StepCheckpoint | null;
+      if (!checkpoint) {
+        if (step.status === 'running') {
+          await db.update(executionSteps).set({
+            status: 'failed',
+            error: { message: 'Interrupted before completion', code: 'WORKER_INTERRUPTED' },
+            finishedAt: new Date(),
+          }).where(eq(executionSteps.id, step.id));
+        }
+        continue;
+      }
+
+      const activeEdgeIds = new Set(checkpoint.activeEdgeIds);
+      checkpoints.set(step.nodeId, {
+        activeEdges: (plan.outgoing.get(step.nodeId) || []).filter((edge) => activeEdgeIds.has(edge.id)),
+        payload: checkpoint.payload,
+      });
+      results[step.nodeId] = {
+        nodeId: step.nodeId,
+        stepId: step.id,
+        success: step.status === 'completed',
+        output: step.output || {},
+        error: step.error || undefined,
+      };
+    }
+
+    return checkpoints;
+  }
+
+  /**
+   * Keep a Redis lease and the concurrency slots of a running execution;
+   * returns a release function. The slots are only refreshed and released
+   * while this attempt owns the lease.
+   */
+  private holdLease(executionId: string, slots: ConcurrencyScope[] = []): () => Promise<void> {
+    const key = `execution:${executionId}:lease`;
+    const token = createId();
+    const refresh = async () => {
+      try {
+        const owned = await redis.eval(REFRESH_LEASE_SCRIPT, 1, key, token, LEASE_TTL_SECONDS);
+        if (owned) {
+          await concurrencyService.refresh(executionId, slots, LEASE_TTL_SECONDS * 1000);
+        }
+      } catch (error) {
+        console.warn('[WorkflowExecutor] Could not refresh execution lease:', error);
+      }
+    };
+
+    // The run starts now, whoever held the lease before
+    const taken = redis.set(key, token, 'EX', LEASE_TTL_SECONDS).catch((error) => {
+      console.warn('[WorkflowExecutor] Could not take execution lease:', error);
+    });
+    const interval = setInterval(refresh, LEASE_REFRESH_MS);
+
+    return async () => {
+      clearInterval(interval);
+      await taken;
+      const released = await redis.eval(RELEASE_LEASE_SCRIPT, 1, key, token).catch(() => 0);
+      if (released) {
+        await concurrencyService.release(executionId, slots).catch(() => undefined);
+      }
+    };
+  }
+
+  /**
+   * Re-enqueue running executions whose lease expired (their worker is gone).
+   * Paused executions stay paused until they are resumed, and queued ones
+   * until a worker picks them up.
+   */
+  async recoverExecutions(): Promise<number> {
+    const runningExecutions = await db
+      .select({ id: workflowExecutions.id, metadata: workflowExecutions.metadata })
+      .from(workflowExecutions)
+      .where(eq(workflowExecutions.status, 'running'));
+
+    let recovered = 0;
+    for (const { id, metadata } of runningExecutions) {
+      // Claiming the lease makes sure only one instance recovers an execution
+      const claimed = await redis.set(`execution:${id}:lease`, 'recovering', 'EX', LEASE_TTL_SECONDS, 'NX');
+      if (claimed !== 'OK') continue;
+
+      await db.insert(executionLogs).values({
+        executionId: id,
+        nodeId: 'workflow',
+        level: 'warn',
+        message: 'Execution was interrupted; resuming from the last completed step',
+      });
+      await this.queueResume(id, (metadata as Record<string, any>) || {});
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Recover interrupted executions now and whenever a lease can have expired
+   */
+  startRecovery(): void {
+    const recover = () =>
+      this.recoverExecutions()
+        .then((count) => {
+          if (count > 0) {
+            console.log(`♻️  Recovered ${count} interrupted execution(s)`);
+          }
+        })
+        .catch((error) => console.error('[WorkflowExecutor] Execution recovery failed:', error));
+
+    recover();
+    setInterval(recover, LEASE_TTL_SECONDS * 1000).unref();
   }
 
   /**
@@ -1164,13 +2014,13 @@ export class WorkflowExecutor {
    */
   private collectPreviousOutputs(
     node: WorkflowNode,
-    edges: Map<string, WorkflowEdge[]>,
+    plan: ExecutionPlan,
     results: Record<string, unknown>
   ): Record<string, unknown> {
     const previousOutputs: Record<string, unknown> = {};
-    const incomingEdges = Array.from(edges.values())
-      .flat()
-      .filter((edge) => edge.target === node.id);
+    const incomingEdges = [...(plan.incoming.get(node.id) || [])].sort(
+      (a, b) => plan.order.indexOf(a.source) - plan.order.indexOf(b.source)
+    );
 
     for (const edge of incomingEdges) {
       const sourceResult = results[edge.source] as any;
@@ -0,0 +1,361 @@
+/**
+ * Workflow Graph
+ *
+ * Plans a workflow definition as a DAG and schedules its nodes. The planner
+ * validates the definition (missing nodes, cycles, orphan and unreachable
+ * nodes) and computes a deterministic topological order. The scheduler runs
+ * a node once every one of its inputs has resolved, so any node with several
+ * inputs is a join. Edges that are not taken (IF/Switch branches, error
+ * handles) resolve as inactive and skip their targets, which lets joins below
+ * a branch run with whatever inputs did arrive.
+ */
+
+import { WorkflowDefinition, WorkflowNode, WorkflowEdge } from '@sos/shared';
+
+export type GraphIssueCode = 'missing_node' | 'cycle' | 'orphan_node' | 'unreachable_node';
+
+export interface GraphIssue {
+  code: GraphIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  nodeIds: string[];
+}
+
+/**
+ * Body of a loop node: the entry edge and the nodes run once per iteration
+ */
+export interface LoopBody {
+  entryEdge: WorkflowEdge;
+  nodeIds: Set<string>;
+}
+
+export interface ExecutionPlan {
+  nodes: Map<string, WorkflowNode>;
+  incoming: Map<string, WorkflowEdge[]>;
+  outgoing: Map<string, WorkflowEdge[]>;
+  order: string[]; // Topological order of all reachable nodes
+  startNodeIds: string[];
+  loopBodies: Map<string, LoopBody>;
+  backEdgeIds: Set<string>; // Edges from a loop body back to its loop node
+  mainScope: Set<string>; // Nodes scheduled at the top level (loop bodies excluded)
+  skippedNodeIds: string[]; // Orphan and unreachable nodes, never run
+  issues: GraphIssue[];
+}
+
+/**
+ * Outcome of running one node: which outgoing edges fire and what they carry
+ */
+export interface NodeCompletion {
+  activeEdges: WorkflowEdge[];
+  payload: Record<string, unknown>;
+}
+
+export interface RunPlanOptions {
+  scope: Set<string>;
+  startNodeIds: string[];
+  input: Record<string, unknown>;
+  concurrency: number;
+  runNode: (node: WorkflowNode, input: Record<string, unknown>) => Promise<NodeCompletion>;
+  checkpoints?: Map<string, NodeCompletion>; // Nodes already completed in an earlier attempt
+}
+
+export class WorkflowGraphError extends Error {
+  constructor(public issues: GraphIssue[]) {
+    super(`Invalid workflow graph: ${issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'WorkflowGraphError';
+  }
+}
+
+export function getNodeType(node: WorkflowNode): string {
+  return (node.data?.type as string) || node.type;
+}
+
+function isLoopNode(node: WorkflowNode): boolean {
+  return getNodeType(node).startsWith('logic.loop.');
+}
+
+/**
+ * Collect nodes reachable from the given node IDs without entering `blockedId`
+ */
+export function reachableFrom(
+  fromIds: string[],
+  outgoing: Map<string, WorkflowEdge[]>,
+  blockedId?: string
+): Set<string> {
+  const seen = new Set<string>();
+  const stack = fromIds.filter((id) => id !== blockedId);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const edge of outgoing.get(id) || []) {
+      if (edge.target !== blockedId && !seen.has(edge.target)) {
+        stack.push(edge.target);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Build and validate an execution plan for a workflow definition
+ */
+export function planWorkflow(definition: WorkflowDefinition): ExecutionPlan {
+  const issues: GraphIssue[] = [];
+  const nodes = new Map<string, WorkflowNode>();
+  const incoming = new Map<string, WorkflowEdge[]>();
+  const outgoing = new Map<string, WorkflowEdge[]>();
+
+  for (const node of definition.nodes) {
+    nodes.set(node.id, node);
+    incoming.set(node.id, []);
+    outgoing.set(node.id, []);
+  }
+
+  for (const edge of definition.edges) {
+    const missing = [edge.source, edge.target].filter((id) => !nodes.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        code: 'missing_node',
+        severity: 'error',
+        message: `Edge ${edge.id} references missing node(s) ${missing.join(', ')}`,
+        nodeIds: missing,
+      });
+      continue;
+    }
+    outgoing.get(edge.source)!.push(edge);
+    incoming.get(edge.target)!.push(edge);
+  }
+
+  // Loop bodies: everything reachable from the first non-self edge of a loop
+  // node, minus what its other (post-loop) edges reach
+  const loopBodies = new Map<string, LoopBody>();
+  const backEdgeIds = new Set<string>();
+  for (const node of definition.nodes) {
+    if (!isLoopNode(node)) continue;
+    const loopEdges = outgoing.get(node.id)!;
+    const entryEdge = loopEdges.find((edge) => edge.target !== node.id);
+    if (!entryEdge) continue;
+
+    const body = reachableFrom([entryEdge.target], outgoing, node.id);
+    const postLoop = reachableFrom(
+      loopEdges.filter((edge) => edge !== entryEdge).map((edge) => edge.target),
+      outgoing,
+      node.id
+    );
+    postLoop.forEach((id) => body.delete(id));
+    loopBodies.set(node.id, { entryEdge, nodeIds: body });
+
+    for (const edge of incoming.get(node.id)!) {
+      if (edge.source === node.id || body.has(edge.source)) {
+        backEdgeIds.add(edge.id);
+      }
+    }
+  }
+
+  // Kahn's algorithm, breaking ties by definition order for deterministic runs
+  const definitionIndex = new Map<string, number>(definition.nodes.map((node, index) => [node.id, index]));
+  const inDegree = new Map<string, number>();
+  for (const node of definition.nodes) {
+    inDegree.set(node.id, incoming.get(node.id)!.filter((edge) => !backEdgeIds.has(edge.id)).length);
+  }
+  const ready = definition.nodes.filter((node) => inDegree.get(node.id) === 0).map((node) => node.id);
+  const topological: string[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => definitionIndex.get(a)! - definitionIndex.get(b)!);
+    const id = ready.shift()!;
+    topological.push(id);
+    for (const edge of outgoing.get(id)!) {
+      if (backEdgeIds.has(edge.id)) continue;
+      const remaining = inDegree.get(edge.target)! - 1;
+      inDegree.set(edge.target, remaining);
+      if (remaining === 0) ready.push(edge.target);
+    }
+  }
+
+  if (topological.length < definition.nodes.length) {
+    const cyclic = definition.nodes.map((node) => node.id).filter((id) => !topological.includes(id));
+    issues.push({
+      code: 'cycle',
+      severity: 'error',
+      message: `Cycle detected between nodes ${cyclic.join(', ')}`,
+      nodeIds: cyclic,
+    });
+  }
+
+  // Triggers start the run when present; otherwise every node without inputs does
+  const triggerIds = definition.nodes
+    .filter((node) => getNodeType(node).startsWith('trigger.'))
+    .map((node) => node.id);
+  const startNodeIds = triggerIds.length > 0
+    ? triggerIds
+    : topological.filter((id) => incoming.get(id)!.every((edge) => backEdgeIds.has(edge.id)));
+
+  const reachable = reachableFrom(startNodeIds, outgoing);
+  const skippedNodeIds: string[] = [];
+  const orphans: string[] = [];
+  const unreachable: string[] = [];
+  for (const node of definition.nodes) {
+    if (reachable.has(node.id)) continue;
+    skippedNodeIds.push(node.id);
+    if (incoming.get(node.id)!.length === 0 && outgoing.get(node.id)!.length === 0) {
+      orphans.push(node.id);
+    } else if (!issues.some((issue) => issue.code === 'cycle' && issue.nodeIds.includes(node.id))) {
+      unreachable.push(node.id);
+    }
+  }
+
+  if (orphans.length > 0) {
+    issues.push({
+      code: 'orphan_node',
+      severity: 'warning',
+      message: `Nodes ${orphans.join(', ')} are not connected to the workflow and will not run`,
+      nodeIds: orphans,
+    });
+  }
+  if (unreachable.length > 0) {
+    issues.push({
+      code: 'unreachable_node',
+      severity: 'warning',
+      message: `Nodes ${unreachable.join(', ')} cannot be reached from a trigger and will not run`,
+      nodeIds: unreachable,
+    });
+  }
+
+  const order = topological.filter((id) => reachable.has(id));
+
+  return {
+    nodes,
+    incoming,
+    outgoing,
+    order,
+    startNodeIds,
+    loopBodies,
+    backEdgeIds,
+    mainScope: scopeWithoutLoopBodies(new Set(order), loopBodies),
+    skippedNodeIds,
+    issues,
+  };
+}
+
+/**
+ * Remove the bodies of loops contained in a scope; loop nodes run their own bodies
+ */
+export function scopeWithoutLoopBodies(scope: Set<string>, loopBodies: Map<string, LoopBody>): Set<string> {
+  const result = new Set(scope);
+  for (const [loopId, body] of loopBodies) {
+    if (!scope.has(loopId)) continue;
+    body.nodeIds.forEach((id) => result.delete(id));
+  }
+  return result;
+}
+
+/**
+ * Run the nodes of a scope in dependency order
+ *
+ * Ready nodes start in topological order, at most `concurrency` at a time.
+ * A node becomes ready once all of its in-scope inputs have resolved and at
+ * least one fired; if none fired it is skipped and its own edges resolve as
+ * inactive. Inputs of a join are merged in topological order of their sources.
+ * Checkpointed nodes are not run again; their stored completion is replayed.
+ *
+ * @returns IDs of the nodes that ran, in topological order
+ */
+export async function runExecutionPlan(plan: ExecutionPlan, options: RunPlanOptions): Promise<string[]> {
+  const { scope, concurrency } = options;
+  const orderIndex = new Map<string, number>(plan.order.map((id, index) => [id, index]));
+  const startIds = new Set(options.startNodeIds.filter((id) => scope.has(id)));
+
+  const remainingInputs = new Map<string, number>();
+  const firedInputs = new Map<string, Array<{ sourceId: string; payload: Record<string, unknown> }>>();
+  for (const id of scope) {
+    const inputs = (plan.incoming.get(id) || []).filter(
+      (edge) => scope.has(edge.source) && !plan.backEdgeIds.has(edge.id)
+    );
+    remainingInputs.set(id, inputs.length);
+    firedInputs.set(id, []);
+  }
+
+  const ready: Array<{ id: string; input: Record<string, unknown> }> = [];
+  const settled = new Set<string>();
+  const completed: string[] = [];
+
+  const enqueue = (id: string, input: Record<string, unknown>) => {
+    ready.push({ id, input });
+    ready.sort((a, b) => (orderIndex.get(a.id) ?? 0) - (orderIndex.get(b.id) ?? 0));
+  };
+
+  const resolveEdge = (edge: WorkflowEdge, payload: Record<string, unknown> | null) => {
+    const targetId = edge.target;
+    if (!scope.has(targetId) || startIds.has(targetId) || settled.has(targetId) || plan.backEdgeIds.has(edge.id)) {
+      return;
+    }
+    if (payload) {
+      firedInputs.get(targetId)!.push({ sourceId: edge.source, payload });
+    }
+    const remaining = remainingInputs.get(targetId)! - 1;
+    remainingInputs.set(targetId, remaining);
+    if (remaining > 0) return;
+
+    settled.add(targetId);
+    const fired = firedInputs.get(targetId)!;
+    if (fired.length > 0) {
+      fired.sort((a, b) => (orderIndex.get(a.sourceId) ?? 0) - (orderIndex.get(b.sourceId) ?? 0));
+      enqueue(targetId, Object.assign({}, ...fired.map((item) => item.payload)));
+    } else {
+      // Dead path: every input was skipped, so skip this node and its branch
+      for (const nextEdge of plan.outgoing.get(targetId) || []) {
+        resolveEdge(nextEdge, null);
+      }
+    }
+  };
+
+  for (const id of plan.order) {
+    if (startIds.has(id)) {
+      settled.add(id);
+      enqueue(id, options.input);
+    }
+  }
+
+  type Settled = { id: string; completion?: NodeCompletion; error?: unknown };
+  const running = new Map<string, Promise<Settled>>();
+  let failure: { error: unknown } | null = null;
+
+  while (ready.length > 0 || running.size > 0) {
+    while (!failure && ready.length > 0 && running.size < Math.max(1, concurrency)) {
+      const { id, input } = ready.shift()!;
+      const node = plan.nodes.get(id)!;
+      const checkpoint = options.checkpoints?.get(id);
+      running.set(
+        id,
+        (checkpoint ? Promise.resolve(checkpoint) : options.runNode(node, input)).then(
+          (completion) => ({ id, completion }),
+          (error) => ({ id, error })
+        )
+      );
+    }
+
+    if (running.size === 0) break;
+
+    const result = await Promise.race(running.values());
+    running.delete(result.id);
+
+    if (result.error !== undefined || !result.completion) {
+      // Stop starting new nodes and let in-flight ones finish before failing
+      failure = failure || { error: result.error };
+      continue;
+    }
+
+    completed.push(result.id);
+    const active = new Set(result.completion.activeEdges.map((edge) => edge.id));
+    for (const edge of plan.outgoing.get(result.id) || []) {
+      resolveEdge(edge, active.has(edge.id) ? result.completion.payload : null);
+    }
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+
+  return completed.sort((a, b) => (orderIndex.get(a) ?? 0) - (orderIndex.get(b) ?? 0));
+}
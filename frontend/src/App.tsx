@@ -23,6 +23,7 @@ import Landing from './pages/Landing';
 import Preferences from './pages/Preferences';
 import ActivityLog from './pages/ActivityLog';
 import ApiKeys from './pages/ApiKeys';
+import LLMProviders from './pages/LLMProviders';
 import AuditLogs from './pages/AuditLogs';
 import EmailTriggerMonitoring from './pages/EmailTriggerMonitoring';
 import AdminTemplates from './pages/AdminTemplates';
@@ -35,6 +36,7 @@ import ConnectorMarketplace from './pages/ConnectorMarketplace';
 import SandboxStudio from './pages/SandboxStudio';
 import CodeAgentAnalytics from './pages/CodeAgentAnalytics';
 import PolicyConfiguration from './pages/PolicyConfiguration';
+import KnowledgeBases from './pages/KnowledgeBases';
 import About from './pages/About';
 import Contact from './pages/Contact';
 import Privacy from './pages/Privacy';
@@ -133,6 +135,7 @@ function App() {
               <Route path="preferences" element={<Preferences />} />
               <Route path="activity" element={<ActivityLog />} />
               <Route path="settings/api-keys" element={<ApiKeys />} />
+              <Route path="settings/llm-providers" element={<LLMProviders />} />
               <Route path="settings/audit-logs" element={<AuditLogs />} />
               <Route path="monitoring/email-triggers" element={<EmailTriggerMonitoring />} />
               <Route path="monitoring/performance" element={<PerformanceMonitoring />} />
@@ -143,6 +146,7 @@ function App() {
               <Route path="connectors" element={<ConnectorMarketplace />} />
               <Route path="sandbox" element={<SandboxStudio />} />
               <Route path="sandbox/analytics" element={<CodeAgentAnalytics />} />
+              <Route path="knowledge-bases" element={<KnowledgeBases />} />
               <Route path="observability" element={<ObservabilityDashboard />} />
               <Route path="settings/policies" element={<PolicyConfiguration />} />
             </Route>
@@ -36,6 +36,9 @@ interface ConnectorCredential {
   createdAt: string;
   updatedAt: string;
   expiresAt?: string;
+  status: 'active' | 'broken';
+  lastError?: string | null;
+  lastCheckedAt?: string | null;
 }
 
 interface ConnectorManagerProps {
@@ -77,6 +80,22 @@ export default function ConnectorManager({ onClose, onSelectConnector }: Connect
     },
   });
 
+  const testMutation = useMutation({
+    mutationFn: async (credentialId: string) => {
+      const response = await api.post(`/connectors/credentials/${credentialId}/test`);
+      return response.data as { status: 'active' | 'broken'; error?: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['connectors', 'credentials'] });
+      if (result.error) {
+        alert(`Connection test failed: ${result.error}`);
+      }
+    },
+    onError: (error: any) => {
+      alert(`Failed to test connection: ${error.response?.data?.error || error.message}`);
+    },
+  });
+
   const connectApiKeyMutation = useMutation({
     mutationFn: async ({ connectorId, apiKey, name }: { connectorId: string; apiKey: string; name?: string }) => {
       const response = await api.post('/connectors/credentials', {
@@ -119,6 +138,14 @@ export default function ConnectorManager({ onClose, onSelectConnector }: Connect
     return credentials?.some((c) => c.connectorId === connectorId) || false;
   };
 
+  const getCredential = (connectorId: string) => {
+    return credentials?.find((c) => c.connectorId === connectorId);
+  };
+
+  const needsReconnect = (connectorId: string) => {
+    return getCredential(connectorId)?.status === 'broken';
+  };
+
   const handleConnect = async (connector: ConnectorManifest) => {
     if (connector.auth.type === 'oauth2') {
       try {
@@ -226,7 +253,14 @@ export default function ConnectorManager({ onClose, onSelectConnector }: Connect
                         <span className="text-xs text-gray-500 dark:text-gray-400">v{connector.version}</span>
                       </div>
                     </div>
-                    {isConnected(connector.id) ? (
+                    {needsReconnect(connector.id) ? (
+                      <span
+                        title={getCredential(connector.id)?.lastError || undefined}
+                        className="px-2 py-1 text-xs bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 rounded"
+                      >
+                        Reconnect Required
+                      </span>
+                    ) : isConnected(connector.id) ? (
                       <span className="px-2 py-1 text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 rounded">
                         Connected
                       </span>
@@ -255,8 +289,31 @@ export default function ConnectorManager({ onClose, onSelectConnector }: Connect
                     </div>
                   </div>
 
+                  {needsReconnect(connector.id) && (
+                    <div className="mt-3 p-2 text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded">
+                      {getCredential(connector.id)?.lastError || 'These credentials stopped working.'} Reconnect to keep
+                      workflows using {connector.name} running.
+                    </div>
+                  )}
+
                   <div className="mt-4 flex gap-2">
-                    {isConnected(connector.id) ? (
+                    {needsReconnect(connector.id) ? (
+                      <>
+                        <button
+                          onClick={() => handleConnect(connector)}
+                          className="flex-1 px-3 py-1.5 text-sm bg-orange-500 text-white rounded hover:bg-orange-600"
+                        >
+                          Reconnect
+                        </button>
+                        <button
+                          onClick={() => testMutation.mutate(getCredential(connector.id)!.id)}
+                          disabled={testMutation.isPending}
+                          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          Test
+                        </button>
+                      </>
+                    ) : isConnected(connector.id) ? (
                       <>
                         <button
                           onClick={() => setSelectedConnector(connector)}
@@ -264,6 +321,13 @@ export default function ConnectorManager({ onClose, onSelectConnector }: Connect
                         >
                           View Actions
                         </button>
+                        <button
+                          onClick={() => testMutation.mutate(getCredential(connector.id)!.id)}
+                          disabled={testMutation.isPending}
+                          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          Test
+                        </button>
                         <button
                           onClick={() => handleDisconnect(connector.id)}
                           disabled={revokeMutation.isPending}
@@ -19,7 +19,7 @@ interface ExecutionLog {
 interface Execution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
   startedAt: Date | string;
   finishedAt?: Date | string;
   input?: Record<string, unknown>;
@@ -37,6 +37,21 @@ interface Execution {
       inputSchema?: Record<string, unknown>;
       requestedAt: string;
     };
+    wait?: {
+      nodeId: string;
+      mode: 'timer' | 'event';
+      resumeAt?: string;
+      correlationKey?: string;
+      secret?: string;
+    };
+    cancelledBy?: string;
+    cancelledAt?: string;
+    parentExecution?: {
+      executionId: string;
+      workflowId: string;
+      nodeId: string;
+      depth: number;
+    };
   };
   logs?: ExecutionLog[];
 }
@@ -62,6 +77,8 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
   } | null>(null);
   const [resumeModifications, setResumeModifications] = useState<Record<string, unknown>>({});
   const [socket, setSocket] = useState<Socket | null>(null);
+  // Text streamed so far by LLM and RAG nodes of the running execution
+  const [liveOutputs, setLiveOutputs] = useState<Record<string, string>>({});
   const queryClient = useQueryClient();
 
   const { data: execution, isLoading: loading } = useQuery({
@@ -114,13 +131,25 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
       }
     });
 
+    newSocket.on('execution:event', (event: { type: string; executionId: string; nodeId?: string; data?: { chunk?: string; reset?: boolean } }) => {
+      if (event.executionId !== executionId) return;
+      if (event.type === 'execution_cancelled') {
+        queryClient.invalidateQueries({ queryKey: ['executions', executionId] });
+      }
+      if (event.type === 'node_chunk' && event.nodeId) {
+        const { chunk = '', reset } = event.data || {};
+        setLiveOutputs((prev) => ({ ...prev, [event.nodeId!]: reset ? chunk : (prev[event.nodeId!] || '') + chunk }));
+      }
+    });
+
     setSocket(newSocket);
+    setLiveOutputs({});
 
     return () => {
       newSocket.emit('leave-execution', executionId);
       newSocket.disconnect();
     };
-  }, [executionId]);
+  }, [executionId, queryClient]);
 
   // Check for human prompt in metadata
   useEffect(() => {
@@ -150,6 +179,15 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await api.post(`/executions/${executionId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['executions', executionId] });
+    },
+  });
+
   const handleHumanPromptResponse = (response: Record<string, unknown>) => {
     setShowHumanPrompt(false);
     setHumanPromptData(null);
@@ -191,6 +229,8 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
         return 'text-blue-600 bg-blue-50';
       case 'paused':
         return 'text-orange-600 bg-orange-50';
+      case 'cancelled':
+        return 'text-gray-700 bg-gray-200';
       default:
         return 'text-gray-600 bg-gray-50';
     }
@@ -261,6 +301,44 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
                 )}
               </div>
             )}
+            {execution.status === 'paused' && execution.metadata?.wait && (
+              <div className="mb-2 p-2 bg-orange-50 border border-orange-200 rounded text-xs">
+                <div className="font-semibold text-orange-800">
+                  Waiting at node <span className="font-mono">{execution.metadata.wait.nodeId}</span>
+                </div>
+                {execution.metadata.wait.mode === 'event' && (
+                  <div className="text-orange-700">
+                    For event <span className="font-mono">{execution.metadata.wait.correlationKey}</span>
+                  </div>
+                )}
+                {execution.metadata.wait.mode === 'event' && execution.metadata.wait.secret && (
+                  <div className="text-orange-700">
+                    X-Wait-Secret <span className="font-mono break-all">{execution.metadata.wait.secret}</span>
+                  </div>
+                )}
+                {execution.metadata.wait.resumeAt && (
+                  <div className="text-orange-700">
+                    {execution.metadata.wait.mode === 'event' ? 'Times out' : 'Resumes'}{' '}
+                    {new Date(execution.metadata.wait.resumeAt).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            )}
+            {execution.status === 'cancelled' && (
+              <div className="mb-2 p-2 bg-gray-50 border border-gray-200 rounded text-xs text-gray-700">
+                Execution cancelled
+                {execution.metadata?.cancelledAt && ` at ${new Date(execution.metadata.cancelledAt).toLocaleTimeString()}`}
+              </div>
+            )}
+            {execution.metadata?.parentExecution && (
+              <div className="mb-2 p-2 bg-indigo-50 border border-indigo-200 rounded text-xs">
+                <div className="font-semibold text-indigo-800">Sub-workflow run</div>
+                <div className="text-indigo-700">
+                  Called by node <span className="font-mono">{execution.metadata.parentExecution.nodeId}</span> of execution{' '}
+                  <span className="font-mono">{execution.metadata.parentExecution.executionId}</span>
+                </div>
+              </div>
+            )}
             <div className="text-xs text-gray-600 space-y-1">
               <div>Duration: {Math.round(duration / 1000)}s</div>
               {execution.finishedAt && (
@@ -268,7 +346,7 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
               )}
             </div>
             <div className="flex gap-2 mt-2">
-              {(execution.status === 'completed' || execution.status === 'failed') && (
+              {(execution.status === 'completed' || execution.status === 'failed' || execution.status === 'cancelled') && (
                 <button
                   onClick={() => setShowReplay(true)}
                   className="flex-1 px-3 py-1.5 bg-purple-500 text-white text-xs rounded hover:bg-purple-600"
@@ -296,11 +374,35 @@ export default function ExecutionMonitor({ executionId, onClose }: ExecutionMoni
                   </button>
                 </>
               )}
+              {['queued', 'pending', 'running', 'paused'].includes(execution.status) && (
+                <button
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending}
+                  className="flex-1 px-3 py-1.5 bg-red-500 text-white text-xs rounded hover:bg-red-600 disabled:opacity-50"
+                >
+                  {cancelMutation.isPending ? 'Cancelling...' : 'Cancel'}
+                </button>
+              )}
             </div>
           </>
         )}
       </div>
 
+      {/* Live output of streaming nodes */}
+      {(execution?.status === 'pending' || execution?.status === 'running') && Object.keys(liveOutputs).length > 0 && (
+        <div className="p-4 border-b border-gray-200 space-y-2 max-h-64 overflow-y-auto">
+          {Object.entries(liveOutputs).map(([nodeId, text]) => (
+            <div key={nodeId}>
+              <div className="text-xs font-medium text-gray-500 mb-1">{nodeId}</div>
+              <p className="text-sm whitespace-pre-wrap text-gray-900 dark:text-gray-100">
+                {text}
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Filters and Controls */}
       <div className="p-4 border-b border-gray-200 space-y-2">
         <div className="flex gap-2">
@@ -640,12 +742,16 @@ function StepsView({ executionId }: { executionId: string }) {
       {steps.map((step: any) => (
         <div
           key={step.id}
-          className={`border rounded p-3 text-sm ${getStatusColor(step.status)}`}
+          className={`border rounded p-3 text-sm ${step.parentStepId ? 'ml-6' : ''} ${getStatusColor(step.status)}`}
         >
           <div className="flex items-center justify-between mb-1">
             <div className="flex items-center gap-2">
               <span className="font-mono text-xs">Step {step.stepNumber}</span>
               <span className="font-mono font-semibold">{step.nodeId}</span>
+              {/* Tool calls made by an LLM node are recorded as its child steps */}
+              {step.parentStepId && step.input?.tool && (
+                <span className="text-xs">Tool: {step.input.tool}</span>
+              )}
             </div>
             <span className={`px-2 py-0.5 rounded text-xs ${getStatusColor(step.status)}`}>
               {step.status}
@@ -656,8 +762,38 @@ function StepsView({ executionId }: { executionId: string }) {
               Duration: {step.executionTime}ms
             </div>
           )}
+          {(step.output?.childExecutionId || step.error?.details?.childExecutionId) && (
+            <SubWorkflowExecution executionId={step.output?.childExecutionId || step.error.details.childExecutionId} />
+          )}
         </div>
       ))}
     </div>
   );
 }
+
+// Child run of an Execute Workflow step, expandable inline
+function SubWorkflowExecution({ executionId }: { executionId: string }) {
+  const { data: child } = useQuery({
+    queryKey: ['executions', executionId, 'summary'],
+    queryFn: async () => {
+      const response = await api.get(`/executions/${executionId}?limit=1`);
+      return response.data as Execution;
+    },
+    refetchInterval: (query) => {
+      const status = (query.state.data as Execution | undefined)?.status;
+      return status === 'running' || status === 'pending' || status === 'queued' ? 2000 : false;
+    },
+  });
+
+  return (
+    <details className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <summary className="text-xs cursor-pointer text-gray-700 dark:text-gray-300">
+        Sub-workflow <span className="font-mono">{executionId}</span>
+        {child && <span className="ml-2 px-2 py-0.5 rounded bg-white/60 dark:bg-gray-800">{child.status}</span>}
+      </summary>
+      <div className="mt-2 pl-3 border-l-2 border-indigo-300 dark:border-indigo-700">
+        <StepsView executionId={executionId} />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import api from '../lib/api';
+
+interface ExpressionError {
+  field: string;
+  expression: string;
+  message: string;
+}
+
+interface ExpressionPreviewProps {
+  value: string;
+  workflowId?: string;
+  executionId?: string | null;
+}
+
+// Only expressions starting with `$` are resolved by the backend
+const EXPRESSION_PATTERN = /\{\{\s*\$[\s\S]*?\}\}/;
+
+function hasExpression(value: unknown): boolean {
+  return typeof value === 'string' && EXPRESSION_PATTERN.test(value);
+}
+
+export default function ExpressionPreview({ value, workflowId, executionId }: ExpressionPreviewProps) {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), 400);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['expressions', 'preview', debouncedValue, workflowId, executionId],
+    queryFn: async () => {
+      const response = await api.post('/workflows/expressions/preview', {
+        value: debouncedValue,
+        workflowId: workflowId && workflowId !== 'new' ? workflowId : undefined,
+        executionId: executionId || undefined,
+      });
+      return response.data as { value: unknown; errors: ExpressionError[] };
+    },
+    enabled: hasExpression(debouncedValue),
+  });
+
+  if (!hasExpression(value)) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 p-2 bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-md text-xs">
+      <p className="font-medium text-gray-600 dark:text-gray-400 mb-1">
+        Expression preview{executionId ? ' (using last execution)' : ''}
+      </p>
+      {isLoading && <p className="text-gray-500 dark:text-gray-400">Resolving...</p>}
+      {isError && <p className="text-red-600 dark:text-red-400">Failed to resolve expression</p>}
+      {data && data.errors.length > 0 && (
+        <ul className="space-y-1">
+          {data.errors.map((error, index) => (
+            <li key={index} className="text-red-600 dark:text-red-400">
+              <code className="font-mono">{error.expression}</code>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {data && data.errors.length === 0 && (
+        <pre className="font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">
+          {typeof data.value === 'string' ? data.value : JSON.stringify(data.value, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ const navItems: NavItem[] = [
   { to: '/dashboard/settings/roles', label: 'Roles', icon: <RolesIcon />, section: 'settings' },
   { to: '/dashboard/settings/teams', label: 'Teams', icon: <TeamsIcon />, section: 'settings' },
   { to: '/dashboard/settings/api-keys', label: 'API Keys', icon: <ApiKeysIcon />, section: 'settings' },
+  { to: '/dashboard/settings/llm-providers', label: 'LLM Providers', icon: <LLMProvidersIcon />, section: 'settings' },
   { to: '/dashboard/settings/templates', label: 'Templates', icon: <TemplatesIcon />, section: 'settings' },
   { to: '/dashboard/settings/audit-logs', label: 'Audit Logs', icon: <AuditLogsIcon />, section: 'settings' },
   { to: '/dashboard/monitoring/email-triggers', label: 'Email Monitoring', icon: <EmailMonitoringIcon />, section: 'monitoring' },
@@ -27,6 +28,7 @@ const navItems: NavItem[] = [
   { to: '/dashboard/agents/copilot', label: 'Agent Copilot', icon: <AgentCopilotIcon />, section: 'agents' },
   { to: '/dashboard/agents/catalogue', label: 'Agent Catalogue', icon: <AgentCatalogueIcon />, section: 'agents' },
   { to: '/dashboard/sandbox', label: 'Sandbox Studio', icon: <SandboxStudioIcon />, section: 'agents' },
+  { to: '/dashboard/knowledge-bases', label: 'Knowledge Bases', icon: <KnowledgeBaseIcon />, section: 'agents' },
   { to: '/dashboard/observability', label: 'Observability', icon: <ObservabilityIcon />, section: 'monitoring' },
   { to: '/dashboard/activity', label: 'Activity Log', icon: <ActivityLogIcon />, section: 'main' },
 ];
@@ -88,6 +90,14 @@ function ApiKeysIcon() {
   );
 }
 
+function LLMProvidersIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01" />
+    </svg>
+  );
+}
+
 function TemplatesIcon() {
   return (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -160,6 +170,14 @@ function ActivityLogIcon() {
   );
 }
 
+function KnowledgeBaseIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+    </svg>
+  );
+}
+
 function SandboxStudioIcon() {
   return (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -3,14 +3,19 @@ import { Node } from 'reactflow';
 import { getNodeDefinition } from '../lib/nodes/nodeRegistry';
 import api from '../lib/api';
 import { CodeEditor } from './CodeEditor';
+import ExpressionPreview from './ExpressionPreview';
+import WebhookAuthSettings, { WebhookAuthConfig } from './WebhookAuthSettings';
 import { useQuery } from '@tanstack/react-query';
 import { useModals } from '../lib/modals';
+import { queryKeys } from '../lib/queryKeys';
 
 interface NodeConfigPanelProps {
   node: Node | null;
   onUpdate: (nodeId: string, data: Record<string, unknown>) => void;
   onClose: () => void;
   onDelete?: (nodeId: string) => void;
+  workflowId?: string;
+  executionId?: string | null;
 }
 
 // Helper function to get user-friendly labels for property keys
@@ -21,6 +26,14 @@ const getPropertyLabel = (key: string): string => {
     'selectedAgent': 'Select Agent',
     'model': 'Model',
     'provider': 'Provider',
+    'providerId': 'LLM Provider',
+    'llmProviderId': 'Organization LLM Provider',
+    'embeddingProviderId': 'Embedding Provider',
+    'embeddingModel': 'Embedding Model',
+    'promptId': 'Prompt',
+    'promptVersion': 'Prompt Version',
+    'promptLabel': 'Prompt Label',
+    'promptVariables': 'Prompt Variables',
     'temperature': 'Temperature',
     'maxIterations': 'Max Iterations',
     'tools': 'Tools',
@@ -65,7 +78,7 @@ const getPropertyLabel = (key: string): string => {
     .trim();
 };
 
-export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: NodeConfigPanelProps) {
+export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete, workflowId, executionId }: NodeConfigPanelProps) {
   const [config, setConfig] = useState<Record<string, unknown>>({});
   const [retry, setRetry] = useState<Record<string, unknown>>({});
   const [isConnecting, setIsConnecting] = useState(false);
@@ -82,6 +95,27 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
     enabled: node?.data?.type === 'ai.rag' || node?.data?.type === 'ai.document_ingest' || node?.data?.type === 'ai.agent',
   });
 
+  // Fetch organization LLM providers for provider ID fields
+  const { data: llmProviders = [] } = useQuery({
+    queryKey: queryKeys.llmProviders.all,
+    queryFn: async () => {
+      const response = await api.get('/llm-providers');
+      return response.data as Array<{ id: string; name: string; isPrivate: boolean; enabled: boolean }>;
+    },
+    enabled: ['ai.llm', 'ai.embedding', 'ai.agent', 'ai.rag', 'ai.semantic_search', 'ai.vector_store', 'ai.document_ingest']
+      .includes(node?.data?.type as string),
+  });
+
+  // Fetch the organization's prompt library for prompt fields
+  const { data: promptLibrary = [] } = useQuery({
+    queryKey: queryKeys.prompts.all,
+    queryFn: async () => {
+      const response = await api.get('/prompts');
+      return response.data as Array<{ id: string; name: string; latestVersion: string | null; labels: Record<string, string> }>;
+    },
+    enabled: ['ai.llm', 'ai.rag', 'ai.agent'].includes(node?.data?.type as string),
+  });
+
   // Fetch connectors to use as tools for AI agents
   const { data: connectors = [] } = useQuery({
     queryKey: ['connectors'],
@@ -459,6 +493,64 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
       );
     }
 
+    // Organization LLM provider selection (vLLM, Ollama, Azure OpenAI, ...)
+    if (key === 'providerId' || key === 'llmProviderId' || key === 'embeddingProviderId') {
+      return (
+        <div className="space-y-2">
+          <select
+            value={value as string || ''}
+            onChange={(e) => handleChange(key, e.target.value || undefined)}
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            <option value="">{key === 'embeddingProviderId' ? 'OpenAI (default)' : 'None'}</option>
+            {llmProviders.map((provider) => (
+              <option key={provider.id} value={provider.id} disabled={!provider.enabled}>
+                {provider.name}{provider.isPrivate ? ' (private)' : ''}{provider.enabled ? '' : ' - disabled'}
+              </option>
+            ))}
+          </select>
+          {property.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{property.description}</p>
+          )}
+        </div>
+      );
+    }
+
+    // Prompt library selection
+    if (key === 'promptId') {
+      const selected = promptLibrary.find((prompt) => prompt.id === value);
+      return (
+        <div className="space-y-2">
+          <select
+            value={value as string || ''}
+            onChange={(e) => handleChange(key, e.target.value || undefined)}
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          >
+            <option value="">None</option>
+            {promptLibrary.map((prompt) => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.name}{prompt.latestVersion ? ` (v${prompt.latestVersion})` : ''}
+              </option>
+            ))}
+          </select>
+          {selected && Object.keys(selected.labels).length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {Object.entries(selected.labels).map(([label, version]) => `${label}: ${version}`).join(', ')}
+            </p>
+          )}
+          {property.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{property.description}</p>
+          )}
+        </div>
+      );
+    }
+
     // Special handling for hook fields (preIngestHook, postAnswerHook) and agent selection
     if (key === 'preIngestHook' || key === 'postAnswerHook' || key === 'selectedAgent') {
       return (
@@ -643,34 +735,37 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
           );
         }
         return (
-          <textarea
-            value={value as string}
-            onChange={(e) => {
-              e.stopPropagation();
-              handleChange(key, e.target.value);
-            }}
-            onClick={(e) => {
-              e.stopPropagation();
-              (e.target as HTMLTextAreaElement).focus();
-            }}
-            onMouseDown={(e) => {
-              e.stopPropagation();
-            }}
-            onKeyDown={(e) => {
-              e.stopPropagation();
-            }}
-            onFocus={(e) => {
-              e.stopPropagation();
-            }}
-            placeholder={property.description}
-            rows={3}
-            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm"
-            style={{ 
-              color: 'inherit',
-              WebkitTextFillColor: 'inherit',
-            }}
-            autoComplete="off"
-          />
+          <div>
+            <textarea
+              value={value as string}
+              onChange={(e) => {
+                e.stopPropagation();
+                handleChange(key, e.target.value);
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                (e.target as HTMLTextAreaElement).focus();
+              }}
+              onMouseDown={(e) => {
+                e.stopPropagation();
+              }}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+              }}
+              onFocus={(e) => {
+                e.stopPropagation();
+              }}
+              placeholder={property.description}
+              rows={3}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm"
+              style={{ 
+                color: 'inherit',
+                WebkitTextFillColor: 'inherit',
+              }}
+              autoComplete="off"
+            />
+            <ExpressionPreview value={value as string} workflowId={workflowId} executionId={executionId} />
+          </div>
         );
 
       case 'array':
@@ -875,6 +970,30 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
           </div>
         );
 
+      case 'object':
+        return (
+          <div className="space-y-2">
+            <textarea
+              defaultValue={JSON.stringify(value && typeof value === 'object' ? value : {}, null, 2)}
+              onChange={(e) => {
+                try {
+                  const parsed = JSON.parse(e.target.value);
+                  handleChange(key, parsed);
+                } catch {
+                  // Invalid JSON, keep editing until it parses
+                }
+              }}
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => e.stopPropagation()}
+              onKeyDown={(e) => e.stopPropagation()}
+              placeholder={property.description || 'Enter JSON object'}
+              rows={6}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">Enter as JSON object</p>
+          </div>
+        );
+
       case 'number':
         return (
           <div className="space-y-1">
@@ -1070,6 +1189,16 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
           </div>
         )}
 
+        {/* Signature, token and IP checks for Webhook Triggers */}
+        {(node.data.type as string) === 'trigger.webhook' && (
+          <WebhookAuthSettings
+            nodeId={node.id}
+            auth={config.auth as WebhookAuthConfig | undefined}
+            onChange={(auth) => handleChange('auth', auth)}
+            workflowId={workflowId}
+          />
+        )}
+
         {/* OAuth Connection Section for Email Triggers */}
         {(node.data.type as string)?.startsWith('trigger.email.gmail') && (
           <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4">
@@ -1556,6 +1685,32 @@ export default function NodeConfigPanel({ node, onUpdate, onClose, onDelete }: N
             )}
           </div>
         </div>
+
+        {/* Error Handling Section */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Error Handling</h4>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              On Error
+            </label>
+            <select
+              value={(node.data.onError as string) || 'stop'}
+              onChange={(e) => onUpdate(node.id, { ...node.data, onError: e.target.value })}
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => e.stopPropagation()}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            >
+              <option value="stop">Stop workflow</option>
+              <option value="continue">Continue (pass the error to the next nodes)</option>
+              <option value="errorOutput">Route to error output</option>
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              What happens when this node fails after all retries
+            </p>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -17,6 +17,16 @@ interface ConnectorManifest {
     name: string;
     description: string;
   }>;
+  triggers?: Array<{
+    id: string;
+    name: string;
+    description: string;
+    mode?: 'webhook' | 'polling';
+    configSchema?: {
+      properties?: Record<string, any>;
+      required?: string[];
+    };
+  }>;
 }
 
 const categories = [
@@ -113,6 +123,46 @@ export default function NodePalette({ onAddNode }: NodePaletteProps) {
     return nodes;
   }, [connectors]);
 
+  // Generate trigger.<connector>.<event> nodes from connector triggers
+  const connectorTriggerNodes = useMemo(() => {
+    const nodes: NodeDefinition[] = [];
+
+    connectors.forEach((connector) => {
+      (connector.triggers || []).forEach((trigger) => {
+        const properties: Record<string, any> = { ...(trigger.configSchema?.properties || {}) };
+        if (trigger.mode === 'polling') {
+          properties.pollInterval = {
+            type: 'number',
+            description: 'Poll interval in seconds (minimum 60)',
+            default: 300,
+          };
+        }
+
+        const nodeDef: NodeDefinition = {
+          type: `trigger.${connector.id}.${trigger.id}`,
+          name: `${connector.name}: ${trigger.name}`,
+          description: trigger.description,
+          category: 'trigger',
+          icon: 'plug',
+          inputs: [],
+          outputs: [
+            { name: 'event', type: 'object', description: 'Event data' },
+            { name: 'trigger', type: 'object', description: 'Trigger metadata' },
+          ],
+          config: {
+            type: 'object',
+            properties,
+            required: trigger.configSchema?.required,
+          },
+        };
+        nodes.push(nodeDef);
+        registerConnectorNode(nodeDef);
+      });
+    });
+
+    return nodes;
+  }, [connectors]);
+
   // Combine hardcoded nodes with dynamic integration nodes
   const allNodes = useMemo(() => {
     const hardcodedNodes = getAllNodes();
@@ -123,8 +173,11 @@ export default function NodePalette({ onAddNode }: NodePaletteProps) {
     const newIntegrationNodes = integrationNodes.filter(
       n => !existingIntegrationTypes.has(n.type)
     );
-    return [...hardcodedNodes, ...newIntegrationNodes];
-  }, [integrationNodes]);
+    const newTriggerNodes = connectorTriggerNodes.filter(
+      n => !hardcodedNodes.some(h => h.type === n.type)
+    );
+    return [...hardcodedNodes, ...newIntegrationNodes, ...newTriggerNodes];
+  }, [integrationNodes, connectorTriggerNodes]);
 
   const filteredNodes = allNodes.filter((node) => {
     const matchesCategory = !selectedCategory || node.category === selectedCategory;
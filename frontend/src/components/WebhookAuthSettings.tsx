@@ -0,0 +1,255 @@
+import { useQuery } from '@tanstack/react-query';
+import api from '../lib/api';
+
+export interface WebhookAuthConfig {
+  type?: 'none' | 'hmac' | 'header' | 'basic';
+  hmac?: { style: 'github' | 'stripe' | 'slack' | 'generic'; secret: string; header?: string; timestampHeader?: string };
+  header?: { name: string; value: string };
+  basic?: { username: string; password: string };
+  ipAllowlist?: string[];
+  replayProtection?: { enabled: boolean; toleranceSeconds?: number; nonceHeader?: string };
+}
+
+interface WebhookRejection {
+  id: string;
+  createdAt: string;
+  ipAddress?: string;
+  details?: { nodeId?: string; reason?: string; message?: string };
+}
+
+interface WebhookAuthSettingsProps {
+  nodeId: string;
+  auth: WebhookAuthConfig | undefined;
+  onChange: (auth: WebhookAuthConfig) => void;
+  workflowId?: string;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400';
+
+const labelClassName = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+export default function WebhookAuthSettings({ nodeId, auth = {}, onChange, workflowId }: WebhookAuthSettingsProps) {
+  const authType = auth.type || 'none';
+  const hasWorkflow = !!workflowId && workflowId !== 'new';
+
+  const { data: rejections = [] } = useQuery({
+    queryKey: ['audit-logs', 'webhook.rejected', workflowId],
+    queryFn: async () => {
+      const response = await api.get('/audit-logs', {
+        params: { action: 'webhook.rejected', resourceId: workflowId, limit: 20 },
+      });
+      return (response.data.logs as WebhookRejection[]).filter((log) => !log.details?.nodeId || log.details.nodeId === nodeId);
+    },
+    enabled: hasWorkflow,
+  });
+
+  const update = (changes: Partial<WebhookAuthConfig>) => onChange({ ...auth, ...changes });
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700 pb-4 mb-4 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Webhook Security</h4>
+
+      <div>
+        <label className={labelClassName}>Authentication</label>
+        <select
+          value={authType}
+          onChange={(e) => update({ type: e.target.value as WebhookAuthConfig['type'] })}
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+          className={inputClassName}
+        >
+          <option value="none">None (path only)</option>
+          <option value="hmac">HMAC signature</option>
+          <option value="header">Shared header token</option>
+          <option value="basic">Basic auth</option>
+        </select>
+      </div>
+
+      {authType === 'hmac' && (
+        <>
+          <div>
+            <label className={labelClassName}>Signature style</label>
+            <select
+              value={auth.hmac?.style || 'generic'}
+              onChange={(e) =>
+                update({ hmac: { secret: '', ...auth.hmac, style: e.target.value as 'github' | 'stripe' | 'slack' | 'generic' } })
+              }
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+            >
+              <option value="github">GitHub (X-Hub-Signature-256)</option>
+              <option value="stripe">Stripe (Stripe-Signature)</option>
+              <option value="slack">Slack (X-Slack-Signature)</option>
+              <option value="generic">Generic SHA-256</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClassName}>Signing secret</label>
+            <input
+              type="password"
+              value={auth.hmac?.secret || ''}
+              onChange={(e) => update({ hmac: { style: 'generic', ...auth.hmac, secret: e.target.value } })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+          {(auth.hmac?.style || 'generic') === 'generic' && (
+            <div>
+              <label className={labelClassName}>Signature header</label>
+              <input
+                type="text"
+                value={auth.hmac?.header || ''}
+                placeholder="X-Signature"
+                onChange={(e) => update({ hmac: { style: 'generic', secret: '', ...auth.hmac, header: e.target.value } })}
+                onKeyDown={(e) => e.stopPropagation()}
+                className={inputClassName}
+                autoComplete="off"
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {authType === 'header' && (
+        <>
+          <div>
+            <label className={labelClassName}>Header name</label>
+            <input
+              type="text"
+              value={auth.header?.name || ''}
+              placeholder="X-Webhook-Token"
+              onChange={(e) => update({ header: { value: '', ...auth.header, name: e.target.value } })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Token</label>
+            <input
+              type="password"
+              value={auth.header?.value || ''}
+              onChange={(e) => update({ header: { name: '', ...auth.header, value: e.target.value } })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+        </>
+      )}
+
+      {authType === 'basic' && (
+        <>
+          <div>
+            <label className={labelClassName}>Username</label>
+            <input
+              type="text"
+              value={auth.basic?.username || ''}
+              onChange={(e) => update({ basic: { password: '', ...auth.basic, username: e.target.value } })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Password</label>
+            <input
+              type="password"
+              value={auth.basic?.password || ''}
+              onChange={(e) => update({ basic: { username: '', ...auth.basic, password: e.target.value } })}
+              onKeyDown={(e) => e.stopPropagation()}
+              className={inputClassName}
+              autoComplete="off"
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <label className={labelClassName}>IP allowlist (one IP or CIDR per line)</label>
+        <textarea
+          value={(auth.ipAllowlist || []).join('\n')}
+          onChange={(e) =>
+            update({ ipAllowlist: e.target.value.split('\n').map((line) => line.trim()).filter(Boolean) })
+          }
+          onKeyDown={(e) => e.stopPropagation()}
+          placeholder="192.30.252.0/22"
+          rows={3}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={auth.replayProtection?.enabled || false}
+            onChange={(e) => update({ replayProtection: { ...auth.replayProtection, enabled: e.target.checked } })}
+            onClick={(e) => e.stopPropagation()}
+            className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:bg-gray-700"
+          />
+          Reject replayed requests
+        </label>
+        {auth.replayProtection?.enabled && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClassName}>Window (seconds)</label>
+              <input
+                type="number"
+                value={auth.replayProtection.toleranceSeconds ?? 300}
+                onChange={(e) =>
+                  update({
+                    replayProtection: { enabled: true, ...auth.replayProtection, toleranceSeconds: parseInt(e.target.value, 10) || 300 },
+                  })
+                }
+                onKeyDown={(e) => e.stopPropagation()}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Nonce header</label>
+              <input
+                type="text"
+                value={auth.replayProtection.nonceHeader || ''}
+                placeholder="X-Request-Id"
+                onChange={(e) =>
+                  update({ replayProtection: { enabled: true, ...auth.replayProtection, nonceHeader: e.target.value } })
+                }
+                onKeyDown={(e) => e.stopPropagation()}
+                className={inputClassName}
+                autoComplete="off"
+              />
+              {(auth.type === 'header' || auth.type === 'basic') && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Required: requests without it are rejected</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {hasWorkflow && (
+        <div>
+          <p className={labelClassName}>Recent rejected requests</p>
+          {rejections.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No rejected requests</p>
+          ) : (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {rejections.map((rejection) => (
+                <li key={rejection.id} className="text-xs p-2 bg-red-50 dark:bg-red-900/20 rounded">
+                  <span className="font-medium text-red-700 dark:text-red-300">{rejection.details?.reason}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {' '}
+                    · {rejection.ipAddress || 'unknown IP'} · {new Date(rejection.createdAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
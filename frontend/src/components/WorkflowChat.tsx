@@ -10,12 +10,20 @@ interface Message {
   timestamp: Date;
 }
 
+interface LiveOutput {
+  nodeId: string;
+  label: string;
+  text: string;
+  streaming: boolean;
+}
+
 interface WorkflowChatProps {
+  liveOutputs?: LiveOutput[]; // Streamed LLM and RAG output of the current run
   onNodesGenerated: (nodes: Array<{ type: string; config: Record<string, unknown>; position: { x: number; y: number } }>) => void;
   onClose: () => void;
 }
 
-export default function WorkflowChat({ onNodesGenerated, onClose }: WorkflowChatProps) {
+export default function WorkflowChat({ liveOutputs = [], onNodesGenerated, onClose }: WorkflowChatProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -32,9 +40,12 @@ export default function WorkflowChat({ onNodesGenerated, onClose }: WorkflowChat
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Follow streamed text as it grows
+  const liveTextLength = liveOutputs.reduce((length, output) => length + output.text.length, 0);
+
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, liveTextLength]);
 
   const generateWorkflowMutation = useMutation({
     mutationFn: async (description: string) => {
@@ -227,6 +238,19 @@ Please try:
             </div>
           </div>
         ))}
+        {liveOutputs.map((output) => (
+          <div key={output.nodeId} className="flex justify-start">
+            <div className="max-w-[80%] rounded-lg p-3 bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">▶ {output.label}</p>
+              <p className="text-sm whitespace-pre-wrap">
+                {output.text}
+                {output.streaming && (
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                )}
+              </p>
+            </div>
+          </div>
+        ))}
         {generateWorkflowMutation.isPending && (
           <div className="flex justify-start">
             <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-3">
@@ -16,6 +16,7 @@ const nodeIcons: Record<string, string> = {
   'git-merge': '🔀',
   file: '📄',
   mail: '📧',
+  workflow: '🧩',
 };
 
 interface CustomNodeProps extends NodeProps {
@@ -27,6 +28,11 @@ interface CustomNodeProps extends NodeProps {
 function CustomNode({ data, selected, isExecuting, isCompleted, hasError }: CustomNodeProps) {
   const nodeDef = getNodeDefinition(data.type);
   const icon = nodeDef?.icon ? nodeIcons[nodeDef.icon] || '📦' : '📦';
+  // Nodes set to route failures to an error output get an extra red handle
+  const outputs = [...(nodeDef?.outputs || [])];
+  if (data.onError === 'errorOutput' && !outputs.some((output) => output.name === 'error')) {
+    outputs.push({ name: 'error', type: 'object', description: 'Error details when the node fails' });
+  }
   const name = nodeDef?.name || data.type;
 
   const hasBreakpoint = (data.breakpoint as boolean) || false;
@@ -79,9 +85,9 @@ function CustomNode({ data, selected, isExecuting, isCompleted, hasError }: Cust
       )}
 
       {/* Output handles */}
-      {nodeDef?.outputs && nodeDef.outputs.length > 0 && (
+      {outputs.length > 0 && (
         <div className="mt-2">
-          {nodeDef.outputs.map((output, idx) => {
+          {outputs.map((output, idx) => {
             // Use output name as handle ID for logic nodes (true/false, case names, etc.)
             const handleId = output.name || `output-${idx}`;
             const isErrorHandle = handleId === 'error';
@@ -94,7 +100,7 @@ function CustomNode({ data, selected, isExecuting, isCompleted, hasError }: Cust
                   style={{ top: '0px' }}
                   className={isErrorHandle ? '!bg-red-500 !w-3 !h-3' : '!bg-green-500 !w-3 !h-3'}
                 />
-                {nodeDef.outputs.length > 1 && (
+                {outputs.length > 1 && (
                   <span className={`absolute right-6 top-0 text-xs bg-white px-1 ${isErrorHandle ? 'text-red-600' : 'text-gray-600'}`}>
                     {output.name}
                   </span>
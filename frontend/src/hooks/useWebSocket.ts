@@ -2,7 +2,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 
 export interface ExecutionEvent {
-  type: 'node_start' | 'node_complete' | 'node_error' | 'execution_start' | 'execution_complete' | 'execution_paused' | 'execution_resumed';
+  type: 'node_start' | 'node_complete' | 'node_error' | 'node_chunk' | 'execution_start' | 'execution_complete' | 'execution_paused' | 'execution_resumed' | 'execution_cancelled';
   executionId: string;
   nodeId?: string;
   data?: Record<string, unknown>;
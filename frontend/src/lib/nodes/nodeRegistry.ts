@@ -39,6 +39,12 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
           enum: ['GET', 'POST', 'PUT', 'DELETE'],
           default: 'POST',
         },
+        responseMode: {
+          type: 'string',
+          description: 'What to return to the caller: acknowledge after the run, the Respond to Webhook node, the last node output, or 202 with the execution ID',
+          enum: ['on_completion', 'response_node', 'last_node', 'async'],
+          default: 'on_completion',
+        },
       },
       required: ['path'],
     },
@@ -70,6 +76,22 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
       required: ['cron'],
     },
   },
+  'trigger.error': {
+    type: 'trigger.error',
+    name: 'Error Trigger',
+    description: 'Start an error workflow when another execution fails',
+    category: 'trigger',
+    icon: 'alert-triangle',
+    inputs: [],
+    outputs: [
+      { name: 'execution', type: 'object', description: 'Failed execution (id, workflowId, workflowName, error, startedAt, failedAt)' },
+      { name: 'node', type: 'object', description: 'Failed node (id, type, error, input), if known' },
+    ],
+    config: {
+      type: 'object',
+      properties: {},
+    },
+  },
   'trigger.email.gmail': {
     type: 'trigger.email.gmail',
     name: 'Gmail Trigger',
@@ -299,6 +321,39 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
       },
     },
   },
+  'action.respond_webhook': {
+    type: 'action.respond_webhook',
+    name: 'Respond to Webhook',
+    description: 'Set the HTTP response returned to the webhook caller',
+    category: 'action',
+    icon: 'webhook',
+    inputs: [
+      { name: 'input', type: 'any', description: 'Data used as the response body when no body is configured' },
+    ],
+    outputs: [
+      { name: 'webhookResponse', type: 'object', description: 'Status code, headers and body sent to the caller' },
+    ],
+    config: {
+      type: 'object',
+      properties: {
+        statusCode: {
+          type: 'number',
+          description: 'HTTP status code',
+          default: 200,
+        },
+        headers: {
+          type: 'object',
+          description: 'Response headers',
+          default: {},
+        },
+        body: {
+          type: 'string',
+          description: 'Response body (JSON or text, supports {{ $input }} expressions). Defaults to the node input',
+          default: '',
+        },
+      },
+    },
+  },
   'action.web_scrape': {
     type: 'action.web_scrape',
     name: 'Web Scrape',
@@ -726,9 +781,13 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
       properties: {
         provider: {
           type: 'string',
-          enum: ['openai', 'anthropic', 'google'],
+          enum: ['openai', 'anthropic', 'google', 'openai_compatible'],
           default: 'openai',
         },
+        providerId: {
+          type: 'string',
+          description: 'Organization LLM provider ID (openai_compatible: vLLM, Ollama, LM Studio, Azure OpenAI)',
+        },
         model: {
           type: 'string',
           description: 'Model name',
@@ -749,6 +808,38 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
           description: 'System prompt',
           format: 'code',
         },
+        promptId: {
+          type: 'string',
+          description: 'Prompt library template (replaces the input prompt)',
+        },
+        promptVersion: {
+          type: 'string',
+          description: 'Pinned prompt version, e.g. 1.2.0 (overrides the label)',
+        },
+        promptLabel: {
+          type: 'string',
+          description: 'Prompt environment label to use, e.g. production or draft (default: production, then latest)',
+        },
+        promptVariables: {
+          type: 'object',
+          description: 'Values for the prompt template variables (node input fields are used too)',
+        },
+        stream: {
+          type: 'boolean',
+          description: 'Stream tokens to clients while they are generated (off when output validation is configured)',
+          default: true,
+        },
+        tools: {
+          type: 'array',
+          description: 'Tools the model may call, e.g. [{"type":"connector","connectorId":"slack","actionId":"send_message"}, {"type":"code_agent","agentId":"..."}, {"type":"workflow","workflowId":"...","inputSchema":{...}}]',
+          items: { type: 'object' },
+          default: [],
+        },
+        maxToolIterations: {
+          type: 'number',
+          description: 'Maximum tool call rounds before the node fails (1-10)',
+          default: 5,
+        },
       },
       required: ['provider', 'model'],
     },
@@ -768,9 +859,13 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
     config: {
       type: 'object',
       properties: {
+        providerId: {
+          type: 'string',
+          description: 'Organization LLM provider ID (openai_compatible: vLLM, Ollama, LM Studio, Azure OpenAI)',
+        },
         model: {
           type: 'string',
-          default: 'text-embedding-ada-002',
+          description: 'Embedding model (default: text-embedding-ada-002, or the provider\'s first embedding model)',
         },
       },
     },
@@ -821,6 +916,26 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
           default: 5,
           description: 'Number of results to return',
         },
+        embeddingProviderId: {
+          type: 'string',
+          description: 'Organization LLM provider ID for embeddings (default: OpenAI)',
+        },
+        embeddingModel: {
+          type: 'string',
+          description: 'Embedding model (default: text-embedding-ada-002, or the provider\'s first embedding model)',
+        },
+        distanceMetric: {
+          type: 'string',
+          enum: ['cosine', 'l2', 'inner_product'],
+          default: 'cosine',
+          description: 'Distance metric of a new database index',
+        },
+        annIndexType: {
+          type: 'string',
+          enum: ['hnsw', 'ivfflat', 'none'],
+          default: 'hnsw',
+          description: 'Approximate nearest neighbor index of a new database index (none = exact search)',
+        },
       },
       required: ['provider', 'operation'],
     },
@@ -828,16 +943,24 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
   'ai.document_ingest': {
     type: 'ai.document_ingest',
     name: 'Document Ingestion',
-    description: 'Process and chunk documents (PDF, DOCX, TXT)',
+    description: 'Process and chunk documents (PDF, DOCX, TXT), optionally syncing them into a vector index',
     category: 'ai',
     icon: 'file',
     inputs: [
       { name: 'file', type: 'string', description: 'File path or base64 content' },
       { name: 'text', type: 'string', description: 'Raw text content' },
+      { name: 'documentId', type: 'string', description: 'Stable id of the document in its source (required to sync into an index)' },
+      { name: 'metadata', type: 'object', description: 'Metadata stored with every chunk' },
+      { name: 'documents', type: 'array', description: 'All documents of a source: [{ id, file | text | content, metadata }]' },
     ],
     outputs: [
       { name: 'chunks', type: 'array', description: 'Text chunks' },
       { name: 'metadata', type: 'object', description: 'Document metadata' },
+      { name: 'ids', type: 'array', description: 'Ids of the synced chunks (when an index is set)' },
+      { name: 'added', type: 'number', description: 'Chunks embedded for the first time' },
+      { name: 'updated', type: 'number', description: 'Chunks re-embedded because their content changed' },
+      { name: 'removed', type: 'number', description: 'Chunks deleted from the index' },
+      { name: 'unchanged', type: 'number', description: 'Chunks left as they were' },
     ],
     config: {
       type: 'object',
@@ -868,6 +991,37 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
           type: 'string',
           description: 'Code agent ID for pre-ingest transformation (runs before document chunking)',
         },
+        indexName: {
+          type: 'string',
+          description: 'Vector index to sync the chunks into; only new or changed chunks are embedded (leave empty to only chunk)',
+        },
+        provider: {
+          type: 'string',
+          enum: ['memory', 'database', 'pinecone'],
+          default: 'memory',
+          description: 'Vector database provider of the index (pinecone requires a serverless index)',
+        },
+        apiKey: {
+          type: 'string',
+          description: 'API key (for Pinecone)',
+        },
+        embeddingProviderId: {
+          type: 'string',
+          description: 'Organization LLM provider ID for embeddings (default: OpenAI)',
+        },
+        embeddingModel: {
+          type: 'string',
+          description: 'Embedding model (default: text-embedding-ada-002, or the provider\'s first embedding model)',
+        },
+        syncScope: {
+          type: 'string',
+          description: 'Name of the synced collection, e.g. a folder (default: this node)',
+        },
+        removeMissing: {
+          type: 'boolean',
+          default: true,
+          description: 'Delete chunks of documents missing from the documents input',
+        },
       },
       required: ['chunkSize'],
     },
@@ -881,6 +1035,7 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
     inputs: [
       { name: 'query', type: 'string', required: true, description: 'Search query' },
       { name: 'embedding', type: 'array', description: 'Query embedding (optional, will generate if not provided)' },
+      { name: 'filter', type: 'object', description: 'Metadata filter (optional, combined with the configured filter)' },
     ],
     outputs: [
       { name: 'results', type: 'array', description: 'Search results with similarity scores' },
@@ -907,7 +1062,43 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
         minScore: {
           type: 'number',
           default: 0.7,
-          description: 'Minimum similarity score',
+          description: 'Minimum similarity score (vector mode without reranking)',
+        },
+        embeddingProviderId: {
+          type: 'string',
+          description: 'Organization LLM provider ID for embeddings (default: OpenAI)',
+        },
+        embeddingModel: {
+          type: 'string',
+          description: 'Embedding model (default: text-embedding-ada-002, or the provider\'s first embedding model)',
+        },
+        retrievalMode: {
+          type: 'string',
+          enum: ['vector', 'hybrid', 'keyword'],
+          default: 'vector',
+          description: 'vector = embedding similarity, keyword = full-text match (memory and database providers), hybrid = both fused by rank',
+        },
+        candidateCount: {
+          type: 'number',
+          description: 'Documents fetched per search before fusion and reranking (default: 4 x topK)',
+        },
+        rerankProvider: {
+          type: 'string',
+          enum: ['none', 'cohere', 'cross-encoder', 'llm'],
+          default: 'none',
+          description: 'Reorder candidates with a reranking model (cross-encoder = self-hosted endpoint, llm = LLM relevance scoring)',
+        },
+        rerankModel: {
+          type: 'string',
+          description: 'Rerank model (optional)',
+        },
+        rerankEndpoint: {
+          type: 'string',
+          description: 'Cross-encoder rerank URL (defaults to RERANK_API_URL)',
+        },
+        filter: {
+          type: 'object',
+          description: 'Metadata filter, e.g. {"and": [{"field": "customerId", "eq": "acme"}, {"field": "publishedAt", "range": {"gte": "2024-01-01"}}]} (operators: eq, in, range, exists, and, or). A filter in the node input narrows it further.',
         },
       },
       required: ['provider'],
@@ -922,6 +1113,7 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
     inputs: [
       { name: 'query', type: 'string', required: true, description: 'User query' },
       { name: 'context', type: 'any', description: 'Additional context' },
+      { name: 'filter', type: 'object', description: 'Metadata filter (optional, combined with the configured filter)' },
     ],
     outputs: [
       { name: 'answer', type: 'string', description: 'Generated answer' },
@@ -943,30 +1135,91 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
         },
         llmProvider: {
           type: 'string',
-          enum: ['openai', 'anthropic', 'google'],
+          enum: ['openai', 'anthropic', 'google', 'openai_compatible'],
           default: 'openai',
           description: 'LLM provider',
         },
+        llmProviderId: {
+          type: 'string',
+          description: 'Organization LLM provider ID (for openai_compatible)',
+        },
         model: {
           type: 'string',
           default: 'gpt-3.5-turbo',
           description: 'LLM model',
         },
+        embeddingProviderId: {
+          type: 'string',
+          description: 'Organization LLM provider ID for embeddings (default: OpenAI)',
+        },
+        embeddingModel: {
+          type: 'string',
+          description: 'Embedding model (default: text-embedding-ada-002, or the provider\'s first embedding model)',
+        },
         topK: {
           type: 'number',
           default: 5,
           description: 'Number of documents to retrieve',
         },
+        retrievalMode: {
+          type: 'string',
+          enum: ['vector', 'hybrid', 'keyword'],
+          default: 'vector',
+          description: 'vector = embedding similarity, keyword = full-text match (memory and database providers), hybrid = both fused by rank',
+        },
+        candidateCount: {
+          type: 'number',
+          description: 'Documents fetched per search before fusion and reranking (default: 4 x topK)',
+        },
+        rerankProvider: {
+          type: 'string',
+          enum: ['none', 'cohere', 'cross-encoder', 'llm'],
+          default: 'none',
+          description: 'Reorder candidates with a reranking model (cross-encoder = self-hosted endpoint, llm = LLM relevance scoring)',
+        },
+        rerankModel: {
+          type: 'string',
+          description: 'Rerank model (optional)',
+        },
+        rerankEndpoint: {
+          type: 'string',
+          description: 'Cross-encoder rerank URL (defaults to RERANK_API_URL)',
+        },
+        filter: {
+          type: 'object',
+          description: 'Metadata filter, e.g. {"and": [{"field": "customerId", "eq": "acme"}, {"field": "publishedAt", "range": {"gte": "2024-01-01"}}]} (operators: eq, in, range, exists, and, or). A filter in the node input narrows it further.',
+        },
         promptTemplate: {
           type: 'string',
           description: 'RAG prompt template',
           format: 'code',
           default: 'Use the following context to answer the question:\n\nContext:\n{{context}}\n\nQuestion: {{query}}\n\nAnswer:',
         },
+        promptId: {
+          type: 'string',
+          description: 'Prompt library template (replaces the prompt template; {{context}} and {{query}} are filled in)',
+        },
+        promptVersion: {
+          type: 'string',
+          description: 'Pinned prompt version, e.g. 1.2.0 (overrides the label)',
+        },
+        promptLabel: {
+          type: 'string',
+          description: 'Prompt environment label to use, e.g. production or draft (default: production, then latest)',
+        },
+        promptVariables: {
+          type: 'object',
+          description: 'Values for the prompt template variables (node input fields are used too)',
+        },
         postAnswerHook: {
           type: 'string',
           description: 'Code agent ID for post-answer enhancement (runs after LLM generates answer)',
         },
+        stream: {
+          type: 'boolean',
+          description: 'Stream the answer to clients while it is generated (off when a post-answer hook is set)',
+          default: true,
+        },
       },
       required: ['vectorStoreProvider', 'llmProvider'],
     },
@@ -1184,15 +1437,18 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
         },
         provider: {
           type: 'string',
-          enum: ['openai', 'anthropic'],
+          enum: ['openai', 'anthropic', 'openai_compatible'],
           default: 'openai',
           description: 'LLM provider',
         },
+        providerId: {
+          type: 'string',
+          description: 'Organization LLM provider ID (openai_compatible: vLLM, Ollama, LM Studio, Azure OpenAI)',
+        },
         model: {
           type: 'string',
-          enum: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo', 'gpt-4o', 'claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku', 'claude-3-5-sonnet'],
           default: 'gpt-4',
-          description: 'Model name',
+          description: 'Model name, e.g. gpt-4o, claude-3-5-sonnet, or a model of the organization provider',
         },
         temperature: {
           type: 'number',
@@ -1228,6 +1484,22 @@ export const nodeRegistry: Record<string, NodeDefinition> = {
           description: 'System prompt for the agent',
           default: '',
         },
+        promptId: {
+          type: 'string',
+          description: 'Prompt library template (used as the system prompt)',
+        },
+        promptVersion: {
+          type: 'string',
+          description: 'Pinned prompt version, e.g. 1.2.0 (overrides the label)',
+        },
+        promptLabel: {
+          type: 'string',
+          description: 'Prompt environment label to use, e.g. production or draft (default: production, then latest)',
+        },
+        promptVariables: {
+          type: 'object',
+          description: 'Values for the prompt template variables (node input fields are used too)',
+        },
         selectedAgent: {
           type: 'string',
           description: 'Select a pre-configured agent (optional - if not set, agent will be created with above settings)',
@@ -2115,6 +2387,52 @@ This condition would loop as long as there are items in \`input.items\` AND the
       },
     },
   },
+  'logic.execute_workflow': {
+    type: 'logic.execute_workflow',
+    name: 'Execute Workflow',
+    description: 'Run another workflow as a sub-workflow',
+    category: 'logic',
+    icon: 'workflow',
+    inputs: [
+      { name: 'input', type: 'object', description: 'Input passed to the sub-workflow' },
+    ],
+    outputs: [
+      { name: 'output', type: 'object', description: 'Sub-workflow output and child execution ID' },
+    ],
+    config: {
+      type: 'object',
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'ID of the workflow to run',
+          required: true,
+        },
+        version: {
+          type: 'string',
+          description: 'Version number to pin, or "latest"',
+          default: 'latest',
+        },
+        mode: {
+          type: 'string',
+          enum: ['wait', 'fire_and_forget'],
+          description: 'Wait for the sub-workflow result or start it in the background',
+          default: 'wait',
+        },
+        inputMapping: {
+          type: 'object',
+          description: 'Inputs for the sub-workflow (supports {{ $input... }} expressions). Empty passes the node input through',
+        },
+        maxDepth: {
+          type: 'number',
+          description: 'Maximum sub-workflow nesting depth (capped at 5)',
+          default: 5,
+          minimum: 1,
+          maximum: 5,
+        },
+      },
+      required: ['workflowId'],
+    },
+  },
   'logic.human_prompt': {
     type: 'logic.human_prompt',
     name: 'Human Prompt',
@@ -2141,7 +2459,7 @@ This condition would loop as long as there are items in \`input.items\` AND the
         },
         timeout: {
           type: 'number',
-          description: 'Timeout in milliseconds (default: 3600000 = 1 hour)',
+          description: 'Timeout in milliseconds (default: 3600000 = 1 hour); the node fails when no one responds in time',
           default: 3600000,
         },
       },
@@ -2151,25 +2469,53 @@ This condition would loop as long as there are items in \`input.items\` AND the
   'logic.wait': {
     type: 'logic.wait',
     name: 'Wait',
-    description: 'Wait for a specified duration',
+    description: 'Wait for a duration, until a date, or until an external event arrives',
     category: 'logic',
     icon: 'clock',
     inputs: [
       { name: 'input', type: 'any', description: 'Input data' },
     ],
     outputs: [
-      { name: 'output', type: 'any', description: 'Input data (passed through after wait)' },
+      { name: 'output', type: 'any', description: 'Input data (passed through after wait), plus the event payload' },
     ],
     config: {
       type: 'object',
       properties: {
+        mode: {
+          type: 'string',
+          enum: ['duration', 'until', 'days', 'event'],
+          description: 'Wait for a duration, until a timestamp, for N days, or until an event is posted to /api/v1/executions/events/<correlation key>',
+          default: 'duration',
+        },
         duration: {
           type: 'number',
-          description: 'Wait duration in milliseconds',
+          description: 'Wait duration in milliseconds (over 60s the execution is paused and resumed later)',
           default: 1000,
         },
+        until: {
+          type: 'string',
+          description: 'Resume at this ISO timestamp (mode: until)',
+        },
+        days: {
+          type: 'number',
+          description: 'Number of days to wait (mode: days)',
+          default: 1,
+        },
+        correlationKey: {
+          type: 'string',
+          description: 'Key the event is matched by, e.g. approval-{{input.orderId}} (mode: event)',
+        },
+        secret: {
+          type: 'string',
+          description: 'Secret the event must send in the X-Wait-Secret header; when empty a token is generated per wait and shown on the paused execution (mode: event)',
+        },
+        timeout: {
+          type: 'number',
+          description: 'Stop waiting for the event after this many milliseconds, 0 for no timeout (mode: event)',
+          default: 0,
+        },
       },
-      required: ['duration'],
+      required: ['mode'],
     },
   },
   'logic.error_catch': {
@@ -29,6 +29,7 @@ export const queryKeys = {
     all: ['alerts'] as const,
     detail: (id: string) => ['alerts', id] as const,
     history: (id: string) => ['alerts', id, 'history'] as const,
+    errorWorkflow: ['alerts', 'error-workflow'] as const,
   },
   roles: {
     all: ['roles'] as const,
@@ -51,6 +52,20 @@ export const queryKeys = {
     me: ['users', 'me'] as const,
     activity: (filters?: string) => ['users', 'me', 'activity', filters] as const,
   },
+  knowledgeBases: {
+    all: ['knowledge-bases'] as const,
+    detail: (id: string) => ['knowledge-bases', id] as const,
+    sources: (id: string) => ['knowledge-bases', id, 'sources'] as const,
+    documents: (id: string, filters?: string) => ['knowledge-bases', id, 'documents', filters] as const,
+  },
+  llmProviders: {
+    all: ['llm-providers'] as const,
+    detail: (id: string) => ['llm-providers', id] as const,
+  },
+  prompts: {
+    all: ['prompts'] as const,
+    detail: (id: string) => ['prompts', id] as const,
+  },
   apiKeys: {
     all: ['api-keys'] as const,
     detail: (id: string) => ['api-keys', id] as const,
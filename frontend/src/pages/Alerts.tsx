@@ -63,6 +63,34 @@ export default function Alerts() {
     },
   });
 
+  const { data: workflows = [] } = useQuery({
+    queryKey: queryKeys.workflows.all,
+    queryFn: async () => {
+      const response = await api.get('/workflows');
+      return response.data;
+    },
+  });
+
+  const { data: errorWorkflow } = useQuery({
+    queryKey: queryKeys.alerts.errorWorkflow,
+    queryFn: async () => {
+      const response = await api.get('/alerts/error-workflow');
+      return response.data as { workflowId: string | null };
+    },
+  });
+
+  const errorWorkflowMutation = useMutation({
+    mutationFn: async (workflowId: string | null) => {
+      await api.put('/alerts/error-workflow', { workflowId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts.errorWorkflow });
+    },
+    onError: (error) => {
+      console.error('Failed to update error workflow:', error);
+    },
+  });
+
   const toggleMutation = useMutation({
     mutationFn: async ({ alertId, enabled }: { alertId: string; enabled: boolean }) => {
       await api.patch(`/alerts/${alertId}/toggle`, { enabled: !enabled });
@@ -137,6 +165,29 @@ export default function Alerts() {
         </button>
       </div>
 
+      {/* Error workflow */}
+      <div className="mb-8 bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-5 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Error workflow</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Runs whenever an execution fails, with the failed execution and node as input (use an Error Trigger node)
+          </p>
+        </div>
+        <select
+          value={errorWorkflow?.workflowId || ''}
+          onChange={(e) => errorWorkflowMutation.mutate(e.target.value || null)}
+          disabled={errorWorkflowMutation.isPending}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm min-w-[16rem]"
+        >
+          <option value="">None</option>
+          {workflows.map((workflow: { id: string; name: string }) => (
+            <option key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {loading ? (
         <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-sm p-8">
           <div className="flex items-center justify-center">
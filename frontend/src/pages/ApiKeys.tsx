@@ -6,16 +6,28 @@ import { queryKeys } from '../lib/queryKeys';
 interface ApiKey {
   id: string;
   name: string;
-  key: string;
+  keyPrefix: string;
+  key?: string; // Full key, only returned on creation and rotation
   userId?: string;
   organizationId?: string;
-  permissions?: Record<string, unknown>;
+  permissions?: Record<string, string[]> | null;
+  rateLimitPerMinute?: number | null;
   lastUsedAt?: string;
   expiresAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Scope presets; keys without scopes act with their owner's full permissions
+const SCOPE_PRESETS: Record<string, { label: string; permissions?: Record<string, string[]> }> = {
+  full: { label: 'Full access (your permissions)' },
+  ci: {
+    label: 'CI: read workflows, run and read executions',
+    permissions: { workflow: ['read', 'execute'], execution: ['read'] },
+  },
+  read: { label: 'Read only', permissions: { '*': ['read'] } },
+};
+
 interface ApiKeyUsage {
   lastUsedAt?: string;
   createdAt: string;
@@ -34,6 +46,8 @@ export default function ApiKeys() {
   const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null);
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyExpiresAt, setNewKeyExpiresAt] = useState('');
+  const [newKeyScope, setNewKeyScope] = useState('ci');
+  const [newKeyRateLimit, setNewKeyRateLimit] = useState('');
   const [editKeyName, setEditKeyName] = useState('');
   const [editKeyExpiresAt, setEditKeyExpiresAt] = useState('');
 
@@ -66,7 +80,12 @@ export default function ApiKeys() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: { name: string; expiresAt?: string }) => {
+    mutationFn: async (data: {
+      name: string;
+      expiresAt?: string;
+      permissions?: Record<string, string[]>;
+      rateLimitPerMinute?: number;
+    }) => {
       const response = await api.post('/api-keys', data);
       return response.data;
     },
@@ -75,6 +94,8 @@ export default function ApiKeys() {
       setShowCreateModal(false);
       setNewKeyName('');
       setNewKeyExpiresAt('');
+      setNewKeyScope('ci');
+      setNewKeyRateLimit('');
       // Show the newly created key
       setShowKeyModal(data);
     },
@@ -135,6 +156,8 @@ export default function ApiKeys() {
     createMutation.mutate({
       name: newKeyName,
       expiresAt: newKeyExpiresAt || undefined,
+      permissions: SCOPE_PRESETS[newKeyScope].permissions,
+      rateLimitPerMinute: newKeyRateLimit ? parseInt(newKeyRateLimit, 10) : undefined,
     });
   };
 
@@ -185,10 +208,8 @@ export default function ApiKeys() {
     });
   };
 
-  const maskKey = (key: string) => {
-    if (key.length <= 8) return '••••••••';
-    return `${key.substring(0, 8)}${'•'.repeat(key.length - 12)}${key.substring(key.length - 4)}`;
-  };
+  // Only the prefix is stored in readable form
+  const maskKey = (keyPrefix: string) => `${keyPrefix}${'•'.repeat(16)}`;
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -289,15 +310,8 @@ export default function ApiKeys() {
                     </div>
                     <div className="flex items-center gap-2 mb-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
                       <code className="px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg text-sm font-mono text-gray-900 dark:text-gray-100 flex-1">
-                        {maskKey(key.key)}
+                        {maskKey(key.keyPrefix)}
                       </code>
-                      <button
-                        onClick={() => copyToClipboard(key.key)}
-                        className="px-3 py-1.5 text-sm bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 rounded-lg hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors duration-200 font-medium"
-                        title="Copy full key"
-                      >
-                        Copy
-                      </button>
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
                       <p>Created: {new Date(key.createdAt).toLocaleDateString()}</p>
@@ -403,6 +417,35 @@ export default function ApiKeys() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Scopes
+                  </label>
+                  <select
+                    value={newKeyScope}
+                    onChange={(e) => setNewKeyScope(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.entries(SCOPE_PRESETS).map(([value, preset]) => (
+                      <option key={value} value={value}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Rate Limit (requests/minute, optional)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={newKeyRateLimit}
+                    onChange={(e) => setNewKeyRateLimit(e.target.value)}
+                    placeholder="60"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
               </div>
               <div className="flex gap-2 mt-6">
                 <button
@@ -417,6 +460,8 @@ export default function ApiKeys() {
                     setShowCreateModal(false);
                     setNewKeyName('');
                     setNewKeyExpiresAt('');
+                    setNewKeyScope('ci');
+                    setNewKeyRateLimit('');
                   }}
                   className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
                 >
@@ -451,17 +496,15 @@ export default function ApiKeys() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
-                  <div className="flex items-center gap-2">
-                    <code className="flex-1 text-sm bg-gray-50 p-2 rounded font-mono break-all">
-                      {maskKey(keyDetail.key)}
-                    </code>
-                    <button
-                      onClick={() => copyToClipboard(keyDetail.key)}
-                      className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
-                    >
-                      Copy
-                    </button>
-                  </div>
+                  <code className="block text-sm bg-gray-50 p-2 rounded font-mono break-all">
+                    {maskKey(keyDetail.keyPrefix)}
+                  </code>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rate Limit</label>
+                  <p className="text-sm text-gray-900 bg-gray-50 p-2 rounded">
+                    {keyDetail.rateLimitPerMinute ? `${keyDetail.rateLimitPerMinute} requests/minute` : 'Default'}
+                  </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Created At</label>
@@ -632,7 +675,7 @@ export default function ApiKeys() {
                     {showKeyModal.key}
                   </code>
                   <button
-                    onClick={() => copyToClipboard(showKeyModal.key)}
+                    onClick={() => copyToClipboard(showKeyModal.key || '')}
                     className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
                   >
                     Copy
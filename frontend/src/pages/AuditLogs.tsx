@@ -107,7 +107,7 @@ export default function AuditLogs() {
   const getActionBadgeColor = (action: string) => {
     if (action.includes('create')) return 'bg-green-100 text-green-800';
     if (action.includes('update')) return 'bg-blue-100 text-blue-800';
-    if (action.includes('delete')) return 'bg-red-100 text-red-800';
+    if (action.includes('delete') || action.includes('rejected')) return 'bg-red-100 text-red-800';
     if (action.includes('login') || action.includes('logout')) return 'bg-purple-100 text-purple-800';
     if (action.includes('execute')) return 'bg-yellow-100 text-yellow-800';
     if (action.includes('read')) return 'bg-gray-100 text-gray-800';
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Search, Filter, CheckCircle, XCircle, Plug2, Database, MessageSquare, ShoppingCart, Briefcase, Mail } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Search, Filter, CheckCircle, XCircle, Plug2, Database, MessageSquare, ShoppingCart, Briefcase, Mail, Upload, Trash2 } from 'lucide-react';
 import api from '../lib/api';
 
 interface Connector {
@@ -21,6 +21,21 @@ interface Connector {
   }>;
 }
 
+interface CustomConnector {
+  id: string;
+  connectorId: string;
+  name: string;
+  sourceType: 'openapi' | 'postman' | 'manifest';
+  baseUrl: string | null;
+  actionCount: number;
+}
+
+interface ImportPreview {
+  format: 'openapi' | 'postman';
+  manifest: Connector & { baseUrl?: string };
+  warnings: string[];
+}
+
 interface ConnectionStatus {
   [connectorId: string]: {
     connected: boolean;
@@ -44,12 +59,27 @@ const categoryColors: Record<string, string> = {
   productivity: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200',
   'e-commerce': 'bg-pink-100 dark:bg-pink-900/30 text-pink-800 dark:text-pink-200',
   data: 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200',
+  custom: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200',
+};
+
+// Credential fields asked for when connecting a custom connector, by auth type
+const customCredentialFields: Record<string, Array<{ key: string; label: string }>> = {
+  api_key: [{ key: 'apiKey', label: 'API key' }],
+  basic: [
+    { key: 'username', label: 'Username' },
+    { key: 'password', label: 'Password' },
+  ],
+  oauth2: [{ key: 'access_token', label: 'Access token' }],
 };
 
 export default function ConnectorMarketplace() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [connectionStatuses, setConnectionStatuses] = useState<ConnectionStatus>({});
+  const [showImport, setShowImport] = useState(false);
+  const [importForm, setImportForm] = useState({ spec: '', name: '', baseUrl: '' });
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const queryClient = useQueryClient();
 
   // Fetch connectors from backend
   const { data: connectors = [], isLoading } = useQuery<Connector[]>({
@@ -73,6 +103,70 @@ export default function ConnectorMarketplace() {
     },
   });
 
+  // Custom connectors imported by the organization
+  const { data: customConnectors = [] } = useQuery<CustomConnector[]>({
+    queryKey: ['custom-connectors'],
+    queryFn: async () => {
+      const response = await api.get('/connectors/custom');
+      return response.data;
+    },
+  });
+
+  const buildImportRequest = () => {
+    let spec: unknown;
+    try {
+      spec = JSON.parse(importForm.spec);
+    } catch {
+      throw new Error('The spec must be valid JSON (OpenAPI 3 document or Postman collection)');
+    }
+    return {
+      spec,
+      name: importForm.name.trim() || undefined,
+      baseUrl: importForm.baseUrl.trim() || undefined,
+    };
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/connectors/custom/preview', buildImportRequest());
+      return response.data as ImportPreview;
+    },
+    onSuccess: (preview) => setImportPreview(preview),
+    onError: (error: any) => {
+      alert(`Failed to import spec: ${error.response?.data?.error || error.message}`);
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/connectors/custom', buildImportRequest());
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['connectors'] });
+      queryClient.invalidateQueries({ queryKey: ['custom-connectors'] });
+      setShowImport(false);
+      setImportForm({ spec: '', name: '', baseUrl: '' });
+      setImportPreview(null);
+    },
+    onError: (error: any) => {
+      alert(`Failed to create connector: ${error.response?.data?.error || error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/connectors/custom/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['connectors'] });
+      queryClient.invalidateQueries({ queryKey: ['custom-connectors'] });
+    },
+    onError: (error: any) => {
+      alert(`Failed to delete connector: ${error.response?.data?.error || error.message}`);
+    },
+  });
+
   useEffect(() => {
     // Map connections to status object
     const statusMap: ConnectionStatus = {};
@@ -105,6 +199,16 @@ export default function ConnectorMarketplace() {
       if (data.authUrl) {
         // Redirect to OAuth flow
         window.location.href = data.authUrl;
+      } else if (data.requiresManualSetup && customConnectors.some((c) => c.connectorId === connectorId)) {
+        // Custom connectors: store the credentials their auth type needs
+        const credentials: Record<string, string> = {};
+        for (const field of customCredentialFields[data.authType] || []) {
+          const value = prompt(`${field.label} for ${connectorId}`);
+          if (!value) return;
+          credentials[field.key] = value;
+        }
+        await api.post('/connectors/credentials', { connectorId, credentials });
+        queryClient.invalidateQueries({ queryKey: ['connector-connections'] });
       } else if (data.requiresManualSetup) {
         // Show modal or redirect to settings
         alert(`Please configure ${connectorId} credentials in settings. Auth type: ${data.authType}`);
@@ -147,11 +251,20 @@ export default function ConnectorMarketplace() {
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Connector Marketplace</h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Discover and connect to 20+ integrations to automate your workflows
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Connector Marketplace</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Discover and connect to 20+ integrations to automate your workflows
+          </p>
+        </div>
+        <button
+          onClick={() => setShowImport(true)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+        >
+          <Upload className="w-4 h-4" />
+          Import API
+        </button>
       </div>
 
       {/* Search and Filters */}
@@ -211,6 +324,7 @@ export default function ConnectorMarketplace() {
           const Icon = categoryIcons[connector.category] || Plug2;
           const isConnected = connectionStatuses[connector.id]?.connected || false;
           const categoryColor = categoryColors[connector.category] || categoryColors.data;
+          const custom = customConnectors.find((c) => c.connectorId === connector.id);
 
           return (
             <div
@@ -230,9 +344,24 @@ export default function ConnectorMarketplace() {
                     </span>
                   </div>
                 </div>
-                {isConnected && (
-                  <CheckCircle className="w-5 h-5 text-green-500" />
-                )}
+                <div className="flex items-center gap-2">
+                  {isConnected && (
+                    <CheckCircle className="w-5 h-5 text-green-500" />
+                  )}
+                  {custom && (
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete the custom connector ${connector.name}? Workflows using it will fail.`)) {
+                          deleteMutation.mutate(custom.id);
+                        }
+                      }}
+                      title="Delete custom connector"
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               </div>
 
               {/* Description */}
@@ -243,6 +372,7 @@ export default function ConnectorMarketplace() {
               {/* Actions Count */}
               <div className="text-xs text-gray-500 dark:text-gray-500 mb-4">
                 {connector.actions.length} action{connector.actions.length !== 1 ? 's' : ''} available
+                {custom?.baseUrl && <span className="block font-mono truncate">{custom.baseUrl}</span>}
               </div>
 
               {/* Connect Button */}
@@ -272,6 +402,98 @@ export default function ConnectorMarketplace() {
         })}
       </div>
 
+      {/* Import modal */}
+      {showImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold mb-1">Import API</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Paste an OpenAPI 3 document or a Postman collection (JSON). Each operation becomes a connector action.
+            </p>
+            <div className="space-y-4">
+              <textarea
+                value={importForm.spec}
+                onChange={(e) => {
+                  setImportForm({ ...importForm, spec: e.target.value });
+                  setImportPreview(null);
+                }}
+                rows={10}
+                placeholder='{"openapi": "3.0.0", "info": {...}, "paths": {...}}'
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 font-mono text-sm"
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={importForm.name}
+                  onChange={(e) => setImportForm({ ...importForm, name: e.target.value })}
+                  placeholder="Name (defaults to the spec title)"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-sm"
+                />
+                <input
+                  type="text"
+                  value={importForm.baseUrl}
+                  onChange={(e) => setImportForm({ ...importForm, baseUrl: e.target.value })}
+                  placeholder="Base URL (defaults to the spec server)"
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 font-mono text-sm"
+                />
+              </div>
+
+              {importPreview && (
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 text-sm">
+                  <div className="font-medium mb-1">
+                    {importPreview.manifest.name}{' '}
+                    <span className="text-gray-500 font-mono">({importPreview.manifest.id})</span>
+                  </div>
+                  <div className="text-gray-500 mb-2">
+                    {importPreview.format === 'openapi' ? 'OpenAPI' : 'Postman'} · {importPreview.manifest.baseUrl} · auth:{' '}
+                    {importPreview.manifest.auth.type}
+                  </div>
+                  <ul className="max-h-40 overflow-y-auto space-y-1">
+                    {importPreview.manifest.actions.map((action) => (
+                      <li key={action.id}>
+                        <span className="font-mono text-xs">{action.id}</span> — {action.name}
+                      </li>
+                    ))}
+                  </ul>
+                  {importPreview.warnings.length > 0 && (
+                    <ul className="mt-2 text-yellow-700 dark:text-yellow-400 space-y-1">
+                      {importPreview.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => {
+                  setShowImport(false);
+                  setImportPreview(null);
+                }}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => previewMutation.mutate()}
+                disabled={!importForm.spec.trim() || previewMutation.isPending}
+                className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                Preview
+              </button>
+              <button
+                onClick={() => createMutation.mutate()}
+                disabled={!importPreview || createMutation.isPending}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                Create connector
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Empty State */}
       {filteredConnectors.length === 0 && (
         <div className="text-center py-12">
@@ -0,0 +1,732 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../lib/api';
+import { queryKeys } from '../lib/queryKeys';
+import { useModals } from '../lib/modals';
+
+interface KnowledgeBase {
+  id: string;
+  name: string;
+  description?: string | null;
+  dimensions?: number | null;
+  distanceMetric: string;
+  annIndexType: string;
+  embeddingProviderId?: string | null;
+  embeddingModel?: string | null;
+  documentCount: number;
+  sourceCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface KnowledgeSource {
+  id: string;
+  name: string;
+  type: 'file' | 'text';
+  mimeType?: string | null;
+  sizeBytes?: number | null;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkStrategy: string;
+  chunkCount: number;
+  status: 'processing' | 'ready' | 'failed';
+  error?: string | null;
+  createdAt: string;
+}
+
+interface KnowledgeDocument {
+  id: string;
+  sourceId: string | null;
+  text: string;
+  metadata: Record<string, unknown>;
+  dimensions: number;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 20;
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const primaryButtonClassName =
+  'px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 font-medium shadow-md disabled:opacity-50';
+const secondaryButtonClassName =
+  'px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50';
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function formatBytes(bytes?: number | null) {
+  if (!bytes) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const statusClassNames: Record<KnowledgeSource['status'], string> = {
+  ready: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  processing: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+export default function KnowledgeBases() {
+  const queryClient = useQueryClient();
+  const { alert, confirm } = useModals();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newDistanceMetric, setNewDistanceMetric] = useState('cosine');
+  const [newEmbeddingProviderId, setNewEmbeddingProviderId] = useState('');
+  const [newEmbeddingModel, setNewEmbeddingModel] = useState('');
+
+  // Upload form
+  const [uploadMode, setUploadMode] = useState<'file' | 'text'>('file');
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadTitle, setUploadTitle] = useState('');
+  const [uploadText, setUploadText] = useState('');
+  const [chunkSize, setChunkSize] = useState(1000);
+  const [chunkOverlap, setChunkOverlap] = useState(200);
+  const [chunkStrategy, setChunkStrategy] = useState('fixed');
+  const [uploadMetadata, setUploadMetadata] = useState('');
+
+  // Document browser
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [editingDocument, setEditingDocument] = useState<KnowledgeDocument | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const errorMessage = (err: any) => err.response?.data?.error || err.message;
+
+  const { data: knowledgeBases = [], isLoading } = useQuery<KnowledgeBase[]>({
+    queryKey: queryKeys.knowledgeBases.all,
+    queryFn: async () => {
+      const response = await api.get('/knowledge-bases');
+      return response.data;
+    },
+  });
+
+  const selected = knowledgeBases.find((kb) => kb.id === selectedId) || null;
+
+  // Organization LLM providers that can embed the knowledge base
+  const { data: llmProviders = [] } = useQuery({
+    queryKey: queryKeys.llmProviders.all,
+    queryFn: async () => {
+      const response = await api.get('/llm-providers');
+      return response.data as Array<{ id: string; name: string; isPrivate: boolean; enabled: boolean }>;
+    },
+    enabled: showCreateModal || !!selected?.embeddingProviderId,
+  });
+
+  const { data: sources = [] } = useQuery<KnowledgeSource[]>({
+    queryKey: selectedId ? queryKeys.knowledgeBases.sources(selectedId) : [''],
+    queryFn: async () => {
+      const response = await api.get(`/knowledge-bases/${selectedId}/sources`);
+      return response.data;
+    },
+    enabled: !!selectedId,
+  });
+
+  const documentFilters = `${sourceFilter}|${search}|${page}`;
+  const { data: documentPage } = useQuery<{ documents: KnowledgeDocument[]; total: number }>({
+    queryKey: selectedId ? queryKeys.knowledgeBases.documents(selectedId, documentFilters) : [''],
+    queryFn: async () => {
+      const response = await api.get(`/knowledge-bases/${selectedId}/documents`, {
+        params: {
+          sourceId: sourceFilter || undefined,
+          search: search || undefined,
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE,
+        },
+      });
+      return response.data;
+    },
+    enabled: !!selectedId,
+  });
+
+  const invalidateSelected = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.knowledgeBases.all });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: {
+      name: string;
+      description?: string;
+      distanceMetric: string;
+      embeddingProviderId?: string;
+      embeddingModel?: string;
+    }) => {
+      const response = await api.post('/knowledge-bases', data);
+      return response.data as KnowledgeBase;
+    },
+    onSuccess: (knowledgeBase) => {
+      invalidateSelected();
+      setShowCreateModal(false);
+      setNewName('');
+      setNewDescription('');
+      setNewEmbeddingProviderId('');
+      setNewEmbeddingModel('');
+      setSelectedId(knowledgeBase.id);
+    },
+    onError: (err: any) => alert(`Failed to create knowledge base: ${errorMessage(err)}`, 'Error', 'error'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/knowledge-bases/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      invalidateSelected();
+    },
+    onError: (err: any) => alert(`Failed to delete knowledge base: ${errorMessage(err)}`, 'Error', 'error'),
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      let metadata: Record<string, unknown> | undefined;
+      if (uploadMetadata.trim()) {
+        try {
+          metadata = JSON.parse(uploadMetadata);
+        } catch {
+          throw new Error('Metadata must be a JSON object');
+        }
+      }
+
+      const body =
+        uploadMode === 'file'
+          ? { name: uploadFile!.name, file: await readFileAsDataUrl(uploadFile!) }
+          : { name: uploadTitle, text: uploadText };
+
+      const response = await api.post(`/knowledge-bases/${selectedId}/sources`, {
+        ...body,
+        chunkSize,
+        chunkOverlap,
+        chunkStrategy,
+        metadata,
+      });
+      return response.data as KnowledgeSource;
+    },
+    onSuccess: (source) => {
+      invalidateSelected();
+      setUploadFile(null);
+      setUploadTitle('');
+      setUploadText('');
+      alert(`"${source.name}" was split into ${source.chunkCount} chunks.`, 'Upload complete', 'success');
+    },
+    onError: (err: any) => {
+      invalidateSelected();
+      alert(`Upload failed: ${errorMessage(err)}`, 'Error', 'error');
+    },
+  });
+
+  const sourceActionMutation = useMutation({
+    mutationFn: async ({ source, action }: { source: KnowledgeSource; action: 'reprocess' | 'reembed' | 'delete' }) => {
+      if (action === 'delete') {
+        await api.delete(`/knowledge-bases/${selectedId}/sources/${source.id}`);
+      } else {
+        await api.post(`/knowledge-bases/${selectedId}/sources/${source.id}/${action}`, {});
+      }
+    },
+    onSuccess: invalidateSelected,
+    onError: (err: any) => {
+      invalidateSelected();
+      alert(`Operation failed: ${errorMessage(err)}`, 'Error', 'error');
+    },
+  });
+
+  const reembedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post(`/knowledge-bases/${selectedId}/reembed`, {});
+      return response.data as { reembedded: number; dimensions: number | null };
+    },
+    onSuccess: (result) => {
+      invalidateSelected();
+      alert(`Re-embedded ${result.reembedded} chunks (${result.dimensions ?? '-'} dimensions).`, 'Re-embed complete', 'success');
+    },
+    onError: (err: any) => alert(`Re-embed failed: ${errorMessage(err)}`, 'Error', 'error'),
+  });
+
+  const documentMutation = useMutation({
+    mutationFn: async ({ document, text }: { document: KnowledgeDocument; text?: string }) => {
+      if (text === undefined) {
+        await api.delete(`/knowledge-bases/${selectedId}/documents/${document.id}`);
+      } else {
+        await api.put(`/knowledge-bases/${selectedId}/documents/${document.id}`, { text });
+      }
+    },
+    onSuccess: () => {
+      setEditingDocument(null);
+      invalidateSelected();
+    },
+    onError: (err: any) => alert(`Failed to update chunk: ${errorMessage(err)}`, 'Error', 'error'),
+  });
+
+  const handleDelete = async (knowledgeBase: KnowledgeBase) => {
+    const confirmed = await confirm(
+      `Delete "${knowledgeBase.name}" with its ${knowledgeBase.documentCount} chunks? Workflows using it will no longer find documents.`,
+      'Delete knowledge base',
+      'danger'
+    );
+    if (confirmed) {
+      deleteMutation.mutate(knowledgeBase.id);
+    }
+  };
+
+  const handleSourceAction = async (source: KnowledgeSource, action: 'reprocess' | 'reembed' | 'delete') => {
+    if (action === 'delete') {
+      const confirmed = await confirm(`Delete "${source.name}" and its ${source.chunkCount} chunks?`, 'Delete source', 'danger');
+      if (!confirmed) return;
+    }
+    sourceActionMutation.mutate({ source, action });
+  };
+
+  const handleReembed = async () => {
+    const confirmed = await confirm(
+      'Embed every chunk again with the current embedding model? This calls the embedding provider for all chunks.',
+      'Re-embed knowledge base',
+      'warning'
+    );
+    if (confirmed) {
+      reembedMutation.mutate();
+    }
+  };
+
+  const selectKnowledgeBase = (id: string) => {
+    setSelectedId(id);
+    setSourceFilter('');
+    setSearch('');
+    setPage(0);
+  };
+
+  const sourceNames = new Map(sources.map((source) => [source.id, source.name]));
+  const totalPages = Math.max(1, Math.ceil((documentPage?.total || 0) / PAGE_SIZE));
+  const canUpload = uploadMode === 'file' ? !!uploadFile : !!uploadTitle.trim() && !!uploadText.trim();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950 animate-fade-in">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-gray-900 via-gray-800 to-gray-900 dark:from-gray-100 dark:via-gray-200 dark:to-gray-100 bg-clip-text text-transparent">
+              Knowledge Bases
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Upload documents for RAG and semantic search nodes (provider: database, index name: the knowledge base name)
+            </p>
+          </div>
+          <button onClick={() => setShowCreateModal(true)} className={primaryButtonClassName}>
+            + Create Knowledge Base
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Knowledge base list */}
+          <div className="space-y-3">
+            {isLoading ? (
+              <p className="text-gray-600 dark:text-gray-400">Loading knowledge bases...</p>
+            ) : knowledgeBases.length === 0 ? (
+              <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6 text-center">
+                <p className="text-gray-600 dark:text-gray-400">No knowledge bases yet</p>
+              </div>
+            ) : (
+              knowledgeBases.map((kb) => (
+                <button
+                  key={kb.id}
+                  onClick={() => selectKnowledgeBase(kb.id)}
+                  className={`w-full text-left rounded-xl border p-4 transition-all ${
+                    kb.id === selectedId
+                      ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                      : 'border-gray-200/50 dark:border-gray-700/50 bg-white dark:bg-gray-800 hover:border-indigo-300'
+                  }`}
+                >
+                  <p className="font-semibold text-gray-900 dark:text-gray-100">{kb.name}</p>
+                  {kb.description && <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{kb.description}</p>}
+                  <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                    {kb.sourceCount} sources · {kb.documentCount} chunks
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Selected knowledge base */}
+          <div className="lg:col-span-3 space-y-6">
+            {!selected ? (
+              <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-12 text-center text-gray-600 dark:text-gray-400">
+                Select a knowledge base to manage its documents
+              </div>
+            ) : (
+              <>
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6 flex justify-between items-start">
+                  <div>
+                    <h2 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">{selected.name}</h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {selected.documentCount} chunks · {selected.dimensions ?? '-'} dimensions · {selected.distanceMetric} · {selected.annIndexType}
+                      {' · '}
+                      {selected.embeddingProviderId
+                        ? llmProviders.find((provider) => provider.id === selected.embeddingProviderId)?.name || 'Organization provider'
+                        : 'OpenAI'}
+                      {selected.embeddingModel ? ` (${selected.embeddingModel})` : ''}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleReembed}
+                      disabled={reembedMutation.isPending || selected.documentCount === 0}
+                      className={secondaryButtonClassName}
+                    >
+                      {reembedMutation.isPending ? 'Re-embedding...' : 'Re-embed all'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(selected)}
+                      className="px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {/* Upload */}
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Add content</h3>
+                    <div className="flex gap-2">
+                      {(['file', 'text'] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => setUploadMode(mode)}
+                          className={`px-3 py-1 text-sm rounded-md ${
+                            uploadMode === mode ? 'bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {mode === 'file' ? 'Upload file' : 'Paste text'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {uploadMode === 'file' ? (
+                    <div>
+                      <input
+                        type="file"
+                        accept=".pdf,.docx,.txt,.md,.csv,.json,.html"
+                        onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
+                        className="block w-full text-sm text-gray-700 dark:text-gray-300"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">PDF (scanned PDFs use OCR), DOCX or text files, up to 7 MB</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={uploadTitle}
+                        onChange={(e) => setUploadTitle(e.target.value)}
+                        placeholder="Title"
+                        className={inputClassName}
+                      />
+                      <textarea
+                        value={uploadText}
+                        onChange={(e) => setUploadText(e.target.value)}
+                        placeholder="Content"
+                        rows={6}
+                        className={`${inputClassName} font-mono text-sm`}
+                      />
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      Chunk size
+                      <input type="number" value={chunkSize} onChange={(e) => setChunkSize(parseInt(e.target.value) || 1000)} className={inputClassName} />
+                    </label>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      Overlap
+                      <input type="number" value={chunkOverlap} onChange={(e) => setChunkOverlap(parseInt(e.target.value) || 0)} className={inputClassName} />
+                    </label>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      Strategy
+                      <select value={chunkStrategy} onChange={(e) => setChunkStrategy(e.target.value)} className={inputClassName}>
+                        <option value="fixed">Fixed</option>
+                        <option value="sentence">Sentence</option>
+                        <option value="paragraph">Paragraph</option>
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      Metadata (JSON)
+                      <input
+                        type="text"
+                        value={uploadMetadata}
+                        onChange={(e) => setUploadMetadata(e.target.value)}
+                        placeholder='{"customerId": "acme"}'
+                        className={inputClassName}
+                      />
+                    </label>
+                  </div>
+
+                  <div className="mt-4 flex justify-end">
+                    <button onClick={() => uploadMutation.mutate()} disabled={!canUpload || uploadMutation.isPending} className={primaryButtonClassName}>
+                      {uploadMutation.isPending ? 'Processing...' : 'Add to knowledge base'}
+                    </button>
+                  </div>
+                </div>
+
+                {/* Sources */}
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Sources</h3>
+                  {sources.length === 0 ? (
+                    <p className="text-sm text-gray-500">No sources yet. Documents stored by workflows appear under chunks only.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2">Name</th>
+                          <th>Size</th>
+                          <th>Chunks</th>
+                          <th>Status</th>
+                          <th className="text-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sources.map((source) => (
+                          <tr key={source.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-gray-100">
+                            <td className="py-2">
+                              <button
+                                onClick={() => {
+                                  setSourceFilter(source.id);
+                                  setPage(0);
+                                }}
+                                className="hover:text-indigo-600 text-left"
+                              >
+                                {source.name}
+                              </button>
+                              <p className="text-xs text-gray-500">
+                                {source.chunkStrategy}, {source.chunkSize}/{source.chunkOverlap}
+                              </p>
+                            </td>
+                            <td>{formatBytes(source.sizeBytes)}</td>
+                            <td>{source.chunkCount}</td>
+                            <td>
+                              <span className={`px-2 py-0.5 rounded text-xs ${statusClassNames[source.status]}`} title={source.error || undefined}>
+                                {source.status}
+                              </span>
+                            </td>
+                            <td className="text-right space-x-2 whitespace-nowrap">
+                              <button onClick={() => handleSourceAction(source, 'reprocess')} disabled={sourceActionMutation.isPending} className={secondaryButtonClassName}>
+                                Re-chunk
+                              </button>
+                              <button onClick={() => handleSourceAction(source, 'reembed')} disabled={sourceActionMutation.isPending} className={secondaryButtonClassName}>
+                                Re-embed
+                              </button>
+                              <button onClick={() => handleSourceAction(source, 'delete')} disabled={sourceActionMutation.isPending} className="text-red-600 text-sm hover:underline">
+                                Delete
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                {/* Chunks */}
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6">
+                  <div className="flex flex-wrap gap-3 justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                      Chunks {documentPage ? `(${documentPage.total})` : ''}
+                    </h3>
+                    <div className="flex gap-2">
+                      <select
+                        value={sourceFilter}
+                        onChange={(e) => {
+                          setSourceFilter(e.target.value);
+                          setPage(0);
+                        }}
+                        className={`${inputClassName} w-48`}
+                      >
+                        <option value="">All sources</option>
+                        {sources.map((source) => (
+                          <option key={source.id} value={source.id}>
+                            {source.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => {
+                          setSearch(e.target.value);
+                          setPage(0);
+                        }}
+                        placeholder="Search text..."
+                        className={`${inputClassName} w-56`}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    {documentPage?.documents.map((document) => (
+                      <div key={document.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                        <div className="flex justify-between text-xs text-gray-500 mb-2">
+                          <span>
+                            {document.sourceId ? sourceNames.get(document.sourceId) || document.sourceId : 'Stored by workflow'}
+                            {document.metadata.chunkIndex !== undefined && ` · chunk ${String(document.metadata.chunkIndex)}`}
+                            {` · ${document.text.length} chars`}
+                          </span>
+                          <span className="space-x-3">
+                            <button
+                              onClick={() => {
+                                setEditingDocument(document);
+                                setEditText(document.text);
+                              }}
+                              className="text-indigo-600 hover:underline"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={async () => {
+                                if (await confirm('Delete this chunk?', 'Delete chunk', 'danger')) {
+                                  documentMutation.mutate({ document });
+                                }
+                              }}
+                              className="text-red-600 hover:underline"
+                            >
+                              Delete
+                            </button>
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap line-clamp-6">{document.text}</p>
+                      </div>
+                    ))}
+                    {documentPage && documentPage.documents.length === 0 && <p className="text-sm text-gray-500">No chunks found</p>}
+                  </div>
+
+                  <div className="flex justify-between items-center mt-4 text-sm text-gray-600 dark:text-gray-400">
+                    <button onClick={() => setPage(page - 1)} disabled={page === 0} className={secondaryButtonClassName}>
+                      Previous
+                    </button>
+                    <span>
+                      Page {page + 1} of {totalPages}
+                    </span>
+                    <button onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages} className={secondaryButtonClassName}>
+                      Next
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Create modal */}
+        {showCreateModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-md w-full p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-gray-100">Create Knowledge Base</h2>
+              <div className="space-y-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Name
+                  <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="e.g., support-articles"
+                    className={inputClassName}
+                  />
+                  <span className="text-xs text-gray-500">Used as the index name in RAG and search nodes</span>
+                </label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Description
+                  <input type="text" value={newDescription} onChange={(e) => setNewDescription(e.target.value)} className={inputClassName} />
+                </label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Distance metric
+                  <select value={newDistanceMetric} onChange={(e) => setNewDistanceMetric(e.target.value)} className={inputClassName}>
+                    <option value="cosine">Cosine</option>
+                    <option value="l2">Euclidean (L2)</option>
+                    <option value="inner_product">Inner product</option>
+                  </select>
+                </label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Embedding provider
+                  <select value={newEmbeddingProviderId} onChange={(e) => setNewEmbeddingProviderId(e.target.value)} className={inputClassName}>
+                    <option value="">OpenAI (default)</option>
+                    {llmProviders.map((provider) => (
+                      <option key={provider.id} value={provider.id} disabled={!provider.enabled}>
+                        {provider.name}{provider.isPrivate ? ' (private)' : ''}{provider.enabled ? '' : ' - disabled'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Embedding model
+                  <input
+                    type="text"
+                    value={newEmbeddingModel}
+                    onChange={(e) => setNewEmbeddingModel(e.target.value)}
+                    placeholder="Provider default"
+                    className={inputClassName}
+                  />
+                  <span className="text-xs text-gray-500">Used for every upload and re-embed; RAG nodes querying this knowledge base should use the same model</span>
+                </label>
+              </div>
+              <div className="flex justify-end gap-2 mt-6">
+                <button onClick={() => setShowCreateModal(false)} className={secondaryButtonClassName}>
+                  Cancel
+                </button>
+                <button
+                  onClick={() =>
+                    createMutation.mutate({
+                      name: newName.trim(),
+                      description: newDescription || undefined,
+                      distanceMetric: newDistanceMetric,
+                      embeddingProviderId: newEmbeddingProviderId || undefined,
+                      embeddingModel: newEmbeddingModel.trim() || undefined,
+                    })
+                  }
+                  disabled={!newName.trim() || createMutation.isPending}
+                  className={primaryButtonClassName}
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Edit chunk modal */}
+        {editingDocument && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-2xl w-full p-6">
+              <h2 className="text-xl font-semibold mb-1 text-gray-900 dark:text-gray-100">Edit chunk</h2>
+              <p className="text-sm text-gray-500 mb-4">Saving a changed text embeds the chunk again.</p>
+              <textarea value={editText} onChange={(e) => setEditText(e.target.value)} rows={12} className={`${inputClassName} font-mono text-sm`} />
+              <pre className="mt-3 text-xs bg-gray-50 dark:bg-gray-900 p-2 rounded overflow-x-auto text-gray-600 dark:text-gray-400">
+                {JSON.stringify(editingDocument.metadata, null, 2)}
+              </pre>
+              <div className="flex justify-end gap-2 mt-4">
+                <button onClick={() => setEditingDocument(null)} className={secondaryButtonClassName}>
+                  Cancel
+                </button>
+                <button
+                  onClick={() => documentMutation.mutate({ document: editingDocument, text: editText })}
+                  disabled={!editText.trim() || documentMutation.isPending}
+                  className={primaryButtonClassName}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../lib/api';
+import { queryKeys } from '../lib/queryKeys';
+import { useModals } from '../lib/modals';
+
+interface ProviderModel {
+  id: string;
+  type?: 'chat' | 'embedding';
+  label?: string;
+  pricing?: { input: number; output: number };
+}
+
+interface LLMProvider {
+  id: string;
+  name: string;
+  type: 'openai_compatible' | 'azure_openai';
+  baseUrl: string;
+  apiVersion: string | null;
+  models: ProviderModel[];
+  isPrivate: boolean;
+  enabled: boolean;
+  hasApiKey: boolean;
+  headerNames: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number;
+  models: string[];
+  error?: string;
+}
+
+interface ProviderForm {
+  name: string;
+  type: LLMProvider['type'];
+  baseUrl: string;
+  apiKey: string;
+  apiVersion: string;
+  headers: string; // JSON object
+  models: string; // JSON array
+  isPrivate: boolean;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  type: 'openai_compatible',
+  baseUrl: '',
+  apiKey: '',
+  apiVersion: '',
+  headers: '',
+  models: '[]',
+  isPrivate: true,
+  enabled: true,
+};
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const primaryButtonClassName =
+  'px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 font-medium shadow-md disabled:opacity-50';
+const secondaryButtonClassName =
+  'px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50';
+
+export default function LLMProviders() {
+  const queryClient = useQueryClient();
+  const { alert, confirm } = useModals();
+  const [editing, setEditing] = useState<LLMProvider | 'new' | null>(null);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+  const [testResults, setTestResults] = useState<Record<string, ConnectionTestResult>>({});
+
+  const { data: providers = [], isLoading } = useQuery<LLMProvider[]>({
+    queryKey: queryKeys.llmProviders.all,
+    queryFn: async () => {
+      const response = await api.get('/llm-providers');
+      return response.data;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: Record<string, unknown> }) => {
+      const response = id ? await api.put(`/llm-providers/${id}`, data) : await api.post('/llm-providers', data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.llmProviders.all });
+      setEditing(null);
+    },
+    onError: (err: any) => {
+      alert(`Failed to save LLM provider: ${err.response?.data?.error || err.message}`, 'Error', 'error');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/llm-providers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.llmProviders.all });
+    },
+    onError: (err: any) => {
+      alert(`Failed to delete LLM provider: ${err.response?.data?.error || err.message}`, 'Error', 'error');
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post(`/llm-providers/${id}/test`);
+      return { id, result: response.data as ConnectionTestResult };
+    },
+    onSuccess: ({ id, result }) => {
+      setTestResults((previous) => ({ ...previous, [id]: result }));
+    },
+    onError: (err: any) => {
+      alert(`Failed to test LLM provider: ${err.response?.data?.error || err.message}`, 'Error', 'error');
+    },
+  });
+
+  const openEditor = (provider: LLMProvider | 'new') => {
+    setForm(
+      provider === 'new'
+        ? EMPTY_FORM
+        : {
+            name: provider.name,
+            type: provider.type,
+            baseUrl: provider.baseUrl,
+            apiKey: '',
+            apiVersion: provider.apiVersion || '',
+            headers: '',
+            models: JSON.stringify(provider.models, null, 2),
+            isPrivate: provider.isPrivate,
+            enabled: provider.enabled,
+          }
+    );
+    setEditing(provider);
+  };
+
+  const handleSave = async () => {
+    let models: ProviderModel[];
+    let headers: Record<string, string> | undefined;
+    try {
+      models = JSON.parse(form.models || '[]');
+      headers = form.headers.trim() ? JSON.parse(form.headers) : undefined;
+    } catch {
+      await alert('Models and headers must be valid JSON', 'Invalid JSON', 'error');
+      return;
+    }
+
+    const isNew = editing === 'new';
+    saveMutation.mutate({
+      id: isNew ? undefined : (editing as LLMProvider).id,
+      data: {
+        name: form.name.trim(),
+        type: form.type,
+        baseUrl: form.baseUrl.trim(),
+        apiVersion: form.apiVersion.trim() || null,
+        models,
+        isPrivate: form.isPrivate,
+        enabled: form.enabled,
+        // Left empty when editing: keep the stored secrets
+        ...(form.apiKey || isNew ? { apiKey: form.apiKey || null } : {}),
+        ...(headers || isNew ? { headers: headers || null } : {}),
+      },
+    });
+  };
+
+  const handleDelete = async (provider: LLMProvider) => {
+    const confirmed = await confirm(
+      `Delete "${provider.name}"? Nodes using this provider will fail until they are reconfigured.`,
+      'Delete LLM Provider',
+      'danger'
+    );
+    if (confirmed) {
+      deleteMutation.mutate(provider.id);
+    }
+  };
+
+  // Add models the endpoint reported that are not in the catalogue yet
+  const addDiscoveredModels = (provider: LLMProvider) => {
+    const known = new Set(provider.models.map((model) => model.id));
+    const discovered = (testResults[provider.id]?.models || []).filter((id) => !known.has(id));
+    saveMutation.mutate({
+      id: provider.id,
+      data: { models: [...provider.models, ...discovered.map((id) => ({ id, type: 'chat' as const }))] },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950 animate-fade-in">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-gray-900 via-gray-800 to-gray-900 dark:from-gray-100 dark:via-gray-200 dark:to-gray-100 bg-clip-text text-transparent">
+              LLM Providers
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              OpenAI-compatible endpoints (vLLM, Ollama, LM Studio, Azure OpenAI) for LLM, embedding, agent and RAG nodes
+            </p>
+          </div>
+          <button onClick={() => openEditor('new')} className={primaryButtonClassName}>
+            + Add Provider
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-600 dark:text-gray-400">Loading LLM providers...</p>
+        ) : providers.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-6 text-center">
+            <p className="text-gray-600 dark:text-gray-400">No LLM providers yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {providers.map((provider) => {
+              const testResult = testResults[provider.id];
+              const knownModels = new Set(provider.models.map((model) => model.id));
+              const newModels = testResult?.models.filter((id) => !knownModels.has(id)) || [];
+
+              return (
+                <div key={provider.id} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200/50 dark:border-gray-700/50 p-5">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-gray-900 dark:text-gray-100">{provider.name}</p>
+                        <span className="text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {provider.type === 'azure_openai' ? 'Azure OpenAI' : 'OpenAI-compatible'}
+                        </span>
+                        {provider.isPrivate && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">Private</span>
+                        )}
+                        {!provider.enabled && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300">Disabled</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 font-mono truncate">{provider.baseUrl}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        ID: <span className="font-mono">{provider.id}</span>
+                        {provider.hasApiKey && ' · API key set'}
+                        {provider.headerNames.length > 0 && ` · Headers: ${provider.headerNames.join(', ')}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => testMutation.mutate(provider.id)}
+                        disabled={testMutation.isPending || !provider.enabled}
+                        className={secondaryButtonClassName}
+                      >
+                        Test
+                      </button>
+                      <button onClick={() => openEditor(provider)} className={secondaryButtonClassName}>
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(provider)} className="text-red-600 text-sm hover:underline px-2">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {provider.models.length === 0 ? (
+                      <span className="text-sm text-gray-500">No models in the catalogue</span>
+                    ) : (
+                      provider.models.map((model) => (
+                        <span key={model.id} className="text-xs px-2 py-1 rounded border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                          {model.label || model.id}
+                          {model.type === 'embedding' && ' (embedding)'}
+                          {model.pricing && ` · $${model.pricing.input}/$${model.pricing.output} per 1M`}
+                        </span>
+                      ))
+                    )}
+                  </div>
+
+                  {testResult && (
+                    <div
+                      className={`mt-3 text-sm p-3 rounded ${
+                        testResult.ok
+                          ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                          : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                      }`}
+                    >
+                      {testResult.ok
+                        ? `Connected in ${testResult.latencyMs} ms · ${testResult.models.length} models available`
+                        : `Connection failed: ${testResult.error}`}
+                      {newModels.length > 0 && (
+                        <button onClick={() => addDiscoveredModels(provider)} className="ml-3 underline">
+                          Add {newModels.length} new model{newModels.length === 1 ? '' : 's'} to the catalogue
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Create / edit modal */}
+        {editing && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-opacity-70 flex items-center justify-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+              <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-gray-100">
+                {editing === 'new' ? 'Add LLM Provider' : `Edit ${editing.name}`}
+              </h2>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Name
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g., vLLM cluster"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Type
+                    <select
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as LLMProvider['type'] })}
+                      className={inputClassName}
+                    >
+                      <option value="openai_compatible">OpenAI-compatible (vLLM, Ollama, LM Studio)</option>
+                      <option value="azure_openai">Azure OpenAI</option>
+                    </select>
+                  </label>
+                </div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Base URL
+                  <input
+                    type="text"
+                    value={form.baseUrl}
+                    onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+                    placeholder={form.type === 'azure_openai' ? 'https://my-resource.openai.azure.com' : 'http://vllm.internal:8000/v1'}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    API key
+                    <input
+                      type="password"
+                      value={form.apiKey}
+                      onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                      placeholder={editing !== 'new' && editing.hasApiKey ? 'Leave empty to keep the current key' : 'Optional for local servers'}
+                      className={inputClassName}
+                    />
+                  </label>
+                  {form.type === 'azure_openai' && (
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      API version
+                      <input
+                        type="text"
+                        value={form.apiVersion}
+                        onChange={(e) => setForm({ ...form, apiVersion: e.target.value })}
+                        placeholder="2024-06-01"
+                        className={inputClassName}
+                      />
+                    </label>
+                  )}
+                </div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Headers (JSON)
+                  <textarea
+                    value={form.headers}
+                    onChange={(e) => setForm({ ...form, headers: e.target.value })}
+                    rows={3}
+                    placeholder={
+                      editing !== 'new' && editing.headerNames.length > 0
+                        ? `Leave empty to keep ${editing.headerNames.join(', ')}`
+                        : '{"X-Tenant": "acme"}'
+                    }
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Model catalogue (JSON)
+                  <textarea
+                    value={form.models}
+                    onChange={(e) => setForm({ ...form, models: e.target.value })}
+                    rows={6}
+                    className={`${inputClassName} font-mono text-sm`}
+                  />
+                  <span className="text-xs text-gray-500">
+                    {'[{"id": "llama-3-70b", "type": "chat", "pricing": {"input": 0.2, "output": 0.4}}, {"id": "bge-large", "type": "embedding"}]'}
+                    {' '}— pricing in USD per 1M tokens; unpriced models are logged at no cost
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={form.isPrivate} onChange={(e) => setForm({ ...form, isPrivate: e.target.checked })} />
+                  Runs inside our network (allowed in workflows restricted to private LLM providers)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} />
+                  Enabled
+                </label>
+              </div>
+              <div className="flex justify-end gap-2 mt-6">
+                <button onClick={() => setEditing(null)} className={secondaryButtonClassName}>
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!form.name.trim() || !form.baseUrl.trim() || saveMutation.isPending}
+                  className={primaryButtonClassName}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
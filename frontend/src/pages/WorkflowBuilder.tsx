@@ -27,7 +27,7 @@ import { createId } from '@paralleldrive/cuid2';
 import api from '../lib/api';
 import { queryKeys } from '../lib/queryKeys';
 import { useWebSocket, ExecutionEvent } from '../hooks/useWebSocket';
-import { WorkflowGroup } from '@sos/shared';
+import { WorkflowGroup, WorkflowSettings, ConcurrencyPolicy } from '@sos/shared';
 import GroupNode from '../components/nodes/GroupNode';
 import { getNodeDefinition } from '../lib/nodes/nodeRegistry';
 
@@ -52,6 +52,7 @@ function WorkflowBuilderContent() {
   const [workflowName, setWorkflowName] = useState('');
   const [workflowDescription, setWorkflowDescription] = useState('');
   const [workflowTags, setWorkflowTags] = useState<string[]>([]);
+  const [workflowSettings, setWorkflowSettings] = useState<WorkflowSettings>({});
   const [tagInput, setTagInput] = useState('');
   const [groups, setGroups] = useState<WorkflowGroup[]>([]);
   const [selectedGroup, setSelectedGroup] = useState<WorkflowGroup | null>(null);
@@ -73,9 +74,22 @@ function WorkflowBuilderContent() {
   const [completedNodes, setCompletedNodes] = useState<Set<string>>(new Set());
   const [errorNodes, setErrorNodes] = useState<Set<string>>(new Set());
   const [activeEdges, setActiveEdges] = useState<Set<string>>(new Set());
+  // Text streamed so far by LLM and RAG nodes of the current run
+  const [liveOutputs, setLiveOutputs] = useState<Record<string, string>>({});
 
   // WebSocket connection for real-time execution updates
   const { isConnected, onEvent } = useWebSocket(executionId);
+
+  useEffect(() => {
+    setLiveOutputs({});
+    if (!executionId) return;
+
+    return onEvent('node_chunk', (event: ExecutionEvent) => {
+      if (!event.nodeId) return;
+      const { chunk = '', reset } = (event.data || {}) as { chunk?: string; reset?: boolean };
+      setLiveOutputs((prev) => ({ ...prev, [event.nodeId!]: reset ? chunk : (prev[event.nodeId!] || '') + chunk }));
+    });
+  }, [executionId, onEvent]);
   
   // Clipboard for copy/paste
   const clipboardRef = useRef<{ nodes: Node[]; edges: Edge[] } | null>(null);
@@ -307,6 +321,7 @@ function WorkflowBuilderContent() {
       if (workflow.name) setWorkflowName(workflow.name);
       if (workflow.description) setWorkflowDescription(workflow.description);
       if (workflow.tags) setWorkflowTags(workflow.tags);
+      setWorkflowSettings(workflow.settings || {});
       if (workflow.definition.groups) setGroups(workflow.definition.groups);
       
       // Restore viewport if saved
@@ -332,6 +347,7 @@ function WorkflowBuilderContent() {
       setWorkflowName('');
       setWorkflowDescription('');
       setWorkflowTags([]);
+      setWorkflowSettings({});
       setGroups([]);
     }
   }, [workflow, id, setViewport, fitView]);
@@ -482,6 +498,10 @@ function WorkflowBuilderContent() {
       workflowData.tags = workflowTags;
     }
 
+    if (Object.keys(workflowSettings).length > 0) {
+      workflowData.settings = workflowSettings;
+    }
+
     saveMutation.mutate(workflowData);
   };
 
@@ -711,11 +731,16 @@ function WorkflowBuilderContent() {
       setExecutingNodes(new Set());
     });
 
+    const unsubscribeExecutionCancelled = onEvent('execution_cancelled', () => {
+      setExecutingNodes(new Set());
+    });
+
     return () => {
       unsubscribeNodeStart();
       unsubscribeNodeComplete();
       unsubscribeNodeError();
       unsubscribeExecutionComplete();
+      unsubscribeExecutionCancelled();
     };
   }, [executionId, edges, onEvent]);
 
@@ -951,6 +976,110 @@ function WorkflowBuilderContent() {
                   ))}
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Error Handling
+                </label>
+                <label className="flex items-center gap-2 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={workflowSettings.errorHandling?.continueOnError || false}
+                    onChange={(e) =>
+                      setWorkflowSettings({
+                        ...workflowSettings,
+                        errorHandling: { ...workflowSettings.errorHandling, continueOnError: e.target.checked },
+                      })
+                    }
+                    className="w-4 h-4 text-indigo-600 border-gray-300 dark:border-gray-600 rounded focus:ring-indigo-500 dark:bg-gray-700"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    Continue on error (failed nodes pass their error to the next nodes)
+                  </span>
+                </label>
+                <select
+                  value={workflowSettings.errorHandling?.errorPath || ''}
+                  onChange={(e) =>
+                    setWorkflowSettings({
+                      ...workflowSettings,
+                      errorHandling: {
+                        continueOnError: workflowSettings.errorHandling?.continueOnError || false,
+                        errorPath: e.target.value || undefined,
+                      },
+                    })
+                  }
+                  className="w-full px-4 py-2.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500/50 dark:focus:border-indigo-500/50 transition-all duration-200 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">No error path</option>
+                  {nodes.map((node) => (
+                    <option key={node.id} value={node.id}>
+                      {(node.data as unknown as { label?: string })?.label || node.id}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Node to run (with everything after it) when an unhandled node failure stops the workflow
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Concurrency
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    value={workflowSettings.concurrency?.limit || ''}
+                    onChange={(e) => {
+                      const limit = parseInt(e.target.value);
+                      setWorkflowSettings({
+                        ...workflowSettings,
+                        concurrency: limit > 0 ? { ...workflowSettings.concurrency, limit } : undefined,
+                      });
+                    }}
+                    placeholder="No limit"
+                    className="w-32 px-4 py-2.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500/50 dark:focus:border-indigo-500/50 transition-all duration-200 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
+                  />
+                  <select
+                    value={workflowSettings.concurrency?.policy || 'queue'}
+                    disabled={!workflowSettings.concurrency?.limit}
+                    onChange={(e) =>
+                      setWorkflowSettings({
+                        ...workflowSettings,
+                        concurrency: {
+                          limit: workflowSettings.concurrency?.limit || 1,
+                          policy: e.target.value as ConcurrencyPolicy,
+                        },
+                      })
+                    }
+                    className="flex-1 px-4 py-2.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500/50 dark:focus:border-indigo-500/50 transition-all duration-200 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+                  >
+                    <option value="queue">Queue new runs until a slot is free</option>
+                    <option value="skip">Skip new runs</option>
+                    <option value="replace">Cancel running runs and start the new one</option>
+                  </select>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Max runs of this workflow at a time, and what happens to runs over the limit
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Data Residency
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={workflowSettings.privateLlmOnly || false}
+                    onChange={(e) =>
+                      setWorkflowSettings({ ...workflowSettings, privateLlmOnly: e.target.checked || undefined })
+                    }
+                    className="w-4 h-4 text-indigo-600 border-gray-300 dark:border-gray-600 rounded focus:ring-indigo-500 dark:bg-gray-700"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    Private LLM providers only (AI nodes fail unless they use a provider marked private)
+                  </span>
+                </label>
+              </div>
             </div>
           </div>
         )}
@@ -1072,6 +1201,8 @@ function WorkflowBuilderContent() {
         {showConfig && selectedNode && (
           <NodeConfigPanel
             node={selectedNode}
+            workflowId={id}
+            executionId={executionId}
             onUpdate={handleUpdateNode}
             onClose={() => {
               setSelectedNode(null);
@@ -1167,6 +1298,12 @@ function WorkflowBuilderContent() {
         {/* Workflow Chat */}
         {showChat && (
           <WorkflowChat
+            liveOutputs={Object.entries(liveOutputs).map(([nodeId, text]) => ({
+              nodeId,
+              label: (nodes.find((node) => node.id === nodeId)?.data as unknown as { label?: string })?.label || nodeId,
+              text,
+              streaming: executingNodes.has(nodeId),
+            }))}
             onNodesGenerated={handleNodesFromChat}
             onClose={() => setShowChat(false)}
           />
@@ -74,6 +74,15 @@ export const WorkflowSettingsSchema = z.object({
       errorPath: z.string().optional(),
     })
     .optional(),
+  variables: z.record(z.unknown()).optional(),
+  maxConcurrency: z.number().int().positive().max(50).optional(),
+  concurrency: z
+    .object({
+      limit: z.number().int().positive(),
+      policy: z.enum(['queue', 'skip', 'replace']).optional(),
+    })
+    .optional(),
+  privateLlmOnly: z.boolean().optional(),
 });
 
 export const CreateWorkflowSchema = z.object({
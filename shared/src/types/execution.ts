@@ -6,6 +6,9 @@ export type ExecutionStatus =
   | 'failed'
   | 'cancelled';
 
+// Queued runs are picked in this order (manual first, scheduled last)
+export type ExecutionPriority = 'manual' | 'webhook' | 'normal' | 'scheduled';
+
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
@@ -53,6 +53,8 @@ export interface NodeExecutionContext {
   input: Record<string, unknown>;
   previousOutputs: Record<string, unknown>;
   config: Record<string, unknown>;
+  // Aborted when the execution is cancelled or exceeds its workflow timeout
+  signal?: AbortSignal;
 }
 
 export interface NodeExecutionResult {
@@ -68,5 +70,9 @@ export interface NodeExecutionResult {
     tokensUsed?: number;
     cost?: number;
   };
+  // Set when the node cannot finish yet; the execution pauses and frees its worker
+  pause?: {
+    reason: string;
+  };
 }
 
@@ -54,8 +54,12 @@ export interface WorkflowEdge {
   animated?: boolean;
 }
 
+// When a concurrency limit is hit: wait for a free slot, drop the new run,
+// or cancel the running runs and start the new one
+export type ConcurrencyPolicy = 'queue' | 'skip' | 'replace';
+
 export interface WorkflowSettings {
-  timeout?: number;
+  timeout?: number; // Max run time in milliseconds; longer runs are aborted and failed
   retry?: {
     enabled: boolean;
     maxAttempts: number;
@@ -66,6 +70,14 @@ export interface WorkflowSettings {
     continueOnError: boolean;
     errorPath?: string;
   };
+  variables?: Record<string, unknown>; // Available to node expressions as $vars
+  maxConcurrency?: number; // Max nodes running in parallel per execution (default: 5)
+  concurrency?: {
+    limit: number; // Max runs of this workflow at a time
+    policy?: ConcurrencyPolicy; // When the limit is hit (default: queue)
+  };
+  // Model, embedding and vector store calls must stay on private organization LLM providers
+  privateLlmOnly?: boolean;
 }
 
 export interface WorkflowVersion {